@@ -136,6 +136,9 @@ const defineVars = {
   // builds working without an extra Secret/env-var configuration step.
   'import.meta.env.VITE_CLERK_PUBLISHABLE_KEY': JSON.stringify(process.env.VITE_CLERK_PUBLISHABLE_KEY || 'pk_live_Y2xlcmsuY29uZmlnLm15cmVjcnVpdGVyLmFpJA'),
   'import.meta.env.VITE_CHANNELS_API_URL': JSON.stringify(process.env.VITE_CHANNELS_API_URL || ''),
+  // Opt-in for a config manager that already accepts the contract's
+  // cb_pending_server sections (scheduling, localization)
+  'import.meta.env.VITE_SAVE_PENDING_SECTIONS': JSON.stringify(process.env.VITE_SAVE_PENDING_SECTIONS || ''),
 
   // Node.js environment compatibility
   'process.env.NODE_ENV': JSON.stringify(isDevelopment ? 'development' : 'production')
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * picasso-config — headless validate / diff / normalize / lint / migrate for tenant
+ * config JSON files, for pre-commit hooks and CI. No AWS access needed.
+ *
+ * Thin CLI shell: the commands live at src/lib/cli/ so they are unit-tested
+ * inside the project's vitest include scope.
+ *
+ * Exit codes: 0 = clean · 1 = problems found (or files differ) · 2 = usage/IO error.
+ *
+ * Usage: npm run picasso-config -- <command> [options] <paths...>
+ *        (npm run picasso-config -- --help for the full list)
+ */
+import { readFile, readdir, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { runCli, type CliIO } from '../src/lib/cli';
+
+async function listJsonFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listJsonFiles(path)));
+    } else if (entry.name.endsWith('.json')) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+const nodeIO: CliIO = {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  async expandPath(path) {
+    return (await stat(path)).isDirectory() ? listJsonFiles(path) : [path];
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+runCli(process.argv.slice(2), nodeIO).then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    process.stderr.write(`FATAL: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(2);
+  }
+);
@@ -16,8 +16,14 @@ import {
   FormsPage,
   CTAsPage,
   BranchesPage,
+  TopicsPage,
   ActionChipsPage,
   CardsPage,
+  SchedulingPage,
+  TranslationsPage,
+  HistoryPage,
+  BulkOperationsPage,
+  PreviewPage,
   SettingsPage,
   NotFoundPage,
 } from './pages';
@@ -43,8 +49,13 @@ import { Spinner } from './components/ui';
  * - /forms - Forms editor page
  * - /ctas - CTAs editor page
  * - /branches - Branches editor page
+ * - /topics - Topic definitions editor page
  * - /action-chips - Action Chips editor page
  * - /cards - Card inventory page
+ * - /scheduling - Scheduling configuration editor
+ * - /translations - Locales and string translations
+ * - /history - Version history browser
+ * - /preview - Chat simulator for the current config
  * - /settings - Configuration settings
  * - * - 404 Not Found page
  *
@@ -160,12 +171,30 @@ function renderApp() {
             {/* Branches section */}
             <Route path="branches" element={<BranchesPage />} />
 
+            {/* Topics section (V4.1 CTA pool selection) */}
+            <Route path="topics" element={<TopicsPage />} />
+
             {/* Action Chips section */}
             <Route path="action-chips" element={<ActionChipsPage />} />
 
             {/* Card inventory section (optional) */}
             <Route path="cards" element={<CardsPage />} />
 
+            {/* Scheduling section (appointment types, routing, reminders) */}
+            <Route path="scheduling" element={<SchedulingPage />} />
+
+            {/* Locales and translations of user-facing strings */}
+            <Route path="translations" element={<TranslationsPage />} />
+
+            {/* Chat simulator against the in-memory config */}
+            <Route path="preview" element={<PreviewPage />} />
+
+            {/* Version history (browse, diff, restore) */}
+            <Route path="history" element={<HistoryPage />} />
+
+            {/* One change across many tenants (dry run, per-tenant save) */}
+            <Route path="bulk" element={<BulkOperationsPage />} />
+
             {/* KB-freshness review (read-only in Phase 2) */}
 
             {/* Settings section */}
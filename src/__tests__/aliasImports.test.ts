@@ -0,0 +1,36 @@
+/**
+ * `@/` imports the esbuild alias plugin can resolve
+ *
+ * esbuild.config.mjs adds `.ts`/`.tsx`/`/index.ts`… only when the import has
+ * no extension, so `@/lib/schemas/tenant.schema` (extension `.schema`) builds
+ * a path that doesn't exist. TypeScript and vitest resolve it fine, so only
+ * the build would notice.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+
+const SRC = path.resolve(__dirname, '..');
+const ALIAS_IMPORT = /(?:from|import)\s*\(?\s*'@\/([^']+)'/g;
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === '__tests__' ? [] : sourceFiles(full);
+    return /\.tsx?$/.test(entry.name) && !/\.test\.tsx?$/.test(entry.name) ? [full] : [];
+  });
+}
+
+describe('@/ imports', () => {
+  it('resolve under the build alias plugin', () => {
+    const unresolved = sourceFiles(SRC).flatMap((file) =>
+      [...fs.readFileSync(file, 'utf-8').matchAll(ALIAS_IMPORT)]
+        .map((match) => match[1])
+        .filter((target) => path.extname(target) && !fs.existsSync(path.join(SRC, target)))
+        .map((target) => `${path.relative(SRC, file)}: @/${target}`)
+    );
+
+    expect(unresolved).toEqual([]);
+  });
+});
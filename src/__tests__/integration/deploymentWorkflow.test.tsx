@@ -91,7 +91,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Step 2: Edit config - create new program
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -120,7 +120,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     const deployedConfig = mockS3._getMockConfig('TEST_TENANT');
     expect(deployedConfig).toBeDefined();
     expect(Object.keys(deployedConfig!.programs)).toHaveLength(2);
-    expect(deployedConfig!.programs['new-program']).toBeDefined();
+    expect(deployedConfig!.programs['new_program']).toBeDefined();
   });
 
   it('should handle save vs deploy operations', async () => {
@@ -137,7 +137,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -186,7 +186,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes to programs only
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -219,7 +219,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -258,29 +258,29 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Add forms, CTAs, branches
     await act(async () => {
       const programId = Object.keys(result.current.programs.programs)[0];
-      const form = createTestForm(programId, 3, { form_id: 'new-form' });
+      const form = createTestForm(programId, 3, { form_id: 'new_form' });
       result.current.forms.createForm(form);
 
       result.current.ctas.createCTA(
         {
           label: 'New CTA',
           action: 'start_form',
-          formId: 'new-form',
+          formId: 'new_form',
           type: 'form_trigger',
           style: 'primary',
         },
-        'new-cta'
+        'new_cta'
       );
 
       result.current.branches.createBranch(
         {
           detection_keywords: ['test'],
           available_ctas: {
-            primary: 'new-cta',
+            primary: 'new_cta',
             secondary: [],
           },
         },
-        'new-branch'
+        'new_branch'
       );
     });
 
@@ -312,7 +312,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes and deploy
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -329,7 +329,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
 
     // Verify reload includes new program
     expect(Object.keys(result.current.programs.programs).length).toBe(initialProgramCount + 1);
-    expect(result.current.programs.programs['new-program']).toBeDefined();
+    expect(result.current.programs.programs['new_program']).toBeDefined();
   });
 
   it('should handle deployment with backup creation', async () => {
@@ -346,7 +346,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'new-program',
+        program_id: 'new_program',
         program_name: 'New Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -398,7 +398,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     // Make changes to tenant 2
     await act(async () => {
       const newProgram = createTestProgram({
-        program_id: 'tenant2-program',
+        program_id: 'tenant2_program',
         program_name: 'Tenant 2 Program',
       });
       result.current.programs.createProgram(newProgram);
@@ -410,12 +410,12 @@ describe('S3 Deployment Workflow Integration Tests', () => {
 
     // Verify tenant 2 has changes
     const deployed2 = mockS3._getMockConfig('TENANT_2');
-    expect(deployed2!.programs['tenant2-program']).toBeDefined();
+    expect(deployed2!.programs['tenant2_program']).toBeDefined();
 
     // Verify tenant 1 unchanged
     const deployed1 = mockS3._getMockConfig('TENANT_1');
     expect(Object.keys(deployed1!.programs)).toHaveLength(tenant1ProgramCount);
-    expect(deployed1!.programs['tenant2-program']).toBeUndefined();
+    expect(deployed1!.programs['tenant2_program']).toBeUndefined();
   });
 
   it('should mark store dirty on changes and clean after save', async () => {
@@ -435,7 +435,7 @@ describe('S3 Deployment Workflow Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'new-program',
+          program_id: 'new_program',
           program_name: 'New Program',
         })
       );
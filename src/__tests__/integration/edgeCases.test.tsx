@@ -122,7 +122,7 @@ describe('Edge Cases Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'new-program',
+          program_id: 'new_program',
           program_name: 'New Program',
         })
       );
@@ -92,7 +92,7 @@ describe('Error Handling Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'new-program',
+          program_id: 'new_program',
           program_name: 'New Program',
         })
       );
@@ -116,7 +116,7 @@ describe('Error Handling Integration Tests', () => {
     // in-memory edits). Note: isDirty is not asserted here because the current
     // store's markDirty() from nested set calls doesn't propagate — this is a
     // separate pre-existing store issue outside the scope of this test.
-    expect(result.current.programs.getProgram('new-program')).toBeDefined();
+    expect(result.current.programs.getProgram('new_program')).toBeDefined();
   });
 
   it('should block deployment when validation fails', async () => {
@@ -299,7 +299,7 @@ describe('Error Handling Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'new-program',
+          program_id: 'new_program',
           program_name: 'New Program',
         })
       );
@@ -343,19 +343,19 @@ describe('Error Handling Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'program-1',
+          program_id: 'program_1',
           program_name: 'Program 1',
         })
       );
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'program-2',
+          program_id: 'program_2',
           program_name: 'Program 2',
         })
       );
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'program-3',
+          program_id: 'program_3',
           program_name: 'Program 3',
         })
       );
@@ -562,7 +562,7 @@ describe('Error Handling Integration Tests', () => {
     await act(async () => {
       result.current.programs.createProgram(
         createTestProgram({
-          program_id: 'new-program',
+          program_id: 'new_program',
           program_name: 'New Program',
         })
       );
@@ -54,6 +54,10 @@ describe('merge payload contract (getMergedConfig vs shared section contract)',
     for (const s of contract.cm_accepts) {
       expect(union.has(s), `cm_accepts "${s}" is neither cb_must_emit nor cb_not_emitted`).toBe(true);
     }
+    // Pending sections are exactly the ones the server doesn't accept yet.
+    for (const s of contract.cb_pending_server.sections) {
+      expect(accepts.has(s), `cb_pending_server "${s}" is in cm_accepts — move it to cb_must_emit`).toBe(false);
+    }
   });
 
   it('SOUNDNESS: emits only server-accepted keys, sheds stale keys, never sends card_inventory', async () => {
@@ -116,12 +120,12 @@ describe('merge payload contract (getMergedConfig vs shared section contract)',
         custom_constraints: [],
         fallback_message: 'x',
       },
-      // topic_definitions is cb_not_emitted (passthrough dropped in the dead-field
-      // cleanup) — present here to prove the merge path sheds it while the server
-      // preserves the stored value.
       topic_definitions: [{ id: 't1', label: 'T1' }],
       notification_settings: { enabled: true },
       messenger_behavior: { escalation_email: 'notify@myrecruiter.ai' },
+      // Not emitted until the server accepts them (cb_pending_server)
+      scheduling: { appointment_types: {} },
+      localization: { default_locale: 'en', enabled_locales: ['en', 'es'] },
     } as unknown as Partial<TenantConfig>;
 
     const testConfig = createTestTenantConfig('FULL_TENANT', overrides) as TenantConfig &
@@ -155,6 +159,35 @@ describe('merge payload contract (getMergedConfig vs shared section contract)',
         `getMergedConfig emitted "${section}" but CB has no editor for it`
       ).toBe(false);
     }
+
+    // Nor the sections the server doesn't accept yet: the PUT would 400.
+    for (const section of contract.cb_pending_server.sections) {
+      expect(
+        Object.prototype.hasOwnProperty.call(merged, section),
+        `getMergedConfig emitted "${section}" before the server accepts it`
+      ).toBe(false);
+    }
+  });
+
+  it('PENDING SECTIONS: VITE_SAVE_PENDING_SECTIONS=true opts the save payload into them', async () => {
+    vi.stubEnv('VITE_SAVE_PENDING_SECTIONS', 'true');
+    vi.resetModules();
+    try {
+      const { pickSavedSections, isSavedSection } = await import('@/lib/contracts/sectionContract');
+      const picked = pickSavedSections({
+        tenant_id: 'T',
+        scheduling: { appointment_types: {} },
+        localization: { default_locale: 'en' },
+      } as unknown as TenantConfig);
+
+      for (const section of contract.cb_pending_server.sections) {
+        expect(isSavedSection(section)).toBe(true);
+        expect(picked).toHaveProperty(section);
+      }
+    } finally {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+    }
   });
 
   it('NEVER-CLEAR fix: a cleared model_id ("") is still emitted so the server persists the clear', async () => {
@@ -39,7 +39,7 @@ let idCounter = 0;
  */
 export function generateTestId(prefix: string = 'test'): string {
   idCounter++;
-  return `${prefix}-${Date.now()}-${idCounter}`;
+  return `${prefix}_${Date.now()}_${idCounter}`;
 }
 
 /**
@@ -140,7 +140,6 @@ export function createTestCTA(
     action: 'start_form',
     formId: formId || generateTestId('form'),
     type: 'form_trigger',
-    style: 'primary',
     ...overrides,
   };
 }
@@ -162,6 +161,25 @@ export function createTestBranch(
   };
 }
 
+/**
+ * Sections the tenant schema requires besides the editable entities
+ */
+const REQUIRED_TENANT_SECTIONS = {
+  tenant_hash: 'test-hash',
+  subscription_tier: 'Standard',
+  chat_title: 'Test Chat',
+  tone_prompt: 'You are helpful.',
+  welcome_message: 'Hi!',
+  branding: { primary_color: '#00AA88', font_family: 'Inter' },
+  features: {
+    uploads: false,
+    photo_uploads: false,
+    voice_input: false,
+    callout: { enabled: false, auto_dismiss: false },
+  },
+  aws: { knowledge_base_id: 'KBTEST12345' },
+} as const;
+
 /**
  * Create a complete tenant config
  */
@@ -169,26 +187,27 @@ export function createTestTenantConfig(
   tenantId: string = 'TEST_TENANT',
   overrides?: Partial<TenantConfig>
 ): TenantConfig {
-  const program = createTestProgram({ program_id: 'program-1', program_name: 'Test Program' });
-  const form = createTestForm('program-1', 3, { form_id: 'form-1' });
-  const cta = createTestCTA('form-1');
-  const branch = createTestBranch('cta-1');
+  const program = createTestProgram({ program_id: 'program_1', program_name: 'Test Program' });
+  const form = createTestForm('program_1', 3, { form_id: 'form_1' });
+  const cta = createTestCTA('form_1');
+  const branch = createTestBranch('cta_1');
 
   return {
+    ...REQUIRED_TENANT_SECTIONS,
     tenant_id: tenantId,
     version: '1.3.0',
     generated_at: Date.now(),
     programs: {
-      'program-1': program,
+      program_1: program,
     },
     conversational_forms: {
-      'form-1': form,
+      form_1: form,
     },
     cta_definitions: {
-      'cta-1': cta,
+      cta_1: cta,
     },
     conversation_branches: {
-      'branch-1': branch,
+      branch_1: branch,
     },
     ...overrides,
   } as TenantConfig;
@@ -295,7 +314,7 @@ export function createLargeTenantConfig(
 
   // Create programs
   for (let p = 0; p < programCount; p++) {
-    const programId = `program-${p + 1}`;
+    const programId = `program_${p + 1}`;
     programs[programId] = createTestProgram({
       program_id: programId,
       program_name: `Program ${p + 1}`,
@@ -303,7 +322,7 @@ export function createLargeTenantConfig(
 
     // Create forms for each program
     for (let f = 0; f < formsPerProgram; f++) {
-      const formId = `form-${p + 1}-${f + 1}`;
+      const formId = `form_${p + 1}_${f + 1}`;
       conversational_forms[formId] = createTestForm(programId, 5, {
         form_id: formId,
         title: `Form ${p + 1}-${f + 1}`,
@@ -311,7 +330,7 @@ export function createLargeTenantConfig(
 
       // Create CTAs for each form
       for (let c = 0; c < ctasPerForm; c++) {
-        const ctaId = `cta-${p + 1}-${f + 1}-${c + 1}`;
+        const ctaId = `cta_${p + 1}_${f + 1}_${c + 1}`;
         cta_definitions[ctaId] = createTestCTA(formId, {
           label: `CTA ${p + 1}-${f + 1}-${c + 1}`,
         });
@@ -322,7 +341,7 @@ export function createLargeTenantConfig(
   // Create branches
   const allCtaIds = Object.keys(cta_definitions);
   for (let b = 0; b < branchCount; b++) {
-    const branchId = `branch-${b + 1}`;
+    const branchId = `branch_${b + 1}`;
     const primaryCtaId = allCtaIds[b % allCtaIds.length];
     conversation_branches[branchId] = createTestBranch(primaryCtaId, {
       detection_keywords: [`keyword-${b + 1}`, `topic-${b + 1}`],
@@ -330,6 +349,7 @@ export function createLargeTenantConfig(
   }
 
   return {
+    ...REQUIRED_TENANT_SECTIONS,
     tenant_id: 'LARGE_TENANT',
     version: '1.3.0',
     generated_at: Date.now(),
@@ -461,6 +481,7 @@ export function resetConfigStore(useConfigStore: ConfigStoreLike) {
     state.branches.branches = {};
     state.branches.activeBranchId = null;
     state.contentShowcase = { content_showcase: [] };
+    state.topics.topic_definitions = [];
     state.cardInventory = { cardInventory: null };
     state.validation.errors = {};
     state.validation.warnings = {};
@@ -469,6 +490,7 @@ export function resetConfigStore(useConfigStore: ConfigStoreLike) {
     state.config.tenantId = null;
     state.config.isDirty = false;
     state.config.baseConfig = null;
+    state.config.savedConfig = null;
     state.config.lastSaved = null;
     state.ui.toasts = [];
     state.ui.loading = {};
@@ -8,7 +8,7 @@ import { Building2, Check } from 'lucide-react';
 import { Select } from './ui';
 import { useConfigStore } from '@/store';
 import { listTenants } from '@/lib/api';
-import { useAuth } from '@/context/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { SelectOption } from './ui/Select';
 import type { TenantListItem } from '@/types/api';
 
@@ -21,7 +21,7 @@ interface TenantSelectorProps {
  * Tenant Selector Component
  *
  * Features:
- * - Fetches available tenants from API
+ * - Fetches available tenants from API, limited to the user's tenant scope
  * - Displays current tenant selection
  * - Loads config when tenant changes
  * - Shows loading states
@@ -44,7 +44,7 @@ export const TenantSelector: React.FC<TenantSelectorProps> = ({
   const loadConfig = useConfigStore((state) => state.config.loadConfig);
   const addToast = useConfigStore((state) => state.ui.addToast);
 
-  const { user } = useAuth();
+  const { canAccessTenant } = usePermissions();
 
   // Fetch available tenants on mount
   useEffect(() => {
@@ -56,17 +56,13 @@ export const TenantSelector: React.FC<TenantSelectorProps> = ({
         const tenantsList = await listTenants();
 
         // Convert tenant list to select options
-        let options: SelectOption[] = tenantsList.map((tenant: TenantListItem) => ({
-          value: tenant.tenantId,
-          label: tenant.tenantName || tenant.tenantId,
-        }));
-
-        // Filter tenants based on user role
         // super_admin sees all tenants, other roles see only their assigned tenants
-        if (user?.role !== 'super_admin' && user?.tenants && user.tenants.length > 0) {
-          const userTenantSet = new Set(user.tenants);
-          options = options.filter((option) => userTenantSet.has(option.value));
-        }
+        const options: SelectOption[] = tenantsList
+          .filter((tenant: TenantListItem) => canAccessTenant(tenant.tenantId))
+          .map((tenant: TenantListItem) => ({
+            value: tenant.tenantId,
+            label: tenant.tenantName || tenant.tenantId,
+          }));
 
         setTenants(options);
       } catch (err) {
@@ -84,7 +80,7 @@ export const TenantSelector: React.FC<TenantSelectorProps> = ({
     };
 
     fetchTenants();
-  }, [addToast, user]);
+  }, [addToast, canAccessTenant]);
 
   const handleTenantChange = async (value: string) => {
     if (!value || value === tenantId) {
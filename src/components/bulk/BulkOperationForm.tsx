@@ -0,0 +1,189 @@
+/**
+ * BulkOperationForm Component
+ * Picks the change a bulk run applies to every selected tenant
+ */
+
+import React from 'react';
+import { Input, Select, Textarea } from '@/components/ui';
+import { ctaDefinitionSchema } from '@/lib/schemas';
+import type { BulkOperation, BulkOperationType } from '@/lib/bulk';
+import type { CTADefinition } from '@/types/config';
+
+/** Everything the form edits, kept as typed so switching operations loses nothing */
+export interface BulkOperationDraft {
+  type: BulkOperationType;
+  flag: string;
+  enabled: boolean;
+  constraints: string;
+  constraintsMode: 'append' | 'replace';
+  ctaId: string;
+  ctaJson: string;
+  overwrite: boolean;
+  maxCtas: string;
+}
+
+export const EMPTY_BULK_DRAFT: BulkOperationDraft = {
+  type: 'set_feature_flag',
+  flag: '',
+  enabled: true,
+  constraints: '',
+  constraintsMode: 'append',
+  ctaId: '',
+  ctaJson: JSON.stringify({ label: '', action: 'send_query', type: 'bedrock_query', query: '' }, null, 2),
+  overwrite: false,
+  maxCtas: '4',
+};
+
+const OPERATION_OPTIONS: { value: BulkOperationType; label: string }[] = [
+  { value: 'set_feature_flag', label: 'Set a feature flag' },
+  { value: 'set_custom_constraints', label: 'Update Bedrock custom constraints' },
+  { value: 'add_cta', label: 'Add a standard CTA' },
+  { value: 'set_max_ctas', label: 'Change max CTAs per response' },
+];
+
+const KNOWN_FLAGS = ['V5_SINGLE_PASS', 'V4_ACTION_SELECTOR', 'scheduling_enabled', 'MESSENGER_CHANNEL'];
+
+/**
+ * The operation a draft describes, or why it isn't complete yet
+ */
+export function operationFromDraft(draft: BulkOperationDraft): { operation: BulkOperation } | { error: string } {
+  switch (draft.type) {
+    case 'set_feature_flag': {
+      const flag = draft.flag.trim();
+      if (!flag) return { error: 'Enter a flag name' };
+      return { operation: { type: 'set_feature_flag', flag, enabled: draft.enabled } };
+    }
+
+    case 'set_custom_constraints': {
+      const constraints = draft.constraints
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+      if (constraints.length === 0 && draft.constraintsMode === 'append') return { error: 'Enter at least one constraint' };
+      return { operation: { type: 'set_custom_constraints', constraints, mode: draft.constraintsMode } };
+    }
+
+    case 'add_cta': {
+      const ctaId = draft.ctaId.trim();
+      if (!ctaId) return { error: 'Enter a CTA ID' };
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(draft.ctaJson);
+      } catch {
+        return { error: 'CTA definition is not valid JSON' };
+      }
+      const result = ctaDefinitionSchema.safeParse(parsed);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        return { error: `CTA definition: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}` };
+      }
+      return { operation: { type: 'add_cta', ctaId, cta: parsed as CTADefinition, overwrite: draft.overwrite } };
+    }
+
+    case 'set_max_ctas': {
+      const value = Number(draft.maxCtas);
+      if (!Number.isInteger(value) || value < 1 || value > 10) return { error: 'Max CTAs must be a whole number from 1 to 10' };
+      return { operation: { type: 'set_max_ctas', value } };
+    }
+  }
+}
+
+export interface BulkOperationFormProps {
+  value: BulkOperationDraft;
+  onChange: (draft: BulkOperationDraft) => void;
+  /** Shown under the fields when the draft is incomplete */
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Bulk Operation Form
+ *
+ * @example
+ * ```tsx
+ * const [draft, setDraft] = useState(EMPTY_BULK_DRAFT);
+ * <BulkOperationForm value={draft} onChange={setDraft} />
+ * ```
+ */
+export const BulkOperationForm: React.FC<BulkOperationFormProps> = ({ value, onChange, error, disabled }) => {
+  const update = (updates: Partial<BulkOperationDraft>) => onChange({ ...value, ...updates });
+
+  const checkbox = (label: string, checked: boolean, onToggle: (checked: boolean) => void) => (
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+      />
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</span>
+    </label>
+  );
+
+  return (
+    <fieldset disabled={disabled} className="space-y-4 min-w-0">
+      <Select
+        label="Operation"
+        value={value.type}
+        onValueChange={(type) => update({ type: type as BulkOperationType })}
+        options={OPERATION_OPTIONS}
+      />
+
+      {value.type === 'set_feature_flag' && (
+        <>
+          <Input
+            label="Flag"
+            value={value.flag}
+            onChange={(e) => update({ flag: e.target.value })}
+            placeholder="V5_SINGLE_PASS"
+            helperText={`Known flags: ${KNOWN_FLAGS.join(', ')}`}
+          />
+          {checkbox('Enabled', value.enabled, (enabled) => update({ enabled }))}
+        </>
+      )}
+
+      {value.type === 'set_custom_constraints' && (
+        <>
+          <Textarea
+            label="Constraints"
+            value={value.constraints}
+            onChange={(e) => update({ constraints: e.target.value })}
+            placeholder="One constraint per line"
+            rows={4}
+          />
+          {checkbox('Replace existing constraints (otherwise add to them)', value.constraintsMode === 'replace', (replace) =>
+            update({ constraintsMode: replace ? 'replace' : 'append' })
+          )}
+        </>
+      )}
+
+      {value.type === 'add_cta' && (
+        <>
+          <Input label="CTA ID" value={value.ctaId} onChange={(e) => update({ ctaId: e.target.value })} placeholder="donate_now" />
+          <Textarea
+            label="CTA definition (JSON)"
+            value={value.ctaJson}
+            onChange={(e) => update({ ctaJson: e.target.value })}
+            rows={8}
+            className="font-mono text-xs"
+          />
+          {checkbox('Replace the CTA where the ID already exists', value.overwrite, (overwrite) => update({ overwrite }))}
+        </>
+      )}
+
+      {value.type === 'set_max_ctas' && (
+        <Input
+          label="Max CTAs per response"
+          type="number"
+          min={1}
+          max={10}
+          value={value.maxCtas}
+          onChange={(e) => update({ maxCtas: e.target.value })}
+        />
+      )}
+
+      {error && <p className="text-sm text-amber-700 dark:text-amber-400">{error}</p>}
+    </fieldset>
+  );
+};
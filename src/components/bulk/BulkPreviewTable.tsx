@@ -0,0 +1,132 @@
+/**
+ * BulkPreviewTable Component
+ * Per-tenant dry-run outcome and, once applied, the save result
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui';
+import { DeploymentChangelog } from '@/components/deploy';
+import type { BulkPreview, BulkResult } from '@/lib/bulk';
+
+export interface BulkPreviewTableProps {
+  previews: BulkPreview[];
+  /** Save results by tenant, once the run has been applied */
+  results?: Record<string, BulkResult>;
+}
+
+type BadgeVariant = 'success' | 'warning' | 'error' | 'default' | 'info';
+
+const PREVIEW_BADGE: Record<BulkPreview['status'], { variant: BadgeVariant; label: string }> = {
+  ready: { variant: 'info', label: 'Will change' },
+  unchanged: { variant: 'default', label: 'Unchanged' },
+  invalid: { variant: 'warning', label: 'Blocked' },
+  error: { variant: 'error', label: 'Load failed' },
+};
+
+const RESULT_BADGE: Record<BulkResult['status'], { variant: BadgeVariant; label: string }> = {
+  saved: { variant: 'success', label: 'Saved' },
+  skipped: { variant: 'default', label: 'Skipped' },
+  conflict: { variant: 'warning', label: 'Conflict' },
+  failed: { variant: 'error', label: 'Failed' },
+};
+
+/**
+ * Bulk Preview Table
+ *
+ * One row per tenant: dry-run status, number of changes, validation counts of
+ * the result, and the save result. Expand a row for its diff and any errors
+ * the change would introduce.
+ *
+ * @example
+ * ```tsx
+ * <BulkPreviewTable previews={previews} results={resultsByTenant} />
+ * ```
+ */
+export const BulkPreviewTable: React.FC<BulkPreviewTableProps> = ({ previews, results }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-2 pr-3">Tenant</th>
+            <th className="py-2 pr-3">Dry run</th>
+            <th className="py-2 pr-3">Changes</th>
+            <th className="py-2 pr-3">Validation</th>
+            {results && <th className="py-2 pr-3">Result</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {previews.map((preview) => {
+            const isExpanded = expanded === preview.tenantId;
+            const { summary } = preview.changelog ?? { summary: { added: 0, removed: 0, modified: 0 } };
+            const changes = summary.added + summary.removed + summary.modified;
+            const result = results?.[preview.tenantId];
+            return (
+              <React.Fragment key={preview.tenantId}>
+                <tr className="border-b border-gray-100 dark:border-gray-800 align-top">
+                  <td className="py-2 pr-3">
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(isExpanded ? null : preview.tenantId)}
+                      aria-expanded={isExpanded}
+                      className="flex items-center gap-1 font-medium text-gray-900 dark:text-gray-100"
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      {preview.tenantId}
+                    </button>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Badge variant={PREVIEW_BADGE[preview.status].variant} size="sm">
+                      {PREVIEW_BADGE[preview.status].label}
+                    </Badge>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700 dark:text-gray-300">{preview.changelog ? changes : '—'}</td>
+                  <td className="py-2 pr-3 text-gray-700 dark:text-gray-300">
+                    {preview.validation
+                      ? `${preview.validation.errors.length} errors, ${preview.validation.warnings.length} warnings`
+                      : '—'}
+                  </td>
+                  {results && (
+                    <td className="py-2 pr-3">
+                      {result && (
+                        <div className="space-y-1">
+                          <Badge variant={RESULT_BADGE[result.status].variant} size="sm">
+                            {RESULT_BADGE[result.status].label}
+                          </Badge>
+                          <div className="text-xs text-gray-600 dark:text-gray-400">{result.message}</div>
+                        </div>
+                      )}
+                    </td>
+                  )}
+                </tr>
+                {isExpanded && (
+                  <tr className="border-b border-gray-100 dark:border-gray-800">
+                    <td colSpan={results ? 5 : 4} className="py-3 space-y-3">
+                      {preview.error && <p className="text-sm text-red-600 dark:text-red-400">{preview.error}</p>}
+                      {preview.introducedErrors.length > 0 && (
+                        <div>
+                          <p className="text-sm font-medium text-amber-800 dark:text-amber-300">
+                            Errors this change would introduce
+                          </p>
+                          <ul className="list-disc pl-5 text-xs text-amber-800 dark:text-amber-300">
+                            {preview.introducedErrors.map((error, i) => (
+                              <li key={i}>{error.message}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {preview.changelog && <DeploymentChangelog changelog={preview.changelog} title="Dry-run diff" />}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
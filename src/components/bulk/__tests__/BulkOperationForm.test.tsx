@@ -0,0 +1,45 @@
+/**
+ * BulkOperationForm: drafts to operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BulkOperationForm, EMPTY_BULK_DRAFT, operationFromDraft, type BulkOperationDraft } from '../BulkOperationForm';
+
+describe('operationFromDraft', () => {
+  it('builds each operation from its fields', () => {
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, flag: ' V5_SINGLE_PASS ' })).toEqual({
+      operation: { type: 'set_feature_flag', flag: 'V5_SINGLE_PASS', enabled: true },
+    });
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, type: 'set_custom_constraints', constraints: 'Be brief\n\n No prices ' })).toEqual({
+      operation: { type: 'set_custom_constraints', constraints: ['Be brief', 'No prices'], mode: 'append' },
+    });
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, type: 'set_max_ctas', maxCtas: '3' })).toEqual({
+      operation: { type: 'set_max_ctas', value: 3 },
+    });
+  });
+
+  it('explains what is missing or invalid', () => {
+    expect(operationFromDraft(EMPTY_BULK_DRAFT)).toEqual({ error: 'Enter a flag name' });
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, type: 'set_max_ctas', maxCtas: '12' })).toHaveProperty('error');
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, type: 'add_cta', ctaId: 'x', ctaJson: '{' })).toEqual({
+      error: 'CTA definition is not valid JSON',
+    });
+    expect(operationFromDraft({ ...EMPTY_BULK_DRAFT, type: 'add_cta', ctaId: 'x' })).toEqual({
+      error: 'CTA definition: label: Label is required',
+    });
+  });
+});
+
+describe('BulkOperationForm', () => {
+  it('edits the draft', () => {
+    let draft: BulkOperationDraft = EMPTY_BULK_DRAFT;
+    render(<BulkOperationForm value={draft} onChange={(next) => (draft = next)} error="Enter a flag name" />);
+
+    fireEvent.change(screen.getByLabelText('Flag'), { target: { value: 'MESSENGER_CHANNEL' } });
+    expect(draft.flag).toBe('MESSENGER_CHANNEL');
+    fireEvent.click(screen.getByLabelText('Enabled'));
+    expect(draft.enabled).toBe(false);
+    expect(screen.getByText('Enter a flag name')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Bulk Operation Components
+ */
+
+export { BulkOperationForm, operationFromDraft, EMPTY_BULK_DRAFT } from './BulkOperationForm';
+export { BulkPreviewTable } from './BulkPreviewTable';
+
+export type { BulkOperationFormProps, BulkOperationDraft } from './BulkOperationForm';
+export type { BulkPreviewTableProps } from './BulkPreviewTable';
@@ -0,0 +1,333 @@
+/**
+ * CommandPalette Component
+ * Ctrl/Cmd+K search across the loaded config's entities and settings, plus
+ * editor commands
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { Modal, ModalContent, ModalTitle, ModalDescription, Badge, Input } from '@/components/ui';
+import { deployBlockedReason } from '@/components/deploy';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { listTenants } from '@/lib/api';
+import {
+  SEARCH_KIND_LABELS,
+  buildSearchIndex,
+  fuzzySearch,
+  type Searchable,
+  type SearchEntryKind,
+} from '@/lib/search';
+import type { TenantListItem } from '@/types/api';
+
+export interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Opens the Header's preview modal */
+  onOpenPreview: () => void;
+  /** Opens the deploy confirmation dialog */
+  onDeploy: () => void;
+}
+
+type PaletteGroup = 'command' | 'tenant' | SearchEntryKind;
+
+interface PaletteItem extends Searchable {
+  key: string;
+  group: PaletteGroup;
+  title: string;
+  detail?: string;
+  /** Shown instead of running when set */
+  disabledReason?: string | null;
+  run: () => void;
+}
+
+const GROUP_LABELS: Record<PaletteGroup, string> = {
+  command: 'Command',
+  tenant: 'Tenant',
+  ...SEARCH_KIND_LABELS,
+};
+
+const MAX_RESULTS = 50;
+
+/** The title with the matched characters in bold */
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+  if (indices.length === 0) return <>{text}</>;
+  const matched = new Set(indices);
+  return (
+    <>
+      {Array.from(text, (char, i) =>
+        matched.has(i) ? (
+          <mark key={i} className="bg-transparent font-semibold text-primary-600 dark:text-primary-400">
+            {char}
+          </mark>
+        ) : (
+          char
+        )
+      )}
+    </>
+  );
+};
+
+/**
+ * Command Palette
+ *
+ * Features:
+ * - Fuzzy search over program names, form titles, field labels and prompts,
+ *   CTA labels, branch descriptions, showcase names and keywords, action
+ *   chip labels and settings keys
+ * - Picking a result opens it in its editor (see useNavigateToEntity)
+ * - Commands: save, deploy, validate, open preview, switch tenant, and
+ *   new form / CTA / branch; commands the user can't run show why
+ * - Arrow keys move the selection, Enter runs it
+ *
+ * With an empty query it lists the commands.
+ *
+ * @example
+ * ```tsx
+ * <CommandPalette
+ *   open={showPalette}
+ *   onOpenChange={setShowPalette}
+ *   onOpenPreview={() => setShowPreviewModal(true)}
+ *   onDeploy={() => setShowDeployDialog(true)}
+ * />
+ * ```
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, onOpenPreview, onDeploy }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [tenants, setTenants] = useState<TenantListItem[]>([]);
+  const listRef = useRef<HTMLUListElement>(null);
+  const navigate = useNavigate();
+
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const isDirty = useConfigStore((state) => state.config.isDirty);
+  const isValid = useConfigStore((state) => state.validation.isValid);
+  const errors = useConfigStore((state) => state.validation.errors);
+  const isSaving = useConfigStore((state) => state.ui.loading?.save || false);
+  const saveConfig = useConfigStore((state) => state.config.saveConfig);
+  const loadConfig = useConfigStore((state) => state.config.loadConfig);
+  const getMergedConfig = useConfigStore((state) => state.config.getMergedConfig);
+  const validateAll = useConfigStore((state) => state.validation.validateAll);
+  const addToast = useConfigStore((state) => state.ui.addToast);
+  const { can, canAccessTenant } = usePermissions();
+
+  const errorCount = Object.values(errors).reduce((total, entityErrors) => total + entityErrors.length, 0);
+
+  // Tenants for "Switch tenant", fetched per opening like TenantSelector
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    listTenants()
+      .then((list) => {
+        if (!cancelled) setTenants(list.filter((tenant) => canAccessTenant(tenant.tenantId)));
+      })
+      .catch((err) => console.error('Failed to load tenants:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, canAccessTenant]);
+
+  // Start each opening fresh
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setQuery('');
+      setSelected(0);
+    }
+    onOpenChange(next);
+  };
+
+  const commands = useMemo<PaletteItem[]>(() => {
+    const noTenant = tenantId ? null : 'Select a tenant first';
+    const cannotCreate = noTenant ?? (can('edit', 'content') ? null : 'Your role cannot edit content');
+    const command = (
+      key: string,
+      title: string,
+      detail: string,
+      disabledReason: string | null,
+      run: () => void,
+      aliases: string[] = []
+    ): PaletteItem => ({ key: `command:${key}`, group: 'command', title, detail, texts: [title, ...aliases], disabledReason, run });
+
+    return [
+      command(
+        'save',
+        'Save',
+        'Save changes to the tenant config',
+        noTenant ??
+          (!can('edit', 'config')
+            ? 'Your role cannot save'
+            : isSaving
+              ? 'Saving...'
+              : !isDirty
+                ? 'No unsaved changes'
+                : !isValid
+                  ? 'Fix validation errors first'
+                  : null),
+        () => {
+          saveConfig().catch((err) => console.error('Save failed:', err));
+        }
+      ),
+      command(
+        'deploy',
+        'Deploy',
+        'Review the changes and deploy to S3',
+        deployBlockedReason({ tenantId, canDeploy: can('deploy', 'config'), isValid, errorCount }),
+        onDeploy,
+        ['publish']
+      ),
+      command(
+        'validate',
+        'Validate',
+        'Re-run validation on the whole config',
+        noTenant,
+        async () => {
+          await validateAll();
+          const { errors: found, warnings } = useConfigStore.getState().validation;
+          const count = (issues: Record<string, unknown[]>) =>
+            Object.values(issues).reduce((total, list) => total + list.length, 0);
+          const errorTotal = count(found);
+          const warningTotal = count(warnings);
+          addToast({
+            type: errorTotal > 0 ? 'error' : warningTotal > 0 ? 'warning' : 'success',
+            message:
+              errorTotal + warningTotal === 0
+                ? 'No validation issues'
+                : `${errorTotal} error${errorTotal === 1 ? '' : 's'}, ${warningTotal} warning${warningTotal === 1 ? '' : 's'}`,
+          });
+        },
+        ['check']
+      ),
+      command('preview', 'Open preview', 'Preview the merged config', noTenant, onOpenPreview),
+      command('new-form', 'New form', 'Create a conversational form', cannotCreate, () => navigate('/forms?create=1'), ['create']),
+      command('new-cta', 'New CTA', 'Create a call-to-action', cannotCreate, () => navigate('/ctas?create=1'), ['create']),
+      command('new-branch', 'New branch', 'Create a conversation branch', cannotCreate, () => navigate('/branches?create=1'), ['create']),
+    ];
+  }, [tenantId, isDirty, isValid, isSaving, errorCount, can, saveConfig, validateAll, addToast, onDeploy, onOpenPreview, navigate]);
+
+  const tenantItems = useMemo<PaletteItem[]>(
+    () =>
+      tenants.map((tenant) => {
+        const name = tenant.tenantName || tenant.tenantId;
+        return {
+          key: `tenant:${tenant.tenantId}`,
+          group: 'tenant',
+          title: `Switch tenant: ${name}`,
+          detail: tenant.tenantId,
+          texts: [`Switch tenant: ${name}`, tenant.tenantId],
+          disabledReason: tenant.tenantId === tenantId ? 'Already loaded' : null,
+          run: () => {
+            loadConfig(tenant.tenantId).catch((err) => console.error('Failed to load tenant config:', err));
+          },
+        };
+      }),
+    [tenants, tenantId, loadConfig]
+  );
+
+  // Built per opening; the config can't change while the palette is up
+  const entityItems = useMemo<PaletteItem[]>(
+    () =>
+      open && tenantId
+        ? buildSearchIndex(getMergedConfig() ?? {}).map((entry) => ({
+            key: entry.key,
+            group: entry.kind,
+            title: entry.title,
+            detail: entry.detail,
+            texts: entry.texts,
+            run: () => navigate(entry.href),
+          }))
+        : [],
+    [open, tenantId, getMergedConfig, navigate]
+  );
+
+  const results = useMemo(
+    () =>
+      query.trim()
+        ? fuzzySearch([...commands, ...tenantItems, ...entityItems], query, MAX_RESULTS)
+        : commands.map((item) => ({ item, score: 0, titleIndices: [] as number[] })),
+    [query, commands, tenantItems, entityItems]
+  );
+
+  // Keep the selection on screen
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const runItem = (item: PaletteItem) => {
+    if (item.disabledReason) {
+      addToast({ type: 'error', message: item.disabledReason });
+      return;
+    }
+    handleOpenChange(false);
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setSelected((current) => (current + step + results.length) % results.length);
+    } else if (event.key === 'Enter' && results[selected]) {
+      event.preventDefault();
+      runItem(results[selected].item);
+    }
+  };
+
+  return (
+    <Modal open={open} onOpenChange={handleOpenChange}>
+      <ModalContent className="sm:max-w-2xl gap-3 top-[15%] translate-y-0">
+        <ModalTitle className="sr-only">Command palette</ModalTitle>
+        <ModalDescription className="sr-only">
+          Search entities, fields and settings, or run a command
+        </ModalDescription>
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={tenantId ? 'Search forms, fields, CTAs, settings... or type a command' : 'Type a command'}
+          leftElement={<Search className="w-4 h-4 text-gray-400" />}
+          aria-label="Search or run a command"
+        />
+
+        {results.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">No matches for "{query.trim()}"</p>
+        ) : (
+          <ul ref={listRef} role="listbox" aria-label="Results" className="max-h-[50vh] overflow-y-auto -mx-2">
+            {results.map(({ item, titleIndices }, index) => (
+              <li
+                key={item.key}
+                role="option"
+                aria-selected={index === selected}
+                aria-disabled={!!item.disabledReason}
+                onMouseMove={() => setSelected(index)}
+                onClick={() => runItem(item)}
+                className={`flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer ${
+                  index === selected ? 'bg-gray-100 dark:bg-gray-800' : ''
+                } ${item.disabledReason ? 'opacity-60' : ''}`}
+              >
+                <Badge variant={item.group === 'command' ? 'info' : 'outline'} size="sm" className="w-20 justify-center flex-shrink-0">
+                  {GROUP_LABELS[item.group]}
+                </Badge>
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                    <Highlighted text={item.title} indices={titleIndices} />
+                  </div>
+                  {(item.disabledReason || item.detail) && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {item.disabledReason ?? item.detail}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,7 @@
+/**
+ * Command Palette
+ * Export the Ctrl/Cmd+K search and command palette
+ */
+
+export { CommandPalette } from './CommandPalette';
+export type { CommandPaletteProps } from './CommandPalette';
@@ -1,12 +1,14 @@
 /**
  * ConversationFlowDiagram Component
- * Main dashboard flow diagram with flat sections and Flow Statistics card
+ * Main dashboard flow diagram: Flow Statistics card, then a node-link graph or
+ * flat sections per entity type
  */
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { Card, CardHeader, CardTitle, CardDescription, CardContent, Tooltip, TooltipProvider } from '@/components/ui';
+import { Button, Card, CardHeader, CardTitle, CardDescription, CardContent, Tooltip, TooltipProvider } from '@/components/ui';
 import { useConfigStore } from '@/store';
 import { EntityList } from './EntityList';
+import { FlowGraph } from './FlowGraph';
 import {
   AlertCircle,
   AlertTriangle,
@@ -15,6 +17,8 @@ import {
   Users,
   ChevronDown,
   ChevronRight,
+  Network,
+  List,
 } from 'lucide-react';
 import type { TreeNode, ConversationFlowDiagramProps } from './types';
 import {
@@ -40,7 +44,8 @@ import {
  *
  * Features:
  * - Flow Statistics card showing metrics overview
- * - Flat lists (no hierarchical nesting)
+ * - Graph view (default): directed node-link layout, see FlowGraph
+ * - List view: flat lists (no hierarchical nesting)
  * - Color-coded entities by type
  * - Validation status indicators (error, warning, success)
  * - Click-to-navigate to entity editors
@@ -54,7 +59,10 @@ import {
  */
 export const ConversationFlowDiagram: React.FC<ConversationFlowDiagramProps> = ({
   className = '',
+  defaultView = 'graph',
 }) => {
+  const [view, setView] = useState(defaultView);
+
   // Get data from store
   const programs = useConfigStore((state) => state.programs.programs);
   const forms = useConfigStore((state) => state.forms.forms);
@@ -106,8 +114,8 @@ export const ConversationFlowDiagram: React.FC<ConversationFlowDiagramProps> = (
   );
 
   const actionChipNodes = useMemo(
-    () => buildActionChipNodes(actionChips, errors, warnings, branches),
-    [actionChips, errors, warnings, branches]
+    () => buildActionChipNodes(actionChips, errors, warnings, branches, showcaseItems),
+    [actionChips, errors, warnings, branches, showcaseItems]
   );
 
   const showcaseNodes = useMemo(
@@ -387,8 +395,49 @@ export const ConversationFlowDiagram: React.FC<ConversationFlowDiagramProps> = (
         </CardContent>
       </Card>
 
+      {/* View Switch (+ Graph) */}
+      <Card className="card-container">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <CardTitle>Conversation Flow</CardTitle>
+              <CardDescription>
+                {view === 'graph'
+                  ? 'How visitors move from welcome chips through branches, CTAs and forms'
+                  : 'Entities grouped by type'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2" role="group" aria-label="Flow view">
+              <Button
+                variant={view === 'graph' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setView('graph')}
+                aria-pressed={view === 'graph'}
+              >
+                <Network className="w-4 h-4 mr-2" />
+                Graph
+              </Button>
+              <Button
+                variant={view === 'list' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setView('list')}
+                aria-pressed={view === 'list'}
+              >
+                <List className="w-4 h-4 mr-2" />
+                Lists
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        {view === 'graph' && (
+          <CardContent>
+            <FlowGraph />
+          </CardContent>
+        )}
+      </Card>
+
       {/* Entity Sections */}
-      {sections.map((section) => (
+      {view === 'list' && sections.map((section) => (
         <Card key={section.id} className="card-container">
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -0,0 +1,392 @@
+/**
+ * FlowGraph Component
+ * Directed node-link view of the conversation flow with pan/zoom
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ZoomIn, ZoomOut, Maximize2, Repeat } from 'lucide-react';
+import { Button, Badge } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  buildFlowGraph,
+  findCycles,
+  flowNodeId,
+  layoutFlowGraph,
+  reachableFrom,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  type FlowEdge,
+  type FlowNode,
+} from '@/lib/flowGraph';
+import type { ValidationStatus } from './types';
+import { ENTITY_TYPE_METADATA, calculateValidationStatus } from './utils';
+
+export interface FlowGraphProps {
+  className?: string;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+const ZOOM_STEP = 1.2;
+const INITIAL_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+/** dataTransfer type carrying a dragged CTA id */
+const CTA_DRAG_TYPE = 'application/x-picasso-cta';
+
+const STATUS_BORDER: Record<ValidationStatus, string> = {
+  error: 'border-red-500 dark:border-red-400',
+  warning: 'border-yellow-500 dark:border-yellow-400',
+  success: 'border-green-500 dark:border-green-400',
+  none: 'border-gray-300 dark:border-gray-600',
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const edgeKey = (from: string, to: string) => `${from}->${to}`;
+
+/**
+ * Path from the right edge of `from` to the left edge of `to`. Edges that
+ * point back to an earlier (or the same) column loop underneath both nodes.
+ */
+function edgePath(from: { x: number; y: number }, to: { x: number; y: number }): string {
+  const sx = from.x + NODE_WIDTH;
+  const sy = from.y + NODE_HEIGHT / 2;
+  const tx = to.x;
+  const ty = to.y + NODE_HEIGHT / 2;
+  if (tx > sx) {
+    const dx = (tx - sx) / 2;
+    return `M ${sx} ${sy} C ${sx + dx} ${sy}, ${tx - dx} ${ty}, ${tx} ${ty}`;
+  }
+  const drop = Math.max(sy, ty) + NODE_HEIGHT;
+  return `M ${sx} ${sy} C ${sx + 60} ${drop}, ${tx - 60} ${drop}, ${tx} ${ty}`;
+}
+
+/**
+ * Flow Graph
+ *
+ * Features:
+ * - Auto-laid-out nodes for chips, branches, showcase cards, CTAs and forms
+ * - Pan (drag the background), zoom (wheel or buttons), reset
+ * - Node borders colored by validation status; click opens the editor
+ * - Dims everything the welcome chips can't reach
+ * - Draws routing loops (detectCircularDependencies) as red dashed edges
+ * - Drag a CTA onto a branch to add it (primary if the branch has none)
+ *
+ * @example
+ * ```tsx
+ * <FlowGraph />
+ * ```
+ */
+export const FlowGraph: React.FC<FlowGraphProps> = ({ className = '' }) => {
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const canEdit = can('edit', 'content');
+
+  const forms = useConfigStore((state) => state.forms.forms);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const branches = useConfigStore((state) => state.branches.branches);
+  const actionChips = useConfigStore((state) => state.config.baseConfig?.action_chips?.default_chips);
+  const showcaseItems = useConfigStore((state) => state.contentShowcase.content_showcase);
+  const errors = useConfigStore((state) => state.validation.errors);
+  const warnings = useConfigStore((state) => state.validation.warnings);
+  const setPrimaryCTA = useConfigStore((state) => state.branches.setPrimaryCTA);
+  const addSecondaryCTA = useConfigStore((state) => state.branches.addSecondaryCTA);
+  const validateAll = useConfigStore((state) => state.validation.validateAll);
+  const addToast = useConfigStore((state) => state.ui.addToast);
+
+  const [highlightReachable, setHighlightReachable] = useState(true);
+  const [viewport, setViewport] = useState<Viewport>(INITIAL_VIEWPORT);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const graph = useMemo(
+    () => buildFlowGraph({ actionChips: actionChips ?? {}, branches, ctas, forms, showcaseItems }),
+    [actionChips, branches, ctas, forms, showcaseItems]
+  );
+  const rootIds = useMemo(
+    () => Object.keys(actionChips ?? {}).map((id) => flowNodeId('actionChip', id)),
+    [actionChips]
+  );
+  const layout = useMemo(() => layoutFlowGraph(graph, rootIds), [graph, rootIds]);
+  const reachable = useMemo(() => reachableFrom(graph, rootIds), [graph, rootIds]);
+  const cycles = useMemo(() => findCycles(graph), [graph]);
+  const cycleEdges = useMemo(() => {
+    const keys = new Set<string>();
+    cycles.forEach((cycle) => cycle.slice(1).forEach((to, i) => keys.add(edgeKey(cycle[i], to))));
+    return keys;
+  }, [cycles]);
+
+  const nodes = Object.values(graph.nodes);
+  const unreachableCount = nodes.filter((node) => !reachable.has(node.id)).length;
+  const hasNodes = nodes.length > 0;
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      setViewport((current) => {
+        const scale = clampScale(current.scale * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+        const ratio = scale / current.scale;
+        return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+      });
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [hasNodes]);
+
+  const zoomBy = (factor: number) =>
+    setViewport((current) => ({ ...current, scale: clampScale(current.scale * factor) }));
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    // Nodes handle their own clicks and drags; only the background pans
+    if ((event.target as HTMLElement).closest('[data-flow-node]')) return;
+    panRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: viewport.x, y: viewport.y };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    setViewport((current) => ({
+      ...current,
+      x: pan.x + event.clientX - pan.pointerX,
+      y: pan.y + event.clientY - pan.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+  };
+
+  const assignCTA = useCallback(
+    (branchId: string, ctaId: string) => {
+      const branch = branches[branchId];
+      const cta = ctas[ctaId];
+      if (!branch || !cta) return;
+      const label = cta.label || ctaId;
+      const { primary, secondary } = branch.available_ctas;
+      if (primary === ctaId || secondary.includes(ctaId)) {
+        addToast({ type: 'info', message: `"${label}" is already on branch "${branchId}"` });
+        return;
+      }
+      if (primary) {
+        addSecondaryCTA(branchId, ctaId);
+      } else {
+        setPrimaryCTA(branchId, ctaId);
+      }
+      addToast({
+        type: 'success',
+        message: `Added "${label}" to branch "${branchId}" as ${primary ? 'a secondary' : 'the primary'} CTA`,
+      });
+      validateAll();
+    },
+    [branches, ctas, addSecondaryCTA, setPrimaryCTA, addToast, validateAll]
+  );
+
+  const renderEdge = (edge: FlowEdge) => {
+    const from = layout.positions[edge.from];
+    const to = layout.positions[edge.to];
+    if (!from || !to) return null;
+    const inCycle = cycleEdges.has(edgeKey(edge.from, edge.to));
+    const dimmed = highlightReachable && !reachable.has(edge.from);
+    return (
+      <path
+        key={`${edgeKey(edge.from, edge.to)}:${edge.kind}`}
+        d={edgePath(from, to)}
+        fill="none"
+        markerEnd={inCycle ? 'url(#flow-arrow-cycle)' : 'url(#flow-arrow)'}
+        strokeDasharray={inCycle ? '6 4' : edge.kind === 'completes' ? '2 3' : undefined}
+        strokeWidth={edge.primary ? 2 : 1.25}
+        className={`${inCycle ? 'stroke-red-500' : 'stroke-gray-400 dark:stroke-gray-500'} ${dimmed ? 'opacity-30' : ''}`}
+        data-edge-kind={edge.kind}
+        data-cycle={inCycle || undefined}
+      />
+    );
+  };
+
+  const renderNode = (node: FlowNode) => {
+    const position = layout.positions[node.id];
+    if (!position) return null;
+    const meta = ENTITY_TYPE_METADATA[node.kind];
+    const validation = calculateValidationStatus(node.entityId, errors, warnings);
+    const dimmed = highlightReachable && !reachable.has(node.id);
+    const isDropTarget = dropTarget === node.id;
+    const draggable = canEdit && node.kind === 'cta';
+    const acceptsDrop = canEdit && node.kind === 'branch';
+    const issues = validation.errorCount + validation.warningCount;
+
+    return (
+      <button
+        key={node.id}
+        type="button"
+        data-flow-node={node.id}
+        draggable={draggable}
+        onDragStart={
+          draggable
+            ? (event) => {
+                event.dataTransfer.setData(CTA_DRAG_TYPE, node.entityId);
+                event.dataTransfer.effectAllowed = 'link';
+              }
+            : undefined
+        }
+        onDragOver={
+          acceptsDrop
+            ? (event) => {
+                if (!event.dataTransfer.types.includes(CTA_DRAG_TYPE)) return;
+                event.preventDefault();
+                setDropTarget(node.id);
+              }
+            : undefined
+        }
+        onDragLeave={acceptsDrop ? () => setDropTarget(null) : undefined}
+        onDrop={
+          acceptsDrop
+            ? (event) => {
+                event.preventDefault();
+                setDropTarget(null);
+                const ctaId = event.dataTransfer.getData(CTA_DRAG_TYPE);
+                if (ctaId) assignCTA(node.entityId, ctaId);
+              }
+            : undefined
+        }
+        onClick={() => navigate(`${meta.route}?selected=${encodeURIComponent(node.entityId)}`)}
+        title={`${meta.label}: ${node.entityId}${node.disabled ? ' (disabled)' : ''}${
+          dimmed ? ' — not reachable from the welcome chips' : ''
+        }`}
+        aria-label={`${meta.label} ${node.label}`}
+        style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+        className={`absolute flex items-center gap-2 rounded-md border-2 px-2 text-left text-xs shadow-sm transition-opacity ${
+          meta.color.bg
+        } ${meta.color.text} ${STATUS_BORDER[validation.status]} ${dimmed ? 'opacity-40' : ''} ${
+          isDropTarget ? 'ring-2 ring-primary-500 ring-offset-1' : ''
+        } ${draggable ? 'cursor-grab' : 'cursor-pointer'}`}
+      >
+        <span className="min-w-0 flex-1">
+          <span className="block text-[10px] uppercase tracking-wide opacity-70">{meta.label}</span>
+          <span className={`block truncate font-medium ${node.disabled ? 'line-through' : ''}`}>{node.label}</span>
+        </span>
+        {issues > 0 && (
+          <span
+            className={`shrink-0 rounded-full px-1.5 text-[10px] font-semibold text-white ${
+              validation.errorCount > 0 ? 'bg-red-500' : 'bg-yellow-500'
+            }`}
+          >
+            {issues}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => zoomBy(ZOOM_STEP)} aria-label="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => zoomBy(1 / ZOOM_STEP)} aria-label="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setViewport(INITIAL_VIEWPORT)} aria-label="Reset view">
+          <Maximize2 className="w-4 h-4" />
+        </Button>
+        <label className="ml-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={highlightReachable}
+            onChange={(event) => setHighlightReachable(event.target.checked)}
+          />
+          Highlight reachable from welcome chips
+        </label>
+        <div className="ml-auto flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="secondary">
+            {nodes.length} nodes · {graph.edges.length} edges
+          </Badge>
+          {unreachableCount > 0 && <Badge variant="warning">{unreachableCount} unreachable</Badge>}
+          {cycles.length > 0 && (
+            <Badge variant="error">
+              {cycles.length} loop{cycles.length === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Canvas */}
+      {!hasNodes ? (
+        <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+          No chips, branches, CTAs or forms to graph yet.
+        </div>
+      ) : (
+        <div
+          ref={viewportRef}
+          role="application"
+          aria-label="Conversation flow graph"
+          className="relative h-[520px] overflow-hidden rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-900/50 cursor-move touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className="absolute left-0 top-0 origin-top-left"
+            style={{
+              width: layout.width,
+              height: layout.height,
+              transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})`,
+            }}
+          >
+            <svg
+              width={layout.width}
+              height={layout.height + NODE_HEIGHT * 2}
+              className="absolute left-0 top-0 overflow-visible pointer-events-none"
+            >
+              <defs>
+                <marker id="flow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400 dark:fill-gray-500" />
+                </marker>
+                <marker id="flow-arrow-cycle" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-red-500" />
+                </marker>
+              </defs>
+              {graph.edges.map(renderEdge)}
+            </svg>
+            {nodes.map(renderNode)}
+          </div>
+        </div>
+      )}
+
+      {/* Loops */}
+      {cycles.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {cycles.map((cycle) => (
+            <div key={cycle.join('|')} className="flex items-start gap-2 text-red-700 dark:text-red-400">
+              <Repeat className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{cycle.map((id) => graph.nodes[id].entityId).join(' → ')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && Object.keys(ctas).length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Drag a CTA onto a branch to add it there. Drag the background to pan; scroll to zoom.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+/**
+ * ReachabilityReport Component
+ * What visitors can reach from the entry points, where they get stuck, and
+ * the shortest click path to each branch, form and showcase item
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge, Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { analyzeReachability, type EntryPointSource, type FlowNode } from '@/lib/flowGraph';
+import { describeClickPath } from '@/lib/validation';
+import { ENTITY_TYPE_METADATA } from './utils';
+
+export interface ReachabilityReportProps {
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<EntryPointSource, string> = {
+  action_chip: 'Welcome chip',
+  fallback_branch: 'Fallback branch',
+  quick_help: 'Quick help prompt',
+  ice_breaker: 'Ice breaker',
+  persistent_menu: 'Persistent menu',
+  ai_vocabulary: 'AI-available CTA',
+};
+
+/**
+ * ReachabilityReport Component
+ *
+ * Features:
+ * - Entry points: welcome chips, fallback branch, quick help, Messenger ice
+ *   breakers and menu, AI-available CTAs
+ * - Unreachable branches, forms and showcase items (click to open the editor)
+ * - Dead ends with the path that leads to them
+ * - Shortest click path to every reachable entity (collapsed by default)
+ *
+ * @example
+ * ```tsx
+ * <ReachabilityReport />
+ * ```
+ */
+export const ReachabilityReport: React.FC<ReachabilityReportProps> = ({ className = '' }) => {
+  const navigate = useNavigate();
+  const forms = useConfigStore((state) => state.forms.forms);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const branches = useConfigStore((state) => state.branches.branches);
+  const showcaseItems = useConfigStore((state) => state.contentShowcase.content_showcase);
+  const baseConfig = useConfigStore((state) => state.config.baseConfig);
+  const [showPaths, setShowPaths] = useState(false);
+
+  const report = useMemo(
+    () => analyzeReachability({ forms, ctas, branches, showcaseItems, config: baseConfig ?? {} }),
+    [forms, ctas, branches, showcaseItems, baseConfig]
+  );
+
+  const openEditor = (node: FlowNode) =>
+    navigate(`${ENTITY_TYPE_METADATA[node.kind].route}?selected=${encodeURIComponent(node.entityId)}`);
+
+  const entityButton = (nodeId: string) => {
+    const node = report.graph.nodes[nodeId];
+    return (
+      <button
+        type="button"
+        onClick={() => openEditor(node)}
+        className="font-medium text-gray-900 dark:text-gray-100 hover:underline"
+      >
+        {ENTITY_TYPE_METADATA[node.kind].label} {node.label}
+      </button>
+    );
+  };
+
+  const total = report.reachable.length + report.unreachable.length;
+
+  return (
+    <Card className={`card-container ${className}`}>
+      <CardHeader>
+        <CardTitle>Reachability</CardTitle>
+        <CardDescription>What a visitor can get to from the places a conversation starts</CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Badge variant="outline">
+            {report.entryPoints.length} entry point{report.entryPoints.length === 1 ? '' : 's'}
+          </Badge>
+          {report.entryPoints.length > 0 && (
+            <Badge variant="success">
+              {report.reachable.length} of {total} reachable
+            </Badge>
+          )}
+          {report.unreachable.length > 0 && <Badge variant="warning">{report.unreachable.length} unreachable</Badge>}
+          {report.deadEnds.length > 0 && (
+            <Badge variant="error">
+              {report.deadEnds.length} dead end{report.deadEnds.length === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report.entryPoints.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            No entry points yet. Add welcome action chips, a fallback branch or Messenger ice breakers to see what
+            visitors can reach.
+          </p>
+        ) : (
+          <>
+            <section>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Entry points</h3>
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                {report.entryPoints.map((entry, i) => (
+                  <li key={`${entry.source}-${i}`}>
+                    <span className="text-gray-500 dark:text-gray-400">{SOURCE_LABELS[entry.source]}:</span>{' '}
+                    {entry.label} → {report.graph.nodes[entry.nodeId].entityId}
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Unreachable</h3>
+              {report.unreachable.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Every branch, form and showcase item can be reached.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm" aria-label="Unreachable entities">
+                  {report.unreachable.map((nodeId) => (
+                    <li key={nodeId}>
+                      {entityButton(nodeId)}
+                      {report.graph.nodes[nodeId].disabled && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(disabled)</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+
+        {report.deadEnds.length > 0 && (
+          <section>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Dead ends</h3>
+            <ul className="space-y-2 text-sm" aria-label="Dead ends">
+              {report.deadEnds.map((deadEnd) => (
+                <li key={deadEnd.nodeId}>
+                  {entityButton(deadEnd.nodeId)}
+                  <div className="text-gray-600 dark:text-gray-400">{deadEnd.detail}</div>
+                  {deadEnd.path && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeClickPath(report.graph, deadEnd.path)}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {report.reachable.length > 0 && (
+          <section>
+            <button
+              type="button"
+              onClick={() => setShowPaths((show) => !show)}
+              aria-expanded={showPaths}
+              className="flex items-center gap-1 text-sm font-semibold text-gray-900 dark:text-gray-100"
+            >
+              {showPaths ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Shortest click paths
+            </button>
+            {showPaths && (
+              <ul className="mt-2 space-y-2 text-sm" aria-label="Shortest click paths">
+                {report.reachable.map((nodeId) => (
+                  <li key={nodeId}>
+                    {entityButton(nodeId)}
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeClickPath(report.graph, report.paths[nodeId])}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
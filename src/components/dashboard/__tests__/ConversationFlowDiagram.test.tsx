@@ -152,7 +152,7 @@ describe('ConversationFlowDiagram', () => {
     it('should render all 6 sections in correct order', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -177,7 +177,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show correct section titles', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -192,7 +192,7 @@ describe('ConversationFlowDiagram', () => {
     it('should use chevron icons instead of text', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -212,7 +212,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show chevron rotate on expand/collapse', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -236,7 +236,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show branch keyword and CTA count', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -253,7 +253,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show expandable CTA list for branches', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -283,7 +283,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show CTA action type badges', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -301,7 +301,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show form field count and program reference', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -322,7 +322,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show program description', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -334,7 +334,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show action chip routing target', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -374,7 +374,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -405,7 +405,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -443,7 +443,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -487,7 +487,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -522,7 +522,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -568,7 +568,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -609,7 +609,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -652,7 +652,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -691,7 +691,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -735,7 +735,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -779,7 +779,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -830,7 +830,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -853,7 +853,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show PRIMARY CTA label', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -881,7 +881,7 @@ describe('ConversationFlowDiagram', () => {
     it('should show SECONDARY CTAS label', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -909,7 +909,7 @@ describe('ConversationFlowDiagram', () => {
     it('should make CTA badges clickable', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -944,7 +944,7 @@ describe('ConversationFlowDiagram', () => {
     it('should display correct node count', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -957,7 +957,7 @@ describe('ConversationFlowDiagram', () => {
     it('should display correct connection count', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -991,7 +991,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1025,7 +1025,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1065,7 +1065,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1105,7 +1105,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1138,7 +1138,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1167,7 +1167,7 @@ describe('ConversationFlowDiagram', () => {
 
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1185,7 +1185,7 @@ describe('ConversationFlowDiagram', () => {
     it('should have proper semantic structure with headings', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1202,7 +1202,7 @@ describe('ConversationFlowDiagram', () => {
     it('should be keyboard navigable with buttons', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1218,7 +1218,7 @@ describe('ConversationFlowDiagram', () => {
     it('should have accessible entity cards that can be clicked', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
@@ -1234,7 +1234,7 @@ describe('ConversationFlowDiagram', () => {
     it('should have descriptive labels for metrics in Flow Statistics', () => {
       render(
         <TestWrapper>
-          <ConversationFlowDiagram />
+          <ConversationFlowDiagram defaultView="list" />
         </TestWrapper>
       );
 
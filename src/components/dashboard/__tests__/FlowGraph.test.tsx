@@ -0,0 +1,93 @@
+/**
+ * FlowGraph: reachability dimming, loop display, and drag-a-CTA-onto-a-branch
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { FlowGraph } from '../FlowGraph';
+import { useConfigStore } from '@/store';
+import type { TenantConfig } from '@/types/config';
+
+function dataTransfer() {
+  const data: Record<string, string> = {};
+  return {
+    types: [] as string[],
+    effectAllowed: 'all',
+    setData(type: string, value: string) {
+      data[type] = value;
+      this.types.push(type);
+    },
+    getData: (type: string) => data[type] ?? '',
+  };
+}
+
+function renderGraph() {
+  return render(
+    <MemoryRouter>
+      <FlowGraph />
+    </MemoryRouter>
+  );
+}
+
+describe('FlowGraph', () => {
+  beforeEach(() => {
+    useConfigStore.setState((state) => {
+      state.config.baseConfig = {
+        action_chips: {
+          enabled: true,
+          default_chips: { volunteer: { label: 'Volunteer', value: 'v', target_branch: 'main' } },
+        },
+      } as unknown as TenantConfig;
+      state.branches.branches = {
+        main: { available_ctas: { primary: 'more', secondary: [] } },
+        details: { available_ctas: { primary: 'back', secondary: [] } },
+        island: { available_ctas: { secondary: [] } },
+      };
+      state.ctas.ctas = {
+        more: { label: 'More', action: 'send_query', type: 'bedrock_query', target_branch: 'details' },
+        back: { label: 'Back', action: 'send_query', type: 'bedrock_query', target_branch: 'main' },
+        stray: { label: 'Stray', action: 'send_query', type: 'bedrock_query' },
+      };
+      state.forms.forms = {};
+      state.contentShowcase.content_showcase = [];
+      state.validation.errors = {};
+      state.validation.warnings = {};
+      state.ui.toasts = [];
+    });
+  });
+
+  it('dims what the welcome chips cannot reach and lists loops', () => {
+    renderGraph();
+
+    expect(screen.getByRole('button', { name: 'Branch main' }).className).not.toContain('opacity-40');
+    expect(screen.getByRole('button', { name: 'Branch island' }).className).toContain('opacity-40');
+    expect(screen.getByText('2 unreachable')).toBeInTheDocument();
+    expect(screen.getByText('1 loop')).toBeInTheDocument();
+    expect(screen.getByText('main → more → details → back → main')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Highlight reachable from welcome chips'));
+    expect(screen.getByRole('button', { name: 'Branch island' }).className).not.toContain('opacity-40');
+  });
+
+  it('adds a CTA dropped on a branch: primary when empty, secondary otherwise', () => {
+    renderGraph();
+    const stray = screen.getByRole('button', { name: 'CTA Stray' });
+
+    const drop = (branchName: string) => {
+      const transfer = dataTransfer();
+      fireEvent.dragStart(stray, { dataTransfer: transfer });
+      const target = screen.getByRole('button', { name: branchName });
+      fireEvent.dragOver(target, { dataTransfer: transfer });
+      fireEvent.drop(target, { dataTransfer: transfer });
+    };
+
+    drop('Branch island');
+    drop('Branch main');
+
+    const { branches } = useConfigStore.getState().branches;
+    expect(branches.island.available_ctas.primary).toBe('stray');
+    expect(branches.main.available_ctas).toEqual({ primary: 'more', secondary: ['stray'] });
+    expect(useConfigStore.getState().ui.toasts.some((t) => t.message.includes('as a secondary CTA'))).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * ReachabilityReport: unreachable entities, dead ends, click paths
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { ReachabilityReport } from '../ReachabilityReport';
+import { useConfigStore } from '@/store';
+import type { TenantConfig } from '@/types/config';
+
+function renderReport() {
+  return render(
+    <MemoryRouter>
+      <ReachabilityReport />
+    </MemoryRouter>
+  );
+}
+
+describe('ReachabilityReport', () => {
+  beforeEach(() => {
+    useConfigStore.setState((state) => {
+      state.config.baseConfig = {
+        action_chips: {
+          enabled: true,
+          default_chips: { volunteer: { label: 'Volunteer', value: 'v', target_branch: 'main' } },
+        },
+      } as unknown as TenantConfig;
+      state.branches.branches = {
+        main: { available_ctas: { primary: 'apply', secondary: [] } },
+        island: { available_ctas: { primary: 'apply', secondary: [] } },
+      };
+      state.ctas.ctas = {
+        apply: { label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'closed' },
+      };
+      state.forms.forms = {
+        closed: { enabled: false, form_id: 'closed', program: 'p1', title: 'Closed', description: '', fields: [] },
+      };
+      state.contentShowcase.content_showcase = [];
+    });
+  });
+
+  it('lists unreachable entities, dead ends and click paths', () => {
+    renderReport();
+
+    expect(screen.getByText('1 entry point')).toBeInTheDocument();
+    expect(screen.getByText('2 of 3 reachable')).toBeInTheDocument();
+    expect(within(screen.getByLabelText('Unreachable entities')).getByText('Branch island')).toBeInTheDocument();
+
+    const deadEnds = within(screen.getByLabelText('Dead ends'));
+    expect(deadEnds.getByText('Form "closed" is disabled')).toBeInTheDocument();
+    expect(deadEnds.getByText(/Every CTA on branch "main" leads nowhere/)).toBeInTheDocument();
+    expect(deadEnds.getAllByText('Chip "Volunteer" → main')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Shortest click paths' }));
+    expect(within(screen.getByLabelText('Shortest click paths')).getByText('Chip "Volunteer" → main → apply → closed')).toBeInTheDocument();
+  });
+
+  it('explains when there are no entry points', () => {
+    useConfigStore.setState((state) => {
+      state.config.baseConfig = {} as TenantConfig;
+    });
+
+    renderReport();
+
+    expect(screen.getByText(/No entry points yet/)).toBeInTheDocument();
+    expect(screen.queryByLabelText('Unreachable entities')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Dashboard flow statistics: showcase items and action chips
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateFlowStatistics, buildActionChipNodes, buildShowcaseNodes } from '../utils';
+import type { ActionChip, CTADefinition, ConversationBranch, ShowcaseItem } from '@/types/config';
+
+const ctas: Record<string, CTADefinition> = {
+  donate: { label: 'Donate', action: 'external_link', type: 'external_link', url: 'https://example.org' },
+};
+
+const branches: Record<string, ConversationBranch> = {
+  giving: { available_ctas: { primary: 'donate', secondary: [] } },
+};
+
+const showcaseItems: ShowcaseItem[] = [
+  {
+    id: 'gala',
+    type: 'event',
+    enabled: true,
+    name: 'Gala',
+    tagline: 'Join us',
+    description: 'Annual fundraiser',
+    keywords: ['gala'],
+    available_ctas: { primary: 'donate', secondary: ['deleted_cta'] },
+  },
+];
+
+const actionChips: Record<string, ActionChip> = {
+  give: { label: 'Give', value: 'How can I give?', target_branch: 'giving' },
+  gala: { label: 'Gala', value: '', action: 'show_showcase', target_showcase_id: 'gala' },
+  old_flyer: { label: 'Old flyer', value: '', action: 'show_showcase', target_showcase_id: 'deleted_item' },
+};
+
+describe('calculateFlowStatistics', () => {
+  it('counts showcase CTA hubs and chip showcase targets as connections and broken refs', () => {
+    const stats = calculateFlowStatistics({}, {}, ctas, branches, actionChips, showcaseItems, {}, {});
+
+    // branch → donate, give → giving, gala → gala, old_flyer → deleted_item, gala → donate + deleted_cta
+    expect(stats.connections).toBe(6);
+    expect(stats.orphaned).toBe(0);
+    expect(stats.brokenRefEntities).toEqual([
+      { id: 'old_flyer', type: 'actionChip', label: 'Old flyer', brokenRefs: ['deleted_item'] },
+      { id: 'gala', type: 'showcase', label: 'Gala', brokenRefs: ['deleted_cta'] },
+    ]);
+  });
+
+  it('counts validation errors filed under chip and showcase IDs', () => {
+    const error = { field: 'target_showcase_id', message: 'missing', severity: 'error' as const };
+    const stats = calculateFlowStatistics({}, {}, ctas, branches, actionChips, showcaseItems, { old_flyer: [error] }, {});
+
+    expect(stats.errors).toBe(1);
+    expect(stats.errorEntities).toEqual([
+      { id: 'old_flyer', type: 'actionChip', label: 'Old flyer', issueCount: 1, issues: ['missing'] },
+    ]);
+  });
+});
+
+describe('node builders', () => {
+  it('flag broken showcase targets and CTA hub references', () => {
+    const chipNodes = buildActionChipNodes(actionChips, {}, {}, branches, showcaseItems);
+    const brokenChips = chipNodes.filter((node) => node.statusIcons?.some((icon) => icon.type === 'broken_ref'));
+    expect(brokenChips.map((node) => node.id)).toEqual(['old_flyer']);
+
+    const [showcaseNode] = buildShowcaseNodes(showcaseItems, {}, {}, ctas);
+    expect(showcaseNode.statusIcons?.map((icon) => icon.type)).toContain('broken_ref');
+    expect(showcaseNode.statusIcons?.map((icon) => icon.type)).not.toContain('orphaned');
+  });
+});
@@ -6,6 +6,10 @@
 export { ConversationFlowDiagram } from './ConversationFlowDiagram';
 export { EntityNode } from './EntityNode';
 export { EntityList } from './EntityList';
+export { FlowGraph } from './FlowGraph';
+export type { FlowGraphProps } from './FlowGraph';
+export { ReachabilityReport } from './ReachabilityReport';
+export type { ReachabilityReportProps } from './ReachabilityReport';
 
 export type {
   EntityType,
@@ -69,6 +69,8 @@ export interface EntityListProps {
  */
 export interface ConversationFlowDiagramProps {
   className?: string;
+  /** Initial view: node-link graph or per-type lists */
+  defaultView?: 'graph' | 'list';
 }
 
 // ============================================================================
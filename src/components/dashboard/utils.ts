@@ -305,6 +305,13 @@ export function getProgramMetadata(
   };
 }
 
+/**
+ * Showcase item a show_showcase chip opens
+ */
+function getChipShowcaseTarget(chip: ActionChip): string | undefined {
+  return chip.action === 'show_showcase' ? chip.target_showcase_id || undefined : undefined;
+}
+
 /**
  * Extract rich metadata for action chip nodes
  */
@@ -314,6 +321,19 @@ export function getActionChipMetadata(chip: ActionChip): ActionChipMetadata {
   };
 }
 
+/**
+ * CTA IDs a showcase item offers: its CTA hub (primary + secondary) and the
+ * legacy single CTA action
+ */
+function getShowcaseCtaIds(item: ShowcaseItem): string[] {
+  const ctaIds = [
+    item.available_ctas?.primary,
+    ...(item.available_ctas?.secondary ?? []),
+    item.action?.cta_id,
+  ].filter((ctaId): ctaId is string => !!ctaId);
+  return Array.from(new Set(ctaIds));
+}
+
 /**
  * Extract rich metadata for showcase nodes
  */
@@ -323,11 +343,7 @@ export function getShowcaseMetadata(
 ): ShowcaseMetadata {
   // ShowcaseItem uses 'type' instead of 'category'
   const categoryTags = item.type ? [item.type] : [];
-  const ctaIds: string[] = [];
-
-  if (item.action?.cta_id) {
-    ctaIds.push(item.action.cta_id);
-  }
+  const ctaIds = getShowcaseCtaIds(item);
 
   return {
     categoryTags,
@@ -633,20 +649,24 @@ export function buildTreeStructure(
 
 /**
  * Build flat list of action chip nodes
- * Note: Requires branches to be passed for broken ref checking
+ * Note: Requires branches (and showcase items) to be passed for broken ref checking
  */
 export function buildActionChipNodes(
   actionChips: Record<string, ActionChip>,
   errors: Record<string, ValidationError[]>,
   warnings: Record<string, ValidationError[]>,
-  branches?: Record<string, ConversationBranch>
+  branches?: Record<string, ConversationBranch>,
+  showcaseItems?: ShowcaseItem[]
 ): TreeNode[] {
   return Object.entries(actionChips).map(([chipId, chip]) => {
     const validation = calculateValidationStatus(chipId, errors, warnings);
 
     // Check if orphaned or has broken refs
-    const isOrphaned = !chip.target_branch;
-    const hasBrokenRefs = !!(chip.target_branch && branches && !branches[chip.target_branch]);
+    const showcaseTarget = getChipShowcaseTarget(chip);
+    const isOrphaned = !chip.target_branch && !showcaseTarget;
+    const hasBrokenRefs =
+      !!(chip.target_branch && branches && !branches[chip.target_branch]) ||
+      !!(showcaseTarget && showcaseItems && !showcaseItems.some((item) => item.id === showcaseTarget));
 
     // Get rich metadata
     const richMetadata = getActionChipMetadata(chip);
@@ -691,8 +711,9 @@ export function buildShowcaseNodes(
     const validation = calculateValidationStatus(item.id, errors, warnings);
 
     // Check if orphaned or has broken refs
-    const isOrphaned = !item.action;
-    const hasBrokenRefs = item.action?.cta_id !== undefined && ctas && !ctas[item.action.cta_id];
+    const ctaIds = getShowcaseCtaIds(item);
+    const isOrphaned = !item.action && ctaIds.length === 0;
+    const hasBrokenRefs = !!ctas && ctaIds.some((ctaId) => !ctas[ctaId]);
 
     // Get rich metadata
     const richMetadata = ctas ? getShowcaseMetadata(item, ctas) : undefined;
@@ -939,14 +960,15 @@ function countConnections(
     count += branch.available_ctas.secondary.length;
   });
 
-  // Action Chips → Branches
+  // Action Chips → Branches / Showcase Items
   Object.values(actionChips).forEach((chip) => {
     if (chip.target_branch) count++;
+    if (getChipShowcaseTarget(chip)) count++;
   });
 
-  // Showcase Items → CTAs (via action.cta_id)
+  // Showcase Items → CTAs (CTA hub and legacy action.cta_id)
   showcaseItems.forEach((item) => {
-    if (item.action?.cta_id) count++;
+    count += getShowcaseCtaIds(item).length;
   });
 
   return count;
@@ -1002,7 +1024,7 @@ export function findOrphanedEntities(
 
   // Action chips without routing
   Object.entries(actionChips).forEach(([chipId, chip]) => {
-    if (!chip.target_branch) {
+    if (!chip.target_branch && !getChipShowcaseTarget(chip)) {
       entities.push({
         id: chipId,
         type: 'actionChip',
@@ -1011,9 +1033,9 @@ export function findOrphanedEntities(
     }
   });
 
-  // Showcase items without action
+  // Showcase items without an action or CTAs
   showcaseItems.forEach((item) => {
-    if (!item.action) {
+    if (!item.action && getShowcaseCtaIds(item).length === 0) {
       entities.push({
         id: item.id,
         type: 'showcase',
@@ -1084,26 +1106,36 @@ export function findBrokenReferences(
     }
   });
 
-  // Action chips referencing non-existent branches
+  // Action chips referencing non-existent branches or showcase items
+  const showcaseIds = new Set(showcaseItems.map((item) => item.id));
   Object.entries(actionChips).forEach(([chipId, chip]) => {
+    const brokenRefs: string[] = [];
     if (chip.target_branch && !branches[chip.target_branch]) {
+      brokenRefs.push(chip.target_branch);
+    }
+    const showcaseTarget = getChipShowcaseTarget(chip);
+    if (showcaseTarget && !showcaseIds.has(showcaseTarget)) {
+      brokenRefs.push(showcaseTarget);
+    }
+    if (brokenRefs.length > 0) {
       entities.push({
         id: chipId,
         type: 'actionChip',
         label: chip.label,
-        brokenRefs: [chip.target_branch],
+        brokenRefs,
       });
     }
   });
 
   // Showcase items referencing non-existent CTAs
   showcaseItems.forEach((item) => {
-    if (item.action?.cta_id && !ctas[item.action.cta_id]) {
+    const brokenRefs = getShowcaseCtaIds(item).filter((ctaId) => !ctas[ctaId]);
+    if (brokenRefs.length > 0) {
       entities.push({
         id: item.id,
         type: 'showcase',
         label: item.name,
-        brokenRefs: [item.action.cta_id],
+        brokenRefs,
       });
     }
   });
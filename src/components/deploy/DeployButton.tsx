@@ -3,14 +3,36 @@
  * Main deployment button with validation and dialog integration
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Upload } from 'lucide-react';
 import { Button, Badge, Tooltip } from '@/components/ui';
 import { DeployDialog } from './DeployDialog';
 import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useMergedConfig } from '@/hooks/useMergedConfig';
+import { semanticDiff } from '@/lib/diff';
 
 export interface DeployButtonProps {
   className?: string;
+  /** Controls the confirmation dialog, e.g. to open it from the command palette */
+  dialogOpen?: boolean;
+  onDialogOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Why the loaded config can't be deployed, or null when it can
+ */
+export function deployBlockedReason(state: {
+  tenantId: string | null;
+  canDeploy: boolean;
+  isValid: boolean;
+  errorCount: number;
+}): string | null {
+  if (!state.tenantId) return 'Select a tenant first';
+  if (!state.canDeploy) return 'Your role cannot deploy';
+  if (state.errorCount > 0) return `Fix ${state.errorCount} validation error${state.errorCount === 1 ? '' : 's'} first`;
+  if (!state.isValid) return 'Configuration has validation errors';
+  return null;
 }
 
 /**
@@ -18,8 +40,9 @@ export interface DeployButtonProps {
  *
  * Features:
  * - Validation before deploy
+ * - Disabled for roles that can't deploy
  * - Shows error count badge
- * - Opens confirmation dialog
+ * - Opens confirmation dialog with a changelog against the stored config
  * - Handles deployment to S3
  * - Success/error feedback via toast
  *
@@ -28,8 +51,14 @@ export interface DeployButtonProps {
  * <DeployButton />
  * ```
  */
-export const DeployButton: React.FC<DeployButtonProps> = ({ className = '' }) => {
-  const [dialogOpen, setDialogOpen] = useState(false);
+export const DeployButton: React.FC<DeployButtonProps> = ({
+  className = '',
+  dialogOpen: controlledOpen,
+  onDialogOpenChange,
+}) => {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const dialogOpen = controlledOpen ?? uncontrolledOpen;
+  const setDialogOpen = onDialogOpenChange ?? setUncontrolledOpen;
   const [isDeploying, setIsDeploying] = useState(false);
 
   // Get state from store
@@ -44,9 +73,13 @@ export const DeployButton: React.FC<DeployButtonProps> = ({ className = '' }) =>
   const ctas = useConfigStore((state) => state.ctas.ctas);
   const branches = useConfigStore((state) => state.branches.branches);
   const contentShowcase = useConfigStore((state) => state.contentShowcase.content_showcase);
+  const savedConfig = useConfigStore((state) => state.config.savedConfig);
+  const mergedConfig = useMergedConfig();
 
   const deployConfig = useConfigStore((state) => state.config.deployConfig);
   const addToast = useConfigStore((state) => state.ui.addToast);
+  const { can } = usePermissions();
+  const canDeploy = can('deploy', 'config');
 
   // Calculate counts
   const programsCount = Object.keys(programs).length;
@@ -64,16 +97,19 @@ export const DeployButton: React.FC<DeployButtonProps> = ({ className = '' }) =>
   // Flatten warnings for dialog
   const warningList = Object.values(warnings).flat();
 
+  // Diff against the stored config rather than baseConfig, which settings
+  // panels edit in place. Only computed while the dialog is open.
+  const changelog = useMemo(
+    () => (dialogOpen ? semanticDiff(savedConfig, mergedConfig) : null),
+    [dialogOpen, savedConfig, mergedConfig]
+  );
+
   // Check if deploy is disabled
-  const isDeployDisabled = !tenantId || !isValid || errorCount > 0;
+  const blockedReason = deployBlockedReason({ tenantId, canDeploy, isValid, errorCount });
+  const isDeployDisabled = blockedReason !== null;
 
   // Get tooltip message
-  const getTooltipMessage = () => {
-    if (!tenantId) return 'Select a tenant first';
-    if (errorCount > 0) return `Fix ${errorCount} validation error${errorCount === 1 ? '' : 's'} first`;
-    if (!isValid) return 'Configuration has validation errors';
-    return 'Deploy configuration to S3';
-  };
+  const getTooltipMessage = () => blockedReason ?? 'Deploy configuration to S3';
 
   const handleOpenDialog = () => {
     if (isDeployDisabled) {
@@ -153,6 +189,7 @@ export const DeployButton: React.FC<DeployButtonProps> = ({ className = '' }) =>
         showcaseCount={showcaseCount}
         warnings={warningList}
         hasChanges={isDirty}
+        changelog={changelog}
         isDeploying={isDeploying}
       />
     </>
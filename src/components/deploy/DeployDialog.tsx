@@ -7,6 +7,8 @@ import React, { useState } from 'react';
 import { Upload, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import { Modal, ModalContent, ModalHeader, ModalTitle, Button } from '@/components/ui';
 import { DeploymentSummary } from './DeploymentSummary';
+import { DeploymentChangelog } from './DeploymentChangelog';
+import type { ConfigChangelog } from '@/lib/diff';
 import type { ValidationError } from '@/store/types';
 
 export interface DeployDialogProps {
@@ -21,6 +23,8 @@ export interface DeployDialogProps {
   showcaseCount?: number;
   warnings?: ValidationError[];
   hasChanges?: boolean;
+  /** Stored config vs editor, rendered as a reviewable changelog */
+  changelog?: ConfigChangelog | null;
   isDeploying?: boolean;
 }
 
@@ -29,6 +33,7 @@ export interface DeployDialogProps {
  *
  * Features:
  * - Shows deployment summary
+ * - Changelog of what the deploy changes (downloadable as JSON)
  * - Confirmation step
  * - Loading state during deployment
  * - Success/error feedback
@@ -59,6 +64,7 @@ export const DeployDialog: React.FC<DeployDialogProps> = ({
   showcaseCount = 0,
   warnings = [],
   hasChanges = false,
+  changelog = null,
   isDeploying = false,
 }) => {
   const [deploymentState, setDeploymentState] = useState<
@@ -120,6 +126,8 @@ export const DeployDialog: React.FC<DeployDialogProps> = ({
                 hasChanges={hasChanges}
               />
 
+              {changelog && <DeploymentChangelog changelog={changelog} />}
+
               <div className="flex flex-col-reverse sm:flex-row sm:items-center sm:justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-600">
                 <Button
                   variant="ghost"
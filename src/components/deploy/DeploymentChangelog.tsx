@@ -0,0 +1,147 @@
+/**
+ * DeploymentChangelog Component
+ * Reviewable list of what a deploy changes, per section and per entity
+ */
+
+import React from 'react';
+import { Download, GitCompare } from 'lucide-react';
+import { Badge, Button } from '@/components/ui';
+import type { ChangeKind, ConfigChangelog, DiffEntry } from '@/lib/diff';
+
+export interface DeploymentChangelogProps {
+  changelog: ConfigChangelog;
+  /** Heading above the changes */
+  title?: string;
+  className?: string;
+}
+
+const KIND_BADGE: Record<ChangeKind, { variant: 'success' | 'error' | 'warning'; label: string }> = {
+  added: { variant: 'success', label: 'Added' },
+  removed: { variant: 'error', label: 'Removed' },
+  modified: { variant: 'warning', label: 'Modified' },
+};
+
+/** One-line rendering of a changed value; objects are summarized, not dumped */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value.length > 60 ? `"${value.slice(0, 60)}…"` : `"${value}"`;
+  if (Array.isArray(value) && value.every((v) => typeof v !== 'object')) {
+    const text = `[${value.join(', ')}]`;
+    return text.length > 60 ? `${text.slice(0, 60)}…]` : text;
+  }
+  if (typeof value === 'object' && value !== null) return Array.isArray(value) ? `[${value.length} items]` : '{…}';
+  return String(value);
+}
+
+const ChangeList: React.FC<{ changes: DiffEntry[] }> = ({ changes }) => (
+  <ul className="mt-1 space-y-0.5 text-xs">
+    {changes.map((change) => (
+      <li key={`${change.path}-${change.kind}`} className="flex flex-wrap gap-x-2 text-gray-600 dark:text-gray-400">
+        <code className="text-gray-800 dark:text-gray-200">{change.path || '(order)'}</code>
+        {change.kind === 'added' && <span className="text-green-700 dark:text-green-400">added {formatValue(change.after)}</span>}
+        {change.kind === 'removed' && <span className="text-red-700 dark:text-red-400">removed {formatValue(change.before)}</span>}
+        {change.kind === 'changed' && (
+          <span>
+            {formatValue(change.before)} → {formatValue(change.after)}
+          </span>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Deployment Changelog
+ *
+ * Renders a semanticDiff result and offers it as a JSON download for
+ * change-review records.
+ *
+ * @example
+ * ```tsx
+ * <DeploymentChangelog changelog={semanticDiff(baseConfig, getMergedConfig())} />
+ * ```
+ */
+export const DeploymentChangelog: React.FC<DeploymentChangelogProps> = ({
+  changelog,
+  title = 'Changes to Deploy',
+  className = '',
+}) => {
+  const { summary, sections } = changelog;
+  const total = summary.added + summary.removed + summary.modified;
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(changelog, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${changelog.tenantId ?? 'config'}-changelog-${changelog.generatedAt.replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <GitCompare className="w-4 h-4" />
+          {title}
+        </h3>
+        <Button variant="ghost" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-1" />
+          Download JSON
+        </Button>
+      </div>
+
+      {total === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No changes from the stored configuration.
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-2 text-xs">
+            {summary.added > 0 && <Badge variant="success">{summary.added} added</Badge>}
+            {summary.removed > 0 && <Badge variant="error">{summary.removed} removed</Badge>}
+            {summary.modified > 0 && <Badge variant="warning">{summary.modified} modified</Badge>}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-4 rounded-lg border border-gray-200 dark:border-gray-600 p-3">
+            {sections.map((section) => (
+              <section key={section.section}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                  {section.label}
+                </h4>
+                {section.type === 'entities' ? (
+                  <ul className="space-y-2">
+                    {section.entities.map((entity) => (
+                      <li key={entity.id}>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Badge variant={KIND_BADGE[entity.kind].variant} size="sm">
+                            {KIND_BADGE[entity.kind].label}
+                          </Badge>
+                          <span className="font-medium text-gray-900 dark:text-gray-100">{entity.label}</span>
+                          {entity.label !== entity.id && (
+                            <code className="text-xs text-gray-500 dark:text-gray-400">{entity.id}</code>
+                          )}
+                        </div>
+                        {entity.changes.length > 0 && <ChangeList changes={entity.changes} />}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div>
+                    <Badge variant={KIND_BADGE[section.kind].variant} size="sm">
+                      {KIND_BADGE[section.kind].label}
+                    </Badge>
+                    <ChangeList changes={section.changes} />
+                  </div>
+                )}
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -21,6 +21,7 @@ import {
   ModalFooter,
 } from '@/components/ui';
 import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
 import { promoteConfig, getPromoteStatus } from '@/lib/api/config-operations';
 
 export interface PromoteButtonProps {
@@ -42,13 +43,18 @@ export const PromoteButton: React.FC<PromoteButtonProps> = ({ className = '' })
   const tenantId = useConfigStore((state) => state.config.tenantId);
   const addToast = useConfigStore((state) => state.ui.addToast);
 
-  const disabled = !tenantId;
-  const tooltip = tenantId
-    ? "Promote this tenant's staging config to production"
-    : 'Select a tenant first';
+  const { can } = usePermissions();
+  const canPromote = can('promote', 'config');
+
+  const disabled = !tenantId || !canPromote;
+  const tooltip = !tenantId
+    ? 'Select a tenant first'
+    : !canPromote
+      ? 'Your role cannot promote to production'
+      : "Promote this tenant's staging config to production";
 
   const openDialog = () => {
-    if (!tenantId) return;
+    if (disabled) return;
     cancelRef.current = false;
     setPhase('idle');
     setErrorMsg('');
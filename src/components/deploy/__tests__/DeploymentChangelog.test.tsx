@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DeploymentChangelog } from '../DeploymentChangelog';
+import type { ConfigChangelog } from '@/lib/diff';
+
+const changelog: ConfigChangelog = {
+  tenantId: 'TEST001',
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  baseVersion: '1.0',
+  summary: { added: 1, removed: 0, modified: 1 },
+  sections: [
+    {
+      type: 'entities',
+      section: 'cta_definitions',
+      label: 'CTAs',
+      entities: [
+        {
+          id: 'apply',
+          label: 'Apply now',
+          kind: 'modified',
+          changes: [{ path: 'label', kind: 'changed', before: 'Apply', after: 'Apply now' }],
+        },
+        { id: 'donate', label: 'Donate', kind: 'added', changes: [] },
+      ],
+    },
+  ],
+};
+
+describe('DeploymentChangelog', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists changed entities with their field changes', () => {
+    render(<DeploymentChangelog changelog={changelog} />);
+
+    expect(screen.getByText('CTAs')).toBeInTheDocument();
+    expect(screen.getByText('Apply now')).toBeInTheDocument();
+    expect(screen.getByText('"Apply" → "Apply now"')).toBeInTheDocument();
+    expect(screen.getByText('Donate')).toBeInTheDocument();
+    expect(screen.getByText('1 added')).toBeInTheDocument();
+    expect(screen.getByText('1 modified')).toBeInTheDocument();
+  });
+
+  it('says so when there is nothing to deploy', () => {
+    render(
+      <DeploymentChangelog
+        changelog={{ ...changelog, summary: { added: 0, removed: 0, modified: 0 }, sections: [] }}
+      />
+    );
+    expect(screen.getByText(/no changes from the stored configuration/i)).toBeInTheDocument();
+  });
+
+  it('downloads the changelog as JSON', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn(() => 'blob:changelog');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(<DeploymentChangelog changelog={changelog} />);
+    await user.click(screen.getByRole('button', { name: /download json/i }));
+
+    expect(click).toHaveBeenCalledTimes(1);
+    const blob = (createObjectURL.mock.calls[0] as unknown as [Blob])[0];
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    expect(JSON.parse(text)).toEqual(changelog);
+  });
+});
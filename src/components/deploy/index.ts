@@ -3,12 +3,14 @@
  * Export all deployment-related components
  */
 
-export { DeployButton } from './DeployButton';
+export { DeployButton, deployBlockedReason } from './DeployButton';
 export { DeployDialog } from './DeployDialog';
 export { DeploymentSummary } from './DeploymentSummary';
+export { DeploymentChangelog } from './DeploymentChangelog';
 export { PromoteButton } from './PromoteButton';
 
 export type { DeployButtonProps } from './DeployButton';
 export type { DeployDialogProps } from './DeployDialog';
 export type { DeploymentSummaryProps } from './DeploymentSummary';
+export type { DeploymentChangelogProps } from './DeploymentChangelog';
 export type { PromoteButtonProps } from './PromoteButton';
@@ -135,6 +135,8 @@ export const BranchesEditor: React.FC = () => {
         // Domain-specific components
         FormFields: BranchFormFields,
         CardContent: BranchCardContent,
+        allowImport: true,
+        allowFileTransfer: true,
       }}
     />
   );
@@ -10,6 +10,7 @@ import React from 'react';
 import { Input, Textarea, Select } from '@/components/ui';
 import { useConfigStore } from '@/store';
 import { CTAPreview } from './CTAPreview';
+import { SelectionMetadataFields } from './SelectionMetadataFields';
 import type { FormFieldsProps } from '@/lib/crud/types';
 import type { CTAEntity } from './types';
 import type { CTAActionType, CTAType } from '@/types/config';
@@ -306,6 +307,15 @@ export const CTAFormFields: React.FC<FormFieldsProps<CTAEntity>> = ({
         </label>
       </div>
 
+      {/* Selection Metadata - V4.1 pool selection only */}
+      {value.ai_available && (
+        <SelectionMetadataFields
+          value={value.selection_metadata}
+          onChange={(selection_metadata) => onChange({ ...value, selection_metadata })}
+          errors={errors}
+        />
+      )}
+
       {/* Live Preview */}
       <div className="w-full mt-6">
         <CTAPreview cta={value} />
@@ -99,6 +99,7 @@ export const CTAsEditor: React.FC = () => {
               ...(ctaData.target_branch && { target_branch: ctaData.target_branch }),
               ...(ctaData.program_id && { program_id: ctaData.program_id }),
               ...(ctaData.ai_available != null && { ai_available: ctaData.ai_available }),
+              ...(ctaData.selection_metadata && { selection_metadata: ctaData.selection_metadata }),
             };
             createCTA(cta, ctaId);
           },
@@ -114,6 +115,8 @@ export const CTAsEditor: React.FC = () => {
               ...(ctaEntity.query && { query: ctaEntity.query }),
               ...(ctaEntity.prompt && { prompt: ctaEntity.prompt }),
               ai_available: ctaEntity.ai_available || false,
+              // Explicit undefined clears metadata the user removed
+              selection_metadata: ctaEntity.selection_metadata,
             };
             // Handle target_branch: include if defined, or explicitly set to undefined to remove
             if (ctaEntity.target_branch !== undefined) {
@@ -162,6 +165,8 @@ export const CTAsEditor: React.FC = () => {
         // Domain-specific components
         FormFields: CTAFormFields,
         CardContent: CTACardContent,
+        allowImport: true,
+        allowFileTransfer: true,
       }}
     />
   );
@@ -0,0 +1,162 @@
+/**
+ * SelectionMetadataFields Component
+ * V4.1 pool selection metadata for AI-available CTAs: topic tags,
+ * depth/role axes, core learning flag, and priority
+ */
+
+import React from 'react';
+import { Input, Select } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import type { SelectionMetadata } from '@/types/config';
+
+export interface SelectionMetadataFieldsProps {
+  value: SelectionMetadata | undefined;
+  onChange: (value: SelectionMetadata | undefined) => void;
+  errors: Record<string, string | undefined>;
+}
+
+// Presets only — stored values outside these lists are kept selectable
+const DEPTH_LEVEL_PRESETS = [
+  { value: 'info', label: 'Info (learn more)' },
+  { value: 'action', label: 'Action (apply, donate, book)' },
+];
+
+const ROLE_AXIS_PRESETS = [
+  { value: 'give', label: 'Give (donors, supporters)' },
+  { value: 'act', label: 'Act (volunteers, participants)' },
+];
+
+/** Build select options from presets, keeping an unknown stored value */
+function axisOptions(presets: { value: string; label: string }[], current?: string) {
+  const options = [{ value: '__none__', label: 'Not set' }, ...presets];
+  if (current && !presets.some((preset) => preset.value === current)) {
+    options.push({ value: current, label: current });
+  }
+  return options;
+}
+
+/** Drop the block entirely once nothing is set, so untouched CTAs stay lean */
+function normalize(metadata: SelectionMetadata): SelectionMetadata | undefined {
+  const isEmpty =
+    metadata.topic_tags.length === 0 &&
+    metadata.depth_level === undefined &&
+    metadata.role_axis === undefined &&
+    metadata.core_learning === undefined &&
+    metadata.priority === undefined;
+  return isEmpty ? undefined : metadata;
+}
+
+export const SelectionMetadataFields: React.FC<SelectionMetadataFieldsProps> = ({
+  value,
+  onChange,
+  errors,
+}) => {
+  const topics = useConfigStore((state) => state.topics.topic_definitions);
+
+  const metadata: SelectionMetadata = value ?? { topic_tags: [] };
+  const update = (patch: Partial<SelectionMetadata>) => onChange(normalize({ ...metadata, ...patch }));
+
+  // Tags that no longer match a topic stay visible so they can be removed
+  const unknownTags = metadata.topic_tags.filter((tag) => !topics.some((topic) => topic.id === tag));
+
+  const toggleTag = (tag: string, checked: boolean) => {
+    update({
+      topic_tags: checked
+        ? [...metadata.topic_tags, tag]
+        : metadata.topic_tags.filter((t) => t !== tag),
+    });
+  };
+
+  return (
+    <div className="w-full space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Pool selection
+        </h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Decides which classified topics this CTA can be offered for
+        </p>
+      </div>
+
+      {/* Topic Tags */}
+      <div id="selection_metadata.topic_tags" className="w-full">
+        <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Topics
+        </span>
+        {topics.length === 0 && unknownTags.length === 0 ? (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            No topics defined. Create topics on the Topics page to tag this CTA.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {topics.map((topic) => (
+              <label key={topic.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={metadata.topic_tags.includes(topic.id)}
+                  onChange={(e) => toggleTag(topic.id, e.target.checked)}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">{topic.label}</span>
+              </label>
+            ))}
+            {unknownTags.map((tag) => (
+              <label key={tag} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked
+                  onChange={() => toggleTag(tag, false)}
+                  className="w-4 h-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                />
+                <span className="text-sm text-amber-700 dark:text-amber-400">{tag} (missing)</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {errors['selection_metadata.topic_tags'] && (
+          <p className="mt-1.5 text-sm text-red-600 dark:text-red-400" role="alert">
+            {errors['selection_metadata.topic_tags']}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label="Depth level"
+          value={metadata.depth_level ?? '__none__'}
+          onValueChange={(depth) => update({ depth_level: depth === '__none__' ? undefined : depth })}
+          options={axisOptions(DEPTH_LEVEL_PRESETS, metadata.depth_level)}
+        />
+        <Select
+          label="Role axis"
+          value={metadata.role_axis ?? '__none__'}
+          onValueChange={(role) => update({ role_axis: role === '__none__' ? undefined : role })}
+          options={axisOptions(ROLE_AXIS_PRESETS, metadata.role_axis)}
+        />
+        <Input
+          label="Priority"
+          id="selection_metadata.priority"
+          type="number"
+          min={0}
+          step={1}
+          placeholder="Not set"
+          value={metadata.priority ?? ''}
+          onChange={(e) =>
+            update({ priority: e.target.value === '' ? undefined : Number(e.target.value) })
+          }
+          error={errors['selection_metadata.priority']}
+          helperText="Lower values are offered first"
+        />
+        <label className="flex items-center gap-2 cursor-pointer self-center">
+          <input
+            type="checkbox"
+            checked={metadata.core_learning ?? false}
+            onChange={(e) => update({ core_learning: e.target.checked || undefined })}
+            className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">Core learning CTA</span>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -123,6 +123,7 @@ export const FieldCollection: React.FC<FieldCollectionProps> = ({
               field={field}
               index={index}
               totalFields={fields.length}
+              previousFields={fields.slice(0, index)}
               onChange={(updatedField) => handleUpdateField(index, updatedField)}
               onDelete={() => handleDeleteField(index)}
               onDuplicate={() => handleDuplicateField(index)}
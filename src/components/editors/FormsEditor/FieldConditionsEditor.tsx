@@ -0,0 +1,175 @@
+/**
+ * FieldConditionsEditor Component
+ * Show-if rule builder for a form field
+ */
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import { findSubfield, subfieldRef } from '@/lib/compositeFieldTemplates';
+import {
+  CONDITION_OPERATOR_LABELS,
+  conditionValues,
+  operatorNeedsValue,
+  operatorTakesList,
+  parseConditionRef,
+} from '@/lib/formConditions';
+import { FIELD_CONDITION_OPERATORS } from '@/types/config';
+import type { FieldCondition, FieldConditionOperator, FieldConditions, FormField, FormFieldOption } from '@/types/config';
+
+export interface FieldConditionsEditorProps {
+  conditions: FieldConditions | undefined;
+  /** Fields asked before this one; rules can only use their answers */
+  previousFields: FormField[];
+  onChange: (conditions: FieldConditions | undefined) => void;
+  idPrefix: string;
+}
+
+const MATCH_OPTIONS = [
+  { value: 'all', label: 'All rules match (AND)' },
+  { value: 'any', label: 'Any rule matches (OR)' },
+];
+
+const OPERATOR_OPTIONS = FIELD_CONDITION_OPERATORS.map((operator) => ({
+  value: operator,
+  label: CONDITION_OPERATOR_LABELS[operator],
+}));
+
+/** One option per answer: plain fields, and each part of name/address fields */
+function answerOptions(fields: FormField[]): { value: string; label: string }[] {
+  return fields.flatMap((field) =>
+    field.subfields?.length
+      ? field.subfields.map((sub) => ({ value: subfieldRef(field, sub), label: `${field.label || field.id} → ${sub.label}` }))
+      : [{ value: field.id, label: field.label || field.id }]
+  );
+}
+
+function optionsFor(ref: string, fields: FormField[]): FormFieldOption[] | undefined {
+  const { fieldId, subfieldId } = parseConditionRef(ref);
+  const field = fields.find((f) => f.id === fieldId);
+  return subfieldId ? findSubfield(field, subfieldId)?.options : field?.options;
+}
+
+/**
+ * Field Conditions Editor
+ *
+ * A field with no rules is always asked. Rules compare an earlier answer
+ * (field, operator, value) and combine with AND or OR. When the earlier
+ * field has options, single values are picked from them.
+ *
+ * @example
+ * ```tsx
+ * <FieldConditionsEditor
+ *   conditions={field.conditions}
+ *   previousFields={fields.slice(0, index)}
+ *   onChange={(conditions) => onChange({ ...field, conditions })}
+ *   idPrefix="field-2"
+ * />
+ * ```
+ */
+export const FieldConditionsEditor: React.FC<FieldConditionsEditorProps> = ({
+  conditions,
+  previousFields,
+  onChange,
+  idPrefix,
+}) => {
+  const rules = conditions?.rules ?? [];
+  const fieldOptions = answerOptions(previousFields);
+
+  const setRules = (next: FieldCondition[]) =>
+    onChange(next.length > 0 ? { match: conditions?.match ?? 'all', rules: next } : undefined);
+
+  const updateRule = (index: number, updates: Partial<FieldCondition>) =>
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+
+  const handleOperatorChange = (index: number, operator: FieldConditionOperator) => {
+    const values = conditionValues(rules[index]);
+    const value = !operatorNeedsValue(operator) ? undefined : operatorTakesList(operator) ? values : values[0] ?? '';
+    setRules(rules.map((rule, i) => (i === index ? { field: rule.field, operator, ...(value !== undefined && { value }) } : rule)));
+  };
+
+  const handleAddRule = () =>
+    setRules([...rules, { field: fieldOptions[fieldOptions.length - 1]?.value ?? '', operator: 'equals', value: '' }]);
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Show this field only if</span>
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {previousFields.length === 0 ? 'The first field is always asked' : 'Always asked'}
+            </p>
+          )}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={handleAddRule} disabled={previousFields.length === 0}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Rule
+        </Button>
+      </div>
+
+      {rules.length > 1 && (
+        <Select
+          label="Combine rules"
+          options={MATCH_OPTIONS}
+          value={conditions?.match ?? 'all'}
+          onValueChange={(match) => onChange({ match: match as FieldConditions['match'], rules })}
+        />
+      )}
+
+      {rules.map((rule, ruleIndex) => {
+        const options = optionsFor(rule.field, previousFields);
+        const pickFromOptions = Boolean(options?.length) && (rule.operator === 'equals' || rule.operator === 'not_equals');
+        const knownField = fieldOptions.some((option) => option.value === rule.field);
+
+        return (
+          <div key={ruleIndex} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-start">
+            <Select
+              placeholder="Field"
+              options={knownField || !rule.field ? fieldOptions : [...fieldOptions, { value: rule.field, label: `${rule.field} (missing)` }]}
+              value={rule.field}
+              onValueChange={(field) => updateRule(ruleIndex, { field })}
+            />
+            <Select
+              options={OPERATOR_OPTIONS}
+              value={rule.operator}
+              onValueChange={(operator) => handleOperatorChange(ruleIndex, operator as FieldConditionOperator)}
+            />
+            {!operatorNeedsValue(rule.operator) ? (
+              <div />
+            ) : pickFromOptions ? (
+              <Select
+                placeholder="Value"
+                options={options!.map((option) => ({ value: option.value, label: option.label || option.value }))}
+                value={conditionValues(rule)[0] ?? ''}
+                onValueChange={(value) => updateRule(ruleIndex, { value })}
+              />
+            ) : (
+              <Input
+                id={`${idPrefix}-condition-${ruleIndex}-value`}
+                aria-label={`Rule ${ruleIndex + 1} value`}
+                placeholder={operatorTakesList(rule.operator) ? 'TX, OK, NM' : 'Value'}
+                value={Array.isArray(rule.value) ? rule.value.join(', ') : rule.value ?? ''}
+                onChange={(e) =>
+                  updateRule(ruleIndex, {
+                    value: operatorTakesList(rule.operator) ? e.target.value.split(',').map((v) => v.trimStart()) : e.target.value,
+                  })
+                }
+                helperText={operatorTakesList(rule.operator) ? 'Separate values with commas' : undefined}
+              />
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRules(rules.filter((_, i) => i !== ruleIndex))}
+              title="Remove rule"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -8,11 +8,16 @@ import { Input, Textarea, Select, Button, Badge } from '@/components/ui';
 import { X, Plus, Trash2, Copy, ChevronUp, ChevronDown } from 'lucide-react';
 import type { FormField, FormFieldType, FormFieldOption } from '@/types/config';
 import { generateCompositeSubfields, isCompositeFieldType } from '@/lib/compositeFieldTemplates';
+import { isOptionFieldType, RATING_MAX, stripOtherTypeProps } from '@/lib/formFieldTypes';
+import { useConfigStore } from '@/store';
+import { FieldConditionsEditor } from './FieldConditionsEditor';
 
 export interface FieldEditorProps {
   field: FormField;
   index: number;
   totalFields: number;
+  /** Fields before this one, for show-if rules */
+  previousFields?: FormField[];
   onChange: (field: FormField) => void;
   onDelete: () => void;
   onDuplicate: () => void;
@@ -24,24 +29,39 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
   field,
   index,
   totalFields,
+  previousFields = [],
   onChange,
   onDelete,
   onDuplicate,
   onMoveUp,
   onMoveDown,
 }) => {
+  const uploadsEnabled = useConfigStore((state) => state.config.baseConfig?.features?.uploads === true);
+
   const fieldTypeOptions = [
     { value: 'text', label: 'Text' },
     { value: 'email', label: 'Email' },
     { value: 'phone', label: 'Phone' },
     { value: 'number', label: 'Number' },
     { value: 'date', label: 'Date' },
+    { value: 'time', label: 'Time' },
+    { value: 'date_range', label: 'Date Range' },
     { value: 'select', label: 'Select (Dropdown)' },
+    { value: 'multi_select', label: 'Multi-Select (Pick Several)' },
+    { value: 'checkbox', label: 'Checkbox (Yes/No)' },
+    { value: 'consent', label: 'Consent (Agree to Policy)' },
+    { value: 'rating', label: `Rating (1–${RATING_MAX})` },
+    { value: 'file_upload', label: 'File Upload' },
     { value: 'textarea', label: 'Textarea (Long Text)' },
     { value: 'name', label: 'Name (Full Name Fields)' },
     { value: 'address', label: 'Address (US Address)' },
   ];
 
+  const parseCount = (value: string): number | undefined => {
+    const count = parseInt(value, 10);
+    return Number.isNaN(count) ? undefined : count;
+  };
+
   const handleOptionChange = (index: number, key: 'value' | 'label', value: string) => {
     const updatedOptions = [...(field.options || [])];
     updatedOptions[index] = { ...updatedOptions[index], [key]: value };
@@ -60,7 +80,7 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
 
   // Auto-generate subfields when composite field type is selected
   const handleFieldTypeChange = (newType: FormFieldType) => {
-    const updatedField: FormField = { ...field, type: newType };
+    const updatedField: FormField = stripOtherTypeProps({ ...field, type: newType });
 
     // If switching to a composite field type, generate default subfields
     if (isCompositeFieldType(newType) && !field.subfields) {
@@ -72,10 +92,7 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
       delete updatedField.subfields;
     }
 
-    // Clear options if switching away from select type
-    if (newType !== 'select' && field.options) {
-      delete updatedField.options;
-    }
+    // Options and other type-specific settings are cleared by stripOtherTypeProps
 
     // Clear eligibility_gate and failure_message if switching away from select
     if (newType !== 'select') {
@@ -98,6 +115,7 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
           <Badge variant="outline">Field {index + 1}</Badge>
           {field.required && <Badge variant="secondary">Required</Badge>}
           {field.eligibility_gate && <Badge variant="warning">Gate</Badge>}
+          {field.conditions?.rules?.length ? <Badge variant="info">Conditional</Badge> : null}
         </div>
         <div className="flex items-center gap-1">
           <Button
@@ -240,11 +258,11 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
         </div>
       )}
 
-      {/* Options for select field type */}
-      {field.type === 'select' && (
+      {/* Options for select and multi-select field types */}
+      {isOptionFieldType(field.type) && (
         <div className="border-t pt-4">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Dropdown Options <span className="text-red-600">*</span>
+            {field.type === 'multi_select' ? 'Choices' : 'Dropdown Options'} <span className="text-red-600">*</span>
           </label>
           <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
             Define value and label for each option. Value is used internally (e.g., "yes", "no"), Label is shown to users.
@@ -291,6 +309,92 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
         </div>
       )}
 
+      {/* Multi-select limits */}
+      {field.type === 'multi_select' && (
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Minimum Selections"
+            id={`field-${index}-min-selections`}
+            type="number"
+            min={0}
+            value={field.min_selections?.toString() ?? ''}
+            onChange={(e) => onChange({ ...field, min_selections: parseCount(e.target.value) })}
+            placeholder={field.required ? '1' : '0'}
+            helperText="Leave empty for no minimum"
+          />
+          <Input
+            label="Maximum Selections"
+            id={`field-${index}-max-selections`}
+            type="number"
+            min={1}
+            value={field.max_selections?.toString() ?? ''}
+            onChange={(e) => onChange({ ...field, max_selections: parseCount(e.target.value) })}
+            placeholder={String(field.options?.length || '')}
+            helperText="Leave empty to allow every choice"
+          />
+        </div>
+      )}
+
+      {/* Consent policy */}
+      {field.type === 'consent' && (
+        <div className="border-t pt-4 space-y-3">
+          <Textarea
+            label="Policy Text"
+            id={`field-${index}-policy-text`}
+            value={field.policy_text || ''}
+            onChange={(e) => onChange({ ...field, policy_text: e.target.value || undefined })}
+            placeholder="e.g., I agree to receive text messages about my application."
+            rows={3}
+          />
+          <Input
+            label="Policy Link (Optional)"
+            id={`field-${index}-policy-url`}
+            type="url"
+            value={field.policy_url || ''}
+            onChange={(e) => onChange({ ...field, policy_url: e.target.value || undefined })}
+            placeholder="https://example.org/privacy"
+            helperText="Shown with the policy text so visitors can read the full policy"
+          />
+        </div>
+      )}
+
+      {/* File upload limits */}
+      {field.type === 'file_upload' && (
+        <div className="border-t pt-4 space-y-3">
+          {!uploadsEnabled && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Uploads are turned off for this tenant, so the widget skips this field. Turn on Uploads in Settings → Features.
+            </p>
+          )}
+          <Input
+            label="Accepted File Types"
+            id={`field-${index}-accepted-types`}
+            value={(field.accepted_types || []).join(', ')}
+            onChange={(e) => {
+              const types = e.target.value.split(',').map((t) => t.trimStart());
+              onChange({ ...field, accepted_types: types.some((t) => t.trim()) ? types : undefined });
+            }}
+            placeholder="e.g., application/pdf, image/*"
+            helperText="MIME types separated by commas; leave empty to accept any file"
+          />
+          <Input
+            label="Maximum File Size (MB)"
+            id={`field-${index}-max-file-size`}
+            type="number"
+            min={1}
+            value={field.max_file_size_mb?.toString() ?? ''}
+            onChange={(e) => onChange({ ...field, max_file_size_mb: parseCount(e.target.value) })}
+            placeholder="e.g., 10"
+          />
+        </div>
+      )}
+
+      {field.type === 'rating' && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Visitors pick a number from 1 to {RATING_MAX}.
+        </p>
+      )}
+
       {/* Eligibility Gate */}
       <div className="border-t pt-4 space-y-3">
         <label className={`flex items-center gap-2 ${(field.type === 'select' || field.type === 'date') ? 'cursor-pointer' : 'cursor-not-allowed opacity-60'}`}>
@@ -350,6 +454,17 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
           />
         )}
       </div>
+
+      {/* Show-if Rules */}
+      <FieldConditionsEditor
+        conditions={field.conditions}
+        previousFields={previousFields}
+        onChange={(conditions) => {
+          const { conditions: _previous, ...rest } = field;
+          onChange(conditions ? { ...rest, conditions } : rest);
+        }}
+        idPrefix={`field-${index}`}
+      />
     </div>
   );
 };
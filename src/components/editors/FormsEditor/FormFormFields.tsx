@@ -9,6 +9,7 @@ import { Input, Textarea, Select } from '@/components/ui';
 import { useConfigStore } from '@/store';
 import { FieldCollection } from './FieldCollection';
 import { PostSubmissionConfig } from './PostSubmissionConfig';
+import { FormNotificationsEditor } from './FormNotificationsEditor';
 import type { ConversationalForm } from '@/types/config';
 import type { FormFieldsProps } from '@/lib/crud/types';
 
@@ -176,6 +177,14 @@ export const FormFormFields: React.FC<FormFieldsProps<ConversationalForm>> = ({
         errors={errors.post_submission ? { confirmation_message: errors.post_submission } : undefined}
         touched={touched.post_submission}
         onBlur={() => onBlur('post_submission')}
+        form={value}
+      />
+
+      {/* Staff notification and applicant confirmation */}
+      <FormNotificationsEditor
+        value={value.notifications}
+        form={value}
+        onChange={(notifications) => onChange({ ...value, notifications })}
       />
     </>
   );
@@ -0,0 +1,346 @@
+/**
+ * FormNotificationsEditor Component
+ * Staff notification (email/SMS) and applicant confirmation templates for a form
+ * - Merge-field picker built from the form's fields and subfields
+ * - Previews rendered with sample answers
+ * - SMS segment count
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Mail, MessageSquare } from 'lucide-react';
+import { Badge, Input, Textarea } from '@/components/ui';
+import {
+  isE164Phone,
+  isValidEmail,
+  mergeFieldsForForm,
+  renderTemplate,
+  sampleValues,
+  smsSegments,
+  unknownPlaceholders,
+} from '@/lib/notificationTemplates';
+import type { ConversationalForm, FormNotificationConfig } from '@/types/config';
+
+export interface FormNotificationsEditorProps {
+  value?: FormNotificationConfig;
+  /** The form being edited, for merge fields */
+  form: Pick<ConversationalForm, 'title' | 'fields'>;
+  onChange: (value: FormNotificationConfig) => void;
+}
+
+type TemplateKey =
+  | 'internal.subject'
+  | 'internal.body_template'
+  | 'internal.sms_template'
+  | 'applicant_confirmation.subject'
+  | 'applicant_confirmation.body_template';
+
+const TEMPLATE_NAMES: Record<TemplateKey, string> = {
+  'internal.subject': 'Staff email subject',
+  'internal.body_template': 'Staff email body',
+  'internal.sms_template': 'Staff SMS',
+  'applicant_confirmation.subject': 'Confirmation subject',
+  'applicant_confirmation.body_template': 'Confirmation body',
+};
+
+const DEFAULT_NOTIFICATIONS: FormNotificationConfig = {
+  internal: {
+    enabled: false,
+    recipients: [],
+    subject: 'New submission: {{form_title}}',
+    body_template: '',
+    channels: { email: true, sms: false },
+  },
+  applicant_confirmation: {
+    enabled: false,
+    subject: 'Thanks for your submission',
+    body_template: '',
+    use_tenant_branding: true,
+  },
+};
+
+const CHECKBOX_CLASS = 'w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500';
+
+/** Comma-separated input → list, keeping what is still being typed */
+const splitList = (text: string) => text.split(',').map((item) => item.trimStart());
+
+const invalidRecipients = (list: string[] | undefined, isValid: (value: string) => boolean) =>
+  (list ?? []).map((item) => item.trim()).filter((item) => item && !isValid(item));
+
+/**
+ * Form Notifications Editor
+ *
+ * Click a merge field to insert it at the cursor of the template last
+ * focused. Placeholders that aren't merge fields of this form are listed
+ * under their template and left as written in the preview.
+ *
+ * @example
+ * ```tsx
+ * <FormNotificationsEditor
+ *   value={form.notifications}
+ *   form={form}
+ *   onChange={(notifications) => onChange({ ...form, notifications })}
+ * />
+ * ```
+ */
+export const FormNotificationsEditor: React.FC<FormNotificationsEditorProps> = ({ value, form, onChange }) => {
+  const config = value ?? DEFAULT_NOTIFICATIONS;
+  const { internal, applicant_confirmation: confirmation } = config;
+  const mergeFields = useMemo(() => mergeFieldsForForm(form), [form]);
+  const samples = useMemo(() => sampleValues(form), [form]);
+  // Template the picker inserts into, and the cursor position in it (end when null)
+  const [target, setTarget] = useState<{ key: TemplateKey; at: number | null }>({
+    key: 'internal.body_template',
+    at: null,
+  });
+
+  const updateInternal = (updates: Partial<FormNotificationConfig['internal']>) =>
+    onChange({ ...config, internal: { ...internal, ...updates } });
+  const updateConfirmation = (updates: Partial<FormNotificationConfig['applicant_confirmation']>) =>
+    onChange({ ...config, applicant_confirmation: { ...confirmation, ...updates } });
+
+  const templateOf = (key: TemplateKey): string => {
+    switch (key) {
+      case 'internal.subject':
+        return internal.subject;
+      case 'internal.body_template':
+        return internal.body_template;
+      case 'internal.sms_template':
+        return internal.sms_template ?? '';
+      case 'applicant_confirmation.subject':
+        return confirmation.subject;
+      case 'applicant_confirmation.body_template':
+        return confirmation.body_template;
+    }
+  };
+
+  const setTemplate = (key: TemplateKey, text: string) => {
+    const [block, prop] = key.split('.');
+    if (block === 'internal') updateInternal({ [prop]: text } as Partial<FormNotificationConfig['internal']>);
+    else updateConfirmation({ [prop]: text } as Partial<FormNotificationConfig['applicant_confirmation']>);
+  };
+
+  const trackCursor = (key: TemplateKey) => (e: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setTarget({ key, at: e.currentTarget.selectionStart });
+
+  const templateProps = (key: TemplateKey) => ({
+    value: templateOf(key),
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setTarget({ key, at: e.target.selectionStart });
+      setTemplate(key, e.target.value);
+    },
+    onFocus: trackCursor(key),
+    onSelect: trackCursor(key),
+  });
+
+  const insertMergeField = (token: string) => {
+    const text = templateOf(target.key);
+    const at = target.at ?? text.length;
+    const placeholder = `{{${token}}}`;
+    setTemplate(target.key, text.slice(0, at) + placeholder + text.slice(at));
+    setTarget({ key: target.key, at: at + placeholder.length });
+  };
+
+  const renderUnknown = (key: TemplateKey) => {
+    const unknown = unknownPlaceholders(templateOf(key), form);
+    return unknown.length > 0 ? (
+      <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">
+        Not a field of this form: {unknown.map((token) => `{{${token}}}`).join(', ')}
+      </p>
+    ) : null;
+  };
+
+  const renderPreview = (subjectKey: TemplateKey | null, bodyKey: TemplateKey) => (
+    <div className="rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 p-3 text-sm">
+      <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400 mb-1">Preview with sample answers</p>
+      {subjectKey && (
+        <p className="font-semibold text-gray-900 dark:text-gray-100">{renderTemplate(templateOf(subjectKey), samples)}</p>
+      )}
+      <p className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+        {renderTemplate(templateOf(bodyKey), samples) || <span className="italic text-gray-400">(empty)</span>}
+      </p>
+    </div>
+  );
+
+  const badEmails = invalidRecipients(internal.recipients, isValidEmail);
+  const badPhones = invalidRecipients(internal.sms_recipients, isE164Phone);
+  const sms = smsSegments(renderTemplate(internal.sms_template ?? '', samples));
+  const anyEnabled = internal.enabled || confirmation.enabled;
+
+  return (
+    <div className="space-y-6 border-t pt-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Notifications</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">(Optional)</p>
+      </div>
+
+      {anyEnabled && (
+        <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Insert merge field into <span className="text-primary-700 dark:text-primary-400">{TEMPLATE_NAMES[target.key]}</span>
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {mergeFields.map((field) => (
+              <button
+                key={field.token}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()} // keep the template's cursor
+                onClick={() => insertMergeField(field.token)}
+                title={`${field.label} — e.g. ${field.sample}`}
+                className="rounded border border-gray-300 dark:border-gray-600 px-2 py-0.5 font-mono text-xs text-gray-700 dark:text-gray-300 hover:bg-primary-50 dark:hover:bg-gray-800"
+              >
+                {`{{${field.token}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Staff notification */}
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={internal.enabled}
+            onChange={(e) => updateInternal({ enabled: e.target.checked })}
+            className={CHECKBOX_CLASS}
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Notify staff when this form is submitted</span>
+        </label>
+
+        {internal.enabled && (
+          <div className="space-y-4 pl-6 border-l-2 border-primary-200 dark:border-primary-800">
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={internal.channels.email}
+                  onChange={(e) => updateInternal({ channels: { ...internal.channels, email: e.target.checked } })}
+                  className={CHECKBOX_CLASS}
+                />
+                <Mail className="w-4 h-4" />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Email</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={internal.channels.sms}
+                  onChange={(e) => updateInternal({ channels: { ...internal.channels, sms: e.target.checked } })}
+                  className={CHECKBOX_CLASS}
+                />
+                <MessageSquare className="w-4 h-4" />
+                <span className="text-sm text-gray-700 dark:text-gray-300">SMS</span>
+              </label>
+            </div>
+
+            {internal.channels.email && (
+              <>
+                <Input
+                  label="Email Recipients"
+                  id="notification-recipients"
+                  value={internal.recipients.join(', ')}
+                  onChange={(e) => updateInternal({ recipients: splitList(e.target.value) })}
+                  placeholder="volunteers@example.org, coordinator@example.org"
+                  error={badEmails.length > 0 ? `Not valid email addresses: ${badEmails.join(', ')}` : undefined}
+                  helperText="Separate addresses with commas"
+                />
+                <div>
+                  <Input label="Subject" id="notification-subject" {...templateProps('internal.subject')} />
+                  {renderUnknown('internal.subject')}
+                </div>
+                <div>
+                  <Textarea
+                    label="Email Body"
+                    id="notification-body"
+                    rows={5}
+                    placeholder="{{full_name}} applied to {{form_title}}. Email: {{email}}"
+                    {...templateProps('internal.body_template')}
+                  />
+                  {renderUnknown('internal.body_template')}
+                </div>
+                {renderPreview('internal.subject', 'internal.body_template')}
+              </>
+            )}
+
+            {internal.channels.sms && (
+              <>
+                <Input
+                  label="SMS Recipients"
+                  id="notification-sms-recipients"
+                  value={(internal.sms_recipients ?? []).join(', ')}
+                  onChange={(e) => updateInternal({ sms_recipients: splitList(e.target.value) })}
+                  placeholder="+15125550123"
+                  error={badPhones.length > 0 ? `Not E.164 numbers: ${badPhones.join(', ')}` : undefined}
+                  helperText="International format (+ country code), separated by commas"
+                />
+                <div>
+                  <Textarea
+                    label="SMS Text"
+                    id="notification-sms"
+                    rows={3}
+                    placeholder="New application from {{full_name}}"
+                    {...templateProps('internal.sms_template')}
+                  />
+                  {renderUnknown('internal.sms_template')}
+                  <div className="mt-1 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    <Badge variant={sms.segments > 1 ? 'warning' : 'secondary'} size="sm">
+                      {sms.segments} {sms.segments === 1 ? 'segment' : 'segments'}
+                    </Badge>
+                    <span>
+                      {sms.length} / {sms.perSegment * Math.max(sms.segments, 1)} {sms.encoding} characters with sample answers
+                    </span>
+                  </div>
+                </div>
+                {renderPreview(null, 'internal.sms_template')}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Applicant confirmation */}
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={confirmation.enabled}
+            onChange={(e) => updateConfirmation({ enabled: e.target.checked })}
+            className={CHECKBOX_CLASS}
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Email the applicant a confirmation
+          </span>
+        </label>
+
+        {confirmation.enabled && (
+          <div className="space-y-4 pl-6 border-l-2 border-primary-200 dark:border-primary-800">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Sent to the address given in the form's email field.</p>
+            <div>
+              <Input label="Subject" id="confirmation-subject" {...templateProps('applicant_confirmation.subject')} />
+              {renderUnknown('applicant_confirmation.subject')}
+            </div>
+            <div>
+              <Textarea
+                label="Email Body"
+                id="confirmation-body"
+                rows={5}
+                placeholder="Hi {{first_name}}, thanks for applying! We'll be in touch soon."
+                {...templateProps('applicant_confirmation.body_template')}
+              />
+              {renderUnknown('applicant_confirmation.body_template')}
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={confirmation.use_tenant_branding}
+                onChange={(e) => updateConfirmation({ use_tenant_branding: e.target.checked })}
+                className={CHECKBOX_CLASS}
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Use tenant branding (logo and colors)</span>
+            </label>
+            {renderPreview('applicant_confirmation.subject', 'applicant_confirmation.body_template')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -133,6 +133,8 @@ export const FormsEditor: React.FC = () => {
         // Domain-specific components
         FormFields: FormFormFields,
         CardContent: FormCardContent,
+        allowImport: true,
+        allowFileTransfer: true,
 
         // Footer actions for Forms
         footerActions: (formData, onChange) => (
@@ -4,13 +4,19 @@
  * - Confirmation message
  * - Next steps
  * - Post-submission actions (buttons)
- * - Fulfillment settings (email, webhook, etc.)
+ * - Fulfillment settings (email, webhook, etc.), with a webhook tester
  */
 
 import React, { useState } from 'react';
 import { Input, Textarea, Button, Badge, Select } from '@/components/ui';
 import { Plus, X, Trash2, Webhook, CalendarClock } from 'lucide-react';
-import type { PostSubmissionConfig as PostSubmissionConfigType, PostSubmissionAction, Fulfillment } from '@/types/config';
+import { WebhookTester } from './WebhookTester';
+import type {
+  ConversationalForm,
+  PostSubmissionConfig as PostSubmissionConfigType,
+  PostSubmissionAction,
+  Fulfillment,
+} from '@/types/config';
 
 export interface PostSubmissionConfigProps {
   value?: PostSubmissionConfigType;
@@ -18,6 +24,8 @@ export interface PostSubmissionConfigProps {
   errors?: Record<string, string | undefined>;
   touched?: boolean;
   onBlur?: () => void;
+  /** The form being edited; enables the webhook tester */
+  form?: Pick<ConversationalForm, 'form_id' | 'title' | 'program' | 'fields'>;
 }
 
 export const PostSubmissionConfig: React.FC<PostSubmissionConfigProps> = ({
@@ -26,6 +34,7 @@ export const PostSubmissionConfig: React.FC<PostSubmissionConfigProps> = ({
   errors,
   touched,
   onBlur,
+  form,
 }) => {
   const [newNextStep, setNewNextStep] = useState('');
   const [showFulfillment, setShowFulfillment] = useState(!!value?.fulfillment);
@@ -370,8 +379,9 @@ export const PostSubmissionConfig: React.FC<PostSubmissionConfigProps> = ({
                 POST form data to an external endpoint (e.g., n8n, Zapier, Google Sheets via webhook).
               </p>
             </div>
+            {form && <WebhookTester url={config.fulfillment?.webhook_url} form={form} />}
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              Email notifications are managed in the portal's Notifications tab.
+              Staff and applicant emails are set up under Notifications below.
             </p>
           </div>
         )}
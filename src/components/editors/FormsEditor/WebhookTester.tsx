@@ -0,0 +1,106 @@
+/**
+ * WebhookTester Component
+ * Sends a sample submission of the form to its webhook, or to the local dev
+ * server's echo endpoint, and shows the payload and the endpoint's response
+ */
+
+import React, { useState } from 'react';
+import { Button, Alert, AlertDescription } from '@/components/ui';
+import { Send, FileJson } from 'lucide-react';
+import { useConfigStore } from '@/store';
+import { buildWebhookPayload, type WebhookPayload } from '@/lib/webhookPayload';
+import { LOCAL_WEBHOOK_ECHO_URL, sendTestWebhook, type WebhookTestOutcome } from '@/lib/api/webhookTest';
+import type { ConversationalForm } from '@/types/config';
+
+export interface WebhookTesterProps {
+  /** The form's configured webhook URL */
+  url?: string;
+  form: Pick<ConversationalForm, 'form_id' | 'title' | 'program' | 'fields'>;
+}
+
+type Target = 'webhook' | 'echo';
+
+export const WebhookTester: React.FC<WebhookTesterProps> = ({ url, form }) => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const [payload, setPayload] = useState<WebhookPayload | null>(null);
+  const [sending, setSending] = useState<Target | null>(null);
+  const [result, setResult] = useState<{ target: Target; outcome: WebhookTestOutcome } | null>(null);
+
+  const samplePayload = () => buildWebhookPayload(form, { tenantId: tenantId || 'TENANT_ID' });
+
+  const handleSend = async (target: Target) => {
+    const next = samplePayload();
+    setPayload(next);
+    setResult(null);
+    setSending(target);
+    const outcome = await sendTestWebhook(target === 'echo' ? LOCAL_WEBHOOK_ECHO_URL : url || '', next);
+    setSending(null);
+    setResult({ target, outcome });
+  };
+
+  const where = result?.target === 'echo' ? 'The local echo endpoint' : 'The webhook';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => handleSend('webhook')}
+          disabled={!url?.trim() || sending !== null}
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {sending === 'webhook' ? 'Sending...' : 'Test webhook'}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => handleSend('echo')}
+          disabled={sending !== null}
+        >
+          {sending === 'echo' ? 'Sending...' : 'Send to local echo'}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => setPayload(payload ? null : samplePayload())}
+        >
+          <FileJson className="w-4 h-4 mr-2" />
+          {payload ? 'Hide payload' : 'Show payload'}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Posts the submission this form would send, with sample answers and <code>"test": true</code>. The
+        local dev server's echo endpoint ({LOCAL_WEBHOOK_ECHO_URL}) lists what it receives at the same URL.
+      </p>
+
+      {result && result.outcome.status !== 'failed' && (
+        <Alert variant={result.outcome.status === 'delivered' ? 'success' : 'error'}>
+          <AlertDescription>
+            {where} answered {result.outcome.httpStatus} in {result.outcome.durationMs} ms.
+          </AlertDescription>
+          {result.outcome.body && (
+            <pre className="mt-2 whitespace-pre-wrap break-all text-xs">{result.outcome.body}</pre>
+          )}
+        </Alert>
+      )}
+      {result && result.outcome.status === 'failed' && (
+        <Alert variant="error">
+          <AlertDescription>Couldn't send the test: {result.outcome.detail}</AlertDescription>
+        </Alert>
+      )}
+
+      {payload && (
+        <pre
+          aria-label="Webhook payload"
+          className="max-h-72 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 text-xs text-gray-800 dark:text-gray-200"
+        >
+          {JSON.stringify(payload, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+};
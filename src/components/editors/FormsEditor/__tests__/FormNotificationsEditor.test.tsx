@@ -0,0 +1,61 @@
+/**
+ * FormNotificationsEditor — merge-field insertion, unknown placeholders, SMS segments
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FormNotificationsEditor } from '../FormNotificationsEditor';
+import type { ConversationalForm, FormNotificationConfig } from '@/types/config';
+
+const form: Pick<ConversationalForm, 'title' | 'fields'> = {
+  title: 'Volunteer Application',
+  fields: [{ id: 'email', type: 'email', label: 'Email', prompt: 'Email?', required: true }],
+};
+
+const notifications: FormNotificationConfig = {
+  internal: {
+    enabled: true,
+    recipients: ['staff@example.org'],
+    subject: 'New submission',
+    body_template: 'Hi , thanks',
+    sms_template: 'New applicant {{name}}',
+    channels: { email: true, sms: true },
+  },
+  applicant_confirmation: { enabled: false, subject: '', body_template: '', use_tenant_branding: true },
+};
+
+describe('FormNotificationsEditor', () => {
+  it('inserts a merge field into the focused template at the cursor', () => {
+    const onChange = vi.fn();
+    render(<FormNotificationsEditor value={notifications} form={form} onChange={onChange} />);
+
+    const body = screen.getByLabelText('Email Body') as HTMLTextAreaElement;
+    body.setSelectionRange(3, 3);
+    fireEvent.focus(body);
+    fireEvent.click(screen.getByRole('button', { name: '{{email}}' }));
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ internal: expect.objectContaining({ body_template: 'Hi {{email}}, thanks' }) })
+    );
+  });
+
+  it('lists placeholders that are not fields of the form and counts SMS segments', () => {
+    render(<FormNotificationsEditor value={notifications} form={form} onChange={vi.fn()} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Not a field of this form: {{name}}');
+    expect(screen.getByText('1 segment')).toBeInTheDocument();
+  });
+
+  it('starts from defaults when the form has no notifications', () => {
+    const onChange = vi.fn();
+    render(<FormNotificationsEditor form={form} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/notify staff/i));
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        internal: expect.objectContaining({ enabled: true, channels: { email: true, sms: false } }),
+      })
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * WebhookTester — sending the sample submission and showing the result
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WebhookTester } from '../WebhookTester';
+import { LOCAL_WEBHOOK_ECHO_URL } from '@/lib/api/webhookTest';
+import type { ConversationalForm } from '@/types/config';
+
+const form: Pick<ConversationalForm, 'form_id' | 'title' | 'program' | 'fields'> = {
+  form_id: 'contact',
+  title: 'Contact Us',
+  program: 'general',
+  fields: [{ id: 'email', type: 'email', label: 'Email', prompt: 'Email?', required: true }],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('WebhookTester', () => {
+  it('shows the sample payload on request', () => {
+    render(<WebhookTester url="https://hooks.example.com/in" form={form} />);
+    fireEvent.click(screen.getByRole('button', { name: /show payload/i }));
+    const payload = JSON.parse(screen.getByLabelText('Webhook payload').textContent || '');
+    expect(payload).toMatchObject({ form_id: 'contact', form_data: { email: 'jane.doe@example.org' } });
+  });
+
+  it('posts to the configured webhook and shows its answer', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('accepted', { status: 202 }));
+    vi.stubGlobal('fetch', fetchMock);
+    render(<WebhookTester url="https://hooks.example.com/in" form={form} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /test webhook/i }));
+
+    expect(await screen.findByText(/the webhook answered 202/i)).toBeInTheDocument();
+    expect(screen.getByText('accepted')).toBeInTheDocument();
+    expect(fetchMock.mock.calls[0][0]).toBe('https://hooks.example.com/in');
+    expect(screen.getByLabelText('Webhook payload')).toBeInTheDocument();
+  });
+
+  it('can send to the local echo endpoint without a webhook URL', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('error', { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+    render(<WebhookTester form={form} />);
+
+    expect(screen.getByRole('button', { name: /test webhook/i })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: /send to local echo/i }));
+
+    await waitFor(() => expect(screen.getByText(/the local echo endpoint answered 500/i)).toBeInTheDocument());
+    expect(fetchMock.mock.calls[0][0]).toBe(LOCAL_WEBHOOK_ECHO_URL);
+  });
+});
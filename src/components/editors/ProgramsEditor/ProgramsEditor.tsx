@@ -93,6 +93,8 @@ export const ProgramsEditor: React.FC = () => {
         // Domain-specific components
         FormFields: ProgramFormFields,
         CardContent: ProgramCardContent,
+        allowImport: true,
+        allowFileTransfer: true,
       }}
     />
   );
@@ -0,0 +1,46 @@
+/**
+ * AppointmentTypeCardContent Component
+ * Domain-specific content display for appointment type cards
+ *
+ * This component only handles rendering the card body - the header,
+ * actions, and layout are handled by the generic EntityList.
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui';
+import type { AppointmentTypeDraft } from '@/lib/schemas';
+import type { CardContentProps } from '@/lib/crud/types';
+
+export const AppointmentTypeCardContent: React.FC<CardContentProps<AppointmentTypeDraft>> = ({
+  entity: appointmentType,
+}) => {
+  const tierCount = appointmentType.reminder_cadence_override?.tiers?.length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      {appointmentType.description ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+          {appointmentType.description}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">
+          No description provided
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="info">{appointmentType.duration_minutes} min</Badge>
+        {appointmentType.routing_policy_id ? (
+          <Badge variant="secondary">Policy: {appointmentType.routing_policy_id}</Badge>
+        ) : (
+          <Badge variant="outline">No routing policy</Badge>
+        )}
+        {appointmentType.reminder_cadence_override && (
+          <Badge variant="secondary">
+            {tierCount} reminder {tierCount === 1 ? 'tier' : 'tiers'}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+/**
+ * AppointmentTypeFormFields Component
+ * Domain-specific form fields for creating/editing appointment types
+ *
+ * This component only handles rendering the fields - all validation,
+ * state management, and form submission is handled by the generic EntityForm.
+ */
+
+import React from 'react';
+import { Input, Select, Textarea } from '@/components/ui';
+import { ReminderTiersBuilder } from './ReminderTiersBuilder';
+import { useSchedulingConfig } from './schedulingStore';
+import type { AppointmentTypeDraft, AppointmentTypeInput } from '@/lib/schemas';
+import type { FormFieldsProps } from '@/lib/crud/types';
+
+type LocationMode = NonNullable<AppointmentTypeInput['location_mode']>;
+type RequiredField = NonNullable<AppointmentTypeInput['required_fields']>[number];
+
+const LOCATION_OPTIONS: { value: LocationMode | '__none__'; label: string }[] = [
+  { value: '__none__', label: 'Not set (runtime default)' },
+  { value: 'virtual_meet', label: 'Google Meet' },
+  { value: 'virtual_zoom', label: 'Zoom' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'in_person', label: 'In person' },
+];
+
+const GRANULARITY_OPTIONS = [
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '60 minutes' },
+];
+
+const REQUIRED_FIELD_OPTIONS: RequiredField[] = ['name', 'email', 'phone'];
+
+/** Parse a number input; empty input becomes undefined so defaults/Zod apply */
+function parseNumber(raw: string): number | undefined {
+  return raw === '' ? undefined : Number(raw);
+}
+
+export const AppointmentTypeFormFields: React.FC<FormFieldsProps<AppointmentTypeDraft>> = ({
+  value,
+  onChange,
+  errors,
+  touched,
+  onBlur,
+  isEditMode,
+}) => {
+  const scheduling = useSchedulingConfig();
+  const policyOptions = [
+    { value: '__none__', label: 'None' },
+    ...Object.keys(scheduling?.routing_policies ?? {}).map((id) => ({ value: id, label: id })),
+  ];
+
+  const requiredFields = value.required_fields ?? ['name', 'email'];
+  const cadence = value.reminder_cadence_override;
+
+  const toggleRequiredField = (field: RequiredField, checked: boolean) => {
+    onChange({
+      ...value,
+      required_fields: checked
+        ? REQUIRED_FIELD_OPTIONS.filter((f) => f === field || requiredFields.includes(f))
+        : requiredFields.filter((f) => f !== field),
+    });
+  };
+
+  return (
+    <>
+      {/* Appointment Type ID */}
+      <Input
+        label="Appointment Type ID"
+        id="appointment-type-id"
+        placeholder="e.g., intro_call"
+        value={value.id}
+        onChange={(e) => onChange({ ...value, id: e.target.value })}
+        onBlur={() => onBlur('id')}
+        error={touched.id ? errors.id : undefined}
+        helperText="Letters, numbers, hyphens, and underscores. Cannot be changed after creation."
+        disabled={isEditMode}
+        required
+        autoFocus={!isEditMode}
+      />
+
+      {/* Name */}
+      <Input
+        label="Name"
+        id="appointment-type-name"
+        placeholder="e.g., Intro Call"
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+        onBlur={() => onBlur('name')}
+        error={touched.name ? errors.name : undefined}
+        required
+        autoFocus={isEditMode}
+      />
+
+      {/* Description */}
+      <div className="w-full">
+        <label
+          htmlFor="appointment-type-description"
+          className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Description
+        </label>
+        <Textarea
+          id="appointment-type-description"
+          placeholder="Optional description shown when booking..."
+          value={value.description || ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value || undefined })}
+          onBlur={() => onBlur('description')}
+          rows={2}
+        />
+        {touched.description && errors.description && (
+          <p className="mt-1.5 text-sm text-red-600 dark:text-red-400" role="alert">
+            {errors.description}
+          </p>
+        )}
+      </div>
+
+      {/* Timing */}
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Duration (minutes)"
+          id="appointment-type-duration"
+          type="number"
+          min={1}
+          max={480}
+          value={value.duration_minutes ?? ''}
+          onChange={(e) =>
+            onChange({ ...value, duration_minutes: parseNumber(e.target.value) as number })
+          }
+          onBlur={() => onBlur('duration_minutes')}
+          error={touched.duration_minutes ? errors.duration_minutes : undefined}
+          required
+        />
+        <Select
+          label="Slot granularity"
+          value={String(value.slot_granularity_minutes ?? 30)}
+          onValueChange={(granularity) =>
+            onChange({
+              ...value,
+              slot_granularity_minutes: Number(granularity) as AppointmentTypeInput['slot_granularity_minutes'],
+            })
+          }
+          options={GRANULARITY_OPTIONS}
+        />
+        <Input
+          label="Buffer before (minutes)"
+          id="appointment-type-buffer-before"
+          type="number"
+          min={0}
+          value={value.buffer_before_minutes ?? ''}
+          placeholder="0"
+          onChange={(e) => onChange({ ...value, buffer_before_minutes: parseNumber(e.target.value) })}
+          onBlur={() => onBlur('buffer_before_minutes')}
+          error={touched.buffer_before_minutes ? errors.buffer_before_minutes : undefined}
+        />
+        <Input
+          label="Buffer after (minutes)"
+          id="appointment-type-buffer-after"
+          type="number"
+          min={0}
+          value={value.buffer_after_minutes ?? ''}
+          placeholder="0"
+          onChange={(e) => onChange({ ...value, buffer_after_minutes: parseNumber(e.target.value) })}
+          onBlur={() => onBlur('buffer_after_minutes')}
+          error={touched.buffer_after_minutes ? errors.buffer_after_minutes : undefined}
+        />
+        <Input
+          label="Minimum notice (minutes)"
+          id="appointment-type-lead-time"
+          type="number"
+          min={0}
+          value={value.lead_time_minutes ?? ''}
+          placeholder="0"
+          onChange={(e) => onChange({ ...value, lead_time_minutes: parseNumber(e.target.value) })}
+          onBlur={() => onBlur('lead_time_minutes')}
+          error={touched.lead_time_minutes ? errors.lead_time_minutes : undefined}
+        />
+        <Input
+          label="Max advance (days)"
+          id="appointment-type-max-advance"
+          type="number"
+          min={1}
+          max={365}
+          value={value.max_advance_days ?? ''}
+          placeholder="30"
+          onChange={(e) => onChange({ ...value, max_advance_days: parseNumber(e.target.value) })}
+          onBlur={() => onBlur('max_advance_days')}
+          error={touched.max_advance_days ? errors.max_advance_days : undefined}
+        />
+        <Input
+          label="Cancellation window (hours)"
+          id="appointment-type-cancellation"
+          type="number"
+          min={0}
+          value={value.cancellation_window_hours ?? ''}
+          placeholder="0"
+          onChange={(e) =>
+            onChange({ ...value, cancellation_window_hours: parseNumber(e.target.value) })
+          }
+          onBlur={() => onBlur('cancellation_window_hours')}
+          error={touched.cancellation_window_hours ? errors.cancellation_window_hours : undefined}
+          helperText="0 allows rescheduling up to the start time"
+        />
+        <Select
+          label="Location"
+          value={value.location_mode ?? '__none__'}
+          onValueChange={(mode) =>
+            onChange({
+              ...value,
+              location_mode: mode === '__none__' ? undefined : (mode as LocationMode),
+            })
+          }
+          options={LOCATION_OPTIONS}
+        />
+      </div>
+
+      {/* Routing Policy */}
+      <Select
+        label="Routing policy"
+        value={value.routing_policy_id ?? '__none__'}
+        onValueChange={(policyId) =>
+          onChange({ ...value, routing_policy_id: policyId === '__none__' ? undefined : policyId })
+        }
+        options={policyOptions}
+        helperText="Decides which staff calendar receives the booking"
+      />
+
+      {/* Required Fields */}
+      <div className="w-full">
+        <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Required booking fields
+        </span>
+        <div className="flex gap-4">
+          {REQUIRED_FIELD_OPTIONS.map((field) => (
+            <label key={field} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={requiredFields.includes(field)}
+                onChange={(e) => toggleRequiredField(field, e.target.checked)}
+                className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300 capitalize">{field}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Reminder Cadence Override */}
+      <div className="w-full space-y-3">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!cadence}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                reminder_cadence_override: e.target.checked ? { tiers: [] } : undefined,
+              })
+            }
+            className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+          />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Override default reminder cadence
+          </span>
+        </label>
+
+        {cadence && (
+          <>
+            <ReminderTiersBuilder
+              tiers={cadence.tiers ?? []}
+              onChange={(tiers) =>
+                onChange({ ...value, reminder_cadence_override: { ...cadence, tiers } })
+              }
+              errors={errors}
+              errorPrefix="reminder_cadence_override.tiers"
+            />
+            <Input
+              label="SMS opt-in prompt"
+              id="appointment-type-sms-opt-in"
+              placeholder="Platform default"
+              value={cadence.sms_opt_in_prompt ?? ''}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  reminder_cadence_override: {
+                    ...cadence,
+                    sms_opt_in_prompt: e.target.value || undefined,
+                  },
+                })
+              }
+              error={errors['reminder_cadence_override.sms_opt_in_prompt']}
+              helperText="Custom TCPA opt-in copy (max 300 characters)"
+            />
+          </>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,124 @@
+/**
+ * AppointmentTypesEditor Component
+ * CRUD for scheduling.appointment_types using the generic CRUD framework
+ *
+ * Appointment types live on baseConfig.scheduling (no dedicated slice), so the
+ * store adapter writes through updateScheduling — same shape as ActionChipsEditor.
+ */
+
+import React, { useMemo } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { EntityEditor } from '../generic/EntityEditor';
+import { AppointmentTypeFormFields } from './AppointmentTypeFormFields';
+import { AppointmentTypeCardContent } from './AppointmentTypeCardContent';
+import { updateScheduling, useSchedulingConfig } from './schedulingStore';
+import { isCompleteAppointmentType, validateAppointmentType } from '@/lib/validation/schedulingValidators';
+import { useConfigStore } from '@/store';
+import type { AppointmentTypeDraft, AppointmentTypeInput } from '@/lib/schemas';
+import type { EntityDependencies } from '@/lib/crud/types';
+
+const SCHEDULING_ACTIONS = new Set(['start_scheduling', 'resume_scheduling']);
+
+export const AppointmentTypesEditor: React.FC = () => {
+  const scheduling = useSchedulingConfig();
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const rawTypes = scheduling?.appointment_types;
+
+  // The record key is authoritative; normalize a drifted `id` field to it
+  const appointmentTypes = useMemo(
+    () =>
+      Object.entries(rawTypes ?? {}).reduce(
+        (acc, [typeId, appointmentType]) => {
+          acc[typeId] = { ...appointmentType, id: typeId };
+          return acc;
+        },
+        {} as Record<string, AppointmentTypeInput>
+      ),
+    [rawTypes]
+  );
+
+  return (
+    <EntityEditor<AppointmentTypeDraft>
+      initialValue={{
+        id: '',
+        name: '',
+        duration_minutes: 30,
+        required_fields: ['name', 'email'],
+      }}
+      config={{
+        metadata: {
+          entityType: 'appointment-type',
+          entityName: 'Appointment Type',
+          entityNamePlural: 'Appointment Types',
+          description: 'Bookable meeting types offered by start_scheduling CTAs',
+        },
+
+        emptyState: {
+          icon: CalendarClock,
+          title: 'No Appointment Types Defined',
+          description:
+            'Appointment types define what visitors can book: duration, buffers, booking window, routing, and reminders. Scheduling CTAs require at least one.',
+          actionText: 'Create First Appointment Type',
+        },
+
+        useStore: () => ({
+          entities: appointmentTypes,
+
+          // EntityForm only submits drafts validateAppointmentType passed,
+          // which reports blank reminder numbers
+          createEntity: (appointmentType: AppointmentTypeDraft) => {
+            if (!isCompleteAppointmentType(appointmentType)) return;
+            updateScheduling((draft) => {
+              draft.appointment_types[appointmentType.id] = appointmentType;
+            });
+          },
+
+          updateEntity: (typeId: string, appointmentType: AppointmentTypeDraft) => {
+            if (!isCompleteAppointmentType(appointmentType)) return;
+            updateScheduling((draft) => {
+              draft.appointment_types[typeId] = { ...appointmentType, id: typeId };
+            });
+          },
+
+          deleteEntity: (typeId: string) => {
+            updateScheduling((draft) => {
+              delete draft.appointment_types[typeId];
+            });
+          },
+
+          // The last appointment type cannot go while scheduling CTAs need one
+          // (tenant schema invariant 6)
+          getDependencies: (typeId: string): EntityDependencies => {
+            const remaining = Object.keys(appointmentTypes).filter((id) => id !== typeId);
+            const schedulingCtas = Object.entries(ctas).filter(([, cta]) =>
+              SCHEDULING_ACTIONS.has(cta.action)
+            );
+
+            if (remaining.length > 0 || schedulingCtas.length === 0) {
+              return { canDelete: true, dependentEntities: [] };
+            }
+
+            return {
+              canDelete: false,
+              dependentEntities: [
+                {
+                  type: 'Scheduling CTAs',
+                  ids: schedulingCtas.map(([id]) => id),
+                  names: schedulingCtas.map(([id, cta]) => cta.label || id),
+                },
+              ],
+            };
+          },
+        }),
+
+        validation: validateAppointmentType,
+
+        getId: (appointmentType) => appointmentType.id,
+        getName: (appointmentType) => appointmentType.name || appointmentType.id,
+
+        FormFields: AppointmentTypeFormFields,
+        CardContent: AppointmentTypeCardContent,
+      }}
+    />
+  );
+};
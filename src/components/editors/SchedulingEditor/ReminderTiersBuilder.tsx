@@ -0,0 +1,206 @@
+/**
+ * ReminderTiersBuilder Component
+ * Controlled editor for reminder cadence tiers (scheduling spec §7)
+ *
+ * A tier applies to bookings whose lead time falls between its min and max
+ * hours; each tier lists the reminders sent before the appointment.
+ */
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import type { ReminderEntryDraft, ReminderTierDraft } from '@/lib/schemas';
+import type { ValidationErrors } from '@/types/validation';
+
+const CHANNEL_OPTIONS = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'both', label: 'Email + SMS' },
+];
+
+const NEW_REMINDER: ReminderEntryDraft = { offset_minutes_before: 60, channel: 'email' };
+
+export interface ReminderTiersBuilderProps {
+  tiers: ReminderTierDraft[];
+  onChange: (tiers: ReminderTierDraft[]) => void;
+  /** Validation errors keyed by dotted path, e.g. "<prefix>.0.reminders.1.channel" */
+  errors?: ValidationErrors;
+  /** Path prefix of the tiers array inside `errors` */
+  errorPrefix?: string;
+}
+
+/** Parse a number input; empty input becomes undefined so Zod reports "Required" */
+function parseNumber(raw: string): number | undefined {
+  return raw === '' ? undefined : Number(raw);
+}
+
+export const ReminderTiersBuilder: React.FC<ReminderTiersBuilderProps> = ({
+  tiers,
+  onChange,
+  errors = {},
+  errorPrefix = 'tiers',
+}) => {
+  const updateTier = (index: number, tier: ReminderTierDraft) => {
+    onChange(tiers.map((t, i) => (i === index ? tier : t)));
+  };
+
+  const addTier = () => {
+    const previousMax = tiers[tiers.length - 1]?.lead_time_max_hours;
+    onChange([
+      ...tiers,
+      {
+        lead_time_min_hours: previousMax ?? 0,
+        lead_time_max_hours: null,
+        reminders: [{ ...NEW_REMINDER }],
+      },
+    ]);
+  };
+
+  const updateReminder = (tierIndex: number, reminderIndex: number, reminder: ReminderEntryDraft) => {
+    const tier = tiers[tierIndex];
+    updateTier(tierIndex, {
+      ...tier,
+      reminders: tier.reminders.map((r, i) => (i === reminderIndex ? reminder : r)),
+    });
+  };
+
+  const errorAt = (path: string) => errors[`${errorPrefix}.${path}`];
+
+  return (
+    <div className="space-y-4">
+      {tiers.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No tiers defined — platform default reminders apply.
+        </p>
+      )}
+
+      {tiers.map((tier, tierIndex) => (
+        <div
+          key={tierIndex}
+          className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Tier {tierIndex + 1}
+            </h4>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(tiers.filter((_, i) => i !== tierIndex))}
+              aria-label={`Remove tier ${tierIndex + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Min lead time (hours)"
+              id={`tier-${tierIndex}-min`}
+              type="number"
+              min={0}
+              value={tier.lead_time_min_hours ?? ''}
+              onChange={(e) =>
+                updateTier(tierIndex, { ...tier, lead_time_min_hours: parseNumber(e.target.value) })
+              }
+              error={errorAt(`${tierIndex}.lead_time_min_hours`)}
+            />
+            <Input
+              label="Max lead time (hours)"
+              id={`tier-${tierIndex}-max`}
+              type="number"
+              min={0}
+              value={tier.lead_time_max_hours ?? ''}
+              onChange={(e) =>
+                updateTier(tierIndex, {
+                  ...tier,
+                  lead_time_max_hours: e.target.value === '' ? null : Number(e.target.value),
+                })
+              }
+              error={errorAt(`${tierIndex}.lead_time_max_hours`)}
+              helperText="Leave blank for no upper bound"
+            />
+          </div>
+
+          <div className="space-y-2">
+            {tier.reminders.map((reminder, reminderIndex) => (
+              <div key={reminderIndex} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-start">
+                <Input
+                  label={reminderIndex === 0 ? 'Minutes before' : undefined}
+                  aria-label="Minutes before"
+                  id={`tier-${tierIndex}-reminder-${reminderIndex}-offset`}
+                  type="number"
+                  min={1}
+                  value={reminder.offset_minutes_before ?? ''}
+                  onChange={(e) =>
+                    updateReminder(tierIndex, reminderIndex, {
+                      ...reminder,
+                      offset_minutes_before: parseNumber(e.target.value),
+                    })
+                  }
+                  error={errorAt(`${tierIndex}.reminders.${reminderIndex}.offset_minutes_before`)}
+                />
+                <Select
+                  label={reminderIndex === 0 ? 'Channel' : undefined}
+                  value={reminder.channel}
+                  onValueChange={(channel) =>
+                    updateReminder(tierIndex, reminderIndex, {
+                      ...reminder,
+                      channel: channel as ReminderEntryDraft['channel'],
+                    })
+                  }
+                  options={CHANNEL_OPTIONS}
+                />
+                <Input
+                  label={reminderIndex === 0 ? 'Template ID' : undefined}
+                  aria-label="Template ID"
+                  id={`tier-${tierIndex}-reminder-${reminderIndex}-template`}
+                  placeholder="Platform default"
+                  value={reminder.template_id ?? ''}
+                  onChange={(e) =>
+                    updateReminder(tierIndex, reminderIndex, {
+                      ...reminder,
+                      template_id: e.target.value || undefined,
+                    })
+                  }
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className={reminderIndex === 0 ? 'mt-7' : undefined}
+                  onClick={() =>
+                    updateTier(tierIndex, {
+                      ...tier,
+                      reminders: tier.reminders.filter((_, i) => i !== reminderIndex),
+                    })
+                  }
+                  aria-label={`Remove reminder ${reminderIndex + 1}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                updateTier(tierIndex, { ...tier, reminders: [...tier.reminders, { ...NEW_REMINDER }] })
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add reminder
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addTier}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add tier
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+/**
+ * RoutingPoliciesEditor Component
+ * CRUD for scheduling.routing_policies using the generic CRUD framework
+ */
+
+import React, { useMemo } from 'react';
+import { Route } from 'lucide-react';
+import { EntityEditor } from '../generic/EntityEditor';
+import { RoutingPolicyFormFields } from './RoutingPolicyFormFields';
+import { RoutingPolicyCardContent } from './RoutingPolicyCardContent';
+import { updateScheduling, useSchedulingConfig } from './schedulingStore';
+import { validateRoutingPolicy } from '@/lib/validation/schedulingValidators';
+import type { RoutingPolicyInput } from '@/lib/schemas';
+import type { EntityDependencies } from '@/lib/crud/types';
+
+export const RoutingPoliciesEditor: React.FC = () => {
+  const scheduling = useSchedulingConfig();
+  const rawPolicies = scheduling?.routing_policies;
+  const appointmentTypes = scheduling?.appointment_types;
+
+  // The record key is authoritative; normalize a drifted `id` field to it
+  const policies = useMemo(
+    () =>
+      Object.entries(rawPolicies ?? {}).reduce(
+        (acc, [policyId, policy]) => {
+          acc[policyId] = { ...policy, id: policyId };
+          return acc;
+        },
+        {} as Record<string, RoutingPolicyInput>
+      ),
+    [rawPolicies]
+  );
+
+  return (
+    <EntityEditor<RoutingPolicyInput>
+      initialValue={{
+        id: '',
+        tag_conditions: [],
+        tie_breaker: 'round_robin',
+      }}
+      config={{
+        metadata: {
+          entityType: 'routing-policy',
+          entityName: 'Routing Policy',
+          entityNamePlural: 'Routing Policies',
+          description: 'Match bookings to staff by scheduling tags',
+        },
+
+        emptyState: {
+          icon: Route,
+          title: 'No Routing Policies Defined',
+          description:
+            'Routing policies decide which staff calendar receives a booking, based on tags from the scheduling vocabulary.',
+          actionText: 'Create First Routing Policy',
+        },
+
+        useStore: () => ({
+          entities: policies,
+
+          createEntity: (policy: RoutingPolicyInput) => {
+            updateScheduling((draft) => {
+              draft.routing_policies = { ...draft.routing_policies, [policy.id]: policy };
+            });
+          },
+
+          // Preserve runtime-managed round-robin state the form does not edit
+          updateEntity: (policyId: string, policy: RoutingPolicyInput) => {
+            updateScheduling((draft) => {
+              const existing = draft.routing_policies?.[policyId];
+              draft.routing_policies = {
+                ...draft.routing_policies,
+                [policyId]: { ...existing, ...policy, id: policyId },
+              };
+            });
+          },
+
+          deleteEntity: (policyId: string) => {
+            updateScheduling((draft) => {
+              delete draft.routing_policies?.[policyId];
+            });
+          },
+
+          getDependencies: (policyId: string): EntityDependencies => {
+            const referencing = Object.entries(appointmentTypes ?? {}).filter(
+              ([, appointmentType]) => appointmentType.routing_policy_id === policyId
+            );
+
+            return {
+              canDelete: referencing.length === 0,
+              dependentEntities:
+                referencing.length > 0
+                  ? [
+                      {
+                        type: 'Appointment Types',
+                        ids: referencing.map(([id]) => id),
+                        names: referencing.map(([id, appointmentType]) => appointmentType.name || id),
+                      },
+                    ]
+                  : [],
+            };
+          },
+        }),
+
+        validation: validateRoutingPolicy,
+
+        getId: (policy) => policy.id,
+        getName: (policy) => policy.id,
+
+        FormFields: RoutingPolicyFormFields,
+        CardContent: RoutingPolicyCardContent,
+      }}
+    />
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * RoutingPolicyCardContent Component
+ * Domain-specific content display for routing policy cards
+ *
+ * This component only handles rendering the card body - the header,
+ * actions, and layout are handled by the generic EntityList.
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui';
+import type { RoutingPolicyInput } from '@/lib/schemas';
+import type { CardContentProps } from '@/lib/crud/types';
+
+export const RoutingPolicyCardContent: React.FC<CardContentProps<RoutingPolicyInput>> = ({
+  entity: policy,
+}) => {
+  const conditions = policy.tag_conditions ?? [];
+
+  return (
+    <div className="space-y-3">
+      {conditions.length > 0 ? (
+        <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+          {conditions.map((condition, index) => (
+            <li key={index}>
+              <span className="font-medium">{condition.tag}</span>{' '}
+              {condition.operator === 'in_any' ? 'is any of' : 'equals'}{' '}
+              {condition.values.join(', ')}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">
+          No tag conditions — all staff eligible
+        </p>
+      )}
+
+      <Badge variant="secondary">
+        {policy.tie_breaker === 'first_available' ? 'First available' : 'Round robin'}
+      </Badge>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+/**
+ * RoutingPolicyFormFields Component
+ * Domain-specific form fields for creating/editing routing policies
+ *
+ * This component only handles rendering the fields - all validation,
+ * state management, and form submission is handled by the generic EntityForm.
+ */
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import { StringListInput } from './StringListInput';
+import { useSchedulingConfig } from './schedulingStore';
+import type { RoutingPolicyInput } from '@/lib/schemas';
+import type { FormFieldsProps } from '@/lib/crud/types';
+
+type TagConditionInput = NonNullable<RoutingPolicyInput['tag_conditions']>[number];
+
+const TIE_BREAKER_OPTIONS = [
+  { value: 'round_robin', label: 'Round robin' },
+  { value: 'first_available', label: 'First available' },
+];
+
+const OPERATOR_OPTIONS = [
+  { value: 'equals', label: 'equals' },
+  { value: 'in_any', label: 'is any of' },
+];
+
+export const RoutingPolicyFormFields: React.FC<FormFieldsProps<RoutingPolicyInput>> = ({
+  value,
+  onChange,
+  errors,
+  touched,
+  onBlur,
+  isEditMode,
+}) => {
+  const scheduling = useSchedulingConfig();
+  const vocabulary = scheduling?.scheduling_tag_vocabulary ?? [];
+  const conditions = value.tag_conditions ?? [];
+
+  const tagOptions = (current: string) => {
+    const tags = current && !vocabulary.includes(current) ? [current, ...vocabulary] : vocabulary;
+    return tags.map((tag) => ({
+      value: tag,
+      label: vocabulary.includes(tag) ? tag : `${tag} (not in vocabulary)`,
+    }));
+  };
+
+  const updateCondition = (index: number, condition: TagConditionInput) => {
+    onChange({
+      ...value,
+      tag_conditions: conditions.map((c, i) => (i === index ? condition : c)),
+    });
+  };
+
+  return (
+    <>
+      {/* Routing Policy ID */}
+      <Input
+        label="Routing Policy ID"
+        id="routing-policy-id"
+        placeholder="e.g., spanish_speakers"
+        value={value.id}
+        onChange={(e) => onChange({ ...value, id: e.target.value })}
+        onBlur={() => onBlur('id')}
+        error={touched.id ? errors.id : undefined}
+        helperText="Letters, numbers, hyphens, and underscores. Cannot be changed after creation."
+        disabled={isEditMode}
+        required
+        autoFocus={!isEditMode}
+      />
+
+      {/* Tie Breaker */}
+      <Select
+        label="Tie breaker"
+        value={value.tie_breaker ?? 'round_robin'}
+        onValueChange={(tieBreaker) =>
+          onChange({ ...value, tie_breaker: tieBreaker as RoutingPolicyInput['tie_breaker'] })
+        }
+        options={TIE_BREAKER_OPTIONS}
+        helperText="How to choose between multiple eligible staff members"
+      />
+
+      {/* Tag Conditions */}
+      <div className="w-full space-y-3">
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Tag conditions
+        </span>
+        {vocabulary.length === 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            The tag vocabulary is empty. Add tags on the General tab before adding conditions.
+          </p>
+        )}
+        {conditions.length === 0 && vocabulary.length > 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+            No conditions — every staff member is eligible.
+          </p>
+        )}
+
+        {conditions.map((condition, index) => (
+          <div
+            key={index}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3"
+          >
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <Select
+                label="Tag"
+                value={condition.tag || undefined}
+                onValueChange={(tag) => updateCondition(index, { ...condition, tag })}
+                options={tagOptions(condition.tag)}
+                placeholder="Select a tag..."
+                error={errors[`tag_conditions.${index}.tag`]}
+              />
+              <Select
+                label="Operator"
+                value={condition.operator ?? 'equals'}
+                onValueChange={(operator) =>
+                  updateCondition(index, {
+                    ...condition,
+                    operator: operator as TagConditionInput['operator'],
+                  })
+                }
+                options={OPERATOR_OPTIONS}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  onChange({ ...value, tag_conditions: conditions.filter((_, i) => i !== index) })
+                }
+                aria-label={`Remove condition ${index + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <StringListInput
+              id={`routing-policy-condition-${index}-values`}
+              label="Values"
+              values={condition.values}
+              onChange={(values) => updateCondition(index, { ...condition, values })}
+              placeholder="Add value..."
+              error={errors[`tag_conditions.${index}.values`]}
+            />
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={vocabulary.length === 0}
+          onClick={() =>
+            onChange({
+              ...value,
+              tag_conditions: [...conditions, { tag: '', operator: 'equals', values: [] }],
+            })
+          }
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add condition
+        </Button>
+      </div>
+    </>
+  );
+};
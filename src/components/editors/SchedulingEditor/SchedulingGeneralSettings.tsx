@@ -0,0 +1,157 @@
+/**
+ * SchedulingGeneralSettings Component
+ * Block-level scheduling settings: locales, tag vocabulary, pre-call form,
+ * fallback URL, and workspace domains
+ */
+
+import React from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Input, Select } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { StringListInput } from './StringListInput';
+import { updateScheduling, useSchedulingConfig } from './schedulingStore';
+import { issueAt } from './useSchedulingIssues';
+import type { SchedulingIssue } from '@/lib/validation/schedulingValidators';
+
+export interface SchedulingGeneralSettingsProps {
+  issues: SchedulingIssue[];
+}
+
+/**
+ * Scheduling General Settings
+ *
+ * Writes straight into baseConfig.scheduling like the settings panels do;
+ * the block is created on the first edit. Read-only for roles that can't
+ * edit content.
+ *
+ * @example
+ * ```tsx
+ * <SchedulingGeneralSettings issues={issues} />
+ * ```
+ */
+export const SchedulingGeneralSettings: React.FC<SchedulingGeneralSettingsProps> = ({ issues }) => {
+  const scheduling = useSchedulingConfig();
+  const forms = useConfigStore((state) => state.forms.forms);
+  const { can } = usePermissions();
+  const readOnly = !can('edit', 'content');
+
+  const availableLocales = scheduling?.available_locales ?? ['en'];
+  const defaultLocale = scheduling?.default_locale ?? 'en';
+
+  const localeOptions = (availableLocales.includes(defaultLocale)
+    ? availableLocales
+    : [defaultLocale, ...availableLocales]
+  ).map((locale) => ({ value: locale, label: locale }));
+
+  const formOptions = [
+    { value: '__none__', label: 'None' },
+    ...Object.entries(forms).map(([formId, form]) => ({
+      value: formId,
+      label: form.title || formId,
+    })),
+  ];
+  // Keep a dangling reference selectable so the invariant error is visible
+  const preCallFormId = scheduling?.pre_call_form_id;
+  if (preCallFormId && !forms[preCallFormId]) {
+    formOptions.push({ value: preCallFormId, label: `${preCallFormId} (missing)` });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>General</CardTitle>
+        <CardDescription>
+          Locales, routing tags, and fallbacks shared by every appointment type
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {/* A disabled fieldset greys out every control, as on the Settings page */}
+        <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+          <div className="grid grid-cols-2 gap-4">
+            <StringListInput
+              id="scheduling-available-locales"
+              label="Available locales"
+              values={availableLocales}
+              onChange={(locales) =>
+                updateScheduling((draft) => {
+                  draft.available_locales = locales;
+                })
+              }
+              placeholder="e.g., es or en-US"
+              helperText="BCP-47 language tags"
+              error={issueAt(issues, 'scheduling.available_locales')}
+            />
+            <Select
+              label="Default locale"
+              value={defaultLocale}
+              onValueChange={(locale) =>
+                updateScheduling((draft) => {
+                  draft.default_locale = locale;
+                })
+              }
+              options={localeOptions}
+              error={issueAt(issues, 'scheduling.default_locale')}
+            />
+          </div>
+
+          <StringListInput
+            id="scheduling-tag-vocabulary"
+            label="Scheduling tag vocabulary"
+            values={scheduling?.scheduling_tag_vocabulary ?? []}
+            onChange={(tags) =>
+              updateScheduling((draft) => {
+                draft.scheduling_tag_vocabulary = tags;
+              })
+            }
+            normalize={(tag) => tag.toLowerCase()}
+            placeholder="e.g., spanish_speaking"
+            helperText="Tags routing policies may match on (max 50 characters each)"
+            error={issueAt(issues, 'scheduling.scheduling_tag_vocabulary')}
+          />
+
+          <Select
+            label="Pre-call form"
+            value={preCallFormId ?? '__none__'}
+            onValueChange={(formId) =>
+              updateScheduling((draft) => {
+                draft.pre_call_form_id = formId === '__none__' ? undefined : formId;
+              })
+            }
+            options={formOptions}
+            helperText="Collected before booking when a visitor starts scheduling cold"
+            error={issueAt(issues, 'scheduling.pre_call_form_id')}
+          />
+
+          <Input
+            label="Fallback scheduler URL"
+            id="scheduling-fallback-url"
+            placeholder="https://calendly.com/your-org"
+            value={scheduling?.fallback_scheduler_url ?? ''}
+            onChange={(e) =>
+              updateScheduling((draft) => {
+                draft.fallback_scheduler_url = e.target.value || undefined;
+              })
+            }
+            helperText="Offered to visitors when no slot can be booked in chat"
+            error={issueAt(issues, 'scheduling.fallback_scheduler_url')}
+          />
+
+          <StringListInput
+            id="scheduling-workspace-domains"
+            label="Workspace domains"
+            values={scheduling?.workspace_domains ?? []}
+            onChange={(domains) =>
+              updateScheduling((draft) => {
+                draft.workspace_domains = domains.length > 0 ? domains : undefined;
+              })
+            }
+            normalize={(domain) => domain.toLowerCase()}
+            placeholder="e.g., example.org"
+            helperText="Google Workspace domains whose staff calendars are bookable"
+            error={issueAt(issues, 'scheduling.workspace_domains')}
+          />
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+};
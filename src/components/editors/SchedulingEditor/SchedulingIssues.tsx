@@ -0,0 +1,51 @@
+/**
+ * SchedulingIssues Component
+ * Inline list of scheduling errors the tenant schema would reject on save
+ */
+
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui';
+import type { SchedulingIssue } from '@/lib/validation/schedulingValidators';
+
+export interface SchedulingIssuesProps {
+  issues: SchedulingIssue[];
+}
+
+/** Where in the builder an issue is fixed, derived from its config path */
+function describeLocation(path: string): string {
+  const [section, group, id] = path.split('.');
+  if (section === 'cta_definitions') return `CTA "${group}"`;
+  if (group === 'appointment_types' && id) return `Appointment type "${id}"`;
+  if (group === 'routing_policies' && id) return `Routing policy "${id}"`;
+  return 'General';
+}
+
+export const SchedulingIssues: React.FC<SchedulingIssuesProps> = ({ issues }) => {
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        Scheduling configuration passes all schema checks
+      </div>
+    );
+  }
+
+  return (
+    <Alert variant="error">
+      <AlertTitle>
+        {issues.length} scheduling {issues.length === 1 ? 'issue' : 'issues'}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {issues.map((issue) => (
+            <li key={`${issue.path}:${issue.message}`}>
+              <span className="font-medium">{describeLocation(issue.path)}:</span> {issue.message}
+              <code className="ml-2 text-xs text-red-500 dark:text-red-400">{issue.path}</code>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
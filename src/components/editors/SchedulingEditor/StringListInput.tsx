@@ -0,0 +1,101 @@
+/**
+ * StringListInput Component
+ * Add/remove editor for short string lists (locales, tags, domains)
+ */
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge, Button, Input } from '@/components/ui';
+
+export interface StringListInputProps {
+  id: string;
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+  helperText?: string;
+  error?: string;
+  /** Normalize a new entry before it is added (e.g. lowercase tags) */
+  normalize?: (value: string) => string;
+}
+
+export const StringListInput: React.FC<StringListInputProps> = ({
+  id,
+  label,
+  values,
+  onChange,
+  placeholder,
+  helperText,
+  error,
+  normalize = (value) => value,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const entry = normalize(draft.trim());
+    if (entry && !values.includes(entry)) {
+      onChange([...values, entry]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full">
+      <label
+        htmlFor={id}
+        className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        {label}
+      </label>
+      <div className="flex gap-2 mb-2">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={placeholder}
+        />
+        <Button
+          type="button"
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          size="sm"
+          aria-label={`Add ${label.toLowerCase()}`}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {values.map((value) => (
+            <Badge key={value} variant="secondary" className="gap-1">
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((v) => v !== value))}
+                className="ml-1 hover:text-red-600"
+                aria-label={`Remove ${value}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      {error ? (
+        <p className="mt-1.5 text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      ) : (
+        helperText && (
+          <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">{helperText}</p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * ReminderTiersBuilder — controlled tier/reminder editing.
+ *
+ * New tiers start where the previous tier ends so the operator only has to
+ * set the upper bound; errors render from dotted EntityForm paths.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReminderTiersBuilder } from '../ReminderTiersBuilder';
+import type { ReminderTierDraft } from '@/lib/schemas';
+
+const dayTier: ReminderTierDraft = {
+  lead_time_min_hours: 0,
+  lead_time_max_hours: 24,
+  reminders: [{ offset_minutes_before: 60, channel: 'email' }],
+};
+
+describe('ReminderTiersBuilder', () => {
+  it('shows the platform-default hint when there are no tiers', () => {
+    render(<ReminderTiersBuilder tiers={[]} onChange={vi.fn()} />);
+    expect(screen.getByText(/platform default reminders apply/)).toBeInTheDocument();
+  });
+
+  it('adds a tier that starts at the previous tier upper bound', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ReminderTiersBuilder tiers={[dayTier]} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: /add tier/i }));
+
+    expect(onChange).toHaveBeenCalledWith([
+      dayTier,
+      {
+        lead_time_min_hours: 24,
+        lead_time_max_hours: null,
+        reminders: [{ offset_minutes_before: 60, channel: 'email' }],
+      },
+    ]);
+  });
+
+  it('removes a reminder from its tier', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ReminderTiersBuilder tiers={[dayTier]} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Remove reminder 1' }));
+
+    expect(onChange).toHaveBeenCalledWith([{ ...dayTier, reminders: [] }]);
+  });
+
+  it('leaves a cleared number undefined for validation to report', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ReminderTiersBuilder tiers={[dayTier]} onChange={onChange} />);
+
+    await user.clear(screen.getByLabelText('Min lead time (hours)'));
+
+    expect(onChange).toHaveBeenLastCalledWith([{ ...dayTier, lead_time_min_hours: undefined }]);
+  });
+
+  it('renders errors addressed by prefix and index', () => {
+    render(
+      <ReminderTiersBuilder
+        tiers={[dayTier]}
+        onChange={vi.fn()}
+        errorPrefix="reminder_cadence_override.tiers"
+        errors={{
+          'reminder_cadence_override.tiers.0.lead_time_max_hours':
+            'Max lead time must be greater than min lead time',
+        }}
+      />
+    );
+    expect(screen.getByText('Max lead time must be greater than min lead time')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Scheduling is content: a viewer sees the block but can't create or edit it.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { useConfigStore } from '@/store';
+import { useOptionalAuth } from '@/context/AuthContext';
+import { SchedulingPage } from '@/pages/SchedulingPage';
+import { SchedulingGeneralSettings } from '../SchedulingGeneralSettings';
+import type { TenantConfig } from '@/types/config';
+
+vi.mock('@/context/AuthContext', () => ({ useOptionalAuth: vi.fn() }));
+
+function signInAs(role: 'viewer' | 'editor') {
+  vi.mocked(useOptionalAuth).mockReturnValue({
+    user: { id: 'u1', email: 'u1@example.org', role },
+  } as unknown as ReturnType<typeof useOptionalAuth>);
+}
+
+function seedTenant(scheduling?: Record<string, unknown>) {
+  useConfigStore.setState((state) => {
+    state.config.tenantId = 'TEST001';
+    state.config.baseConfig = { tenant_id: 'TEST001', scheduling } as unknown as TenantConfig;
+  });
+}
+
+describe('Scheduling permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not let a viewer create the scheduling block', () => {
+    signInAs('viewer');
+    seedTenant();
+    render(<SchedulingPage />);
+
+    expect(screen.getByText(/can view scheduling but not change it/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /create scheduling configuration/i })).toBeDisabled();
+  });
+
+  it('disables the general settings for a viewer', () => {
+    signInAs('viewer');
+    seedTenant({ available_locales: ['en'], default_locale: 'en' });
+    render(<SchedulingGeneralSettings issues={[]} />);
+
+    expect(screen.getByLabelText('Fallback scheduler URL')).toBeDisabled();
+    expect(screen.getByLabelText('Workspace domains')).toBeDisabled();
+  });
+
+  it('leaves both editable for an editor', () => {
+    signInAs('editor');
+    seedTenant();
+    render(<SchedulingPage />);
+
+    expect(screen.getByRole('button', { name: /create scheduling configuration/i })).toBeEnabled();
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * SchedulingEditor exports
+ */
+
+export { AppointmentTypesEditor } from './AppointmentTypesEditor';
+export { RoutingPoliciesEditor } from './RoutingPoliciesEditor';
+export { ReminderTiersBuilder } from './ReminderTiersBuilder';
+export { SchedulingGeneralSettings } from './SchedulingGeneralSettings';
+export { SchedulingIssues } from './SchedulingIssues';
+export { useSchedulingIssues } from './useSchedulingIssues';
+export { updateScheduling, createDefaultSchedulingConfig } from './schedulingStore';
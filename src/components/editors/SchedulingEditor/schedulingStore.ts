@@ -0,0 +1,45 @@
+/**
+ * Scheduling store helpers
+ *
+ * The scheduling block lives on baseConfig (like action_chips and the settings
+ * sections), so every editor in this folder writes through updateScheduling
+ * instead of a dedicated slice.
+ */
+
+import { useConfigStore } from '@/store';
+import type { SchedulingConfigInput } from '@/lib/schemas';
+
+/**
+ * Minimal block that satisfies schedulingConfigSchema. Created on first edit
+ * so enabling scheduling never requires hand-authoring JSON.
+ */
+export function createDefaultSchedulingConfig(): SchedulingConfigInput {
+  return {
+    default_locale: 'en',
+    available_locales: ['en'],
+    scheduling_tag_vocabulary: [],
+    appointment_types: {},
+  };
+}
+
+/**
+ * Mutate the scheduling block in place (Immer draft), creating it if absent,
+ * and mark the config dirty.
+ */
+export function updateScheduling(mutator: (scheduling: SchedulingConfigInput) => void): void {
+  useConfigStore.setState((state) => {
+    if (!state.config.baseConfig) return;
+    if (!state.config.baseConfig.scheduling) {
+      state.config.baseConfig.scheduling = createDefaultSchedulingConfig();
+    }
+    mutator(state.config.baseConfig.scheduling);
+    state.config.isDirty = true;
+  });
+}
+
+/**
+ * Select the stored scheduling block (undefined when the tenant has none)
+ */
+export function useSchedulingConfig(): SchedulingConfigInput | undefined {
+  return useConfigStore((state) => state.config.baseConfig?.scheduling);
+}
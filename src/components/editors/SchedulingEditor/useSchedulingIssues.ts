@@ -0,0 +1,29 @@
+/**
+ * useSchedulingIssues Hook
+ * Live scheduling schema + invariant issues for the loaded tenant
+ */
+
+import { useMemo } from 'react';
+import { useConfigStore } from '@/store';
+import { getSchedulingIssues, type SchedulingIssue } from '@/lib/validation/schedulingValidators';
+
+export function useSchedulingIssues(): SchedulingIssue[] {
+  const baseConfig = useConfigStore((state) => state.config.baseConfig);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const forms = useConfigStore((state) => state.forms.forms);
+
+  // Invariants 4 and 6 read forms and CTAs — use the live slice copies, not
+  // the baseConfig snapshot from load time
+  return useMemo(
+    () =>
+      baseConfig
+        ? getSchedulingIssues({ ...baseConfig, cta_definitions: ctas, conversational_forms: forms })
+        : [],
+    [baseConfig, ctas, forms]
+  );
+}
+
+/** First issue message at an exact path, for inline field errors */
+export function issueAt(issues: SchedulingIssue[], path: string): string | undefined {
+  return issues.find((issue) => issue.path === path)?.message;
+}
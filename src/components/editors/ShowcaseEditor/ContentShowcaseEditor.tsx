@@ -119,6 +119,7 @@ export const ContentShowcaseEditor: React.FC = () => {
         // Domain-specific components
         FormFields: ShowcaseItemFormFields,
         CardContent: ShowcaseItemCardContent,
+        allowFileTransfer: true,
       }}
     />
   );
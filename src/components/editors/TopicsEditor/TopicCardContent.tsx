@@ -0,0 +1,58 @@
+/**
+ * TopicCardContent Component
+ * Domain-specific content display for topic cards
+ *
+ * This component only handles rendering the card body - the header,
+ * actions, and layout are handled by the generic EntityList.
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { isEligibleForTopic } from '@/store/slices/topics';
+import type { TopicDefinition } from '@/types/config';
+import type { CardContentProps } from '@/lib/crud/types';
+
+export const TopicCardContent: React.FC<CardContentProps<TopicDefinition>> = ({
+  entity: topic,
+}) => {
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+
+  const eligibleCTAs = Object.entries(ctas).filter(([, cta]) => isEligibleForTopic(cta, topic.id));
+  const exampleCount = topic.examples?.length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      {topic.description ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+          {topic.description}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">
+          No description provided
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {eligibleCTAs.length > 0 ? (
+          <Badge variant="success">
+            {eligibleCTAs.length} eligible {eligibleCTAs.length === 1 ? 'CTA' : 'CTAs'}
+          </Badge>
+        ) : (
+          <Badge variant="warning">No eligible CTAs</Badge>
+        )}
+        {exampleCount > 0 && (
+          <Badge variant="secondary">
+            {exampleCount} {exampleCount === 1 ? 'example' : 'examples'}
+          </Badge>
+        )}
+      </div>
+
+      {eligibleCTAs.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          {eligibleCTAs.map(([ctaId, cta]) => cta.label || ctaId).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
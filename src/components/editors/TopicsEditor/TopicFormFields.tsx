@@ -0,0 +1,97 @@
+/**
+ * TopicFormFields Component
+ * Domain-specific form fields for creating/editing topic definitions
+ *
+ * This component only handles rendering the fields - all validation,
+ * state management, and form submission is handled by the generic EntityForm.
+ */
+
+import React from 'react';
+import { Input, Textarea } from '@/components/ui';
+import { StringListInput } from '../SchedulingEditor/StringListInput';
+import type { TopicDefinition } from '@/types/config';
+import type { FormFieldsProps } from '@/lib/crud/types';
+
+export const TopicFormFields: React.FC<FormFieldsProps<TopicDefinition>> = ({
+  value,
+  onChange,
+  errors,
+  touched,
+  onBlur,
+  isEditMode,
+}) => {
+  return (
+    <>
+      {/* Topic ID */}
+      <Input
+        label="Topic ID"
+        id="topic-id"
+        placeholder="e.g., volunteering"
+        value={value.id}
+        onChange={(e) => onChange({ ...value, id: e.target.value })}
+        onBlur={() => onBlur('id')}
+        error={touched.id ? errors.id : undefined}
+        helperText={
+          isEditMode
+            ? 'Renaming updates the topic tags on every CTA that references it'
+            : 'Lowercase letters, numbers, and underscores. Referenced by CTA topic tags.'
+        }
+        required
+        autoFocus={!isEditMode}
+      />
+
+      {/* Label */}
+      <Input
+        label="Label"
+        id="topic-label"
+        placeholder="e.g., Volunteering"
+        value={value.label}
+        onChange={(e) => onChange({ ...value, label: e.target.value })}
+        onBlur={() => onBlur('label')}
+        error={touched.label ? errors.label : undefined}
+        required
+        autoFocus={isEditMode}
+      />
+
+      {/* Description */}
+      <div className="w-full">
+        <label
+          htmlFor="topic-description"
+          className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Description
+        </label>
+        <Textarea
+          id="topic-description"
+          placeholder="Which visitor messages belong to this topic..."
+          value={value.description || ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value || undefined })}
+          onBlur={() => onBlur('description')}
+          rows={3}
+        />
+        {touched.description && errors.description ? (
+          <p className="mt-1.5 text-sm text-red-600 dark:text-red-400" role="alert">
+            {errors.description}
+          </p>
+        ) : (
+          <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">
+            Guidance for the classifier when deciding whether a turn is about this topic
+          </p>
+        )}
+      </div>
+
+      {/* Examples */}
+      <StringListInput
+        id="topic-examples"
+        label="Example messages"
+        values={value.examples ?? []}
+        onChange={(examples) =>
+          onChange({ ...value, examples: examples.length > 0 ? examples : undefined })
+        }
+        placeholder="e.g., How can I help out on weekends?"
+        helperText="Sample visitor messages that should classify into this topic"
+        error={errors.examples}
+      />
+    </>
+  );
+};
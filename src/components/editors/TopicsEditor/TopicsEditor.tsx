@@ -0,0 +1,103 @@
+/**
+ * TopicsEditor Component
+ * Manages V4.1 topic definitions using the generic CRUD framework
+ *
+ * Topics are stored as an array (topic_definitions); the editor works on an
+ * ID-keyed record like the Content Showcase editor does.
+ */
+
+import React, { useMemo } from 'react';
+import { Tags } from 'lucide-react';
+import { EntityEditor } from '../generic/EntityEditor';
+import { TopicFormFields } from './TopicFormFields';
+import { TopicCardContent } from './TopicCardContent';
+import { validateTopic } from '@/lib/validation/topicValidators';
+import { useConfigStore } from '@/store';
+import type { EntityDependencies } from '@/lib/crud/types';
+import type { TopicDefinition } from '@/types/config';
+
+/**
+ * TopicsEditor - Topic definitions management interface
+ *
+ * @example
+ * ```tsx
+ * <TopicsEditor />
+ * ```
+ */
+export const TopicsEditor: React.FC = () => {
+  const topics = useConfigStore((state) => state.topics.topic_definitions);
+  const createTopic = useConfigStore((state) => state.topics.createTopic);
+  const updateTopic = useConfigStore((state) => state.topics.updateTopic);
+  const deleteTopic = useConfigStore((state) => state.topics.deleteTopic);
+  const getTopicDependencies = useConfigStore((state) => state.topics.getTopicDependencies);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+
+  const topicsRecord = useMemo(() => {
+    return topics.reduce((acc, topic) => {
+      acc[topic.id] = topic;
+      return acc;
+    }, {} as Record<string, TopicDefinition>);
+  }, [topics]);
+
+  return (
+    <EntityEditor<TopicDefinition>
+      initialValue={{
+        id: '',
+        label: '',
+      }}
+      config={{
+        // Entity metadata
+        metadata: {
+          entityType: 'topic',
+          entityName: 'Topic',
+          entityNamePlural: 'Topics',
+          description: 'Classifier topics that narrow the AI-available CTA pool each turn',
+        },
+
+        // Empty state configuration
+        emptyState: {
+          icon: Tags,
+          title: 'No Topics',
+          description:
+            'Topics tell pool selection which AI-available CTAs fit the conversation. Create your first topic, then tag CTAs with it.',
+          actionText: 'Create First Topic',
+        },
+
+        // Store and operations
+        useStore: () => ({
+          entities: topicsRecord,
+          createEntity: (topic: TopicDefinition) => createTopic(topic),
+          updateEntity: (id: string, topic: TopicDefinition) => updateTopic(id, topic),
+          deleteEntity: (id: string) => deleteTopic(id),
+          getDependencies: (id): EntityDependencies => {
+            const deps = getTopicDependencies(id);
+            return {
+              canDelete: deps.ctas.length === 0,
+              dependentEntities:
+                deps.ctas.length > 0
+                  ? [
+                      {
+                        type: 'CTAs',
+                        ids: deps.ctas,
+                        names: deps.ctas.map((ctaId) => ctas[ctaId]?.label || ctaId),
+                      },
+                    ]
+                  : [],
+            };
+          },
+        }),
+
+        // Validation
+        validation: validateTopic,
+
+        // ID and name extraction
+        getId: (topic) => topic.id,
+        getName: (topic) => topic.label,
+
+        // Domain-specific components
+        FormFields: TopicFormFields,
+        CardContent: TopicCardContent,
+      }}
+    />
+  );
+};
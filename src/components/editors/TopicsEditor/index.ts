@@ -0,0 +1,7 @@
+/**
+ * TopicsEditor Module Exports
+ */
+
+export { TopicsEditor } from './TopicsEditor';
+export { TopicFormFields } from './TopicFormFields';
+export { TopicCardContent } from './TopicCardContent';
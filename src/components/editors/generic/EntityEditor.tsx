@@ -20,15 +20,20 @@
  * ```
  */
 
-import React from 'react';
-import { Plus } from 'lucide-react';
-import { Button, Card, CardContent } from '@/components/ui';
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, Plus } from 'lucide-react';
+import { Badge, Button, Card, CardContent } from '@/components/ui';
 import { useEntityCRUD } from '@/hooks/crud/useEntityCRUD';
 import { useNavigateToEntity } from '@/hooks/useNavigateToEntity';
+import { usePermissions } from '@/hooks/usePermissions';
 import { EntityList } from './EntityList';
 import { EntityForm } from './EntityForm';
 import { DeleteModal } from './DeleteModal';
+import { ImportEntitiesModal } from '@/components/modals/ImportEntitiesModal';
+import { EntityBundleModal } from '@/components/modals/EntityBundleModal';
 import type { BaseEntity, EntityEditorConfig } from '@/lib/crud/types';
+import type { ImportEntityKind } from '@/lib/entityImport';
+import type { BundleEntityKind } from '@/lib/entityBundles';
 
 export interface EntityEditorProps<T extends BaseEntity> {
   config: EntityEditorConfig<T>;
@@ -36,28 +41,33 @@ export interface EntityEditorProps<T extends BaseEntity> {
 }
 
 /**
- * Empty state component
+ * Empty state component. Without `onCreateClick` (read-only users) the
+ * create action is omitted.
  */
 const EmptyState: React.FC<{
   icon: React.ComponentType<{ className?: string }>;
   title: string;
   description: string;
   actionText: string;
-  onCreateClick: () => void;
+  onCreateClick?: () => void;
 }> = ({ icon: Icon, title, description, actionText, onCreateClick }) => (
   <Card>
     <CardContent className="pt-6 text-center py-12">
       <Icon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
       <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">{title}</h3>
       <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">{description}</p>
-      <Button variant="primary" onClick={onCreateClick} className="flex items-center gap-2 mx-auto">
-        <Plus className="w-4 h-4" />
-        {actionText}
-      </Button>
+      {onCreateClick && (
+        <Button variant="primary" onClick={onCreateClick} className="flex items-center gap-2 mx-auto">
+          <Plus className="w-4 h-4" />
+          {actionText}
+        </Button>
+      )}
     </CardContent>
   </Card>
 );
 
+const noop = () => {};
+
 /**
  * Generic Entity Editor Component
  */
@@ -74,13 +84,26 @@ export function EntityEditor<T extends BaseEntity>({
     validation,
     FormFields,
     CardContent,
-    allowCreate = true,
-    allowEdit = true,
-    allowDelete = true,
-    allowDuplicate = true,
+    allowCreate: configAllowCreate = true,
+    allowEdit: configAllowEdit = true,
+    allowDelete: configAllowDelete = true,
+    allowDuplicate: configAllowDuplicate = true,
+    allowImport: configAllowImport = false,
+    allowFileTransfer = false,
     footerActions,
   } = config;
 
+  // Read-only roles (and users outside the tenant's scope) see the list only
+  const { can } = usePermissions();
+  const canEdit = can('edit', 'content');
+  const allowCreate = configAllowCreate && canEdit;
+  const allowEdit = configAllowEdit && canEdit;
+  const allowDelete = configAllowDelete && canEdit;
+  const allowDuplicate = configAllowDuplicate && canEdit;
+  const allowImport = configAllowImport && canEdit;
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFileTransferOpen, setIsFileTransferOpen] = useState(false);
+
   // Use generic CRUD hook
   const crud = useEntityCRUD<T>({
     getId,
@@ -102,8 +125,9 @@ export function EntityEditor<T extends BaseEntity>({
   useNavigateToEntity<T>({
     entities: crud.entities,
     getId,
-    openEditModal: crud.openEditModal,
+    openEditModal: allowEdit ? crud.openEditModal : noop,
     isFormOpen: crud.isFormOpen,
+    openCreateModal: allowCreate ? crud.openCreateModal : undefined,
   });
 
   return (
@@ -111,21 +135,36 @@ export function EntityEditor<T extends BaseEntity>({
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2">
             {metadata.entityNamePlural}
+            {!canEdit && <Badge variant="secondary">Read only</Badge>}
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">{metadata.description}</p>
         </div>
-        {crud.entities.length > 0 && allowCreate && (
-          <Button
-            variant="primary"
-            onClick={crud.openCreateModal}
-            className="flex items-center gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            Create {metadata.entityName}
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {allowFileTransfer && (
+            <Button variant="outline" onClick={() => setIsFileTransferOpen(true)} className="flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4" />
+              {canEdit ? 'Import / export file' : 'Export file'}
+            </Button>
+          )}
+          {allowImport && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Import from tenant
+            </Button>
+          )}
+          {crud.entities.length > 0 && allowCreate && (
+            <Button
+              variant="primary"
+              onClick={crud.openCreateModal}
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Create {metadata.entityName}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Content - Empty State or Entity List */}
@@ -135,7 +174,7 @@ export function EntityEditor<T extends BaseEntity>({
           title={emptyState.title}
           description={emptyState.description}
           actionText={emptyState.actionText}
-          onCreateClick={crud.openCreateModal}
+          onCreateClick={allowCreate ? crud.openCreateModal : undefined}
         />
       ) : (
         <EntityList
@@ -167,6 +206,22 @@ export function EntityEditor<T extends BaseEntity>({
         getId={getId}
       />
 
+      {allowImport && (
+        <ImportEntitiesModal
+          open={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          initialKind={metadata.entityType as ImportEntityKind}
+        />
+      )}
+
+      {allowFileTransfer && (
+        <EntityBundleModal
+          open={isFileTransferOpen}
+          onClose={() => setIsFileTransferOpen(false)}
+          initialKind={(metadata.entityType === 'showcase_item' ? 'showcase' : metadata.entityType) as BundleEntityKind}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteModal
         open={crud.isDeleteModalOpen}
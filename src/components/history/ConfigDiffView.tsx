@@ -0,0 +1,94 @@
+/**
+ * ConfigDiffView Component
+ * Structural diff between two configs, grouped by top-level section
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { sectionOf, type DiffEntry, type DiffKind } from '@/lib/diff';
+
+export interface ConfigDiffViewProps {
+  entries: DiffEntry[];
+  /** Label for the "before" side, e.g. "Selected version" */
+  beforeLabel: string;
+  /** Label for the "after" side, e.g. "Editor" */
+  afterLabel: string;
+}
+
+const KIND_BADGE: Record<DiffKind, { variant: 'success' | 'error' | 'warning'; label: string }> = {
+  added: { variant: 'success', label: 'Added' },
+  removed: { variant: 'error', label: 'Removed' },
+  changed: { variant: 'warning', label: 'Changed' },
+};
+
+/** Compact JSON for a diff cell; long values are cut so one entry can't flood the view */
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value, null, 2) ?? 'undefined';
+  return text.length > 400 ? `${text.slice(0, 400)}…` : text;
+}
+
+/**
+ * Config Diff View
+ *
+ * @example
+ * ```tsx
+ * <ConfigDiffView entries={diffConfigs(old, current)} beforeLabel="Version" afterLabel="Editor" />
+ * ```
+ */
+export const ConfigDiffView: React.FC<ConfigDiffViewProps> = ({ entries, beforeLabel, afterLabel }) => {
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        No differences — this version matches the editor.
+      </p>
+    );
+  }
+
+  const sections = new Map<string, DiffEntry[]>();
+  for (const entry of entries) {
+    const section = sectionOf(entry.path);
+    sections.set(section, [...(sections.get(section) ?? []), entry]);
+  }
+
+  return (
+    <div className="space-y-6">
+      {[...sections.entries()].map(([section, sectionEntries]) => (
+        <section key={section}>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            {section}{' '}
+            <span className="font-normal text-gray-500 dark:text-gray-400">
+              ({sectionEntries.length} {sectionEntries.length === 1 ? 'change' : 'changes'})
+            </span>
+          </h3>
+          <ul className="space-y-2">
+            {sectionEntries.map((entry) => (
+              <li
+                key={entry.path}
+                className="rounded-lg border border-gray-200 dark:border-gray-800 p-3"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant={KIND_BADGE[entry.kind].variant}>{KIND_BADGE[entry.kind].label}</Badge>
+                  <code className="text-xs text-gray-700 dark:text-gray-300 break-all">{entry.path}</code>
+                </div>
+                <div className="grid grid-cols-2 gap-3 text-xs">
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400 mb-1">{beforeLabel}</div>
+                    <pre className="whitespace-pre-wrap break-all bg-red-50 dark:bg-red-950/30 rounded p-2 text-gray-800 dark:text-gray-200">
+                      {entry.kind === 'added' ? '—' : formatValue(entry.before)}
+                    </pre>
+                  </div>
+                  <div>
+                    <div className="text-gray-500 dark:text-gray-400 mb-1">{afterLabel}</div>
+                    <pre className="whitespace-pre-wrap break-all bg-green-50 dark:bg-green-950/30 rounded p-2 text-gray-800 dark:text-gray-200">
+                      {entry.kind === 'removed' ? '—' : formatValue(entry.after)}
+                    </pre>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
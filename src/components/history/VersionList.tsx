@@ -0,0 +1,62 @@
+/**
+ * VersionList Component
+ * Stored versions of the tenant config, newest first
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { cn } from '@/lib/utils/cn';
+import type { ConfigVersionSummary } from '@/types/api';
+
+export interface VersionListProps {
+  versions: ConfigVersionSummary[];
+  selectedId: string | null;
+  onSelect: (versionId: string) => void;
+}
+
+/** Human-readable byte count (versions are a few KB to a few hundred KB) */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Version List
+ *
+ * @example
+ * ```tsx
+ * <VersionList versions={versions} selectedId={id} onSelect={setId} />
+ * ```
+ */
+export const VersionList: React.FC<VersionListProps> = ({ versions, selectedId, onSelect }) => {
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+      {versions.map((version) => (
+        <li key={version.versionId}>
+          <button
+            type="button"
+            onClick={() => onSelect(version.versionId)}
+            aria-current={version.versionId === selectedId}
+            className={cn(
+              'w-full text-left px-3 py-3 rounded-lg transition-colors',
+              version.versionId === selectedId
+                ? 'bg-green-50 dark:bg-green-900/30'
+                : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {new Date(version.lastModified).toLocaleString()}
+              </span>
+              {version.configVersion && <Badge variant="outline">v{version.configVersion}</Badge>}
+            </div>
+            <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{version.modifiedBy ?? 'Unknown editor'}</span>
+              <span>{formatSize(version.size)}</span>
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,9 @@
+/**
+ * Version History Components
+ */
+
+export { VersionList } from './VersionList';
+export { ConfigDiffView } from './ConfigDiffView';
+
+export type { VersionListProps } from './VersionList';
+export type { ConfigDiffViewProps } from './ConfigDiffView';
@@ -45,6 +45,7 @@ export const Breadcrumbs: React.FC = () => {
       branches: 'Branches',
       cards: 'Card Inventory',
       settings: 'Settings',
+      bulk: 'Bulk Operations',
       edit: 'Edit',
       new: 'New',
     };
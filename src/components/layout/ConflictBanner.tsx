@@ -2,13 +2,15 @@
  * ConflictBanner Component
  * Shown when a save is rejected with 409 because the config was
  * updated elsewhere. The user's in-progress edits remain in the
- * store — only baseConfig needs to be refreshed so the next save
- * sends a fresh If-Match ETag.
+ * store. "Review & merge" combines them with the other save
+ * (ConflictMergeDialog); "Reload latest" only refreshes baseConfig
+ * so the next save sends a fresh If-Match ETag.
  */
 
 import React, { useState } from 'react';
 import { AlertCircle } from 'lucide-react';
 import { Button } from '../ui';
+import { ConflictMergeDialog } from './ConflictMergeDialog';
 import { useConfigStore } from '@/store';
 
 export const ConflictBanner: React.FC = () => {
@@ -18,6 +20,7 @@ export const ConflictBanner: React.FC = () => {
   const clearConflict = useConfigStore((state) => state.config.clearConflict);
 
   const [reloading, setReloading] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
 
   if (!conflictState || !tenantId) return null;
 
@@ -46,18 +49,23 @@ export const ConflictBanner: React.FC = () => {
         <p className="font-semibold text-amber-900">Config was updated elsewhere</p>
         <p className="text-sm text-amber-800">
           Your save was blocked because another process modified this tenant's config
-          since you loaded it. Reload to apply your changes on top of the latest version —
-          your unsaved edits stay in the editor.
+          since you loaded it. Review &amp; merge combines both sets of changes and lets you
+          pick where they overlap. Reload latest keeps your entity edits but takes the other
+          version's settings (branding, features, instructions, messenger).
         </p>
       </div>
       <div className="flex flex-shrink-0 gap-2">
-        <Button variant="primary" size="sm" onClick={handleReload} disabled={reloading}>
+        <Button variant="primary" size="sm" onClick={() => setMergeOpen(true)} disabled={reloading}>
+          Review &amp; merge
+        </Button>
+        <Button variant="secondary" size="sm" onClick={handleReload} disabled={reloading}>
           {reloading ? 'Reloading…' : 'Reload latest'}
         </Button>
         <Button variant="secondary" size="sm" onClick={clearConflict} disabled={reloading}>
           Dismiss
         </Button>
       </div>
+      <ConflictMergeDialog open={mergeOpen} onOpenChange={setMergeOpen} />
     </div>
   );
 };
@@ -0,0 +1,262 @@
+/**
+ * ConflictMergeDialog Component
+ * Three-way merge for a 409: the config you loaded, your edits, and the
+ * version saved elsewhere. Non-overlapping changes merge automatically; the
+ * rest are resolved per field.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge, Loader2 } from 'lucide-react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  Badge,
+  Button,
+} from '../ui';
+import { useConfigStore } from '@/store';
+import { loadConfig } from '@/lib/api/config-operations';
+import {
+  threeWayMerge,
+  applyConflictChoices,
+  type ConflictChoice,
+  type MergeConflict,
+} from '@/lib/diff';
+import { cn } from '@/lib/utils/cn';
+import type { TenantConfig } from '@/types/config';
+
+export interface ConflictMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ServerSide {
+  config: TenantConfig;
+  etag: string;
+}
+
+/** Compact rendering of one side of a conflict */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(deleted)';
+  const text = JSON.stringify(value, null, 2);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+/** Conflicts grouped as "section › entity" for display */
+function groupConflicts(conflicts: MergeConflict[]): [string, MergeConflict[]][] {
+  const groups = new Map<string, MergeConflict[]>();
+  for (const conflict of conflicts) {
+    const key = conflict.entityId ? `${conflict.section} › ${conflict.entityId}` : conflict.section;
+    groups.set(key, [...(groups.get(key) ?? []), conflict]);
+  }
+  return [...groups.entries()];
+}
+
+/** Path below the group heading (`label`, `fields`), or the whole entity */
+function relativePath(conflict: MergeConflict): string {
+  const rest = conflict.path.slice(conflict.entityId ? 2 : 1);
+  return rest.length > 0 ? rest.join('.') : 'entire entry';
+}
+
+const ChoiceCard: React.FC<{
+  label: string;
+  value: unknown;
+  selected: boolean;
+  onSelect: () => void;
+}> = ({ label, value, selected, onSelect }) => (
+  <button
+    type="button"
+    onClick={onSelect}
+    aria-pressed={selected}
+    className={cn(
+      'text-left rounded-lg border p-2 transition-colors',
+      selected
+        ? 'border-green-500 bg-green-50 dark:border-green-600 dark:bg-green-950/30'
+        : 'border-gray-200 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800'
+    )}
+  >
+    <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</div>
+    <pre className="whitespace-pre-wrap break-all text-xs text-gray-800 dark:text-gray-200">
+      {formatValue(value)}
+    </pre>
+  </button>
+);
+
+/**
+ * Conflict Merge Dialog
+ *
+ * Uses conflictState.currentConfig when the 409 carried it with its ETag and
+ * otherwise fetches the latest config. Applying saves the merge against the
+ * server's ETag via applyConflictMerge; without one the save would be
+ * unconditional, so the dialog refuses to merge.
+ *
+ * @example
+ * ```tsx
+ * <ConflictMergeDialog open={open} onOpenChange={setOpen} />
+ * ```
+ */
+export const ConflictMergeDialog: React.FC<ConflictMergeDialogProps> = ({ open, onOpenChange }) => {
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="sm:max-w-2xl md:max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Mounted per opening so each review starts from the current state */}
+        {open && <ConflictMergeBody onClose={() => onOpenChange(false)} />}
+      </ModalContent>
+    </Modal>
+  );
+};
+
+const ConflictMergeBody: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const conflictState = useConfigStore((state) => state.config.conflictState);
+  const savedConfig = useConfigStore((state) => state.config.savedConfig);
+  const getMergedConfig = useConfigStore((state) => state.config.getMergedConfig);
+  const applyConflictMerge = useConfigStore((state) => state.config.applyConflictMerge);
+
+  const [server, setServer] = useState<ServerSide | null>(
+    conflictState?.currentConfig && conflictState.currentETag
+      ? { config: conflictState.currentConfig, etag: conflictState.currentETag }
+      : null
+  );
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  // The 409 body doesn't always include the server's config or its ETag — fetch them
+  useEffect(() => {
+    if (server || !tenantId) return;
+    const fetchServerConfig = async () => {
+      try {
+        const response = await loadConfig(tenantId);
+        if (!response.etag) {
+          setLoadError(
+            'The server did not return a version tag for the latest configuration, so a merge could overwrite another save. Reload the tenant to pick up its changes.'
+          );
+          return;
+        }
+        setServer({ config: response.config, etag: response.etag });
+      } catch (error) {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load the latest configuration');
+      }
+    };
+    void fetchServerConfig();
+  }, [server, tenantId]);
+
+  // Local side is captured once: the editor can't change while the dialog is open
+  const [local] = useState(() => getMergedConfig());
+
+  const result = useMemo(
+    () => (server && local ? threeWayMerge(savedConfig, local, server.config) : null),
+    [server, local, savedConfig]
+  );
+
+  const chooseAll = (choice: ConflictChoice) => {
+    if (!result) return;
+    setChoices(Object.fromEntries(result.conflicts.map((conflict) => [conflict.id, choice])));
+  };
+
+  const handleApply = async () => {
+    if (!result || !server) return;
+    setIsApplying(true);
+    try {
+      await applyConflictMerge(applyConflictChoices(result, choices), server);
+      onClose();
+    } catch {
+      // saveConfig toasted (or re-raised another 409, which re-opens the banner)
+      onClose();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const conflicts = result?.conflicts ?? [];
+
+  return (
+    <>
+      <ModalHeader>
+        <ModalTitle className="flex items-center gap-2">
+          <GitMerge className="w-5 h-5 text-amber-600" />
+          Merge with the latest version
+        </ModalTitle>
+        <ModalDescription>
+          Changes that don&apos;t overlap are combined automatically. Where you and the other
+          save changed the same setting, pick which value to keep.
+        </ModalDescription>
+      </ModalHeader>
+
+      {loadError ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+      ) : !result ? (
+        <div className="py-8 flex justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+        </div>
+      ) : conflicts.length === 0 ? (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          No overlapping changes — your edits and the other save merge cleanly.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {conflicts.length} {conflicts.length === 1 ? 'conflict needs' : 'conflicts need'} a
+              decision. Undecided conflicts keep your value.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => chooseAll('local')}>
+                Keep all mine
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => chooseAll('server')}>
+                Take all theirs
+              </Button>
+            </div>
+          </div>
+
+          {groupConflicts(conflicts).map(([group, groupConflictList]) => (
+            <section key={group} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{group}</h3>
+              {groupConflictList.map((conflict) => {
+                const choice = choices[conflict.id] ?? 'local';
+                return (
+                  <div key={conflict.id} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs text-gray-700 dark:text-gray-300">
+                        {relativePath(conflict)}
+                      </code>
+                      {conflict.base === undefined && <Badge variant="info" size="sm">added on both sides</Badge>}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <ChoiceCard
+                        label="Yours"
+                        value={conflict.local}
+                        selected={choice === 'local'}
+                        onSelect={() => setChoices((prev) => ({ ...prev, [conflict.id]: 'local' }))}
+                      />
+                      <ChoiceCard
+                        label="Theirs"
+                        value={conflict.server}
+                        selected={choice === 'server'}
+                        onSelect={() => setChoices((prev) => ({ ...prev, [conflict.id]: 'server' }))}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+      )}
+
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose} disabled={isApplying}>
+          Cancel
+        </Button>
+        <Button onClick={() => void handleApply()} disabled={!result || isApplying}>
+          {isApplying ? 'Saving…' : 'Merge and save'}
+        </Button>
+      </ModalFooter>
+    </>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * DraftBanner Component
+ * Shown after loading a tenant that has an unsaved draft from an earlier
+ * session. Nothing is applied until the operator chooses: "Resume draft"
+ * replaces the loaded config with the draft, "Discard" deletes it. When
+ * the server config changed since the draft was taken, the banner warns
+ * that resuming would overwrite those changes on the next save.
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, FileClock } from 'lucide-react';
+import { Button } from '../ui';
+import { useConfigStore } from '@/store';
+
+export const DraftBanner: React.FC = () => {
+  const pendingDraft = useConfigStore((state) => state.config.pendingDraft);
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const resumeDraft = useConfigStore((state) => state.config.resumeDraft);
+  const discardDraft = useConfigStore((state) => state.config.discardDraft);
+
+  const [busy, setBusy] = useState(false);
+
+  if (!pendingDraft || !tenantId) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savedAt = new Date(pendingDraft.savedAt).toLocaleString();
+  const Icon = pendingDraft.isStale ? AlertTriangle : FileClock;
+
+  return (
+    <div
+      role="alert"
+      aria-live="polite"
+      className={
+        pendingDraft.isStale
+          ? 'flex items-start gap-3 border-l-4 border-amber-500 bg-amber-50 px-4 py-3'
+          : 'flex items-start gap-3 border-l-4 border-blue-500 bg-blue-50 px-4 py-3'
+      }
+    >
+      <Icon
+        className={`mt-0.5 h-5 w-5 flex-shrink-0 ${pendingDraft.isStale ? 'text-amber-600' : 'text-blue-600'}`}
+        aria-hidden="true"
+      />
+      <div className="flex-1">
+        <p className={`font-semibold ${pendingDraft.isStale ? 'text-amber-900' : 'text-blue-900'}`}>
+          You have an unsaved draft for {tenantId}
+        </p>
+        <p className={`text-sm ${pendingDraft.isStale ? 'text-amber-800' : 'text-blue-800'}`}>
+          Last edited {savedAt}.{' '}
+          {pendingDraft.isStale
+            ? 'The config has been saved elsewhere since this draft was started. Resuming replaces the loaded config with your draft, and saving it will overwrite those newer changes.'
+            : 'Resume it to pick up where you left off, or discard it to keep the loaded config.'}
+        </p>
+      </div>
+      <div className="flex flex-shrink-0 gap-2">
+        <Button variant="primary" size="sm" onClick={() => void run(resumeDraft)} disabled={busy}>
+          Resume draft
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => void run(discardDraft)} disabled={busy}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,8 @@
  * Top navigation bar with tenant selector and deploy button
  */
 
-import React, { useState } from 'react';
-import { Save, Eye, Menu } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { Save, Eye, Menu, Undo2, Redo2, Search } from 'lucide-react';
 import { UserButton } from '@clerk/react';
 import logoImg from '@/assets/myrecruiter-logo.png';
 import { TenantSelector } from '../TenantSelector';
@@ -12,8 +12,10 @@ import { Button, Badge } from '../ui';
 import { PreviewConfigModal } from '../preview/PreviewConfigModal';
 import { ValidationSummary } from './ValidationSummary';
 import { DeployButton, PromoteButton } from '../deploy';
+import { CommandPalette } from '../commandPalette';
 import { useConfigStore } from '@/store';
-import { useSaveShortcut } from '@/hooks/useKeyboardShortcuts';
+import { useCommandPaletteShortcut, useSaveShortcut, useUndoRedoShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { usePermissions } from '@/hooks/usePermissions';
 
 /**
  * Application Header
@@ -22,8 +24,10 @@ import { useSaveShortcut } from '@/hooks/useKeyboardShortcuts';
  * - App title and branding
  * - Tenant selector dropdown
  * - Deploy button (visible when dirty)
- * - Save button (visible when dirty)
+ * - Save button (visible when dirty, for roles that can edit)
+ * - Undo/redo buttons for config edits
  * - Validation summary indicator
+ * - Command palette (Ctrl/Cmd+K) for search and commands
  * - Confirmation modal before deploy
  *
  * @example
@@ -33,14 +37,21 @@ import { useSaveShortcut } from '@/hooks/useKeyboardShortcuts';
  */
 export const Header: React.FC = () => {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showDeployDialog, setShowDeployDialog] = useState(false);
 
   const tenantId = useConfigStore((state) => state.config.tenantId);
   const isDirty = useConfigStore((state) => state.config.isDirty);
   const isValid = useConfigStore((state) => state.validation.isValid);
   const saveConfig = useConfigStore((state) => state.config.saveConfig);
+  const canUndo = useConfigStore((state) => state.config.canUndo);
+  const canRedo = useConfigStore((state) => state.config.canRedo);
+  const undo = useConfigStore((state) => state.config.undo);
+  const redo = useConfigStore((state) => state.config.redo);
   const loading = useConfigStore((state) => state.ui.loading);
   const toggleSidebar = useConfigStore((state) => state.ui.toggleSidebar);
-
+  const { can } = usePermissions();
+  const canSave = can('edit', 'config');
 
   const isSaving = loading?.save || false;
 
@@ -54,7 +65,16 @@ export const Header: React.FC = () => {
   };
 
   // Register global save shortcut (Ctrl/Cmd+S)
-  useSaveShortcut(handleSave, { disabled: !isDirty || !isValid || isSaving || !tenantId });
+  useSaveShortcut(handleSave, { disabled: !canSave || !isDirty || !isValid || isSaving || !tenantId });
+
+  // Register global undo/redo shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z)
+  useUndoRedoShortcuts(undo, redo, { disabled: !tenantId });
+
+  // Register command palette shortcut (Ctrl/Cmd+K)
+  useCommandPaletteShortcut(() => setShowCommandPalette(true));
+
+  const openPreview = useCallback(() => setShowPreviewModal(true), []);
+  const openDeployDialog = useCallback(() => setShowDeployDialog(true), []);
 
   return (
     <>
@@ -97,6 +117,17 @@ export const Header: React.FC = () => {
               <KeyboardShortcutsHelp />
             </div> */}
 
+            {/* Command Palette */}
+            <Button
+              onClick={() => setShowCommandPalette(true)}
+              variant="ghost"
+              size="sm"
+              aria-label="Search and commands"
+              title="Search and commands (Ctrl/Cmd+K)"
+            >
+              <Search className="w-4 h-4" />
+            </Button>
+
             {/* Tenant Selector */}
             <TenantSelector />
 
@@ -113,8 +144,34 @@ export const Header: React.FC = () => {
               </Button>
             )}
 
+            {/* Undo / Redo */}
+            {tenantId && (
+              <div className="flex items-center">
+                <Button
+                  onClick={undo}
+                  variant="ghost"
+                  size="sm"
+                  disabled={!canUndo}
+                  aria-label="Undo"
+                  title="Undo (Ctrl/Cmd+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={redo}
+                  variant="ghost"
+                  size="sm"
+                  disabled={!canRedo}
+                  aria-label="Redo"
+                  title="Redo (Ctrl/Cmd+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
             {/* Save Button */}
-            {isDirty && tenantId && (
+            {isDirty && tenantId && canSave && (
               <Button
                 onClick={handleSave}
                 variant="outline"
@@ -131,7 +188,7 @@ export const Header: React.FC = () => {
             )}
 
             {/* Deploy Button - New Component */}
-            <DeployButton />
+            <DeployButton dialogOpen={showDeployDialog} onDialogOpenChange={setShowDeployDialog} />
 
             {/* Promote to Production - fires the gated staging→prod workflow */}
             <PromoteButton />
@@ -147,6 +204,14 @@ export const Header: React.FC = () => {
         open={showPreviewModal}
         onOpenChange={setShowPreviewModal}
       />
+
+      {/* Command Palette */}
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        onOpenPreview={openPreview}
+        onDeploy={openDeployDialog}
+      />
     </>
   );
 };
@@ -10,6 +10,8 @@ import { Sidebar } from './Sidebar';
 import { MainContent } from './MainContent';
 import { ValidationPanel } from './ValidationPanel';
 import { ConflictBanner } from './ConflictBanner';
+import { DraftBanner } from './DraftBanner';
+import { MigrationBanner } from './MigrationBanner';
 
 /**
  * Application Layout
@@ -36,6 +38,12 @@ export const Layout: React.FC = () => {
           blocked by a 409 and we need to prompt the user to reload. */}
       <ConflictBanner />
 
+      {/* Unsaved draft from an earlier session — resume or discard. */}
+      <DraftBanner />
+
+      {/* Schema migrations applied on load — what changed, save to persist. */}
+      <MigrationBanner />
+
       {/* Main Content Area */}
       <div className="app-main-wrapper">
         {/* Sidebar */}
@@ -0,0 +1,68 @@
+/**
+ * MigrationBanner Component
+ * Shown after loading a config that schema migrations upgraded (see
+ * lib/migrations). Lists each step that ran and what it changed. The
+ * upgrade is only in the editor until the operator saves or deploys.
+ */
+
+import React, { useState } from 'react';
+import { ArrowUpCircle } from 'lucide-react';
+import { Button } from '../ui';
+import { useConfigStore } from '@/store';
+
+export const MigrationBanner: React.FC = () => {
+  const report = useConfigStore((state) => state.config.migrationReport);
+  const dismiss = useConfigStore((state) => state.config.dismissMigrationReport);
+
+  const [expanded, setExpanded] = useState(false);
+
+  if (!report) return null;
+
+  const changeCount = report.applied.reduce((count, step) => count + step.changes.length, 0);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="flex items-start gap-3 border-l-4 border-blue-500 bg-blue-50 px-4 py-3"
+    >
+      <ArrowUpCircle className="mt-0.5 h-5 w-5 flex-shrink-0 text-blue-600" aria-hidden="true" />
+      <div className="flex-1">
+        <p className="font-semibold text-blue-900">
+          Config upgraded from schema {report.fromVersion} to {report.toVersion}
+        </p>
+        <p className="text-sm text-blue-800">
+          {changeCount} change{changeCount === 1 ? '' : 's'} made on load. Review them, then Save to persist.
+        </p>
+        {expanded && (
+          <ol className="mt-2 space-y-2 text-sm text-blue-900">
+            {report.applied.map((step) => (
+              <li key={step.id}>
+                <p className="font-medium">
+                  v{step.from} → v{step.to}: {step.description}
+                </p>
+                {step.changes.length > 0 ? (
+                  <ul className="ml-4 list-disc text-blue-800">
+                    {step.changes.map((change, index) => (
+                      <li key={index}>{change}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="ml-4 text-blue-700">No changes needed</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      <div className="flex flex-shrink-0 gap-2">
+        <Button variant="secondary" size="sm" onClick={() => setExpanded((open) => !open)} aria-expanded={expanded}>
+          {expanded ? 'Hide details' : 'Details'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={dismiss}>
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -12,8 +12,14 @@ import {
   FileText,
   MousePointerClick,
   GitBranch,
+  Tags,
   Zap,
   Sparkles,
+  CalendarClock,
+  Languages,
+  History,
+  Layers,
+  MessagesSquare,
   Settings,
   ChevronLeft,
   ChevronRight,
@@ -84,6 +90,11 @@ export const Sidebar: React.FC = () => {
       label: 'Branches',
       icon: <GitBranch className="w-5 h-5" />,
     },
+    {
+      to: '/topics',
+      label: 'Topics',
+      icon: <Tags className="w-5 h-5" />,
+    },
     {
       to: '/action-chips',
       label: 'Action Chips',
@@ -94,6 +105,31 @@ export const Sidebar: React.FC = () => {
       label: 'Showcase Items',
       icon: <Sparkles className="w-5 h-5" />,
     },
+    {
+      to: '/scheduling',
+      label: 'Scheduling',
+      icon: <CalendarClock className="w-5 h-5" />,
+    },
+    {
+      to: '/translations',
+      label: 'Translations',
+      icon: <Languages className="w-5 h-5" />,
+    },
+    {
+      to: '/preview',
+      label: 'Preview',
+      icon: <MessagesSquare className="w-5 h-5" />,
+    },
+    {
+      to: '/history',
+      label: 'History',
+      icon: <History className="w-5 h-5" />,
+    },
+    {
+      to: '/bulk',
+      label: 'Bulk Operations',
+      icon: <Layers className="w-5 h-5" />,
+    },
     {
       to: '/settings',
       label: 'Settings',
@@ -13,6 +13,7 @@ import { useConfigStore } from '@/store';
 import { ValidationGroup } from './validation/ValidationGroup';
 import { ValidationEmptyState } from './validation/ValidationEmptyState';
 import type { ValidationError as StoreValidationError } from '@/store/types';
+import { SETTINGS_ENTITY_PREFIX } from '@/lib/validation/schemaValidation';
 import type { ValidationError, ValidationWarning, EntityType } from '@/lib/validation/types';
 
 export interface ValidationPanelProps {
@@ -27,7 +28,8 @@ export interface ValidationPanelProps {
  *
  * Features:
  * - Collapsible panel (starts collapsed)
- * - Groups issues by entity type (Programs, Forms, CTAs, Branches, Global)
+ * - Groups issues by entity type (Programs, Forms, CTAs, Branches, Topics, Showcase,
+ *   Action Chips, Settings, Global)
  * - Shows error/warning counts with badges
  * - Click to navigate to entity with error
  * - Real-time updates from Zustand store
@@ -52,11 +54,15 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
   const validateAll = useConfigStore((state) => state.validation.validateAll);
 
   // Entity dictionaries — used to group issues under the entity type they
-  // actually belong to (Programs/Forms/CTAs/Branches) instead of "Global"
+  // actually belong to (Programs/Forms/CTAs/Branches/Topics/Showcase/Action Chips)
+  // instead of "Global"
   const programEntities = useConfigStore((state) => state.programs.programs);
   const formEntities = useConfigStore((state) => state.forms.forms);
   const ctaEntities = useConfigStore((state) => state.ctas.ctas);
   const branchEntities = useConfigStore((state) => state.branches.branches);
+  const topicEntities = useConfigStore((state) => state.topics.topic_definitions);
+  const showcaseEntities = useConfigStore((state) => state.contentShowcase.content_showcase);
+  const actionChipEntities = useConfigStore((state) => state.config.baseConfig?.action_chips?.default_chips);
 
   // State for re-validate button
   const [isValidating, setIsValidating] = useState(false);
@@ -85,6 +91,10 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
       forms: [],
       ctas: [],
       branches: [],
+      topics: [],
+      showcase: [],
+      actionChips: [],
+      settings: [],
       global: [],
     };
 
@@ -132,12 +142,18 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
       if (entityId.startsWith('form-')) return 'forms';
       if (entityId.startsWith('cta-')) return 'ctas';
       if (entityId.startsWith('branch-')) return 'branches';
+      if (entityId.startsWith('topic-')) return 'topics';
+      // Tenant schema issues in settings sections (e.g. "settings-branding")
+      if (entityId.startsWith(SETTINGS_ENTITY_PREFIX)) return 'settings';
 
       // Entity-validation ids are the bare dictionary keys — look them up
       if (entityId in programEntities) return 'programs';
       if (entityId in formEntities) return 'forms';
       if (entityId in ctaEntities) return 'ctas';
       if (entityId in branchEntities) return 'branches';
+      if (topicEntities.some((topic) => topic.id === entityId)) return 'topics';
+      if (showcaseEntities.some((item) => item.id === entityId)) return 'showcase';
+      if (actionChipEntities && entityId in actionChipEntities) return 'actionChips';
       return 'global';
     };
 
@@ -180,7 +196,17 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
     });
 
     return groups;
-  }, [errors, warnings, programEntities, formEntities, ctaEntities, branchEntities]);
+  }, [
+    errors,
+    warnings,
+    programEntities,
+    formEntities,
+    ctaEntities,
+    branchEntities,
+    topicEntities,
+    showcaseEntities,
+    actionChipEntities,
+  ]);
 
   // Calculate total counts
   const totalErrors = useMemo(() => {
@@ -342,6 +368,46 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
                   />
                 )}
 
+                {/* Topics */}
+                {groupedIssues.topics.length > 0 && (
+                  <ValidationGroup
+                    title="Topics"
+                    entityType="topic"
+                    issues={groupedIssues.topics}
+                    defaultExpanded
+                  />
+                )}
+
+                {/* Showcase */}
+                {groupedIssues.showcase.length > 0 && (
+                  <ValidationGroup
+                    title="Showcase"
+                    entityType="showcase"
+                    issues={groupedIssues.showcase}
+                    defaultExpanded
+                  />
+                )}
+
+                {/* Action Chips */}
+                {groupedIssues.actionChips.length > 0 && (
+                  <ValidationGroup
+                    title="Action Chips"
+                    entityType="action_chip"
+                    issues={groupedIssues.actionChips}
+                    defaultExpanded
+                  />
+                )}
+
+                {/* Settings */}
+                {groupedIssues.settings.length > 0 && (
+                  <ValidationGroup
+                    title="Settings"
+                    entityType="config"
+                    issues={groupedIssues.settings}
+                    defaultExpanded
+                  />
+                )}
+
                 {/* Global */}
                 {groupedIssues.global.length > 0 && (
                   <ValidationGroup
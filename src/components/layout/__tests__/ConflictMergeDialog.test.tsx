@@ -0,0 +1,71 @@
+/**
+ * ConflictMergeDialog saves only against a server ETag: a 409 without one
+ * re-fetches the latest config, and a fetch without one blocks the merge
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ConflictMergeDialog } from '../ConflictMergeDialog';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+function makeConfig(chatTitle: string): TenantConfig {
+  return { tenant_id: 'TEST001', chat_title: chatTitle, programs: {} } as unknown as TenantConfig;
+}
+
+describe('ConflictMergeDialog', () => {
+  const applyConflictMerge = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    applyConflictMerge.mockResolvedValue(undefined);
+    useConfigStore.setState((state) => {
+      state.config.tenantId = 'TEST001';
+      state.config.savedConfig = makeConfig('Base');
+      state.config.baseConfig = makeConfig('Base');
+      // 409 body with the server's config but no ETag
+      state.config.conflictState = { currentConfig: makeConfig('Theirs'), currentETag: null };
+      state.config.applyConflictMerge = applyConflictMerge;
+    });
+  });
+
+  it('re-fetches the config when the 409 carried no ETag, and saves against the fetched one', async () => {
+    const user = userEvent.setup();
+    vi.mocked(configOps.loadConfig).mockResolvedValue({
+      config: makeConfig('Theirs'),
+      etag: 'W/"v2"',
+    } as unknown as LoadConfigResponse);
+
+    render(<ConflictMergeDialog open onOpenChange={vi.fn()} />);
+
+    const apply = screen.getByRole('button', { name: /merge and save/i });
+    await waitFor(() => expect(apply).toBeEnabled());
+    await user.click(apply);
+
+    expect(configOps.loadConfig).toHaveBeenCalledWith('TEST001');
+    expect(applyConflictMerge).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ etag: 'W/"v2"' })
+    );
+  });
+
+  it('blocks the merge when the fetched config has no ETag either', async () => {
+    vi.mocked(configOps.loadConfig).mockResolvedValue({
+      config: makeConfig('Theirs'),
+    } as unknown as LoadConfigResponse);
+
+    render(<ConflictMergeDialog open onOpenChange={vi.fn()} />);
+
+    expect(await screen.findByText(/did not return a version tag/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /merge and save/i })).toBeDisabled();
+    expect(applyConflictMerge).not.toHaveBeenCalled();
+  });
+});
@@ -8,6 +8,9 @@ export { Sidebar } from './Sidebar';
 export { MainContent } from './MainContent';
 export { Breadcrumbs } from './Breadcrumbs';
 export { ConflictBanner } from './ConflictBanner';
+export { ConflictMergeDialog } from './ConflictMergeDialog';
+export { DraftBanner } from './DraftBanner';
+export { MigrationBanner } from './MigrationBanner';
 export { ValidationPanel } from './ValidationPanel';
 export { ValidationSummary } from './ValidationSummary';
 
@@ -6,7 +6,7 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
-import { ValidationItem } from './ValidationItem';
+import { ValidationItem, type ValidationItemProps } from './ValidationItem';
 import type { ValidationError, ValidationWarning } from '@/lib/validation/types';
 import type { EntityType } from '@/lib/validation/types';
 
@@ -52,7 +52,7 @@ export const ValidationGroup: React.FC<ValidationGroupProps> = ({
   }
 
   // Map entity types to valid navigation types
-  const getNavigationType = (): 'program' | 'form' | 'cta' | 'branch' => {
+  const getNavigationType = (): ValidationItemProps['entityType'] => {
     switch (entityType) {
       case 'program':
         return 'program';
@@ -62,6 +62,12 @@ export const ValidationGroup: React.FC<ValidationGroupProps> = ({
         return 'cta';
       case 'branch':
         return 'branch';
+      case 'topic':
+        return 'topic';
+      case 'showcase':
+        return 'showcase';
+      case 'action_chip':
+        return 'action_chip';
       default:
         return 'form'; // fallback
     }
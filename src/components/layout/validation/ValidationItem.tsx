@@ -10,12 +10,13 @@ import { AlertCircle, AlertTriangle, Info, ChevronRight, Wrench } from 'lucide-r
 import { cn } from '@/lib/utils/cn';
 import { useConfigStore } from '@/store';
 import { Select } from '@/components/ui/Select';
+import { settingsLocation, SETTINGS_ENTITY_PREFIX } from '@/lib/validation/schemaValidation';
 import type { ValidationError, ValidationWarning } from '@/lib/validation/types';
 
 export interface ValidationItemProps {
   issue: ValidationError | ValidationWarning;
   entityId: string;
-  entityType: 'program' | 'form' | 'cta' | 'branch';
+  entityType: 'program' | 'form' | 'cta' | 'branch' | 'topic' | 'showcase' | 'action_chip';
   onClick?: () => void;
 }
 
@@ -24,7 +25,7 @@ export interface ValidationItemProps {
  * (e.g. "form-donation_inquiry") — strip it to get the dictionary key.
  */
 const bareEntityId = (entityId: string): string =>
-  entityId.replace(/^(program|form|cta|branch)-/, '');
+  entityId.replace(/^(program|form|cta|branch|topic)-/, '');
 
 /**
  * Single validation issue item with navigation and inline fixes
@@ -53,6 +54,12 @@ export const ValidationItem: React.FC<ValidationItemProps> = ({
 
   const targetId = bareEntityId(entityId);
 
+  // Tenant schema issues in a settings section ("settings-branding") link to
+  // the panel that edits it rather than to an entity editor
+  const settingsSection = entityId.startsWith(SETTINGS_ENTITY_PREFIX)
+    ? settingsLocation(entityId.slice(SETTINGS_ENTITY_PREFIX.length))
+    : null;
+
   // Inline fix: a form missing its program gets a program picker right in the
   // panel — picking one applies the fix and re-validates immediately.
   const isFixableProgramIssue =
@@ -76,12 +83,24 @@ export const ValidationItem: React.FC<ValidationItemProps> = ({
       return;
     }
 
+    if (settingsSection) {
+      const params = new URLSearchParams();
+      if (settingsSection.tab) params.set('tab', settingsSection.tab);
+      if (issue.field) params.set('scrollTo', issue.field);
+      const query = params.toString();
+      navigate(query ? `${settingsSection.route}?${query}` : settingsSection.route);
+      return;
+    }
+
     // Map entity type to route
     const routes: Record<typeof entityType, string> = {
       program: '/programs',
       form: '/forms',
       cta: '/ctas',
       branch: '/branches',
+      topic: '/topics',
+      showcase: '/cards',
+      action_chip: '/action-chips',
     };
 
     const targetRoute = routes[entityType];
@@ -148,7 +167,7 @@ export const ValidationItem: React.FC<ValidationItemProps> = ({
           <div className="flex-1 min-w-0">
             {/* Entity ID */}
             <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-              {entityId}
+              {settingsSection ? settingsSection.title : entityId}
             </div>
 
             {/* Message */}
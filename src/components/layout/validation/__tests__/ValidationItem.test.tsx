@@ -9,8 +9,8 @@
 
 import React from 'react';
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
-import { MemoryRouter } from 'react-router-dom';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
 import { ValidationItem } from '../ValidationItem';
 import { useConfigStore } from '@/store';
 import type { ValidationError } from '@/lib/validation/types';
@@ -86,3 +86,32 @@ describe('ValidationItem inline program fix', () => {
     expect(screen.queryByText('Assign a program…')).not.toBeInTheDocument();
   });
 });
+
+describe('ValidationItem settings navigation', () => {
+  const LocationProbe = () => {
+    const location = useLocation();
+    return <div data-testid="location">{`${location.pathname}${location.search}`}</div>;
+  };
+
+  it('links a tenant schema issue to its settings panel, tab and field', () => {
+    const issue: ValidationError = {
+      level: 'error',
+      message: '❌ Aws → Knowledge base id: Invalid',
+      field: 'knowledge_base_id',
+      entityType: 'config',
+      entityId: 'settings-aws',
+    };
+    render(
+      <MemoryRouter>
+        <ValidationItem issue={issue} entityId="settings-aws" entityType="form" />
+        <LocationProbe />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('AWS')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByTestId('location')).toHaveTextContent(
+      '/settings?tab=ai-aws&scrollTo=knowledge_base_id'
+    );
+  });
+});
@@ -18,6 +18,13 @@ import {
 } from '@/components/ui';
 import { createTenantSchema, type CreateTenantFormData } from '@/lib/schemas';
 import { configApiClient } from '@/lib/api/client';
+import { loadConfig, saveConfig } from '@/lib/api/config-operations';
+import { migrateConfig } from '@/lib/migrations';
+import { validateTenantConfig } from '@/lib/cli';
+import { SETTINGS_ENTITY_PREFIX } from '@/lib/validation';
+import { applyTemplate, templateFromConfig, type TenantTemplate } from '@/lib/templates';
+import { pickSavedSections } from '@/lib/contracts';
+import { TenantSourcePicker, type TenantSource } from './TenantSourcePicker';
 import type { TenantConfig } from '@/types/config';
 
 interface CreateTenantModalProps {
@@ -50,8 +57,33 @@ interface CreateTenantResponse {
   tenant_hash: string;
   embed_code: string;
   config: TenantConfig;
+  etag?: string;
 }
 
+/** The template a source stands for; cloning reads the tenant's stored config */
+async function resolveTemplate(source: TenantSource): Promise<TenantTemplate | null> {
+  if (source.type === 'template') return source.template;
+  if (source.type === 'clone') {
+    const { config } = await loadConfig(source.tenantId);
+    return templateFromConfig(migrateConfig(config).config, { name: `Clone of ${source.tenantId}` });
+  }
+  return null;
+}
+
+/** Enough of the new tenant's config to apply a template to before it exists */
+function previewBase(data: CreateTenantFormData): TenantConfig {
+  return {
+    tenant_id: data.tenant_id,
+    chat_title: data.chat_title || data.org_name,
+    subscription_tier: data.subscription_tier,
+    welcome_message: data.welcome_message ?? '',
+    branding: { primary_color: data.primary_color },
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+  } as unknown as TenantConfig;
+}
 
 export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onClose, onCreated }) => {
   const [viewState, setViewState] = useState<ViewState>('form');
@@ -59,6 +91,9 @@ export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onCl
   const [response, setResponse] = useState<CreateTenantResponse | null>(null);
   const [submittedOrgName, setSubmittedOrgName] = useState('');
   const [copied, setCopied] = useState(false);
+  const [source, setSource] = useState<TenantSource>({ type: 'empty' });
+  const [sourceErrors, setSourceErrors] = useState<string[]>([]);
+  const [seedWarning, setSeedWarning] = useState<string | null>(null);
 
   const {
     register,
@@ -98,15 +133,42 @@ export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onCl
     setResponse(null);
     setSubmittedOrgName('');
     setCopied(false);
+    setSource({ type: 'empty' });
+    setSourceErrors([]);
+    setSeedWarning(null);
     onClose();
   };
 
+  const handleSourceChange = (next: TenantSource) => {
+    setSource(next);
+    setSourceErrors([]);
+    const color = next.type === 'template' ? next.template.content.branding?.primary_color : undefined;
+    if (color) setValue('primary_color', color, { shouldValidate: true });
+  };
+
   const onSubmit = async (data: CreateTenantFormData) => {
     setApiError(null);
+    setSourceErrors([]);
+    setSeedWarning(null);
     setViewState('loading');
     setSubmittedOrgName(data.org_name);
 
     try {
+      // Validate the seeded content before anything is created
+      const template = await resolveTemplate(source);
+      if (template) {
+        // The server fills in the tenant settings; the seeded config is
+        // checked in full once it has them
+        const contentErrors = validateTenantConfig(applyTemplate(template, previewBase(data))).errors.filter(
+          (error) => !error.entityId?.startsWith(SETTINGS_ENTITY_PREFIX)
+        );
+        if (contentErrors.length > 0) {
+          setSourceErrors(contentErrors.map((error) => error.message));
+          setViewState('form');
+          return;
+        }
+      }
+
       const result = await configApiClient.createTenant({
         org_name: data.org_name,
         tenant_id: data.tenant_id,
@@ -117,6 +179,25 @@ export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onCl
         knowledge_base_id: data.knowledge_base_id || undefined,
       });
 
+      if (template) {
+        try {
+          // Conditional on the created config, so nothing written since is overwritten.
+          // Re-loading for an ETag would pick up such a write and overwrite it.
+          if (!result.etag) throw new Error('the create response carried no ETag to save it against');
+          const seeded = applyTemplate(template, { ...result.config, tenant_id: result.tenant_id });
+          const { errors: seedErrors } = validateTenantConfig(seeded);
+          if (seedErrors.length > 0) throw new Error(seedErrors.map((error) => error.message).join('; '));
+          await saveConfig(result.tenant_id, pickSavedSections(seeded), { ifMatch: result.etag });
+          result.config = seeded;
+        } catch (error) {
+          setSeedWarning(
+            `The tenant was created empty: its ${source.type === 'clone' ? 'cloned' : 'template'} content could not be saved (${
+              error instanceof Error ? error.message : 'unknown error'
+            })`
+          );
+        }
+      }
+
       setResponse(result);
       setViewState('success');
     } catch (error) {
@@ -167,6 +248,25 @@ export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onCl
               </Alert>
             )}
 
+            <div>
+              <span className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300">Start From</span>
+              <TenantSourcePicker value={source} onChange={handleSourceChange} />
+            </div>
+
+            {sourceErrors.length > 0 && (
+              <Alert variant="error">
+                <AlertDescription>
+                  <p className="font-medium">The {source.type === 'clone' ? 'cloned' : 'template'} content has errors:</p>
+                  <ul className="list-disc pl-5 mt-1">
+                    {sourceErrors.slice(0, 5).map((message, i) => (
+                      <li key={i}>{message}</li>
+                    ))}
+                  </ul>
+                  {sourceErrors.length > 5 && <p className="mt-1">…and {sourceErrors.length - 5} more</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Input
               label="Organization Name"
               placeholder="Habitat for Humanity"
@@ -284,6 +384,12 @@ export const CreateTenantModal: React.FC<CreateTenantModalProps> = ({ open, onCl
 
         {viewState === 'success' && response && (
           <div className="space-y-4" style={{ maxWidth: '100%', overflow: 'hidden' }}>
+            {seedWarning && (
+              <Alert variant="warning">
+                <AlertDescription>{seedWarning}</AlertDescription>
+              </Alert>
+            )}
+
             <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
               <h4 className="font-semibold text-green-900 dark:text-green-100 mb-3">
                 Tenant Created
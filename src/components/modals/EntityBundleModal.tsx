@@ -0,0 +1,350 @@
+/**
+ * EntityBundleModal Component
+ * Export entities to JSON or CSV files for spreadsheets, and import them back
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  Alert,
+  AlertDescription,
+  AlertTitle,
+  Badge,
+  Button,
+  Select,
+} from '@/components/ui';
+import { DeploymentChangelog } from '@/components/deploy';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  BUNDLE_ENTITY_KINDS,
+  BUNDLE_KIND_LABELS,
+  buildEntityBundle,
+  entityBundleToCsv,
+  entityBundleToJson,
+  parseEntityBundle,
+  previewEntityBundle,
+  type BundleEntities,
+  type BundleEntityKind,
+  type BundleImportMode,
+  type EntityBundleImport,
+} from '@/lib/entityBundles';
+import type { SelectOption } from '@/components/ui';
+
+export interface EntityBundleModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Kind ticked for export, usually the editor the dialog was opened from */
+  initialKind?: BundleEntityKind;
+}
+
+const MODE_OPTIONS: SelectOption[] = [
+  { value: 'merge', label: 'Merge: add and update, keep the rest' },
+  { value: 'replace', label: 'Replace: also remove what the file lacks' },
+];
+
+/** File name suffix of each kind's CSV */
+const CSV_FILE_NAMES: Record<BundleEntityKind, string> = {
+  program: 'programs',
+  form: 'forms',
+  cta: 'ctas',
+  branch: 'branches',
+  showcase: 'showcase',
+};
+
+function download(text: string, fileName: string, type: string): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Entity Bundle Modal
+ *
+ * Export writes the ticked kinds as one JSON bundle or one CSV per kind.
+ * Import reads a bundle or CSV, lists the rows the save schemas reject,
+ * and shows the diff and the validation errors and warnings the import
+ * would add before it is applied. Imports that would add errors are
+ * blocked; the rest land in the editor as one undo step.
+ *
+ * @example
+ * ```tsx
+ * <EntityBundleModal open={open} onClose={() => setOpen(false)} initialKind="form" />
+ * ```
+ */
+export const EntityBundleModal: React.FC<EntityBundleModalProps> = ({ open, onClose, initialKind = 'form' }) => {
+  const { can } = usePermissions();
+  const canEdit = can('edit', 'content');
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const getMergedConfig = useConfigStore((state) => state.config.getMergedConfig);
+  const importEntityBundle = useConfigStore((state) => state.config.importEntityBundle);
+  const programs = useConfigStore((state) => state.programs.programs);
+  const forms = useConfigStore((state) => state.forms.forms);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const branches = useConfigStore((state) => state.branches.branches);
+  const showcaseItems = useConfigStore((state) => state.contentShowcase.content_showcase);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportKinds, setExportKinds] = useState<BundleEntityKind[]>([initialKind]);
+  const [mode, setMode] = useState<BundleImportMode>('merge');
+  const [pending, setPending] = useState<EntityBundleImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const current: BundleEntities = useMemo(
+    () => ({ programs, forms, ctas, branches, showcaseItems }),
+    [programs, forms, ctas, branches, showcaseItems]
+  );
+
+  const preview = useMemo(() => {
+    const config = getMergedConfig();
+    if (!pending || pending.count === 0 || !config) return null;
+    return previewEntityBundle(config, pending, mode);
+  }, [pending, mode, getMergedConfig]);
+
+  const baseName = tenantId ?? 'tenant';
+
+  const toggleKind = (kind: BundleEntityKind) =>
+    setExportKinds((prev) => (prev.includes(kind) ? prev.filter((k) => k !== kind) : [...prev, kind]));
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const kinds = BUNDLE_ENTITY_KINDS.filter((kind) => exportKinds.includes(kind));
+    if (format === 'json') {
+      const bundle = buildEntityBundle(current, kinds, { tenantId: tenantId ?? undefined });
+      download(entityBundleToJson(bundle), `${baseName}-entities.json`, 'application/json');
+    } else {
+      kinds.forEach((kind) =>
+        download(entityBundleToCsv(current, kind), `${baseName}-${CSV_FILE_NAMES[kind]}.csv`, 'text/csv')
+      );
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setPending(parseEntityBundle(await file.text(), file.name, current));
+    } catch (importError) {
+      setPending(null);
+      setError(importError instanceof Error ? importError.message : 'Import failed');
+    }
+  };
+
+  const handleClose = () => {
+    setPending(null);
+    setError(null);
+    setMode('merge');
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    await importEntityBundle(pending, mode);
+    handleClose();
+  };
+
+  const blocked = (preview?.introducedErrors.length ?? 0) > 0;
+
+  return (
+    <Modal open={open} onOpenChange={handleClose}>
+      <ModalContent className="max-w-3xl">
+        <ModalHeader>
+          <ModalTitle>Import / Export Files</ModalTitle>
+          <ModalDescription>
+            Edit programs, forms, CTAs, branches and showcase items in a spreadsheet, then bring them back
+          </ModalDescription>
+        </ModalHeader>
+
+        <div className="space-y-6 max-h-[65vh] overflow-y-auto">
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Export</h3>
+            <div className="flex flex-wrap gap-4">
+              {BUNDLE_ENTITY_KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-2 cursor-pointer text-sm">
+                  <input
+                    type="checkbox"
+                    checked={exportKinds.includes(kind)}
+                    onChange={() => toggleKind(kind)}
+                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  {BUNDLE_KIND_LABELS[kind]}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => handleExport('json')}
+                disabled={exportKinds.length === 0}
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export JSON
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => handleExport('csv')}
+                disabled={exportKinds.length === 0}
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export CSV
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              CSV writes one file per kind, forms one row per field. Lists share a cell separated by "|"; options
+              are value=Label and subfields id=Label, with "?" after optional ones.
+            </p>
+          </section>
+
+          {canEdit && (
+            <section className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Import</h3>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="w-80">
+                  <Select
+                    label="Mode"
+                    options={MODE_OPTIONS}
+                    value={mode}
+                    onValueChange={(value) => setMode(value as BundleImportMode)}
+                  />
+                </div>
+                <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-1" />
+                  Choose file
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json,text/csv,.csv"
+                  className="hidden"
+                  aria-label="Entity bundle file"
+                  onChange={(e) => void handleFile(e)}
+                />
+              </div>
+
+              {error && (
+                <Alert variant="error">
+                  <AlertTitle>Import failed</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {pending && (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{pending.fileName}</span>
+                    {pending.kinds.map((kind) => (
+                      <Badge key={kind} variant="outline" size="sm">
+                        {BUNDLE_KIND_LABELS[kind]}
+                      </Badge>
+                    ))}
+                    <Badge variant="info">{pending.count} to write</Badge>
+                    {pending.errors.length > 0 && <Badge variant="error">{pending.errors.length} row error(s)</Badge>}
+                    {preview && preview.introducedErrors.length > 0 && (
+                      <Badge variant="error">{preview.introducedErrors.length} new error(s)</Badge>
+                    )}
+                    {preview && preview.introducedWarnings.length > 0 && (
+                      <Badge variant="warning">{preview.introducedWarnings.length} new warning(s)</Badge>
+                    )}
+                  </div>
+
+                  {pending.notes.length > 0 && (
+                    <ul className="list-disc pl-5 text-sm text-gray-600 dark:text-gray-400">
+                      {pending.notes.map((note) => (
+                        <li key={note}>{note}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {pending.errors.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                        These entities are left out; the current ones stay as they are.
+                      </p>
+                      <table className="w-full text-sm" aria-label="Row errors">
+                        <thead>
+                          <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 pr-3 w-16">Row</th>
+                            <th className="py-2 pr-3 w-48">Entity</th>
+                            <th className="py-2 pr-3">Problem</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {pending.errors.map((rowError, i) => (
+                            <tr key={i} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                              <td className="py-1 pr-3 text-gray-600 dark:text-gray-400">{rowError.row ?? '—'}</td>
+                              <td className="py-1 pr-3 font-mono text-xs text-gray-900 dark:text-gray-100 break-all">
+                                {rowError.entity}
+                              </td>
+                              <td className="py-1 pr-3 text-red-600 dark:text-red-400">{rowError.message}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {preview && (
+                    <>
+                      {[...preview.introducedErrors, ...preview.introducedWarnings].length > 0 ? (
+                        <ul className="space-y-1 text-sm" aria-label="Validation impact">
+                          {preview.introducedErrors.map((issue, i) => (
+                            <li key={`e-${i}`} className="text-red-600 dark:text-red-400">
+                              {issue.message}
+                            </li>
+                          ))}
+                          {preview.introducedWarnings.map((issue, i) => (
+                            <li key={`w-${i}`} className="text-yellow-700 dark:text-yellow-400">
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          No new validation errors or warnings.
+                        </p>
+                      )}
+                      <DeploymentChangelog changelog={preview.changelog} title="Import diff" />
+                    </>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button variant="outline" onClick={handleClose}>
+            {canEdit ? 'Cancel' : 'Close'}
+          </Button>
+          {canEdit && (
+            <Button
+              onClick={() => void handleImport()}
+              disabled={!preview || blocked}
+              title={blocked ? 'The import would add validation errors' : undefined}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,336 @@
+/**
+ * ImportEntitiesModal Component
+ * Copy programs, forms, CTAs and branches from another tenant into the editor
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  Alert,
+  AlertDescription,
+  Badge,
+  Button,
+  Input,
+  Select,
+} from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { listTenants, loadConfig } from '@/lib/api/config-operations';
+import { migrateConfig } from '@/lib/migrations';
+import {
+  entitiesFromConfig,
+  findCollisions,
+  importKey,
+  planImport,
+  previewImport,
+  resolveImportItems,
+  type CollisionStrategy,
+  type ImportEntities,
+  type ImportEntityKind,
+  type ImportRef,
+} from '@/lib/entityImport';
+import type { SelectOption } from '@/components/ui';
+
+export interface ImportEntitiesModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Kind listed first, usually the editor the dialog was opened from */
+  initialKind?: ImportEntityKind;
+}
+
+const KIND_ORDER: ImportEntityKind[] = ['program', 'form', 'cta', 'branch'];
+
+const KIND_LABELS: Record<ImportEntityKind, { singular: string; plural: string }> = {
+  program: { singular: 'Program', plural: 'Programs' },
+  form: { singular: 'Form', plural: 'Forms' },
+  cta: { singular: 'CTA', plural: 'CTAs' },
+  branch: { singular: 'Branch', plural: 'Branches' },
+};
+
+const KIND_SECTIONS: Record<ImportEntityKind, keyof ImportEntities> = {
+  program: 'programs',
+  form: 'forms',
+  cta: 'ctas',
+  branch: 'branches',
+};
+
+const STRATEGY_OPTIONS: SelectOption[] = [
+  { value: 'rename', label: 'Import as a copy' },
+  { value: 'overwrite', label: 'Overwrite ours' },
+  { value: 'skip', label: 'Keep ours' },
+];
+
+function entityLabel(entities: ImportEntities, ref: ImportRef): string {
+  switch (ref.kind) {
+    case 'program':
+      return entities.programs[ref.id]?.program_name || ref.id;
+    case 'form':
+      return entities.forms[ref.id]?.title || ref.id;
+    case 'cta':
+      return entities.ctas[ref.id]?.label || ref.id;
+    default:
+      return ref.id;
+  }
+}
+
+/**
+ * Import Entities Modal
+ *
+ * Pick a tenant, tick the entities to copy, and review what comes with them
+ * (dependencies), how ID clashes are resolved and what the import does to
+ * validation before it is applied. The import lands in the editor as one undo
+ * step and is saved like any other edit.
+ *
+ * @example
+ * ```tsx
+ * <ImportEntitiesModal open={open} onClose={() => setOpen(false)} initialKind="form" />
+ * ```
+ */
+export const ImportEntitiesModal: React.FC<ImportEntitiesModalProps> = ({ open, onClose, initialKind = 'form' }) => {
+  const { canAccessTenant } = usePermissions();
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const getMergedConfig = useConfigStore((state) => state.config.getMergedConfig);
+  const importEntities = useConfigStore((state) => state.config.importEntities);
+  const programs = useConfigStore((state) => state.programs.programs);
+  const forms = useConfigStore((state) => state.forms.forms);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const branches = useConfigStore((state) => state.branches.branches);
+
+  const [tenantOptions, setTenantOptions] = useState<SelectOption[]>([]);
+  const [sourceTenantId, setSourceTenantId] = useState('');
+  const [source, setSource] = useState<ImportEntities | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [picked, setPicked] = useState<ImportRef[]>([]);
+  const [strategies, setStrategies] = useState<Record<string, CollisionStrategy>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    listTenants()
+      .then((tenants) =>
+        setTenantOptions(
+          tenants
+            .filter((tenant) => tenant.tenantId !== tenantId && canAccessTenant(tenant.tenantId))
+            .map((tenant) => ({ value: tenant.tenantId, label: tenant.tenantName || tenant.tenantId }))
+        )
+      )
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load tenants'));
+  }, [open, tenantId, canAccessTenant]);
+
+  const target: ImportEntities = useMemo(() => ({ programs, forms, ctas, branches }), [programs, forms, ctas, branches]);
+
+  const items = useMemo(() => (source ? resolveImportItems(source, picked) : []), [source, picked]);
+  const collisions = useMemo(() => new Set(findCollisions(items, target).map(importKey)), [items, target]);
+  const preview = useMemo(() => {
+    const config = getMergedConfig();
+    if (!source || items.length === 0 || !config) return null;
+    return previewImport(config, planImport(source, items, target, strategies));
+  }, [source, items, target, strategies, getMergedConfig]);
+
+  const handleSelectTenant = async (id: string) => {
+    setSourceTenantId(id);
+    setSource(null);
+    setPicked([]);
+    setStrategies({});
+    setError(null);
+    setIsLoading(true);
+    try {
+      const { config } = await loadConfig(id);
+      setSource(entitiesFromConfig(migrateConfig(config).config));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tenant');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const togglePicked = (ref: ImportRef) =>
+    setPicked((prev) =>
+      prev.some((p) => importKey(p) === importKey(ref))
+        ? prev.filter((p) => importKey(p) !== importKey(ref))
+        : [...prev, ref]
+    );
+
+  const handleClose = () => {
+    setSourceTenantId('');
+    setSource(null);
+    setPicked([]);
+    setStrategies({});
+    setFilter('');
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    await importEntities(preview.plan, sourceTenantId);
+    handleClose();
+  };
+
+  const kinds = [initialKind, ...KIND_ORDER.filter((kind) => kind !== initialKind)];
+  const query = filter.trim().toLowerCase();
+  const pickedKeys = new Set(picked.map(importKey));
+  const blocked = (preview?.introducedErrors.length ?? 0) > 0;
+
+  return (
+    <Modal open={open} onOpenChange={handleClose}>
+      <ModalContent className="max-w-3xl">
+        <ModalHeader>
+          <ModalTitle>Import from Another Tenant</ModalTitle>
+          <ModalDescription>
+            Copies the entities you pick, plus the programs, forms, CTAs and branches they depend on
+          </ModalDescription>
+        </ModalHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto">
+          {error && (
+            <Alert variant="error">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Select
+            label="Source tenant"
+            placeholder="Choose a tenant"
+            options={tenantOptions}
+            value={sourceTenantId}
+            onValueChange={(id) => void handleSelectTenant(id)}
+            disabled={isLoading}
+          />
+
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          )}
+
+          {source && (
+            <>
+              <Input placeholder="Filter entities" value={filter} onChange={(e) => setFilter(e.target.value)} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {kinds.map((kind) => {
+                  const ids = Object.keys(source[KIND_SECTIONS[kind]])
+                    .filter((id) => `${id} ${entityLabel(source, { kind, id })}`.toLowerCase().includes(query))
+                    .sort();
+                  return (
+                    <section key={kind}>
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                        {KIND_LABELS[kind].plural}
+                      </h3>
+                      {ids.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">None</p>
+                      ) : (
+                        <ul className="space-y-1 max-h-40 overflow-y-auto" aria-label={`Source ${KIND_LABELS[kind].plural}`}>
+                          {ids.map((id) => (
+                            <li key={id}>
+                              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                                <input
+                                  type="checkbox"
+                                  checked={pickedKeys.has(importKey({ kind, id }))}
+                                  onChange={() => togglePicked({ kind, id })}
+                                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                                />
+                                <span className="font-medium text-gray-900 dark:text-gray-100">{id}</span>
+                                {entityLabel(source, { kind, id }) !== id && (
+                                  <span className="text-gray-500 dark:text-gray-400 truncate">
+                                    {entityLabel(source, { kind, id })}
+                                  </span>
+                                )}
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </section>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {preview && (
+            <section className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Will import</h3>
+                <Badge variant="info">{items.length - preview.plan.skipped.length} to write</Badge>
+                {collisions.size > 0 && <Badge variant="warning">{collisions.size} ID clash{collisions.size === 1 ? '' : 'es'}</Badge>}
+                {preview.introducedErrors.length > 0 && (
+                  <Badge variant="error">{preview.introducedErrors.length} new error(s)</Badge>
+                )}
+                {preview.introducedWarnings.length > 0 && (
+                  <Badge variant="warning">{preview.introducedWarnings.length} new warning(s)</Badge>
+                )}
+              </div>
+
+              <ul className="space-y-2 text-sm" aria-label="Entities to import">
+                {items.map((item) => {
+                  const key = importKey(item);
+                  const renamedTo = preview.plan.renamed[key];
+                  return (
+                    <li key={key} className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" size="sm">
+                        {KIND_LABELS[item.kind].singular}
+                      </Badge>
+                      <span className="font-medium text-gray-900 dark:text-gray-100">{item.id}</span>
+                      {renamedTo && <span className="text-gray-600 dark:text-gray-400">→ {renamedTo}</span>}
+                      {item.reason && <span className="text-xs text-gray-500 dark:text-gray-400">{item.reason}</span>}
+                      {collisions.has(key) && (
+                        <div className="w-48 ml-auto">
+                          <Select
+                            options={STRATEGY_OPTIONS}
+                            value={strategies[key] ?? 'rename'}
+                            onValueChange={(value) =>
+                              setStrategies((prev) => ({ ...prev, [key]: value as CollisionStrategy }))
+                            }
+                          />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {[...preview.introducedErrors, ...preview.introducedWarnings].length > 0 ? (
+                <ul className="space-y-1 text-sm" aria-label="Validation impact">
+                  {preview.introducedErrors.map((issue, i) => (
+                    <li key={`e-${i}`} className="text-red-600 dark:text-red-400">
+                      {issue.message}
+                    </li>
+                  ))}
+                  {preview.introducedWarnings.map((issue, i) => (
+                    <li key={`w-${i}`} className="text-yellow-700 dark:text-yellow-400">
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600 dark:text-gray-400">No new validation errors or warnings.</p>
+              )}
+            </section>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => void handleImport()}
+            disabled={!preview || blocked}
+            title={blocked ? 'The import would add validation errors' : undefined}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
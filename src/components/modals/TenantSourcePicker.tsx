@@ -0,0 +1,236 @@
+/**
+ * TenantSourcePicker Component
+ * What a new tenant starts with: nothing, a template, or a copy of a tenant
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Trash2, Upload, BookmarkPlus } from 'lucide-react';
+import { Button, Select } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { listTenants } from '@/lib/api/config-operations';
+import {
+  deleteTemplate,
+  listTemplates,
+  parseTemplateJson,
+  saveTemplate,
+  templateFromConfig,
+  type TenantTemplate,
+} from '@/lib/templates';
+import type { SelectOption } from '@/components/ui';
+
+export type TenantSource =
+  | { type: 'empty' }
+  | { type: 'template'; template: TenantTemplate }
+  | { type: 'clone'; tenantId: string };
+
+export interface TenantSourcePickerProps {
+  value: TenantSource;
+  onChange: (source: TenantSource) => void;
+  disabled?: boolean;
+}
+
+type Mode = TenantSource['type'];
+
+const MODES: { value: Mode; label: string }[] = [
+  { value: 'empty', label: 'Empty' },
+  { value: 'template', label: 'Template' },
+  { value: 'clone', label: 'Clone a tenant' },
+];
+
+/**
+ * Tenant Source Picker
+ *
+ * Template mode lists the template library (this browser) and can add to
+ * it: save the loaded tenant as a template, or import one authored as JSON.
+ * Clone mode lists the tenants the user can access.
+ *
+ * @example
+ * ```tsx
+ * const [source, setSource] = useState<TenantSource>({ type: 'empty' });
+ * <TenantSourcePicker value={source} onChange={setSource} />
+ * ```
+ */
+export const TenantSourcePicker: React.FC<TenantSourcePickerProps> = ({ value, onChange, disabled }) => {
+  const { canAccessTenant } = usePermissions();
+  const loadedTenantId = useConfigStore((state) => state.config.tenantId);
+  const getMergedConfig = useConfigStore((state) => state.config.getMergedConfig);
+
+  const [mode, setMode] = useState<Mode>(value.type);
+  const [templates, setTemplates] = useState<TenantTemplate[]>([]);
+  const [tenantOptions, setTenantOptions] = useState<SelectOption[]>([]);
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Lists load on first use of their mode, so an empty tenant needs no requests
+  useEffect(() => {
+    if (mode !== 'template') return;
+    listTemplates()
+      .then(setTemplates)
+      .catch((error) => setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load templates' }));
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode !== 'clone') return;
+    listTenants()
+      .then((tenants) =>
+        setTenantOptions(
+          tenants
+            .filter((tenant) => canAccessTenant(tenant.tenantId))
+            .map((tenant) => ({ value: tenant.tenantId, label: tenant.tenantName || tenant.tenantId }))
+        )
+      )
+      .catch((error) => setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load tenants' }));
+  }, [mode, canAccessTenant]);
+
+  const selectMode = (next: Mode) => {
+    setMode(next);
+    setMessage(null);
+    if (next === 'empty') onChange({ type: 'empty' });
+  };
+
+  const addTemplate = async (template: TenantTemplate, note: string) => {
+    await saveTemplate(template);
+    setTemplates(await listTemplates());
+    onChange({ type: 'template', template });
+    setMessage({ type: 'info', text: note });
+  };
+
+  const handleSaveLoaded = async () => {
+    const config = getMergedConfig();
+    if (!config) return;
+    const name = `${config.chat_title || config.tenant_id} template`;
+    await addTemplate(templateFromConfig(config, { name }), `Saved "${name}" from ${config.tenant_id}`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { template, ignored } = parseTemplateJson(await file.text(), file.name.replace(/\.json$/i, ''));
+      await addTemplate(
+        template,
+        ignored.length > 0 ? `Imported "${template.name}"; ignored: ${ignored.join(', ')}` : `Imported "${template.name}"`
+      );
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
+  const handleExport = (template: TenantTemplate) => {
+    const blob = new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${template.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (template: TenantTemplate) => {
+    await deleteTemplate(template.id);
+    setTemplates(await listTemplates());
+    onChange({ type: 'empty' });
+  };
+
+  const selectedTemplate = value.type === 'template' ? value.template : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2" role="group" aria-label="Start from">
+        {MODES.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={mode === option.value ? 'primary' : 'outline'}
+            aria-pressed={mode === option.value}
+            onClick={() => selectMode(option.value)}
+            disabled={disabled}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'template' && (
+        <div className="space-y-2">
+          <Select
+            label="Template"
+            placeholder={templates.length === 0 ? 'No templates yet' : 'Choose a template'}
+            options={templates.map((template) => ({ value: template.id, label: template.name }))}
+            value={selectedTemplate?.id ?? ''}
+            onValueChange={(id) => {
+              const template = templates.find((t) => t.id === id);
+              if (template) onChange({ type: 'template', template });
+            }}
+            disabled={disabled || templates.length === 0}
+          />
+          {selectedTemplate?.description && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">{selectedTemplate.description}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {loadedTenantId && (
+              <Button type="button" size="sm" variant="outline" onClick={() => void handleSaveLoaded()} disabled={disabled}>
+                <BookmarkPlus className="w-4 h-4 mr-1" />
+                Save {loadedTenantId} as template
+              </Button>
+            )}
+            <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              aria-label="Template JSON file"
+              onChange={(e) => void handleImport(e)}
+            />
+            {selectedTemplate && (
+              <>
+                <Button type="button" size="sm" variant="ghost" onClick={() => handleExport(selectedTemplate)} disabled={disabled}>
+                  <Download className="w-4 h-4 mr-1" />
+                  Export
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => void handleDelete(selectedTemplate)} disabled={disabled}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'clone' && (
+        <Select
+          label="Tenant to clone"
+          placeholder="Choose a tenant"
+          options={tenantOptions}
+          value={value.type === 'clone' ? value.tenantId : ''}
+          onValueChange={(tenantId) => onChange({ type: 'clone', tenantId })}
+          disabled={disabled || tenantOptions.length === 0}
+        />
+      )}
+
+      {mode !== 'empty' && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Copies programs, forms, CTAs, branches, action chips, CTA settings, Bedrock instructions and branding. IDs
+          containing the source tenant ID are renamed; channels, AWS settings and form notification recipients are not
+          copied.
+        </p>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { CreateTenantModal } from '../CreateTenantModal';
 import { configApiClient } from '@/lib/api/client';
+import { loadConfig, saveConfig } from '@/lib/api/config-operations';
+import type { TenantSource } from '../TenantSourcePicker';
 
 vi.mock('@/lib/api/client', () => ({
   configApiClient: {
@@ -10,6 +12,25 @@ vi.mock('@/lib/api/client', () => ({
   },
 }));
 
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+// Stands in for the picker: one button that picks an empty template
+vi.mock('../TenantSourcePicker', () => ({
+  TenantSourcePicker: ({ onChange }: { onChange: (source: TenantSource) => void }) => (
+    <button
+      type="button"
+      onClick={() =>
+        onChange({ type: 'template', template: { id: 't1', name: 'Starter', createdAt: 0, content: {} } })
+      }
+    >
+      Use template
+    </button>
+  ),
+}));
+
 describe('CreateTenantModal', () => {
   it('renders form fields when open', () => {
     render(<CreateTenantModal open={true} onClose={vi.fn()} />);
@@ -145,6 +166,31 @@ describe('CreateTenantModal', () => {
     expect(onCreated).toHaveBeenCalledWith('new-tenant');
   });
 
+  it('does not seed a template when the create response has no ETag', async () => {
+    const user = userEvent.setup();
+    vi.mocked(configApiClient.createTenant).mockResolvedValue({
+      success: true,
+      tenant_id: 'seeded-tenant',
+      tenant_hash: 'def456',
+      embed_code: '<script src="..."></script>',
+      config: {},
+    });
+
+    render(<CreateTenantModal open={true} onClose={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: /use template/i }));
+    await user.type(screen.getByLabelText(/organization name/i), 'Seeded Org');
+    await user.type(screen.getByLabelText(/tenant id/i), 'seeded-tenant');
+    await user.click(screen.getByRole('button', { name: /^create tenant$/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/created empty.*no ETag/i)).toBeInTheDocument();
+    });
+    // A re-loaded ETag could belong to a later write, which the seed would overwrite
+    expect(loadConfig).not.toHaveBeenCalled();
+    expect(saveConfig).not.toHaveBeenCalled();
+  });
+
   it('copies embed code to clipboard', async () => {
     const user = userEvent.setup();
     const writeTextMock = vi.fn().mockResolvedValue(undefined);
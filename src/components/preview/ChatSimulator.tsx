@@ -0,0 +1,286 @@
+/**
+ * ChatSimulator Component
+ * Interactive widget preview driven by the in-memory config
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bot, HelpCircle, MessageSquareText, Plus, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { Badge, Button, Input } from '@/components/ui';
+import {
+  startConversation,
+  simulate,
+  createScriptedStub,
+  type ScriptedReply,
+  type SimulatorButton,
+  type SimulatorEvent,
+  type SimulatorMessage,
+} from '@/lib/simulator';
+import { cn } from '@/lib/utils/cn';
+import type { TenantConfig } from '@/types/config';
+
+export interface ChatSimulatorProps {
+  config: TenantConfig;
+  className?: string;
+}
+
+const MessageBubble: React.FC<{
+  message: SimulatorMessage;
+  accentColor: string;
+  onClick: (button: SimulatorButton) => void;
+  disabled: boolean;
+}> = ({ message, accentColor, onClick, disabled }) => {
+  if (message.role === 'system') {
+    return (
+      <p className="text-center text-xs italic text-gray-500 dark:text-gray-400" data-testid="simulator-note">
+        {message.text}
+      </p>
+    );
+  }
+
+  const isUser = message.role === 'user';
+  return (
+    <div className={cn('flex flex-col gap-2', isUser ? 'items-end' : 'items-start')}>
+      {message.text && (
+        <div
+          className={cn(
+            'max-w-[85%] whitespace-pre-line rounded-2xl px-3 py-2 text-sm',
+            isUser ? 'text-white' : 'bg-gray-100 text-gray-900 dark:bg-gray-800 dark:text-gray-100'
+          )}
+          style={isUser ? { backgroundColor: accentColor } : undefined}
+        >
+          {message.text}
+          {message.stubbed && (
+            <Badge variant="outline" size="sm" className="ml-2 align-middle">
+              stub
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {message.showcase && (
+        <div className="max-w-[85%] rounded-xl border border-gray-200 p-3 dark:border-gray-700">
+          <div className="text-sm font-semibold text-gray-900 dark:text-gray-100">{message.showcase.name}</div>
+          {message.showcase.description && (
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">{message.showcase.description}</p>
+          )}
+          {message.showcase.highlights && message.showcase.highlights.length > 0 && (
+            <ul className="mt-1 list-disc pl-4 text-xs text-gray-600 dark:text-gray-400">
+              {message.showcase.highlights.map((highlight) => (
+                <li key={highlight}>{highlight}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message.buttons && message.buttons.length > 0 && (
+        <div className="flex max-w-[85%] flex-wrap gap-2">
+          {message.buttons.map((button) => (
+            <button
+              key={`${button.kind}-${button.id}`}
+              type="button"
+              disabled={disabled}
+              onClick={() => onClick(button)}
+              className={cn(
+                'rounded-full border px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50',
+                button.primary ? 'text-white' : 'bg-white text-gray-800 hover:bg-gray-50 dark:bg-gray-900 dark:text-gray-200'
+              )}
+              style={button.primary ? { backgroundColor: accentColor, borderColor: accentColor } : { borderColor: accentColor }}
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Chat Simulator
+ *
+ * Renders the welcome message, callout, action chips, and quick help from
+ * the config, and follows clicks through branches, showcase items, CTAs and
+ * forms. Free-form questions get scripted stub replies instead of Bedrock.
+ * Each turn reads the latest config, so edits apply without restarting.
+ *
+ * @example
+ * ```tsx
+ * <ChatSimulator config={getMergedConfig()} />
+ * ```
+ */
+export const ChatSimulator: React.FC<ChatSimulatorProps> = ({ config, className = '' }) => {
+  const [state, setState] = useState(() => startConversation(config));
+  const [input, setInput] = useState('');
+  const [script, setScript] = useState<ScriptedReply[]>([]);
+  const [showScript, setShowScript] = useState(false);
+  const [showQuickHelp, setShowQuickHelp] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const bedrockStub = useMemo(() => createScriptedStub(script), [script]);
+  const accentColor = config.branding?.primary_color || '#16a34a';
+  const callout = config.features?.callout;
+  const calloutText = callout?.enabled ? callout.text || config.callout_text : undefined;
+  const quickHelp = config.quick_help?.enabled ? config.quick_help.prompts.filter(Boolean) : [];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ block: 'end' });
+  }, [state.messages.length]);
+
+  const dispatch = (event: SimulatorEvent) => {
+    setState((prev) => simulate(config, prev, event, { bedrockStub }));
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() && !state.activeForm) return;
+    dispatch({ type: 'send', text: input });
+    setInput('');
+  };
+
+  const restart = () => {
+    setState(startConversation(config));
+    setInput('');
+  };
+
+  const updateRule = (index: number, patch: Partial<ScriptedReply>) => {
+    setScript((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  return (
+    <div className={cn('grid grid-cols-1 gap-6 lg:grid-cols-3', className)}>
+      {/* Widget */}
+      <div className="lg:col-span-2">
+        {calloutText && (
+          <div className="mb-2 ml-auto max-w-xs rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm shadow-sm dark:border-gray-700 dark:bg-gray-900">
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Callout</span>
+            <p className="text-gray-800 dark:text-gray-200">{calloutText}</p>
+          </div>
+        )}
+
+        <div className="flex h-[600px] flex-col overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          <div className="flex items-center justify-between px-4 py-3 text-white" style={{ backgroundColor: accentColor }}>
+            <div className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              <span className="font-semibold">{config.chat_title || 'Chat'}</span>
+            </div>
+            <button
+              type="button"
+              onClick={restart}
+              className="flex items-center gap-1 text-xs opacity-90 hover:opacity-100"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Restart
+            </button>
+          </div>
+
+          <div className="flex-1 space-y-3 overflow-y-auto p-4" data-testid="simulator-messages">
+            {state.messages.map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                accentColor={accentColor}
+                onClick={(button) => dispatch({ type: 'click', button })}
+                disabled={state.ended}
+              />
+            ))}
+            <div ref={bottomRef} />
+          </div>
+
+          {showQuickHelp && quickHelp.length > 0 && (
+            <div className="border-t border-gray-200 p-2 dark:border-gray-700">
+              {quickHelp.map((prompt) => (
+                <button
+                  key={prompt}
+                  type="button"
+                  disabled={state.ended}
+                  onClick={() => {
+                    setShowQuickHelp(false);
+                    dispatch({ type: 'send', text: prompt });
+                  }}
+                  className="block w-full rounded px-2 py-1 text-left text-sm text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  {prompt}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSend} className="flex items-center gap-2 border-t border-gray-200 p-2 dark:border-gray-700">
+            {quickHelp.length > 0 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowQuickHelp((open) => !open)}
+                aria-label="Quick help"
+              >
+                <HelpCircle className="h-4 w-4" />
+              </Button>
+            )}
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              disabled={state.ended}
+              placeholder={state.ended ? 'Conversation ended' : state.activeForm ? 'Type your answer…' : 'Type a message…'}
+              aria-label="Message"
+              className="flex-1 rounded-full border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-800"
+            />
+            <Button type="submit" size="sm" disabled={state.ended} aria-label="Send">
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      </div>
+
+      {/* Scripted Bedrock replies */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100">
+            <MessageSquareText className="h-4 w-4" />
+            Scripted AI replies
+          </h3>
+          <Button variant="ghost" size="sm" onClick={() => setShowScript((open) => !open)}>
+            {showScript ? 'Hide' : `Edit (${script.length})`}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          The preview never calls Bedrock. Questions containing a phrase below get its reply;
+          anything else gets a placeholder. Routing to the fallback branch is unchanged.
+        </p>
+        {showScript && (
+          <div className="space-y-3">
+            {script.map((rule, index) => (
+              <div key={index} className="space-y-2 rounded-lg border border-gray-200 p-2 dark:border-gray-700">
+                <Input
+                  label="When the question contains"
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value })}
+                  placeholder="e.g., volunteer"
+                />
+                <Input
+                  label="Reply with"
+                  value={rule.reply}
+                  onChange={(e) => updateRule(index, { reply: e.target.value })}
+                  placeholder="e.g., We'd love your help! Here's how to get started."
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setScript((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setScript((prev) => [...prev, { match: '', reply: '' }])}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add reply
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
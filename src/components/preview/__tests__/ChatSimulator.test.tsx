@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatSimulator } from '../ChatSimulator';
+import type { TenantConfig } from '@/types/config';
+
+const config = {
+  tenant_id: 'TEST001',
+  chat_title: 'Helper',
+  welcome_message: 'Welcome!',
+  branding: { primary_color: '#123456', font_family: 'inter' },
+  features: { callout: { enabled: true, text: 'Need help?', auto_dismiss: false } },
+  quick_help: { enabled: true, prompts: ['What are your hours?'] },
+  action_chips: {
+    enabled: true,
+    default_chips: {
+      volunteer: { label: 'Volunteer', value: 'How can I volunteer?', target_branch: 'volunteer_branch' },
+    },
+  },
+  cta_definitions: {
+    learn: { label: 'Learn more', action: 'show_info', prompt: 'All the details.', type: 'info_request' },
+  },
+  conversation_branches: {
+    volunteer_branch: { available_ctas: { primary: 'learn', secondary: [] } },
+  },
+  conversational_forms: {},
+} as unknown as TenantConfig;
+
+describe('ChatSimulator', () => {
+  it('renders the welcome, callout, and chips, then follows a chip to its branch CTAs', async () => {
+    const user = userEvent.setup();
+    render(<ChatSimulator config={config} />);
+
+    expect(screen.getByText('Welcome!')).toBeInTheDocument();
+    expect(screen.getByText('Need help?')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Volunteer' }));
+    await user.click(screen.getByRole('button', { name: 'Learn more' }));
+
+    expect(screen.getByText('All the details.')).toBeInTheDocument();
+  });
+
+  it('answers typed and quick-help questions with scripted replies', async () => {
+    const user = userEvent.setup();
+    render(<ChatSimulator config={config} />);
+
+    await user.click(screen.getByRole('button', { name: /Edit \(0\)/ }));
+    await user.click(screen.getByRole('button', { name: /Add reply/ }));
+    await user.type(screen.getByLabelText('When the question contains'), 'hours');
+    await user.type(screen.getByLabelText('Reply with'), 'Open 9 to 5.');
+
+    await user.click(screen.getByRole('button', { name: 'Quick help' }));
+    await user.click(screen.getByRole('button', { name: 'What are your hours?' }));
+    expect(screen.getByText('Open 9 to 5.')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Message'), 'Where are you?{enter}');
+    expect(screen.getByText(/would answer "Where are you\?"/)).toBeInTheDocument();
+  });
+
+  it('restarts the conversation', async () => {
+    const user = userEvent.setup();
+    render(<ChatSimulator config={config} />);
+
+    await user.click(screen.getByRole('button', { name: 'Volunteer' }));
+    expect(screen.getByText('Learn more')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /Restart/ }));
+    expect(screen.queryByText('Learn more')).not.toBeInTheDocument();
+  });
+});
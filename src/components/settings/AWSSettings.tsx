@@ -6,6 +6,7 @@
 import React from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Input, Badge } from '@/components/ui';
 import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { AWSConfig, TenantConfig } from '@/types/config';
 import { Shield } from 'lucide-react';
 
@@ -26,6 +27,8 @@ import { Shield } from 'lucide-react';
  */
 export const AWSSettings: React.FC = () => {
   const baseConfig = useConfigStore((state) => state.config.baseConfig);
+  const { can } = usePermissions();
+  const readOnly = !can('edit', 'aws');
 
   // Update aws field
   const updateAWS = (field: string, value: unknown) => {
@@ -74,6 +77,7 @@ export const AWSSettings: React.FC = () => {
           label="Bedrock Model ID"
           value={(baseConfig as TenantConfig & { model_id?: string })?.model_id || ''}
           onChange={(e) => updateBaseConfig('model_id', e.target.value)}
+          disabled={readOnly}
           placeholder="us.anthropic.claude-haiku-4-5-20251001-v1:0"
           helperText="Override the default Bedrock model for this tenant. Leave empty to use system default."
         />
@@ -83,6 +87,7 @@ export const AWSSettings: React.FC = () => {
           label="Knowledge Base ID"
           value={aws.knowledge_base_id || ''}
           onChange={(e) => updateAWS('knowledge_base_id', e.target.value)}
+          disabled={readOnly}
           placeholder="e.g., ABCDEFGHIJ"
           helperText="AWS Bedrock Knowledge Base identifier"
         />
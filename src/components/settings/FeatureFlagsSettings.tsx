@@ -112,6 +112,17 @@ export const FeatureFlagsSettings: React.FC = () => {
           ))}
         </div>
 
+        {/* Enabling scheduling without a block fails tenant schema invariant 1 */}
+        {featureFlags.scheduling_enabled && !baseConfig?.scheduling && (
+          <div className="mt-4 rounded-md bg-amber-50 border border-amber-200 dark:bg-amber-950/30 dark:border-amber-800 p-3">
+            <p className="text-xs text-amber-800 dark:text-amber-300">
+              <span className="font-semibold">Scheduling needs configuration:</span> add at least
+              one appointment type on the Scheduling page before saving, or this config will fail
+              validation.
+            </p>
+          </div>
+        )}
+
         {/* Contextual note about flag interactions */}
         <div className="mt-4 rounded-md bg-blue-50 border border-blue-200 dark:bg-blue-950/30 dark:border-blue-800 p-3">
           <p className="text-xs text-blue-800 dark:text-blue-300">
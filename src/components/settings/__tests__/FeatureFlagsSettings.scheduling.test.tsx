@@ -73,4 +73,19 @@ describe('FeatureFlagsSettings — scheduling_enabled flag', () => {
     });
     expect(draft.config.isDirty).toBe(true);
   });
+
+  it('warns when scheduling is enabled without a scheduling block (invariant 1)', () => {
+    mockBaseConfig = { feature_flags: { scheduling_enabled: true } };
+    render(<FeatureFlagsSettings />);
+    expect(screen.getByText(/Scheduling needs configuration/)).toBeInTheDocument();
+  });
+
+  it('does not warn once the scheduling block exists', () => {
+    mockBaseConfig = {
+      feature_flags: { scheduling_enabled: true },
+      scheduling: { appointment_types: {} },
+    };
+    render(<FeatureFlagsSettings />);
+    expect(screen.queryByText(/Scheduling needs configuration/)).not.toBeInTheDocument();
+  });
 });
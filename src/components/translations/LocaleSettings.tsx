@@ -0,0 +1,73 @@
+/**
+ * LocaleSettings Component
+ * The tenant's default locale and the locales offered to visitors
+ */
+
+import React from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Select } from '@/components/ui';
+import { StringListInput } from '@/components/editors/SchedulingEditor/StringListInput';
+import { localizationConfigSchema } from '@/lib/schemas';
+import type { LocalizationConfig } from '@/types/config';
+import { updateLocalization } from './localizationStore';
+
+export interface LocaleSettingsProps {
+  localization: LocalizationConfig;
+  disabled?: boolean;
+}
+
+/**
+ * Locale Settings
+ *
+ * Removing a locale keeps its translations, so enabling it again restores
+ * them; Remove unused translations on the grid clears them for good.
+ *
+ * @example
+ * ```tsx
+ * <LocaleSettings localization={localization} />
+ * ```
+ */
+export const LocaleSettings: React.FC<LocaleSettingsProps> = ({ localization, disabled }) => {
+  const result = localizationConfigSchema.safeParse(localization);
+  const issue = result.success ? undefined : result.error.issues[0]?.message;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Locales</CardTitle>
+        <CardDescription>
+          The config's own text is the default locale's; every other enabled locale needs a
+          translation of each string
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={disabled} className="grid grid-cols-2 gap-4">
+          <StringListInput
+            id="localization-enabled-locales"
+            label="Enabled locales"
+            values={localization.enabled_locales}
+            onChange={(locales) =>
+              updateLocalization((draft) => {
+                draft.enabled_locales = locales;
+              })
+            }
+            placeholder="e.g., es or fr-CA"
+            helperText="BCP-47 language tags"
+            error={issue}
+          />
+          <Select
+            label="Default locale"
+            value={localization.default_locale}
+            onValueChange={(locale) =>
+              updateLocalization((draft) => {
+                draft.default_locale = locale;
+              })
+            }
+            options={localization.enabled_locales.map((locale) => ({ value: locale, label: locale }))}
+            helperText="The language the rest of the config is written in"
+            disabled={disabled}
+          />
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,163 @@
+/**
+ * TranslationBundleActions Component
+ * Export translation bundles for translators and import their work
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle, Button } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import {
+  applyTranslationImport,
+  buildTranslationBundle,
+  parseTranslationBundle,
+  translationBundleToCsv,
+  translationBundleToJson,
+  type TranslatableString,
+  type TranslationImport,
+} from '@/lib/localization';
+import type { LocalizationConfig } from '@/types/config';
+import { updateLocalization } from './localizationStore';
+
+export interface TranslationBundleActionsProps {
+  strings: TranslatableString[];
+  localization: LocalizationConfig;
+  disabled?: boolean;
+}
+
+function download(text: string, fileName: string, type: string): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Translation Bundle Actions
+ *
+ * Export writes every string with the current translations of each enabled
+ * locale, as JSON or CSV. Import reads a returned bundle, lists what it
+ * skipped, and writes the translations once confirmed; blank cells never
+ * clear a translation.
+ *
+ * @example
+ * ```tsx
+ * <TranslationBundleActions strings={strings} localization={localization} />
+ * ```
+ */
+export const TranslationBundleActions: React.FC<TranslationBundleActionsProps> = ({
+  strings,
+  localization,
+  disabled,
+}) => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const addToast = useConfigStore((state) => state.ui.addToast);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ fileName: string; result: TranslationImport } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseName = `${tenantId ?? 'tenant'}-translations`;
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const bundle = buildTranslationBundle(strings, localization, { tenantId: tenantId ?? undefined });
+    if (format === 'json') {
+      download(translationBundleToJson(bundle), `${baseName}.json`, 'application/json');
+    } else {
+      download(translationBundleToCsv(bundle), `${baseName}.csv`, 'text/csv');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const result = parseTranslationBundle(await file.text(), file.name, strings, localization);
+      setPending({ fileName: file.name, result });
+    } catch (importError) {
+      setPending(null);
+      setError(importError instanceof Error ? importError.message : 'Import failed');
+    }
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    const { result } = pending;
+    updateLocalization((draft) => {
+      draft.translations = applyTranslationImport(draft, result).translations;
+    });
+    addToast({ type: 'success', message: `Imported ${result.count} translation(s) from ${pending.fileName}` });
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => handleExport('json')}>
+          <Download className="w-4 h-4 mr-1" />
+          Export JSON
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => handleExport('csv')}>
+          <Download className="w-4 h-4 mr-1" />
+          Export CSV
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Import bundle
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json,text/csv,.csv"
+          className="hidden"
+          aria-label="Translation bundle file"
+          onChange={(e) => void handleImport(e)}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="error">
+          <AlertTitle>Import failed</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {pending && (
+        <Alert variant={pending.result.issues.length > 0 ? 'warning' : 'info'}>
+          <AlertTitle>
+            {pending.fileName}: {pending.result.count} translation(s) to import
+          </AlertTitle>
+          <AlertDescription>
+            {pending.result.issues.length > 0 && (
+              <ul className="list-disc pl-5 mb-2">
+                {pending.result.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2 mt-2">
+              <Button type="button" size="sm" onClick={handleApply} disabled={pending.result.count === 0}>
+                Import
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
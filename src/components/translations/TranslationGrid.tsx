@@ -0,0 +1,204 @@
+/**
+ * TranslationGrid Component
+ * Every user-facing string next to its translation in each enabled locale
+ */
+
+import React, { useState } from 'react';
+import { Search, Trash2 } from 'lucide-react';
+import { Badge, Button, Input } from '@/components/ui';
+import {
+  missingTranslations,
+  translationLocales,
+  unusedTranslations,
+  type TranslatableString,
+} from '@/lib/localization';
+import type { LocalizationConfig } from '@/types/config';
+import { setTranslation, updateLocalization } from './localizationStore';
+
+export interface TranslationGridProps {
+  strings: TranslatableString[];
+  localization: LocalizationConfig;
+  disabled?: boolean;
+}
+
+interface TranslationCellProps {
+  locale: string;
+  entry: TranslatableString;
+  value: string;
+  disabled?: boolean;
+}
+
+/**
+ * One translation. Edits are kept locally and written on blur, so typing
+ * doesn't rebuild the grid on every keystroke.
+ */
+const TranslationCell: React.FC<TranslationCellProps> = ({ locale, entry, value, disabled }) => {
+  const [draft, setDraft] = useState(value);
+  const missing = !value.trim();
+
+  return (
+    <textarea
+      aria-label={`${entry.key} (${locale})`}
+      value={draft}
+      rows={Math.min(4, Math.max(1, Math.ceil(entry.source.length / 48)))}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) setTranslation(locale, entry.key, draft);
+      }}
+      disabled={disabled}
+      placeholder="Untranslated"
+      className={`w-full rounded-md border px-2 py-1 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 ${
+        missing
+          ? 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950/30'
+          : 'border-gray-300 dark:border-gray-700'
+      }`}
+    />
+  );
+};
+
+/**
+ * Translation Grid
+ *
+ * Rows are grouped by where the string appears (welcome, each chip, form,
+ * CTA, showcase item, Messenger). Untranslated cells are highlighted, and
+ * the badges above count what each locale is missing.
+ *
+ * @example
+ * ```tsx
+ * <TranslationGrid strings={strings} localization={localization} />
+ * ```
+ */
+export const TranslationGrid: React.FC<TranslationGridProps> = ({ strings, localization, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [missingOnly, setMissingOnly] = useState(false);
+  const locales = translationLocales(localization);
+
+  const missingByLocale = Object.fromEntries(
+    locales.map((locale) => [locale, new Set(missingTranslations(strings, localization, locale))])
+  );
+  const unusedCount = locales.reduce(
+    (total, locale) => total + unusedTranslations(strings, localization, locale).length,
+    0
+  );
+
+  const needle = query.trim().toLowerCase();
+  const rows = strings.filter((entry) => {
+    if (missingOnly && !locales.some((locale) => missingByLocale[locale].has(entry.key))) return false;
+    if (!needle) return true;
+    const translated = locales.map((locale) => localization.translations?.[locale]?.[entry.key] ?? '');
+    return [entry.key, entry.group, entry.context, entry.source, ...translated].some((text) =>
+      text.toLowerCase().includes(needle)
+    );
+  });
+
+  const removeUnused = () =>
+    updateLocalization((draft) => {
+      locales.forEach((locale) => {
+        unusedTranslations(strings, draft, locale).forEach((key) => {
+          delete draft.translations?.[locale]?.[key];
+        });
+      });
+    });
+
+  if (locales.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Enable a locale other than "{localization.default_locale}" to start translating.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {locales.map((locale) => {
+          const missing = missingByLocale[locale].size;
+          return (
+            <Badge key={locale} variant={missing > 0 ? 'warning' : 'success'}>
+              {locale}: {strings.length - missing}/{strings.length} translated
+            </Badge>
+          );
+        })}
+        {unusedCount > 0 && (
+          <Button type="button" size="sm" variant="ghost" onClick={removeUnused} disabled={disabled}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Remove unused translations ({unusedCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative w-72">
+          <Search className="absolute left-2 top-2.5 w-4 h-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search strings"
+            aria-label="Search strings"
+            className="pl-8"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={missingOnly} onChange={(e) => setMissingOnly(e.target.checked)} />
+          Missing translations only
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-3 w-48">String</th>
+              <th className="py-2 pr-3">{localization.default_locale} (default)</th>
+              {locales.map((locale) => (
+                <th key={locale} className="py-2 pr-3">
+                  {locale}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((entry, index) => (
+              <React.Fragment key={`${entry.key}#${index}`}>
+                {entry.group !== rows[index - 1]?.group && (
+                  <tr>
+                    <th
+                      colSpan={locales.length + 2}
+                      className="pt-4 pb-1 text-left text-sm font-semibold text-gray-900 dark:text-gray-100"
+                    >
+                      {entry.group}
+                    </th>
+                  </tr>
+                )}
+                <tr className="border-b border-gray-100 dark:border-gray-800 align-top">
+                  <td className="py-2 pr-3">
+                    <div className="text-gray-900 dark:text-gray-100">{entry.context}</div>
+                    <div className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">{entry.key}</div>
+                  </td>
+                  <td className="py-2 pr-3 whitespace-pre-wrap text-gray-700 dark:text-gray-300">{entry.source}</td>
+                  {locales.map((locale) => {
+                    const value = localization.translations?.[locale]?.[entry.key] ?? '';
+                    return (
+                      <td key={locale} className="py-2 pr-3 min-w-56">
+                        <TranslationCell
+                          key={value}
+                          locale={locale}
+                          entry={entry}
+                          value={value}
+                          disabled={disabled}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">No strings match.</p>
+        )}
+      </div>
+    </div>
+  );
+};
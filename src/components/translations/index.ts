@@ -0,0 +1,17 @@
+/**
+ * Translation Components
+ */
+
+export { LocaleSettings } from './LocaleSettings';
+export { TranslationGrid } from './TranslationGrid';
+export { TranslationBundleActions } from './TranslationBundleActions';
+export {
+  createDefaultLocalizationConfig,
+  updateLocalization,
+  setTranslation,
+  useLocalizableConfig,
+} from './localizationStore';
+
+export type { LocaleSettingsProps } from './LocaleSettings';
+export type { TranslationGridProps } from './TranslationGrid';
+export type { TranslationBundleActionsProps } from './TranslationBundleActions';
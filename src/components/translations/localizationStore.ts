@@ -0,0 +1,79 @@
+/**
+ * Localization store helpers
+ *
+ * The localization block lives on baseConfig (like scheduling and the
+ * settings sections), so the Translations page writes through
+ * updateLocalization instead of a dedicated slice.
+ */
+
+import { useMemo } from 'react';
+import { useConfigStore } from '@/store';
+import type { LocalizationConfig } from '@/types/config';
+import type { LocalizableConfig } from '@/lib/localization';
+
+/**
+ * Single-locale block created on first edit. The default locale follows
+ * scheduling's, when the tenant has one.
+ */
+export function createDefaultLocalizationConfig(defaultLocale = 'en'): LocalizationConfig {
+  return {
+    default_locale: defaultLocale,
+    enabled_locales: [defaultLocale],
+    translations: {},
+  };
+}
+
+/**
+ * Mutate the localization block in place (Immer draft), creating it if
+ * absent, and mark the config dirty.
+ */
+export function updateLocalization(mutator: (localization: LocalizationConfig) => void): void {
+  useConfigStore.setState((state) => {
+    if (!state.config.baseConfig) return;
+    if (!state.config.baseConfig.localization) {
+      state.config.baseConfig.localization = createDefaultLocalizationConfig(
+        state.config.baseConfig.scheduling?.default_locale
+      );
+    }
+    mutator(state.config.baseConfig.localization);
+    state.config.isDirty = true;
+  });
+}
+
+/**
+ * Set (or, with blank text, clear) one translation
+ */
+export function setTranslation(locale: string, key: string, text: string): void {
+  updateLocalization((localization) => {
+    const translations = (localization.translations ??= {});
+    const entries = (translations[locale] ??= {});
+    if (text.trim()) entries[key] = text;
+    else delete entries[key];
+  });
+}
+
+/**
+ * The current strings and localization block, from the editing slices
+ * (not the merged config, which is rebuilt on every call)
+ */
+export function useLocalizableConfig(): LocalizableConfig {
+  const baseConfig = useConfigStore((state) => state.config.baseConfig);
+  const forms = useConfigStore((state) => state.forms.forms);
+  const ctas = useConfigStore((state) => state.ctas.ctas);
+  const showcaseItems = useConfigStore((state) => state.contentShowcase.content_showcase);
+
+  return useMemo(
+    () => ({
+      welcome_message: baseConfig?.welcome_message,
+      callout_text: baseConfig?.callout_text,
+      quick_help: baseConfig?.quick_help,
+      action_chips: baseConfig?.action_chips,
+      messenger_behavior: baseConfig?.messenger_behavior,
+      localization: baseConfig?.localization,
+      conversational_forms: forms,
+      cta_definitions: ctas,
+      content_showcase: showcaseItems,
+    }),
+    [baseConfig, forms, ctas, showcaseItems]
+  );
+}
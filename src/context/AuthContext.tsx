@@ -8,11 +8,12 @@
 import React, { createContext, useContext, useCallback, useEffect } from 'react';
 import { useAuth as useClerkAuth, useUser } from '@clerk/react';
 import { configApiClient } from '@/lib/api/client';
+import { normalizeRole, type Role } from '@/lib/permissions';
 
 interface User {
   email?: string;
   name?: string;
-  role?: string;
+  role?: Role;
   tenant_id?: string;
   tenant_hash?: string;
   company?: string;
@@ -39,13 +40,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const { isSignedIn, isLoaded, signOut, getToken: clerkGetToken } = useClerkAuth();
   const { user: clerkUser } = useUser();
 
-  // Read role from Clerk publicMetadata instead of hardcoding super_admin
-  const role = (clerkUser?.publicMetadata as Record<string, unknown>)?.role as string | undefined;
+  // Read role and tenant scope from Clerk publicMetadata instead of hardcoding super_admin
+  const metadata = (clerkUser?.publicMetadata ?? {}) as Record<string, unknown>;
+  const stringList = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
 
   const user: User | null = isSignedIn && clerkUser ? {
     email: clerkUser.primaryEmailAddress?.emailAddress,
     name: clerkUser.fullName || undefined,
-    role: role || 'member',
+    role: normalizeRole(metadata.role),
+    tenants: stringList(metadata.tenants),
+    features: stringList(metadata.features),
   } : null;
 
   const state: AuthState = {
@@ -81,6 +86,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   );
 }
 
+/**
+ * Like useAuth, but undefined outside an AuthProvider (components rendered
+ * bare in unit tests) instead of throwing
+ */
+export function useOptionalAuth(): AuthContextType | undefined {
+  return useContext(AuthContext);
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -0,0 +1,78 @@
+/**
+ * useAutoSave writes the full merged config as the tenant's draft, with the
+ * ETag it is based on, once edits settle — and holds off while an earlier
+ * draft still awaits resume/discard, so it can't be overwritten unseen.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAutoSave } from '../useAutoSave';
+import { useConfigStore } from '@/store';
+import { getDraft, deleteDraft } from '@/lib/drafts';
+import type { TenantConfig } from '@/types/config';
+
+const TENANT = 'TEST001';
+
+function seedStore({ isDirty, pending = false }: { isDirty: boolean; pending?: boolean }) {
+  useConfigStore.setState((state) => {
+    state.config.tenantId = TENANT;
+    state.config.etag = 'W/"v1"';
+    state.config.isDirty = isDirty;
+    state.config.pendingDraft = pending ? { savedAt: 1, baseEtag: 'W/"v0"', isStale: true } : null;
+    state.config.baseConfig = {
+      tenant_id: TENANT,
+      chat_title: 'Edited title',
+      version: '1.0',
+    } as unknown as TenantConfig;
+    state.programs.programs = { p1: { program_id: 'p1', program_name: 'Edited' } } as never;
+  });
+}
+
+describe('useAutoSave', () => {
+  beforeEach(async () => {
+    await deleteDraft(TENANT);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves a draft of the merged config after the debounce', async () => {
+    seedStore({ isDirty: true });
+    renderHook(() => useAutoSave({ debounceMs: 1000 }));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(999);
+    });
+    expect(await getDraft(TENANT)).toBeNull();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1);
+    });
+    const draft = await getDraft(TENANT);
+    expect(draft).toMatchObject({ tenantId: TENANT, tenantName: 'Edited title', baseEtag: 'W/"v1"' });
+    expect(draft?.config.chat_title).toBe('Edited title');
+    expect(draft?.config.programs.p1?.program_name).toBe('Edited');
+  });
+
+  it('does not save when there are no unsaved changes', async () => {
+    seedStore({ isDirty: false });
+    renderHook(() => useAutoSave({ debounceMs: 1000 }));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+    expect(await getDraft(TENANT)).toBeNull();
+  });
+
+  it('holds off while an earlier draft awaits resume or discard', async () => {
+    seedStore({ isDirty: true, pending: true });
+    renderHook(() => useAutoSave({ debounceMs: 1000 }));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+    expect(await getDraft(TENANT)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * useMergedConfig re-reads getMergedConfig() when an input section changes,
+ * and keeps the same object across unrelated store updates
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useMergedConfig } from '../useMergedConfig';
+import { useConfigStore } from '@/store';
+import type { TenantConfig } from '@/types/config';
+
+describe('useMergedConfig', () => {
+  beforeEach(() => {
+    useConfigStore.setState((state) => {
+      state.config.tenantId = 'TEST001';
+      state.config.baseConfig = { tenant_id: 'TEST001', chat_title: 'Helper', version: '1.0' } as unknown as TenantConfig;
+      state.programs.programs = {};
+    });
+  });
+
+  it('follows edits to baseConfig and the domain slices', () => {
+    const { result } = renderHook(() => useMergedConfig());
+    expect(result.current?.chat_title).toBe('Helper');
+
+    act(() => {
+      useConfigStore.setState((state) => {
+        state.programs.programs = { p1: { program_id: 'p1', program_name: 'Mentors' } } as never;
+      });
+    });
+    expect(result.current?.programs).toHaveProperty('p1');
+
+    act(() => {
+      useConfigStore.setState((state) => {
+        state.config.baseConfig!.chat_title = 'Edited';
+      });
+    });
+    expect(result.current?.chat_title).toBe('Edited');
+  });
+
+  it('returns the same config when nothing it reads changed', () => {
+    const { result } = renderHook(() => useMergedConfig());
+    const before = result.current;
+
+    act(() => {
+      useConfigStore.setState((state) => {
+        state.config.isDirty = true;
+      });
+    });
+    expect(result.current).toBe(before);
+  });
+});
@@ -1,42 +1,42 @@
 /**
  * useAutoSave Hook
- * Auto-saves configuration drafts to sessionStorage
- * Recovers unsaved work on page reload
+ * Auto-saves configuration drafts to IndexedDB, one per tenant
+ * Recovered through the resume prompt on the next load (DraftBanner)
  */
 
 import { useCallback, useEffect, useRef } from 'react';
 import { useConfigStore } from '@/store';
-import type { ConversationalForm } from '@/types/config';
+import { saveDraft } from '@/lib/drafts';
 
 export interface AutoSaveOptions {
   /**
-   * Debounce delay in milliseconds (default: 30000 = 30s)
+   * Debounce delay in milliseconds (default: 5000 = 5s)
    */
   debounceMs?: number;
   /**
    * Whether to enable auto-save (default: true)
    */
   enabled?: boolean;
-  /**
-   * Storage key prefix (default: 'picasso-config-autosave')
-   */
-  storageKey?: string;
 }
 
 const DEFAULT_OPTIONS: Required<AutoSaveOptions> = {
-  debounceMs: 30000, // 30 seconds
+  debounceMs: 5000, // 5 seconds
   enabled: true,
-  storageKey: 'picasso-config-autosave',
 };
 
 /**
  * Auto-save hook
  *
  * Features:
- * - Saves to sessionStorage every 30 seconds (debounced)
- * - Recovers unsaved work on page reload
- * - Clears on successful deployment
- * - Shows unsaved changes indicator
+ * - Writes a draft of the full merged config (domain slices and settings
+ *   edits) to IndexedDB, debounced, while the editor is dirty
+ * - Stores the ETag the draft is based on, so a later resume can warn when
+ *   the server config changed since
+ * - Holds off while a previous draft awaits resume/discard, so it isn't
+ *   overwritten before the operator decides
+ * - Saves and warns before page unload
+ *
+ * Drafts are deleted by the store after a successful save or deploy.
  *
  * @example
  * ```tsx
@@ -47,163 +47,58 @@ const DEFAULT_OPTIONS: Required<AutoSaveOptions> = {
  * ```
  */
 export function useAutoSave(options: AutoSaveOptions = {}) {
-  const { debounceMs, enabled, storageKey } = { ...DEFAULT_OPTIONS, ...options };
+  const { debounceMs, enabled } = { ...DEFAULT_OPTIONS, ...options };
 
   const tenantId = useConfigStore((state) => state.config.tenantId);
   const isDirty = useConfigStore((state) => state.config.isDirty);
+  const hasPendingDraft = useConfigStore((state) => state.config.pendingDraft !== null);
+  // Subscribed so each edit restarts the debounce
+  const baseConfig = useConfigStore((state) => state.config.baseConfig);
   const programs = useConfigStore((state) => state.programs.programs);
   const forms = useConfigStore((state) => state.forms.forms);
   const ctas = useConfigStore((state) => state.ctas.ctas);
   const branches = useConfigStore((state) => state.branches.branches);
   const contentShowcase = useConfigStore((state) => state.contentShowcase.content_showcase);
+  const topics = useConfigStore((state) => state.topics.topic_definitions);
 
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastSaveRef = useRef<number>(0);
 
-  /**
-   * Save current state to sessionStorage
-   */
-  const saveToStorage = useCallback(() => {
-    if (!tenantId || !isDirty || !enabled) {
-      return;
-    }
-
-    try {
-      const autoSaveData = {
-        tenantId,
-        timestamp: Date.now(),
-        // The base ETag these edits sit on top of. Used on restore to detect a
-        // stale snapshot (server changed since) and refuse to silently overlay
-        // it onto newer data.
-        baseEtag: useConfigStore.getState().config.etag,
-        programs,
-        forms,
-        ctas,
-        branches,
-        contentShowcase,
-      };
-
-      const key = `${storageKey}-${tenantId}`;
-      sessionStorage.setItem(key, JSON.stringify(autoSaveData));
-      lastSaveRef.current = Date.now();
-
-      console.log('Auto-saved to sessionStorage:', key);
-    } catch (error) {
-      console.error('Failed to auto-save:', error);
-    }
-  }, [tenantId, isDirty, enabled, programs, forms, ctas, branches, contentShowcase, storageKey]);
+  const canSave = enabled && isDirty && !!tenantId && !hasPendingDraft;
 
   /**
-   * Load saved state from sessionStorage
+   * Write the current editor state as this tenant's draft
    */
-  const loadFromStorage = useCallback(() => {
-    if (!tenantId || !enabled) {
-      return false;
-    }
-
-    try {
-      const key = `${storageKey}-${tenantId}`;
-      const saved = sessionStorage.getItem(key);
-
-      if (!saved) {
-        return false;
-      }
-
-      const autoSaveData = JSON.parse(saved);
-
-      // Check if autosave is for the correct tenant
-      if (autoSaveData.tenantId !== tenantId) {
-        console.warn('Autosave tenant ID mismatch, ignoring');
-        return false;
-      }
-
-      // Staleness guard: these edits were made on top of a specific base ETag.
-      // If the server's config has changed since (or we can't verify), silently
-      // reapplying the snapshot would overlay stale edits onto newer data — a
-      // data-loss path. Discard the stale draft and tell the operator, rather
-      // than restore it invisibly.
-      const currentEtag = useConfigStore.getState().config.etag;
-      if (!autoSaveData.baseEtag || !currentEtag || autoSaveData.baseEtag !== currentEtag) {
-        sessionStorage.removeItem(key);
-        useConfigStore.getState().ui.addToast({
-          type: 'info',
-          message: 'A recovered draft was discarded because this config changed since it was saved.',
-        });
-        console.warn('Autosave discarded: base ETag mismatch (stale draft)');
-        return false;
-      }
-
-      // Restore state using Zustand's setState
-      useConfigStore.setState((state) => {
-        if (autoSaveData.programs) {
-          state.programs.programs = autoSaveData.programs;
-        }
-        if (autoSaveData.forms) {
-          // Normalize forms: ensure form_id matches the dictionary key
-          state.forms.forms = Object.fromEntries(
-            Object.entries(autoSaveData.forms).map(([key, form]) => [
-              key,
-              { ...(form as ConversationalForm), form_id: key } // Override form_id to match the key
-            ])
-          );
-        }
-        if (autoSaveData.ctas) {
-          state.ctas.ctas = autoSaveData.ctas;
-        }
-        if (autoSaveData.branches) {
-          state.branches.branches = autoSaveData.branches;
-        }
-        if (autoSaveData.contentShowcase) {
-          state.contentShowcase.content_showcase = autoSaveData.contentShowcase;
-        }
-
-        // Mark as dirty since we recovered unsaved changes
-        state.config.isDirty = true;
-      });
-
-      useConfigStore.getState().ui.addToast({
-        type: 'info',
-        message: 'Recovered unsaved changes from your previous session.',
-      });
-      console.log('Recovered autosave from:', new Date(autoSaveData.timestamp));
-      return true;
-    } catch (error) {
-      console.error('Failed to load autosave:', error);
-      return false;
+  const saveNow = useCallback(async () => {
+    if (!canSave || !tenantId) {
+      return;
     }
-  }, [tenantId, enabled, storageKey]);
 
-  /**
-   * Clear autosave for current tenant
-   */
-  const clearAutoSave = useCallback(() => {
-    if (!tenantId) {
+    const { config } = useConfigStore.getState();
+    const mergedConfig = config.getMergedConfig();
+    if (!mergedConfig) {
       return;
     }
 
     try {
-      const key = `${storageKey}-${tenantId}`;
-      sessionStorage.removeItem(key);
-      console.log('Cleared autosave for:', tenantId);
+      await saveDraft({
+        tenantId,
+        tenantName: mergedConfig.chat_title || undefined,
+        baseEtag: config.etag,
+        savedAt: Date.now(),
+        config: mergedConfig,
+      });
+      lastSaveRef.current = Date.now();
     } catch (error) {
-      console.error('Failed to clear autosave:', error);
-    }
-  }, [tenantId, storageKey]);
-
-  /**
-   * Load autosave on mount (when tenant changes)
-   */
-  useEffect(() => {
-    if (tenantId && enabled) {
-      loadFromStorage();
+      console.error('Failed to auto-save draft:', error);
     }
-  }, [tenantId, enabled, loadFromStorage]);
+  }, [canSave, tenantId]);
 
   /**
    * Set up debounced auto-save
    */
   useEffect(() => {
-    if (!enabled || !isDirty || !tenantId) {
+    if (!canSave) {
       return;
     }
 
@@ -214,7 +109,7 @@ export function useAutoSave(options: AutoSaveOptions = {}) {
 
     // Set up new timer
     saveTimerRef.current = setTimeout(() => {
-      saveToStorage();
+      void saveNow();
     }, debounceMs);
 
     // Cleanup on unmount or deps change
@@ -223,16 +118,7 @@ export function useAutoSave(options: AutoSaveOptions = {}) {
         clearTimeout(saveTimerRef.current);
       }
     };
-  }, [isDirty, tenantId, enabled, debounceMs, saveToStorage]);
-
-  /**
-   * Clear autosave when config is no longer dirty (after successful save/deploy)
-   */
-  useEffect(() => {
-    if (!isDirty && tenantId) {
-      clearAutoSave();
-    }
-  }, [isDirty, tenantId, clearAutoSave]);
+  }, [canSave, debounceMs, saveNow, baseConfig, programs, forms, ctas, branches, contentShowcase, topics]);
 
   /**
    * Save immediately before page unload if there are unsaved changes
@@ -244,8 +130,8 @@ export function useAutoSave(options: AutoSaveOptions = {}) {
 
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
       if (isDirty && tenantId) {
-        // Save immediately
-        saveToStorage();
+        // IndexedDB writes started here complete even as the page unloads
+        void saveNow();
 
         // Show browser warning
         event.preventDefault();
@@ -259,14 +145,12 @@ export function useAutoSave(options: AutoSaveOptions = {}) {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [isDirty, tenantId, enabled, saveToStorage]);
+  }, [isDirty, tenantId, enabled, saveNow]);
 
   // Return utilities. lastSaveTime is exposed as a getter so callers don't
   // read ref.current during render (react-hooks/refs).
   return {
-    saveToStorage,
-    loadFromStorage,
-    clearAutoSave,
+    saveNow,
     getLastSaveTime: () => lastSaveRef.current,
   };
 }
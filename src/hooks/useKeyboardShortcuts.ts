@@ -3,8 +3,9 @@
  *
  * Provides keyboard shortcuts for common operations:
  * - Ctrl/Cmd + S: Save
+ * - Ctrl/Cmd + Z / Ctrl/Cmd + Shift + Z: Undo / redo config edits
  * - Esc: Close modals
- * - Ctrl/Cmd + K: Quick command palette (future)
+ * - Ctrl/Cmd + K: Command palette
  */
 
 import { useEffect, useCallback } from 'react';
@@ -141,6 +142,96 @@ export const useSaveShortcut = (
   ]);
 };
 
+/**
+ * Hook to register the command palette shortcut (Ctrl/Cmd + K)
+ *
+ * Works while typing in a field too, like Ctrl/Cmd + S.
+ *
+ * @example
+ * ```tsx
+ * useCommandPaletteShortcut(() => setShowPalette(true));
+ * ```
+ */
+export const useCommandPaletteShortcut = (
+  onOpen: () => void,
+  options?: { disabled?: boolean }
+) => {
+  useKeyboardShortcuts([
+    {
+      key: 'k',
+      ctrl: true,
+      meta: true,
+      callback: () => {
+        if (!options?.disabled) {
+          onOpen();
+        }
+      },
+      description: 'Open command palette',
+      preventDefault: true,
+    },
+  ]);
+};
+
+/**
+ * True when the event originates in a text-editing control. Undo/redo there
+ * belongs to the browser's native field history, not the config history.
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable;
+};
+
+/**
+ * Hook to register config undo/redo shortcuts
+ * (Ctrl/Cmd + Z, Ctrl/Cmd + Shift + Z, and Ctrl + Y)
+ *
+ * Ignored while focus is in a text field so native field undo keeps working.
+ *
+ * @example
+ * ```tsx
+ * useUndoRedoShortcuts(undo, redo, { disabled: !tenantId });
+ * ```
+ */
+export const useUndoRedoShortcuts = (
+  onUndo: () => void,
+  onRedo: () => void,
+  options?: { disabled?: boolean }
+) => {
+  const guard = (action: () => void) => (event: KeyboardEvent) => {
+    if (options?.disabled || isEditableTarget(event.target)) return;
+    event.preventDefault();
+    action();
+  };
+
+  useKeyboardShortcuts([
+    {
+      key: 'z',
+      ctrl: true,
+      meta: true,
+      callback: guard(onUndo),
+      description: 'Undo',
+      preventDefault: false,
+    },
+    {
+      key: 'z',
+      ctrl: true,
+      meta: true,
+      shift: true,
+      callback: guard(onRedo),
+      description: 'Redo',
+      preventDefault: false,
+    },
+    {
+      key: 'y',
+      ctrl: true,
+      callback: guard(onRedo),
+      description: 'Redo',
+      preventDefault: false,
+    },
+  ]);
+};
+
 /**
  * Hook to register an escape key handler for closing modals
  *
@@ -177,6 +268,19 @@ export const DEFAULT_SHORTCUTS: Omit<KeyboardShortcut, 'callback'>[] = [
     meta: true,
     description: 'Save current form',
   },
+  {
+    key: 'Z',
+    ctrl: true,
+    meta: true,
+    description: 'Undo last change',
+  },
+  {
+    key: 'Z',
+    ctrl: true,
+    meta: true,
+    shift: true,
+    description: 'Redo change',
+  },
   {
     key: 'Escape',
     description: 'Close modal or dialog',
@@ -185,6 +289,6 @@ export const DEFAULT_SHORTCUTS: Omit<KeyboardShortcut, 'callback'>[] = [
     key: 'K',
     ctrl: true,
     meta: true,
-    description: 'Open command palette (coming soon)',
+    description: 'Open command palette',
   },
 ];
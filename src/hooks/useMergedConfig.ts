@@ -0,0 +1,45 @@
+/**
+ * useMergedConfig Hook
+ *
+ * The editor's current config as getMergedConfig() builds it, re-read when
+ * baseConfig or a domain slice changes. Use it wherever a component renders
+ * or diffs the merged config, instead of subscribing to each slice by hand.
+ *
+ * @example
+ * ```tsx
+ * const config = useMergedConfig();
+ * const changes = useMemo(() => diffConfigs(config, saved), [config, saved]);
+ * ```
+ */
+
+import { useConfigStore } from '@/store';
+import type { ConfigBuilderState } from '@/store/types';
+import type { TenantConfig } from '@/types/config';
+
+/** The state getMergedConfig() reads, by reference */
+function mergeInputs(state: ConfigBuilderState): unknown[] {
+  return [
+    state.config.baseConfig,
+    state.programs.programs,
+    state.forms.forms,
+    state.ctas.ctas,
+    state.branches.branches,
+    state.contentShowcase.content_showcase,
+    state.topics.topic_definitions,
+  ];
+}
+
+// One store, so one cache: components share the merge of the current state
+let cached: { inputs: unknown[]; config: TenantConfig | null } | null = null;
+
+function selectMergedConfig(state: ConfigBuilderState): TenantConfig | null {
+  const inputs = mergeInputs(state);
+  if (!cached || inputs.some((input, i) => input !== cached!.inputs[i])) {
+    cached = { inputs, config: state.config.getMergedConfig() };
+  }
+  return cached.config;
+}
+
+export function useMergedConfig(): TenantConfig | null {
+  return useConfigStore(selectMergedConfig);
+}
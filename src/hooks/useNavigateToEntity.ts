@@ -11,6 +11,8 @@
  * 4. Hook opens modal for that entity
  * 5. Hook scrolls to the field after modal opens
  *
+ * `?create=1` (from the command palette) opens the create modal instead.
+ *
  * @example
  * ```tsx
  * const crud = useEntityCRUD({ ... });
@@ -46,16 +48,29 @@ export interface UseNavigateToEntityConfig<T> {
    * Whether the form modal is currently open
    */
   isFormOpen: boolean;
+
+  /**
+   * Function to open the create modal; `?create` is ignored when absent
+   */
+  openCreateModal?: () => void;
 }
 
 /**
  * Hook to handle automatic entity modal opening from URL params
  */
 export function useNavigateToEntity<T>(config: UseNavigateToEntityConfig<T>): void {
-  const { entities, getId, openEditModal, isFormOpen } = config;
+  const { entities, getId, openEditModal, isFormOpen, openCreateModal } = config;
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
+    if (searchParams.has('create')) {
+      if (openCreateModal && !isFormOpen) openCreateModal();
+      const newParams = new URLSearchParams(searchParams);
+      newParams.delete('create');
+      setSearchParams(newParams, { replace: true });
+      return;
+    }
+
     // Get the editId and scrollTo params
     const editId = searchParams.get('editId');
     const scrollTo = searchParams.get('scrollTo');
@@ -100,5 +115,5 @@ export function useNavigateToEntity<T>(config: UseNavigateToEntityConfig<T>): vo
     const newParams = new URLSearchParams(searchParams);
     newParams.delete('editId');
     setSearchParams(newParams, { replace: true });
-  }, [entities, getId, openEditModal, isFormOpen, searchParams, setSearchParams]);
+  }, [entities, getId, openEditModal, isFormOpen, openCreateModal, searchParams, setSearchParams]);
 }
@@ -0,0 +1,54 @@
+/**
+ * usePermissions Hook
+ *
+ * The signed-in user's role and tenant scope as a `can(action, section)`
+ * check against the loaded tenant. Use it to hide or disable controls the
+ * user can't use; the API enforces the same rules (lib/permissions).
+ *
+ * @example
+ * ```tsx
+ * const { can } = usePermissions();
+ * <Button disabled={!can('deploy', 'config')}>Deploy</Button>
+ * ```
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useOptionalAuth } from '@/context/AuthContext';
+import { useConfigStore } from '@/store';
+import {
+  FULL_ACCESS,
+  can as checkAccess,
+  canAccessTenant as checkTenant,
+  type Access,
+  type PermissionAction,
+  type PermissionSection,
+  type Role,
+} from '@/lib/permissions';
+
+export interface UsePermissionsReturn {
+  role: Role;
+  /** Checked against the loaded tenant, when there is one */
+  can: (action: PermissionAction, section: PermissionSection) => boolean;
+  canAccessTenant: (tenantId: string) => boolean;
+}
+
+export function usePermissions(): UsePermissionsReturn {
+  const auth = useOptionalAuth();
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+
+  // No provider: a component rendered on its own (unit tests). main.tsx
+  // always mounts AuthProvider, so the app itself never takes this branch.
+  const access = useMemo<Access>(() => {
+    if (!auth) return FULL_ACCESS;
+    if (!auth.user) return { role: 'viewer', tenants: [] };
+    return { role: auth.user.role ?? 'viewer', tenants: auth.user.tenants };
+  }, [auth]);
+
+  const can = useCallback(
+    (action: PermissionAction, section: PermissionSection) => checkAccess(access, action, section, tenantId),
+    [access, tenantId]
+  );
+  const canAccessTenant = useCallback((id: string) => checkTenant(access, id), [access]);
+
+  return { role: access.role, can, canAccessTenant };
+}
@@ -0,0 +1,136 @@
+/**
+ * Show-if rules: operators, AND/OR, select option matching, composite parts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { FormField } from '@/types/config';
+import { generateCompositeSubfields } from '../compositeFieldTemplates';
+import { answerKeys, describeConditions, evaluateConditions, nextVisibleFieldIndex, parseConditionRef } from '../formConditions';
+import { knownTokens } from '../notificationTemplates';
+
+const fields: FormField[] = [
+  {
+    id: 'state',
+    type: 'select',
+    label: 'State',
+    prompt: 'Which state?',
+    required: true,
+    options: [
+      { value: 'TX', label: 'Texas' },
+      { value: 'OK', label: 'Oklahoma' },
+    ],
+  },
+  { id: 'age', type: 'number', label: 'Age', prompt: 'Age?', required: false },
+  {
+    id: 'address',
+    type: 'address',
+    label: 'Address',
+    prompt: 'Address?',
+    required: true,
+    subfields: [{ id: 'city', label: 'City', required: true }],
+  },
+  {
+    id: 'county',
+    type: 'text',
+    label: 'County',
+    prompt: 'Which county?',
+    required: true,
+    conditions: { match: 'all', rules: [{ field: 'state', operator: 'equals', value: 'TX' }] },
+  },
+];
+
+describe('evaluateConditions', () => {
+  it('matches select answers by option value or label, ignoring case', () => {
+    const rule = fields[3].conditions;
+
+    expect(evaluateConditions(rule, { state: 'Texas' }, fields)).toBe(true);
+    expect(evaluateConditions(rule, { state: 'tx' }, fields)).toBe(true);
+    expect(evaluateConditions(rule, { state: 'Oklahoma' }, fields)).toBe(false);
+    expect(evaluateConditions(rule, {}, fields)).toBe(false);
+  });
+
+  it('supports lists, numbers, contains, answered checks and composite parts', () => {
+    const answers = { state: 'OK', age: '17', 'address.city': 'Fort Worth' };
+    const holds = (rule: Parameters<typeof evaluateConditions>[0]) => evaluateConditions(rule, answers, fields);
+
+    expect(holds({ match: 'all', rules: [{ field: 'state', operator: 'in', value: ['TX', 'OK'] }] })).toBe(true);
+    expect(holds({ match: 'all', rules: [{ field: 'state', operator: 'not_in', value: ['TX'] }] })).toBe(true);
+    expect(holds({ match: 'all', rules: [{ field: 'age', operator: 'less_than', value: '18' }] })).toBe(true);
+    expect(holds({ match: 'all', rules: [{ field: 'age', operator: 'greater_than', value: 'x' }] })).toBe(false);
+    expect(holds({ match: 'all', rules: [{ field: 'address.city', operator: 'contains', value: 'worth' }] })).toBe(true);
+    expect(holds({ match: 'all', rules: [{ field: 'county', operator: 'is_not_answered' }] })).toBe(true);
+  });
+
+  it('matches each option picked in a multi-select answer', () => {
+    const days: FormField = {
+      id: 'days',
+      type: 'multi_select',
+      label: 'Days',
+      prompt: 'Which days?',
+      required: true,
+      options: [
+        { value: 'sat', label: 'Saturday' },
+        { value: 'sun', label: 'Sunday' },
+      ],
+    };
+    const onSunday = { match: 'all' as const, rules: [{ field: 'days', operator: 'equals' as const, value: 'sun' }] };
+
+    expect(evaluateConditions(onSunday, { days: 'Saturday, Sunday' }, [days])).toBe(true);
+    expect(evaluateConditions(onSunday, { days: 'Saturday' }, [days])).toBe(false);
+  });
+
+  it('combines rules with AND or OR', () => {
+    const rules = [
+      { field: 'state', operator: 'equals' as const, value: 'TX' },
+      { field: 'age', operator: 'is_answered' as const },
+    ];
+
+    expect(evaluateConditions({ match: 'all', rules }, { state: 'OK', age: '30' }, fields)).toBe(false);
+    expect(evaluateConditions({ match: 'any', rules }, { state: 'OK', age: '30' }, fields)).toBe(true);
+    expect(evaluateConditions(undefined, {}, fields)).toBe(true);
+  });
+});
+
+describe('parseConditionRef', () => {
+  it('splits a part reference into field ID and subfield key', () => {
+    expect(parseConditionRef('full_name.first_name')).toEqual({ fieldId: 'full_name', subfieldId: 'first_name' });
+    expect(parseConditionRef('state')).toEqual({ fieldId: 'state' });
+  });
+
+  it('refers to generated parts the way merge fields do', () => {
+    const name: FormField = {
+      id: 'full_name',
+      type: 'name',
+      label: 'Name',
+      prompt: 'Name?',
+      required: true,
+      subfields: generateCompositeSubfields('full_name', 'name'),
+    };
+    const rule = { match: 'all' as const, rules: [{ field: 'full_name.first_name', operator: 'equals' as const, value: 'Jane' }] };
+
+    expect(answerKeys([name])).toContain('full_name.first_name');
+    expect(knownTokens({ title: 'Apply', fields: [name] }).has('full_name.first_name')).toBe(true);
+    expect(evaluateConditions(rule, { 'full_name.first_name': 'jane' }, [name])).toBe(true);
+  });
+});
+
+describe('nextVisibleFieldIndex', () => {
+  it('skips fields whose rules do not hold', () => {
+    expect(nextVisibleFieldIndex(fields, 3, { state: 'TX' })).toBe(3);
+    expect(nextVisibleFieldIndex(fields, 3, { state: 'OK' })).toBe(-1);
+  });
+});
+
+describe('describeConditions', () => {
+  it('summarizes a rule set', () => {
+    expect(
+      describeConditions({
+        match: 'any',
+        rules: [
+          { field: 'state', operator: 'in', value: ['TX', 'OK'] },
+          { field: 'age', operator: 'is_answered' },
+        ],
+      })
+    ).toBe('state is one of TX, OK or age is answered');
+  });
+});
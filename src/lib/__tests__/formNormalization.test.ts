@@ -111,6 +111,22 @@ describe('normalizeForms', () => {
     expect(forms.f.fields[1].subfields).toHaveLength(2); // untouched, not regenerated
   });
 
+  it('renames type aliases and splits comma-separated accepted types in one pass', () => {
+    const aliased = {
+      ...canonicalForm,
+      fields: [
+        { id: 'days', type: 'checkboxes', label: 'Days', prompt: 'Which days?', required: true, options: [] },
+        { id: 'resume', type: 'upload', label: 'Resume', prompt: 'Resume?', required: true, accepted_types: 'application/pdf, image/*' },
+      ],
+    } as unknown as ConversationalForm;
+
+    const first = normalizeForms({ f: aliased });
+    expect(first.forms.f.fields.map((f) => f.type)).toEqual(['multi_select', 'file_upload']);
+    expect(first.forms.f.fields[1].accepted_types).toEqual(['application/pdf', 'image/*']);
+    expect(first.repairs).toHaveLength(3);
+    expect(normalizeForms(first.forms).repairs).toEqual([]);
+  });
+
   it('tolerates empty, null, and fieldless input (forward-compatible reads)', () => {
     expect(normalizeForms(undefined)).toEqual({ forms: {}, repairs: [] });
     expect(normalizeForms(null)).toEqual({ forms: {}, repairs: [] });
@@ -0,0 +1,99 @@
+/**
+ * Notification templates: merge fields, rendering, SMS segments, recipients
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationalForm } from '@/types/config';
+import { generateCompositeSubfields } from '../compositeFieldTemplates';
+import {
+  isE164Phone,
+  isValidEmail,
+  mergeFieldsForForm,
+  renderTemplate,
+  sampleValues,
+  smsSegments,
+  unknownPlaceholders,
+} from '../notificationTemplates';
+
+const form: Pick<ConversationalForm, 'title' | 'fields'> = {
+  title: 'Volunteer Application',
+  fields: [
+    {
+      id: 'full_name',
+      type: 'name',
+      label: 'Full Name',
+      prompt: 'Name?',
+      required: true,
+      subfields: generateCompositeSubfields('full_name', 'name'),
+    },
+    { id: 'email', type: 'email', label: 'Email', prompt: 'Email?', required: true },
+  ],
+};
+
+describe('mergeFieldsForForm', () => {
+  it('offers built-ins, every field, and each part of composite fields by its own ID', () => {
+    expect(mergeFieldsForForm(form).map((field) => field.token)).toEqual([
+      'form_title',
+      'submitted_at',
+      'full_name',
+      'first_name',
+      'middle_name',
+      'last_name',
+      'email',
+    ]);
+  });
+
+  it('qualifies parts whose IDs an earlier field already uses', () => {
+    const twoAddresses = {
+      title: 'T',
+      fields: ['home', 'work'].map((id) => ({
+        id,
+        type: 'address' as const,
+        label: id,
+        prompt: '',
+        required: true,
+        subfields: generateCompositeSubfields(id, 'address'),
+      })),
+    };
+    const tokens = mergeFieldsForForm(twoAddresses).map((field) => field.token);
+
+    expect(tokens).toContain('city');
+    expect(tokens).toContain('work.city');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills known placeholders with sample answers and leaves unknown ones as written', () => {
+    const rendered = renderTemplate('{{ first_name }} applied to {{form_title}} {{nope}}', sampleValues(form));
+
+    expect(rendered).toBe('Jane applied to Volunteer Application {{nope}}');
+    expect(sampleValues(form).full_name).toBe('Jane Doe');
+  });
+
+  it('lists placeholders that are not merge fields, accepting qualified part tokens', () => {
+    expect(unknownPlaceholders('{{full_name.first_name}} {{phone}} {{email}} {{phone}}', form)).toEqual(['phone']);
+  });
+});
+
+describe('smsSegments', () => {
+  it('counts GSM-7 segments at 160, then 153 per segment', () => {
+    expect(smsSegments('a'.repeat(160))).toMatchObject({ encoding: 'GSM-7', segments: 1 });
+    expect(smsSegments('a'.repeat(161))).toMatchObject({ segments: 2, perSegment: 153 });
+    expect(smsSegments('€'.repeat(80)).length).toBe(160);
+  });
+
+  it('switches to UCS-2 for characters outside GSM-7', () => {
+    expect(smsSegments('Thanks! 🎉')).toMatchObject({ encoding: 'UCS-2', length: 10, segments: 1 });
+    expect(smsSegments('ü'.repeat(71)).segments).toBe(1);
+    expect(smsSegments('ł'.repeat(71))).toMatchObject({ encoding: 'UCS-2', segments: 2 });
+  });
+});
+
+describe('recipients', () => {
+  it('checks email addresses and E.164 numbers', () => {
+    expect(isValidEmail('staff@example.org')).toBe(true);
+    expect(isValidEmail('staff@example')).toBe(false);
+    expect(isE164Phone('+15125550123')).toBe(true);
+    expect(isE164Phone('512-555-0123')).toBe(false);
+  });
+});
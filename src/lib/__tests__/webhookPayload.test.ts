@@ -0,0 +1,115 @@
+/**
+ * Webhook payload: the webhook contract's body, typed sample answers,
+ * show-if rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationalForm } from '@/types/config';
+import { generateCompositeSubfields } from '../compositeFieldTemplates';
+import { buildWebhookPayload } from '../webhookPayload';
+import contract from '@/lib/contracts/webhook_payload_contract.json';
+
+const form: Pick<ConversationalForm, 'form_id' | 'title' | 'program' | 'fields'> = {
+  form_id: 'volunteer_form',
+  title: 'Volunteer Application',
+  program: 'mentoring',
+  fields: [
+    {
+      id: 'full_name',
+      type: 'name',
+      label: 'Full Name',
+      prompt: 'Name?',
+      required: true,
+      subfields: generateCompositeSubfields('full_name', 'name'),
+    },
+    { id: 'email', type: 'email', label: 'Email', prompt: 'Email?', required: true },
+    {
+      id: 'days',
+      type: 'multi_select',
+      label: 'Days',
+      prompt: 'Which days?',
+      required: false,
+      options: [
+        { value: 'sat', label: 'Saturday' },
+        { value: 'sun', label: 'Sunday' },
+      ],
+    },
+    { id: 'agree', type: 'consent', label: 'Agree', prompt: 'Agree?', required: true, policy_text: 'Policy' },
+    { id: 'score', type: 'rating', label: 'Score', prompt: 'Rate us', required: false },
+  ],
+};
+
+const submittedAt = new Date('2026-06-01T14:30:00.000Z');
+
+describe('buildWebhookPayload', () => {
+  it('describes the submission', () => {
+    const payload = buildWebhookPayload(form, { tenantId: 'ACME01', submittedAt });
+    expect(payload).toMatchObject({
+      event: 'form_submission',
+      test: true,
+      tenant_id: 'ACME01',
+      form_id: 'volunteer_form',
+      form_title: 'Volunteer Application',
+      program: 'mentoring',
+      submission_id: `test_${submittedAt.getTime()}`,
+      submitted_at: '2026-06-01T14:30:00.000Z',
+    });
+  });
+
+  it('sends exactly the contract\'s fields, in order and typed as documented', () => {
+    const payload = buildWebhookPayload(form, { tenantId: 'ACME01', submittedAt });
+    expect(Object.keys(payload)).toEqual(Object.keys(contract.fields));
+    for (const [key, type] of Object.entries(contract.fields)) {
+      expect(typeof payload[key as keyof typeof payload], key).toBe(type);
+    }
+    expect(payload.submission_id.startsWith(contract.test_submission_id_prefix)).toBe(true);
+  });
+
+  it('types each answer as the contract documents for its field type', () => {
+    const { form_data } = buildWebhookPayload(form, { tenantId: 'ACME01', submittedAt });
+    const answerTypes: Record<string, string> = contract.answer_types;
+    for (const field of form.fields) {
+      const expected = field.subfields?.length ? answerTypes.subfields : answerTypes[field.type] ?? answerTypes.other;
+      const answer = form_data[field.id];
+      expect(Array.isArray(answer) ? 'array' : typeof answer, field.id).toBe(expected);
+    }
+  });
+
+  it('types sample answers the way the widget submits them', () => {
+    const { form_data } = buildWebhookPayload(form, { tenantId: 'ACME01', submittedAt });
+    expect(Object.keys(form_data)).toEqual(['full_name', 'email', 'days', 'agree', 'score']);
+    expect(form_data.full_name).toEqual({ first_name: 'Jane', middle_name: 'Q', last_name: 'Doe' });
+    expect(form_data.email).toBe('jane.doe@example.org');
+    expect(form_data.days).toEqual(['Saturday', 'Sunday']);
+    expect(form_data.agree).toBe(true);
+    expect(form_data.score).toBe(5);
+  });
+
+  it('leaves out fields whose show-if rules fail for the sample answers', () => {
+    const conditional = {
+      ...form,
+      fields: [
+        ...form.fields,
+        {
+          id: 'weekend_notes',
+          type: 'text' as const,
+          label: 'Weekend notes',
+          prompt: 'Anything else?',
+          required: false,
+          conditions: { match: 'all' as const, rules: [{ field: 'days', operator: 'in' as const, value: ['sat'] }] },
+        },
+        {
+          id: 'texas_county',
+          type: 'text' as const,
+          label: 'County',
+          prompt: 'County?',
+          required: false,
+          conditions: { match: 'all' as const, rules: [{ field: 'score', operator: 'less_than' as const, value: '3' }] },
+        },
+      ],
+    };
+    const { form_data } = buildWebhookPayload(conditional, { tenantId: 'ACME01', submittedAt });
+    expect(form_data).toHaveProperty('weekend_notes');
+    expect(form_data).not.toHaveProperty('texas_county');
+  });
+});
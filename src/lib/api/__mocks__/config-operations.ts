@@ -4,7 +4,13 @@
  */
 
 import type { TenantConfig } from '@/types/config';
-import type { TenantListItem, LoadConfigResponse, TenantMetadata } from '@/types/api';
+import type {
+  TenantListItem,
+  LoadConfigResponse,
+  TenantMetadata,
+  ConfigVersionSummary,
+  LoadConfigVersionResponse,
+} from '@/types/api';
 
 // Mock data
 export const mockTenantConfig: TenantConfig = {
@@ -63,6 +69,22 @@ export const mockMetadata: TenantMetadata = {
   etag: 'abc123',
 };
 
+export const mockVersionList: ConfigVersionSummary[] = [
+  {
+    versionId: 'TEST001-2026-01-02T09-30-00-000Z',
+    lastModified: Date.parse('2026-01-02T09:00:00.000Z'),
+    size: 14800,
+    configVersion: '1.2',
+    modifiedBy: 'editor@example.org',
+  },
+  {
+    versionId: 'TEST001-2026-01-01T12-00-00-000Z',
+    lastModified: Date.parse('2026-01-01T11:00:00.000Z'),
+    size: 14200,
+    configVersion: '1.1',
+  },
+];
+
 // Mock functions (use with jest.mock() in tests)
 export const mockListTenants = async (): Promise<TenantListItem[]> => {
   return mockTenantList;
@@ -82,6 +104,25 @@ export const mockLoadConfig = async (tenantId: string): Promise<LoadConfigRespon
   };
 };
 
+export const mockListConfigVersions = async (): Promise<ConfigVersionSummary[]> => {
+  return mockVersionList;
+};
+
+export const mockLoadConfigVersion = async (
+  tenantId: string,
+  versionId: string
+): Promise<LoadConfigVersionResponse> => {
+  const version = mockVersionList.find((v) => v.versionId === versionId) ?? mockVersionList[0];
+  return {
+    config: {
+      ...mockTenantConfig,
+      tenant_id: tenantId,
+      version: version.configVersion ?? mockTenantConfig.version,
+    },
+    version,
+  };
+};
+
 export const mockSaveConfig = async (): Promise<{ etag?: string }> => {
   // Mock successful save — return a synthetic etag so store state can
   // refresh its optimistic-concurrency token after the write.
@@ -100,6 +141,8 @@ export const mockDeleteConfig = async (): Promise<void> => {
 export default {
   listTenants: mockListTenants,
   loadConfig: mockLoadConfig,
+  listConfigVersions: mockListConfigVersions,
+  loadConfigVersion: mockLoadConfigVersion,
   saveConfig: mockSaveConfig,
   deployConfig: mockDeployConfig,
   deleteConfig: mockDeleteConfig,
@@ -0,0 +1,94 @@
+/**
+ * ConfigAPIClient version history tests.
+ *
+ * Pins the request contract for listVersions (GET /config/{id}/versions) and
+ * loadConfigVersion (GET /config/{id}/versions/{versionId}), including the
+ * empty-id guards and the missing-config response check.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConfigAPIClient } from '../client';
+import { ConfigAPIError } from '../errors';
+
+const BASE_URL = 'http://localhost:3001';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const summary = {
+  versionId: 'TEST001-2026-01-02T09-30-00-000Z',
+  lastModified: 1767346200000,
+  size: 2048,
+  configVersion: '1.2',
+  modifiedBy: 'editor@example.org',
+};
+
+describe('ConfigAPIClient version history', () => {
+  let client: ConfigAPIClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new ConfigAPIClient(BASE_URL);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('listVersions GETs /config/{id}/versions and returns the version summaries', async () => {
+    fetchMock.mockImplementation(() => jsonResponse(200, { versions: [summary] }));
+
+    const versions = await client.listVersions('TEST001');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/config/TEST001/versions`);
+    expect(init.method).toBe('GET');
+    expect(versions).toEqual([summary]);
+  });
+
+  it('listVersions returns an empty list when the response has no versions', async () => {
+    fetchMock.mockImplementation(() => jsonResponse(200, {}));
+    await expect(client.listVersions('TEST001')).resolves.toEqual([]);
+  });
+
+  it('loadConfigVersion GETs the encoded version path and returns config + summary', async () => {
+    fetchMock.mockImplementation(() =>
+      jsonResponse(200, { config: { tenant_id: 'TEST001', chat_title: 'Old' }, version: summary })
+    );
+
+    const result = await client.loadConfigVersion('TEST001', 'TEST001 odd/id');
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `${BASE_URL}/config/TEST001/versions/TEST001%20odd%2Fid`
+    );
+    expect(result.config.chat_title).toBe('Old');
+    expect(result.version).toEqual(summary);
+  });
+
+  it('rejects empty tenant or version ids without calling fetch', async () => {
+    await expect(client.listVersions('')).rejects.toThrow(ConfigAPIError);
+    await expect(client.loadConfigVersion('TEST001', ' ')).rejects.toThrow(ConfigAPIError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('loadConfigVersion rejects a response without a config', async () => {
+    fetchMock.mockImplementation(() => jsonResponse(200, { version: summary }));
+    await expect(client.loadConfigVersion('TEST001', summary.versionId)).rejects.toMatchObject({
+      code: 'INVALID_CONFIG',
+    });
+  });
+
+  it('maps a 404 for an unknown version to a ConfigAPIError', async () => {
+    fetchMock.mockImplementation(() => jsonResponse(404, { error: 'Not Found' }));
+    await expect(client.loadConfigVersion('TEST001', summary.versionId)).rejects.toThrow(
+      ConfigAPIError
+    );
+  });
+});
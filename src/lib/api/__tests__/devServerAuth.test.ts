@@ -0,0 +1,57 @@
+/**
+ * Dev server role claims: decoding the unverified token, the fallback role,
+ * and the deploy check on config writes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type express from 'express';
+import { accessFromClaims, decodeBearerClaims, requireDeployForDeployWrites } from '../devServerAuth';
+
+function bearer(payload: Record<string, unknown>): string {
+  return `Bearer header.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.sig`;
+}
+
+describe('decodeBearerClaims', () => {
+  it('decodes the JWT payload and returns null for anything else', () => {
+    expect(decodeBearerClaims(bearer({ email: 'a@b.c' }))).toEqual({ email: 'a@b.c' });
+    expect(decodeBearerClaims('Bearer not-a-jwt')).toBeNull();
+    expect(decodeBearerClaims(undefined)).toBeNull();
+  });
+});
+
+describe('accessFromClaims', () => {
+  it('reads role and tenants from top-level claims or Clerk metadata', () => {
+    expect(accessFromClaims({ role: 'editor', tenants: ['ACME01'] })).toEqual({ role: 'editor', tenants: ['ACME01'] });
+    expect(accessFromClaims({ public_metadata: { role: 'deployer' } })).toEqual({ role: 'deployer' });
+  });
+
+  it('treats a token without a role like a user without one, as an editor', () => {
+    expect(accessFromClaims({ email: 'a@b.c' }, 'super_admin')).toEqual({ role: 'editor' });
+  });
+
+  it('uses the default role when there is no token', () => {
+    expect(accessFromClaims(null, 'deployer')).toEqual({ role: 'deployer' });
+  });
+});
+
+describe('requireDeployForDeployWrites', () => {
+  function run(role: string, body: Record<string, unknown>) {
+    const req = { headers: { authorization: bearer({ role }) }, params: { tenantId: 'ACME01' }, body } as unknown as express.Request;
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() } as unknown as express.Response;
+    const next = vi.fn();
+    requireDeployForDeployWrites()(req, res, next);
+    return { status: vi.mocked(res.status), next };
+  }
+
+  it('lets an editor save but not deploy', () => {
+    expect(run('editor', { config: {} }).next).toHaveBeenCalled();
+
+    const deploy = run('editor', { config: {}, deploy: true });
+    expect(deploy.next).not.toHaveBeenCalled();
+    expect(deploy.status).toHaveBeenCalledWith(403);
+  });
+
+  it('lets a deployer deploy', () => {
+    expect(run('deployer', { config: {}, deploy: true }).next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+// @vitest-environment node
+/**
+ * Dev webhook echo: capturing, listing and clearing received payloads
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createWebhookEchoRouter } from '../devWebhookEcho';
+
+let server: Server;
+let echoUrl: string;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  const app = express();
+  app.use(express.json());
+  app.use(createWebhookEchoRouter(2));
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  echoUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook-echo`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+function post(body: unknown) {
+  return fetch(echoUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Test-Run': '7' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('webhook echo', () => {
+  it('captures payloads, lists the most recent first and keeps only the limit', async () => {
+    const first = await post({ n: 1 });
+    expect(await first.json()).toEqual({ received: true, id: 'hook_1' });
+    await post({ n: 2 });
+    await post({ n: 3 });
+
+    const { captures } = await (await fetch(echoUrl)).json();
+    expect(captures.map((capture: { body: unknown }) => capture.body)).toEqual([{ n: 3 }, { n: 2 }]);
+    expect(captures[0].headers).toMatchObject({ 'content-type': 'application/json', 'x-test-run': '7' });
+    expect(captures[0].headers).not.toHaveProperty('host');
+  });
+
+  it('clears captured payloads', async () => {
+    expect(await (await fetch(echoUrl, { method: 'DELETE' })).json()).toEqual({ success: true, cleared: 2 });
+    expect(await (await fetch(echoUrl)).json()).toEqual({ captures: [] });
+  });
+});
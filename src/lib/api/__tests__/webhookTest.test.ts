@@ -0,0 +1,54 @@
+/**
+ * webhookTest — sending a sample submission and classifying the outcome.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildWebhookPayload } from '@/lib/webhookPayload';
+import { sendTestWebhook } from '../webhookTest';
+
+const payload = buildWebhookPayload(
+  { form_id: 'contact', title: 'Contact', program: 'general', fields: [] },
+  { tenantId: 'ACME01', submittedAt: new Date('2026-06-01T00:00:00.000Z') }
+);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('sendTestWebhook', () => {
+  it('POSTs the payload as JSON and reports a 2xx as delivered', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{"ok":true}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const outcome = await sendTestWebhook('https://hooks.example.com/in', payload);
+
+    expect(outcome).toMatchObject({ status: 'delivered', httpStatus: 200, body: '{"ok":true}' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/in');
+    expect(init).toMatchObject({ method: 'POST', headers: { 'Content-Type': 'application/json' } });
+    expect(JSON.parse(init.body)).toEqual(payload);
+  });
+
+  it('reports an error status as rejected, with the response body', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('missing email', { status: 422 })));
+    expect(await sendTestWebhook('https://hooks.example.com/in', payload)).toMatchObject({
+      status: 'rejected',
+      httpStatus: 422,
+      body: 'missing email',
+    });
+  });
+
+  it('fails without sending when the URL is not an http(s) URL', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    expect((await sendTestWebhook('hooks.example.com', payload)).status).toBe('failed');
+    expect((await sendTestWebhook('ftp://hooks.example.com', payload)).status).toBe('failed');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails with a CORS hint when the request errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    const outcome = await sendTestWebhook('https://hooks.example.com/in', payload);
+    expect(outcome.status).toBe('failed');
+    expect(outcome.status === 'failed' && outcome.detail).toMatch(/Failed to fetch.*cross-origin/);
+  });
+});
@@ -11,6 +11,8 @@ import type {
   TenantListItem,
   LoadConfigResponse,
   SaveConfigResponse,
+  ConfigVersionSummary,
+  LoadConfigVersionResponse,
 } from '@/types/api';
 
 // Get API URL from environment
@@ -142,6 +144,84 @@ export class ConfigAPIClient {
     });
   }
 
+  /**
+   * List stored versions (backups) of a tenant's config, newest first
+   */
+  async listVersions(tenantId: string): Promise<ConfigVersionSummary[]> {
+    if (!tenantId || tenantId.trim() === '') {
+      throw new ConfigAPIError('INVALID_TENANT_ID', 'Tenant ID cannot be empty');
+    }
+
+    return fetchWithRetry(async () => {
+      const response = await fetch(`${this.baseUrl}/config/${tenantId}/versions`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await this.getAuthHeaders()),
+        },
+      });
+
+      if (response.status === 401) {
+        this.handle401Response();
+        throw await parseHTTPError(response);
+      }
+
+      if (!response.ok) {
+        throw await parseHTTPError(response);
+      }
+
+      const data = await response.json();
+      return data.versions || [];
+    });
+  }
+
+  /**
+   * Load one stored version of a tenant's config. Read-only: the response
+   * carries no ETag — restoring goes through saveConfig against the live one.
+   */
+  async loadConfigVersion(tenantId: string, versionId: string): Promise<LoadConfigVersionResponse> {
+    if (!tenantId || tenantId.trim() === '') {
+      throw new ConfigAPIError('INVALID_TENANT_ID', 'Tenant ID cannot be empty');
+    }
+
+    if (!versionId || versionId.trim() === '') {
+      throw new ConfigAPIError('VALIDATION_ERROR', 'Version ID cannot be empty');
+    }
+
+    return fetchWithRetry(async () => {
+      const response = await fetch(
+        `${this.baseUrl}/config/${tenantId}/versions/${encodeURIComponent(versionId)}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(await this.getAuthHeaders()),
+          },
+        }
+      );
+
+      if (response.status === 401) {
+        this.handle401Response();
+        throw await parseHTTPError(response);
+      }
+
+      if (!response.ok) {
+        throw await parseHTTPError(response);
+      }
+
+      const data = await response.json();
+
+      if (!data.config) {
+        throw new ConfigAPIError('INVALID_CONFIG', 'Response missing config field');
+      }
+
+      return {
+        config: data.config as TenantConfig,
+        version: data.version,
+      };
+    });
+  }
+
   /**
    * Save configuration to S3
    * Note: This performs validation before saving
@@ -269,6 +349,9 @@ export class ConfigAPIClient {
             config,
             merge: true,  // Merge editable sections with base config to preserve read-only sections
             create_backup: true,
+            // Marks the write as a deploy, which needs the deploy permission
+            // rather than edit (see requireDeployForDeployWrites)
+            deploy: true,
           }),
         });
 
@@ -409,7 +492,8 @@ export class ConfigAPIClient {
   }
 
   /**
-   * Create a new tenant configuration
+   * Create a new tenant configuration. `etag` is the created config's, for a
+   * follow-up save conditional on nothing else having written it.
    */
   async createTenant(request: {
     org_name: string;
@@ -425,6 +509,7 @@ export class ConfigAPIClient {
     tenant_hash: string;
     embed_code: string;
     config: TenantConfig;
+    etag?: string;
   }> {
     return fetchWithRetry(
       async () => {
@@ -446,7 +531,9 @@ export class ConfigAPIClient {
           throw await parseHTTPError(response);
         }
 
-        return response.json();
+        const data = await response.json();
+        const etag = response.headers.get('ETag') || data.etag || undefined;
+        return { ...data, etag };
       },
       {
         maxRetries: 2,
@@ -7,7 +7,12 @@
 import { configApiClient } from './client';
 import { ConfigAPIError, handleAPIError } from './errors';
 import type { TenantConfig } from '@/types/config';
-import type { TenantListItem, LoadConfigResponse } from '@/types/api';
+import type {
+  TenantListItem,
+  LoadConfigResponse,
+  ConfigVersionSummary,
+  LoadConfigVersionResponse,
+} from '@/types/api';
 
 /**
  * List all tenant configurations from S3
@@ -48,6 +53,39 @@ export async function loadConfig(tenantId: string): Promise<LoadConfigResponse>
   }
 }
 
+/**
+ * List a tenant's stored config versions (backups), newest first
+ */
+export async function listConfigVersions(tenantId: string): Promise<ConfigVersionSummary[]> {
+  try {
+    if (!tenantId || tenantId.trim() === '') {
+      throw new ConfigAPIError('INVALID_TENANT_ID', 'Tenant ID is required');
+    }
+
+    return await configApiClient.listVersions(tenantId);
+  } catch (error) {
+    throw handleAPIError(error);
+  }
+}
+
+/**
+ * Load one stored version of a tenant's configuration
+ */
+export async function loadConfigVersion(
+  tenantId: string,
+  versionId: string
+): Promise<LoadConfigVersionResponse> {
+  try {
+    if (!tenantId || tenantId.trim() === '') {
+      throw new ConfigAPIError('INVALID_TENANT_ID', 'Tenant ID is required');
+    }
+
+    return await configApiClient.loadConfigVersion(tenantId, versionId);
+  } catch (error) {
+    throw handleAPIError(error);
+  }
+}
+
 /**
  * Save tenant configuration to S3
  * Creates backup before saving (unless disabled)
@@ -0,0 +1,142 @@
+/**
+ * Dev Server Auth
+ * Role checks for the local dev servers, from the claims of an unverified token
+ *
+ * The deployed Lambda verifies the Clerk JWT; locally the bearer token is only
+ * decoded, so any hand-made token works for trying out roles:
+ *
+ *   header.<base64url({"email":"a@b.c","role":"editor","tenants":["ACME01"]})>.sig
+ *
+ * `role` and `tenants` are read from the top-level claims, then from
+ * `public_metadata` / `metadata` (Clerk session-token templates). Requests
+ * without a token act as `DEV_ROLE` (default `super_admin`), so the editor
+ * keeps working against a dev server with no sign-in.
+ */
+
+import type express from 'express';
+import {
+  can,
+  canAccessTenant,
+  forbiddenConfigChanges,
+  normalizeRole,
+  type Access,
+  type PermissionAction,
+  type PermissionSection,
+} from '@/lib/permissions';
+
+export type TokenClaims = Record<string, unknown>;
+
+/**
+ * Payload of a `Bearer <jwt>` header, or null when there is no token or it
+ * isn't a JWT
+ */
+export function decodeBearerClaims(authorization: string | undefined): TokenClaims | null {
+  const token = authorization?.replace(/^Bearer /, '');
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf-8'));
+    return payload && typeof payload === 'object' ? (payload as TokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+function claim(claims: TokenClaims, key: string): unknown {
+  for (const source of [claims, claims.public_metadata, claims.metadata]) {
+    if (source && typeof source === 'object' && key in source) {
+      return (source as TokenClaims)[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Access for a request's claims. No claims → `defaultRole`, unscoped.
+ */
+export function accessFromClaims(
+  claims: TokenClaims | null,
+  defaultRole: string = process.env.DEV_ROLE || 'super_admin'
+): Access {
+  if (!claims) return { role: normalizeRole(defaultRole) };
+  const tenants = claim(claims, 'tenants');
+  return {
+    role: normalizeRole(claim(claims, 'role')),
+    ...(Array.isArray(tenants) ? { tenants: tenants.filter((t): t is string => typeof t === 'string') } : {}),
+  };
+}
+
+export function requestAccess(req: express.Request): Access {
+  return accessFromClaims(decodeBearerClaims(req.headers.authorization));
+}
+
+/**
+ * Who is making the request, for `last_updated_by`
+ */
+export function editorFromRequest(req: express.Request): string {
+  const claims = decodeBearerClaims(req.headers.authorization);
+  if (typeof claims?.email === 'string') return claims.email;
+  if (typeof claims?.sub === 'string') return claims.sub;
+  return 'local-dev';
+}
+
+function forbidden(res: express.Response, message: string) {
+  return res.status(403).json({ error: 'Forbidden', message });
+}
+
+/**
+ * Route guard: 403 unless the request may take `action` on `section` for
+ * the route's `:tenantId` (when it has one)
+ *
+ * @example
+ * app.delete('/config/:tenantId', requirePermission('delete', 'tenant'), handler);
+ */
+export function requirePermission(action: PermissionAction, section: PermissionSection): express.RequestHandler {
+  return (req, res, next) => {
+    const access = requestAccess(req);
+    const tenantId = req.params.tenantId;
+    if (tenantId && !canAccessTenant(access, tenantId)) {
+      forbidden(res, `No access to tenant ${tenantId}`);
+      return;
+    }
+    if (!can(access, action, section)) {
+      forbidden(res, `Role ${access.role} may not ${action} ${section}`);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Route guard for `PUT /config/:tenantId`, which both saves and deploys: a
+ * write with `deploy: true` (deployConfig) also needs `deploy` on `config`,
+ * so an editor can save but not deploy
+ *
+ * @example
+ * app.put('/config/:tenantId', requirePermission('edit', 'config'), requireDeployForDeployWrites(), handler);
+ */
+export function requireDeployForDeployWrites(): express.RequestHandler {
+  const guard = requirePermission('deploy', 'config');
+  return (req, res, next) => {
+    if (req.body?.deploy === true) {
+      guard(req, res, next);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * 403s and returns false when `after` changes config keys the request's role
+ * may not edit (e.g. `aws` for anyone but super_admin)
+ */
+export function checkConfigChanges(
+  req: express.Request,
+  res: express.Response,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): boolean {
+  const keys = forbiddenConfigChanges(requestAccess(req), before, after);
+  if (keys.length === 0) return true;
+  forbidden(res, `Your role may not change: ${keys.join(', ')}`);
+  return false;
+}
@@ -0,0 +1,76 @@
+/**
+ * Dev Webhook Echo
+ * A capturing webhook endpoint for the local dev servers
+ *
+ * Point a form's "Test webhook" (or any integration) at
+ * `http://localhost:3001/webhook-echo` to see exactly what an endpoint would
+ * receive, without a live submission or a receiver of your own:
+ *
+ *   POST   /webhook-echo   capture the request; answers `{ received, id }`
+ *   GET    /webhook-echo   captured requests, newest first
+ *   DELETE /webhook-echo   forget them
+ *
+ * Captures are kept in memory only (the most recent `limit`) and are logged
+ * to the console as they arrive. Like a real webhook receiver the routes take
+ * no token; the servers' localhost-only binding and CORS rules still apply.
+ */
+
+import express from 'express';
+
+export interface CapturedWebhook {
+  id: string;
+  received_at: string;
+  /** Content type, user agent and any X- headers */
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const KEPT_HEADER_RE = /^(content-type|user-agent|x-.+)$/i;
+
+function keptHeaders(req: express.Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined && KEPT_HEADER_RE.test(name)) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  });
+  return headers;
+}
+
+/**
+ * Router serving the echo endpoint at `/webhook-echo`
+ */
+export function createWebhookEchoRouter(limit = 50): express.Router {
+  const router = express.Router();
+  const captures: CapturedWebhook[] = [];
+  let received = 0;
+
+  router.post('/webhook-echo', (req, res) => {
+    received += 1;
+    const capture: CapturedWebhook = {
+      id: `hook_${received}`,
+      received_at: new Date().toISOString(),
+      headers: keptHeaders(req),
+      body: req.body,
+    };
+    captures.unshift(capture);
+    captures.splice(limit);
+
+    console.log(`Webhook echo received ${capture.id}:`);
+    console.log(JSON.stringify(capture.body, null, 2));
+
+    res.json({ received: true, id: capture.id });
+  });
+
+  router.get('/webhook-echo', (_req, res) => {
+    res.json({ captures });
+  });
+
+  router.delete('/webhook-echo', (_req, res) => {
+    const cleared = captures.length;
+    captures.length = 0;
+    res.json({ success: true, cleared });
+  });
+
+  return router;
+}
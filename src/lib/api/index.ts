@@ -10,6 +10,8 @@ export { ConfigAPIClient, configApiClient } from './client';
 export {
   listTenants,
   loadConfig,
+  listConfigVersions,
+  loadConfigVersion,
   saveConfig,
   deployConfig,
   deleteConfig,
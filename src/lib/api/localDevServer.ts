@@ -8,12 +8,26 @@
 import express from 'express';
 import fs from 'fs/promises';
 import path from 'path';
+import { canAccessTenant } from '@/lib/permissions';
+import {
+  checkConfigChanges,
+  editorFromRequest,
+  requestAccess,
+  requireDeployForDeployWrites,
+  requirePermission,
+} from './devServerAuth';
+import { createWebhookEchoRouter } from './devWebhookEcho';
 
 const app = express();
 const PORT = Number(process.env.DEV_SERVER_PORT) || 3001;
 
 // Mock S3 directory
 const MOCK_S3_DIR = path.join(process.cwd(), 'mock-s3');
+const BACKUPS_DIR = path.join(MOCK_S3_DIR, 'backups');
+
+// Backup names are `${tenantId}-${timestamp}.json`, where timestamp is an ISO
+// string with ':' and '.' replaced by '-' (see the PUT handler)
+const BACKUP_STAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
 
 // Ensure mock-s3 directory exists
 async function ensureMockS3Dir() {
@@ -21,7 +35,7 @@ async function ensureMockS3Dir() {
     await fs.access(MOCK_S3_DIR);
   } catch {
     await fs.mkdir(MOCK_S3_DIR, { recursive: true });
-    await fs.mkdir(path.join(MOCK_S3_DIR, 'backups'), { recursive: true });
+    await fs.mkdir(BACKUPS_DIR, { recursive: true });
   }
 }
 
@@ -59,6 +73,43 @@ app.param('tenantId', (_req, res, next, value) => {
   next();
 });
 
+/**
+ * Backup timestamp for a tenant's backup file, or null when the file belongs
+ * to another tenant (a bare prefix match would also catch "ABC1-..." for "ABC")
+ */
+function backupStamp(tenantId: string, versionId: string): string | null {
+  if (!versionId.startsWith(`${tenantId}-`)) return null;
+  const stamp = versionId.slice(tenantId.length + 1);
+  return BACKUP_STAMP_RE.test(stamp) ? stamp : null;
+}
+
+/**
+ * Summarize one backup file for the version list
+ */
+async function summarizeBackup(versionId: string, stamp: string) {
+  const filePath = path.join(BACKUPS_DIR, `${versionId}.json`);
+  const stats = await fs.stat(filePath);
+  // "2026-10-19T11-50-00-000Z" → "2026-10-19T11:50:00.000Z"
+  const backedUpAt = Date.parse(stamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z'));
+
+  let config: Record<string, unknown> = {};
+  try {
+    config = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    // Unreadable backup — still listed, without config-derived fields
+  }
+
+  const lastUpdated = typeof config.last_updated === 'string' ? Date.parse(config.last_updated) : NaN;
+
+  return {
+    versionId,
+    lastModified: Number.isNaN(lastUpdated) ? backedUpAt : lastUpdated,
+    size: stats.size,
+    ...(config.version !== undefined && { configVersion: String(config.version) }),
+    ...(typeof config.last_updated_by === 'string' && { modifiedBy: config.last_updated_by }),
+  };
+}
+
 // Request logging middleware
 app.use((req, _res, next) => {
   console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
@@ -81,13 +132,15 @@ app.get('/health', (_req, res) => {
  * List all tenant configs
  * GET /config/tenants
  */
-app.get('/config/tenants', async (_req, res) => {
+app.get('/config/tenants', async (req, res) => {
   try {
     const files = await fs.readdir(MOCK_S3_DIR);
+    const access = requestAccess(req);
 
     const tenants = await Promise.all(
       files
         .filter(f => f.endsWith('-config.json'))
+        .filter(f => canAccessTenant(access, f.replace('-config.json', '')))
         .map(async (file) => {
           const tenantId = file.replace('-config.json', '');
           const filePath = path.join(MOCK_S3_DIR, file);
@@ -128,7 +181,7 @@ app.get('/config/tenants', async (_req, res) => {
  * Load tenant config
  * GET /config/{tenantId}?editable_only=true
  */
-app.get('/config/:tenantId', async (req, res) => {
+app.get('/config/:tenantId', requirePermission('view', 'config'), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const editableOnly = req.query.editable_only === 'true';
@@ -188,11 +241,82 @@ app.get('/config/:tenantId', async (req, res) => {
   }
 });
 
+/**
+ * List stored versions (backups) of a tenant config, newest first
+ * GET /config/{tenantId}/versions
+ */
+app.get('/config/:tenantId/versions', requirePermission('view', 'config'), async (req, res) => {
+  try {
+    const { tenantId } = req.params;
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(BACKUPS_DIR);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const backups = files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.replace(/\.json$/, ''))
+      .map(versionId => ({ versionId, stamp: backupStamp(tenantId, versionId) }))
+      .filter((b): b is { versionId: string; stamp: string } => b.stamp !== null);
+
+    const versions = await Promise.all(
+      backups.map(({ versionId, stamp }) => summarizeBackup(versionId, stamp))
+    );
+    // Stamps sort chronologically; newest first
+    versions.sort((a, b) => b.versionId.localeCompare(a.versionId));
+
+    res.json({ versions });
+  } catch (error: unknown) {
+    console.error('Error listing versions:', error);
+    res.status(500).json({
+      error: 'Failed to list versions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Load one stored version of a tenant config
+ * GET /config/{tenantId}/versions/{versionId}
+ */
+app.get('/config/:tenantId/versions/:versionId', requirePermission('view', 'config'), async (req, res) => {
+  try {
+    const { tenantId, versionId } = req.params;
+
+    // The stamp check also keeps versionId from escaping backups/
+    const stamp = backupStamp(tenantId, versionId);
+    if (!stamp) {
+      return res.status(400).json({ error: 'Invalid version ID' });
+    }
+
+    const configData = await fs.readFile(path.join(BACKUPS_DIR, `${versionId}.json`), 'utf-8');
+    const version = await summarizeBackup(versionId, stamp);
+
+    res.json({ config: JSON.parse(configData), version });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Version not found: ${req.params.versionId}`,
+      });
+    }
+
+    console.error('Error loading version:', error);
+    res.status(500).json({
+      error: 'Failed to load version',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * Save tenant config
  * PUT /config/{tenantId}
  */
-app.put('/config/:tenantId', async (req, res) => {
+app.put('/config/:tenantId', requirePermission('edit', 'config'), requireDeployForDeployWrites(), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const {
@@ -213,6 +337,15 @@ app.put('/config/:tenantId', async (req, res) => {
     const configPath = path.join(MOCK_S3_DIR, `${tenantId}-config.json`);
     let finalConfig = editedConfig;
 
+    // Editors may save content but not AWS/model settings
+    let storedConfig: Record<string, unknown> | null = null;
+    try {
+      storedConfig = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    if (!checkConfigChanges(req, res, storedConfig, editedConfig)) return;
+
     // Create backup if requested and config exists
     if (create_backup) {
       try {
@@ -220,7 +353,7 @@ app.put('/config/:tenantId', async (req, res) => {
         const existingConfig = JSON.parse(existingData);
 
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const backupPath = path.join(MOCK_S3_DIR, 'backups', `${tenantId}-${timestamp}.json`);
+        const backupPath = path.join(BACKUPS_DIR, `${tenantId}-${timestamp}.json`);
 
         await fs.writeFile(backupPath, JSON.stringify(existingConfig, null, 2));
         console.log(`Created backup: ${backupPath}`);
@@ -251,6 +384,7 @@ app.put('/config/:tenantId', async (req, res) => {
 
     // Add metadata
     finalConfig.last_updated = new Date().toISOString();
+    finalConfig.last_updated_by = editorFromRequest(req);
     finalConfig.tenant_id = tenantId;
 
     // Save config
@@ -275,7 +409,7 @@ app.put('/config/:tenantId', async (req, res) => {
  * Delete tenant config
  * DELETE /config/{tenantId}
  */
-app.delete('/config/:tenantId', async (req, res) => {
+app.delete('/config/:tenantId', requirePermission('delete', 'tenant'), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const configPath = path.join(MOCK_S3_DIR, `${tenantId}-config.json`);
@@ -285,7 +419,7 @@ app.delete('/config/:tenantId', async (req, res) => {
     const config = JSON.parse(configData);
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(MOCK_S3_DIR, 'backups', `${tenantId}-${timestamp}.json`);
+    const backupPath = path.join(BACKUPS_DIR, `${tenantId}-${timestamp}.json`);
 
     await fs.writeFile(backupPath, JSON.stringify(config, null, 2));
 
@@ -329,15 +463,28 @@ app.get('/', (_req, res) => {
       tenants: {
         list: 'GET /config/tenants',
         load: 'GET /config/:tenantId?editable_only=true',
+        versions: 'GET /config/:tenantId/versions',
+        version: 'GET /config/:tenantId/versions/:versionId',
         save: 'PUT /config/:tenantId',
         delete: 'DELETE /config/:tenantId',
       },
+      webhookEcho: {
+        capture: 'POST /webhook-echo',
+        list: 'GET /webhook-echo',
+        clear: 'DELETE /webhook-echo',
+      },
     },
     documentation: 'See docs/PHASE_5_S3_INTEGRATION.md for full API documentation',
     mockS3Directory: MOCK_S3_DIR,
   });
 });
 
+/**
+ * Capturing webhook endpoint for testing form fulfillment
+ * POST|GET|DELETE /webhook-echo
+ */
+app.use(createWebhookEchoRouter());
+
 /**
  * 404 handler
  */
@@ -378,8 +525,12 @@ async function startServer() {
     console.log(`  GET    http://localhost:${PORT}/health`);
     console.log(`  GET    http://localhost:${PORT}/config/tenants`);
     console.log(`  GET    http://localhost:${PORT}/config/:tenantId`);
+    console.log(`  GET    http://localhost:${PORT}/config/:tenantId/versions`);
+    console.log(`  GET    http://localhost:${PORT}/config/:tenantId/versions/:versionId`);
     console.log(`  PUT    http://localhost:${PORT}/config/:tenantId`);
     console.log(`  DELETE http://localhost:${PORT}/config/:tenantId`);
+    console.log(`  POST   http://localhost:${PORT}/webhook-echo`);
+    console.log(`  GET    http://localhost:${PORT}/webhook-echo`);
     console.log('='.repeat(60));
     console.log('');
   });
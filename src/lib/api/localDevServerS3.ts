@@ -8,6 +8,9 @@
 import express from 'express';
 import { fromIni } from '@aws-sdk/credential-providers';
 import { S3Client, ListObjectsV2Command, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { canAccessTenant } from '@/lib/permissions';
+import { checkConfigChanges, requestAccess, requireDeployForDeployWrites, requirePermission } from './devServerAuth';
+import { createWebhookEchoRouter } from './devWebhookEcho';
 
 const app = express();
 const PORT = Number(process.env.DEV_SERVER_PORT) || 3001;
@@ -20,7 +23,8 @@ const AWS_PROFILE = process.env.AWS_PROFILE || 'ai-developer';
 
 // Only same-machine browser origins may call this dev server. This is the guard
 // that stops a malicious web page (incl. DNS-rebinding to 127.0.0.1) from
-// driving writes to the real S3 bucket — there is no auth on these routes.
+// driving writes to the real S3 bucket. Route role checks (devServerAuth) read
+// an unverified token, so they model the Lambda's rules rather than guard.
 const LOCAL_ORIGIN_RE = /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/;
 
 // Initialize S3 client with profile
@@ -98,7 +102,7 @@ app.get('/health', (_req, res) => {
  * List all tenant configs from S3
  * GET /config/tenants
  */
-app.get('/config/tenants', async (_req, res) => {
+app.get('/config/tenants', async (req, res) => {
   try {
     // List all tenant folders in s3://myrecruiter-picasso/tenants/
     const command = new ListObjectsV2Command({
@@ -110,7 +114,10 @@ app.get('/config/tenants', async (_req, res) => {
     const response = await s3Client.send(command);
 
     // Extract tenant IDs from common prefixes (folders)
-    const tenantPrefixes = response.CommonPrefixes || [];
+    const access = requestAccess(req);
+    const tenantPrefixes = (response.CommonPrefixes || []).filter((prefix) =>
+      canAccessTenant(access, prefix.Prefix?.replace('tenants/', '').replace('/', '') || '')
+    );
 
     const tenants = await Promise.all(
       tenantPrefixes.map(async (prefix) => {
@@ -166,7 +173,7 @@ app.get('/config/tenants', async (_req, res) => {
  * Load tenant config
  * GET /config/{tenantId}?editable_only=true
  */
-app.get('/config/:tenantId', async (req, res) => {
+app.get('/config/:tenantId', requirePermission('view', 'config'), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const editableOnly = req.query.editable_only === 'true';
@@ -237,7 +244,7 @@ app.get('/config/:tenantId', async (req, res) => {
  * Save tenant config
  * PUT /config/{tenantId}
  */
-app.put('/config/:tenantId', async (req, res) => {
+app.put('/config/:tenantId', requirePermission('edit', 'config'), requireDeployForDeployWrites(), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const {
@@ -258,6 +265,17 @@ app.put('/config/:tenantId', async (req, res) => {
     const configKey = `tenants/${tenantId}/${tenantId}-config.json`;
     let finalConfig = editedConfig;
 
+    // Editors may save content but not AWS/model settings
+    let storedConfig: Record<string, unknown> | null = null;
+    try {
+      const stored = await s3Client.send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: configKey }));
+      const storedData = await stored.Body?.transformToString();
+      storedConfig = storedData ? JSON.parse(storedData) : null;
+    } catch (error: unknown) {
+      if ((error as Error).name !== 'NoSuchKey') throw error;
+    }
+    if (!checkConfigChanges(req, res, storedConfig, editedConfig)) return;
+
     // Create backup if requested
     if (create_backup) {
       try {
@@ -340,7 +358,7 @@ app.put('/config/:tenantId', async (req, res) => {
  * Delete tenant config
  * DELETE /config/{tenantId}
  */
-app.delete('/config/:tenantId', async (req, res) => {
+app.delete('/config/:tenantId', requirePermission('delete', 'tenant'), async (req, res) => {
   try {
     const { tenantId } = req.params;
     const configKey = `tenants/${tenantId}/${tenantId}-config.json`;
@@ -395,6 +413,12 @@ app.delete('/config/:tenantId', async (req, res) => {
   }
 });
 
+/**
+ * Capturing webhook endpoint for testing form fulfillment
+ * POST|GET|DELETE /webhook-echo
+ */
+app.use(createWebhookEchoRouter());
+
 /**
  * 404 handler
  */
@@ -438,6 +462,8 @@ async function startServer() {
     console.log(`  GET    http://localhost:${PORT}/config/:tenantId`);
     console.log(`  PUT    http://localhost:${PORT}/config/:tenantId`);
     console.log(`  DELETE http://localhost:${PORT}/config/:tenantId`);
+    console.log(`  POST   http://localhost:${PORT}/webhook-echo`);
+    console.log(`  GET    http://localhost:${PORT}/webhook-echo`);
     console.log('='.repeat(60));
     console.log('');
   });
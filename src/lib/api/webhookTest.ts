@@ -0,0 +1,73 @@
+/**
+ * webhookTest — send a sample submission to a form's webhook from the browser.
+ *
+ * Operators use this from the form editor to check the payload contract of
+ * their endpoint (n8n, Zapier, a custom receiver) without a live submission.
+ * The local dev servers expose `/webhook-echo`, which captures what it
+ * receives, for trying the flow without an endpoint of your own.
+ *
+ * Never throws — returns a classified outcome. A browser can only read the
+ * response of an endpoint that allows cross-origin requests, so a network
+ * failure usually means the endpoint rejects CORS rather than that it is down.
+ */
+import { WEBHOOK_CONTENT_TYPE } from '@/lib/contracts';
+import type { WebhookPayload } from '@/lib/webhookPayload';
+
+/** Capturing endpoint of the local dev servers (see devWebhookEcho.ts) */
+export const LOCAL_WEBHOOK_ECHO_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_WEBHOOK_ECHO_URL) ||
+  'http://localhost:3001/webhook-echo';
+
+/** Longest response body kept for display */
+const MAX_RESPONSE_LENGTH = 2000;
+
+const TIMEOUT_MS = 10_000;
+
+export type WebhookTestOutcome =
+  | { status: 'delivered'; httpStatus: number; body: string; durationMs: number }
+  | { status: 'rejected'; httpStatus: number; body: string; durationMs: number }
+  | { status: 'failed'; detail: string };
+
+/**
+ * POST a payload to a webhook URL:
+ * - `delivered` — the endpoint answered 2xx
+ * - `rejected`  — the endpoint answered with an error status
+ * - `failed`    — the request didn't complete (bad URL, network, CORS, timeout)
+ */
+export async function sendTestWebhook(url: string, payload: WebhookPayload): Promise<WebhookTestOutcome> {
+  let target: URL;
+  try {
+    target = new URL(url.trim());
+  } catch {
+    return { status: 'failed', detail: 'Enter a full URL, e.g. https://example.com/webhook' };
+  }
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    return { status: 'failed', detail: 'Webhook URLs must use http or https' };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  const started = Date.now();
+  try {
+    const res = await fetch(target.toString(), {
+      method: 'POST',
+      headers: { 'Content-Type': WEBHOOK_CONTENT_TYPE },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    const text = await res.text().catch(() => '');
+    const body = text.length > MAX_RESPONSE_LENGTH ? `${text.slice(0, MAX_RESPONSE_LENGTH)}…` : text;
+    return { status: res.ok ? 'delivered' : 'rejected', httpStatus: res.status, body, durationMs: Date.now() - started };
+  } catch (e) {
+    if (controller.signal.aborted) {
+      return { status: 'failed', detail: `No response within ${TIMEOUT_MS / 1000} seconds` };
+    }
+    const message = e instanceof Error ? e.message : 'network error';
+    return {
+      status: 'failed',
+      detail: `${message} — check the URL, and that the endpoint allows cross-origin requests from this site`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Branch Normalization
+ * Canonical `available_ctas` shape for branches read from storage
+ */
+
+import type { ConversationBranch } from '@/types/config';
+
+/**
+ * Schema discipline: stored configs may carry old-shape branches (no `secondary`
+ * array — hand-authored or pre-builder records). Readers across the app assume
+ * the canonical {primary, secondary[]} shape, so normalize once at the store
+ * boundary instead of guarding every consumer.
+ */
+export function normalizeBranches(
+  branches: Record<string, ConversationBranch> | undefined | null
+): Record<string, ConversationBranch> {
+  return Object.fromEntries(
+    Object.entries(branches || {}).map(([key, branch]) => [
+      key,
+      {
+        ...branch,
+        available_ctas: {
+          ...branch?.available_ctas,
+          primary: branch?.available_ctas?.primary ?? '',
+          secondary: branch?.available_ctas?.secondary ?? [],
+        },
+      },
+    ])
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Bulk operations: apply, dry run per tenant, conditional save per tenant
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as configOps from '@/lib/api/config-operations';
+import { ConfigAPIError } from '@/lib/api/errors';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse } from '@/types/api';
+import { applyBulkOperation, applyBulkPreviews, previewBulkOperation, type BulkOperation } from '..';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+function makeConfig(tenantId: string, over: Record<string, unknown> = {}): TenantConfig {
+  return {
+    tenant_id: tenantId,
+    tenant_hash: 'hash',
+    subscription_tier: 'Standard',
+    version: '1.0',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    content_showcase: [],
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBABCDEFGH12', aws_region: 'us-east-1' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+const stored: Record<string, TenantConfig> = {
+  ACME01: makeConfig('ACME01'),
+  BETA02: makeConfig('BETA02', { feature_flags: { V5_SINGLE_PASS: true } }),
+};
+
+const flagOn: BulkOperation = { type: 'set_feature_flag', flag: 'V5_SINGLE_PASS', enabled: true };
+
+describe('applyBulkOperation', () => {
+  it('sets a feature flag, keeping the others', () => {
+    const config = makeConfig('A', { feature_flags: { MESSENGER_CHANNEL: true } });
+    expect(applyBulkOperation(config, flagOn).feature_flags).toEqual({ MESSENGER_CHANNEL: true, V5_SINGLE_PASS: true });
+    expect(config.feature_flags).toEqual({ MESSENGER_CHANNEL: true });
+  });
+
+  it('appends custom constraints without duplicates, or replaces them', () => {
+    const config = makeConfig('A', { bedrock_instructions: { custom_constraints: ['Be brief'] } });
+    const append = applyBulkOperation(config, { type: 'set_custom_constraints', constraints: ['Be brief', 'No prices'], mode: 'append' });
+    const replace = applyBulkOperation(config, { type: 'set_custom_constraints', constraints: ['No prices'], mode: 'replace' });
+
+    expect(append.bedrock_instructions!.custom_constraints).toEqual(['Be brief', 'No prices']);
+    expect(replace.bedrock_instructions!.custom_constraints).toEqual(['No prices']);
+  });
+
+  it('adds a CTA, replacing an existing one only when asked', () => {
+    const existing = { label: 'Old', action: 'send_query', type: 'bedrock_query' } as const;
+    const config = makeConfig('A', { cta_definitions: { donate: existing } });
+    const cta = { label: 'Donate', action: 'external_link', type: 'external_link', url: 'https://x.org' } as const;
+
+    expect(applyBulkOperation(config, { type: 'add_cta', ctaId: 'donate', cta, overwrite: false })).toBe(config);
+    expect(applyBulkOperation(config, { type: 'add_cta', ctaId: 'donate', cta, overwrite: true }).cta_definitions.donate).toEqual(cta);
+  });
+
+  it('sets max CTAs per response', () => {
+    const config = makeConfig('A', { cta_settings: { fallback_branch: 'main' } });
+    expect(applyBulkOperation(config, { type: 'set_max_ctas', value: 3 }).cta_settings).toEqual({
+      fallback_branch: 'main',
+      max_ctas_per_response: 3,
+    });
+  });
+});
+
+describe('previewBulkOperation / applyBulkPreviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(configOps.loadConfig).mockImplementation(async (tenantId: string) => {
+      if (!stored[tenantId]) throw new ConfigAPIError('CONFIG_NOT_FOUND', `No config for ${tenantId}`);
+      return { config: stored[tenantId], metadata: {}, etag: `etag-${tenantId}` } as unknown as LoadConfigResponse;
+    });
+  });
+
+  it('diffs and validates each tenant, and reports load failures', async () => {
+    const previews = await previewBulkOperation(['ACME01', 'BETA02', 'GONE03'], flagOn);
+
+    expect(previews.map((p) => [p.tenantId, p.status])).toEqual([
+      ['ACME01', 'ready'],
+      ['BETA02', 'unchanged'],
+      ['GONE03', 'error'],
+    ]);
+    expect(previews[0].etag).toBe('etag-ACME01');
+    expect(previews[0].changelog!.summary.modified + previews[0].changelog!.summary.added).toBeGreaterThan(0);
+    expect(previews[0].validation!.valid).toBe(true);
+    expect(previews[2].error).toContain('No config for GONE03');
+  });
+
+  it('blocks tenants the change would make invalid', async () => {
+    const cta = { label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'missing' } as const;
+    const [preview] = await previewBulkOperation(['ACME01'], { type: 'add_cta', ctaId: 'apply', cta, overwrite: false });
+
+    expect(preview.status).toBe('invalid');
+    expect(preview.introducedErrors.length).toBeGreaterThan(0);
+  });
+
+  it('saves ready tenants with their own ETag and reports conflicts', async () => {
+    vi.mocked(configOps.saveConfig)
+      .mockResolvedValueOnce({ etag: 'new' })
+      .mockRejectedValueOnce(new ConfigAPIError('VERSION_CONFLICT', 'changed', undefined, 409));
+    stored.CORE04 = makeConfig('CORE04');
+
+    const previews = await previewBulkOperation(['ACME01', 'BETA02', 'CORE04'], flagOn);
+    const results = await applyBulkPreviews(previews);
+
+    expect(configOps.saveConfig).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(configOps.saveConfig).mock.calls[0][2]).toEqual({ createBackup: true, ifMatch: 'etag-ACME01' });
+    expect(vi.mocked(configOps.saveConfig).mock.calls[0][1].feature_flags).toEqual({ V5_SINGLE_PASS: true });
+    expect(results.map((r) => [r.tenantId, r.status])).toEqual([
+      ['ACME01', 'saved'],
+      ['BETA02', 'skipped'],
+      ['CORE04', 'conflict'],
+    ]);
+  });
+
+  it('saves only contract sections, never stored card_inventory or channels', async () => {
+    vi.mocked(configOps.saveConfig).mockResolvedValueOnce({ etag: 'new' });
+    stored.MSGR05 = makeConfig('MSGR05', {
+      card_inventory: [{ id: 'legacy-card' }],
+      channels: { messenger: { page_id: '123', access_token: 'stale' } },
+      monitor: { enabled: true },
+      some_retired_section: { junk: true },
+    });
+
+    await applyBulkPreviews(await previewBulkOperation(['MSGR05'], flagOn));
+
+    const sent = vi.mocked(configOps.saveConfig).mock.calls[0][1];
+    expect(sent).not.toHaveProperty('card_inventory');
+    expect(sent).not.toHaveProperty('channels');
+    expect(sent).not.toHaveProperty('monitor');
+    expect(sent).not.toHaveProperty('some_retired_section');
+    expect(sent.feature_flags).toEqual({ V5_SINGLE_PASS: true });
+    expect(sent.tenant_id).toBe('MSGR05');
+  });
+});
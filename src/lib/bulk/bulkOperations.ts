@@ -0,0 +1,216 @@
+/**
+ * Bulk Operations
+ * One change applied to many tenant configs: dry run, then save each
+ *
+ * The dry run loads every selected tenant, applies the operation to the
+ * stored config, and records the diff, the validation of the result and the
+ * ETag it was loaded at. Saving sends each config back with its own ETag, so a
+ * tenant edited since the dry run fails with a conflict instead of being
+ * overwritten. Only the contract's sections are sent, as from the editor.
+ */
+
+import type { CTADefinition, TenantConfig } from '@/types/config';
+import type { PermissionSection } from '@/lib/permissions';
+import { loadConfig, saveConfig } from '@/lib/api/config-operations';
+import { ConfigAPIError } from '@/lib/api/errors';
+import { pickSavedSections } from '@/lib/contracts';
+import { semanticDiff, type ConfigChangelog } from '@/lib/diff';
+import { validateTenantConfig } from '@/lib/cli';
+import type { ConfigValidationResult, ValidationError } from '@/lib/validation';
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+export type BulkOperation =
+  | { type: 'set_feature_flag'; flag: string; enabled: boolean }
+  | { type: 'set_custom_constraints'; constraints: string[]; mode: 'append' | 'replace' }
+  | { type: 'add_cta'; ctaId: string; cta: CTADefinition; overwrite: boolean }
+  | { type: 'set_max_ctas'; value: number };
+
+export type BulkOperationType = BulkOperation['type'];
+
+/** Section each operation edits, for `can('edit', section)` */
+export const BULK_OPERATION_SECTIONS: Record<BulkOperationType, PermissionSection> = {
+  set_feature_flag: 'settings',
+  set_custom_constraints: 'settings',
+  add_cta: 'content',
+  set_max_ctas: 'settings',
+};
+
+/**
+ * One line for the results table and the confirm dialog
+ */
+export function describeBulkOperation(operation: BulkOperation): string {
+  switch (operation.type) {
+    case 'set_feature_flag':
+      return `Set feature flag ${operation.flag} to ${operation.enabled ? 'on' : 'off'}`;
+    case 'set_custom_constraints':
+      return `${operation.mode === 'append' ? 'Add' : 'Replace custom constraints with'} ${operation.constraints.length} custom constraint${operation.constraints.length === 1 ? '' : 's'}`;
+    case 'add_cta':
+      return `${operation.overwrite ? 'Add or replace' : 'Add'} CTA "${operation.ctaId}"`;
+    case 'set_max_ctas':
+      return `Set max CTAs per response to ${operation.value}`;
+  }
+}
+
+/**
+ * `config` with the operation applied. Doesn't touch `config`.
+ *
+ * @example
+ * applyBulkOperation(config, { type: 'set_feature_flag', flag: 'V5_SINGLE_PASS', enabled: true });
+ */
+export function applyBulkOperation(config: TenantConfig, operation: BulkOperation): TenantConfig {
+  switch (operation.type) {
+    case 'set_feature_flag':
+      return {
+        ...config,
+        feature_flags: { ...config.feature_flags, [operation.flag]: operation.enabled },
+      };
+
+    case 'set_custom_constraints': {
+      const current = config.bedrock_instructions?.custom_constraints ?? [];
+      const constraints =
+        operation.mode === 'append'
+          ? [...current, ...operation.constraints.filter((c) => !current.includes(c))]
+          : [...operation.constraints];
+      if (JSON.stringify(constraints) === JSON.stringify(current)) return config;
+      // Stored instructions may be sparse; only the constraints are set here
+      return {
+        ...config,
+        bedrock_instructions: {
+          ...config.bedrock_instructions,
+          custom_constraints: constraints,
+          _updated: new Date().toISOString(),
+        } as TenantConfig['bedrock_instructions'],
+      };
+    }
+
+    case 'add_cta':
+      if (config.cta_definitions?.[operation.ctaId] && !operation.overwrite) return config;
+      return {
+        ...config,
+        cta_definitions: { ...config.cta_definitions, [operation.ctaId]: { ...operation.cta } },
+      };
+
+    case 'set_max_ctas':
+      return {
+        ...config,
+        cta_settings: { ...config.cta_settings, max_ctas_per_response: operation.value },
+      };
+  }
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+export interface BulkPreview {
+  tenantId: string;
+  /**
+   * - `ready`: changes, and the result has no new validation errors
+   * - `unchanged`: the tenant already matches
+   * - `invalid`: the change introduces validation errors
+   * - `error`: the config couldn't be loaded
+   */
+  status: 'ready' | 'unchanged' | 'invalid' | 'error';
+  /** ETag the config was loaded at; the save is conditional on it */
+  etag?: string;
+  after?: TenantConfig;
+  changelog?: ConfigChangelog;
+  validation?: ConfigValidationResult;
+  /** Errors in the result that the stored config doesn't have */
+  introducedErrors: ValidationError[];
+  error?: string;
+}
+
+function changeCount(changelog: ConfigChangelog): number {
+  return changelog.summary.added + changelog.summary.removed + changelog.summary.modified;
+}
+
+async function previewTenant(tenantId: string, operation: BulkOperation): Promise<BulkPreview> {
+  try {
+    const { config, etag } = await loadConfig(tenantId);
+    const after = applyBulkOperation(config, operation);
+    const changelog = semanticDiff(config, after);
+    const validation = validateTenantConfig(after);
+    const existing = new Set(validateTenantConfig(config).errors.map((e) => e.message));
+    const introducedErrors = validation.errors.filter((e) => !existing.has(e.message));
+
+    let status: BulkPreview['status'] = 'ready';
+    if (changeCount(changelog) === 0) status = 'unchanged';
+    else if (introducedErrors.length > 0) status = 'invalid';
+
+    return { tenantId, status, etag, after, changelog, validation, introducedErrors };
+  } catch (error) {
+    return {
+      tenantId,
+      status: 'error',
+      introducedErrors: [],
+      error: error instanceof Error ? error.message : 'Failed to load configuration',
+    };
+  }
+}
+
+/**
+ * Load each tenant (one at a time) and preview the operation on it
+ */
+export async function previewBulkOperation(
+  tenantIds: string[],
+  operation: BulkOperation,
+  onProgress?: (preview: BulkPreview) => void
+): Promise<BulkPreview[]> {
+  const previews: BulkPreview[] = [];
+  for (const tenantId of tenantIds) {
+    const preview = await previewTenant(tenantId, operation);
+    previews.push(preview);
+    onProgress?.(preview);
+  }
+  return previews;
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+export interface BulkResult {
+  tenantId: string;
+  status: 'saved' | 'skipped' | 'conflict' | 'failed';
+  message: string;
+}
+
+async function applyTenant(preview: BulkPreview): Promise<BulkResult> {
+  const { tenantId } = preview;
+  if (preview.status === 'unchanged') return { tenantId, status: 'skipped', message: 'Already up to date' };
+  if (preview.status === 'error') return { tenantId, status: 'skipped', message: `Not loaded: ${preview.error}` };
+  if (preview.status === 'invalid') {
+    return { tenantId, status: 'skipped', message: `Would add ${preview.introducedErrors.length} validation error(s)` };
+  }
+
+  try {
+    await saveConfig(tenantId, pickSavedSections(preview.after!), { createBackup: true, ifMatch: preview.etag });
+    return { tenantId, status: 'saved', message: `Saved ${changeCount(preview.changelog!)} change(s)` };
+  } catch (error) {
+    if (error instanceof ConfigAPIError && error.code === 'VERSION_CONFLICT') {
+      return { tenantId, status: 'conflict', message: 'Changed since the dry run; run it again' };
+    }
+    return { tenantId, status: 'failed', message: error instanceof Error ? error.message : 'Save failed' };
+  }
+}
+
+/**
+ * Save every `ready` preview with the ETag it was loaded at; everything else
+ * is reported as skipped
+ */
+export async function applyBulkPreviews(
+  previews: BulkPreview[],
+  onProgress?: (result: BulkResult) => void
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = [];
+  for (const preview of previews) {
+    const result = await applyTenant(preview);
+    results.push(result);
+    onProgress?.(result);
+  }
+  return results;
+}
@@ -0,0 +1,12 @@
+/**
+ * Bulk operations across tenant configs
+ */
+
+export {
+  applyBulkOperation,
+  describeBulkOperation,
+  previewBulkOperation,
+  applyBulkPreviews,
+  BULK_OPERATION_SECTIONS,
+} from './bulkOperations';
+export type { BulkOperation, BulkOperationType, BulkPreview, BulkResult } from './bulkOperations';
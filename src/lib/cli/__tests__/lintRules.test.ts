@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { lintConfig, fixConfig } from '../lintRules';
+import type { TenantConfig } from '@/types/config';
+
+function makeConfig(): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    conversational_forms: {
+      apply: {
+        enabled: true,
+        form_id: 'old_id',
+        program: 'p',
+        title: 'Apply',
+        description: '',
+        fields: [{ id: 'adult', type: 'boolean', label: 'Adult?', prompt: 'Are you 18?', required: true }],
+      },
+    },
+    cta_definitions: {
+      go: { text: 'Go', action: 'send_query', query: 'q', type: 'bedrock_query' },
+      more: { label: 'More', action: 'show_info', prompt: 'p', type: 'info_request' },
+    },
+    conversation_branches: {
+      legacy: { available_ctas: { primary: 'go' } },
+      messy: { available_ctas: { primary: 'go', secondary: ['more', 'go', 'more', 'gone'] } },
+    },
+  } as unknown as TenantConfig;
+}
+
+describe('lintRules', () => {
+  it('reports each auto-repairable issue once', () => {
+    const rules = lintConfig(makeConfig()).map((f) => `${f.rule}:${f.entityId}`);
+    expect(rules).toEqual([
+      'form-field-shape:apply',
+      'form-id-mismatch:apply',
+      'branch-ctas-shape:legacy',
+      'branch-missing-cta:messy',
+      'branch-duplicate-cta:messy',
+      'cta-legacy-text:go',
+    ]);
+  });
+
+  it('fixes everything it reports, without mutating the input, idempotently', () => {
+    const input = makeConfig();
+    const snapshot = structuredClone(input);
+    const { config } = fixConfig(input);
+
+    expect(input).toEqual(snapshot);
+    expect(config.conversational_forms.apply.form_id).toBe('apply');
+    expect(config.conversational_forms.apply.fields[0].type).toBe('select');
+    expect(config.conversation_branches.legacy.available_ctas.secondary).toEqual([]);
+    expect(config.conversation_branches.messy.available_ctas.secondary).toEqual(['more']);
+    expect(config.cta_definitions.go.label).toBe('Go');
+    expect(lintConfig(config)).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * picasso-config CLI against an in-memory filesystem: commands, output
+ * formats, exit codes, and which commands write files.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runCli, type CliIO } from '../picassoConfigCli';
+
+const validConfig = {
+  tenant_id: 'TEST001',
+  tenant_hash: 'abc123def456',
+  subscription_tier: 'Standard',
+  chat_title: 'Title',
+  tone_prompt: 'You are helpful.',
+  welcome_message: 'Hi!',
+  version: '2.0',
+  generated_at: 1700000000,
+  branding: { primary_color: '#00AA88', font_family: 'Inter' },
+  features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+  aws: { knowledge_base_id: 'KBABCDEFGH12', aws_region: 'us-east-1' },
+  programs: { volunteer: { program_id: 'volunteer', program_name: 'Volunteer' } },
+  conversational_forms: {
+    apply: {
+      enabled: true,
+      form_id: 'apply',
+      program: 'volunteer',
+      title: 'Apply',
+      description: 'Apply to volunteer',
+      fields: [{ id: 'email', type: 'email', label: 'Email', prompt: 'Your email?', required: true }],
+    },
+  },
+  cta_definitions: {
+    apply_cta: { label: 'Apply', action: 'start_form', formId: 'apply', type: 'form_trigger' },
+  },
+  conversation_branches: {
+    volunteer_branch: { available_ctas: { primary: 'apply_cta', secondary: [] } },
+  },
+};
+
+const brokenConfig = {
+  ...validConfig,
+  cta_definitions: {
+    apply_cta: { label: 'Apply', action: 'start_form', formId: 'missing_form', type: 'form_trigger' },
+  },
+};
+
+const lintableConfig = {
+  ...validConfig,
+  conversation_branches: { legacy: { available_ctas: { primary: 'apply_cta' } } },
+};
+
+function createIO(files: Record<string, string>) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const written: Record<string, string> = {};
+  const io: CliIO = {
+    async readFile(path) {
+      if (!(path in files)) throw new Error('ENOENT');
+      return files[path];
+    },
+    async writeFile(path, content) {
+      written[path] = content;
+      files[path] = content;
+    },
+    async expandPath(path) {
+      if (path in files) return [path];
+      const inside = Object.keys(files).filter((f) => f.startsWith(`${path}/`) && f.endsWith('.json'));
+      if (inside.length === 0) throw new Error('ENOENT');
+      return inside.sort();
+    },
+    stdout: (text) => void out.push(text),
+    stderr: (text) => void err.push(text),
+  };
+  return { io, written, stdout: () => out.join(''), stderr: () => err.join('') };
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+describe('picasso-config', () => {
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    files = {
+      'configs/a.json': json(validConfig),
+      'configs/b.json': json(brokenConfig),
+      'configs/notes.txt': 'ignored',
+    };
+  });
+
+  describe('validate', () => {
+    it('runs the validation engine on every JSON file in a directory', async () => {
+      const { io, stdout } = createIO(files);
+      const code = await runCli(['validate', 'configs'], io);
+
+      expect(code).toBe(1);
+      expect(stdout()).toContain('configs/b.json');
+      expect(stdout()).not.toContain('configs/a.json');
+      expect(stdout()).toMatch(/missing_form/);
+      expect(stdout()).toMatch(/✗ validate: 2 files, [1-9]\d* errors?/);
+    });
+
+    it('exits 0 for a clean file', async () => {
+      const { io, stdout } = createIO(files);
+      expect(await runCli(['validate', 'configs/a.json'], io)).toBe(0);
+      expect(stdout()).toContain('✓ validate: 1 file');
+    });
+
+    it('reports unparseable JSON without echoing its content', async () => {
+      files['configs/bad.json'] = '{"secret": ';
+      const { io, stdout } = createIO(files);
+      const code = await runCli(['validate', 'configs/bad.json', '--format', 'json'], io);
+
+      expect(code).toBe(1);
+      const report = JSON.parse(stdout());
+      expect(report.files[0].issues).toEqual([{ level: 'error', message: 'Not parseable JSON' }]);
+      expect(stdout()).not.toContain('secret');
+    });
+
+    it('writes JUnit with one failing case per error', async () => {
+      const { io, stdout } = createIO(files);
+      await runCli(['validate', 'configs', '--format=junit'], io);
+      const xml = stdout();
+
+      expect(xml).toMatch(/^<\?xml/);
+      expect(xml).toContain('<testsuite name="configs/a.json" tests="1" failures="0">');
+      expect(xml).toMatch(/<testsuite name="configs\/b.json" tests="\d+" failures="[1-9]\d*">/);
+      expect(xml).toContain('<failure message=');
+    });
+  });
+
+  describe('lint', () => {
+    it('reports fixable issues without writing, then --fix repairs them', async () => {
+      files['configs/c.json'] = json(lintableConfig);
+      const { io, stdout, written } = createIO(files);
+
+      expect(await runCli(['lint', 'configs/c.json'], io)).toBe(1);
+      expect(stdout()).toContain('[branch-ctas-shape]');
+      expect(written).toEqual({});
+
+      expect(await runCli(['lint', '--fix', 'configs/c.json'], io)).toBe(0);
+      const fixed = JSON.parse(written['configs/c.json']);
+      expect(fixed.conversation_branches.legacy.available_ctas).toEqual({ primary: 'apply_cta', secondary: [] });
+
+      expect(await runCli(['lint', 'configs/c.json'], io)).toBe(0);
+    });
+  });
+
+  describe('normalize', () => {
+    it('--check reports without writing; plain normalize rewrites', async () => {
+      files['configs/c.json'] = json(lintableConfig);
+      const { io, written } = createIO(files);
+
+      expect(await runCli(['normalize', '--check', 'configs'], io)).toBe(1);
+      expect(written).toEqual({});
+
+      expect(await runCli(['normalize', 'configs'], io)).toBe(0);
+      expect(Object.keys(written)).toEqual(['configs/c.json']);
+      expect(await runCli(['normalize', '--check', 'configs'], io)).toBe(0);
+    });
+  });
+
+  describe('migrate', () => {
+    it('--check reports without writing; plain migrate upgrades only the files that need it', async () => {
+      files['configs/c.json'] = json(lintableConfig);
+      const { io, written, stdout } = createIO(files);
+
+      expect(await runCli(['migrate', '--check', 'configs'], io)).toBe(1);
+      expect(written).toEqual({});
+
+      expect(await runCli(['migrate', 'configs'], io)).toBe(0);
+      expect(stdout()).toContain('configs/c.json (migrated)');
+      expect(stdout()).toContain('[branch-and-cta-shape]');
+      expect(Object.keys(written)).toEqual(['configs/c.json']);
+      expect(JSON.parse(written['configs/c.json']).conversation_branches.legacy.available_ctas.secondary).toEqual([]);
+      expect(await runCli(['migrate', '--check', 'configs'], io)).toBe(0);
+    });
+  });
+
+  describe('diff', () => {
+    it('prints a per-entity changelog and exits 1 when files differ', async () => {
+      const { io, stdout } = createIO(files);
+      const code = await runCli(['diff', 'configs/a.json', 'configs/b.json'], io);
+
+      expect(code).toBe(1);
+      expect(stdout()).toContain('CTAs');
+      expect(stdout()).toContain('~ apply_cta (Apply)');
+      expect(stdout()).toContain('formId: "apply" → "missing_form"');
+    });
+
+    it('exits 0 for identical files and supports JSON output', async () => {
+      const { io, stdout } = createIO(files);
+      expect(await runCli(['diff', 'configs/a.json', 'configs/a.json', '--format', 'json'], io)).toBe(0);
+      expect(JSON.parse(stdout()).summary).toEqual({ added: 0, removed: 0, modified: 0 });
+    });
+  });
+
+  describe('usage', () => {
+    it('exits 2 on unknown commands, options, formats, and unreadable paths', async () => {
+      for (const argv of [['frobnicate', 'x'], ['validate', '--nope', 'x'], ['validate', '--format', 'xml', 'x'], ['validate', 'missing'], ['diff', 'configs/a.json']]) {
+        const { io, stderr } = createIO(files);
+        expect(await runCli(argv, io)).toBe(2);
+        expect(stderr()).toContain('picasso-config:');
+      }
+    });
+
+    it('prints help', async () => {
+      const { io, stdout } = createIO(files);
+      expect(await runCli(['--help'], io)).toBe(0);
+      expect(stdout()).toContain('Usage: picasso-config');
+    });
+  });
+});
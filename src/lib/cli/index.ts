@@ -0,0 +1,10 @@
+/**
+ * picasso-config CLI core
+ */
+
+export { runCli, validateTenantConfig, USAGE } from './picassoConfigCli';
+export { lintConfig, fixConfig } from './lintRules';
+export { formatReports, formatText, formatJson, formatJUnit, OUTPUT_FORMATS } from './reporters';
+export type { CliIO } from './picassoConfigCli';
+export type { LintRuleId, LintFinding, LintFixResult } from './lintRules';
+export type { OutputFormat, CliIssue, FileReport } from './reporters';
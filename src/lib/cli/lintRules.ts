@@ -0,0 +1,201 @@
+/**
+ * Config Lint Rules
+ * Shape problems in stored configs that have one obviously right repair
+ *
+ * These are the issues the builder silently repairs on load (normalizeForms,
+ * normalizeBranches, form_id = key) plus reference hygiene that can't be
+ * wrong to fix. Anything needing a judgment call stays with `validate`.
+ */
+
+import type { ConversationBranch, TenantConfig } from '@/types/config';
+import { normalizeForms } from '@/lib/formNormalization';
+
+export type LintRuleId =
+  | 'form-field-shape'
+  | 'form-id-mismatch'
+  | 'branch-ctas-shape'
+  | 'branch-missing-cta'
+  | 'branch-duplicate-cta'
+  | 'cta-legacy-text';
+
+export interface LintFinding {
+  rule: LintRuleId;
+  message: string;
+  /** Top-level section, e.g. `conversational_forms` */
+  section: string;
+  entityId?: string;
+}
+
+export interface LintFixResult {
+  config: TenantConfig;
+  /** Findings the fix resolved */
+  fixed: LintFinding[];
+}
+
+interface LintRule {
+  id: LintRuleId;
+  /** The rule's findings and the config with them repaired */
+  run: (config: TenantConfig) => { config: TenantConfig; findings: LintFinding[] };
+}
+
+const formFieldShape: LintRule = {
+  id: 'form-field-shape',
+  run: (config) => {
+    const { forms, repairs } = normalizeForms(config.conversational_forms);
+    const findings = repairs.map((repair) => ({
+      rule: 'form-field-shape' as const,
+      message: repair,
+      section: 'conversational_forms',
+      entityId: repair.split(':')[0],
+    }));
+    return { config: repairs.length > 0 ? { ...config, conversational_forms: forms } : config, findings };
+  },
+};
+
+const formIdMismatch: LintRule = {
+  id: 'form-id-mismatch',
+  run: (config) => {
+    const findings: LintFinding[] = [];
+    const forms = { ...config.conversational_forms };
+    for (const [key, form] of Object.entries(forms)) {
+      if (form && form.form_id !== key) {
+        findings.push({
+          rule: 'form-id-mismatch',
+          message: `form_id "${form.form_id ?? ''}" does not match its key "${key}"`,
+          section: 'conversational_forms',
+          entityId: key,
+        });
+        forms[key] = { ...form, form_id: key };
+      }
+    }
+    return { config: findings.length > 0 ? { ...config, conversational_forms: forms } : config, findings };
+  },
+};
+
+const branchCtasShape: LintRule = {
+  id: 'branch-ctas-shape',
+  run: (config) => {
+    const findings: LintFinding[] = [];
+    const branches: Record<string, ConversationBranch> = { ...config.conversation_branches };
+    for (const [key, branch] of Object.entries(branches)) {
+      const ctas = branch?.available_ctas;
+      if (!ctas || typeof ctas.primary !== 'string' || !Array.isArray(ctas.secondary)) {
+        findings.push({
+          rule: 'branch-ctas-shape',
+          message: 'available_ctas is missing `primary` or the `secondary` array',
+          section: 'conversation_branches',
+          entityId: key,
+        });
+        branches[key] = {
+          ...branch,
+          available_ctas: {
+            ...ctas,
+            primary: ctas?.primary ?? '',
+            secondary: Array.isArray(ctas?.secondary) ? ctas.secondary : [],
+          },
+        };
+      }
+    }
+    return { config: findings.length > 0 ? { ...config, conversation_branches: branches } : config, findings };
+  },
+};
+
+const branchMissingCta: LintRule = {
+  id: 'branch-missing-cta',
+  run: (config) => {
+    const findings: LintFinding[] = [];
+    const ctas = config.cta_definitions ?? {};
+    const branches: Record<string, ConversationBranch> = { ...config.conversation_branches };
+    for (const [key, branch] of Object.entries(branches)) {
+      const secondary = branch?.available_ctas?.secondary;
+      if (!Array.isArray(secondary)) continue;
+      const missing = secondary.filter((id) => !ctas[id]);
+      if (missing.length === 0) continue;
+      findings.push({
+        rule: 'branch-missing-cta',
+        message: `secondary CTAs reference missing ${missing.length === 1 ? 'CTA' : 'CTAs'}: ${missing.join(', ')}`,
+        section: 'conversation_branches',
+        entityId: key,
+      });
+      branches[key] = {
+        ...branch,
+        available_ctas: { ...branch.available_ctas, secondary: secondary.filter((id) => ctas[id]) },
+      };
+    }
+    return { config: findings.length > 0 ? { ...config, conversation_branches: branches } : config, findings };
+  },
+};
+
+const branchDuplicateCta: LintRule = {
+  id: 'branch-duplicate-cta',
+  run: (config) => {
+    const findings: LintFinding[] = [];
+    const branches: Record<string, ConversationBranch> = { ...config.conversation_branches };
+    for (const [key, branch] of Object.entries(branches)) {
+      const { primary, secondary } = branch?.available_ctas ?? {};
+      if (!Array.isArray(secondary)) continue;
+      const deduped = [...new Set(secondary)].filter((id) => id !== primary);
+      if (deduped.length === secondary.length) continue;
+      findings.push({
+        rule: 'branch-duplicate-cta',
+        message: 'secondary CTAs repeat a CTA or the primary CTA',
+        section: 'conversation_branches',
+        entityId: key,
+      });
+      branches[key] = { ...branch, available_ctas: { ...branch.available_ctas, secondary: deduped } };
+    }
+    return { config: findings.length > 0 ? { ...config, conversation_branches: branches } : config, findings };
+  },
+};
+
+const ctaLegacyText: LintRule = {
+  id: 'cta-legacy-text',
+  run: (config) => {
+    const findings: LintFinding[] = [];
+    const ctas = { ...config.cta_definitions };
+    for (const [key, cta] of Object.entries(ctas)) {
+      if (cta && !cta.label && cta.text) {
+        findings.push({
+          rule: 'cta-legacy-text',
+          message: 'uses the legacy `text` field without a `label`',
+          section: 'cta_definitions',
+          entityId: key,
+        });
+        ctas[key] = { ...cta, label: cta.text };
+      }
+    }
+    return { config: findings.length > 0 ? { ...config, cta_definitions: ctas } : config, findings };
+  },
+};
+
+/** Order matters for --fix: shapes are repaired before references are pruned */
+const RULES: LintRule[] = [
+  formFieldShape,
+  formIdMismatch,
+  branchCtasShape,
+  branchMissingCta,
+  branchDuplicateCta,
+  ctaLegacyText,
+];
+
+/**
+ * Apply every lint repair. Pure and idempotent: a fixed config lints clean.
+ * Later rules see earlier repairs, so one problem isn't reported twice.
+ */
+export function fixConfig(config: TenantConfig): LintFixResult {
+  let current = config;
+  const fixed: LintFinding[] = [];
+  for (const rule of RULES) {
+    const result = rule.run(current);
+    fixed.push(...result.findings);
+    current = result.config;
+  }
+  return { config: current, fixed };
+}
+
+/**
+ * Report every auto-repairable issue in a config
+ */
+export function lintConfig(config: TenantConfig): LintFinding[] {
+  return fixConfig(config).fixed;
+}
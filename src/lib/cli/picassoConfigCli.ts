@@ -0,0 +1,385 @@
+/**
+ * picasso-config CLI
+ * Headless validate / diff / normalize / lint / migrate for local config files
+ *
+ * Core of scripts/picasso-config.ts, kept inside src/** so it's testable
+ * with a fake filesystem (same split as prodConfigsValidator). Runs the same
+ * validation engine the builder shows, with no AWS access.
+ *
+ * Exit codes: 0 = clean · 1 = problems found (or files differ) · 2 = usage/IO error.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import { validateConfig, type ConfigValidationResult } from '@/lib/validation';
+import { normalizeForms } from '@/lib/formNormalization';
+import { normalizeBranches } from '@/lib/branchNormalization';
+import { migrateConfig } from '@/lib/migrations';
+import { semanticDiff, type ConfigChangelog, type DiffEntry } from '@/lib/diff';
+import { fixConfig } from './lintRules';
+import { OUTPUT_FORMATS, formatReports, type CliIssue, type FileReport, type OutputFormat } from './reporters';
+
+/**
+ * Filesystem and console access, injected so the CLI core stays pure
+ */
+export interface CliIO {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  /** A file path as-is; a directory as every `*.json` beneath it, sorted */
+  expandPath(path: string): Promise<string[]>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+export const USAGE = `Usage: picasso-config <command> [options] <paths...>
+
+Commands:
+  validate <paths...>      Run the builder's validation engine (entities,
+                           relationships, runtime, orphans)
+  diff <a.json> <b.json>   Per-entity changelog from a to b
+  normalize <paths...>     Rewrite forms and branches in canonical shape
+  lint <paths...>          Report auto-repairable issues
+  migrate <paths...>       Upgrade configs to the current schema version
+
+Paths may be JSON files or directories (searched for *.json).
+
+Options:
+  --format <text|json|junit>  Output format (default: text; diff: text|json)
+  --strict                    validate: warnings also fail
+  --fix                       lint: apply repairs and write the files
+  --check                     normalize, migrate: report files that would
+                              change without writing them
+  -h, --help                  Show this help
+`;
+
+/** Bad arguments: reported with the usage text */
+class UsageError extends Error {}
+
+/** Unreadable input: reported on its own */
+class InputError extends Error {}
+
+interface ParsedArgs {
+  command: string;
+  paths: string[];
+  format: OutputFormat;
+  strict: boolean;
+  fix: boolean;
+  check: boolean;
+  help: boolean;
+}
+
+const BOOLEAN_FLAGS = new Set(['--strict', '--fix', '--check', '--help', '-h']);
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Set<string>();
+  let format: string = 'text';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format' || arg.startsWith('--format=')) {
+      format = arg.includes('=') ? arg.slice('--format='.length) : (argv[++i] ?? '');
+    } else if (BOOLEAN_FLAGS.has(arg)) {
+      flags.add(arg);
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new UsageError(`Unknown format "${format}" (expected text, json, or junit)`);
+  }
+
+  return {
+    command: positional[0] ?? '',
+    paths: positional.slice(1),
+    format: format as OutputFormat,
+    strict: flags.has('--strict'),
+    fix: flags.has('--fix'),
+    check: flags.has('--check'),
+    help: flags.has('--help') || flags.has('-h'),
+  };
+}
+
+// ============================================================================
+// FILE HANDLING
+// ============================================================================
+
+type LoadedFile = { file: string; config: TenantConfig } | { file: string; error: string };
+
+async function expandAll(paths: string[], io: CliIO): Promise<string[]> {
+  if (paths.length === 0) throw new UsageError('No paths given');
+  const files: string[] = [];
+  for (const path of paths) {
+    try {
+      files.push(...(await io.expandPath(path)));
+    } catch {
+      throw new InputError(`Cannot read ${path}`);
+    }
+  }
+  return [...new Set(files)];
+}
+
+async function loadFile(file: string, io: CliIO): Promise<LoadedFile> {
+  let body: string;
+  try {
+    body = await io.readFile(file);
+  } catch {
+    throw new InputError(`Cannot read ${file}`);
+  }
+  try {
+    const parsed: unknown = JSON.parse(body);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { file, error: 'Not a config object' };
+    }
+    return { file, config: parsed as TenantConfig };
+  } catch {
+    // Never echo the parser message — it quotes file content
+    return { file, error: 'Not parseable JSON' };
+  }
+}
+
+function serialize(config: TenantConfig): string {
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+const fileError = (error: string): CliIssue => ({ level: 'error', message: error });
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Validate a stored config the way the builder does after loading it:
+ * migrated to the current schema first
+ */
+export function validateTenantConfig(config: TenantConfig): ConfigValidationResult {
+  const { config: migrated } = migrateConfig(config);
+  return validateConfig(
+    migrated.programs ?? {},
+    migrated.conversational_forms ?? {},
+    migrated.cta_definitions ?? {},
+    migrated.conversation_branches ?? {},
+    migrated.cta_settings?.max_ctas_per_response || 4,
+    migrated.topic_definitions ?? [],
+    { config: migrated, showcaseItems: migrated.content_showcase ?? [] }
+  );
+}
+
+async function runValidate(args: ParsedArgs, io: CliIO): Promise<FileReport[]> {
+  const reports: FileReport[] = [];
+  for (const file of await expandAll(args.paths, io)) {
+    const loaded = await loadFile(file, io);
+    if ('error' in loaded) {
+      reports.push({ file, issues: [fileError(loaded.error)] });
+      continue;
+    }
+    const result = validateTenantConfig(loaded.config);
+    const issues: CliIssue[] = [...result.errors, ...result.warnings].map((issue) => ({
+      level: issue.level,
+      message: issue.message,
+      scope: issue.entityType,
+      entityId: issue.entityId,
+      field: issue.field,
+      suggestedFix: issue.suggestedFix,
+    }));
+    reports.push({ file, issues });
+  }
+  return reports;
+}
+
+async function runLint(args: ParsedArgs, io: CliIO): Promise<FileReport[]> {
+  const reports: FileReport[] = [];
+  for (const file of await expandAll(args.paths, io)) {
+    const loaded = await loadFile(file, io);
+    if ('error' in loaded) {
+      reports.push({ file, issues: [fileError(loaded.error)] });
+      continue;
+    }
+
+    const { config: fixedConfig, fixed: findings } = fixConfig(loaded.config);
+    if (args.fix && findings.length > 0) {
+      await io.writeFile(file, serialize(fixedConfig));
+    }
+    reports.push({
+      file,
+      changed: args.fix && findings.length > 0,
+      // Fixed findings are reported for the record but no longer fail
+      issues: findings.map((finding) => ({
+        level: args.fix ? 'info' : 'error',
+        message: args.fix ? `fixed: ${finding.message}` : finding.message,
+        rule: finding.rule,
+        scope: finding.section,
+        entityId: finding.entityId,
+      })),
+    });
+  }
+  return reports;
+}
+
+async function runNormalize(args: ParsedArgs, io: CliIO): Promise<FileReport[]> {
+  const reports: FileReport[] = [];
+  for (const file of await expandAll(args.paths, io)) {
+    const loaded = await loadFile(file, io);
+    if ('error' in loaded) {
+      reports.push({ file, issues: [fileError(loaded.error)] });
+      continue;
+    }
+
+    const { config } = loaded;
+    const { forms, repairs } = normalizeForms(config.conversational_forms);
+    const normalized: TenantConfig = {
+      ...config,
+      conversational_forms: forms,
+      conversation_branches: normalizeBranches(config.conversation_branches),
+    };
+    const changed = serialize(normalized) !== serialize(config);
+    if (changed && !args.check) {
+      await io.writeFile(file, serialize(normalized));
+    }
+    reports.push({
+      file,
+      changed,
+      issues: args.check && changed
+        ? [{ level: 'error', message: 'Not in canonical shape; run `picasso-config normalize` to rewrite' }]
+        : repairs.map((repair) => ({ level: 'info', message: repair })),
+    });
+  }
+  return reports;
+}
+
+async function runMigrate(args: ParsedArgs, io: CliIO): Promise<FileReport[]> {
+  const reports: FileReport[] = [];
+  for (const file of await expandAll(args.paths, io)) {
+    const loaded = await loadFile(file, io);
+    if ('error' in loaded) {
+      reports.push({ file, issues: [fileError(loaded.error)] });
+      continue;
+    }
+
+    const { config, report, changed } = migrateConfig(loaded.config);
+    if (changed && !args.check) {
+      await io.writeFile(file, serialize(config));
+    }
+    reports.push({
+      file,
+      changed,
+      issues: args.check && changed
+        ? [{
+            level: 'error',
+            message: `Has schema ${report.fromVersion} shapes; run \`picasso-config migrate\` to upgrade to ${report.toVersion}`,
+          }]
+        : report.applied.flatMap((step) =>
+            step.changes.map((change) => ({ level: 'info' as const, message: change, rule: step.id }))
+          ),
+    });
+  }
+  return reports;
+}
+
+function formatChange(change: DiffEntry): string {
+  const show = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+  const path = change.path || '(order)';
+  if (change.kind === 'added') return `${path}: added ${show(change.after)}`;
+  if (change.kind === 'removed') return `${path}: removed ${show(change.before)}`;
+  return `${path}: ${show(change.before)} → ${show(change.after)}`;
+}
+
+const KIND_MARK = { added: '+', removed: '-', modified: '~' } as const;
+
+function formatChangelog(changelog: ConfigChangelog, a: string, b: string): string {
+  const { added, removed, modified } = changelog.summary;
+  const lines = [`--- ${a}`, `+++ ${b}`];
+  for (const section of changelog.sections) {
+    lines.push('', section.label);
+    if (section.type === 'entities') {
+      for (const entity of section.entities) {
+        const label = entity.label !== entity.id ? ` (${entity.label})` : '';
+        lines.push(`  ${KIND_MARK[entity.kind]} ${entity.id}${label}`);
+        lines.push(...entity.changes.map((change) => `      ${formatChange(change)}`));
+      }
+    } else {
+      lines.push(...section.changes.map((change) => `  ${KIND_MARK[section.kind]} ${formatChange(change)}`));
+    }
+  }
+  lines.push('', `${added} added, ${removed} removed, ${modified} modified`);
+  return lines.join('\n') + '\n';
+}
+
+async function runDiff(args: ParsedArgs, io: CliIO): Promise<number> {
+  if (args.paths.length !== 2) throw new UsageError('diff takes exactly two files');
+  if (args.format === 'junit') throw new UsageError('diff supports --format text or json');
+
+  const [a, b] = await Promise.all(args.paths.map((path) => loadFile(path, io)));
+  for (const loaded of [a, b]) {
+    if ('error' in loaded) {
+      io.stderr(`${loaded.file}: ${loaded.error}\n`);
+      return 2;
+    }
+  }
+  const changelog = semanticDiff(
+    (a as { config: TenantConfig }).config,
+    (b as { config: TenantConfig }).config
+  );
+  io.stdout(
+    args.format === 'json' ? JSON.stringify(changelog, null, 2) + '\n' : formatChangelog(changelog, a.file, b.file)
+  );
+  return changelog.sections.length > 0 ? 1 : 0;
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Run the CLI with arguments after the program name; resolves to the exit code
+ *
+ * @example
+ * process.exit(await runCli(process.argv.slice(2), nodeIO));
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.help || !args.command) {
+      (args.help ? io.stdout : io.stderr)(USAGE);
+      return args.help ? 0 : 2;
+    }
+
+    let reports: FileReport[];
+    switch (args.command) {
+      case 'validate':
+        reports = await runValidate(args, io);
+        break;
+      case 'lint':
+        reports = await runLint(args, io);
+        break;
+      case 'normalize':
+        reports = await runNormalize(args, io);
+        break;
+      case 'migrate':
+        reports = await runMigrate(args, io);
+        break;
+      case 'diff':
+        return await runDiff(args, io);
+      default:
+        throw new UsageError(`Unknown command "${args.command}"`);
+    }
+
+    io.stdout(formatReports(args.format, args.command, reports));
+    const failing = reports.some((report) =>
+      report.issues.some((issue) => issue.level === 'error' || (issue.level === 'warning' && args.strict))
+    );
+    return failing ? 1 : 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`picasso-config: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof InputError) {
+      io.stderr(`picasso-config: ${error.message}\n`);
+      return 2;
+    }
+    throw error;
+  }
+}
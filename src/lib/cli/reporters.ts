@@ -0,0 +1,147 @@
+/**
+ * CLI Reporters
+ * Text, JSON, and JUnit renderings of per-file results
+ */
+
+export type OutputFormat = 'text' | 'json' | 'junit';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'junit'];
+
+export interface CliIssue {
+  level: 'error' | 'warning' | 'info';
+  message: string;
+  /** Lint rule id, for lint findings */
+  rule?: string;
+  /** Entity type (validate) or config section (lint) */
+  scope?: string;
+  entityId?: string;
+  field?: string;
+  suggestedFix?: string;
+}
+
+export interface FileReport {
+  file: string;
+  issues: CliIssue[];
+  /** The command rewrote (or, with --check, would rewrite) the file */
+  changed?: boolean;
+}
+
+function location(issue: CliIssue): string {
+  const entity = [issue.scope, issue.entityId].filter(Boolean).join(':');
+  return [entity, issue.field].filter(Boolean).join(' ');
+}
+
+function countLevels(reports: FileReport[]) {
+  const issues = reports.flatMap((report) => report.issues);
+  return {
+    errors: issues.filter((issue) => issue.level === 'error').length,
+    warnings: issues.filter((issue) => issue.level === 'warning').length,
+  };
+}
+
+const CHANGED_MARK: Record<string, string> = { lint: ' (fixed)', migrate: ' (migrated)' };
+
+/**
+ * Human-readable report, grouped by file
+ */
+export function formatText(command: string, reports: FileReport[]): string {
+  const lines: string[] = [];
+  for (const report of reports) {
+    if (report.issues.length === 0 && !report.changed) continue;
+    lines.push(report.file + (report.changed ? CHANGED_MARK[command] ?? ' (normalized)' : ''));
+    for (const issue of report.issues) {
+      const where = location(issue);
+      const rule = issue.rule ? `  [${issue.rule}]` : '';
+      lines.push(`  ${issue.level.padEnd(7)} ${where ? `${where}: ` : ''}${issue.message}${rule}`);
+      if (issue.suggestedFix) lines.push(`          ↳ ${issue.suggestedFix}`);
+    }
+    lines.push('');
+  }
+
+  const { errors, warnings } = countLevels(reports);
+  const files = `${reports.length} ${reports.length === 1 ? 'file' : 'files'}`;
+  lines.push(
+    errors + warnings === 0
+      ? `✓ ${command}: ${files}, no problems`
+      : `✗ ${command}: ${files}, ${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Machine-readable report
+ */
+export function formatJson(command: string, reports: FileReport[]): string {
+  return JSON.stringify({ command, summary: { files: reports.length, ...countLevels(reports) }, files: reports }, null, 2) + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML for CI test reporters: one suite per file, one failing test
+ * case per error, warnings in system-out, and a passing case for clean files
+ */
+export function formatJUnit(command: string, reports: FileReport[]): string {
+  const { errors } = countLevels(reports);
+  const suites = reports.map((report) => {
+    const failures = report.issues.filter((issue) => issue.level === 'error');
+    const notes = report.issues.filter((issue) => issue.level !== 'error');
+    const cases =
+      failures.length === 0
+        ? [`    <testcase classname="${escapeXml(report.file)}" name="${escapeXml(command)}"/>`]
+        : failures.map((issue) => {
+            const name = location(issue) || command;
+            return [
+              `    <testcase classname="${escapeXml(report.file)}" name="${escapeXml(name)}">`,
+              `      <failure message="${escapeXml(issue.message)}"${issue.rule ? ` type="${escapeXml(issue.rule)}"` : ''}>${escapeXml(
+                [issue.message, issue.suggestedFix].filter(Boolean).join('\n')
+              )}</failure>`,
+              '    </testcase>',
+            ].join('\n');
+          });
+    const out =
+      notes.length > 0
+        ? [
+            `    <system-out>${escapeXml(
+              notes.map((issue) => `${issue.level}: ${location(issue) ? `${location(issue)}: ` : ''}${issue.message}`).join('\n')
+            )}</system-out>`,
+          ]
+        : [];
+    return [
+      `  <testsuite name="${escapeXml(report.file)}" tests="${cases.length}" failures="${failures.length}">`,
+      ...cases,
+      ...out,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const tests = reports.reduce(
+    (total, report) => total + Math.max(1, report.issues.filter((issue) => issue.level === 'error').length),
+    0
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="picasso-config ${escapeXml(command)}" tests="${tests}" failures="${errors}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+export function formatReports(format: OutputFormat, command: string, reports: FileReport[]): string {
+  switch (format) {
+    case 'json':
+      return formatJson(command, reports);
+    case 'junit':
+      return formatJUnit(command, reports);
+    default:
+      return formatText(command, reports);
+  }
+}
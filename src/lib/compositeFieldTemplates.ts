@@ -3,7 +3,7 @@
  * Predefined configurations for composite field types (name, address, etc.)
  */
 
-import type { FormSubField, CompositeFieldConfig } from '@/types/config';
+import type { FormField, FormSubField, CompositeFieldConfig } from '@/types/config';
 
 /**
  * Name field template (US format)
@@ -114,6 +114,29 @@ export function generateCompositeSubfields(
   }));
 }
 
+/**
+ * A subfield's own ID: generated subfield IDs are prefixed with the field ID
+ * (`full_name.first_name` → `first_name`)
+ */
+export function subfieldKey(field: FormField, subfield: FormSubField): string {
+  return subfield.id.startsWith(`${field.id}.`) ? subfield.id.slice(field.id.length + 1) : subfield.id;
+}
+
+/**
+ * How show-if rules, merge fields and submissions refer to a part of a
+ * name/address field: `fieldId.key` (`full_name.first_name`)
+ */
+export function subfieldRef(field: FormField, subfield: FormSubField): string {
+  return `${field.id}.${subfieldKey(field, subfield)}`;
+}
+
+/**
+ * The subfield a `subfieldRef` key names
+ */
+export function findSubfield(field: FormField | undefined, key: string): FormSubField | undefined {
+  return field?.subfields?.find((subfield) => subfieldKey(field, subfield) === key);
+}
+
 /**
  * Check if a field type is composite
  */
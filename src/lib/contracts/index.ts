@@ -0,0 +1,19 @@
+/**
+ * Contracts shared with the Lambdas: the config sections the config manager
+ * accepts, and the body a form's webhook fulfillment posts
+ */
+
+export {
+  isSavedSection,
+  pickSavedSections,
+  PENDING_SECTIONS,
+  SAVED_KEYS,
+  SAVED_SECTIONS,
+} from './sectionContract';
+export {
+  WEBHOOK_ANSWER_TYPES,
+  WEBHOOK_CONTENT_TYPE,
+  WEBHOOK_EVENT,
+  WEBHOOK_PAYLOAD_FIELDS,
+  WEBHOOK_TEST_ID_PREFIX,
+} from './webhookContract';
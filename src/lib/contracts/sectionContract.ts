@@ -0,0 +1,44 @@
+/**
+ * Section Contract
+ * The top-level keys a saved config may carry, from config_sections_contract.json
+ *
+ * getMergedConfig builds the payload the editor saves; anything else that
+ * PUTs a whole config (bulk operations, new-tenant seeding) cuts it down with
+ * `pickSavedSections` first. A stored config can hold keys the server rejects
+ * (card_inventory), keys it owns (channels, with the Meta OAuth state), and
+ * retired keys. Sections left out are preserved server-side untouched.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import contract from './config_sections_contract.json';
+
+/**
+ * Sections the editor has but the deployed server doesn't accept yet
+ * (`cb_pending_server`). Saved only when the build opts in with
+ * VITE_SAVE_PENDING_SECTIONS=true, for a server that already lists them.
+ */
+export const PENDING_SECTIONS: readonly string[] = contract.cb_pending_server.sections;
+
+const SAVE_PENDING_SECTIONS = import.meta.env.VITE_SAVE_PENDING_SECTIONS === 'true';
+
+/** Sections the Config Builder sends, without metadata */
+export const SAVED_SECTIONS: readonly string[] = SAVE_PENDING_SECTIONS
+  ? [...contract.cb_must_emit, ...PENDING_SECTIONS]
+  : contract.cb_must_emit;
+
+/** Sections the Config Builder sends, plus metadata fields */
+export const SAVED_KEYS: ReadonlySet<string> = new Set([...SAVED_SECTIONS, ...contract.metadata_fields]);
+
+/**
+ * Whether edits to a top-level section reach the server on save
+ */
+export function isSavedSection(section: string): boolean {
+  return SAVED_KEYS.has(section);
+}
+
+/**
+ * `config` without the keys a save must not send
+ */
+export function pickSavedSections(config: TenantConfig): TenantConfig {
+  return Object.fromEntries(Object.entries(config).filter(([key]) => SAVED_KEYS.has(key))) as unknown as TenantConfig;
+}
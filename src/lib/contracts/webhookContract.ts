@@ -0,0 +1,22 @@
+/**
+ * Webhook Contract
+ * The body a form's webhook fulfillment receives, from webhook_payload_contract.json
+ *
+ * buildWebhookPayload builds it for the builder's Test webhook action, so an
+ * endpoint tested here parses what a live submission sends.
+ */
+
+import contract from './webhook_payload_contract.json';
+
+export const WEBHOOK_CONTENT_TYPE: string = contract.content_type;
+
+export const WEBHOOK_EVENT = contract.event as 'form_submission';
+
+/** Top-level payload keys, in the order they are sent */
+export const WEBHOOK_PAYLOAD_FIELDS: readonly string[] = Object.keys(contract.fields);
+
+/** JSON type of an answer by form field type; `subfields` and `other` are the fallbacks */
+export const WEBHOOK_ANSWER_TYPES: Readonly<Record<string, string>> = contract.answer_types;
+
+/** submission_id prefix of the builder's test sends */
+export const WEBHOOK_TEST_ID_PREFIX: string = contract.test_submission_id_prefix;
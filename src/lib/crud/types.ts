@@ -162,6 +162,10 @@ export interface EntityEditorConfig<T extends BaseEntity> {
   allowEdit?: boolean;
   allowDelete?: boolean;
   allowDuplicate?: boolean;
+  /** Offer "Import from tenant" (programs, forms, CTAs and branches only) */
+  allowImport?: boolean;
+  /** Offer JSON/CSV export and import (programs, forms, CTAs, branches and showcase items only) */
+  allowFileTransfer?: boolean;
   gridColumns?: {
     mobile: number;
     tablet: number;
@@ -0,0 +1,162 @@
+/**
+ * Semantic Diff Tests
+ * Deploy changelog: per-entity changes, form field changes keyed by id,
+ * settings sections, and bookkeeping fields ignored
+ */
+
+import { describe, it, expect } from 'vitest';
+import { semanticDiff } from '../semanticDiff';
+import type { TenantConfig } from '@/types/config';
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Chat',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    programs: {},
+    conversational_forms: {
+      volunteer: {
+        enabled: true,
+        form_id: 'volunteer',
+        program: 'p1',
+        title: 'Volunteer',
+        description: '',
+        fields: [
+          { id: 'name', type: 'text', label: 'Name', prompt: 'Name?', required: true },
+          { id: 'email', type: 'email', label: 'Email', prompt: 'Email?', required: true },
+        ],
+      },
+    },
+    cta_definitions: {
+      apply: { label: 'Apply', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+    },
+    conversation_branches: {},
+    content_showcase: [],
+    branding: { primary_color: '#000000' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+describe('semanticDiff', () => {
+  it('reports nothing for identical configs and ignores bookkeeping fields', () => {
+    const changelog = semanticDiff(
+      makeConfig(),
+      makeConfig({ version: '1.1', generated_at: 2, last_updated: 'now' } as Partial<TenantConfig>)
+    );
+    expect(changelog.sections).toEqual([]);
+    expect(changelog.summary).toEqual({ added: 0, removed: 0, modified: 0 });
+    expect(changelog.tenantId).toBe('TEST001');
+    expect(changelog.baseVersion).toBe('1.0');
+  });
+
+  it('reports added, removed, and modified entities with display labels', () => {
+    const before = makeConfig();
+    const after = makeConfig({
+      cta_definitions: {
+        apply: { label: 'Apply now', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+        donate: { label: 'Donate', action: 'external_link', url: 'https://d.test', type: 'external_link' },
+      } as TenantConfig['cta_definitions'],
+      conversational_forms: {},
+    });
+
+    const changelog = semanticDiff(before, after);
+
+    expect(changelog.sections.map((s) => s.section)).toEqual(['conversational_forms', 'cta_definitions']);
+    const ctas = changelog.sections.find((s) => s.section === 'cta_definitions');
+    expect(ctas).toMatchObject({
+      type: 'entities',
+      entities: [
+        {
+          id: 'apply',
+          label: 'Apply now',
+          kind: 'modified',
+          changes: [{ path: 'label', kind: 'changed', before: 'Apply', after: 'Apply now' }],
+        },
+        { id: 'donate', label: 'Donate', kind: 'added', changes: [] },
+      ],
+    });
+    expect(changelog.sections[0]).toMatchObject({
+      entities: [{ id: 'volunteer', label: 'Volunteer', kind: 'removed' }],
+    });
+    expect(changelog.summary).toEqual({ added: 1, removed: 1, modified: 1 });
+  });
+
+  it('keys form field changes by field id and reports reordering', () => {
+    const before = makeConfig();
+    const form = before.conversational_forms.volunteer;
+    const after = makeConfig({
+      conversational_forms: {
+        volunteer: {
+          ...form,
+          fields: [
+            { ...form.fields[1], label: 'Email address' },
+            form.fields[0],
+            { id: 'phone', type: 'phone', label: 'Phone', prompt: 'Phone?', required: false },
+          ],
+        },
+      },
+    });
+
+    const [forms] = semanticDiff(before, after).sections;
+    expect(forms.type === 'entities' && forms.entities[0].changes).toEqual([
+      { path: 'fields.email.label', kind: 'changed', before: 'Email', after: 'Email address' },
+      { path: 'fields.phone', kind: 'added', after: after.conversational_forms.volunteer.fields[2] },
+      { path: 'fields', kind: 'changed', before: ['name', 'email'], after: ['email', 'name', 'phone'] },
+    ]);
+  });
+
+  it('matches showcase items by id regardless of position', () => {
+    const card = { id: 'gala', type: 'event', enabled: true, name: 'Gala', tagline: '', description: '' };
+    const other = { id: 'walk', type: 'event', enabled: true, name: 'Walk', tagline: '', description: '' };
+    const changelog = semanticDiff(
+      makeConfig({ content_showcase: [card, other] } as Partial<TenantConfig>),
+      makeConfig({ content_showcase: [{ ...other, enabled: false }, card] } as Partial<TenantConfig>)
+    );
+
+    expect(changelog.sections).toMatchObject([
+      {
+        section: 'content_showcase',
+        entities: [{ id: 'walk', label: 'Walk', kind: 'modified', changes: [{ path: 'enabled' }] }],
+      },
+    ]);
+  });
+
+  it('reports settings sections and groups top-level scalars under General', () => {
+    const changelog = semanticDiff(
+      makeConfig(),
+      makeConfig({
+        chat_title: 'New chat',
+        branding: { primary_color: '#ffffff' },
+        feature_flags: { scheduling_enabled: true },
+      } as Partial<TenantConfig>)
+    );
+
+    expect(changelog.sections).toEqual([
+      {
+        type: 'settings',
+        section: 'general',
+        label: 'General',
+        kind: 'modified',
+        changes: [{ path: 'chat_title', kind: 'changed', before: 'Chat', after: 'New chat' }],
+      },
+      {
+        type: 'settings',
+        section: 'branding',
+        label: 'Branding',
+        kind: 'modified',
+        changes: [{ path: 'primary_color', kind: 'changed', before: '#000000', after: '#ffffff' }],
+      },
+      {
+        type: 'settings',
+        section: 'feature_flags',
+        label: 'Feature Flags',
+        kind: 'added',
+        changes: [{ path: 'scheduling_enabled', kind: 'added', after: true }],
+      },
+    ]);
+  });
+});
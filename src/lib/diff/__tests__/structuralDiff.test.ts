@@ -0,0 +1,60 @@
+/**
+ * Structural Diff Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { structuralDiff, diffConfigs, sectionOf } from '../structuralDiff';
+
+describe('structuralDiff', () => {
+  it('returns nothing for equal values', () => {
+    expect(structuralDiff({ a: [1, { b: 'x' }] }, { a: [1, { b: 'x' }] })).toEqual([]);
+  });
+
+  it('reports added, removed, and changed keys with dotted paths in sorted order', () => {
+    expect(structuralDiff({ b: { c: 2 }, gone: true }, { b: { c: 3 }, a: 'new' })).toEqual([
+      { path: 'a', kind: 'added', after: 'new' },
+      { path: 'b.c', kind: 'changed', before: 2, after: 3 },
+      { path: 'gone', kind: 'removed', before: true },
+    ]);
+  });
+
+  it('compares arrays index by index', () => {
+    expect(structuralDiff({ list: ['a', 'b'] }, { list: ['a', 'c', 'd'] })).toEqual([
+      { path: 'list[1]', kind: 'changed', before: 'b', after: 'c' },
+      { path: 'list[2]', kind: 'added', after: 'd' },
+    ]);
+  });
+
+  it('reports a type change as a single changed entry', () => {
+    expect(structuralDiff({ x: { y: 1 } }, { x: 'flat' })).toEqual([
+      { path: 'x', kind: 'changed', before: { y: 1 }, after: 'flat' },
+    ]);
+  });
+
+  it('treats undefined as absent', () => {
+    expect(structuralDiff({ a: undefined }, {})).toEqual([]);
+  });
+});
+
+describe('diffConfigs', () => {
+  it('ignores bookkeeping metadata', () => {
+    const before = { tenant_id: 'A', version: '1', last_updated: 'x', chat_title: 'Hi' };
+    const after = { tenant_id: 'A', version: '2', last_updated: 'y', chat_title: 'Hello' };
+    expect(diffConfigs(before, after)).toEqual([
+      { path: 'chat_title', kind: 'changed', before: 'Hi', after: 'Hello' },
+    ]);
+  });
+
+  it('treats a missing config as empty', () => {
+    expect(diffConfigs(null, { chat_title: 'Hi' })).toEqual([
+      { path: 'chat_title', kind: 'added', after: 'Hi' },
+    ]);
+  });
+});
+
+describe('sectionOf', () => {
+  it('returns the top-level key of a path', () => {
+    expect(sectionOf('cta_definitions.apply.label')).toBe('cta_definitions');
+    expect(sectionOf('content_showcase[0].name')).toBe('content_showcase');
+  });
+});
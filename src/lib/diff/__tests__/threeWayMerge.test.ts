@@ -0,0 +1,180 @@
+/**
+ * Three-Way Merge Tests
+ * Auto-merge of non-overlapping edits, per-field conflicts, and applying
+ * the operator's choices
+ */
+
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, applyConflictChoices } from '../threeWayMerge';
+import type { TenantConfig } from '@/types/config';
+
+function makeConfig(over: Record<string, unknown> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Chat',
+    conversational_forms: {},
+    cta_definitions: {
+      apply: { label: 'Apply', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+    },
+    conversation_branches: {},
+    content_showcase: [
+      { id: 'gala', name: 'Gala', enabled: true },
+      { id: 'walk', name: 'Walk', enabled: true },
+    ],
+    branding: { primary_color: '#000000', font_family: 'inter' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+const base = makeConfig();
+
+describe('threeWayMerge', () => {
+  it('combines non-overlapping changes from both sides without conflicts', () => {
+    const local = makeConfig({
+      branding: { primary_color: '#ff0000', font_family: 'inter' },
+      cta_definitions: {
+        apply: { label: 'Apply now', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+      },
+    });
+    const server = makeConfig({
+      version: '1.1',
+      branding: { primary_color: '#000000', font_family: 'roboto' },
+      cta_definitions: {
+        apply: { label: 'Apply', action: 'external_link', url: 'https://y.test', type: 'external_link' },
+        donate: { label: 'Donate', action: 'external_link', url: 'https://d.test', type: 'external_link' },
+      },
+    });
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.branding).toEqual({ primary_color: '#ff0000', font_family: 'roboto' });
+    expect(merged.cta_definitions.apply).toMatchObject({ label: 'Apply now', url: 'https://y.test' });
+    expect(merged.cta_definitions.donate).toBeDefined();
+    // The server's revision is the one the next save builds on
+    expect(merged.version).toBe('1.1');
+  });
+
+  it('reports a per-field conflict when both sides changed the same value', () => {
+    const local = makeConfig({ branding: { primary_color: '#ff0000', font_family: 'inter' } });
+    const server = makeConfig({ branding: { primary_color: '#00ff00', font_family: 'inter' } });
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts).toEqual([
+      {
+        id: 'branding/primary_color',
+        path: ['branding', 'primary_color'],
+        section: 'branding',
+        entityId: undefined,
+        base: '#000000',
+        local: '#ff0000',
+        server: '#00ff00',
+      },
+    ]);
+    expect(merged.branding.primary_color).toBe('#ff0000');
+  });
+
+  it('treats delete-vs-edit of an entity as an entity-level conflict', () => {
+    const local = makeConfig({ cta_definitions: {} });
+    const server = makeConfig({
+      cta_definitions: {
+        apply: { label: 'Apply today', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+      },
+    });
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ section: 'cta_definitions', entityId: 'apply', local: undefined });
+    expect(merged.cta_definitions.apply).toBeUndefined();
+  });
+
+  it('merges showcase items by id and keeps local order', () => {
+    const local = makeConfig({
+      content_showcase: [
+        { id: 'walk', name: 'Walk', enabled: true },
+        { id: 'gala', name: 'Gala night', enabled: true },
+      ],
+    });
+    const server = makeConfig({
+      content_showcase: [
+        { id: 'gala', name: 'Gala', enabled: false },
+        { id: 'walk', name: 'Walk', enabled: true },
+        { id: 'drive', name: 'Drive', enabled: true },
+      ],
+    });
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.content_showcase).toEqual([
+      { id: 'walk', name: 'Walk', enabled: true },
+      { id: 'gala', name: 'Gala night', enabled: false },
+      { id: 'drive', name: 'Drive', enabled: true },
+    ]);
+  });
+
+  it("takes the server's value for sections the editor doesn't send", () => {
+    const stored = makeConfig({ channels: { messenger: { page_id: '1' } }, monitor: { enabled: true } });
+    // getMergedConfig never emits channels or monitor
+    const { channels: _channels, monitor: _monitor, ...local } = stored as unknown as Record<string, unknown>;
+    const server = makeConfig({ channels: { messenger: { page_id: '2' } }, monitor: { enabled: true } });
+
+    const { merged, conflicts } = threeWayMerge(stored, local as unknown as TenantConfig, server);
+
+    expect(conflicts).toEqual([]);
+    expect((merged as unknown as Record<string, unknown>).channels).toEqual({ messenger: { page_id: '2' } });
+    expect((merged as unknown as Record<string, unknown>).monitor).toEqual({ enabled: true });
+  });
+
+  it('keeps a section the local payload leaves out instead of deleting it', () => {
+    const stored = makeConfig({ quick_help: { enabled: true, prompts: ['Hi'] } });
+    const { quick_help: _quickHelp, ...local } = stored;
+    const server = makeConfig({ quick_help: { enabled: true, prompts: ['Hello'] } });
+
+    const { merged, conflicts } = threeWayMerge(stored, local as TenantConfig, server);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.quick_help).toEqual({ enabled: true, prompts: ['Hello'] });
+  });
+});
+
+describe('applyConflictChoices', () => {
+  it('takes the server value only where chosen', () => {
+    const local = makeConfig({
+      chat_title: 'Mine',
+      branding: { primary_color: '#ff0000', font_family: 'inter' },
+    });
+    const server = makeConfig({
+      chat_title: 'Theirs',
+      branding: { primary_color: '#00ff00', font_family: 'inter' },
+    });
+    const result = threeWayMerge(base, local, server);
+
+    const resolved = applyConflictChoices(result, { 'branding/primary_color': 'server' });
+
+    expect(resolved.branding.primary_color).toBe('#00ff00');
+    expect(resolved.chat_title).toBe('Mine');
+    // The merge result itself is left untouched
+    expect(result.merged.branding.primary_color).toBe('#ff0000');
+  });
+
+  it('restores an entity deleted locally when the server version is chosen', () => {
+    const local = makeConfig({ content_showcase: [{ id: 'walk', name: 'Walk', enabled: true }] });
+    const server = makeConfig({
+      content_showcase: [
+        { id: 'gala', name: 'Gala', enabled: false },
+        { id: 'walk', name: 'Walk', enabled: true },
+      ],
+    });
+    const result = threeWayMerge(base, local, server);
+    expect(result.conflicts.map((c) => c.id)).toEqual(['content_showcase/gala']);
+
+    const resolved = applyConflictChoices(result, { 'content_showcase/gala': 'server' });
+
+    expect(resolved.content_showcase?.map((item) => item.id)).toEqual(['walk', 'gala']);
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Config diffing
+ */
+
+export { structuralDiff, diffConfigs, sectionOf } from './structuralDiff';
+export { semanticDiff } from './semanticDiff';
+export { threeWayMerge, applyConflictChoices } from './threeWayMerge';
+export type { DiffEntry, DiffKind } from './structuralDiff';
+export type { ChangeKind, EntityChange, SectionChanges, ConfigChangelog } from './semanticDiff';
+export type { MergeConflict, MergeResult, ConflictChoice } from './threeWayMerge';
@@ -0,0 +1,314 @@
+/**
+ * Semantic Diff
+ * Per-section, per-entity changelog between two tenant configs
+ *
+ * structuralDiff answers "which JSON paths differ"; this answers "which
+ * forms/CTAs/branches were added, removed, or modified, and which settings
+ * moved" — the shape an operator reviews before a deploy.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import { structuralDiff, type DiffEntry } from './structuralDiff';
+
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+export interface EntityChange {
+  id: string;
+  /** Display name (form title, CTA label, ...) from whichever side has the entity */
+  label: string;
+  kind: ChangeKind;
+  /**
+   * Paths relative to the entity. Arrays of `{ id }` objects (form fields,
+   * showcase items) are keyed by id, so a field edit reads `fields.email.label`
+   * rather than `fields[3].label`; reordering shows up as a change of the
+   * array path itself (before/after id lists).
+   */
+  changes: DiffEntry[];
+}
+
+interface EntitySectionChanges {
+  type: 'entities';
+  section: string;
+  label: string;
+  entities: EntityChange[];
+}
+
+interface SettingsSectionChanges {
+  type: 'settings';
+  section: string;
+  label: string;
+  kind: ChangeKind;
+  /** Paths relative to the section (`primary_color`, `scheduling_enabled`) */
+  changes: DiffEntry[];
+}
+
+export type SectionChanges = EntitySectionChanges | SettingsSectionChanges;
+
+export interface ConfigChangelog {
+  tenantId: string | null;
+  /** ISO timestamp of when the changelog was computed */
+  generatedAt: string;
+  /** Config version the changes apply on top of */
+  baseVersion: string | null;
+  summary: Record<ChangeKind, number>;
+  sections: SectionChanges[];
+}
+
+/**
+ * Entity-bearing sections. Dictionaries are keyed by their own keys; the two
+ * array sections are keyed by item `id`.
+ */
+const ENTITY_SECTIONS: { section: keyof TenantConfig; label: string; displayKeys: string[] }[] = [
+  { section: 'programs', label: 'Programs', displayKeys: ['program_name'] },
+  { section: 'conversational_forms', label: 'Forms', displayKeys: ['title'] },
+  { section: 'cta_definitions', label: 'CTAs', displayKeys: ['label', 'text'] },
+  { section: 'conversation_branches', label: 'Branches', displayKeys: [] },
+  { section: 'content_showcase', label: 'Showcase Items', displayKeys: ['name'] },
+  { section: 'topic_definitions', label: 'Topics', displayKeys: ['name'] },
+];
+
+/** Display names for settings sections; anything else shows its key */
+const SETTINGS_LABELS: Record<string, string> = {
+  branding: 'Branding',
+  features: 'Features',
+  feature_flags: 'Feature Flags',
+  quick_help: 'Quick Help',
+  action_chips: 'Action Chips',
+  widget_behavior: 'Widget Behavior',
+  cta_settings: 'CTA Settings',
+  bedrock_instructions: 'Bedrock Instructions',
+  aws: 'AWS',
+  scheduling: 'Scheduling',
+  notification_settings: 'Notifications',
+  channels: 'Channels',
+  messenger_behavior: 'Messenger',
+  localization: 'Translations',
+};
+
+/** Top-level scalar metadata (chat_title, tone_prompt, ...) is grouped here */
+const GENERAL_SECTION = 'general';
+
+/** Bumped or stamped on every save — not a change the operator made */
+const BOOKKEEPING_KEYS = new Set([
+  'version',
+  'generated_at',
+  'last_updated',
+  'last_updated_by',
+  'tenant_id',
+  'tenant_hash',
+]);
+
+type Json = unknown;
+
+function isPlainObject(value: Json): value is Record<string, Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdKeyedArray(value: Json): value is { id: string }[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => isPlainObject(item) && typeof item.id === 'string') &&
+    new Set(value.map((item) => (item as { id: string }).id)).size === value.length
+  );
+}
+
+function toIdRecord(items: { id: string }[]): Record<string, Json> {
+  return Object.fromEntries(items.map((item) => [item.id, item]));
+}
+
+/**
+ * Replace arrays of `{ id }` objects with id-keyed records, recursively and
+ * on both sides at once — so an array that became empty (or started empty)
+ * still lines up with its keyed counterpart.
+ */
+function keyPairById(before: Json, after: Json): [Json, Json] {
+  const keyable = (value: Json) => isIdKeyedArray(value) || (Array.isArray(value) && value.length === 0);
+  if (
+    (isIdKeyedArray(before) || isIdKeyedArray(after)) &&
+    keyable(before) &&
+    keyable(after)
+  ) {
+    return keyPairById(toIdRecord(before as { id: string }[]), toIdRecord(after as { id: string }[]));
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keyedBefore: Record<string, Json> = {};
+    const keyedAfter: Record<string, Json> = {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      [keyedBefore[key], keyedAfter[key]] = keyPairById(before[key], after[key]);
+    }
+    return [keyedBefore, keyedAfter];
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    const keyedBefore: Json[] = [];
+    const keyedAfter: Json[] = [];
+    for (let i = 0; i < length; i++) {
+      const [b, a] = keyPairById(before[i], after[i]);
+      if (i < before.length) keyedBefore.push(b);
+      if (i < after.length) keyedAfter.push(a);
+    }
+    return [keyedBefore, keyedAfter];
+  }
+  return [before, after];
+}
+
+/** Id-keyed arrays whose items kept their ids but changed order */
+function reorderedArrays(before: Json, after: Json, path: string, out: DiffEntry[]): void {
+  if (isIdKeyedArray(before) && isIdKeyedArray(after)) {
+    const beforeIds = before.map((item) => item.id);
+    const afterIds = after.map((item) => item.id);
+    const shared = new Set(afterIds);
+    const beforeOrder = beforeIds.filter((id) => shared.has(id));
+    const afterOrder = afterIds.filter((id) => beforeIds.includes(id));
+    if (beforeOrder.join('\u0000') !== afterOrder.join('\u0000')) {
+      out.push({ path, kind: 'changed', before: beforeIds, after: afterIds });
+    }
+    for (const item of after) {
+      const match = before.find((b) => b.id === item.id);
+      if (match) reorderedArrays(match, item, path ? `${path}.${item.id}` : item.id, out);
+    }
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(after)) {
+      if (key in before) reorderedArrays(before[key], after[key], path ? `${path}.${key}` : key, out);
+    }
+  }
+}
+
+/**
+ * Path-level changes inside one entity or settings section, with id-keyed
+ * arrays compared by id
+ */
+function diffValue(before: Json, after: Json): DiffEntry[] {
+  const changes = structuralDiff(...keyPairById(before, after));
+  reorderedArrays(before, after, '', changes);
+  return changes;
+}
+
+function asEntityMap(value: Json): Record<string, Record<string, Json>> {
+  if (Array.isArray(value)) {
+    return Object.fromEntries(
+      value
+        .filter((item): item is Record<string, Json> => isPlainObject(item) && typeof item.id === 'string')
+        .map((item) => [item.id as string, item])
+    );
+  }
+  return isPlainObject(value) ? (value as Record<string, Record<string, Json>>) : {};
+}
+
+function entityLabel(entity: Record<string, Json>, id: string, displayKeys: string[]): string {
+  for (const key of displayKeys) {
+    if (typeof entity[key] === 'string' && entity[key]) return entity[key] as string;
+  }
+  return id;
+}
+
+function diffEntitySection(
+  before: Json,
+  after: Json,
+  displayKeys: string[]
+): EntityChange[] {
+  const beforeMap = asEntityMap(before);
+  const afterMap = asEntityMap(after);
+  const ids = [...new Set([...Object.keys(beforeMap), ...Object.keys(afterMap)])].sort();
+
+  const entities: EntityChange[] = [];
+  for (const id of ids) {
+    const prev = beforeMap[id];
+    const next = afterMap[id];
+    if (!prev) {
+      entities.push({ id, label: entityLabel(next, id, displayKeys), kind: 'added', changes: [] });
+    } else if (!next) {
+      entities.push({ id, label: entityLabel(prev, id, displayKeys), kind: 'removed', changes: [] });
+    } else {
+      const changes = diffValue(prev, next);
+      if (changes.length > 0) {
+        entities.push({ id, label: entityLabel(next, id, displayKeys), kind: 'modified', changes });
+      }
+    }
+  }
+  return entities;
+}
+
+/**
+ * Compute the deploy changelog between the stored config and the editor's
+ *
+ * Entity sections (programs, forms, CTAs, branches, showcase items, topics)
+ * are reported per entity; every other top-level object (branding,
+ * feature_flags, ...) is a settings section; top-level scalars are grouped
+ * under "General". Bookkeeping fields (version, timestamps, tenant identity)
+ * are ignored.
+ *
+ * @example
+ * const changelog = semanticDiff(baseConfig, getMergedConfig());
+ * changelog.summary; // { added: 1, removed: 0, modified: 3 }
+ */
+export function semanticDiff(
+  before: TenantConfig | null | undefined,
+  after: TenantConfig | null | undefined
+): ConfigChangelog {
+  const prev = (before ?? {}) as Record<string, Json>;
+  const next = (after ?? {}) as Record<string, Json>;
+  const sections: SectionChanges[] = [];
+  const entitySectionKeys = new Set<string>(ENTITY_SECTIONS.map((s) => s.section));
+
+  for (const { section, label, displayKeys } of ENTITY_SECTIONS) {
+    const entities = diffEntitySection(prev[section], next[section], displayKeys);
+    if (entities.length > 0) {
+      sections.push({ type: 'entities', section, label, entities });
+    }
+  }
+
+  const settingsKeys = [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+    .filter((key) => !entitySectionKeys.has(key) && !BOOKKEEPING_KEYS.has(key))
+    .sort();
+
+  const general: DiffEntry[] = [];
+  for (const key of settingsKeys) {
+    const prevValue = prev[key];
+    const nextValue = next[key];
+    if (!isPlainObject(prevValue) && !isPlainObject(nextValue)) {
+      general.push(...structuralDiff({ [key]: prevValue }, { [key]: nextValue }));
+      continue;
+    }
+
+    const changes = diffValue(prevValue ?? {}, nextValue ?? {});
+    if (changes.length === 0) continue;
+    sections.push({
+      type: 'settings',
+      section: key,
+      label: SETTINGS_LABELS[key] ?? key,
+      kind: prevValue === undefined ? 'added' : nextValue === undefined ? 'removed' : 'modified',
+      changes,
+    });
+  }
+
+  if (general.length > 0) {
+    sections.unshift({
+      type: 'settings',
+      section: GENERAL_SECTION,
+      label: 'General',
+      kind: 'modified',
+      changes: general,
+    });
+  }
+
+  const summary: Record<ChangeKind, number> = { added: 0, removed: 0, modified: 0 };
+  for (const section of sections) {
+    if (section.type === 'entities') {
+      for (const entity of section.entities) summary[entity.kind]++;
+    } else {
+      summary[section.kind]++;
+    }
+  }
+
+  return {
+    tenantId: (after?.tenant_id ?? before?.tenant_id) || null,
+    generatedAt: new Date().toISOString(),
+    baseVersion: before?.version ?? null,
+    summary,
+    sections,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Structural Diff
+ * Path-level differences between two JSON values (configs, sections, entities)
+ */
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+  /** Dotted path; array items use `[i]`, e.g. `conversational_forms.volunteer.fields[2].label` */
+  path: string;
+  kind: DiffKind;
+  /** Value on the "before" side (absent for `added`) */
+  before?: unknown;
+  /** Value on the "after" side (absent for `removed`) */
+  after?: unknown;
+}
+
+/**
+ * Keys that change on every save and carry no editor content; comparing them
+ * would make every version look different from every other.
+ */
+const BOOKKEEPING_KEYS = new Set([
+  'version',
+  'generated_at',
+  'last_updated',
+  'last_updated_by',
+  'tenant_id',
+  'tenant_hash',
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function walk(before: unknown, after: unknown, path: string, out: DiffEntry[]): void {
+  if (Object.is(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      const childPath = joinPath(path, key);
+      // `undefined` is treated as absent, matching JSON serialization
+      if (before[key] === undefined && after[key] !== undefined) {
+        out.push({ path: childPath, kind: 'added', after: after[key] });
+      } else if (before[key] !== undefined && after[key] === undefined) {
+        out.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else {
+        walk(before[key], after[key], childPath, out);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    // Index-wise: arrays in configs are ordered (fields, steps, chips)
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = `${path}[${i}]`;
+      if (i >= before.length) {
+        out.push({ path: childPath, kind: 'added', after: after[i] });
+      } else if (i >= after.length) {
+        out.push({ path: childPath, kind: 'removed', before: before[i] });
+      } else {
+        walk(before[i], after[i], childPath, out);
+      }
+    }
+    return;
+  }
+
+  out.push({ path, kind: 'changed', before, after });
+}
+
+/**
+ * Compare two JSON values and list every leaf-level difference
+ *
+ * Objects are compared key by key (sorted, so output is stable), arrays index
+ * by index. A value whose type changes (e.g. object → string) is reported as a
+ * single `changed` entry at that path.
+ *
+ * @example
+ * structuralDiff({ a: 1, b: { c: 2 } }, { a: 1, b: { c: 3 }, d: true })
+ * // => [{ path: 'b.c', kind: 'changed', before: 2, after: 3 },
+ * //     { path: 'd', kind: 'added', after: true }]
+ */
+export function structuralDiff(before: unknown, after: unknown): DiffEntry[] {
+  const out: DiffEntry[] = [];
+  walk(before, after, '', out);
+  return out;
+}
+
+/**
+ * Compare two tenant configs, ignoring bookkeeping metadata
+ * (version, timestamps, tenant identity)
+ */
+export function diffConfigs(
+  before: object | null | undefined,
+  after: object | null | undefined
+): DiffEntry[] {
+  const strip = (config: object | null | undefined) =>
+    Object.fromEntries(Object.entries(config ?? {}).filter(([key]) => !BOOKKEEPING_KEYS.has(key)));
+  return structuralDiff(strip(before), strip(after));
+}
+
+/**
+ * Top-level section a diff path belongs to (`cta_definitions.x.label` → `cta_definitions`)
+ */
+export function sectionOf(path: string): string {
+  return path.split(/[.[]/)[0];
+}
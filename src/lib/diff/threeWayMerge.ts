@@ -0,0 +1,240 @@
+/**
+ * Three-Way Merge
+ * Combine the operator's edits with a concurrent server save, given the
+ * config both started from
+ */
+
+import type { TenantConfig } from '@/types/config';
+import { SAVED_KEYS } from '@/lib/contracts';
+
+export interface MergeConflict {
+  /** Stable key for resolutions: path segments joined with '/' */
+  id: string;
+  /** Path segments from the config root, e.g. ['cta_definitions', 'apply', 'label'] */
+  path: string[];
+  /** Top-level section (`cta_definitions`, `branding`, ...) */
+  section: string;
+  /** Entity id within an entity section; undefined for settings sections */
+  entityId?: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+export interface MergeResult {
+  /** Merged config; conflicting paths hold the local value until resolved */
+  merged: TenantConfig;
+  conflicts: MergeConflict[];
+}
+
+export type ConflictChoice = 'local' | 'server';
+
+/** Keyed by entity id, compared per entity */
+const DICTIONARY_SECTIONS = new Set([
+  'programs',
+  'conversational_forms',
+  'cta_definitions',
+  'conversation_branches',
+]);
+
+/** Arrays of `{ id }` items, merged per item then written back as arrays */
+const ARRAY_SECTIONS = new Set(['content_showcase', 'topic_definitions']);
+
+/** Always taken from the server: the next save builds on its revision */
+const SERVER_OWNED_KEYS = new Set(['version', 'generated_at', 'last_updated', 'last_updated_by']);
+
+/**
+ * Whether `key` is merged. Keys the editor never sends (channels, monitor,
+ * intent_definitions) and keys `local` leaves out are not edits: a save
+ * leaves them as the server has them, so the merge takes the server's.
+ */
+function isMerged(key: string, local: Record<string, unknown>): boolean {
+  return SAVED_KEYS.has(key) && !SERVER_OWNED_KEYS.has(key) && Object.prototype.hasOwnProperty.call(local, key);
+}
+
+type Json = unknown;
+
+function isPlainObject(value: Json): value is Record<string, Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: Json, b: Json): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function conflictAt(path: string[], base: Json, local: Json, server: Json): MergeConflict {
+  const section = path[0];
+  const isEntity = DICTIONARY_SECTIONS.has(section) || ARRAY_SECTIONS.has(section);
+  return {
+    id: path.join('/'),
+    path,
+    section,
+    entityId: isEntity ? path[1] : undefined,
+    base,
+    local,
+    server,
+  };
+}
+
+/**
+ * Merge one value. A side that left the value as it was in base yields to
+ * the side that changed it; when both changed it differently, objects are
+ * merged key by key and anything else (scalars, arrays, add vs delete) is a
+ * conflict.
+ */
+function mergeValue(
+  base: Json,
+  local: Json,
+  server: Json,
+  path: string[],
+  conflicts: MergeConflict[]
+): Json {
+  if (isEqual(local, server)) return local;
+  if (isEqual(base, local)) return server;
+  if (isEqual(base, server)) return local;
+
+  if (isPlainObject(local) && isPlainObject(server)) {
+    // Both sides added the same key independently: merge against an empty base
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, Json> = {};
+    const keys = new Set([...Object.keys(baseObject), ...Object.keys(local), ...Object.keys(server)]);
+    for (const key of keys) {
+      const value = mergeValue(baseObject[key], local[key], server[key], [...path, key], conflicts);
+      if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+
+  conflicts.push(conflictAt(path, base, local, server));
+  return local;
+}
+
+function toIdRecord(value: Json): Record<string, Json> {
+  if (!Array.isArray(value)) return {};
+  return Object.fromEntries(
+    value
+      .filter((item): item is Record<string, Json> => isPlainObject(item) && typeof item.id === 'string')
+      .map((item) => [item.id as string, item])
+  );
+}
+
+/** Local order first, then items only the server has, in the server's order */
+function orderById(merged: Record<string, Json>, local: Json, server: Json): Json[] {
+  const ids = [...Object.keys(toIdRecord(local)), ...Object.keys(toIdRecord(server))];
+  return [...new Set(ids)].filter((id) => id in merged).map((id) => merged[id]);
+}
+
+/**
+ * Three-way merge of tenant configs
+ *
+ * - `base`: the config both sides started from (the editor's last load/save)
+ * - `local`: the editor's merged config (getMergedConfig)
+ * - `server`: the config another save wrote (the 409's currentConfig)
+ *
+ * Non-overlapping changes merge automatically, down to individual fields of
+ * an entity or settings section. Showcase items and topics are matched by
+ * id. Only the sections the editor saves are merged; everything else is the
+ * server's. Remaining conflicts keep the local value in `merged`; resolve
+ * them with applyConflictChoices.
+ *
+ * @example
+ * const { merged, conflicts } = threeWayMerge(savedConfig, getMergedConfig(), currentConfig);
+ */
+export function threeWayMerge(
+  base: TenantConfig | null | undefined,
+  local: TenantConfig,
+  server: TenantConfig
+): MergeResult {
+  const baseRecord = (base ?? {}) as Record<string, Json>;
+  const localRecord = local as unknown as Record<string, Json>;
+  const serverRecord = server as unknown as Record<string, Json>;
+  const conflicts: MergeConflict[] = [];
+  const merged: Record<string, Json> = {};
+
+  const keys = new Set([...Object.keys(baseRecord), ...Object.keys(localRecord), ...Object.keys(serverRecord)]);
+  for (const key of keys) {
+    let value: Json;
+    if (!isMerged(key, localRecord)) {
+      value = serverRecord[key];
+    } else if (ARRAY_SECTIONS.has(key)) {
+      const byId = mergeValue(
+        toIdRecord(baseRecord[key]),
+        toIdRecord(localRecord[key]),
+        toIdRecord(serverRecord[key]),
+        [key],
+        conflicts
+      ) as Record<string, Json>;
+      value =
+        localRecord[key] === undefined && serverRecord[key] === undefined
+          ? undefined
+          : orderById(byId, localRecord[key], serverRecord[key]);
+    } else {
+      value = mergeValue(baseRecord[key], localRecord[key], serverRecord[key], [key], conflicts);
+    }
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return { merged: merged as unknown as TenantConfig, conflicts };
+}
+
+function setAtPath(target: Record<string, Json>, path: string[], value: Json): void {
+  let node: Json = target;
+  for (const segment of path.slice(0, -1)) {
+    if (!isPlainObject(node)) return;
+    node[segment] ??= {};
+    node = node[segment];
+  }
+  if (!isPlainObject(node)) return;
+  const last = path[path.length - 1];
+  if (value === undefined) {
+    delete node[last];
+  } else {
+    node[last] = value;
+  }
+}
+
+/**
+ * Apply the operator's conflict choices to a merge result. Conflicts without
+ * a choice keep the local value.
+ */
+export function applyConflictChoices(
+  result: MergeResult,
+  choices: Record<string, ConflictChoice>
+): TenantConfig {
+  const merged = structuredClone(result.merged) as unknown as Record<string, Json>;
+
+  for (const conflict of result.conflicts) {
+    if (choices[conflict.id] !== 'server') continue;
+    const [section, entityId, ...rest] = conflict.path;
+
+    if (ARRAY_SECTIONS.has(section) && entityId !== undefined) {
+      const items = Array.isArray(merged[section]) ? (merged[section] as Json[]) : [];
+      const index = items.findIndex((item) => isPlainObject(item) && item.id === entityId);
+      if (rest.length === 0) {
+        if (conflict.server === undefined) {
+          if (index >= 0) items.splice(index, 1);
+        } else if (index >= 0) {
+          items[index] = structuredClone(conflict.server);
+        } else {
+          items.push(structuredClone(conflict.server));
+        }
+      } else if (index >= 0) {
+        setAtPath(items[index] as Record<string, Json>, rest, structuredClone(conflict.server));
+      }
+      merged[section] = items;
+      continue;
+    }
+
+    setAtPath(merged, conflict.path, structuredClone(conflict.server));
+  }
+
+  return merged as unknown as TenantConfig;
+}
@@ -0,0 +1,63 @@
+/**
+ * Draft store: one draft per tenant, listed newest first without payloads.
+ * jsdom has no IndexedDB, so this exercises the in-memory fallback that
+ * shares the same contract.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { saveDraft, getDraft, listDrafts, deleteDraft } from '../draftStore';
+import type { TenantConfig } from '@/types/config';
+
+function makeDraft(tenantId: string, savedAt: number, title = 'Title') {
+  return {
+    tenantId,
+    tenantName: title,
+    baseEtag: 'W/"v1"',
+    savedAt,
+    config: { tenant_id: tenantId, chat_title: title } as unknown as TenantConfig,
+  };
+}
+
+describe('draftStore', () => {
+  beforeEach(async () => {
+    for (const draft of await listDrafts()) {
+      await deleteDraft(draft.tenantId);
+    }
+  });
+
+  it('round-trips a draft per tenant, replacing earlier writes', async () => {
+    await saveDraft(makeDraft('A', 1, 'First'));
+    await saveDraft(makeDraft('A', 2, 'Second'));
+
+    const draft = await getDraft('A');
+    expect(draft?.savedAt).toBe(2);
+    expect(draft?.config.chat_title).toBe('Second');
+    expect(await getDraft('B')).toBeNull();
+  });
+
+  it('returns copies, so later edits do not leak into the stored draft', async () => {
+    const original = makeDraft('A', 1);
+    await saveDraft(original);
+    original.config.chat_title = 'mutated';
+
+    const draft = await getDraft('A');
+    draft!.config.chat_title = 'also mutated';
+    expect((await getDraft('A'))?.config.chat_title).toBe('Title');
+  });
+
+  it('lists drafts of all tenants newest first, without config payloads', async () => {
+    await saveDraft(makeDraft('OLD', 100));
+    await saveDraft(makeDraft('NEW', 200));
+
+    const drafts = await listDrafts();
+    expect(drafts.map((d) => d.tenantId)).toEqual(['NEW', 'OLD']);
+    expect(drafts[0]).not.toHaveProperty('config');
+  });
+
+  it('deletes a draft; deleting a missing one is a no-op', async () => {
+    await saveDraft(makeDraft('A', 1));
+    await deleteDraft('A');
+    await deleteDraft('missing');
+    expect(await getDraft('A')).toBeNull();
+  });
+});
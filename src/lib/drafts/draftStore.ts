@@ -0,0 +1,121 @@
+/**
+ * Draft Store
+ * Unsaved editor state persisted per tenant in IndexedDB, so work survives
+ * closed tabs and crashes and several tenants can have drafts at once
+ */
+
+import type { TenantConfig } from '@/types/config';
+
+export interface ConfigDraft {
+  tenantId: string;
+  /** Display name at the time of the draft (chat title) */
+  tenantName?: string;
+  /**
+   * ETag of the server config the draft's edits sit on. When the server has
+   * moved on, resuming the draft would overwrite the newer changes.
+   */
+  baseEtag: string | null;
+  /** Epoch ms of the last write */
+  savedAt: number;
+  /** The full merged config: domain slices plus settings-panel edits */
+  config: TenantConfig;
+}
+
+/** Draft listing without the config payload */
+export type ConfigDraftSummary = Omit<ConfigDraft, 'config'>;
+
+const DB_NAME = 'picasso-config-builder';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+/**
+ * Drafts kept in memory when IndexedDB is unavailable (some private-browsing
+ * modes, the jsdom test environment). They last for the page session only.
+ */
+const memoryDrafts = new Map<string, ConfigDraft>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function hasIndexedDB(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'tenantId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Let a later call retry instead of caching the failure
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Run one request against the drafts store and resolve with its result */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+/**
+ * Write (or replace) the draft for a tenant
+ */
+export async function saveDraft(draft: ConfigDraft): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryDrafts.set(draft.tenantId, structuredClone(draft));
+    return;
+  }
+  await withStore('readwrite', (store) => store.put(draft));
+}
+
+/**
+ * The draft for a tenant, or null when there is none
+ */
+export async function getDraft(tenantId: string): Promise<ConfigDraft | null> {
+  if (!hasIndexedDB()) {
+    const draft = memoryDrafts.get(tenantId);
+    return draft ? structuredClone(draft) : null;
+  }
+  const draft = await withStore<ConfigDraft | undefined>('readonly', (store) => store.get(tenantId));
+  return draft ?? null;
+}
+
+/**
+ * Every stored draft, newest first, without config payloads
+ */
+export async function listDrafts(): Promise<ConfigDraftSummary[]> {
+  const drafts = hasIndexedDB()
+    ? await withStore<ConfigDraft[]>('readonly', (store) => store.getAll())
+    : [...memoryDrafts.values()];
+
+  return drafts
+    .map(({ config: _config, ...summary }) => summary)
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Remove the draft for a tenant (no-op when there is none)
+ */
+export async function deleteDraft(tenantId: string): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryDrafts.delete(tenantId);
+    return;
+  }
+  await withStore('readwrite', (store) => store.delete(tenantId));
+}
@@ -0,0 +1,6 @@
+/**
+ * Offline drafts
+ */
+
+export { saveDraft, getDraft, listDrafts, deleteDraft } from './draftStore';
+export type { ConfigDraft, ConfigDraftSummary } from './draftStore';
@@ -0,0 +1,268 @@
+/**
+ * Entity bundles: CSV and JSON round-trips, row errors, merge and replace
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TenantConfig } from '@/types/config';
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+import {
+  applyEntityBundle,
+  buildEntityBundle,
+  bundleEntitiesFromConfig,
+  entityBundleToCsv,
+  entityBundleToJson,
+  parseEntityBundle,
+  previewEntityBundle,
+} from '..';
+
+const config = (): TenantConfig =>
+  ({
+    tenant_id: 'TEST01',
+    programs: { mentors: { program_id: 'mentors', program_name: 'Mentors' } },
+    conversational_forms: {
+      apply: {
+        enabled: true,
+        form_id: 'apply',
+        program: 'mentors',
+        title: 'Apply',
+        description: 'Mentor application',
+        fields: [
+          {
+            id: 'name',
+            type: 'name',
+            label: 'Name',
+            prompt: 'What is your name?',
+            required: true,
+            subfields: [
+              { id: 'first', label: 'First', required: true, type: 'text', placeholder: 'Jane' },
+              { id: 'last', label: 'Last', required: true, type: 'text' },
+            ],
+          },
+          {
+            id: 'shirt',
+            type: 'select',
+            label: 'Shirt size',
+            prompt: 'Shirt size?',
+            required: false,
+            options: [
+              { value: 'm', label: 'Medium, regular' },
+              { value: 'L', label: 'L' },
+            ],
+            conditions: { match: 'all', rules: [{ field: 'name', operator: 'is_answered' }] },
+          },
+        ],
+        post_submission: { confirmation_message: 'Thanks!' },
+      },
+    },
+    cta_definitions: {
+      apply_cta: { label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'apply' },
+      learn: {
+        label: 'Learn more',
+        action: 'send_query',
+        type: 'bedrock_query',
+        query: 'Tell me about mentoring',
+        ai_available: true,
+        selection_metadata: { topic_tags: ['mentoring', 'youth'], depth_level: 'info' },
+      },
+    },
+    conversation_branches: {
+      mentoring: { description: 'Mentoring questions', available_ctas: { primary: 'apply_cta', secondary: ['learn'] } },
+    },
+    content_showcase: [
+      {
+        id: 'summer',
+        type: 'campaign',
+        enabled: true,
+        name: 'Summer drive',
+        tagline: 'Give a little',
+        description: 'Our summer campaign',
+        keywords: ['summer', 'drive'],
+        action: { type: 'cta', label: 'Apply', cta_id: 'apply_cta' },
+      },
+    ],
+  }) as TenantConfig;
+
+const current = () => bundleEntitiesFromConfig(config());
+
+describe('entity CSV', () => {
+  it('round-trips every kind unchanged, keeping what has no column', () => {
+    (['program', 'form', 'cta', 'branch', 'showcase'] as const).forEach((kind) => {
+      const imported = parseEntityBundle(entityBundleToCsv(current(), kind), `${kind}.csv`, current());
+
+      expect(imported.errors).toEqual([]);
+      expect(imported.kinds).toEqual([kind]);
+      expect(applyEntityBundle(current(), imported, 'replace')).toEqual(current());
+    });
+  });
+
+  it('writes forms one row per field with options and subfields in cells', () => {
+    const rows = parseCsv(entityBundleToCsv(current(), 'form'));
+    const column = (name: string) => rows[0].indexOf(name);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1][column('field_subfields')]).toBe('first=First|last=Last');
+    expect(rows[2][column('field_options')]).toBe('m=Medium, regular|L');
+    expect(rows[2][column('form_title')]).toBe('Apply');
+  });
+
+  it('reads spreadsheet edits onto the current entities', () => {
+    const csv = toCsv([
+      ['form_id', 'form_title', 'form_description', 'form_program', 'field_id', 'field_type', 'field_label', 'field_prompt', 'field_required', 'field_options', 'field_subfields'],
+      ['apply', 'Apply today', 'Mentor application', 'mentors', 'name', 'name', 'Full name', 'Your name?', 'yes', '', 'first=Given|middle?=Middle|last=Family'],
+      ['apply', '', '', '', 'shirt', 'select', 'Shirt', 'Size?', 'no', 's=Small|m=Medium', ''],
+      ['apply', '', '', '', 'email', 'email', 'Email', 'Your email?', 'true', '', ''],
+    ]);
+    const imported = parseEntityBundle(csv, 'forms.csv', current());
+    const form = imported.entities.forms.apply;
+
+    expect(imported.errors).toEqual([]);
+    expect(form.title).toBe('Apply today');
+    expect(form.post_submission).toEqual({ confirmation_message: 'Thanks!' });
+    expect(form.fields.map((field) => field.id)).toEqual(['name', 'shirt', 'email']);
+    expect(form.fields[0].subfields).toEqual([
+      { id: 'first', label: 'Given', required: true, type: 'text', placeholder: 'Jane' },
+      { id: 'middle', label: 'Middle', required: false, type: 'text' },
+      { id: 'last', label: 'Family', required: true, type: 'text' },
+    ]);
+    expect(form.fields[1].options).toEqual([
+      { value: 's', label: 'Small' },
+      { value: 'm', label: 'Medium' },
+    ]);
+    expect(form.fields[1].conditions).toEqual(config().conversational_forms!.apply.fields[1].conditions);
+  });
+
+  it('derives the CTA type from its action and reads lists and flags', () => {
+    const csv = toCsv([
+      ['cta_id', 'label', 'action', 'type', 'url', 'ai_available', 'topic_tags'],
+      ['donate', 'Donate', 'external_link', '', 'https://example.org/give', 'no', 'giving | money'],
+    ]);
+    const imported = parseEntityBundle(csv, 'ctas.csv', current());
+
+    expect(imported.entities.ctas.donate).toEqual({
+      label: 'Donate',
+      action: 'external_link',
+      type: 'external_link',
+      url: 'https://example.org/give',
+      ai_available: false,
+      selection_metadata: { topic_tags: ['giving', 'money'] },
+    });
+  });
+
+  it('reports row errors from the schemas and leaves those entities out', () => {
+    const csv = toCsv([
+      ['cta_id', 'label', 'action', 'url', 'ai_available'],
+      ['fine', 'Fine', 'external_link', 'https://example.org', ''],
+      ['broken', 'Broken', 'external_link', 'not a url', ''],
+      ['twice', 'Once', 'send_query', '', ''],
+      ['twice', 'Again', 'send_query', '', ''],
+      ['flagged', 'Flag', 'external_link', 'https://example.org', 'maybe'],
+      ['', 'No ID', 'send_query', '', ''],
+    ]);
+    const imported = parseEntityBundle(csv, 'ctas.csv', current());
+
+    expect(Object.keys(imported.entities.ctas)).toEqual(['fine']);
+    expect(imported.count).toBe(1);
+    expect(imported.mentioned).toEqual(['cta:fine', 'cta:broken', 'cta:twice', 'cta:flagged']);
+    expect(imported.errors).toEqual([
+      { row: 5, entity: 'cta:twice', message: 'Duplicate cta_id "twice" (first on row 4)' },
+      { row: 6, entity: 'cta:flagged', message: 'ai_available must be true or false, not "maybe"' },
+      { row: 7, entity: 'cta:(blank)', message: 'cta_id is blank' },
+      { row: 3, entity: 'cta:broken', message: 'url: Must be a valid URL' },
+    ]);
+  });
+
+  it('points field errors at the field row and catches disagreeing form cells', () => {
+    const csv = toCsv([
+      ['form_id', 'form_title', 'form_description', 'form_program', 'field_id', 'field_label', 'field_prompt'],
+      ['apply', 'Apply', 'Mentor application', 'mentors', 'name', 'Name', 'Name?'],
+      ['apply', '', '', '', 'email', '', 'Email?'],
+      ['other', 'Other', 'Another form', 'mentors', 'a', 'A', 'A?'],
+      ['other', 'Different', '', '', 'b', 'B', 'B?'],
+    ]);
+    const imported = parseEntityBundle(csv, 'forms.csv', current());
+
+    expect(imported.entities.forms).toEqual({});
+    expect(imported.errors).toEqual([
+      { row: 4, entity: 'form:other', message: 'form_title is "Different" on row 5 but "Other" on row 4' },
+      { row: 3, entity: 'form:apply', message: 'Field "email" label: Field label is required' },
+    ]);
+  });
+
+  it('rejects files that are not entity CSVs', () => {
+    expect(() => parseEntityBundle('name,label\nx,y', 'x.csv', current())).toThrow(/must start with one of/);
+  });
+});
+
+describe('entity JSON bundles', () => {
+  it('round-trips the picked kinds', () => {
+    const bundle = buildEntityBundle(current(), ['program', 'showcase'], { tenantId: 'TEST01' });
+    expect(Object.keys(bundle)).toEqual(['format', 'version', 'tenant_id', 'programs', 'content_showcase']);
+
+    const imported = parseEntityBundle(entityBundleToJson(bundle), 'bundle.json', current());
+    expect(imported.errors).toEqual([]);
+    expect(imported.kinds).toEqual(['program', 'showcase']);
+    expect(imported.count).toBe(2);
+  });
+
+  it('normalizes imported forms and branches like a loaded config', () => {
+    const text = JSON.stringify({
+      format: 'picasso-entities',
+      version: 1,
+      conversational_forms: { intake: { ...config().conversational_forms!.apply, form_id: 'wrong' } },
+      conversation_branches: { legacy: { available_ctas: { primary: 'learn' } } },
+    });
+    const imported = parseEntityBundle(text, 'bundle.json', current());
+
+    expect(imported.entities.forms.intake.form_id).toBe('intake');
+    expect(imported.entities.branches.legacy.available_ctas).toEqual({ primary: 'learn', secondary: [] });
+  });
+
+  it('rejects files that are not entity bundles', () => {
+    expect(() => parseEntityBundle('{"programs": {}}', 'x.json', current())).toThrow(/"format": "picasso-entities"/);
+    expect(() => parseEntityBundle('{', 'x.json', current())).toThrow(/not valid JSON/);
+  });
+});
+
+describe('merge, replace and preview', () => {
+  const programsCsv = toCsv([
+    ['program_id', 'program_name'],
+    ['tutors', 'Tutors'],
+  ]);
+
+  it('merge adds and updates, replace also removes what the file lacks', () => {
+    const imported = parseEntityBundle(programsCsv, 'programs.csv', current());
+
+    expect(Object.keys(applyEntityBundle(current(), imported, 'merge').programs)).toEqual(['mentors', 'tutors']);
+    expect(Object.keys(applyEntityBundle(current(), imported, 'replace').programs)).toEqual(['tutors']);
+    expect(applyEntityBundle(current(), imported, 'replace').forms).toEqual(current().forms);
+  });
+
+  it('keeps entities whose rows have errors when replacing', () => {
+    const csv = toCsv([
+      ['program_id', 'program_name'],
+      ['mentors', ''],
+      ['tutors', 'Tutors'],
+    ]);
+    const imported = parseEntityBundle(csv, 'programs.csv', current());
+
+    expect(imported.errors).toEqual([{ row: 2, entity: 'program:mentors', message: 'program_name: Program name is required' }]);
+    expect(applyEntityBundle(current(), imported, 'replace').programs).toEqual({
+      mentors: { program_id: 'mentors', program_name: 'Mentors' },
+      tutors: { program_id: 'tutors', program_name: 'Tutors' },
+    });
+  });
+
+  it('diffs the import and reports the validation errors it introduces', () => {
+    const imported = parseEntityBundle(programsCsv, 'programs.csv', current());
+    const preview = previewEntityBundle(config(), imported, 'replace');
+
+    expect(preview.changelog.sections.find((section) => section.section === 'programs')).toMatchObject({
+      entities: [
+        expect.objectContaining({ kind: 'removed', id: 'mentors' }),
+        expect.objectContaining({ kind: 'added', id: 'tutors' }),
+      ],
+    });
+    expect(preview.introducedErrors.some((error) => error.message.includes('mentors'))).toBe(true);
+    expect(previewEntityBundle(config(), imported, 'merge').introducedErrors).toEqual([]);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Entity Bundles
+ * Export programs, forms, CTAs, branches and showcase items to files and
+ * import them back, for authoring in spreadsheets
+ *
+ * As JSON a bundle is a typed object (`format: "picasso-entities"`) with the
+ * config's own sections, and imported entities replace the current ones
+ * whole. As CSV each kind is its own file (see entityCsv) and cells are
+ * written onto the current entities.
+ *
+ * Every imported entity goes through the save schemas in lib/schemas (the
+ * showcase editor's validator for showcase items); entities with problems
+ * are reported against their rows and left out. Merge writes the rest over
+ * the current config; replace also removes the entities of each imported
+ * kind that the file does not have.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import type { ZodIssue, ZodTypeAny } from 'zod';
+import { validateTenantConfig } from '@/lib/cli';
+import { semanticDiff, type ConfigChangelog } from '@/lib/diff';
+import { normalizeBranches } from '@/lib/branchNormalization';
+import { normalizeForms } from '@/lib/formNormalization';
+import {
+  conversationalFormSchema,
+  conversationBranchSchema,
+  ctaDefinitionSchema,
+  programSchema,
+} from '@/lib/schemas';
+import { validateShowcaseItem } from '@/lib/validation/showcaseValidators';
+import type { ValidationError, ValidationWarning } from '@/lib/validation';
+import { entitiesToCsv, parseEntityCsv } from './entityCsv';
+import type { BundleEntities, BundleEntityKind, BundleRowError } from './types';
+
+export const ENTITY_BUNDLE_FORMAT = 'picasso-entities';
+
+export const BUNDLE_ENTITY_KINDS: BundleEntityKind[] = ['program', 'form', 'cta', 'branch', 'showcase'];
+
+export const BUNDLE_KIND_LABELS: Record<BundleEntityKind, string> = {
+  program: 'Programs',
+  form: 'Forms',
+  cta: 'CTAs',
+  branch: 'Branches',
+  showcase: 'Showcase items',
+};
+
+/** Config section of each kind in a JSON bundle */
+const BUNDLE_SECTIONS = {
+  program: 'programs',
+  form: 'conversational_forms',
+  cta: 'cta_definitions',
+  branch: 'conversation_branches',
+  showcase: 'content_showcase',
+} as const satisfies Record<BundleEntityKind, keyof TenantConfig>;
+
+export interface EntityBundle extends Partial<Pick<TenantConfig, (typeof BUNDLE_SECTIONS)[BundleEntityKind]>> {
+  format: typeof ENTITY_BUNDLE_FORMAT;
+  version: 1;
+  tenant_id?: string;
+}
+
+export type BundleImportMode = 'merge' | 'replace';
+
+export interface EntityBundleImport {
+  fileName: string;
+  /** Kinds the file carries; replace only touches these */
+  kinds: BundleEntityKind[];
+  /** Entities that passed validation and will be written */
+  entities: BundleEntities;
+  /** Every `kind:id` in the file; entities with errors stay as they are */
+  mentioned: string[];
+  errors: BundleRowError[];
+  /** Anything else worth knowing about the file, one line each */
+  notes: string[];
+  /** Number of entities that will be written */
+  count: number;
+}
+
+export interface EntityBundlePreview {
+  /** The config with the import applied */
+  after: TenantConfig;
+  changelog: ConfigChangelog;
+  /** Errors and warnings the config doesn't already have */
+  introducedErrors: ValidationError[];
+  introducedWarnings: ValidationWarning[];
+}
+
+/** The bundle sections of a config */
+export function bundleEntitiesFromConfig(config: Partial<TenantConfig>): BundleEntities {
+  return {
+    programs: config.programs ?? {},
+    forms: config.conversational_forms ?? {},
+    ctas: config.cta_definitions ?? {},
+    branches: config.conversation_branches ?? {},
+    showcaseItems: config.content_showcase ?? [],
+  };
+}
+
+function entityIds(entities: BundleEntities, kind: BundleEntityKind): string[] {
+  switch (kind) {
+    case 'program':
+      return Object.keys(entities.programs);
+    case 'form':
+      return Object.keys(entities.forms);
+    case 'cta':
+      return Object.keys(entities.ctas);
+    case 'branch':
+      return Object.keys(entities.branches);
+    case 'showcase':
+      return entities.showcaseItems.map((item) => item.id);
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/** A JSON bundle of the entities of `kinds` */
+export function buildEntityBundle(
+  entities: BundleEntities,
+  kinds: BundleEntityKind[],
+  options: { tenantId?: string } = {}
+): EntityBundle {
+  const bundle: EntityBundle = { format: ENTITY_BUNDLE_FORMAT, version: 1 };
+  if (options.tenantId) bundle.tenant_id = options.tenantId;
+  if (kinds.includes('program')) bundle.programs = entities.programs;
+  if (kinds.includes('form')) bundle.conversational_forms = entities.forms;
+  if (kinds.includes('cta')) bundle.cta_definitions = entities.ctas;
+  if (kinds.includes('branch')) bundle.conversation_branches = entities.branches;
+  if (kinds.includes('showcase')) bundle.content_showcase = entities.showcaseItems;
+  return bundle;
+}
+
+export function entityBundleToJson(bundle: EntityBundle): string {
+  return JSON.stringify(bundle, null, 2) + '\n';
+}
+
+/** One kind of entity as CSV, for a spreadsheet */
+export function entityBundleToCsv(entities: BundleEntities, kind: BundleEntityKind): string {
+  return entitiesToCsv(kind, entities);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+interface ReadBundle {
+  kinds: BundleEntityKind[];
+  entities: BundleEntities;
+  mentioned: string[];
+  rows: Record<string, number>;
+  errors: BundleRowError[];
+  notes: string[];
+}
+
+function readJsonBundle(text: string): ReadBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Entity bundle is not valid JSON');
+  }
+  const bundle = parsed as Partial<EntityBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== ENTITY_BUNDLE_FORMAT) {
+    throw new Error(`Entity bundle must have "format": "${ENTITY_BUNDLE_FORMAT}"`);
+  }
+
+  const kinds = BUNDLE_ENTITY_KINDS.filter((kind) => bundle[BUNDLE_SECTIONS[kind]] !== undefined);
+  if (kinds.length === 0) {
+    throw new Error('Entity bundle has no programs, forms, CTAs, branches or showcase items');
+  }
+  kinds.forEach((kind) => {
+    const section = bundle[BUNDLE_SECTIONS[kind]];
+    const isList = Array.isArray(section);
+    if (kind === 'showcase' ? !isList : isList || typeof section !== 'object' || section === null) {
+      throw new Error(`Entity bundle "${BUNDLE_SECTIONS[kind]}" must be ${kind === 'showcase' ? 'a list' : 'an object'}`);
+    }
+  });
+
+  const errors: BundleRowError[] = [];
+  const showcaseItems = (bundle.content_showcase ?? []).filter((item, index) => {
+    if (item && typeof item.id === 'string' && item.id) return true;
+    errors.push({ entity: `showcase:(item ${index + 1})`, message: 'Showcase item has no id' });
+    return false;
+  });
+
+  // Same normalization the store applies when a config is loaded
+  const forms = normalizeForms(
+    Object.fromEntries(
+      Object.entries(bundle.conversational_forms ?? {}).map(([id, form]) => [id, { ...form, form_id: id }])
+    )
+  ).forms;
+  const entities: BundleEntities = {
+    programs: Object.fromEntries(
+      Object.entries(bundle.programs ?? {}).map(([id, program]) => [id, { ...program, program_id: id }])
+    ),
+    forms,
+    ctas: bundle.cta_definitions ?? {},
+    branches: normalizeBranches(bundle.conversation_branches),
+    showcaseItems,
+  };
+  const mentioned = kinds.flatMap((kind) => entityIds(entities, kind).map((id) => `${kind}:${id}`));
+  return { kinds, entities, mentioned, rows: {}, errors, notes: [] };
+}
+
+function readCsvBundle(text: string, current: BundleEntities): ReadBundle {
+  const result = parseEntityCsv(text, current);
+  return { ...result, kinds: [result.kind] };
+}
+
+/** Issues of one entity, pointed at the row of the field they concern */
+function issueErrors(
+  issues: ZodIssue[],
+  key: string,
+  rows: Record<string, number>,
+  fieldIds: string[] = []
+): BundleRowError[] {
+  return issues.map((issue) => {
+    const [first, index, ...rest] = issue.path;
+    if (first === 'fields' && typeof index === 'number') {
+      const where = rest.length > 0 ? ` ${rest.join('.')}` : '';
+      return {
+        row: rows[`${key}/fields/${index}`] ?? rows[key],
+        entity: key,
+        message: `Field "${fieldIds[index] ?? index + 1}"${where}: ${issue.message}`,
+      };
+    }
+    return {
+      row: rows[key],
+      entity: key,
+      message: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    };
+  });
+}
+
+/** Run every entity through its save schema; the failing ones are dropped */
+function checkEntities(read: ReadBundle): ReadBundle {
+  const errors = [...read.errors];
+  const { programs, forms, ctas, branches, showcaseItems } = read.entities;
+
+  const keep = <T>(record: Record<string, T>, check: (id: string, entity: T) => BundleRowError[]) =>
+    Object.fromEntries(
+      Object.entries(record).filter(([id, entity]) => {
+        const found = check(id, entity);
+        errors.push(...found);
+        return found.length === 0;
+      })
+    );
+  const zod = (kind: BundleEntityKind, schema: ZodTypeAny) => (id: string, entity: unknown) => {
+    const parsed = schema.safeParse(entity);
+    if (parsed.success) return [];
+    const fields = kind === 'form' ? (entity as { fields?: { id: string }[] }).fields ?? [] : [];
+    return issueErrors(parsed.error.issues, `${kind}:${id}`, read.rows, fields.map((field) => field.id));
+  };
+
+  const entities: BundleEntities = {
+    programs: keep(programs, zod('program', programSchema)),
+    forms: keep(forms, zod('form', conversationalFormSchema)),
+    ctas: keep(ctas, zod('cta', ctaDefinitionSchema)),
+    branches: keep(branches, zod('branch', conversationBranchSchema)),
+    showcaseItems: showcaseItems.filter((item) => {
+      const key = `showcase:${item.id}`;
+      const found = Object.entries(
+        validateShowcaseItem(item, { isEditMode: true, existingIds: [], existingEntities: {}, originalEntity: item })
+      )
+        .filter(([, message]) => message)
+        .map(([field, message]) => ({ row: read.rows[key], entity: key, message: `${field}: ${message}` }));
+      errors.push(...found);
+      return found.length === 0;
+    }),
+  };
+
+  return { ...read, entities, errors };
+}
+
+/**
+ * Read an entity bundle (JSON, or one kind as CSV; by file extension, or by
+ * content when there is none) and check what importing it would write.
+ *
+ * @throws Error when the file is not a readable bundle
+ */
+export function parseEntityBundle(text: string, fileName: string, current: BundleEntities): EntityBundleImport {
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && text.trimStart().startsWith('{'));
+  const checked = checkEntities(isJson ? readJsonBundle(text) : readCsvBundle(text, current));
+  const count = checked.kinds.reduce((total, kind) => total + entityIds(checked.entities, kind).length, 0);
+  return {
+    fileName,
+    kinds: checked.kinds,
+    entities: checked.entities,
+    mentioned: checked.mentioned,
+    errors: checked.errors,
+    notes: checked.notes,
+    count,
+  };
+}
+
+/**
+ * `current` with the import written into it. Merge adds and updates; replace
+ * also drops the entities of each imported kind that the file doesn't have.
+ */
+export function applyEntityBundle(
+  current: BundleEntities,
+  imported: EntityBundleImport,
+  mode: BundleImportMode
+): BundleEntities {
+  const has = (kind: BundleEntityKind) => imported.kinds.includes(kind);
+  const mentioned = new Set(imported.mentioned);
+  const base = <T>(kind: BundleEntityKind, record: Record<string, T>): Record<string, T> =>
+    mode === 'merge' || !has(kind)
+      ? record
+      : Object.fromEntries(Object.entries(record).filter(([id]) => mentioned.has(`${kind}:${id}`)));
+
+  const importedShowcase = new Map(imported.entities.showcaseItems.map((item) => [item.id, item]));
+  const showcaseItems = current.showcaseItems
+    .filter((item) => mode === 'merge' || !has('showcase') || mentioned.has(`showcase:${item.id}`))
+    .map((item) => importedShowcase.get(item.id) ?? item);
+  const added = imported.entities.showcaseItems.filter((item) => !current.showcaseItems.some((c) => c.id === item.id));
+
+  return {
+    programs: { ...base('program', current.programs), ...imported.entities.programs },
+    forms: { ...base('form', current.forms), ...imported.entities.forms },
+    ctas: { ...base('cta', current.ctas), ...imported.entities.ctas },
+    branches: { ...base('branch', current.branches), ...imported.entities.branches },
+    showcaseItems: [...showcaseItems, ...added],
+  };
+}
+
+/**
+ * Validate the config with the import applied, diff it against the current
+ * one and report what the import would add to its errors and warnings
+ */
+export function previewEntityBundle(
+  config: TenantConfig,
+  imported: EntityBundleImport,
+  mode: BundleImportMode
+): EntityBundlePreview {
+  const next = applyEntityBundle(bundleEntitiesFromConfig(config), imported, mode);
+  const after: TenantConfig = {
+    ...config,
+    programs: next.programs,
+    conversational_forms: next.forms,
+    cta_definitions: next.ctas,
+    conversation_branches: next.branches,
+    content_showcase: next.showcaseItems,
+  };
+  const before = validateTenantConfig(config);
+  const validation = validateTenantConfig(after);
+
+  const existingErrors = new Set(before.errors.map((e) => e.message));
+  const existingWarnings = new Set(before.warnings.map((w) => w.message));
+  return {
+    after,
+    changelog: semanticDiff(config, after),
+    introducedErrors: validation.errors.filter((e) => !existingErrors.has(e.message)),
+    introducedWarnings: validation.warnings.filter((w) => !existingWarnings.has(w.message)),
+  };
+}
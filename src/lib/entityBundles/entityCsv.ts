@@ -0,0 +1,557 @@
+/**
+ * Entity CSV
+ * Spreadsheet rows for programs, forms, CTAs, branches and showcase items
+ *
+ * One CSV holds one kind of entity, told apart by its first column:
+ * program_id, form_id, cta_id, branch_id or id (showcase items). Forms take
+ * one row per field — the form_* columns describe the form and may be
+ * repeated on each of its rows or given once, the field_* columns describe
+ * the field.
+ *
+ * Lists share a cell, separated by "|". Options are `value=Label`, or just
+ * the label when it is also the value; subfields are `id=Label`, with a "?"
+ * after optional IDs: `first=First name|middle?=Middle name|last=Last name`.
+ *
+ * A CSV is authoritative for the columns it has: a blank cell clears that
+ * property, a missing column leaves it alone. What has no column (post
+ * submission, notifications, show-if rules, subfield validation, a showcase
+ * item's legacy action) is kept from the entity or field with the same ID
+ * in the current config.
+ */
+
+import type { ConversationalForm, CTAActionType, CTAType, FormFieldOption, FormSubField } from '@/types/config';
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+import type { BundleEntities, BundleEntityKind, BundleRowError } from './types';
+
+export const LIST_SEPARATOR = '|';
+
+/** An entity as the columns see it: a bag of properties */
+type Draft = Record<string, unknown>;
+
+interface Column {
+  name: string;
+  /** Cell text for the export */
+  get: (entity: Draft) => string;
+  /** Write a cell onto the entity; blank clears. Throws when the cell can't be read. */
+  set: (entity: Draft, value: string) => void;
+}
+
+export interface EntityCsvImport {
+  kind: BundleEntityKind;
+  /** The entities read, in the section of `kind`; the others are empty */
+  entities: BundleEntities;
+  /** Every `kind:id` the file has, including ones with errors */
+  mentioned: string[];
+  /** `kind:id` → its first row; `kind:id/fields/N` → the row of a form's Nth field */
+  rows: Record<string, number>;
+  errors: BundleRowError[];
+  /** Columns that were ignored, one line each */
+  notes: string[];
+}
+
+const CTA_TYPE_FOR_ACTION: Record<CTAActionType, CTAType> = {
+  start_form: 'form_trigger',
+  external_link: 'external_link',
+  send_query: 'bedrock_query',
+  show_info: 'info_request',
+  start_scheduling: 'scheduling_trigger',
+  resume_scheduling: 'scheduling_trigger',
+};
+
+// ============================================================================
+// CELLS
+// ============================================================================
+
+function put(entity: Draft, key: string, value: unknown): void {
+  if (value === undefined) delete entity[key];
+  else entity[key] = value;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseBoolean(value: string, column: string): boolean {
+  if (/^(true|yes|y|1)$/i.test(value)) return true;
+  if (/^(false|no|n|0)$/i.test(value)) return false;
+  throw new Error(`${column} must be true or false, not "${value}"`);
+}
+
+function parseNumber(value: string, column: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`${column} must be a number, not "${value}"`);
+  return number;
+}
+
+const text = (name: string, key = name, fallback?: string): Column => ({
+  name,
+  get: (entity) => (typeof entity[key] === 'string' ? (entity[key] as string) : ''),
+  set: (entity, value) => put(entity, key, value || fallback),
+});
+
+const flag = (name: string, key = name, fallback?: boolean): Column => ({
+  name,
+  get: (entity) => (typeof entity[key] === 'boolean' ? String(entity[key]) : ''),
+  set: (entity, value) => put(entity, key, value ? parseBoolean(value, name) : fallback),
+});
+
+const count = (name: string, key = name): Column => ({
+  name,
+  get: (entity) => (typeof entity[key] === 'number' ? String(entity[key]) : ''),
+  set: (entity, value) => put(entity, key, value ? parseNumber(value, name) : undefined),
+});
+
+const list = (name: string, key = name): Column => ({
+  name,
+  get: (entity) => (Array.isArray(entity[key]) ? (entity[key] as string[]).join(LIST_SEPARATOR) : ''),
+  set: (entity, value) => put(entity, key, value ? splitList(value) : undefined),
+});
+
+/** A column for a property of a nested object, e.g. available_ctas.primary */
+const within = (parent: string, column: Column): Column => ({
+  name: column.name,
+  get: (entity) => column.get((entity[parent] ?? {}) as Draft),
+  set: (entity, value) => {
+    const child = { ...((entity[parent] ?? {}) as Draft) };
+    column.set(child, value);
+    entity[parent] = child;
+  },
+});
+
+const options: Column = {
+  name: 'field_options',
+  get: (field) =>
+    ((field.options as FormFieldOption[] | undefined) ?? [])
+      .map((option) => (option.value === option.label ? option.label : `${option.value}=${option.label}`))
+      .join(LIST_SEPARATOR),
+  set: (field, value) =>
+    put(
+      field,
+      'options',
+      value
+        ? splitList(value).map((item) => {
+            const split = item.indexOf('=');
+            return split < 0
+              ? { value: item, label: item }
+              : { value: item.slice(0, split).trim(), label: item.slice(split + 1).trim() };
+          })
+        : undefined
+    ),
+};
+
+const subfields: Column = {
+  name: 'field_subfields',
+  get: (field) =>
+    ((field.subfields as FormSubField[] | undefined) ?? [])
+      .map((subfield) => `${subfield.id}${subfield.required ? '' : '?'}=${subfield.label}`)
+      .join(LIST_SEPARATOR),
+  set: (field, value) => {
+    const current = (field.subfields as FormSubField[] | undefined) ?? [];
+    put(
+      field,
+      'subfields',
+      value
+        ? splitList(value).map((item): FormSubField => {
+            const split = item.indexOf('=');
+            const rawId = (split < 0 ? item : item.slice(0, split)).trim();
+            const id = rawId.replace(/\?$/, '');
+            const existing = current.find((subfield) => subfield.id === id);
+            return {
+              type: 'text',
+              ...existing,
+              id,
+              label: split < 0 ? existing?.label ?? id : item.slice(split + 1).trim(),
+              required: !rawId.endsWith('?'),
+            };
+          })
+        : undefined
+    );
+  },
+};
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+interface KindColumns {
+  section: 'programs' | 'ctas' | 'branches' | 'showcaseItems';
+  idColumn: string;
+  /** Property that repeats the ID inside the entity */
+  idKey?: string;
+  columns: Column[];
+  /** Tidy an entity once every cell is written */
+  finish?: (entity: Draft) => void;
+}
+
+const PROGRAM_COLUMNS: KindColumns = {
+  section: 'programs',
+  idColumn: 'program_id',
+  idKey: 'program_id',
+  columns: [text('program_name', 'program_name', ''), text('description')],
+};
+
+const CTA_COLUMNS: KindColumns = {
+  section: 'ctas',
+  idColumn: 'cta_id',
+  columns: [
+    text('label', 'label', ''),
+    text('action', 'action', ''),
+    {
+      name: 'type',
+      get: (cta) => (typeof cta.type === 'string' ? cta.type : ''),
+      set: (cta, value) => put(cta, 'type', value || CTA_TYPE_FOR_ACTION[cta.action as CTAActionType]),
+    },
+    text('formId'),
+    text('url'),
+    text('query'),
+    text('prompt'),
+    text('target_branch'),
+    text('on_completion_branch'),
+    text('program_id'),
+    flag('ai_available'),
+    within('selection_metadata', list('topic_tags')),
+    within('selection_metadata', text('depth_level')),
+    within('selection_metadata', text('role_axis')),
+  ],
+  finish: (cta) => {
+    if (!cta.type && cta.action) cta.type = CTA_TYPE_FOR_ACTION[cta.action as CTAActionType];
+    const metadata = cta.selection_metadata as Draft | undefined;
+    if (!metadata) return;
+    if (!metadata.topic_tags && !metadata.depth_level && !metadata.role_axis) delete cta.selection_metadata;
+    else if (!metadata.topic_tags) metadata.topic_tags = [];
+  },
+};
+
+const BRANCH_COLUMNS: KindColumns = {
+  section: 'branches',
+  idColumn: 'branch_id',
+  columns: [
+    text('description'),
+    within('available_ctas', text('primary_cta', 'primary', '')),
+    within('available_ctas', list('secondary_ctas', 'secondary')),
+    text('program_id'),
+    text('showcase_item_id'),
+  ],
+  finish: (branch) => {
+    const ctas = (branch.available_ctas ?? {}) as Draft;
+    branch.available_ctas = { ...ctas, primary: ctas.primary ?? '', secondary: ctas.secondary ?? [] };
+  },
+};
+
+const SHOWCASE_COLUMNS: KindColumns = {
+  section: 'showcaseItems',
+  idColumn: 'id',
+  idKey: 'id',
+  columns: [
+    text('type'),
+    flag('enabled', 'enabled', true),
+    text('name', 'name', ''),
+    text('tagline', 'tagline', ''),
+    text('description', 'description', ''),
+    text('image_url'),
+    text('stats'),
+    text('testimonial'),
+    list('highlights'),
+    {
+      name: 'keywords',
+      get: (item) => (Array.isArray(item.keywords) ? (item.keywords as string[]).join(LIST_SEPARATOR) : ''),
+      set: (item, value) => put(item, 'keywords', splitList(value)),
+    },
+    within('available_ctas', text('primary_cta', 'primary')),
+    within('available_ctas', list('secondary_ctas', 'secondary')),
+    text('program_id'),
+  ],
+  finish: (item) => {
+    const ctas = item.available_ctas as Draft | undefined;
+    if (ctas && !ctas.primary && !ctas.secondary) delete item.available_ctas;
+  },
+};
+
+const FORM_COLUMNS: Column[] = [
+  text('form_title', 'title', ''),
+  text('form_description', 'description', ''),
+  text('form_program', 'program', ''),
+  flag('form_enabled', 'enabled', true),
+  text('form_introduction', 'introduction'),
+  text('form_cta_text', 'cta_text'),
+  text('form_on_completion_branch', 'on_completion_branch'),
+];
+
+const FIELD_COLUMNS: Column[] = [
+  text('field_type', 'type', 'text'),
+  text('field_label', 'label', ''),
+  text('field_prompt', 'prompt', ''),
+  text('field_hint', 'hint'),
+  flag('field_required', 'required', false),
+  options,
+  subfields,
+  flag('field_eligibility_gate', 'eligibility_gate'),
+  text('field_failure_message', 'failure_message'),
+  count('field_minimum_age', 'minimum_age'),
+  count('field_min_selections', 'min_selections'),
+  count('field_max_selections', 'max_selections'),
+  text('field_policy_text', 'policy_text'),
+  text('field_policy_url', 'policy_url'),
+  list('field_accepted_types', 'accepted_types'),
+  count('field_max_file_size_mb', 'max_file_size_mb'),
+];
+
+const RECORD_KINDS: Partial<Record<BundleEntityKind, KindColumns>> = {
+  program: PROGRAM_COLUMNS,
+  cta: CTA_COLUMNS,
+  branch: BRANCH_COLUMNS,
+  showcase: SHOWCASE_COLUMNS,
+};
+
+/** The first column of each kind's CSV, which tells the kinds apart */
+export const CSV_ID_COLUMNS: Record<BundleEntityKind, string> = {
+  program: 'program_id',
+  form: 'form_id',
+  cta: 'cta_id',
+  branch: 'branch_id',
+  showcase: 'id',
+};
+
+export const emptyBundleEntities = (): BundleEntities => ({
+  programs: {},
+  forms: {},
+  ctas: {},
+  branches: {},
+  showcaseItems: [],
+});
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/** One kind of entity as CSV text, one row per entity (per field for forms) */
+export function entitiesToCsv(kind: BundleEntityKind, entities: BundleEntities): string {
+  if (kind === 'form') {
+    const header = ['form_id', ...FORM_COLUMNS.map((c) => c.name), 'field_id', ...FIELD_COLUMNS.map((c) => c.name)];
+    const rows = Object.entries(entities.forms).flatMap(([id, form]) => {
+      const formCells = [id, ...FORM_COLUMNS.map((column) => column.get(form as unknown as Draft))];
+      const fields = form.fields ?? [];
+      if (fields.length === 0) return [[...formCells, '', ...FIELD_COLUMNS.map(() => '')]];
+      return fields.map((field) => [
+        ...formCells,
+        field.id,
+        ...FIELD_COLUMNS.map((column) => column.get(field as unknown as Draft)),
+      ]);
+    });
+    return toCsv([header, ...rows]);
+  }
+
+  const spec = RECORD_KINDS[kind]!;
+  const records: [string, Draft][] =
+    spec.section === 'showcaseItems'
+      ? entities.showcaseItems.map((item) => [item.id, item as unknown as Draft])
+      : Object.entries(entities[spec.section] as Record<string, object>).map(([id, entity]) => [id, entity as Draft]);
+  return toCsv([
+    [spec.idColumn, ...spec.columns.map((column) => column.name)],
+    ...records.map(([id, entity]) => [id, ...spec.columns.map((column) => column.get(entity))]),
+  ]);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+interface CsvRecord {
+  cells: string[];
+  row: number;
+}
+
+/** Cell reader for a header: undefined when the column is missing */
+function reader(header: string[]) {
+  const index = new Map(header.map((name, position) => [name.trim(), position]));
+  return {
+    has: (column: string) => index.has(column),
+    read: (record: CsvRecord, column: string): string | undefined => {
+      const position = index.get(column);
+      return position === undefined ? undefined : (record.cells[position] ?? '').trim();
+    },
+  };
+}
+
+function writeColumns(entity: Draft, columns: Column[], read: (column: string) => string | undefined): void {
+  columns.forEach((column) => {
+    const value = read(column.name);
+    if (value !== undefined) column.set(entity, value);
+  });
+}
+
+/**
+ * Read one kind of entity from CSV text. Entities start from the current
+ * one with the same ID, so properties without a column are kept.
+ * Rows that can't be read are reported and their entity left out.
+ *
+ * @throws Error when the first column is not one of the ID columns
+ */
+export function parseEntityCsv(text: string, current: BundleEntities): EntityCsvImport {
+  const [header = [], ...cells] = parseCsv(text);
+  const first = header[0]?.trim() ?? '';
+  const kind = (Object.keys(CSV_ID_COLUMNS) as BundleEntityKind[]).find((k) => CSV_ID_COLUMNS[k] === first);
+  if (!kind) {
+    throw new Error(
+      `Entity CSV must start with one of these columns: ${Object.values(CSV_ID_COLUMNS).join(', ')}`
+    );
+  }
+
+  const records = cells.map((row, index) => ({ cells: row, row: index + 2 }));
+  const columns = reader(header);
+  const known = new Set(
+    kind === 'form'
+      ? ['form_id', 'field_id', ...FORM_COLUMNS.map((c) => c.name), ...FIELD_COLUMNS.map((c) => c.name)]
+      : [first, ...RECORD_KINDS[kind]!.columns.map((c) => c.name)]
+  );
+  const ignored = header.map((name) => name.trim()).filter((name) => name && !known.has(name));
+
+  const result: EntityCsvImport = {
+    kind,
+    entities: emptyBundleEntities(),
+    mentioned: [],
+    rows: {},
+    errors: [],
+    notes: ignored.length > 0 ? [`Ignored unknown column(s): ${ignored.join(', ')}`] : [],
+  };
+  const failed = new Set<string>();
+  const fail = (row: number, entity: string, message: string) => {
+    result.errors.push({ row, entity, message });
+    failed.add(entity);
+  };
+
+  if (kind === 'form') {
+    readForms(records, columns, current, result, fail);
+  } else {
+    readRecords(kind, RECORD_KINDS[kind]!, records, columns, current, result, fail);
+  }
+
+  failed.forEach((key) => {
+    const [failedKind, id] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+    if (failedKind !== kind) return;
+    if (kind === 'showcase') {
+      result.entities.showcaseItems = result.entities.showcaseItems.filter((item) => item.id !== id);
+    } else if (kind === 'form') {
+      delete result.entities.forms[id];
+    } else {
+      delete (result.entities[RECORD_KINDS[kind]!.section] as Record<string, unknown>)[id];
+    }
+  });
+  return result;
+}
+
+type Fail = (row: number, entity: string, message: string) => void;
+
+function readRecords(
+  kind: BundleEntityKind,
+  spec: KindColumns,
+  records: CsvRecord[],
+  columns: ReturnType<typeof reader>,
+  current: BundleEntities,
+  result: EntityCsvImport,
+  fail: Fail
+): void {
+  records.forEach((record) => {
+    const id = columns.read(record, spec.idColumn) ?? '';
+    const key = `${kind}:${id}`;
+    if (!id) {
+      fail(record.row, `${kind}:(blank)`, `${spec.idColumn} is blank`);
+      return;
+    }
+    if (result.rows[key] !== undefined) {
+      fail(record.row, key, `Duplicate ${spec.idColumn} "${id}" (first on row ${result.rows[key]})`);
+      return;
+    }
+    result.rows[key] = record.row;
+    result.mentioned.push(key);
+
+    const existing =
+      spec.section === 'showcaseItems'
+        ? current.showcaseItems.find((item) => item.id === id)
+        : (current[spec.section] as Record<string, object>)[id];
+    const entity: Draft = structuredClone({ ...existing });
+    if (spec.idKey) entity[spec.idKey] = id;
+    try {
+      writeColumns(entity, spec.columns, (column) => columns.read(record, column));
+      spec.finish?.(entity);
+    } catch (error) {
+      fail(record.row, key, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (spec.section === 'showcaseItems') {
+      result.entities.showcaseItems.push(entity as unknown as BundleEntities['showcaseItems'][number]);
+    } else {
+      (result.entities[spec.section] as Record<string, unknown>)[id] = entity;
+    }
+  });
+}
+
+function readForms(
+  records: CsvRecord[],
+  columns: ReturnType<typeof reader>,
+  current: BundleEntities,
+  result: EntityCsvImport,
+  fail: Fail
+): void {
+  const byForm = new Map<string, CsvRecord[]>();
+  records.forEach((record) => {
+    const id = columns.read(record, 'form_id') ?? '';
+    if (!id) {
+      fail(record.row, 'form:(blank)', 'form_id is blank');
+      return;
+    }
+    byForm.set(id, [...(byForm.get(id) ?? []), record]);
+  });
+
+  byForm.forEach((formRecords, id) => {
+    const key = `form:${id}`;
+    result.rows[key] = formRecords[0].row;
+    result.mentioned.push(key);
+    const existing = current.forms[id];
+    const form: Draft = { enabled: true, ...(structuredClone(existing ?? {}) as unknown as Draft), form_id: id };
+
+    try {
+      // Form columns: the non-blank cells of a form's rows must agree
+      writeColumns(form, FORM_COLUMNS, (column) => {
+        if (!columns.has(column)) return undefined;
+        let value = '';
+        let valueRow = 0;
+        formRecords.forEach((record) => {
+          const cell = columns.read(record, column) ?? '';
+          if (!cell) return;
+          if (value && cell !== value) {
+            throw new Error(`${column} is "${cell}" on row ${record.row} but "${value}" on row ${valueRow}`);
+          }
+          value = cell;
+          valueRow = record.row;
+        });
+        return value;
+      });
+    } catch (error) {
+      fail(formRecords[0].row, key, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const fields: Draft[] = [];
+    formRecords.forEach((record) => {
+      const fieldId = columns.read(record, 'field_id') ?? '';
+      if (!fieldId) return;
+      const existingField = (existing?.fields ?? []).find((field) => field.id === fieldId);
+      const field: Draft = { type: 'text', required: false, ...(structuredClone(existingField ?? {}) as unknown as Draft), id: fieldId };
+      try {
+        writeColumns(field, FIELD_COLUMNS, (column) => columns.read(record, column));
+      } catch (error) {
+        fail(record.row, key, `Field "${fieldId}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+      result.rows[`${key}/fields/${fields.length}`] = record.row;
+      fields.push(field);
+    });
+    form.fields = fields;
+
+    result.entities.forms[id] = form as unknown as ConversationalForm;
+  });
+}
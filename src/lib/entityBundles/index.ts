@@ -0,0 +1,21 @@
+/**
+ * Entity bundles: programs, forms, CTAs, branches and showcase items as
+ * JSON or CSV files
+ */
+
+export {
+  ENTITY_BUNDLE_FORMAT,
+  BUNDLE_ENTITY_KINDS,
+  BUNDLE_KIND_LABELS,
+  bundleEntitiesFromConfig,
+  buildEntityBundle,
+  entityBundleToJson,
+  entityBundleToCsv,
+  parseEntityBundle,
+  applyEntityBundle,
+  previewEntityBundle,
+} from './entityBundles';
+export { CSV_ID_COLUMNS, LIST_SEPARATOR, emptyBundleEntities, entitiesToCsv, parseEntityCsv } from './entityCsv';
+export type { EntityBundle, EntityBundleImport, EntityBundlePreview, BundleImportMode } from './entityBundles';
+export type { EntityCsvImport } from './entityCsv';
+export type { BundleEntities, BundleEntityKind, BundleRowError } from './types';
@@ -0,0 +1,27 @@
+/**
+ * Entity bundle types
+ */
+
+import type { ConversationalForm, ConversationBranch, CTADefinition, Program, ShowcaseItem } from '@/types/config';
+
+export type BundleEntityKind = 'program' | 'form' | 'cta' | 'branch' | 'showcase';
+
+/** The entity sections a bundle carries */
+export interface BundleEntities {
+  programs: Record<string, Program>;
+  forms: Record<string, ConversationalForm>;
+  ctas: Record<string, CTADefinition>;
+  branches: Record<string, ConversationBranch>;
+  showcaseItems: ShowcaseItem[];
+}
+
+/**
+ * A problem with one entity of an imported file. The entity is left out of
+ * the import; `row` is the spreadsheet row (header = 1) for CSV files.
+ */
+export interface BundleRowError {
+  row?: number;
+  /** `kind:id` */
+  entity: string;
+  message: string;
+}
@@ -0,0 +1,163 @@
+/**
+ * Entity import: dependency closure, ID clashes, validation preview
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationalForm, ConversationBranch, CTADefinition, TenantConfig } from '@/types/config';
+import { applyImportPlan, findCollisions, planImport, previewImport, resolveImportItems, type ImportEntities } from '..';
+
+const form = (id: string, program: string): ConversationalForm => ({
+  enabled: true,
+  form_id: id,
+  program,
+  title: id,
+  description: `Apply: ${id}`,
+  fields: [{ id: 'name', type: 'text', label: 'Name', prompt: 'Name?', required: true }],
+});
+
+const formCta = (formId: string): CTADefinition => ({
+  label: `Start ${formId}`,
+  action: 'start_form',
+  type: 'form_trigger',
+  formId,
+});
+
+const branch = (primary: string, secondary: string[] = []): ConversationBranch => ({
+  available_ctas: { primary, secondary },
+});
+
+const source = (): ImportEntities => ({
+  programs: {
+    volunteer: { program_id: 'volunteer', program_name: 'Volunteer' },
+    donate: { program_id: 'donate', program_name: 'Donate' },
+  },
+  forms: {
+    volunteer_app: form('volunteer_app', 'volunteer'),
+    donor_form: form('donor_form', 'donate'),
+    unrelated: form('unrelated', 'donate'),
+  },
+  ctas: {
+    apply: formCta('volunteer_app'),
+    give: formCta('donor_form'),
+    other: formCta('unrelated'),
+  },
+  branches: {
+    get_involved: branch('apply', ['give']),
+    other_branch: branch('other'),
+  },
+});
+
+const empty = (): ImportEntities => ({ programs: {}, forms: {}, ctas: {}, branches: {} });
+
+describe('resolveImportItems', () => {
+  it('pulls in the program, the CTAs that open a form and the branches offering them', () => {
+    const items = resolveImportItems(source(), [{ kind: 'form', id: 'volunteer_app' }]);
+
+    expect(items.map((item) => `${item.kind}:${item.id}`)).toEqual([
+      'form:volunteer_app',
+      'cta:apply',
+      'branch:get_involved',
+      'program:volunteer',
+      'cta:give',
+      'form:donor_form',
+      'program:donate',
+    ]);
+    expect(items[0].reason).toBeNull();
+    expect(items.find((item) => item.kind === 'program' && item.id === 'volunteer')!.reason).toBe(
+      'Program of form "volunteer_app"'
+    );
+  });
+
+  it('does not pull in the users of a CTA or a branch', () => {
+    const items = resolveImportItems(source(), [{ kind: 'cta', id: 'other' }]);
+
+    expect(items.map((item) => `${item.kind}:${item.id}`)).toEqual(['cta:other', 'form:unrelated', 'program:donate']);
+  });
+
+  it('ignores picks the source does not have', () => {
+    expect(resolveImportItems(source(), [{ kind: 'form', id: 'missing' }])).toEqual([]);
+  });
+});
+
+describe('planImport', () => {
+  const picked = [{ kind: 'cta' as const, id: 'apply' }];
+
+  it('renames clashing IDs by default and rewrites references to them', () => {
+    const target = empty();
+    target.forms.volunteer_app = form('volunteer_app', 'volunteer');
+    const items = resolveImportItems(source(), picked);
+
+    expect(findCollisions(items, target)).toEqual([{ kind: 'form', id: 'volunteer_app', reason: 'Opened by CTA "apply"' }]);
+
+    const plan = planImport(source(), items, target);
+
+    expect(plan.renamed).toEqual({ 'form:volunteer_app': 'volunteer_app_imported' });
+    expect(Object.keys(plan.entities.forms)).toEqual(['volunteer_app_imported']);
+    expect(plan.entities.forms.volunteer_app_imported.form_id).toBe('volunteer_app_imported');
+    expect(plan.entities.ctas.apply.formId).toBe('volunteer_app_imported');
+  });
+
+  it('skips or overwrites clashing entities when asked', () => {
+    const target = empty();
+    target.forms.volunteer_app = form('volunteer_app', 'volunteer');
+    target.programs.volunteer = { program_id: 'volunteer', program_name: 'Ours' };
+    const items = resolveImportItems(source(), picked);
+
+    const plan = planImport(source(), items, target, {
+      'form:volunteer_app': 'skip',
+      'program:volunteer': 'overwrite',
+    });
+
+    expect(plan.skipped).toEqual(['form:volunteer_app']);
+    expect(plan.overwritten).toEqual(['program:volunteer']);
+    expect(plan.entities.forms).toEqual({});
+    expect(plan.entities.ctas.apply.formId).toBe('volunteer_app');
+    expect(plan.entities.programs.volunteer.program_name).toBe('Volunteer');
+  });
+
+  it('picks a free ID when the plain copy name is taken', () => {
+    const target = empty();
+    target.ctas.apply = formCta('x');
+    target.ctas.apply_imported = formCta('x');
+
+    const plan = planImport(source(), resolveImportItems(source(), picked), target);
+
+    expect(plan.renamed['cta:apply']).toBe('apply_imported_2');
+  });
+});
+
+describe('previewImport', () => {
+  const config = (entities: ImportEntities): TenantConfig =>
+    applyImportPlan(
+      {
+        tenant_id: 'T1',
+        conversational_forms: {},
+        cta_definitions: {},
+        conversation_branches: {},
+        programs: {},
+      } as unknown as TenantConfig,
+      { entities, renamed: {}, overwritten: [], skipped: [] }
+    );
+
+  it('reports errors the import adds and none the target already had', () => {
+    const target = empty();
+    const items = resolveImportItems(source(), [{ kind: 'cta', id: 'apply' }]);
+    // Without its form, the CTA points at a form the target doesn't have
+    const plan = planImport(source(), items, target);
+    plan.entities.forms = {};
+
+    const preview = previewImport(config(target), plan);
+
+    expect(preview.introducedErrors.some((error) => error.message.includes('volunteer_app'))).toBe(true);
+    expect(preview.after.cta_definitions.apply).toBeDefined();
+  });
+
+  it('is clean for a self-contained import', () => {
+    const preview = previewImport(
+      config(empty()),
+      planImport(source(), resolveImportItems(source(), [{ kind: 'branch', id: 'get_involved' }]), empty())
+    );
+
+    expect(preview.introducedErrors).toEqual([]);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Entity Import
+ * Copy programs, forms, CTAs and branches from another tenant's config
+ *
+ * Picking an entity pulls in what it needs, following the dependency graph:
+ * a form brings its program, the CTAs that open it and the branches that
+ * offer those CTAs; a CTA brings its form; a branch brings its CTAs. Pulled-in
+ * entities bring only what they use, so importing a form does not drag in
+ * every other form on the branches that offer it — those branches do bring
+ * their CTAs, and those CTAs their forms, so nothing imported points at an
+ * entity the target lacks.
+ *
+ * IDs that already exist in the target are resolved per entity: rename (the
+ * copy gets a free ID and references to it follow), overwrite, or skip
+ * (references point at the target's own entity with that ID).
+ */
+
+import type { ConversationalForm, ConversationBranch, CTADefinition, Program, TenantConfig } from '@/types/config';
+import { validateTenantConfig } from '@/lib/cli';
+import {
+  buildDependencyGraph,
+  getBranchDependencies,
+  getCTADependencies,
+  getFormDependencies,
+  type ConfigValidationResult,
+  type ValidationError,
+  type ValidationWarning,
+} from '@/lib/validation';
+import { renameEntityIds } from '@/lib/templates';
+import type { DependencyGraph } from '@/types/validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImportEntityKind = 'program' | 'form' | 'cta' | 'branch';
+
+/** The four entity dictionaries of a config */
+export interface ImportEntities {
+  programs: Record<string, Program>;
+  forms: Record<string, ConversationalForm>;
+  ctas: Record<string, CTADefinition>;
+  branches: Record<string, ConversationBranch>;
+}
+
+export interface ImportRef {
+  kind: ImportEntityKind;
+  id: string;
+}
+
+export interface ImportItem extends ImportRef {
+  /** Null when picked; otherwise why it was pulled in */
+  reason: string | null;
+}
+
+export type CollisionStrategy = 'rename' | 'overwrite' | 'skip';
+
+export interface ImportPlan {
+  /** What will be written to the target, under final IDs */
+  entities: ImportEntities;
+  /** `kind:id` → the ID a renamed copy gets */
+  renamed: Record<string, string>;
+  overwritten: string[];
+  skipped: string[];
+}
+
+export interface ImportPreview {
+  plan: ImportPlan;
+  /** The target config with the plan applied */
+  after: TenantConfig;
+  validation: ConfigValidationResult;
+  /** Errors and warnings the target doesn't already have */
+  introducedErrors: ValidationError[];
+  introducedWarnings: ValidationWarning[];
+}
+
+const SECTION: Record<ImportEntityKind, keyof ImportEntities> = {
+  program: 'programs',
+  form: 'forms',
+  cta: 'ctas',
+  branch: 'branches',
+};
+
+export const importKey = (ref: ImportRef): string => `${ref.kind}:${ref.id}`;
+
+/** The entity dictionaries of a stored config */
+export function entitiesFromConfig(config: TenantConfig): ImportEntities {
+  return {
+    programs: config.programs ?? {},
+    forms: config.conversational_forms ?? {},
+    ctas: config.cta_definitions ?? {},
+    branches: config.conversation_branches ?? {},
+  };
+}
+
+// ============================================================================
+// DEPENDENCIES
+// ============================================================================
+
+/** What an entity needs to work: the entities it uses, transitively */
+function usesOf(ref: ImportRef, graph: DependencyGraph): ImportItem[] {
+  switch (ref.kind) {
+    case 'form': {
+      const { program } = getFormDependencies(ref.id, graph);
+      return program ? [{ kind: 'program', id: program.id, reason: `Program of form "${ref.id}"` }] : [];
+    }
+    case 'cta': {
+      const { form, program } = getCTADependencies(ref.id, graph);
+      return [
+        ...(form ? [{ kind: 'form' as const, id: form.id, reason: `Opened by CTA "${ref.id}"` }] : []),
+        ...(program && form ? [{ kind: 'program' as const, id: program.id, reason: `Program of form "${form.id}"` }] : []),
+      ];
+    }
+    case 'branch': {
+      const { ctas, forms, programs } = getBranchDependencies(ref.id, graph);
+      return [
+        ...ctas.map((cta) => ({ kind: 'cta' as const, id: cta.id, reason: `Offered on branch "${ref.id}"` })),
+        ...forms.map((form) => ({ kind: 'form' as const, id: form.id, reason: `Opened by a CTA on branch "${ref.id}"` })),
+        ...programs.map((program) => ({ kind: 'program' as const, id: program.id, reason: `Program of a form on branch "${ref.id}"` })),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/** For a picked form, the CTAs that open it and the branches that offer them */
+function usersOf(ref: ImportRef, graph: DependencyGraph): ImportItem[] {
+  if (ref.kind !== 'form') return [];
+  const { ctas, branches } = getFormDependencies(ref.id, graph);
+  return [
+    ...ctas.map((cta) => ({ kind: 'cta' as const, id: cta.id, reason: `Opens form "${ref.id}"` })),
+    ...branches.map((branch) => ({ kind: 'branch' as const, id: branch.id, reason: `Offers a CTA for form "${ref.id}"` })),
+  ];
+}
+
+/**
+ * The picked entities plus everything they pull in, picked ones first.
+ * Each pulled-in entity is listed once, with the first reason found.
+ */
+export function resolveImportItems(source: ImportEntities, picked: ImportRef[]): ImportItem[] {
+  const graph = buildDependencyGraph(source.programs, source.forms, source.ctas, source.branches);
+  const items = new Map<string, ImportItem>();
+
+  const exists = (ref: ImportRef) => Boolean(source[SECTION[ref.kind]][ref.id]);
+  const queue: ImportItem[] = [];
+  const add = (item: ImportItem) => {
+    if (!exists(item) || items.has(importKey(item))) return;
+    items.set(importKey(item), item);
+    queue.push(item);
+  };
+
+  picked.forEach((ref) => add({ ...ref, reason: null }));
+  picked.forEach((ref) => usersOf(ref, graph).forEach(add));
+
+  while (queue.length > 0) {
+    usesOf(queue.shift()!, graph).forEach(add);
+  }
+  return [...items.values()];
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/** Items whose ID is already taken in the target */
+export function findCollisions(items: ImportRef[], target: ImportEntities): ImportRef[] {
+  return items.filter((item) => Boolean(target[SECTION[item.kind]][item.id]));
+}
+
+function freeId(id: string, taken: Set<string>): string {
+  let candidate = `${id}_imported`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${id}_imported_${n}`;
+  return candidate;
+}
+
+/**
+ * The entities to write for `items`, with collisions resolved by
+ * `strategies` (keyed by `kind:id`; rename when absent) and every reference
+ * between imported entities following renames
+ */
+export function planImport(
+  source: ImportEntities,
+  items: ImportRef[],
+  target: ImportEntities,
+  strategies: Record<string, CollisionStrategy> = {}
+): ImportPlan {
+  const renamed: Record<string, string> = {};
+  const overwritten: string[] = [];
+  const skipped: string[] = [];
+
+  const taken: Record<ImportEntityKind, Set<string>> = {
+    program: new Set([...Object.keys(target.programs), ...Object.keys(source.programs)]),
+    form: new Set([...Object.keys(target.forms), ...Object.keys(source.forms)]),
+    cta: new Set([...Object.keys(target.ctas), ...Object.keys(source.ctas)]),
+    branch: new Set([...Object.keys(target.branches), ...Object.keys(source.branches)]),
+  };
+
+  const kept = items.filter((item) => {
+    if (!target[SECTION[item.kind]][item.id]) return true;
+    const strategy = strategies[importKey(item)] ?? 'rename';
+    if (strategy === 'skip') {
+      skipped.push(importKey(item));
+      return false;
+    }
+    if (strategy === 'overwrite') {
+      overwritten.push(importKey(item));
+    } else {
+      const id = freeId(item.id, taken[item.kind]);
+      taken[item.kind].add(id);
+      renamed[importKey(item)] = id;
+    }
+    return true;
+  });
+
+  const pick = <T>(kind: ImportEntityKind, record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(kept.filter((item) => item.kind === kind).map((item) => [item.id, record[item.id]]));
+
+  const byKind = (kind: ImportEntityKind) => (id: string) => renamed[`${kind}:${id}`] ?? id;
+  const content = renameEntityIds(
+    {
+      programs: pick('program', source.programs),
+      conversational_forms: pick('form', source.forms),
+      cta_definitions: pick('cta', source.ctas),
+      conversation_branches: pick('branch', source.branches),
+    },
+    { program: byKind('program'), form: byKind('form'), cta: byKind('cta'), branch: byKind('branch') }
+  );
+
+  return {
+    entities: {
+      programs: content.programs ?? {},
+      forms: content.conversational_forms ?? {},
+      ctas: content.cta_definitions ?? {},
+      branches: content.conversation_branches ?? {},
+    },
+    renamed,
+    overwritten,
+    skipped,
+  };
+}
+
+/** `config` with the plan's entities written into it */
+export function applyImportPlan(config: TenantConfig, plan: ImportPlan): TenantConfig {
+  return {
+    ...config,
+    programs: { ...config.programs, ...plan.entities.programs },
+    conversational_forms: { ...config.conversational_forms, ...plan.entities.forms },
+    cta_definitions: { ...config.cta_definitions, ...plan.entities.ctas },
+    conversation_branches: { ...config.conversation_branches, ...plan.entities.branches },
+  };
+}
+
+/**
+ * Validate the target with the plan applied and report what the import
+ * would add to its errors and warnings
+ */
+export function previewImport(target: TenantConfig, plan: ImportPlan): ImportPreview {
+  const after = applyImportPlan(target, plan);
+  const before = validateTenantConfig(target);
+  const validation = validateTenantConfig(after);
+
+  const existingErrors = new Set(before.errors.map((e) => e.message));
+  const existingWarnings = new Set(before.warnings.map((w) => w.message));
+  return {
+    plan,
+    after,
+    validation,
+    introducedErrors: validation.errors.filter((e) => !existingErrors.has(e.message)),
+    introducedWarnings: validation.warnings.filter((w) => !existingWarnings.has(w.message)),
+  };
+}
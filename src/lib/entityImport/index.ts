@@ -0,0 +1,22 @@
+/**
+ * Cross-tenant entity import
+ */
+
+export {
+  resolveImportItems,
+  findCollisions,
+  planImport,
+  applyImportPlan,
+  previewImport,
+  entitiesFromConfig,
+  importKey,
+} from './entityImport';
+export type {
+  ImportEntityKind,
+  ImportEntities,
+  ImportRef,
+  ImportItem,
+  CollisionStrategy,
+  ImportPlan,
+  ImportPreview,
+} from './entityImport';
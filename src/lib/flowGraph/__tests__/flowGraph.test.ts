@@ -0,0 +1,138 @@
+/**
+ * Flow graph: edges from config references, reachability, loops, layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationalForm, ConversationBranch, CTADefinition, ShowcaseItem } from '@/types/config';
+import { buildFlowGraph, findCycles, layoutFlowGraph, reachableFrom, NODE_WIDTH } from '..';
+
+const form = (over: Partial<ConversationalForm> = {}): ConversationalForm => ({
+  enabled: true,
+  form_id: 'apply',
+  program: 'p1',
+  title: 'Apply',
+  description: '',
+  fields: [],
+  ...over,
+});
+
+const branch = (primary?: string, secondary: string[] = [], over: Partial<ConversationBranch> = {}): ConversationBranch => ({
+  available_ctas: { primary, secondary },
+  ...over,
+});
+
+const cta = (over: Partial<CTADefinition>): CTADefinition => ({
+  label: 'CTA',
+  action: 'send_query',
+  type: 'bedrock_query',
+  ...over,
+});
+
+const showcase: ShowcaseItem = {
+  id: 'gala',
+  type: 'event',
+  enabled: false,
+  name: 'Gala',
+  tagline: '',
+  description: '',
+  keywords: [],
+  available_ctas: { primary: 'apply_cta' },
+};
+
+const input = {
+  actionChips: { volunteer: { label: 'Volunteer', value: 'v', target_branch: 'main' } },
+  branches: {
+    main: branch('apply_cta', ['more', 'missing'], { showcase_item_id: 'gala' }),
+    details: branch('back'),
+    island: branch('apply_cta'),
+  },
+  ctas: {
+    apply_cta: cta({ label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'apply' }),
+    more: cta({ label: 'More', target_branch: 'details' }),
+    back: cta({ label: 'Back', target_branch: 'main' }),
+  },
+  forms: { apply: form({ on_completion_branch: 'details' }) },
+  showcaseItems: [showcase],
+};
+
+describe('buildFlowGraph', () => {
+  const graph = buildFlowGraph(input);
+
+  it('creates a node per entity, namespaced by kind', () => {
+    expect(Object.keys(graph.nodes)).toEqual([
+      'actionChip:volunteer',
+      'branch:main',
+      'branch:details',
+      'branch:island',
+      'showcase:gala',
+      'cta:apply_cta',
+      'cta:more',
+      'cta:back',
+      'form:apply',
+    ]);
+    expect(graph.nodes['showcase:gala'].disabled).toBe(true);
+    expect(graph.nodes['cta:more'].label).toBe('More');
+  });
+
+  it('links every routing reference and skips missing targets', () => {
+    const edges = graph.edges.map((edge) => `${edge.from} ${edge.kind} ${edge.to}`);
+    expect(edges).toEqual(
+      expect.arrayContaining([
+        'actionChip:volunteer routes branch:main',
+        'branch:main offers cta:apply_cta',
+        'branch:main offers cta:more',
+        'branch:main shows showcase:gala',
+        'showcase:gala offers cta:apply_cta',
+        'cta:apply_cta starts form:apply',
+        'cta:more routes branch:details',
+        'form:apply completes branch:details',
+      ])
+    );
+    expect(edges.some((edge) => edge.includes('missing'))).toBe(false);
+    expect(graph.edges.find((edge) => edge.to === 'cta:apply_cta' && edge.from === 'branch:main')?.primary).toBe(true);
+  });
+});
+
+describe('reachableFrom', () => {
+  it('follows edges from the roots', () => {
+    const graph = buildFlowGraph(input);
+    const reachable = reachableFrom(graph, ['actionChip:volunteer']);
+    expect(reachable.has('form:apply')).toBe(true);
+    expect(reachable.has('branch:details')).toBe(true);
+    expect(reachable.has('branch:island')).toBe(false);
+  });
+});
+
+describe('findCycles', () => {
+  it('returns one closed path per loop, starting at its first node', () => {
+    const graph = buildFlowGraph(input);
+    expect(findCycles(graph)).toEqual([['branch:main', 'cta:more', 'branch:details', 'cta:back', 'branch:main']]);
+  });
+
+  it('finds self-loops and ignores acyclic graphs', () => {
+    const selfLoop = buildFlowGraph({ branches: { a: branch('x') }, ctas: { x: cta({ target_branch: 'a' }) }, forms: {} });
+    expect(findCycles(selfLoop)).toEqual([['branch:a', 'cta:x', 'branch:a']]);
+    expect(findCycles(buildFlowGraph({ branches: { a: branch('y') }, ctas: { y: cta({}) }, forms: {} }))).toEqual([]);
+  });
+});
+
+describe('layoutFlowGraph', () => {
+  it('puts roots in the first column and each hop one column right', () => {
+    const graph = buildFlowGraph(input);
+    const { positions, width, height } = layoutFlowGraph(graph, ['actionChip:volunteer']);
+
+    expect(positions['actionChip:volunteer'].x).toBeLessThan(positions['branch:main'].x);
+    expect(positions['branch:main'].x).toBeLessThan(positions['cta:more'].x);
+    expect(positions['cta:more'].x).toBeLessThan(positions['branch:details'].x);
+    expect(Object.keys(positions)).toHaveLength(Object.keys(graph.nodes).length);
+    expect(width).toBeGreaterThanOrEqual(positions['branch:details'].x + NODE_WIDTH);
+    expect(height).toBeGreaterThan(0);
+  });
+
+  it('never stacks two nodes on the same spot', () => {
+    const graph = buildFlowGraph(input);
+    const { positions } = layoutFlowGraph(graph, []);
+    const spots = Object.values(positions).map(({ x, y }) => `${x},${y}`);
+    expect(new Set(spots).size).toBe(spots.length);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Reachability: entry points, unreachable entities, dead ends, click paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationalForm, ConversationBranch, CTADefinition } from '@/types/config';
+import { analyzeReachability, type ReachabilityInput } from '..';
+
+const form = (over: Partial<ConversationalForm> = {}): ConversationalForm => ({
+  enabled: true,
+  form_id: 'apply',
+  program: 'p1',
+  title: 'Apply',
+  description: '',
+  fields: [],
+  ...over,
+});
+
+const branch = (primary?: string, secondary: string[] = []): ConversationBranch => ({
+  available_ctas: { primary, secondary },
+});
+
+const cta = (over: Partial<CTADefinition>): CTADefinition => ({
+  label: 'CTA',
+  action: 'send_query',
+  type: 'bedrock_query',
+  ...over,
+});
+
+const base = (): ReachabilityInput => ({
+  branches: {
+    volunteer: branch('apply_cta', ['closed_cta']),
+    closed: branch('closed_cta'),
+    fallback: branch('more'),
+    old_campaign: branch('more'),
+    thanks: branch(),
+  },
+  ctas: {
+    apply_cta: cta({ label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'apply' }),
+    closed_cta: cta({ label: 'Closed', action: 'start_form', type: 'form_trigger', formId: 'retired' }),
+    more: cta({ label: 'More' }),
+    donate: cta({ label: 'Donate', action: 'external_link', url: 'https://x.org' }),
+  },
+  forms: {
+    apply: form({ on_completion_branch: 'thanks' }),
+    retired: form({ form_id: 'retired', enabled: false, on_completion_branch: 'old_campaign' }),
+  },
+  config: {
+    action_chips: {
+      enabled: true,
+      max_display: 3,
+      show_on_welcome: true,
+      default_chips: { vol: { label: 'Volunteer', value: 'v', target_branch: 'volunteer' } },
+    },
+    cta_settings: { fallback_branch: 'fallback' },
+  },
+});
+
+describe('analyzeReachability', () => {
+  it('finds entry points from chips, the fallback branch, quick help and Messenger', () => {
+    const input = base();
+    input.config.quick_help = { enabled: true, prompts: ['How do I help?'] };
+    input.config.messenger_behavior = {
+      welcome: {
+        ice_breakers: [
+          { question: 'Donate?', payload: 'PIC1:cta:donate' },
+          { question: 'Gone?', payload: 'PIC1:cta:gone' },
+        ],
+        persistent_menu: [{ title: 'Apply', payload: 'PIC1:cta:apply_cta' }, { title: 'Site', url: 'https://x.org' }],
+      },
+    } as ReachabilityInput['config']['messenger_behavior'];
+
+    const report = analyzeReachability(input);
+
+    expect(report.entryPoints).toEqual([
+      { source: 'action_chip', label: 'Volunteer', nodeId: 'actionChip:vol' },
+      { source: 'fallback_branch', label: 'Any typed question', nodeId: 'branch:fallback' },
+      { source: 'quick_help', label: 'How do I help?', nodeId: 'branch:fallback' },
+      { source: 'ice_breaker', label: 'Donate?', nodeId: 'cta:donate' },
+      { source: 'persistent_menu', label: 'Apply', nodeId: 'cta:apply_cta' },
+    ]);
+  });
+
+  it('skips chips when they are turned off, and counts AI-available CTAs', () => {
+    const input = base();
+    input.config.action_chips!.enabled = false;
+    input.ctas.more.ai_available = true;
+
+    const sources = analyzeReachability(input).entryPoints.map((entry) => entry.source);
+
+    expect(sources).toEqual(['fallback_branch', 'ai_vocabulary']);
+  });
+
+  it('reports unreachable entities and does not walk through disabled forms', () => {
+    const report = analyzeReachability(base());
+
+    expect(report.unreachable).toEqual(['branch:closed', 'branch:old_campaign']);
+    expect(report.reachable).toEqual(
+      expect.arrayContaining(['branch:volunteer', 'branch:fallback', 'branch:thanks', 'form:apply', 'form:retired'])
+    );
+  });
+
+  it('reports nothing as unreachable when there are no entry points', () => {
+    const input = base();
+    input.config = {};
+
+    const report = analyzeReachability(input);
+
+    expect(report.entryPoints).toEqual([]);
+    expect(report.reachable).toEqual([]);
+    expect(report.unreachable).toEqual([]);
+  });
+
+  it('finds the shortest click path to each entity', () => {
+    const report = analyzeReachability(base());
+
+    expect(report.paths['form:apply'].entry.label).toBe('Volunteer');
+    expect(report.paths['form:apply'].nodeIds).toEqual(['actionChip:vol', 'branch:volunteer', 'cta:apply_cta', 'form:apply']);
+    expect(report.paths['branch:fallback'].nodeIds).toEqual(['branch:fallback']);
+  });
+
+  it('reports dead ends: disabled forms, branches with no working CTA, branches with no CTAs', () => {
+    const input = base();
+    input.config.action_chips!.default_chips.closed = { label: 'Closed', value: 'c', target_branch: 'closed' };
+
+    const deadEnds = analyzeReachability(input).deadEnds;
+
+    expect(deadEnds.map((d) => [d.nodeId, d.reason])).toEqual(
+      expect.arrayContaining([
+        ['form:retired', 'disabled_form'],
+        ['branch:closed', 'ctas_lead_nowhere'],
+        ['branch:thanks', 'no_ctas'],
+      ])
+    );
+    expect(deadEnds).toHaveLength(3);
+    expect(deadEnds.find((d) => d.nodeId === 'branch:closed')!.detail).toContain('"closed_cta" starts disabled form "retired"');
+    // One CTA still works, so the volunteer branch is not a dead end
+    expect(deadEnds.some((d) => d.nodeId === 'branch:volunteer')).toBe(false);
+  });
+});
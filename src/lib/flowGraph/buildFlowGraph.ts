@@ -0,0 +1,105 @@
+/**
+ * Build the routing graph from config entities
+ *
+ * References to missing entities are left out: broken references are
+ * reported by validation, and an edge needs both ends to draw.
+ */
+
+import type {
+  ActionChip,
+  ConversationalForm,
+  ConversationBranch,
+  CTADefinition,
+  ShowcaseItem,
+} from '@/types/config';
+import type { FlowEdge, FlowEdgeKind, FlowGraph, FlowNode, FlowNodeKind } from './types';
+
+export interface FlowGraphInput {
+  actionChips?: Record<string, ActionChip>;
+  branches: Record<string, ConversationBranch>;
+  ctas: Record<string, CTADefinition>;
+  forms: Record<string, ConversationalForm>;
+  showcaseItems?: ShowcaseItem[];
+}
+
+export function flowNodeId(kind: FlowNodeKind, entityId: string): string {
+  return `${kind}:${entityId}`;
+}
+
+/**
+ * @example
+ * const graph = buildFlowGraph({ actionChips, branches, ctas, forms, showcaseItems });
+ * graph.edges.filter((edge) => edge.from === flowNodeId('branch', 'main'));
+ */
+export function buildFlowGraph({
+  actionChips = {},
+  branches,
+  ctas,
+  forms,
+  showcaseItems = [],
+}: FlowGraphInput): FlowGraph {
+  const nodes: Record<string, FlowNode> = {};
+  const edges: FlowEdge[] = [];
+
+  const addNode = (kind: FlowNodeKind, entityId: string, label: string, disabled = false) => {
+    const id = flowNodeId(kind, entityId);
+    nodes[id] = { id, kind, entityId, label, ...(disabled ? { disabled } : {}) };
+  };
+
+  Object.entries(actionChips).forEach(([id, chip]) => addNode('actionChip', id, chip.label || id));
+  Object.keys(branches).forEach((id) => addNode('branch', id, id));
+  showcaseItems.forEach((item) => addNode('showcase', item.id, item.name || item.id, item.enabled === false));
+  Object.entries(ctas).forEach(([id, cta]) => addNode('cta', id, cta.label || cta.text || id));
+  Object.entries(forms).forEach(([id, form]) => addNode('form', id, form.title || id, form.enabled === false));
+
+  const link = (
+    from: string,
+    toKind: FlowNodeKind,
+    toEntity: string | null | undefined,
+    kind: FlowEdgeKind,
+    primary?: boolean
+  ) => {
+    if (!toEntity) return;
+    const to = flowNodeId(toKind, toEntity);
+    if (!nodes[to]) return;
+    if (edges.some((edge) => edge.from === from && edge.to === to && edge.kind === kind)) return;
+    edges.push({ from, to, kind, ...(primary ? { primary } : {}) });
+  };
+
+  Object.entries(actionChips).forEach(([id, chip]) => {
+    const from = flowNodeId('actionChip', id);
+    link(from, 'branch', chip.target_branch, 'routes');
+    link(from, 'showcase', chip.target_showcase_id, 'shows');
+  });
+
+  Object.entries(branches).forEach(([id, branch]) => {
+    const from = flowNodeId('branch', id);
+    link(from, 'cta', branch.available_ctas?.primary, 'offers', true);
+    (branch.available_ctas?.secondary ?? []).forEach((ctaId) => link(from, 'cta', ctaId, 'offers'));
+    link(from, 'showcase', branch.showcase_item_id, 'shows');
+  });
+
+  showcaseItems.forEach((item) => {
+    const from = flowNodeId('showcase', item.id);
+    link(from, 'cta', item.available_ctas?.primary, 'offers', true);
+    (item.available_ctas?.secondary ?? []).forEach((ctaId) => link(from, 'cta', ctaId, 'offers'));
+    link(from, 'cta', item.action?.cta_id, 'offers');
+  });
+
+  Object.entries(ctas).forEach(([id, cta]) => {
+    const from = flowNodeId('cta', id);
+    link(from, 'form', cta.formId, 'starts');
+    link(from, 'branch', cta.target_branch, 'routes');
+    link(from, 'branch', cta.on_completion_branch, 'completes');
+  });
+
+  Object.entries(forms).forEach(([id, form]) => {
+    const from = flowNodeId('form', id);
+    link(from, 'branch', form.on_completion_branch, 'completes');
+    (form.post_submission?.actions ?? [])
+      .filter((action) => action.action === 'start_form')
+      .forEach((action) => link(from, 'form', action.formId, 'starts'));
+  });
+
+  return { nodes, edges };
+}
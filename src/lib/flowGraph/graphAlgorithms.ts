@@ -0,0 +1,127 @@
+/**
+ * Traversals over the routing graph
+ */
+
+import type { FlowGraph } from './types';
+
+function successors(graph: FlowGraph): Map<string, string[]> {
+  const next = new Map<string, string[]>(Object.keys(graph.nodes).map((id) => [id, []]));
+  graph.edges.forEach((edge) => next.get(edge.from)?.push(edge.to));
+  return next;
+}
+
+/**
+ * Node ids reachable from `rootIds`, roots included
+ */
+export function reachableFrom(graph: FlowGraph, rootIds: Iterable<string>): Set<string> {
+  const next = successors(graph);
+  const seen = new Set<string>();
+  const queue = [...rootIds].filter((id) => graph.nodes[id]);
+  queue.forEach((id) => seen.add(id));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const to of next.get(id) ?? []) {
+      if (!seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Routing loops: one closed path per strongly connected component, starting
+ * and ending at the component's first node in graph order
+ *
+ * @example
+ * findCycles(graph); // [['branch:main', 'cta:more', 'branch:details', 'cta:back', 'branch:main']]
+ */
+export function findCycles(graph: FlowGraph): string[][] {
+  const next = successors(graph);
+  const order = Object.keys(graph.nodes);
+
+  // Tarjan's strongly connected components, iterative to keep deep graphs off the call stack
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const start of order) {
+    if (index.has(start)) continue;
+    const work: Array<{ id: string; child: number }> = [{ id: start, child: 0 }];
+    index.set(start, counter);
+    lowlink.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const children = next.get(frame.id) ?? [];
+      if (frame.child < children.length) {
+        const to = children[frame.child++];
+        if (!index.has(to)) {
+          index.set(to, counter);
+          lowlink.set(to, counter++);
+          stack.push(to);
+          onStack.add(to);
+          work.push({ id: to, child: 0 });
+        } else if (onStack.has(to)) {
+          lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(to)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+      }
+      if (lowlink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let id: string;
+        do {
+          id = stack.pop()!;
+          onStack.delete(id);
+          component.push(id);
+        } while (id !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components
+    .filter((component) => component.length > 1 || (next.get(component[0]) ?? []).includes(component[0]))
+    .map((component) => {
+      const members = new Set(component);
+      const first = order.find((id) => members.has(id))!;
+      return closedPath(first, members, next);
+    })
+    .sort((a, b) => order.indexOf(a[0]) - order.indexOf(b[0]));
+}
+
+/**
+ * Shortest path from `start` back to itself inside one component
+ */
+function closedPath(start: string, members: Set<string>, next: Map<string, string[]>): string[] {
+  const parent = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const to of next.get(id) ?? []) {
+      if (!members.has(to)) continue;
+      if (to === start) {
+        const path = [start];
+        for (let at = id; at !== start; at = parent.get(at)!) path.splice(1, 0, at);
+        return [...path, start];
+      }
+      if (!parent.has(to)) {
+        parent.set(to, id);
+        queue.push(to);
+      }
+    }
+  }
+  return [start, start];
+}
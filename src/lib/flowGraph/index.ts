@@ -0,0 +1,28 @@
+/**
+ * Conversation flow graph: build, traverse, lay out, analyze reachability
+ */
+
+export { buildFlowGraph, flowNodeId } from './buildFlowGraph';
+export { reachableFrom, findCycles } from './graphAlgorithms';
+export { layoutFlowGraph, NODE_WIDTH, NODE_HEIGHT } from './layout';
+export { analyzeReachability, findEntryPoints } from './reachability';
+export type { FlowGraphInput } from './buildFlowGraph';
+export type {
+  EntryPointSource,
+  EntryPoint,
+  ClickPath,
+  DeadEndReason,
+  DeadEnd,
+  EntryPointConfig,
+  ReachabilityInput,
+  ReachabilityReport,
+} from './reachability';
+export type {
+  FlowNodeKind,
+  FlowEdgeKind,
+  FlowNode,
+  FlowEdge,
+  FlowGraph,
+  NodePosition,
+  FlowLayout,
+} from './types';
@@ -0,0 +1,124 @@
+/**
+ * Layered left-to-right layout for the routing graph
+ *
+ * Each node's column is its breadth-first distance from the roots (the
+ * welcome chips); nodes the roots don't reach are laid out from their own
+ * sources after that. Rows within a column are ordered by the average row of
+ * their neighbours in the previous column (two sweeps), which keeps most
+ * edges short and uncrossed without a full Sugiyama pass.
+ */
+
+import type { FlowGraph, FlowLayout, FlowNodeKind } from './types';
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 48;
+const COLUMN_GAP = 80;
+const ROW_GAP = 20;
+const PADDING = 24;
+
+/** Tie-break order within a column */
+const KIND_ORDER: Record<FlowNodeKind, number> = {
+  actionChip: 0,
+  branch: 1,
+  showcase: 2,
+  cta: 3,
+  form: 4,
+};
+
+/**
+ * Column per node: BFS depth from `rootIds`, then from each remaining source
+ */
+function assignColumns(graph: FlowGraph, rootIds: string[]): Map<string, number> {
+  const next = new Map<string, string[]>(Object.keys(graph.nodes).map((id) => [id, []]));
+  const indegree = new Map<string, number>(Object.keys(graph.nodes).map((id) => [id, 0]));
+  graph.edges.forEach((edge) => {
+    next.get(edge.from)?.push(edge.to);
+    indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1);
+  });
+
+  const column = new Map<string, number>();
+  const walk = (starts: string[]) => {
+    const queue = starts.filter((id) => graph.nodes[id] && !column.has(id));
+    queue.forEach((id) => column.set(id, 0));
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const to of next.get(id) ?? []) {
+        if (!column.has(to)) {
+          column.set(to, column.get(id)! + 1);
+          queue.push(to);
+        }
+      }
+    }
+  };
+
+  walk(rootIds);
+  const byKind = Object.values(graph.nodes)
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+    .map((node) => node.id);
+  walk(byKind.filter((id) => indegree.get(id) === 0));
+  // Whatever is left sits only on loops with no way in
+  byKind.forEach((id) => walk([id]));
+  return column;
+}
+
+/**
+ * @example
+ * const { positions, width, height } = layoutFlowGraph(graph, chipNodeIds);
+ * positions['branch:main']; // { x: 284, y: 24 }
+ */
+export function layoutFlowGraph(graph: FlowGraph, rootIds: string[] = []): FlowLayout {
+  const column = assignColumns(graph, rootIds);
+  const columns: string[][] = [];
+  column.forEach((col, id) => {
+    (columns[col] ??= []).push(id);
+  });
+  columns.forEach((ids) =>
+    ids.sort((a, b) => {
+      const na = graph.nodes[a];
+      const nb = graph.nodes[b];
+      return KIND_ORDER[na.kind] - KIND_ORDER[nb.kind] || na.entityId.localeCompare(nb.entityId);
+    })
+  );
+
+  const predecessors = new Map<string, string[]>();
+  graph.edges.forEach((edge) => {
+    if (column.get(edge.from) === (column.get(edge.to) ?? 0) - 1) {
+      predecessors.set(edge.to, [...(predecessors.get(edge.to) ?? []), edge.from]);
+    }
+  });
+
+  for (let sweep = 0; sweep < 2; sweep++) {
+    const row = new Map<string, number>();
+    columns.forEach((ids) => ids.forEach((id, i) => row.set(id, i)));
+    for (let col = 1; col < columns.length; col++) {
+      const ids = columns[col] ?? [];
+      const barycenter = new Map(
+        ids.map((id, i) => {
+          const preds = predecessors.get(id) ?? [];
+          const center = preds.length > 0 ? preds.reduce((sum, p) => sum + row.get(p)!, 0) / preds.length : i;
+          return [id, center] as const;
+        })
+      );
+      ids.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+      ids.forEach((id, i) => row.set(id, i));
+    }
+  }
+
+  const positions: FlowLayout['positions'] = {};
+  let tallest = 0;
+  columns.forEach((ids, col) => {
+    (ids ?? []).forEach((id, i) => {
+      positions[id] = {
+        x: PADDING + col * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + i * (NODE_HEIGHT + ROW_GAP),
+      };
+    });
+    tallest = Math.max(tallest, ids?.length ?? 0);
+  });
+
+  return {
+    positions,
+    width: PADDING * 2 + Math.max(columns.length, 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: PADDING * 2 + Math.max(tallest, 1) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Reachability Analysis
+ * What a visitor can actually get to, starting from the places a
+ * conversation begins
+ *
+ * Entry points:
+ * - welcome action chips (`action_chips.default_chips`, unless chips are off)
+ * - the fallback branch (`cta_settings.fallback_branch`) — any typed question
+ * - quick help prompts — typed questions too, so they land on the fallback branch
+ * - Messenger ice breakers and persistent menu items (`PIC1:cta:{id}` payloads)
+ * - CTAs in the AI vocabulary (`ai_available`), which the model can surface anywhere
+ *
+ * Disabled forms and showcase cards are reached but lead nowhere: the walk
+ * stops there, and they are reported as dead ends.
+ */
+
+import type {
+  ActionChipsConfig,
+  ConversationalForm,
+  ConversationBranch,
+  CTADefinition,
+  CTASettings,
+  MessengerBehaviorConfig,
+  QuickHelpConfig,
+  ShowcaseItem,
+} from '@/types/config';
+import { buildFlowGraph, flowNodeId } from './buildFlowGraph';
+import type { FlowGraph, FlowNodeKind } from './types';
+
+export type EntryPointSource =
+  | 'action_chip'
+  | 'fallback_branch'
+  | 'quick_help'
+  | 'ice_breaker'
+  | 'persistent_menu'
+  | 'ai_vocabulary';
+
+export interface EntryPoint {
+  source: EntryPointSource;
+  /** What the visitor sees or does: chip label, ice breaker question, … */
+  label: string;
+  /** Graph node the entry point leads to */
+  nodeId: string;
+}
+
+/**
+ * Shortest way to a node: the entry point, then every node on the way,
+ * starting with the entry point's node and ending with the target
+ */
+export interface ClickPath {
+  entry: EntryPoint;
+  nodeIds: string[];
+}
+
+export type DeadEndReason = 'no_ctas' | 'ctas_lead_nowhere' | 'disabled_form' | 'disabled_showcase';
+
+export interface DeadEnd {
+  nodeId: string;
+  reason: DeadEndReason;
+  /** One sentence for warnings and the dashboard */
+  detail: string;
+  path?: ClickPath;
+}
+
+/** Top-level config sections that define entry points */
+export interface EntryPointConfig {
+  action_chips?: ActionChipsConfig;
+  quick_help?: QuickHelpConfig;
+  cta_settings?: CTASettings;
+  messenger_behavior?: MessengerBehaviorConfig;
+}
+
+export interface ReachabilityInput {
+  branches: Record<string, ConversationBranch>;
+  ctas: Record<string, CTADefinition>;
+  forms: Record<string, ConversationalForm>;
+  showcaseItems?: ShowcaseItem[];
+  config: EntryPointConfig;
+}
+
+export interface ReachabilityReport {
+  graph: FlowGraph;
+  entryPoints: EntryPoint[];
+  /** Branch, form and showcase node ids a visitor can reach */
+  reachable: string[];
+  /** Branch, form and showcase node ids no entry point leads to; empty when there are no entry points */
+  unreachable: string[];
+  deadEnds: DeadEnd[];
+  /** Shortest path to every reachable node */
+  paths: Record<string, ClickPath>;
+}
+
+/** Entity kinds the report covers; chips and CTAs are the clicks in between */
+const DESTINATION_KINDS: ReadonlySet<FlowNodeKind> = new Set(['branch', 'form', 'showcase']);
+
+const CTA_PAYLOAD_RE = /^PIC1:cta:(.+)$/;
+
+/**
+ * Entry points that resolve to a node in `graph`
+ */
+export function findEntryPoints(graph: FlowGraph, config: EntryPointConfig, ctas: Record<string, CTADefinition>): EntryPoint[] {
+  const entries: EntryPoint[] = [];
+  const add = (source: EntryPointSource, label: string, nodeId: string) => {
+    if (graph.nodes[nodeId]) entries.push({ source, label, nodeId });
+  };
+
+  if (config.action_chips?.enabled !== false) {
+    Object.entries(config.action_chips?.default_chips ?? {}).forEach(([id, chip]) =>
+      add('action_chip', chip.label || id, flowNodeId('actionChip', id))
+    );
+  }
+
+  const fallback = config.cta_settings?.fallback_branch;
+  if (fallback) {
+    add('fallback_branch', 'Any typed question', flowNodeId('branch', fallback));
+    if (config.quick_help?.enabled) {
+      (config.quick_help.prompts ?? []).forEach((prompt) => add('quick_help', prompt, flowNodeId('branch', fallback)));
+    }
+  }
+
+  const welcome = config.messenger_behavior?.welcome;
+  (welcome?.ice_breakers ?? []).forEach((breaker) => {
+    const ctaId = CTA_PAYLOAD_RE.exec(breaker.payload ?? '')?.[1];
+    if (ctaId) add('ice_breaker', breaker.question, flowNodeId('cta', ctaId));
+  });
+  (welcome?.persistent_menu ?? []).forEach((item) => {
+    const ctaId = CTA_PAYLOAD_RE.exec(item.payload ?? '')?.[1];
+    if (ctaId) add('persistent_menu', item.title, flowNodeId('cta', ctaId));
+  });
+
+  Object.entries(ctas).forEach(([id, cta]) => {
+    if (cta.ai_available) add('ai_vocabulary', cta.label || id, flowNodeId('cta', id));
+  });
+
+  return entries;
+}
+
+/**
+ * Multi-source BFS from the entry points, keeping the first (shortest) way
+ * to each node. Disabled nodes are reached but not walked through.
+ */
+function walk(graph: FlowGraph, entryPoints: EntryPoint[]): Record<string, ClickPath> {
+  const next = new Map<string, string[]>(Object.keys(graph.nodes).map((id) => [id, []]));
+  graph.edges.forEach((edge) => next.get(edge.from)?.push(edge.to));
+
+  const paths: Record<string, ClickPath> = {};
+  const queue: string[] = [];
+  entryPoints.forEach((entry) => {
+    if (paths[entry.nodeId]) return;
+    paths[entry.nodeId] = { entry, nodeIds: [entry.nodeId] };
+    queue.push(entry.nodeId);
+  });
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (graph.nodes[id].disabled) continue;
+    for (const to of next.get(id) ?? []) {
+      if (paths[to]) continue;
+      paths[to] = { entry: paths[id].entry, nodeIds: [...paths[id].nodeIds, to] };
+      queue.push(to);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Why a CTA leads nowhere, or null when clicking it does something
+ */
+function blockedCTA(ctaId: string, ctas: Record<string, CTADefinition>, forms: Record<string, ConversationalForm>): string | null {
+  const cta = ctas[ctaId];
+  if (!cta) return `"${ctaId}" doesn't exist`;
+  if (cta.action === 'start_form') {
+    if (!cta.formId || !forms[cta.formId]) return `"${ctaId}" starts a missing form`;
+    if (forms[cta.formId].enabled === false) return `"${ctaId}" starts disabled form "${cta.formId}"`;
+  }
+  return null;
+}
+
+function findDeadEnds(input: ReachabilityInput, graph: FlowGraph, paths: Record<string, ClickPath>): DeadEnd[] {
+  const { branches, ctas, forms } = input;
+  const deadEnds: DeadEnd[] = [];
+
+  Object.keys(paths).forEach((nodeId) => {
+    const node = graph.nodes[nodeId];
+    const path = paths[nodeId];
+
+    if (node.kind === 'form' && node.disabled) {
+      deadEnds.push({ nodeId, reason: 'disabled_form', detail: `Form "${node.entityId}" is disabled`, path });
+    } else if (node.kind === 'showcase' && node.disabled) {
+      deadEnds.push({ nodeId, reason: 'disabled_showcase', detail: `Showcase item "${node.entityId}" is disabled`, path });
+    } else if (node.kind === 'branch') {
+      const branch = branches[node.entityId];
+      const ctaIds = [branch.available_ctas?.primary, ...(branch.available_ctas?.secondary ?? [])].filter(
+        (id): id is string => !!id
+      );
+      if (ctaIds.length === 0) {
+        if (!branch.showcase_item_id) {
+          deadEnds.push({ nodeId, reason: 'no_ctas', detail: `Branch "${node.entityId}" offers no CTAs`, path });
+        }
+        return;
+      }
+      const blocked = ctaIds.map((id) => blockedCTA(id, ctas, forms));
+      if (blocked.every((reason) => reason !== null) && !branch.showcase_item_id) {
+        deadEnds.push({
+          nodeId,
+          reason: 'ctas_lead_nowhere',
+          detail: `Every CTA on branch "${node.entityId}" leads nowhere: ${blocked.join('; ')}`,
+          path,
+        });
+      }
+    }
+  });
+
+  return deadEnds;
+}
+
+/**
+ * @example
+ * const report = analyzeReachability({ branches, ctas, forms, showcaseItems, config: baseConfig });
+ * report.unreachable; // ['branch:old_campaign']
+ * report.paths['form:volunteer_apply'].nodeIds; // ['actionChip:volunteer', 'branch:volunteer', 'cta:apply', 'form:volunteer_apply']
+ */
+export function analyzeReachability(input: ReachabilityInput): ReachabilityReport {
+  const graph = buildFlowGraph({
+    actionChips: input.config.action_chips?.default_chips ?? {},
+    branches: input.branches,
+    ctas: input.ctas,
+    forms: input.forms,
+    showcaseItems: input.showcaseItems ?? [],
+  });
+  const entryPoints = findEntryPoints(graph, input.config, input.ctas);
+  const paths = walk(graph, entryPoints);
+
+  const destinations = Object.values(graph.nodes).filter((node) => DESTINATION_KINDS.has(node.kind));
+  const reachable = destinations.filter((node) => paths[node.id]).map((node) => node.id);
+  const unreachable =
+    entryPoints.length > 0 ? destinations.filter((node) => !paths[node.id]).map((node) => node.id) : [];
+
+  return {
+    graph,
+    entryPoints,
+    reachable,
+    unreachable,
+    deadEnds: findDeadEnds(input, graph, paths),
+    paths,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Flow Graph Types
+ * The routing graph a visitor walks: chips, branches, showcase cards, CTAs, forms
+ */
+
+export type FlowNodeKind = 'actionChip' | 'branch' | 'showcase' | 'cta' | 'form';
+
+/**
+ * How one node leads to another:
+ * - `routes`: chip or CTA → branch (`target_branch`)
+ * - `offers`: branch or showcase card → CTA (`available_ctas`, legacy `action.cta_id`)
+ * - `shows`: chip or branch → showcase card
+ * - `starts`: CTA → form, form → form (post-submission `start_form`)
+ * - `completes`: form or form-trigger CTA → branch (`on_completion_branch`)
+ */
+export type FlowEdgeKind = 'routes' | 'offers' | 'shows' | 'starts' | 'completes';
+
+export interface FlowNode {
+  /** `${kind}:${entityId}` — entity ids are only unique per kind */
+  id: string;
+  kind: FlowNodeKind;
+  entityId: string;
+  label: string;
+  /** Disabled form or showcase card: present in the config, never shown */
+  disabled?: boolean;
+}
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  kind: FlowEdgeKind;
+  /** Branch/showcase primary CTA */
+  primary?: boolean;
+}
+
+export interface FlowGraph {
+  nodes: Record<string, FlowNode>;
+  edges: FlowEdge[];
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface FlowLayout {
+  positions: Record<string, NodePosition>;
+  width: number;
+  height: number;
+}
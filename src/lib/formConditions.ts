@@ -0,0 +1,157 @@
+/**
+ * Form Field Conditions
+ *
+ * Show-if rules on form fields: a field with `conditions` is asked only when
+ * its rules hold for the answers given so far. Shared by the field editor,
+ * form validation and the chat simulator so all three agree on what a rule
+ * means.
+ *
+ * Answers are keyed `fieldId`, or `fieldId.key` for name/address parts
+ * (`full_name.first_name`; see subfieldRef, which merge fields share). Comparisons ignore case and
+ * surrounding whitespace; a select answer matches its option's value or
+ * label, so `state equals TX` holds whether the visitor typed "tx" or picked
+ * "Texas" (value TX). A multi-select answer equals each option picked.
+ */
+
+import type { FieldCondition, FieldConditionOperator, FieldConditions, FormField } from '@/types/config';
+import { findSubfield, subfieldRef } from './compositeFieldTemplates';
+import { splitSelections } from './formFieldTypes';
+
+export const CONDITION_OPERATOR_LABELS: Record<FieldConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  in: 'is one of',
+  not_in: 'is none of',
+  contains: 'contains',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  is_answered: 'is answered',
+  is_not_answered: 'is not answered',
+};
+
+/** Operators that compare against `value` (all but the `is_answered` pair) */
+export function operatorNeedsValue(operator: FieldConditionOperator): boolean {
+  return operator !== 'is_answered' && operator !== 'is_not_answered';
+}
+
+/** Operators whose `value` is a list */
+export function operatorTakesList(operator: FieldConditionOperator): boolean {
+  return operator === 'in' || operator === 'not_in';
+}
+
+/** The rule's value(s), trimmed, empties dropped */
+export function conditionValues(condition: FieldCondition): string[] {
+  const raw = Array.isArray(condition.value) ? condition.value : condition.value !== undefined ? [condition.value] : [];
+  return raw.map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Field ID and subfield key of a rule's `field` reference. Everything after
+ * the first dot is the subfield key (see findSubfield).
+ */
+export function parseConditionRef(ref: string): { fieldId: string; subfieldId?: string } {
+  const dot = ref.indexOf('.');
+  return dot === -1 ? { fieldId: ref } : { fieldId: ref.slice(0, dot), subfieldId: ref.slice(dot + 1) };
+}
+
+/** Every answer key a form can produce, in question order */
+export function answerKeys(fields: FormField[]): string[] {
+  return fields.flatMap((field) =>
+    field.subfields?.length ? field.subfields.map((sub) => subfieldRef(field, sub)) : [field.id]
+  );
+}
+
+/**
+ * The ways an answer can be spelled: as given, and its select option's value
+ * and label. A multi-select answer also matches each option picked.
+ */
+function answerForms(ref: string, answer: string, fields: FormField[]): string[] {
+  const { fieldId, subfieldId } = parseConditionRef(ref);
+  const field = fields.find((f) => f.id === fieldId);
+  const options = subfieldId ? findSubfield(field, subfieldId)?.options : field?.options;
+  const normalized = answer.trim().toLowerCase();
+  const picked = !subfieldId && field?.type === 'multi_select' ? splitSelections(normalized) : [normalized];
+  const optionForms = picked.flatMap((choice) => {
+    const option = options?.find((o) => o.value.toLowerCase() === choice || o.label.toLowerCase() === choice);
+    return option ? [choice, option.value.toLowerCase(), option.label.toLowerCase()] : [choice];
+  });
+  return [normalized, ...optionForms];
+}
+
+/**
+ * Whether one rule holds for the answers so far
+ */
+export function evaluateCondition(condition: FieldCondition, answers: Record<string, string>, fields: FormField[]): boolean {
+  const answer = answers[condition.field]?.trim() ?? '';
+  const values = conditionValues(condition).map((v) => v.toLowerCase());
+
+  switch (condition.operator) {
+    case 'is_answered':
+      return answer !== '';
+    case 'is_not_answered':
+      return answer === '';
+    case 'not_equals':
+    case 'not_in':
+      return !answerForms(condition.field, answer, fields).some((form) => values.includes(form));
+    default:
+      break;
+  }
+
+  if (answer === '') return false;
+  const forms = answerForms(condition.field, answer, fields);
+  switch (condition.operator) {
+    case 'equals':
+    case 'in':
+      return forms.some((form) => values.includes(form));
+    case 'contains':
+      return values.some((value) => forms[0].includes(value));
+    case 'greater_than':
+    case 'less_than': {
+      const left = Number(answer);
+      const right = Number(values[0]);
+      if (Number.isNaN(left) || Number.isNaN(right)) return false;
+      return condition.operator === 'greater_than' ? left > right : left < right;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a rule set holds; an absent or empty set always does
+ */
+export function evaluateConditions(
+  conditions: FieldConditions | undefined,
+  answers: Record<string, string>,
+  fields: FormField[]
+): boolean {
+  if (!conditions?.rules?.length) return true;
+  const results = conditions.rules.map((rule) => evaluateCondition(rule, answers, fields));
+  return conditions.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Index of the first field from `from` on that should be asked, or -1 when
+ * none is left
+ */
+export function nextVisibleFieldIndex(fields: FormField[], from: number, answers: Record<string, string>): number {
+  for (let i = from; i < fields.length; i++) {
+    if (evaluateConditions(fields[i].conditions, answers, fields)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Plain-language summary of a rule set, e.g.
+ * `state equals TX and age is greater than 17`
+ */
+export function describeConditions(conditions: FieldConditions | undefined): string {
+  if (!conditions?.rules?.length) return '';
+  return conditions.rules
+    .map((rule) => {
+      const values = conditionValues(rule);
+      const value = operatorNeedsValue(rule.operator) ? ` ${values.join(', ') || '…'}` : '';
+      return `${rule.field || '…'} ${CONDITION_OPERATOR_LABELS[rule.operator]}${value}`;
+    })
+    .join(conditions.match === 'any' ? ' or ' : ' and ');
+}
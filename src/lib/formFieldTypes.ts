@@ -0,0 +1,115 @@
+/**
+ * Form Field Type Rules
+ *
+ * What each field type accepts, shared by the field editor, form validation,
+ * normalization and the chat simulator — the same role
+ * compositeFieldTemplates.ts plays for name/address fields.
+ */
+
+import type { FormField, FormFieldType } from '@/types/config';
+
+/** Types whose answers are picked from `options` */
+export const OPTION_FIELD_TYPES: readonly FormFieldType[] = ['select', 'multi_select'];
+
+/** Rating fields are a fixed 1–RATING_MAX scale */
+export const RATING_MAX = 5;
+
+/** Button labels the preview offers for consent fields */
+export const CONSENT_AGREE = 'I agree';
+export const CONSENT_DECLINE = 'I do not agree';
+
+const AGREE_ANSWER = /^(yes|y|agree|i agree|accept|true)$/i;
+const DECLINE_ANSWER = /^(no|n|decline|i do not agree|i don't agree|false)$/i;
+
+/** `type/subtype` or `type/*`, e.g. `application/pdf`, `image/*` */
+const MIME_TYPE_PATTERN = /^[a-z]+\/(\*|[a-z0-9][a-z0-9.+-]*)$/i;
+
+/** Extensions the preview can map to a MIME type */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  webp: 'image/webp',
+};
+
+/**
+ * Check if a field type picks from options
+ */
+export function isOptionFieldType(type: string): boolean {
+  return (OPTION_FIELD_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Check if a string is a MIME type (or `type/*` wildcard)
+ */
+export function isValidMimeType(value: string): boolean {
+  return MIME_TYPE_PATTERN.test(value.trim());
+}
+
+/**
+ * MIME type of a file name by its extension, or null when unknown
+ */
+export function mimeTypeForFileName(fileName: string): string | null {
+  const extension = fileName.trim().split('.').pop()?.toLowerCase();
+  return (extension && EXTENSION_MIME_TYPES[extension]) || null;
+}
+
+/**
+ * Whether a MIME type is among the accepted types; no list accepts anything
+ */
+export function acceptsMimeType(accepted: string[] | undefined, mimeType: string): boolean {
+  const types = (accepted ?? []).map((type) => type.trim().toLowerCase()).filter(Boolean);
+  if (types.length === 0) return true;
+  const [kind] = mimeType.toLowerCase().split('/');
+  return types.some((type) => type === mimeType.toLowerCase() || type === `${kind}/*`);
+}
+
+/**
+ * The options picked in a multi-select answer ("Red, Blue")
+ */
+export function splitSelections(answer: string): string[] {
+  return answer
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a consent/checkbox answer agrees (true), declines (false), or is
+ * neither (null)
+ */
+export function parseAgreement(answer: string): boolean | null {
+  const value = answer.trim();
+  if (AGREE_ANSWER.test(value)) return true;
+  if (DECLINE_ANSWER.test(value)) return false;
+  return null;
+}
+
+/**
+ * Remove the properties that only apply to other field types, e.g. after the
+ * field's type is changed
+ */
+export function stripOtherTypeProps(field: FormField): FormField {
+  const next = { ...field };
+  if (!isOptionFieldType(next.type)) delete next.options;
+  if (next.type !== 'multi_select') {
+    delete next.min_selections;
+    delete next.max_selections;
+  }
+  if (next.type !== 'consent') {
+    delete next.policy_text;
+    delete next.policy_url;
+  }
+  if (next.type !== 'file_upload') {
+    delete next.accepted_types;
+    delete next.max_file_size_mb;
+  }
+  return next;
+}
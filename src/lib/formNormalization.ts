@@ -5,16 +5,19 @@
  * (seeders, hand edits, the M2M config API) and carry non-canonical field
  * shapes the builder and widget cannot handle. Normalize once at the store
  * boundary (loadConfig) instead of guarding every consumer — same pattern as
- * normalizeBranches in the config slice.
+ * normalizeBranches (branchNormalization.ts).
  *
  * Repairs applied:
  * - `boolean` fields → Yes/No `select` (no widget renderer exists for boolean;
  *   select is how yes/no questions are canonically modeled)
  * - composite `name`/`address` fields missing `subfields` → canonical
  *   subfields generated from the same templates the field editor uses
+ * - aliases of the newer types (`multiselect`, `checkboxes`, `file`,
+ *   `upload`, `stars`, `daterange`, …) → the canonical type
+ * - `accepted_types` written as one comma-separated string → list
  */
 
-import type { ConversationalForm, FormField } from '@/types/config';
+import type { ConversationalForm, FormField, FormFieldType } from '@/types/config';
 import { generateCompositeSubfields, isCompositeFieldType } from './compositeFieldTemplates';
 
 export interface NormalizationResult {
@@ -23,6 +26,18 @@ export interface NormalizationResult {
   repairs: string[];
 }
 
+/** Type names other tools use for the builder's types */
+const TYPE_ALIASES: Record<string, FormFieldType> = {
+  multiselect: 'multi_select',
+  'multi-select': 'multi_select',
+  checkboxes: 'multi_select',
+  file: 'file_upload',
+  upload: 'file_upload',
+  stars: 'rating',
+  daterange: 'date_range',
+  'date-range': 'date_range',
+};
+
 const YES_NO_OPTIONS = [
   { value: 'yes', label: 'Yes' },
   { value: 'no', label: 'No' },
@@ -30,30 +45,44 @@ const YES_NO_OPTIONS = [
 
 /**
  * Normalize a single field. Returns the (possibly repaired) field plus a
- * repair description, or null if the field was already canonical.
+ * description of each repair, or null if the field was already canonical.
  */
 function normalizeField(
   field: FormField,
   formId: string
-): { field: FormField; repair: string } | null {
+): { field: FormField; repairs: string[] } | null {
+  const name = field.label || field.id;
+  const repairs: string[] = [];
+  let next = field;
+
   // Unsupported 'boolean' type → Yes/No select (same field id, so analytics
   // events keyed on field id keep matching)
-  if ((field.type as string) === 'boolean') {
-    return {
-      field: { ...field, type: 'select', options: [...YES_NO_OPTIONS] },
-      repair: `${formId}: field "${field.label || field.id}" converted from boolean to Yes/No select`,
-    };
+  if ((next.type as string) === 'boolean') {
+    next = { ...next, type: 'select', options: [...YES_NO_OPTIONS] };
+    repairs.push(`${formId}: field "${name}" converted from boolean to Yes/No select`);
+  }
+
+  // Aliased type → canonical type (same field id)
+  const canonicalType = TYPE_ALIASES[String(next.type).toLowerCase()];
+  if (canonicalType) {
+    repairs.push(`${formId}: field "${name}" type "${next.type}" renamed to ${canonicalType}`);
+    next = { ...next, type: canonicalType };
+  }
+
+  // Comma-separated accepted types → list
+  if (typeof (next.accepted_types as unknown) === 'string') {
+    const types = (next.accepted_types as unknown as string).split(',').map((t) => t.trim()).filter(Boolean);
+    next = { ...next, accepted_types: types };
+    repairs.push(`${formId}: field "${name}" accepted file types split into a list`);
   }
 
   // Composite field without subfields → generate canonical subfields
-  if (isCompositeFieldType(field.type) && (!field.subfields || field.subfields.length === 0)) {
-    return {
-      field: { ...field, subfields: generateCompositeSubfields(field.id, field.type) },
-      repair: `${formId}: field "${field.label || field.id}" got canonical ${field.type} subfields`,
-    };
+  if (isCompositeFieldType(next.type) && (!next.subfields || next.subfields.length === 0)) {
+    next = { ...next, subfields: generateCompositeSubfields(next.id, next.type) };
+    repairs.push(`${formId}: field "${name}" got canonical ${next.type} subfields`);
   }
 
-  return null;
+  return repairs.length > 0 ? { field: next, repairs } : null;
 }
 
 /**
@@ -72,7 +101,7 @@ export function normalizeForms(
       const result = normalizeField(field, formId);
       if (result) {
         changed = true;
-        repairs.push(result.repair);
+        repairs.push(...result.repairs);
         return result.field;
       }
       return field;
@@ -0,0 +1,158 @@
+/**
+ * Multi-locale content: string catalog, translation bundles (JSON and CSV)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LocalizationConfig } from '@/types/config';
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+import {
+  applyTranslationImport,
+  buildTranslationBundle,
+  collectTranslatableStrings,
+  missingTranslations,
+  parseTranslationBundle,
+  translationBundleToCsv,
+  translationBundleToJson,
+  unusedTranslations,
+  type LocalizableConfig,
+} from '..';
+
+const localization = (): LocalizationConfig => ({
+  default_locale: 'en',
+  enabled_locales: ['en', 'es'],
+  translations: {
+    es: { welcome_message: '¡Hola!', 'ctas.old_cta.label': 'Viejo' },
+  },
+});
+
+const config = (): LocalizableConfig => ({
+  welcome_message: 'Hi!',
+  quick_help: { enabled: true, prompts: ['How do I volunteer?', ''] },
+  action_chips: {
+    enabled: true,
+    default_chips: { give: { label: 'Give', value: 'How can I give?' } },
+  },
+  conversational_forms: {
+    apply: {
+      enabled: true,
+      form_id: 'apply',
+      program: 'mentors',
+      title: 'Apply',
+      description: '',
+      fields: [
+        {
+          id: 'shirt',
+          type: 'select',
+          label: 'Shirt size',
+          prompt: 'What shirt size do you wear?',
+          required: true,
+          options: [{ value: 'm', label: 'Medium, regular fit' }],
+        },
+      ],
+      post_submission: { confirmation_message: 'Thanks!' },
+    },
+  },
+  cta_definitions: {
+    apply_cta: { label: 'Apply now', action: 'start_form', type: 'form_trigger', formId: 'apply' },
+  },
+  messenger_behavior: {
+    strings: { rate_limited: 'Slow down a little' },
+    welcome: { ice_breakers: [{ question: 'What do you do?', payload: 'PIC1:about' }] },
+  },
+  localization: localization(),
+});
+
+describe('collectTranslatableStrings', () => {
+  it('keys every non-empty user-facing string by where it lives', () => {
+    const strings = collectTranslatableStrings(config());
+
+    expect(strings.map((entry) => entry.key)).toEqual([
+      'welcome_message',
+      'quick_help.prompts.0',
+      'action_chips.give.label',
+      'action_chips.give.value',
+      'forms.apply.title',
+      'forms.apply.fields.shirt.label',
+      'forms.apply.fields.shirt.prompt',
+      'forms.apply.fields.shirt.options.m',
+      'forms.apply.confirmation_message',
+      'ctas.apply_cta.label',
+      'messenger.strings.rate_limited',
+      'messenger.ice_breakers.0',
+    ]);
+    expect(strings.find((entry) => entry.key === 'forms.apply.fields.shirt.prompt')).toMatchObject({
+      source: 'What shirt size do you wear?',
+      group: 'Form: Apply',
+      context: 'Prompt — Shirt size',
+    });
+  });
+
+  it('finds missing and unused translations per locale', () => {
+    const strings = collectTranslatableStrings(config());
+
+    expect(missingTranslations(strings, localization(), 'es')).toHaveLength(strings.length - 1);
+    expect(unusedTranslations(strings, localization(), 'es')).toEqual(['ctas.old_cta.label']);
+  });
+});
+
+describe('translation bundles', () => {
+  const strings = collectTranslatableStrings(config());
+
+  it('round-trips translations through JSON', () => {
+    const bundle = buildTranslationBundle(strings, localization(), { tenantId: 'TEST01' });
+    expect(bundle).toMatchObject({ format: 'picasso-translations', tenant_id: 'TEST01', source_locale: 'en', locales: ['es'] });
+    bundle.strings[1].translations.es = '¿Cómo puedo ser voluntario?';
+
+    const imported = parseTranslationBundle(translationBundleToJson(bundle), 'es.json', strings, localization());
+    expect(imported.issues).toEqual([]);
+    expect(imported.count).toBe(2);
+    expect(applyTranslationImport(localization(), imported).translations?.es).toEqual({
+      welcome_message: '¡Hola!',
+      'ctas.old_cta.label': 'Viejo',
+      'quick_help.prompts.0': '¿Cómo puedo ser voluntario?',
+    });
+  });
+
+  it('round-trips translations with commas, quotes and line breaks through CSV', () => {
+    const bundle = buildTranslationBundle(strings, localization());
+    const csv = translationBundleToCsv(bundle);
+    expect(csv.split('\r\n')[0]).toBe('key,group,context,en,es');
+
+    const rows = parseCsv(csv);
+    const optionRow = rows.findIndex((row) => row[0] === 'forms.apply.fields.shirt.options.m');
+    expect(rows[optionRow][3]).toBe('Medium, regular fit');
+    rows[optionRow][4] = 'Mediana, "corte" normal\nsegunda línea';
+
+    const imported = parseTranslationBundle(toCsv(rows), 'es.csv', strings, localization());
+    expect(imported.translations.es['forms.apply.fields.shirt.options.m']).toBe(
+      'Mediana, "corte" normal\nsegunda línea'
+    );
+  });
+
+  it('skips unknown keys and locales, reports changed source text, and never clears', () => {
+    const csv = toCsv([
+      ['key', 'en', 'es', 'fr'],
+      ['welcome_message', 'Hello there!', '', 'Bonjour !'],
+      ['ctas.apply_cta.label', 'Apply now', 'Solicitar', ''],
+      ['ctas.deleted.label', 'Gone', 'Ido', ''],
+    ]);
+    const imported = parseTranslationBundle(csv, 'bundle.csv', strings, localization());
+
+    expect(imported.translations).toEqual({ es: { 'ctas.apply_cta.label': 'Solicitar' } });
+    expect(imported.count).toBe(1);
+    expect(imported.issues).toEqual([
+      'Skipped locales that are not enabled: fr',
+      'Skipped 1 string(s) this config no longer has: ctas.deleted.label',
+      '1 string(s) changed since the bundle was exported; check their translations: welcome_message',
+    ]);
+    expect(applyTranslationImport(localization(), imported).translations?.es.welcome_message).toBe('¡Hola!');
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseTranslationBundle('{"strings": []}', 'x.json', strings, localization())).toThrow(
+      /"format": "picasso-translations"/
+    );
+    expect(() => parseTranslationBundle('id,es\nx,y', 'x.csv', strings, localization())).toThrow(/"key" column/);
+    expect(() => parseCsv('key,es\n"unclosed')).toThrow(/unclosed/);
+  });
+});
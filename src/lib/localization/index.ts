@@ -0,0 +1,20 @@
+/**
+ * Multi-locale content: string catalog and translation bundles
+ */
+
+export {
+  collectTranslatableStrings,
+  translationLocales,
+  missingTranslations,
+  unusedTranslations,
+} from './stringCatalog';
+export {
+  buildTranslationBundle,
+  translationBundleToJson,
+  translationBundleToCsv,
+  parseTranslationBundle,
+  applyTranslationImport,
+  TRANSLATION_BUNDLE_FORMAT,
+} from './translationBundles';
+export type { LocalizableConfig, TranslatableString } from './stringCatalog';
+export type { TranslationBundle, TranslationBundleEntry, TranslationImport } from './translationBundles';
@@ -0,0 +1,185 @@
+/**
+ * String Catalog
+ * Every user-facing string in a config, keyed for translation
+ *
+ * Keys name where a string lives (`forms.<formId>.fields.<fieldId>.prompt`,
+ * `ctas.<ctaId>.label`, `messenger.strings.<name>`), so a translation stays
+ * attached to its string when other entities are added, removed or reordered.
+ * List items without IDs (quick help prompts, ice breakers) are keyed by
+ * position. The config's own text is the default locale's; `localization.translations`
+ * holds the other locales by these keys.
+ *
+ * Branches carry no visitor-facing text — their descriptions are routing
+ * hints for the model — so their copy is the CTAs they offer.
+ */
+
+import type {
+  ActionChipsConfig,
+  ConversationalForm,
+  CTADefinition,
+  FormField,
+  LocalizationConfig,
+  MessengerBehaviorConfig,
+  QuickHelpConfig,
+  ShowcaseItem,
+} from '@/types/config';
+
+/** Config sections that hold user-facing strings */
+export interface LocalizableConfig {
+  welcome_message?: string;
+  callout_text?: string;
+  conversational_forms?: Record<string, ConversationalForm>;
+  cta_definitions?: Record<string, CTADefinition>;
+  content_showcase?: ShowcaseItem[];
+  quick_help?: QuickHelpConfig;
+  action_chips?: ActionChipsConfig;
+  messenger_behavior?: MessengerBehaviorConfig;
+  localization?: LocalizationConfig;
+}
+
+export interface TranslatableString {
+  /** Stable key translations are stored under */
+  key: string;
+  /** Default-locale text from the config */
+  source: string;
+  /** Heading the string is listed under, e.g. `Form: Volunteer Application` */
+  group: string;
+  /** What the string is, e.g. `Prompt — Email` */
+  context: string;
+}
+
+function fieldStrings(
+  add: (key: string, source: string | undefined, context: string) => void,
+  prefix: string,
+  field: FormField
+): void {
+  const name = field.label || field.id;
+  add(`${prefix}.label`, field.label, `Label — ${field.id}`);
+  add(`${prefix}.prompt`, field.prompt, `Prompt — ${name}`);
+  add(`${prefix}.hint`, field.hint, `Hint — ${name}`);
+  add(`${prefix}.failure_message`, field.failure_message, `Eligibility message — ${name}`);
+  add(`${prefix}.policy_text`, field.policy_text, `Consent text — ${name}`);
+  field.options?.forEach((option) => {
+    add(`${prefix}.options.${option.value}`, option.label, `Option — ${name}`);
+  });
+  field.subfields?.forEach((subfield) => {
+    const subPrefix = `${prefix}.subfields.${subfield.id}`;
+    add(`${subPrefix}.label`, subfield.label, `Part label — ${name}`);
+    add(`${subPrefix}.placeholder`, subfield.placeholder, `Part placeholder — ${name} (${subfield.label || subfield.id})`);
+    subfield.options?.forEach((option) => {
+      add(`${subPrefix}.options.${option.value}`, option.label, `Option — ${name} (${subfield.label || subfield.id})`);
+    });
+  });
+}
+
+/**
+ * List every user-facing string in the config, in editor order. Empty
+ * strings are left out: there is nothing to translate.
+ */
+export function collectTranslatableStrings(config: LocalizableConfig): TranslatableString[] {
+  const strings: TranslatableString[] = [];
+  let group = '';
+  const add = (key: string, source: string | undefined, context: string) => {
+    if (!source || !source.trim()) return;
+    strings.push({ key, source, group, context });
+  };
+
+  group = 'Welcome';
+  add('welcome_message', config.welcome_message, 'Welcome message');
+  add('callout_text', config.callout_text, 'Callout');
+  config.quick_help?.prompts?.forEach((prompt, index) => {
+    add(`quick_help.prompts.${index}`, prompt, `Quick help prompt ${index + 1}`);
+  });
+
+  Object.entries(config.action_chips?.default_chips ?? {}).forEach(([chipId, chip]) => {
+    group = `Action chip: ${chip.label || chipId}`;
+    add(`action_chips.${chipId}.label`, chip.label, 'Label');
+    add(`action_chips.${chipId}.value`, chip.value, chip.action === 'show_info' ? 'Message' : 'Query sent');
+  });
+
+  Object.entries(config.conversational_forms ?? {}).forEach(([formId, form]) => {
+    group = `Form: ${form.title || formId}`;
+    const prefix = `forms.${formId}`;
+    add(`${prefix}.title`, form.title, 'Title');
+    add(`${prefix}.description`, form.description, 'Description');
+    add(`${prefix}.introduction`, form.introduction, 'Introduction');
+    add(`${prefix}.cta_text`, form.cta_text, 'Start button');
+    form.fields.forEach((field) => fieldStrings(add, `${prefix}.fields.${field.id}`, field));
+    const postSubmission = form.post_submission;
+    add(`${prefix}.confirmation_message`, postSubmission?.confirmation_message, 'Confirmation message');
+    postSubmission?.next_steps?.forEach((step, index) => {
+      add(`${prefix}.next_steps.${index}`, step, `Next step ${index + 1}`);
+    });
+    postSubmission?.actions?.forEach((action) => {
+      add(`${prefix}.actions.${action.id}.label`, action.label, 'Post-submission button');
+    });
+    add(`${prefix}.post_booking_question`, postSubmission?.post_booking_question, 'Post-booking question');
+  });
+
+  Object.entries(config.cta_definitions ?? {}).forEach(([ctaId, cta]) => {
+    group = `CTA: ${cta.label || ctaId}`;
+    add(`ctas.${ctaId}.label`, cta.label, 'Label');
+    if (cta.action === 'send_query') add(`ctas.${ctaId}.query`, cta.query, 'Query sent');
+    if (cta.action === 'show_info') add(`ctas.${ctaId}.prompt`, cta.prompt, 'Message');
+  });
+
+  (config.content_showcase ?? []).forEach((item) => {
+    group = `Showcase: ${item.name || item.id}`;
+    const prefix = `showcase.${item.id}`;
+    add(`${prefix}.name`, item.name, 'Name');
+    add(`${prefix}.tagline`, item.tagline, 'Tagline');
+    add(`${prefix}.description`, item.description, 'Description');
+    add(`${prefix}.stats`, item.stats, 'Stats');
+    add(`${prefix}.testimonial`, item.testimonial, 'Testimonial');
+    item.highlights?.forEach((highlight, index) => {
+      add(`${prefix}.highlights.${index}`, highlight, `Highlight ${index + 1}`);
+    });
+  });
+
+  const messenger = config.messenger_behavior;
+  group = 'Messenger';
+  Object.entries(messenger?.strings ?? {}).forEach(([name, text]) => {
+    add(`messenger.strings.${name}`, text, name.replace(/_/g, ' '));
+  });
+  messenger?.welcome?.ice_breakers?.forEach((iceBreaker, index) => {
+    add(`messenger.ice_breakers.${index}`, iceBreaker.question, `Ice breaker ${index + 1}`);
+  });
+  messenger?.welcome?.persistent_menu?.forEach((item, index) => {
+    add(`messenger.persistent_menu.${index}`, item.title, `Menu item ${index + 1}`);
+  });
+
+  return strings;
+}
+
+/**
+ * Locales that need translations: the enabled ones other than the default
+ */
+export function translationLocales(localization: LocalizationConfig | undefined): string[] {
+  if (!localization) return [];
+  return localization.enabled_locales.filter((locale) => locale !== localization.default_locale);
+}
+
+/**
+ * Keys of `strings` that have no translation (or a blank one) in `locale`
+ */
+export function missingTranslations(
+  strings: TranslatableString[],
+  localization: LocalizationConfig,
+  locale: string
+): string[] {
+  const translated = localization.translations?.[locale] ?? {};
+  return strings.filter((entry) => !translated[entry.key]?.trim()).map((entry) => entry.key);
+}
+
+/**
+ * Translated keys in `locale` that no string in the config has any more
+ * (its entity was deleted or renamed)
+ */
+export function unusedTranslations(
+  strings: TranslatableString[],
+  localization: LocalizationConfig,
+  locale: string
+): string[] {
+  const keys = new Set(strings.map((entry) => entry.key));
+  return Object.keys(localization.translations?.[locale] ?? {}).filter((key) => !keys.has(key));
+}
@@ -0,0 +1,231 @@
+/**
+ * Translation Bundles
+ * Export the string catalog for translators and import their work back
+ *
+ * A bundle lists every string with its key, where it appears and its
+ * default-locale text, next to the current translations of each locale.
+ * As JSON it is a typed object (`format: "picasso-translations"`); as CSV it
+ * is one row per string with a column per locale, for spreadsheets.
+ * Translators fill in the locale columns and leave the rest alone.
+ */
+
+import type { LocalizationConfig } from '@/types/config';
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+import { translationLocales, type TranslatableString } from './stringCatalog';
+
+export const TRANSLATION_BUNDLE_FORMAT = 'picasso-translations';
+
+export interface TranslationBundleEntry {
+  key: string;
+  group: string;
+  context: string;
+  /** Default-locale text when the bundle was exported */
+  source: string;
+  /** locale → translated text; blank when untranslated */
+  translations: Record<string, string>;
+}
+
+export interface TranslationBundle {
+  format: typeof TRANSLATION_BUNDLE_FORMAT;
+  version: 1;
+  tenant_id?: string;
+  source_locale: string;
+  locales: string[];
+  strings: TranslationBundleEntry[];
+}
+
+export interface TranslationImport {
+  /** locale → key → text: the non-blank cells that will be written */
+  translations: Record<string, Record<string, string>>;
+  /** Number of translations that will be written */
+  count: number;
+  /** What was skipped or may need a second look, one line each */
+  issues: string[];
+}
+
+/** CSV columns before the locale columns */
+const CSV_COLUMNS = ['key', 'group', 'context'];
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build a bundle of every string, with the translations of `locales`
+ * (default: the enabled locales other than the default)
+ */
+export function buildTranslationBundle(
+  strings: TranslatableString[],
+  localization: LocalizationConfig,
+  options: { tenantId?: string; locales?: string[] } = {}
+): TranslationBundle {
+  const locales = options.locales ?? translationLocales(localization);
+  return {
+    format: TRANSLATION_BUNDLE_FORMAT,
+    version: 1,
+    ...(options.tenantId && { tenant_id: options.tenantId }),
+    source_locale: localization.default_locale,
+    locales,
+    strings: strings.map((entry) => ({
+      key: entry.key,
+      group: entry.group,
+      context: entry.context,
+      source: entry.source,
+      translations: Object.fromEntries(
+        locales.map((locale) => [locale, localization.translations?.[locale]?.[entry.key] ?? ''])
+      ),
+    })),
+  };
+}
+
+export function translationBundleToJson(bundle: TranslationBundle): string {
+  return JSON.stringify(bundle, null, 2) + '\n';
+}
+
+/**
+ * CSV with columns key, group, context, the source locale, then one per locale
+ */
+export function translationBundleToCsv(bundle: TranslationBundle): string {
+  return toCsv([
+    [...CSV_COLUMNS, bundle.source_locale, ...bundle.locales],
+    ...bundle.strings.map((entry) => [
+      entry.key,
+      entry.group,
+      entry.context,
+      entry.source,
+      ...bundle.locales.map((locale) => entry.translations[locale] ?? ''),
+    ]),
+  ]);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+interface ImportRow {
+  key: string;
+  source?: string;
+  translations: Record<string, string>;
+}
+
+function rowsFromJson(text: string): ImportRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Translation bundle is not valid JSON');
+  }
+  const bundle = parsed as Partial<TranslationBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== TRANSLATION_BUNDLE_FORMAT) {
+    throw new Error(`Translation bundle must have "format": "${TRANSLATION_BUNDLE_FORMAT}"`);
+  }
+  if (!Array.isArray(bundle.strings)) {
+    throw new Error('Translation bundle has no "strings" list');
+  }
+  return bundle.strings
+    .filter((entry): entry is TranslationBundleEntry => !!entry && typeof entry.key === 'string')
+    .map((entry) => ({
+      key: entry.key,
+      source: typeof entry.source === 'string' ? entry.source : undefined,
+      translations: Object.fromEntries(
+        Object.entries(entry.translations ?? {}).filter(([, value]) => typeof value === 'string')
+      ),
+    }));
+}
+
+function rowsFromCsv(text: string, sourceLocale: string): ImportRow[] {
+  const [header, ...rows] = parseCsv(text);
+  const keyColumn = header?.findIndex((cell) => cell.trim().toLowerCase() === 'key') ?? -1;
+  if (keyColumn < 0) {
+    throw new Error('Translation CSV needs a "key" column');
+  }
+  const columns = header.map((cell) => cell.trim());
+  const sourceColumn = columns.indexOf(sourceLocale);
+  const localeColumns = columns
+    .map((locale, index) => ({ locale, index }))
+    .filter(({ locale, index }) => index !== sourceColumn && locale && !CSV_COLUMNS.includes(locale.toLowerCase()));
+
+  return rows.map((row) => ({
+    key: (row[keyColumn] ?? '').trim(),
+    source: sourceColumn >= 0 ? row[sourceColumn] : undefined,
+    translations: Object.fromEntries(localeColumns.map(({ locale, index }) => [locale, row[index] ?? ''])),
+  }));
+}
+
+/**
+ * Read a bundle a translator returned (JSON or CSV, by file extension, or by
+ * content when there is none) and work out what importing it writes.
+ *
+ * Blank cells are left out, so importing never clears a translation. Keys
+ * the config no longer has and locales that are not enabled are skipped and
+ * reported, and so are strings whose default-locale text changed after the
+ * bundle was exported (they are still imported, but may be out of date).
+ *
+ * @throws Error when the file is not a readable bundle
+ */
+export function parseTranslationBundle(
+  text: string,
+  fileName: string,
+  strings: TranslatableString[],
+  localization: LocalizationConfig
+): TranslationImport {
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && text.trimStart().startsWith('{'));
+  const rows = isJson ? rowsFromJson(text) : rowsFromCsv(text, localization.default_locale);
+
+  const catalog = new Map(strings.map((entry) => [entry.key, entry]));
+  const locales = new Set(translationLocales(localization));
+  const translations: Record<string, Record<string, string>> = {};
+  const unknownKeys: string[] = [];
+  const changedSources: string[] = [];
+  const skippedLocales = new Set<string>();
+  let count = 0;
+
+  rows.forEach((row) => {
+    const filled = Object.entries(row.translations).filter(([, value]) => value.trim());
+    if (filled.length === 0) return;
+    const entry = catalog.get(row.key);
+    if (!entry) {
+      unknownKeys.push(row.key || '(blank key)');
+      return;
+    }
+    if (row.source !== undefined && row.source.trim() && row.source.trim() !== entry.source.trim()) {
+      changedSources.push(row.key);
+    }
+    filled.forEach(([locale, value]) => {
+      if (!locales.has(locale)) {
+        skippedLocales.add(locale);
+        return;
+      }
+      translations[locale] = { ...translations[locale], [row.key]: value };
+      count += 1;
+    });
+  });
+
+  const issues: string[] = [];
+  if (skippedLocales.size > 0) {
+    issues.push(`Skipped locales that are not enabled: ${[...skippedLocales].join(', ')}`);
+  }
+  if (unknownKeys.length > 0) {
+    issues.push(`Skipped ${unknownKeys.length} string(s) this config no longer has: ${unknownKeys.join(', ')}`);
+  }
+  if (changedSources.length > 0) {
+    issues.push(
+      `${changedSources.length} string(s) changed since the bundle was exported; check their translations: ${changedSources.join(', ')}`
+    );
+  }
+  return { translations, count, issues };
+}
+
+/**
+ * Write imported translations over the current ones
+ */
+export function applyTranslationImport(
+  localization: LocalizationConfig,
+  imported: TranslationImport
+): LocalizationConfig {
+  const translations = { ...localization.translations };
+  Object.entries(imported.translations).forEach(([locale, entries]) => {
+    translations[locale] = { ...translations[locale], ...entries };
+  });
+  return { ...localization, translations };
+}
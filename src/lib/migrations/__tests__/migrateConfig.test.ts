@@ -0,0 +1,184 @@
+/**
+ * Schema migrations: registry ordering, each step's repairs, and the
+ * runner's report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TenantConfig } from '@/types/config';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, compareSchemaVersions, migrateConfig } from '..';
+
+function makeConfig(over: Record<string, unknown> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.7',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    content_showcase: [],
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+const legacyConfig = makeConfig({
+  conversational_forms: {
+    apply: {
+      enabled: true,
+      form_id: 'old_apply',
+      program: 'p1',
+      title: 'Apply',
+      description: 'd',
+      trigger_phrases: [],
+      fields: [{ id: 'consent', type: 'boolean', label: 'Consent', prompt: 'OK?', required: true }],
+      fulfillment: { type: 'webhook', webhook_url: 'https://example.com/hook', template: 'thank_you' },
+    },
+  },
+  cta_definitions: {
+    apply_cta: { text: 'Apply now', action: 'start_form', formId: 'apply', type: 'form_trigger', style: 'primary' },
+  },
+  conversation_branches: {
+    legacy: { available_ctas: { primary: 'apply_cta' } },
+  },
+  content_showcase: [
+    {
+      id: 'gala',
+      type: 'event',
+      enabled: true,
+      name: 'Gala',
+      tagline: '',
+      description: '',
+      keywords: [],
+      action: { type: 'url', label: 'Get tickets', url: 'https://example.com/gala' },
+    },
+    {
+      id: 'mentor',
+      type: 'program',
+      enabled: true,
+      name: 'Mentor',
+      tagline: '',
+      description: '',
+      keywords: [],
+      action: { type: 'cta', label: 'Apply', cta_id: 'apply_cta' },
+    },
+  ],
+});
+
+describe('migration registry', () => {
+  it('chains contiguously up to the current schema version', () => {
+    MIGRATIONS.forEach((migration, index) => {
+      expect(compareSchemaVersions(migration.to, migration.from)).toBeGreaterThan(0);
+      if (index > 0) expect(migration.from).toBe(MIGRATIONS[index - 1].to);
+    });
+    expect(MIGRATIONS[MIGRATIONS.length - 1].to).toBe(CURRENT_SCHEMA_VERSION);
+    expect(new Set(MIGRATIONS.map((migration) => migration.id)).size).toBe(MIGRATIONS.length);
+  });
+});
+
+describe('compareSchemaVersions', () => {
+  it('compares numerically, not lexically', () => {
+    expect(compareSchemaVersions('1.10', '1.5')).toBeGreaterThan(0);
+    expect(compareSchemaVersions('2.0', '1.5')).toBeGreaterThan(0);
+    expect(compareSchemaVersions('1.4', '1.4')).toBe(0);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('upgrades a legacy config to the current shape and records every step', () => {
+    const { config, report, changed } = migrateConfig(legacyConfig);
+
+    expect(changed).toBe(true);
+    expect(report.fromVersion).toBe('1.3');
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.applied.map((step) => step.id)).toEqual(MIGRATIONS.map((migration) => migration.id));
+    expect(config.version).toBe('1.7');
+
+    // v1.4: canonical form fields, form_id = key
+    const form = config.conversational_forms.apply;
+    expect(form.form_id).toBe('apply');
+    expect(form.fields[0].type).toBe('select');
+
+    // v1.5: branch shape, CTA label, no text/style
+    expect(config.conversation_branches.legacy.available_ctas).toEqual({ primary: 'apply_cta', secondary: [] });
+    expect(config.cta_definitions.apply_cta).toEqual({
+      label: 'Apply now',
+      action: 'start_form',
+      formId: 'apply',
+      type: 'form_trigger',
+    });
+
+    // v2.0: post-submission fulfillment recovered, deployed block kept
+    expect(form.post_submission?.fulfillment).toEqual({ method: 'webhook', webhook_url: 'https://example.com/hook' });
+    expect((form as unknown as { fulfillment: unknown }).fulfillment).toBeDefined();
+
+    // v2.0: showcase actions → CTA hubs
+    const [gala, mentor] = config.content_showcase!;
+    expect(gala.action).toBeUndefined();
+    expect(gala.available_ctas).toEqual({ primary: 'gala_action', secondary: [] });
+    expect(config.cta_definitions.gala_action).toEqual({
+      label: 'Get tickets',
+      action: 'external_link',
+      type: 'external_link',
+      url: 'https://example.com/gala',
+    });
+    expect(mentor.action).toBeUndefined();
+    expect(mentor.available_ctas).toEqual({ primary: 'apply_cta', secondary: [] });
+  });
+
+  it('does not modify its input', () => {
+    const before = JSON.stringify(legacyConfig);
+    migrateConfig(legacyConfig);
+    expect(JSON.stringify(legacyConfig)).toBe(before);
+  });
+
+  it('is idempotent: a migrated config needs no steps', () => {
+    const once = migrateConfig(legacyConfig).config;
+    const twice = migrateConfig(once);
+    expect(twice.changed).toBe(false);
+    expect(twice.report.applied).toEqual([]);
+    expect(twice.config).toBe(once);
+  });
+
+  it('reports a current-shape config as already at the current version', () => {
+    const current = makeConfig();
+    const { config, report, changed } = migrateConfig(current);
+    expect(changed).toBe(false);
+    expect(config).toBe(current);
+    expect(report).toEqual({ fromVersion: CURRENT_SCHEMA_VERSION, toVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+  });
+
+  it('dates the config by the oldest shape it had, regardless of its revision counter', () => {
+    const config = makeConfig({
+      version: '1.2',
+      content_showcase: legacyConfig.content_showcase,
+      cta_definitions: legacyConfig.cta_definitions,
+    });
+    const { report } = migrateConfig(config);
+    expect(report.fromVersion).toBe('1.4');
+    expect(report.applied.map((step) => step.id)).toEqual(['branch-and-cta-shape', 'post-submission-and-showcase-ctas']);
+  });
+
+  it('picks an unused id for CTAs created from showcase actions', () => {
+    const config = makeConfig({
+      cta_definitions: { gala_action: { label: 'Taken', action: 'send_query', query: 'q', type: 'bedrock_query' } },
+      content_showcase: [
+        {
+          id: 'gala',
+          type: 'event',
+          enabled: true,
+          name: 'Gala',
+          tagline: '',
+          description: '',
+          keywords: [],
+          action: { type: 'prompt', label: 'Ask', prompt: 'Tell me about the gala' },
+        },
+      ],
+    });
+    const migrated = migrateConfig(config).config;
+    expect(migrated.content_showcase![0].available_ctas?.primary).toBe('gala_action_2');
+    expect(migrated.cta_definitions.gala_action_2).toMatchObject({ action: 'send_query', query: 'Tell me about the gala' });
+  });
+});
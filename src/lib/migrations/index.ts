@@ -0,0 +1,8 @@
+/**
+ * Config schema migrations
+ */
+
+export { migrateConfig, compareSchemaVersions } from './migrateConfig';
+export { MIGRATIONS, CURRENT_SCHEMA_VERSION } from './registry';
+export type { AppliedMigration, MigrationReport, MigrationResult } from './migrateConfig';
+export type { ConfigMigration } from './registry';
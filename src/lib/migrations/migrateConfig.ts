@@ -0,0 +1,83 @@
+/**
+ * Config Migration Runner
+ * Upgrades a stored config to the current schema and records what ran
+ *
+ * Configs don't record their schema version: `version` is a revision counter
+ * (bumped on every save), and the config Lambda rejects top-level keys outside
+ * the section contract, so a stamp can't be persisted. Every step therefore
+ * runs on every load; steps are idempotent, and the report keeps the ones
+ * that found something to upgrade.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, type ConfigMigration } from './registry';
+
+export interface AppliedMigration {
+  id: string;
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  /** Oldest schema version the config had shapes from */
+  fromVersion: string;
+  toVersion: string;
+  /** Steps that changed the config, oldest first */
+  applied: AppliedMigration[];
+}
+
+export interface MigrationResult {
+  config: TenantConfig;
+  report: MigrationReport;
+  /** Some step changed the config */
+  changed: boolean;
+}
+
+/**
+ * Compare "major.minor" schema versions; unparseable parts count as 0
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const parse = (version: string) => version.split('.').map((part) => parseInt(part, 10) || 0);
+  const [aMajor = 0, aMinor = 0] = parse(a);
+  const [bMajor = 0, bMinor = 0] = parse(b);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Run every migration, oldest first. Pure: the input is not modified, and a
+ * config already in the current shape is returned as the same object.
+ *
+ * @example
+ * const { config, report, changed } = migrateConfig(response.config);
+ * report.applied.map((step) => step.id); // ['canonical-form-fields', ...]
+ */
+export function migrateConfig(
+  config: TenantConfig,
+  migrations: readonly ConfigMigration[] = MIGRATIONS
+): MigrationResult {
+  const applied: AppliedMigration[] = [];
+  let current = config;
+
+  for (const migration of migrations) {
+    const result = migration.migrate(current);
+    current = result.config;
+    if (result.changes.length > 0) {
+      applied.push({
+        id: migration.id,
+        from: migration.from,
+        to: migration.to,
+        description: migration.description,
+        changes: result.changes,
+      });
+    }
+  }
+
+  const toVersion = migrations.length > 0 ? migrations[migrations.length - 1].to : CURRENT_SCHEMA_VERSION;
+  return {
+    config: current,
+    report: { fromVersion: applied[0]?.from ?? toVersion, toVersion, applied },
+    changed: applied.length > 0,
+  };
+}
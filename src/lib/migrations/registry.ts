@@ -0,0 +1,234 @@
+/**
+ * Config Migration Registry
+ * Ordered, single-step upgrades from one config schema version to the next
+ *
+ * Schema discipline: stored configs outlive the builder release that wrote
+ * them, and some are authored outside it (seeders, hand edits, the M2M config
+ * API). Each step repairs the shapes its schema version retired, so every
+ * reader sees the current shape. Steps are pure and idempotent — a config
+ * already in the step's target shape comes back unchanged with no changes.
+ *
+ * Steps must detect their own shapes (see migrateConfig for why every step
+ * runs on every load). Add a step by appending it here and bumping
+ * CURRENT_SCHEMA_VERSION to its `to`; the registry test checks the chain.
+ */
+
+import type {
+  CTADefinition,
+  ConversationalForm,
+  Fulfillment,
+  FulfillmentMethod,
+  ShowcaseItem,
+  TenantConfig,
+} from '@/types/config';
+import { normalizeForms } from '@/lib/formNormalization';
+import { normalizeBranches } from '@/lib/branchNormalization';
+
+export interface ConfigMigration {
+  /** Stable id, recorded in migration reports */
+  id: string;
+  from: string;
+  to: string;
+  description: string;
+  /** The upgraded config and a human-readable line per change made */
+  migrate: (config: TenantConfig) => { config: TenantConfig; changes: string[] };
+}
+
+export const CURRENT_SCHEMA_VERSION = '2.0';
+
+// ============================================================================
+// v1.3 → v1.4: canonical form fields
+// ============================================================================
+
+const canonicalFormFields: ConfigMigration = {
+  id: 'canonical-form-fields',
+  from: '1.3',
+  to: '1.4',
+  description: 'Boolean fields become Yes/No selects, composite fields get subfields, form_id matches its key',
+  migrate: (config) => {
+    const { forms, repairs } = normalizeForms(config.conversational_forms);
+    const changes = [...repairs];
+    const keyed: Record<string, ConversationalForm> = {};
+    for (const [key, form] of Object.entries(forms)) {
+      if (form && form.form_id !== key) {
+        changes.push(`${key}: form_id "${form.form_id ?? ''}" set to its key`);
+        keyed[key] = { ...form, form_id: key };
+      } else {
+        keyed[key] = form;
+      }
+    }
+    return { config: changes.length > 0 ? { ...config, conversational_forms: keyed } : config, changes };
+  },
+};
+
+// ============================================================================
+// v1.4 → v1.5: branch CTA shape, CTA labels, position-based CTA styling
+// ============================================================================
+
+const branchAndCtaShape: ConfigMigration = {
+  id: 'branch-and-cta-shape',
+  from: '1.4',
+  to: '1.5',
+  description: 'Branches get {primary, secondary[]} CTAs; CTAs use `label` and drop `text` and `style`',
+  migrate: (config) => {
+    const changes: string[] = [];
+
+    const branches = config.conversation_branches ?? {};
+    const normalizedBranches = normalizeBranches(branches);
+    for (const [key, branch] of Object.entries(branches)) {
+      const ctas = branch?.available_ctas;
+      if (!ctas || typeof ctas.primary !== 'string' || !Array.isArray(ctas.secondary)) {
+        changes.push(`branch ${key}: available_ctas completed with primary and secondary`);
+      }
+    }
+
+    const ctas: Record<string, CTADefinition> = {};
+    let ctasChanged = false;
+    for (const [key, cta] of Object.entries(config.cta_definitions ?? {})) {
+      const legacy = cta as CTADefinition & { style?: unknown };
+      if (!legacy || (legacy.text === undefined && legacy.style === undefined)) {
+        ctas[key] = cta;
+        continue;
+      }
+      const { text, style, ...rest } = legacy;
+      ctas[key] = { ...rest, label: rest.label || text || '' };
+      ctasChanged = true;
+      if (text !== undefined) {
+        changes.push(
+          rest.label ? `CTA ${key}: legacy \`text\` removed` : `CTA ${key}: legacy \`text\` moved to \`label\``
+        );
+      }
+      if (style !== undefined) changes.push(`CTA ${key}: \`style\` removed (styling is position-based)`);
+    }
+
+    if (changes.length === 0) return { config, changes };
+    return {
+      config: {
+        ...config,
+        conversation_branches: normalizedBranches,
+        ...(ctasChanged && { cta_definitions: ctas }),
+      },
+      changes,
+    };
+  },
+};
+
+// ============================================================================
+// v1.5 → v2.0: post-submission fulfillment, showcase CTA hubs
+// ============================================================================
+
+const FULFILLMENT_METHODS: readonly FulfillmentMethod[] = ['email', 'webhook', 'dynamodb', 'sheets'];
+
+/** Root-level fulfillment as written for the Lambda (see getMergedConfig) */
+type DeployedFulfillment = {
+  type?: string;
+  email_to?: string[];
+  cc?: string[];
+  webhook_url?: string;
+};
+
+const CTA_FOR_SHOWCASE_ACTION = {
+  url: { action: 'external_link', type: 'external_link' },
+  prompt: { action: 'send_query', type: 'bedrock_query' },
+} as const;
+
+function uniqueCtaId(base: string, taken: Record<string, unknown>): string {
+  let id = base;
+  for (let n = 2; taken[id]; n++) id = `${base}_${n}`;
+  return id;
+}
+
+const postSubmissionAndShowcase: ConfigMigration = {
+  id: 'post-submission-and-showcase-ctas',
+  from: '1.5',
+  to: '2.0',
+  description:
+    'Forms with only a deployed `fulfillment` get post_submission.fulfillment; showcase `action` becomes available_ctas',
+  migrate: (config) => {
+    const changes: string[] = [];
+
+    // The builder edits post_submission.fulfillment and derives the root-level
+    // Lambda shape on save; forms written before that only carry the latter.
+    // The root block stays for the Lambda; getMergedConfig rebuilds it from
+    // post_submission on save.
+    let formsChanged = false;
+    const forms: Record<string, ConversationalForm> = {};
+    for (const [key, form] of Object.entries(config.conversational_forms ?? {})) {
+      const deployed = (form as ConversationalForm & { fulfillment?: DeployedFulfillment })?.fulfillment;
+      if (!deployed || form.post_submission?.fulfillment) {
+        forms[key] = form;
+        continue;
+      }
+      const method = FULFILLMENT_METHODS.includes(deployed.type as FulfillmentMethod)
+        ? (deployed.type as FulfillmentMethod)
+        : 'email';
+      const fulfillment: Fulfillment = {
+        method,
+        ...(deployed.email_to && { recipients: deployed.email_to }),
+        ...(deployed.cc && { cc: deployed.cc }),
+        ...(deployed.webhook_url && { webhook_url: deployed.webhook_url }),
+      };
+      forms[key] = {
+        ...form,
+        post_submission: { confirmation_message: '', ...form.post_submission, fulfillment },
+      };
+      formsChanged = true;
+      changes.push(`${key}: post_submission.fulfillment (${method}) recovered from the deployed fulfillment`);
+    }
+
+    // Showcase items predating CTA hubs carry a single `action`. A CTA action
+    // points at its CTA; url/prompt actions become new CTA definitions.
+    let showcaseChanged = false;
+    const ctas: Record<string, CTADefinition> = { ...config.cta_definitions };
+    const showcase = (config.content_showcase ?? []).map((item): ShowcaseItem => {
+      const { action, ...rest } = item ?? ({} as ShowcaseItem);
+      if (!action) return item;
+
+      const hub = item.available_ctas;
+      if (hub?.primary || (hub?.secondary?.length ?? 0) > 0) {
+        showcaseChanged = true;
+        changes.push(`showcase ${item.id}: deprecated \`action\` removed (available_ctas already set)`);
+        return rest;
+      }
+
+      if (action.type === 'cta' && action.cta_id) {
+        showcaseChanged = true;
+        changes.push(`showcase ${item.id}: \`action\` CTA ${action.cta_id} moved to available_ctas`);
+        return { ...rest, available_ctas: { primary: action.cta_id, secondary: [] } };
+      }
+
+      const target = action.type === 'url' ? action.url : action.type === 'prompt' ? action.prompt : undefined;
+      if (target && (action.type === 'url' || action.type === 'prompt')) {
+        const ctaId = uniqueCtaId(`${item.id}_action`, ctas);
+        ctas[ctaId] = {
+          label: action.label || item.name || ctaId,
+          ...CTA_FOR_SHOWCASE_ACTION[action.type],
+          ...(action.type === 'url' ? { url: target } : { query: target }),
+        };
+        showcaseChanged = true;
+        changes.push(`showcase ${item.id}: ${action.type} \`action\` became CTA ${ctaId}`);
+        return { ...rest, available_ctas: { primary: ctaId, secondary: [] } };
+      }
+
+      // Incomplete action — nothing to carry over, left for the operator
+      return item;
+    });
+
+    if (changes.length === 0) return { config, changes };
+    return {
+      config: {
+        ...config,
+        ...(formsChanged ? { conversational_forms: forms } : {}),
+        ...(showcaseChanged ? { content_showcase: showcase, cta_definitions: ctas } : {}),
+      },
+      changes,
+    };
+  },
+};
+
+/** Oldest first; each step's `from` is the previous step's `to` */
+export const MIGRATIONS: readonly ConfigMigration[] = [
+  canonicalFormFields,
+  branchAndCtaShape,
+  postSubmissionAndShowcase,
+];
@@ -0,0 +1,205 @@
+/**
+ * Form Notification Templates
+ *
+ * Merge fields, sample rendering and recipient checks for a form's
+ * `notifications` (the internal staff email/SMS and the applicant
+ * confirmation). Shared by the notifications editor and form validation.
+ *
+ * Placeholders are written `{{token}}`. Every field's ID is a token; a
+ * name/address field is also available part by part, by the part's own ID
+ * (`{{first_name}}`) or qualified with the field ID (`{{full_name.first_name}}`),
+ * the same reference show-if rules use (see subfieldRef).
+ * `{{form_title}}` and `{{submitted_at}}` are always available.
+ */
+
+import type { ConversationalForm, FormField, FormSubField } from '@/types/config';
+import { subfieldKey, subfieldRef } from './compositeFieldTemplates';
+
+export interface MergeField {
+  /** Placeholder name, written `{{token}}` */
+  token: string;
+  label: string;
+  /** Made-up answer used by previews */
+  sample: string;
+}
+
+export interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  /** Length in the encoding's units (GSM-7 extension characters count twice) */
+  length: number;
+  segments: number;
+  /** Units per segment at this length */
+  perSegment: number;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENSION = '^{}\\[~]|€\f';
+
+const SUBFIELD_SAMPLES: Record<string, string> = {
+  first_name: 'Jane',
+  middle_name: 'Q',
+  last_name: 'Doe',
+  street: '123 Main St',
+  apt_unit: 'Apt 4',
+  city: 'Austin',
+  state: 'TX',
+  zip_code: '78701',
+};
+
+const BUILT_IN_FIELDS = (form: Pick<ConversationalForm, 'title'>): MergeField[] => [
+  { token: 'form_title', label: 'Form title', sample: form.title || 'Volunteer Application' },
+  { token: 'submitted_at', label: 'Submission time', sample: 'Jun 1, 2026 9:30 AM' },
+];
+
+function sampleFor(field: FormField): string {
+  switch (field.type) {
+    case 'email':
+      return 'jane.doe@example.org';
+    case 'phone':
+      return '(512) 555-0123';
+    case 'number':
+      return '3';
+    case 'date':
+      return '2026-06-01';
+    case 'time':
+      return '9:30 am';
+    case 'date_range':
+      return '2026-06-01 to 2026-06-14';
+    case 'select':
+      return field.options?.[0]?.label || 'Yes';
+    case 'multi_select':
+      return (field.options ?? []).slice(0, 2).map((option) => option.label).join(', ') || 'Saturday, Sunday';
+    case 'checkbox':
+      return 'Yes';
+    case 'consent':
+      return 'I agree';
+    case 'rating':
+      return '5';
+    case 'file_upload':
+      return 'resume.pdf';
+    case 'textarea':
+      return 'I would love to help on weekends.';
+    default:
+      return `Sample ${(field.label || field.id).toLowerCase()}`;
+  }
+}
+
+function subfieldSample(field: FormField, subfield: FormSubField): string {
+  return SUBFIELD_SAMPLES[subfieldKey(field, subfield)] ?? `Sample ${subfield.label.toLowerCase()}`;
+}
+
+/**
+ * Merge fields a form's templates can use, in question order after the
+ * built-ins
+ */
+export function mergeFieldsForForm(form: Pick<ConversationalForm, 'title' | 'fields'>): MergeField[] {
+  const used = new Set(BUILT_IN_FIELDS(form).map((field) => field.token));
+  const fields = (form.fields ?? []).flatMap((field): MergeField[] => {
+    const label = field.label || field.id;
+    used.add(field.id);
+    if (!field.subfields?.length) return [{ token: field.id, label, sample: sampleFor(field) }];
+    const parts = field.subfields.map((subfield) => {
+      // A part whose ID is already taken (e.g. a second address) is qualified
+      const key = subfieldKey(field, subfield);
+      const token = used.has(key) ? subfieldRef(field, subfield) : key;
+      used.add(token);
+      return { token, label: `${label} → ${subfield.label}`, sample: subfieldSample(field, subfield) };
+    });
+    // The whole answer reads as its required parts, e.g. "Jane Doe"
+    const whole = field.subfields
+      .filter((subfield) => subfield.required)
+      .map((subfield) => subfieldSample(field, subfield))
+      .join(field.type === 'address' ? ', ' : ' ');
+    return [{ token: field.id, label, sample: whole }, ...parts];
+  });
+  return [...BUILT_IN_FIELDS(form), ...fields];
+}
+
+/**
+ * Every token a form's templates may use, including qualified subfield
+ * tokens (`full_name.first_name`)
+ */
+export function knownTokens(form: Pick<ConversationalForm, 'title' | 'fields'>): Set<string> {
+  const tokens = new Set(mergeFieldsForForm(form).map((field) => field.token));
+  (form.fields ?? []).forEach((field) =>
+    field.subfields?.forEach((subfield) => tokens.add(subfieldRef(field, subfield)))
+  );
+  return tokens;
+}
+
+/**
+ * Placeholder tokens in a template, in order of first use
+ */
+export function findPlaceholders(template: string | undefined): string[] {
+  const tokens = [...(template ?? '').matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+  return [...new Set(tokens)];
+}
+
+/**
+ * Placeholders in a template that are not merge fields of the form
+ */
+export function unknownPlaceholders(
+  template: string | undefined,
+  form: Pick<ConversationalForm, 'title' | 'fields'>
+): string[] {
+  const known = knownTokens(form);
+  return findPlaceholders(template).filter((token) => !known.has(token));
+}
+
+/**
+ * Fill a template's placeholders; unknown placeholders are left as written
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, token: string) => values[token] ?? placeholder);
+}
+
+/**
+ * Sample answers for every token, for previews
+ */
+export function sampleValues(form: Pick<ConversationalForm, 'title' | 'fields'>): Record<string, string> {
+  const values: Record<string, string> = {};
+  mergeFieldsForForm(form).forEach((field) => {
+    values[field.token] = field.sample;
+  });
+  (form.fields ?? []).forEach((field) =>
+    field.subfields?.forEach((subfield) => {
+      values[subfieldRef(field, subfield)] = subfieldSample(field, subfield);
+    })
+  );
+  return values;
+}
+
+/**
+ * How many SMS segments a message takes. GSM-7 messages fit 160 characters
+ * (153 per segment once split); anything outside GSM-7 switches the whole
+ * message to UCS-2 at 70 (67 per segment).
+ */
+export function smsSegments(text: string): SmsSegmentInfo {
+  const chars = [...text];
+  const gsm = chars.every((char) => GSM_BASIC.includes(char) || GSM_EXTENSION.includes(char));
+  const length = gsm
+    ? chars.reduce((total, char) => total + (GSM_EXTENSION.includes(char) ? 2 : 1), 0)
+    : text.length; // UTF-16 code units: emoji take two
+  const [single, multi] = gsm ? [160, 153] : [70, 67];
+  const segments = length === 0 ? 0 : length <= single ? 1 : Math.ceil(length / multi);
+  return { encoding: gsm ? 'GSM-7' : 'UCS-2', length, segments, perSegment: segments > 1 ? multi : single };
+}
+
+/**
+ * Check if a recipient is an email address
+ */
+export function isValidEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value.trim());
+}
+
+/**
+ * Check if a recipient is an E.164 phone number (`+15125550123`)
+ */
+export function isE164Phone(value: string): boolean {
+  return E164_PATTERN.test(value.trim());
+}
@@ -0,0 +1,76 @@
+/**
+ * Role and tenant-scope rules shared by the UI and the dev servers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { can, canAccessTenant, forbiddenConfigChanges, normalizeRole, type Access } from '..';
+
+const viewer: Access = { role: 'viewer' };
+const editor: Access = { role: 'editor', tenants: ['ACME01'] };
+const deployer: Access = { role: 'deployer' };
+const admin: Access = { role: 'super_admin', tenants: [] };
+
+describe('normalizeRole', () => {
+  it('keeps known roles and gives unknown ones the least privilege', () => {
+    expect(normalizeRole('deployer')).toBe('deployer');
+    expect(normalizeRole(' Super_Admin ')).toBe('super_admin');
+    expect(normalizeRole('member')).toBe('editor');
+    expect(normalizeRole('owner')).toBe('viewer');
+    expect(normalizeRole(42)).toBe('viewer');
+  });
+
+  it("gives users without a role the pre-enforcement default, member's editor", () => {
+    expect(normalizeRole(undefined)).toBe('editor');
+    expect(normalizeRole('')).toBe('editor');
+  });
+});
+
+describe('canAccessTenant', () => {
+  it('limits scoped users to their tenants; super_admin and unscoped users see all', () => {
+    expect(canAccessTenant(editor, 'ACME01')).toBe(true);
+    expect(canAccessTenant(editor, 'OTHER1')).toBe(false);
+    expect(canAccessTenant({ role: 'editor', tenants: [] }, 'ACME01')).toBe(false);
+    expect(canAccessTenant(viewer, 'OTHER1')).toBe(true);
+    expect(canAccessTenant(admin, 'OTHER1')).toBe(true);
+  });
+});
+
+describe('can', () => {
+  it('orders roles: viewers view, editors edit, deployers deploy and promote', () => {
+    expect(can(viewer, 'view', 'content')).toBe(true);
+    expect(can(viewer, 'edit', 'content')).toBe(false);
+    expect(can(editor, 'edit', 'settings')).toBe(true);
+    expect(can(editor, 'deploy', 'config')).toBe(false);
+    expect(can(deployer, 'deploy', 'config')).toBe(true);
+    expect(can(deployer, 'promote', 'config')).toBe(true);
+    expect(can(deployer, 'edit', 'content')).toBe(true);
+  });
+
+  it('reserves AWS settings and tenant create/delete for super_admin', () => {
+    expect(can(deployer, 'edit', 'aws')).toBe(false);
+    expect(can(deployer, 'view', 'aws')).toBe(true);
+    expect(can(deployer, 'delete', 'tenant')).toBe(false);
+    expect(can(admin, 'edit', 'aws')).toBe(true);
+    expect(can(admin, 'create', 'tenant')).toBe(true);
+  });
+
+  it('denies everything, even viewing, on a tenant outside the scope', () => {
+    expect(can(editor, 'edit', 'content', 'ACME01')).toBe(true);
+    expect(can(editor, 'view', 'content', 'OTHER1')).toBe(false);
+  });
+});
+
+describe('forbiddenConfigChanges', () => {
+  const stored = { chat_title: 'A', aws: { knowledge_base_id: 'kb1' }, model_id: 'm1' };
+
+  it('lists restricted keys the role changed', () => {
+    const after = { chat_title: 'B', aws: { knowledge_base_id: 'kb2' }, model_id: 'm1' };
+    expect(forbiddenConfigChanges(editor, stored, after)).toEqual(['aws']);
+    expect(forbiddenConfigChanges(admin, stored, after)).toEqual([]);
+  });
+
+  it('ignores unchanged and omitted restricted keys', () => {
+    expect(forbiddenConfigChanges(editor, stored, { ...stored, chat_title: 'B' })).toEqual([]);
+    expect(forbiddenConfigChanges(editor, stored, { chat_title: 'B' })).toEqual([]);
+  });
+});
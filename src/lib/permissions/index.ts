@@ -0,0 +1,14 @@
+/**
+ * Role-based permissions
+ */
+
+export {
+  ROLES,
+  ROLE_LABELS,
+  FULL_ACCESS,
+  normalizeRole,
+  canAccessTenant,
+  can,
+  forbiddenConfigChanges,
+} from './permissions';
+export type { Role, PermissionAction, PermissionSection, Access } from './permissions';
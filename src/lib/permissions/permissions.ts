@@ -0,0 +1,124 @@
+/**
+ * Permissions
+ * Role- and tenant-scoped access rules shared by the UI and the dev servers
+ *
+ * The UI uses these to hide or disable what a user can't do; the API is the
+ * enforcement point (the local dev servers apply the same rules to the
+ * claims of a fake token — see lib/api/devServerAuth).
+ */
+
+/** Ordered least to most privileged */
+export const ROLES = ['viewer', 'editor', 'deployer', 'super_admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type PermissionAction = 'view' | 'edit' | 'deploy' | 'promote' | 'create' | 'delete';
+
+/**
+ * - `content`: programs, forms, CTAs, branches, showcase, topics, chips, scheduling
+ * - `settings`: the Settings page panels, except AWS
+ * - `aws`: AWS and model settings (`aws`, `model_id`)
+ * - `config`: the tenant config as a whole — save, restore, deploy, promote
+ * - `tenant`: creating and deleting tenants
+ */
+export type PermissionSection = 'content' | 'settings' | 'aws' | 'config' | 'tenant';
+
+export interface Access {
+  role: Role;
+  /** Tenants the user may open. Undefined = not scoped; super_admin is never scoped. */
+  tenants?: string[];
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  deployer: 'Deployer',
+  super_admin: 'Super Admin',
+};
+
+/** Everything allowed — local tooling with no signed-in user */
+export const FULL_ACCESS: Access = { role: 'super_admin' };
+
+/** Lowest role that may take each action outside the super-admin sections */
+const MIN_ROLE: Record<PermissionAction, Role> = {
+  view: 'viewer',
+  edit: 'editor',
+  create: 'editor',
+  delete: 'editor',
+  deploy: 'deployer',
+  promote: 'deployer',
+};
+
+/** Sections only super_admin may change */
+const SUPER_ADMIN_SECTIONS: ReadonlySet<PermissionSection> = new Set(['aws', 'tenant']);
+
+/** Top-level config keys that belong to a restricted section */
+const RESTRICTED_CONFIG_KEYS: Record<string, PermissionSection> = {
+  aws: 'aws',
+  model_id: 'aws',
+};
+
+/** `member` was the default role before roles were enforced */
+const ROLE_ALIASES: Record<string, Role> = { member: 'editor' };
+
+/** Role of users with no role set: what `member` gave them before roles were enforced */
+const DEFAULT_ROLE: Role = 'editor';
+
+/**
+ * Role from Clerk `publicMetadata.role` (or a token claim). A missing role
+ * keeps the pre-enforcement default; unknown roles get the least privilege.
+ */
+export function normalizeRole(raw: unknown): Role {
+  if (raw === undefined || raw === null || raw === '') return DEFAULT_ROLE;
+  if (typeof raw !== 'string') return 'viewer';
+  const role = raw.trim().toLowerCase();
+  if ((ROLES as readonly string[]).includes(role)) return role as Role;
+  return ROLE_ALIASES[role] ?? 'viewer';
+}
+
+function rank(role: Role): number {
+  return ROLES.indexOf(role);
+}
+
+export function canAccessTenant(access: Access, tenantId: string): boolean {
+  if (access.role === 'super_admin' || !access.tenants) return true;
+  return access.tenants.includes(tenantId);
+}
+
+/**
+ * Whether `access` allows `action` on `section`, and — when a tenant is
+ * given — on that tenant
+ *
+ * @example
+ * can({ role: 'editor', tenants: ['ACME01'] }, 'edit', 'content', 'ACME01'); // true
+ * can({ role: 'editor' }, 'edit', 'aws'); // false
+ * can({ role: 'deployer' }, 'deploy', 'config'); // true
+ */
+export function can(
+  access: Access,
+  action: PermissionAction,
+  section: PermissionSection,
+  tenantId?: string | null
+): boolean {
+  if (tenantId && !canAccessTenant(access, tenantId)) return false;
+  if (action === 'view') return true;
+  if (SUPER_ADMIN_SECTIONS.has(section)) return access.role === 'super_admin';
+  return rank(access.role) >= rank(MIN_ROLE[action]);
+}
+
+/**
+ * Restricted top-level keys that differ between `before` and `after` and
+ * that `access` may not edit. Keys absent from `after` are left alone by a
+ * merge save, so they don't count as changes.
+ */
+export function forbiddenConfigChanges(
+  access: Access,
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>
+): string[] {
+  return Object.entries(RESTRICTED_CONFIG_KEYS)
+    .filter(([key]) => key in after)
+    .filter(([key]) => JSON.stringify(after[key]) !== JSON.stringify(before?.[key]))
+    .filter(([, section]) => !can(access, 'edit', section))
+    .map(([key]) => key);
+}
@@ -79,12 +79,10 @@ describe('ctaDefinitionSchema — scheduling actions (A4)', () => {
   });
 });
 
-describe('ctaDefinitionSchema — legacy selection_metadata tolerated (dead-field cleanup)', () => {
-  // selection_metadata (V4.1 pool selection) is no longer part of the builder's
-  // schema. Stored CTAs still carrying it must validate cleanly — the unknown
-  // key is ignored by the non-strict object schema, and the store round-trips
-  // the raw object untouched (edits spread over the loaded CTA).
-  it('accepts a stored CTA that still carries legacy selection_metadata', () => {
+describe('ctaDefinitionSchema — selection_metadata (V4.1 pool selection)', () => {
+  // selection_metadata is typed again now that the Topics editor owns it.
+  // Stored CTAs written before the dead-field cleanup must keep validating.
+  it('accepts a stored CTA that carries selection_metadata', () => {
     const r = ctaDefinitionSchema.safeParse({
       label: 'Learn about volunteering',
       action: 'show_info',
@@ -101,6 +99,38 @@ describe('ctaDefinitionSchema — legacy selection_metadata tolerated (dead-fiel
     });
     expect(r.success).toBe(true);
   });
+
+  it('preserves selection_metadata through parsing and defaults topic_tags', () => {
+    const r = ctaDefinitionSchema.safeParse({
+      label: 'Volunteer',
+      action: 'send_query',
+      type: 'bedrock_query',
+      query: 'How do I volunteer?',
+      ai_available: true,
+      selection_metadata: { role_axis: 'act', depth_level: 'deep_dive', priority: 5 },
+    });
+    expect(r.success).toBe(true);
+    if (r.success) {
+      expect(r.data.selection_metadata).toEqual({
+        topic_tags: [],
+        role_axis: 'act',
+        depth_level: 'deep_dive',
+        priority: 5,
+      });
+    }
+  });
+
+  it('rejects a negative or fractional priority', () => {
+    const base = { label: 'Volunteer', action: 'send_query', type: 'bedrock_query', query: 'q' };
+    expect(
+      ctaDefinitionSchema.safeParse({ ...base, selection_metadata: { topic_tags: [], priority: -1 } })
+        .success
+    ).toBe(false);
+    expect(
+      ctaDefinitionSchema.safeParse({ ...base, selection_metadata: { topic_tags: [], priority: 1.5 } })
+        .success
+    ).toBe(false);
+  });
 });
 
 describe('ctaDefinitionSchema — warning branches for mis-wired fields (audit B8)', () => {
@@ -143,6 +143,25 @@ describe('tenant.schema forward-compat: loosened bounds for real prod configs',
     expect(tenantConfigSchema.safeParse(withLabel(50)).success).toBe(true);
     expect(tenantConfigSchema.safeParse(withLabel(51)).success).toBe(false);
   });
+
+  it('accepts a show_showcase chip with no value, but not one without its showcase item', () => {
+    const withChip = (extra: Record<string, unknown>) => ({
+      ...baseTenant(),
+      action_chips: {
+        enabled: true,
+        max_display: 4,
+        show_on_welcome: true,
+        default_chips: { flyer: { label: 'Flyer', value: '', action: 'show_showcase', ...extra } },
+      },
+    });
+    expect(tenantConfigSchema.safeParse(withChip({ target_showcase_id: 'summer' })).success).toBe(true);
+    const r = tenantConfigSchema.safeParse(withChip({}));
+    expect(r.success).toBe(false);
+    if (!r.success) {
+      expect(r.error.issues.map((i) => i.path.join('.'))).toEqual(['action_chips.default_chips.flyer.target_showcase_id']);
+    }
+    expect(tenantConfigSchema.safeParse(withChip({ action: 'send_query', target_showcase_id: 'summer' })).success).toBe(false);
+  });
 });
 
 describe('tenant.schema forward-compat: program ref-join handles unknown form.program (audit R11 pin)', () => {
@@ -250,7 +269,7 @@ describe('scheduling forward-compat: old-shape MYR384719 scheduling config parse
     }
   });
 
-  it("accepts a schedule CTA still carrying legacy selection_metadata (live MYR384719 value; field ignored since the dead-field cleanup)", () => {
+  it("accepts a schedule CTA carrying selection_metadata (live MYR384719 value)", () => {
     const r = ctaDefinitionSchema.safeParse({
       label: 'Schedule an intro call',
       action: 'start_scheduling',
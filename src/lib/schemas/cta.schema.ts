@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { selectionMetadataSchema } from './topic.schema';
 
 // ============================================================================
 // CTA DEFINITION SCHEMA
@@ -43,6 +44,9 @@ export const ctaDefinitionSchema = z.object({
     .boolean()
     .optional()
     .describe('When true, includes this CTA in the AI vocabulary for dynamic selection (Tier 1-2 scoring).'),
+  selection_metadata: selectionMetadataSchema
+    .optional()
+    .describe('V4.1 pool selection: topics and funnel position this CTA is eligible for'),
 }).superRefine((data, ctx) => {
   // Validate action-specific required fields (v1.3+)
 
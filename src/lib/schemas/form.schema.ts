@@ -3,7 +3,8 @@
  */
 
 import { z } from 'zod';
-import { FORM_FIELD_TYPES } from '@/types/config';
+import { FIELD_CONDITION_OPERATORS, FORM_FIELD_TYPES } from '@/types/config';
+import { isOptionFieldType, isValidMimeType } from '@/lib/formFieldTypes';
 
 // ============================================================================
 // FORM FIELD SCHEMAS
@@ -26,6 +27,17 @@ export const formFieldSubfieldSchema = z.object({
   }).optional(),
 });
 
+export const fieldConditionSchema = z.object({
+  field: z.string().min(1, 'Pick the field this rule depends on'),
+  operator: z.enum(FIELD_CONDITION_OPERATORS),
+  value: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+export const fieldConditionsSchema = z.object({
+  match: z.enum(['all', 'any']),
+  rules: z.array(fieldConditionSchema).min(1, 'Add at least one rule or remove the conditions'),
+});
+
 export const formFieldSchema = z.object({
   id: z
     .string()
@@ -43,9 +55,16 @@ export const formFieldSchema = z.object({
   eligibility_gate: z.boolean().optional(),
   failure_message: z.string().max(500, 'Failure message must be 500 characters or less').optional(),
   minimum_age: z.number().int().positive('Minimum age must be a positive number').max(120, 'Minimum age must be 120 or less').optional(),
+  min_selections: z.number().int().min(0, 'Minimum selections cannot be negative').optional(),
+  max_selections: z.number().int().min(1, 'Maximum selections must be at least 1').optional(),
+  policy_text: z.string().max(2000, 'Policy text must be 2000 characters or less').optional(),
+  policy_url: z.string().url('Policy link must be a valid URL').optional(),
+  accepted_types: z.array(z.string()).optional(),
+  max_file_size_mb: z.number().positive('Maximum file size must be a positive number').max(100, 'Maximum file size must be 100 MB or less').optional(),
+  conditions: fieldConditionsSchema.optional(),
 }).superRefine((data, ctx) => {
-  // Validate that select fields have options
-  if (data.type === 'select' && (!data.options || data.options.length === 0)) {
+  // Validate that select and multi-select fields have options
+  if (isOptionFieldType(data.type) && (!data.options || data.options.length === 0)) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       path: ['options'],
@@ -89,15 +108,65 @@ export const formFieldSchema = z.object({
     });
   }
 
-  // Validate that only select fields have options
-  if (data.type !== 'select' && data.options && data.options.length > 0) {
+  // Validate that only select and multi-select fields have options
+  if (!isOptionFieldType(data.type) && data.options && data.options.length > 0) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       path: ['options'],
-      message: 'Only select fields can have options',
+      message: 'Only select and multi-select fields can have options',
+    });
+  }
+
+  // Validate multi-select limits
+  if ((data.min_selections !== undefined || data.max_selections !== undefined) && data.type !== 'multi_select') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['max_selections'],
+      message: 'Only multi-select fields can have selection limits',
+    });
+  }
+  if (data.min_selections !== undefined && data.max_selections !== undefined && data.min_selections > data.max_selections) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['min_selections'],
+      message: 'Minimum selections cannot be more than maximum selections',
+    });
+  }
+  if (data.type === 'multi_select' && data.options && (data.min_selections ?? 0) > data.options.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['min_selections'],
+      message: 'Minimum selections cannot be more than the number of options',
     });
   }
 
+  // Validate that consent fields say what is agreed to
+  if (data.type === 'consent' && !data.policy_text?.trim() && !data.policy_url) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['policy_text'],
+      message: 'Consent fields must have policy text or a policy link',
+    });
+  }
+
+  // Validate file upload types
+  if (data.accepted_types && data.type !== 'file_upload') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['accepted_types'],
+      message: 'Only file upload fields can have accepted file types',
+    });
+  }
+  data.accepted_types?.forEach((type, index) => {
+    if (type.trim() && !isValidMimeType(type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['accepted_types', index],
+        message: `"${type}" is not a MIME type (e.g. application/pdf or image/*)`,
+      });
+    }
+  });
+
   // Validate that composite fields (name, address) have subfields
   if ((data.type === 'name' || data.type === 'address') && (!data.subfields || data.subfields.length === 0)) {
     ctx.addIssue({
@@ -183,6 +252,33 @@ export const postSubmissionConfigSchema = z.object({
     .optional(),
 });
 
+// ============================================================================
+// NOTIFICATION SCHEMAS
+// ============================================================================
+
+// Placeholders and recipient formats are checked by the validation engine,
+// which knows the form's fields
+export const formNotificationSchema = z.object({
+  internal: z.object({
+    enabled: z.boolean(),
+    recipients: z.array(z.string()),
+    sms_recipients: z.array(z.string()).optional(),
+    subject: z.string().max(200, 'Subject must be 200 characters or less'),
+    body_template: z.string().max(10000, 'Email body must be 10000 characters or less'),
+    sms_template: z.string().max(1600, 'SMS text must be 1600 characters or less').optional(),
+    channels: z.object({
+      email: z.boolean(),
+      sms: z.boolean(),
+    }),
+  }),
+  applicant_confirmation: z.object({
+    enabled: z.boolean(),
+    subject: z.string().max(200, 'Subject must be 200 characters or less'),
+    body_template: z.string().max(10000, 'Email body must be 10000 characters or less'),
+    use_tenant_branding: z.boolean(),
+  }),
+});
+
 // ============================================================================
 // CONVERSATIONAL FORM SCHEMA
 // ============================================================================
@@ -208,6 +304,7 @@ export const conversationalFormSchema = z.object({
     .max(100, 'Completion branch ID must be 100 characters or less')
     .optional()
     .describe('Branch ID to show after successful form submission'),
+  notifications: formNotificationSchema.optional(),
 }).superRefine((data, ctx) => {
   // Validate that field IDs are unique within the form
   const fieldIds = new Set<string>();
@@ -15,9 +15,12 @@ export {
 export {
   formFieldOptionSchema,
   formFieldSchema,
+  fieldConditionSchema,
+  fieldConditionsSchema,
   postSubmissionActionSchema,
   fulfillmentSchema,
   postSubmissionConfigSchema,
+  formNotificationSchema,
   conversationalFormSchema,
   type FormFieldOption,
   type FormField,
@@ -33,6 +36,15 @@ export {
   type CTADefinition,
 } from './cta.schema';
 
+// Topic schemas (V4.1 CTA pool selection)
+export {
+  selectionMetadataSchema,
+  topicDefinitionSchema,
+  topicDefinitionsSchema,
+  type SelectionMetadataSchema,
+  type TopicDefinitionSchema,
+} from './topic.schema';
+
 // Branch schemas
 export {
   branchAvailableCTAsSchema,
@@ -55,6 +67,7 @@ export {
   messengerStringsSchema,
   messengerChannelOverrideSchema,
   messengerBehaviorSchema,
+  localizationConfigSchema,
   tenantConfigSchema,
   type BrandingConfig,
   type CalloutConfig,
@@ -83,6 +96,10 @@ export {
   routingPolicySchema,
   appointmentTypeSchema,
   schedulingConfigSchema,
+  collectSchedulingInvariantIssues,
+  bcp47Pattern,
+  type SchedulingInvariantInput,
+  type SchedulingInvariantIssue,
   type ReminderEntry,
   type ReminderTier,
   type ReminderCadence,
@@ -90,4 +107,12 @@ export {
   type RoutingPolicy,
   type AppointmentType,
   type SchedulingConfig,
+  type ReminderTierInput,
+  type ReminderCadenceInput,
+  type RoutingPolicyInput,
+  type AppointmentTypeInput,
+  type SchedulingConfigInput,
+  type ReminderEntryDraft,
+  type ReminderTierDraft,
+  type AppointmentTypeDraft,
 } from './scheduling.schema';
@@ -6,7 +6,8 @@
  *
  * The scheduling block is optional at the tenant-config level — it is required
  * only when feature_flags.scheduling_enabled === true. The cross-section
- * invariant is enforced in tenant.schema.ts (see task A5).
+ * invariants live in collectSchedulingInvariantIssues below and are enforced
+ * by tenant.schema.ts (see task A5) and the Scheduling editor.
  */
 
 import { z } from 'zod';
@@ -142,7 +143,7 @@ export const appointmentTypeSchema = z.object({
 // SCHEDULING CONFIG SCHEMA (spec §4 — top-level scheduling block)
 // ============================================================================
 
-const bcp47Pattern = /^[a-z]{2}(-[A-Z]{2})?$/;
+export const bcp47Pattern = /^[a-z]{2}(-[A-Z]{2})?$/;
 
 export const schedulingConfigSchema = z.object({
   // Workspace identity
@@ -185,6 +186,126 @@ export const schedulingConfigSchema = z.object({
     .optional(),
 });
 
+// ============================================================================
+// CROSS-SECTION INVARIANTS (spec §10)
+// ============================================================================
+
+/**
+ * The slice of a tenant config the scheduling invariants read. Structural so
+ * both the parsed tenant schema output and the builder's stored TenantConfig
+ * satisfy it.
+ */
+export interface SchedulingInvariantInput {
+  feature_flags?: { scheduling_enabled?: boolean } | null;
+  scheduling?: z.input<typeof schedulingConfigSchema> | null;
+  conversational_forms?: Record<string, unknown>;
+  cta_definitions?: Record<string, { action?: string }>;
+}
+
+export interface SchedulingInvariantIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Evaluate the six scheduling cross-section invariants.
+ *
+ * Single source for tenantConfigSchema's superRefine AND the Scheduling
+ * editor, which needs the same messages even when an unrelated section of
+ * the tenant config fails to parse (Zod skips refinements once the base
+ * object aborts).
+ */
+export function collectSchedulingInvariantIssues(
+  data: SchedulingInvariantInput
+): SchedulingInvariantIssue[] {
+  const issues: SchedulingInvariantIssue[] = [];
+  const schedulingEnabled = data.feature_flags?.scheduling_enabled === true;
+  const forms = data.conversational_forms ?? {};
+  const ctas = data.cta_definitions ?? {};
+
+  // Invariant 1: scheduling_enabled === true ⟹ scheduling block present
+  if (schedulingEnabled && !data.scheduling) {
+    issues.push({
+      path: ['scheduling'],
+      message: 'scheduling_enabled requires a scheduling configuration block',
+    });
+  }
+
+  if (data.scheduling) {
+    const scheduling = data.scheduling;
+    const routingPolicyIds = new Set(Object.keys(scheduling.routing_policies ?? {}));
+    const tagVocabulary = new Set(scheduling.scheduling_tag_vocabulary ?? []);
+
+    // Invariant 2: every appointment_types[*].routing_policy_id ∈ routing_policies.
+    // routing_policy_id is optional (transitional); only cross-check when set,
+    // so old configs without routing wired up still validate (forward-compat).
+    Object.entries(scheduling.appointment_types ?? {}).forEach(([typeId, appt]) => {
+      if (appt.routing_policy_id && !routingPolicyIds.has(appt.routing_policy_id)) {
+        issues.push({
+          path: ['scheduling', 'appointment_types', typeId, 'routing_policy_id'],
+          message: `Appointment type references non-existent routing_policy: ${appt.routing_policy_id}`,
+        });
+      }
+    });
+
+    // Invariant 3: every routing_policies[*].tag_conditions[*].tag ∈ scheduling_tag_vocabulary
+    Object.entries(scheduling.routing_policies ?? {}).forEach(([policyId, policy]) => {
+      (policy.tag_conditions ?? []).forEach((condition, index) => {
+        if (!tagVocabulary.has(condition.tag)) {
+          issues.push({
+            path: ['scheduling', 'routing_policies', policyId, 'tag_conditions', index, 'tag'],
+            message: `Tag condition references unknown tag: ${condition.tag}`,
+          });
+        }
+      });
+    });
+
+    // Invariant 4: scheduling.pre_call_form_id, when set, ∈ conversational_forms
+    if (scheduling.pre_call_form_id && !forms[scheduling.pre_call_form_id]) {
+      issues.push({
+        path: ['scheduling', 'pre_call_form_id'],
+        message: `pre_call_form_id references non-existent form: ${scheduling.pre_call_form_id}`,
+      });
+    }
+
+    // Invariant 5: scheduling.default_locale ∈ scheduling.available_locales
+    if (
+      scheduling.default_locale &&
+      Array.isArray(scheduling.available_locales) &&
+      !scheduling.available_locales.includes(scheduling.default_locale)
+    ) {
+      issues.push({
+        path: ['scheduling', 'default_locale'],
+        message: `default_locale "${scheduling.default_locale}" is not in available_locales`,
+      });
+    }
+  }
+
+  // Invariant 6: every CTA with action ∈ {start_scheduling, resume_scheduling}
+  // requires scheduling_enabled === true and non-empty scheduling.appointment_types
+  const hasAppointmentTypes =
+    !!data.scheduling && Object.keys(data.scheduling.appointment_types ?? {}).length > 0;
+
+  Object.entries(ctas).forEach(([ctaId, cta]) => {
+    if (cta.action === 'start_scheduling' || cta.action === 'resume_scheduling') {
+      if (!schedulingEnabled) {
+        issues.push({
+          path: ['cta_definitions', ctaId, 'action'],
+          message: `CTA action "${cta.action}" requires feature_flags.scheduling_enabled === true`,
+        });
+      }
+      if (!hasAppointmentTypes) {
+        issues.push({
+          path: ['cta_definitions', ctaId, 'action'],
+          message: `CTA action "${cta.action}" requires non-empty scheduling.appointment_types`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -196,3 +317,24 @@ export type TagCondition = z.infer<typeof tagConditionSchema>;
 export type RoutingPolicy = z.infer<typeof routingPolicySchema>;
 export type AppointmentType = z.infer<typeof appointmentTypeSchema>;
 export type SchedulingConfig = z.infer<typeof schedulingConfigSchema>;
+
+// Stored (pre-default) shapes. Configs on disk may omit every defaulted field,
+// so the builder edits and emits these rather than the parsed output types.
+export type ReminderTierInput = z.input<typeof reminderTierSchema>;
+export type ReminderCadenceInput = z.input<typeof reminderCadenceSchema>;
+export type RoutingPolicyInput = z.input<typeof routingPolicySchema>;
+export type AppointmentTypeInput = z.input<typeof appointmentTypeSchema>;
+export type SchedulingConfigInput = z.input<typeof schedulingConfigSchema>;
+
+// Editor drafts. A cleared number input holds undefined until validation
+// reports it, so the required reminder numbers widen to allow it.
+export type ReminderEntryDraft = Omit<z.input<typeof reminderEntrySchema>, 'offset_minutes_before'> & {
+  offset_minutes_before: number | undefined;
+};
+export type ReminderTierDraft = Omit<ReminderTierInput, 'lead_time_min_hours' | 'reminders'> & {
+  lead_time_min_hours: number | undefined;
+  reminders: ReminderEntryDraft[];
+};
+export type AppointmentTypeDraft = Omit<AppointmentTypeInput, 'reminder_cadence_override'> & {
+  reminder_cadence_override?: Omit<ReminderCadenceInput, 'tiers'> & { tiers?: ReminderTierDraft[] };
+};
@@ -7,7 +7,8 @@ import { programSchema } from './program.schema';
 import { conversationalFormSchema } from './form.schema';
 import { ctaDefinitionSchema } from './cta.schema';
 import { conversationBranchSchema } from './branch.schema';
-import { schedulingConfigSchema } from './scheduling.schema';
+import { schedulingConfigSchema, collectSchedulingInvariantIssues, bcp47Pattern } from './scheduling.schema';
+import { topicDefinitionsSchema } from './topic.schema';
 
 // ============================================================================
 // BRANDING SCHEMA
@@ -64,11 +65,21 @@ export const quickHelpConfigSchema = z.object({
 
 export const actionChipSchema = z.object({
   label: z.string().min(1, 'Label is required').max(50, 'Label must be 50 characters or less'),
-  action: z.enum(['send_query', 'show_info'], {
-    errorMap: () => ({ message: 'Action must be either send_query or show_info' }),
+  action: z.enum(['send_query', 'show_info', 'show_showcase'], {
+    errorMap: () => ({ message: 'Action must be send_query, show_info or show_showcase' }),
   }).optional().default('send_query'),
-  value: z.string().min(1, 'Value/message is required'), // No max length - supports paragraphs
+  value: z.string(), // No max length - supports paragraphs
   target_branch: z.string().min(1, 'Branch ID cannot be empty').max(100, 'Branch ID must be 100 characters or less').nullable().optional(),
+  target_showcase_id: z.string().optional(),
+}).superRefine((chip, ctx) => {
+  // A showcase chip opens its showcase item instead of sending a message
+  if (chip.action === 'show_showcase') {
+    if (!chip.target_showcase_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['target_showcase_id'], message: 'Showcase item is required' });
+    }
+  } else if (!chip.value) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Value/message is required' });
+  }
 });
 
 export const actionChipsConfigSchema = z.object({
@@ -194,6 +205,42 @@ export const messengerBehaviorSchema = z.object({
     .optional(),
 });
 
+// ============================================================================
+// LOCALIZATION SCHEMA
+// ============================================================================
+// Same locale tag format as scheduling's default_locale/available_locales.
+// Translations are an open record keyed by locale then string key; missing
+// translations are warnings (validation engine), not schema errors.
+
+const localeTagSchema = z
+  .string()
+  .regex(bcp47Pattern, 'Must be a BCP-47 language tag (e.g., "en", "en-US", "es")');
+
+export const localizationConfigSchema = z
+  .object({
+    default_locale: localeTagSchema,
+    enabled_locales: z.array(localeTagSchema).min(1, 'At least one locale is required'),
+    translations: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.enabled_locales.includes(data.default_locale)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['enabled_locales'],
+        message: `Enabled locales must include the default locale "${data.default_locale}"`,
+      });
+    }
+    data.enabled_locales.forEach((locale, index) => {
+      if (data.enabled_locales.indexOf(locale) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['enabled_locales', index],
+          message: `Locale "${locale}" is listed more than once`,
+        });
+      }
+    });
+  });
+
 // ============================================================================
 // FEATURE FLAGS SCHEMA
 // ============================================================================
@@ -232,6 +279,9 @@ export const tenantConfigSchema = z.object({
   cta_definitions: z.record(z.string(), ctaDefinitionSchema),
   conversation_branches: z.record(z.string(), conversationBranchSchema),
 
+  // V4.1 classifier taxonomy for CTA pool selection
+  topic_definitions: topicDefinitionsSchema.optional(),
+
   // Configuration sections
   branding: brandingConfigSchema,
   features: featuresConfigSchema,
@@ -251,6 +301,9 @@ export const tenantConfigSchema = z.object({
   // Messenger Channel Experience behavior tuning (contract C2)
   messenger_behavior: messengerBehaviorSchema.optional(),
 
+  // Tenant locales and translations of user-facing strings
+  localization: localizationConfigSchema.optional(),
+
 }).superRefine((data, ctx) => {
   // Validate that all form programs reference existing programs (if programs are defined).
   // A form.program is valid if it matches EITHER the programs object key OR a
@@ -315,96 +368,12 @@ export const tenantConfigSchema = z.object({
   });
 
   // ==========================================================================
-  // Scheduling cross-section invariants (schema spec §10)
+  // Scheduling cross-section invariants (schema spec §10) — shared with the
+  // Scheduling editor via collectSchedulingInvariantIssues.
   // ==========================================================================
 
-  const schedulingEnabled = data.feature_flags?.scheduling_enabled === true;
-
-  // Invariant 1: scheduling_enabled === true ⟹ scheduling block present
-  if (schedulingEnabled && !data.scheduling) {
-    ctx.addIssue({
-      code: z.ZodIssueCode.custom,
-      path: ['scheduling'],
-      message: 'scheduling_enabled requires a scheduling configuration block',
-    });
-  }
-
-  if (data.scheduling) {
-    const scheduling = data.scheduling;
-    const routingPolicyIds = new Set(Object.keys(scheduling.routing_policies ?? {}));
-    const tagVocabulary = new Set(scheduling.scheduling_tag_vocabulary ?? []);
-
-    // Invariant 2: every appointment_types[*].routing_policy_id ∈ routing_policies.
-    // routing_policy_id is optional (transitional); only cross-check when set,
-    // so old configs without routing wired up still validate (forward-compat).
-    Object.entries(scheduling.appointment_types ?? {}).forEach(([typeId, appt]) => {
-      if (appt.routing_policy_id && !routingPolicyIds.has(appt.routing_policy_id)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ['scheduling', 'appointment_types', typeId, 'routing_policy_id'],
-          message: `Appointment type references non-existent routing_policy: ${appt.routing_policy_id}`,
-        });
-      }
-    });
-
-    // Invariant 3: every routing_policies[*].tag_conditions[*].tag ∈ scheduling_tag_vocabulary
-    Object.entries(scheduling.routing_policies ?? {}).forEach(([policyId, policy]) => {
-      (policy.tag_conditions ?? []).forEach((condition, index) => {
-        if (!tagVocabulary.has(condition.tag)) {
-          ctx.addIssue({
-            code: z.ZodIssueCode.custom,
-            path: ['scheduling', 'routing_policies', policyId, 'tag_conditions', index, 'tag'],
-            message: `Tag condition references unknown tag: ${condition.tag}`,
-          });
-        }
-      });
-    });
-
-    // Invariant 4: scheduling.pre_call_form_id, when set, ∈ conversational_forms
-    if (scheduling.pre_call_form_id && !data.conversational_forms[scheduling.pre_call_form_id]) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ['scheduling', 'pre_call_form_id'],
-        message: `pre_call_form_id references non-existent form: ${scheduling.pre_call_form_id}`,
-      });
-    }
-
-    // Invariant 5: scheduling.default_locale ∈ scheduling.available_locales
-    if (
-      scheduling.default_locale &&
-      Array.isArray(scheduling.available_locales) &&
-      !scheduling.available_locales.includes(scheduling.default_locale)
-    ) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ['scheduling', 'default_locale'],
-        message: `default_locale "${scheduling.default_locale}" is not in available_locales`,
-      });
-    }
-  }
-
-  // Invariant 6: every CTA with action ∈ {start_scheduling, resume_scheduling}
-  // requires scheduling_enabled === true and non-empty scheduling.appointment_types
-  const hasAppointmentTypes =
-    !!data.scheduling && Object.keys(data.scheduling.appointment_types ?? {}).length > 0;
-
-  Object.entries(data.cta_definitions).forEach(([ctaId, cta]) => {
-    if (cta.action === 'start_scheduling' || cta.action === 'resume_scheduling') {
-      if (!schedulingEnabled) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ['cta_definitions', ctaId, 'action'],
-          message: `CTA action "${cta.action}" requires feature_flags.scheduling_enabled === true`,
-        });
-      }
-      if (!hasAppointmentTypes) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ['cta_definitions', ctaId, 'action'],
-          message: `CTA action "${cta.action}" requires non-empty scheduling.appointment_types`,
-        });
-      }
-    }
+  collectSchedulingInvariantIssues(data).forEach((issue) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
   });
 
 });
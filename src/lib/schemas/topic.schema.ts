@@ -0,0 +1,81 @@
+/**
+ * Topic Schema - Zod validation schemas for V4.1 CTA pool selection
+ *
+ * topic_definitions is the classifier taxonomy: each turn is classified into a
+ * topic, and the CTA pool is narrowed to ai_available CTAs whose
+ * selection_metadata.topic_tags include that topic.
+ */
+
+import { z } from 'zod';
+
+const topicIdPattern = /^[a-z0-9_]+$/;
+
+// ============================================================================
+// SELECTION METADATA SCHEMA (per-CTA)
+// ============================================================================
+
+export const selectionMetadataSchema = z.object({
+  topic_tags: z
+    .array(z.string().min(1, 'Topic tag cannot be empty'))
+    .default([])
+    .describe('Topic IDs this CTA is eligible for'),
+  // Free-form strings: live configs carry values beyond the builder's presets
+  // (Schema Discipline — readers tolerate unknown values).
+  depth_level: z.string().min(1).optional().describe('Funnel depth, e.g. "info" or "action"'),
+  role_axis: z.string().min(1).optional().describe('Visitor role, e.g. "give" or "act"'),
+  core_learning: z.boolean().optional(),
+  priority: z
+    .number()
+    .int('Priority must be a whole number')
+    .nonnegative('Priority cannot be negative')
+    .optional()
+    .describe('Lower values are offered first when the pool exceeds max_ctas_per_response'),
+});
+
+// ============================================================================
+// TOPIC DEFINITION SCHEMA
+// ============================================================================
+
+export const topicDefinitionSchema = z.object({
+  id: z
+    .string()
+    .min(1, 'Topic ID is required')
+    .max(50, 'Topic ID must be 50 characters or less')
+    .regex(topicIdPattern, 'Topic ID must be lowercase letters, numbers, and underscores'),
+  label: z
+    .string()
+    .min(1, 'Label is required')
+    .max(100, 'Label must be 100 characters or less'),
+  description: z
+    .string()
+    .max(500, 'Description must be 500 characters or less')
+    .optional()
+    .describe('Classifier guidance: which visitor messages belong to this topic'),
+  examples: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Sample visitor messages that should classify into this topic'),
+});
+
+export const topicDefinitionsSchema = z
+  .array(topicDefinitionSchema)
+  .superRefine((topics, ctx) => {
+    const seen = new Set<string>();
+    topics.forEach((topic, index) => {
+      if (seen.has(topic.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `Duplicate topic ID: ${topic.id}`,
+        });
+      }
+      seen.add(topic.id);
+    });
+  });
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type SelectionMetadataSchema = z.infer<typeof selectionMetadataSchema>;
+export type TopicDefinitionSchema = z.infer<typeof topicDefinitionSchema>;
@@ -0,0 +1,107 @@
+/**
+ * Command palette search: fuzzy ranking and the config search index
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TenantConfig } from '@/types/config';
+import { buildSearchIndex, fuzzyMatch, fuzzySearch } from '..';
+
+const item = (...texts: string[]) => ({ texts });
+
+describe('fuzzyMatch', () => {
+  it('matches characters in order, ignoring case', () => {
+    expect(fuzzyMatch('vlntr', 'Volunteer')?.indices).toEqual([0, 2, 4, 5, 8]);
+    expect(fuzzyMatch('rtv', 'Volunteer')).toBeNull();
+  });
+
+  it('ranks substrings above scattered matches and word starts above the middle', () => {
+    const substring = fuzzyMatch('apply', 'Apply now')!.score;
+    const middle = fuzzyMatch('apply', 'Reapply now')!.score;
+    const scattered = fuzzyMatch('apply', 'A parent ply')!.score;
+
+    expect(substring).toBeGreaterThan(middle);
+    expect(middle).toBeGreaterThan(scattered);
+  });
+
+  it('prefers the word-start occurrence of a substring', () => {
+    expect(fuzzyMatch('form', 'platform form')?.indices).toEqual([9, 10, 11, 12]);
+  });
+});
+
+describe('fuzzySearch', () => {
+  const items = [item('Happy family'), item('Apply now'), item('Mentor application', 'apply')];
+
+  it('ranks the best match first and highlights the title', () => {
+    const results = fuzzySearch(items, 'apply');
+
+    expect(results.map((result) => result.item.texts[0])).toEqual(['Apply now', 'Mentor application', 'Happy family']);
+    expect(results[0].titleIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(results[1].titleIndices).toEqual([]);
+  });
+
+  it('needs every token to match some text', () => {
+    expect(fuzzySearch(items, 'mentor apply').map((result) => result.item.texts[0])).toEqual(['Mentor application']);
+    expect(fuzzySearch(items, 'apply zebra')).toEqual([]);
+  });
+
+  it('returns nothing for a blank query and respects the limit', () => {
+    expect(fuzzySearch(items, '   ')).toEqual([]);
+    expect(fuzzySearch(items, 'a', 2)).toHaveLength(2);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  const config = {
+    tenant_id: 'TEST01',
+    chat_title: 'Helper',
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    action_chips: { enabled: true, default_chips: { volunteer: { label: 'Volunteer', value: 'How do I volunteer?' } } },
+    programs: { mentors: { program_id: 'mentors', program_name: 'Mentors' } },
+    conversational_forms: {
+      apply: {
+        enabled: true,
+        form_id: 'apply',
+        program: 'mentors',
+        title: 'Apply',
+        description: 'Mentor application',
+        fields: [{ id: 'email', type: 'email', label: 'Email', prompt: 'What is your email?', required: true }],
+      },
+    },
+    cta_definitions: { learn: { label: 'Learn more', action: 'send_query', type: 'bedrock_query', query: 'About' } },
+    conversation_branches: { mentoring: { description: 'Mentoring questions', available_ctas: { primary: 'learn', secondary: [] } } },
+    content_showcase: [
+      { id: 'summer', type: 'campaign', enabled: true, name: 'Summer drive', tagline: '', description: '', keywords: ['giving'] },
+    ],
+  } as unknown as TenantConfig;
+
+  const index = buildSearchIndex(config);
+  const entry = (key: string) => index.find((candidate) => candidate.key === key);
+
+  it('links entities and fields to their edit modals', () => {
+    expect(entry('program:mentors')?.href).toBe('/programs?editId=mentors');
+    expect(entry('form:apply')?.href).toBe('/forms?editId=apply');
+    expect(entry('field:apply/email')).toMatchObject({
+      title: 'Email',
+      texts: ['Email', 'What is your email?', 'email'],
+      href: '/forms?editId=apply&scrollTo=email',
+    });
+    expect(entry('cta:learn')?.href).toBe('/ctas?editId=learn');
+    expect(entry('branch:mentoring')?.texts).toContain('Mentoring questions');
+    expect(entry('showcase:summer')).toMatchObject({ title: 'Summer drive', href: '/cards?editId=summer' });
+    expect(entry('action_chip:volunteer')).toMatchObject({ title: 'Volunteer', href: '/action-chips?editId=volunteer' });
+  });
+
+  it('lists settings keys with their tab, skipping entity sections and chip IDs', () => {
+    expect(entry('setting:branding.primary_color')?.href).toBe('/settings?tab=branding&scrollTo=primary_color');
+    expect(entry('setting:branding')?.href).toBe('/settings?tab=branding');
+    expect(entry('setting:chat_title')?.href).toBe('/settings?tab=general&scrollTo=chat_title');
+    expect(entry('setting:action_chips.default_chips')?.href).toBe('/action-chips?scrollTo=default_chips');
+    expect(entry('setting:action_chips.default_chips.volunteer')).toBeUndefined();
+    expect(index.some((candidate) => candidate.key.startsWith('setting:programs'))).toBe(false);
+  });
+
+  it('finds a field by its prompt and a showcase item by a keyword', () => {
+    expect(fuzzySearch(index, 'your email')[0].item.key).toBe('field:apply/email');
+    expect(fuzzySearch(index, 'giving')[0].item.key).toBe('showcase:summer');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Fuzzy Search
+ * Rank texts by how well they match a typed query
+ *
+ * A query token matches a text when its characters appear in order
+ * ("vlntr" matches "Volunteer"). Contiguous runs, matches at the start of a
+ * word and matches near the start of the text score higher, so "apply"
+ * ranks "Apply now" above "Happy family". Case is ignored.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Positions in the text of the matched characters */
+  indices: number[];
+}
+
+export interface Searchable {
+  /** Texts to match, most important first; the first is the title */
+  texts: string[];
+}
+
+export interface SearchResult<T extends Searchable> {
+  item: T;
+  score: number;
+  /** Matched positions in the title, for highlighting; empty when matched elsewhere */
+  titleIndices: number[];
+}
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || /[\s_\-./:([]/.test(text[index - 1]) || (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+
+/**
+ * Match one query token against a text, or null when its characters don't
+ * all appear in order. A substring match always beats a scattered one.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  // Substring: prefer one at a word start
+  let start = -1;
+  for (let at = haystack.indexOf(needle); at >= 0; at = haystack.indexOf(needle, at + 1)) {
+    if (start < 0) start = at;
+    if (isWordStart(text, at)) {
+      start = at;
+      break;
+    }
+  }
+  if (start >= 0) {
+    const score =
+      100 +
+      needle.length * 4 +
+      (start === 0 ? 30 : 0) +
+      (isWordStart(text, start) ? 20 : 0) +
+      (needle.length === haystack.length ? 30 : 0) -
+      Math.min(start, 20);
+    return { score, indices: Array.from({ length: needle.length }, (_, i) => start + i) };
+  }
+
+  // Subsequence: favour word starts and runs, unless that loses the match
+  return scatteredMatch(needle, haystack, text, true) ?? scatteredMatch(needle, haystack, text, false);
+}
+
+function scatteredMatch(needle: string, haystack: string, text: string, preferStarts: boolean): FuzzyMatch | null {
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    const previous = indices[indices.length - 1];
+    let found = -1;
+    for (let i = from; i < haystack.length; i++) {
+      if (haystack[i] !== char) continue;
+      if (found < 0) found = i;
+      if (!preferStarts || i === previous + 1 || isWordStart(text, i)) {
+        found = i;
+        break;
+      }
+    }
+    if (found < 0) return null;
+    score += 2;
+    if (found === previous + 1) score += 5;
+    if (isWordStart(text, found)) score += 8;
+    if (previous !== undefined) score -= Math.min(found - previous - 1, 5);
+    indices.push(found);
+    from = found + 1;
+  }
+  return { score: score - Math.min(indices[0], 10), indices };
+}
+
+/** The best match of one token among an item's texts; a title match counts double */
+function bestMatch(token: string, texts: string[]): { score: number; titleIndices: number[] } | null {
+  let best: { score: number; titleIndices: number[] } | null = null;
+  for (const [position, text] of texts.entries()) {
+    const match = text ? fuzzyMatch(token, text) : null;
+    if (!match) continue;
+    const score = position === 0 ? match.score * 2 : match.score;
+    if (!best || score > best.score) best = { score, titleIndices: position === 0 ? match.indices : [] };
+  }
+  return best;
+}
+
+/**
+ * Items matching every whitespace-separated token of `query`, best first.
+ * A token may match any of an item's texts. Ties keep the items' order.
+ */
+export function fuzzySearch<T extends Searchable>(items: T[], query: string, limit = 50): SearchResult<T>[] {
+  const tokens = query.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const results: SearchResult<T>[] = [];
+  items.forEach((item) => {
+    const matches = tokens.map((token) => bestMatch(token, item.texts));
+    if (matches.some((match) => !match)) return;
+    results.push({
+      item,
+      score: matches.reduce((total, match) => total + match!.score, 0),
+      titleIndices: [...new Set(matches.flatMap((match) => match!.titleIndices))].sort((a, b) => a - b),
+    });
+  });
+
+  return results
+    .map((result, order) => ({ result, order }))
+    .sort((a, b) => b.result.score - a.result.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ result }) => result);
+}
@@ -0,0 +1,8 @@
+/**
+ * Fuzzy search over a config's entities, fields and settings keys
+ */
+
+export { fuzzyMatch, fuzzySearch } from './fuzzySearch';
+export { buildSearchIndex, SEARCH_KIND_LABELS } from './searchIndex';
+export type { FuzzyMatch, Searchable, SearchResult } from './fuzzySearch';
+export type { SearchEntry, SearchEntryKind } from './searchIndex';
@@ -0,0 +1,196 @@
+/**
+ * Search Index
+ * Every entity, form field, action chip and settings key of a config as a
+ * search entry with the link that opens it
+ *
+ * Entity links use the `?editId=&scrollTo=` params the editors act on (see
+ * useNavigateToEntity), so picking a result opens the entity's edit modal.
+ * Settings keys link to their Settings tab or page, like validation issues.
+ */
+
+import type { TenantConfig } from '@/types/config';
+import { settingsLocation } from '@/lib/validation';
+import type { Searchable } from './fuzzySearch';
+
+export type SearchEntryKind =
+  | 'program'
+  | 'form'
+  | 'field'
+  | 'cta'
+  | 'branch'
+  | 'showcase'
+  | 'action_chip'
+  | 'setting';
+
+export interface SearchEntry extends Searchable {
+  /** Unique across the index, e.g. `field:apply/email` */
+  key: string;
+  kind: SearchEntryKind;
+  title: string;
+  /** Second line: where the entry lives */
+  detail?: string;
+  /** Route with the params that open the entry */
+  href: string;
+}
+
+export const SEARCH_KIND_LABELS: Record<SearchEntryKind, string> = {
+  program: 'Program',
+  form: 'Form',
+  field: 'Field',
+  cta: 'CTA',
+  branch: 'Branch',
+  showcase: 'Showcase',
+  action_chip: 'Chip',
+  setting: 'Setting',
+};
+
+/** Top-level keys that are entities or bookkeeping rather than settings */
+const NOT_SETTINGS = new Set([
+  'programs',
+  'conversational_forms',
+  'cta_definitions',
+  'conversation_branches',
+  'content_showcase',
+  'topic_definitions',
+  'generated_at',
+]);
+
+/** Settings whose keys are data (chip IDs, locales), not setting names */
+const DATA_KEYED = new Set(['action_chips.default_chips', 'localization.translations']);
+
+const MAX_SETTINGS_DEPTH = 3;
+
+function entityHref(route: string, editId: string, scrollTo?: string): string {
+  const params = new URLSearchParams();
+  params.set('editId', editId);
+  if (scrollTo) params.set('scrollTo', scrollTo);
+  return `${route}?${params.toString()}`;
+}
+
+function settingsHref(section: string, field: string): string {
+  const location = settingsLocation(section);
+  const params = new URLSearchParams();
+  if (location.tab) params.set('tab', location.tab);
+  if (field) params.set('scrollTo', field);
+  const query = params.toString();
+  return query ? `${location.route}?${query}` : location.route;
+}
+
+/** Dotted paths of a settings section's keys, objects before their keys */
+function settingsKeys(value: unknown, path: string, depth: number): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || depth >= MAX_SETTINGS_DEPTH || DATA_KEYED.has(path)) {
+    return [path];
+  }
+  return [
+    path,
+    ...Object.entries(value as Record<string, unknown>).flatMap(([key, child]) =>
+      settingsKeys(child, `${path}.${key}`, depth + 1)
+    ),
+  ];
+}
+
+/**
+ * The search entries of a (merged) config, grouped by kind in sidebar order:
+ * programs, forms and their fields, CTAs, branches, showcase items, action
+ * chips, then settings keys
+ */
+export function buildSearchIndex(config: Partial<TenantConfig>): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+
+  Object.entries(config.programs ?? {}).forEach(([id, program]) => {
+    entries.push({
+      key: `program:${id}`,
+      kind: 'program',
+      title: program.program_name || id,
+      detail: id,
+      texts: [program.program_name || id, id, program.description ?? ''],
+      href: entityHref('/programs', id),
+    });
+  });
+
+  Object.entries(config.conversational_forms ?? {}).forEach(([id, form]) => {
+    const formTitle = form.title || id;
+    entries.push({
+      key: `form:${id}`,
+      kind: 'form',
+      title: formTitle,
+      detail: id,
+      texts: [formTitle, id, form.description ?? ''],
+      href: entityHref('/forms', id),
+    });
+    (form.fields ?? []).forEach((field) => {
+      entries.push({
+        key: `field:${id}/${field.id}`,
+        kind: 'field',
+        title: field.label || field.id,
+        detail: `${formTitle} · ${field.prompt || field.id}`,
+        texts: [field.label || field.id, field.prompt ?? '', field.id],
+        href: entityHref('/forms', id, field.id),
+      });
+    });
+  });
+
+  Object.entries(config.cta_definitions ?? {}).forEach(([id, cta]) => {
+    const label = cta.label || cta.text || id;
+    entries.push({
+      key: `cta:${id}`,
+      kind: 'cta',
+      title: label,
+      detail: id,
+      texts: [label, id],
+      href: entityHref('/ctas', id),
+    });
+  });
+
+  Object.entries(config.conversation_branches ?? {}).forEach(([id, branch]) => {
+    entries.push({
+      key: `branch:${id}`,
+      kind: 'branch',
+      title: id,
+      detail: branch.description,
+      texts: [id, branch.description ?? ''],
+      href: entityHref('/branches', id),
+    });
+  });
+
+  (config.content_showcase ?? []).forEach((item) => {
+    entries.push({
+      key: `showcase:${item.id}`,
+      kind: 'showcase',
+      title: item.name || item.id,
+      detail: (item.keywords ?? []).join(', ') || item.id,
+      texts: [item.name || item.id, item.id, ...(item.keywords ?? [])],
+      href: entityHref('/cards', item.id),
+    });
+  });
+
+  Object.entries(config.action_chips?.default_chips ?? {}).forEach(([id, chip]) => {
+    entries.push({
+      key: `action_chip:${id}`,
+      kind: 'action_chip',
+      title: chip.label || id,
+      detail: chip.value,
+      texts: [chip.label || id, id],
+      href: entityHref('/action-chips', id),
+    });
+  });
+
+  Object.entries(config)
+    .filter(([section, value]) => value !== undefined && !NOT_SETTINGS.has(section))
+    .forEach(([section, value]) => {
+      const location = settingsLocation(section);
+      settingsKeys(value, section, 0).forEach((path) => {
+        const field = path.split('.').pop() ?? section;
+        entries.push({
+          key: `setting:${path}`,
+          kind: 'setting',
+          title: path,
+          detail: location.tab ? `Settings → ${location.title}` : location.title,
+          texts: [path, field.replace(/_/g, ' ')],
+          href: settingsHref(section, path === section && value && typeof value === 'object' ? '' : field),
+        });
+      });
+    });
+
+  return entries;
+}
@@ -0,0 +1,314 @@
+/**
+ * Chat simulator: routing through chips, branches, CTAs and showcase items,
+ * form walks with validation, eligibility gates and show-if rules, post-submission actions,
+ * and stubbed Bedrock replies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  startConversation,
+  simulate,
+  createScriptedStub,
+  validateAnswer,
+  type SimulatorButton,
+  type SimulatorState,
+} from '../chatSimulator';
+import type { FormField, TenantConfig } from '@/types/config';
+
+function makeConfig(): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    chat_title: 'Helper',
+    welcome_message: 'Welcome!',
+    action_chips: {
+      enabled: true,
+      max_display: 3,
+      default_chips: {
+        volunteer: { label: 'Volunteer', value: 'How can I volunteer?', target_branch: 'volunteer_branch' },
+        hours: { label: 'Hours', action: 'show_info', value: 'We are open 9-5.' },
+        lovebox: { label: 'Love Box', action: 'show_showcase', value: '', target_showcase_id: 'lovebox_card' },
+        hidden: { label: 'Beyond max', value: 'x' },
+      },
+    },
+    cta_settings: { fallback_branch: 'fallback', max_ctas_per_response: 3 },
+    cta_definitions: {
+      apply: { label: 'Apply', action: 'start_form', formId: 'volunteer_form', type: 'form_trigger' },
+      learn: { label: 'Learn more', action: 'show_info', prompt: 'Details here.', type: 'info_request' },
+      site: { label: 'Website', action: 'external_link', url: 'https://example.org', type: 'external_link' },
+      contact: { label: 'Contact', action: 'send_query', query: 'How do I contact you?', type: 'bedrock_query' },
+    },
+    conversation_branches: {
+      volunteer_branch: { available_ctas: { primary: 'apply', secondary: ['learn', 'site', 'contact'] } },
+      fallback: { available_ctas: { primary: 'contact', secondary: [] } },
+      done: { available_ctas: { primary: 'site', secondary: [] }, showcase_item_id: 'lovebox_card' },
+    },
+    content_showcase: [
+      {
+        id: 'lovebox_card',
+        type: 'program',
+        enabled: true,
+        name: 'Love Box',
+        tagline: 'Feed a family',
+        description: 'Monthly boxes',
+        keywords: [],
+        available_ctas: { primary: 'apply', secondary: ['learn'] },
+      },
+    ],
+    conversational_forms: {
+      volunteer_form: {
+        enabled: true,
+        form_id: 'volunteer_form',
+        program: 'p',
+        title: 'Volunteer Application',
+        description: '',
+        introduction: 'Great, a few questions.',
+        fields: [
+          {
+            id: 'adult',
+            type: 'select',
+            label: 'Adult',
+            prompt: 'Are you 18 or older?',
+            required: true,
+            options: [
+              { value: 'yes', label: 'Yes' },
+              { value: 'no', label: 'No' },
+            ],
+            eligibility_gate: true,
+            failure_message: 'Sorry, you must be 18.',
+          },
+          { id: 'name', type: 'name', label: 'Name', prompt: 'What is your name?', required: true, subfields: [
+            { id: 'first_name', label: 'First Name', required: true },
+            { id: 'last_name', label: 'Last Name', required: true },
+          ] },
+          { id: 'email', type: 'email', label: 'Email', prompt: 'Your email?', required: true },
+          { id: 'zip', type: 'text', label: 'ZIP', prompt: 'ZIP code?', required: false, validation: { pattern: '^\\d{5}$', message: 'Five digits, please.' } },
+        ],
+        post_submission: {
+          confirmation_message: 'Thanks for applying!',
+          next_steps: ['We will call you'],
+          actions: [
+            { id: 'end', label: 'Done', action: 'end_conversation' },
+            { id: 'more', label: 'Ask more', action: 'continue_conversation' },
+          ],
+          fulfillment: { method: 'webhook', webhook_url: 'https://hooks.example.org' },
+        },
+        on_completion_branch: 'done',
+      },
+    },
+    features: { callout: { enabled: false, auto_dismiss: false } },
+  } as unknown as TenantConfig;
+}
+
+const lastMessage = (state: SimulatorState) => state.messages[state.messages.length - 1];
+const allText = (state: SimulatorState) => state.messages.map((m) => m.text).join('\n');
+const buttonsOf = (state: SimulatorState) => state.messages.flatMap((m) => m.buttons ?? []);
+
+function click(config: TenantConfig, state: SimulatorState, kind: SimulatorButton['kind'], id: string) {
+  const button = [...buttonsOf(state)].reverse().find((b) => b.kind === kind && b.id === id);
+  if (!button) throw new Error(`No ${kind} button ${id}`);
+  return simulate(config, state, { type: 'click', button });
+}
+
+function send(config: TenantConfig, state: SimulatorState, text: string) {
+  return simulate(config, state, { type: 'send', text });
+}
+
+describe('chatSimulator', () => {
+  it('opens with the welcome message and chips, capped at max_display', () => {
+    const state = startConversation(makeConfig());
+    expect(state.messages[0].text).toBe('Welcome!');
+    expect(state.messages[0].buttons?.map((b) => b.id)).toEqual(['volunteer', 'hours', 'lovebox']);
+  });
+
+  it('follows a chip target_branch and renders its CTAs, primary first, capped', () => {
+    const config = makeConfig();
+    const state = click(config, startConversation(config), 'chip', 'volunteer');
+
+    expect(state.messages.some((m) => m.stubbed)).toBe(true);
+    expect(allText(state)).toContain('Routed to branch "volunteer_branch"');
+    const ctas = lastMessage(state).buttons!;
+    expect(ctas.map((b) => b.id)).toEqual(['apply', 'learn', 'site']);
+    expect(ctas[0].primary).toBe(true);
+  });
+
+  it('shows info chips without a Bedrock call and showcase chips as cards with their CTAs', () => {
+    const config = makeConfig();
+    let state = click(config, startConversation(config), 'chip', 'hours');
+    expect(lastMessage(state).text).toBe('We are open 9-5.');
+    expect(state.messages.some((m) => m.stubbed)).toBe(false);
+
+    state = click(config, state, 'chip', 'lovebox');
+    expect(lastMessage(state).showcase?.id).toBe('lovebox_card');
+    expect(lastMessage(state).buttons?.map((b) => b.id)).toEqual(['apply', 'learn']);
+  });
+
+  it('routes free-form messages to the fallback branch with a scripted reply', () => {
+    const config = makeConfig();
+    const bedrockStub = createScriptedStub([{ match: 'donate', reply: 'Donations go here.' }]);
+    const state = simulate(config, startConversation(config), { type: 'send', text: 'Can I DONATE?' }, { bedrockStub });
+
+    expect(state.messages.find((m) => m.stubbed)?.text).toBe('Donations go here.');
+    expect(allText(state)).toContain('Routed to branch "fallback"');
+  });
+
+  it('reports dangling references instead of failing', () => {
+    const config = makeConfig();
+    config.action_chips!.default_chips.volunteer.target_branch = 'missing_branch';
+    const state = click(config, startConversation(config), 'chip', 'volunteer');
+    expect(lastMessage(state).role).toBe('system');
+    expect(lastMessage(state).text).toContain('"missing_branch" does not exist');
+  });
+
+  it('walks a form with validation, composite fields, and post-submission', () => {
+    const config = makeConfig();
+    let state = click(config, startConversation(config), 'chip', 'volunteer');
+    state = click(config, state, 'cta', 'apply');
+    expect(allText(state)).toContain('Great, a few questions.');
+    expect(lastMessage(state).text).toBe('Are you 18 or older?');
+
+    state = click(config, state, 'option', 'yes');
+    expect(lastMessage(state).text).toBe('What is your name?\nFirst Name?');
+    state = send(config, state, 'Jane');
+    expect(lastMessage(state).text).toBe('Last Name?');
+    state = send(config, state, 'Doe');
+
+    state = send(config, state, 'not-an-email');
+    expect(state.messages[state.messages.length - 2].text).toBe('Please enter a valid email address.');
+    state = send(config, state, 'jane@example.org');
+
+    state = send(config, state, '123');
+    expect(state.messages[state.messages.length - 2].text).toBe('Five digits, please.');
+    state = send(config, state, '');
+
+    expect(state.activeForm).toBeNull();
+    expect(allText(state)).toContain('Thanks for applying!\n\nNext steps:\n• We will call you');
+    expect(allText(state)).toContain('Submitted 4 answers — fulfillment via webhook');
+    expect(allText(state)).toContain('Routed to branch "done"');
+
+    state = click(config, state, 'post_action', 'end');
+    expect(state.ended).toBe(true);
+    expect(send(config, state, 'hello')).toBe(state);
+  });
+
+  it('stops the form at a failed eligibility gate', () => {
+    const config = makeConfig();
+    let state = click(config, startConversation(config), 'chip', 'volunteer');
+    state = click(config, state, 'cta', 'apply');
+    state = click(config, state, 'option', 'no');
+
+    expect(state.activeForm).toBeNull();
+    expect(allText(state)).toContain('Sorry, you must be 18.');
+    expect(lastMessage(state).text).toContain('eligibility gate "adult"');
+  });
+
+  it('asks conditional fields only when their show-if rules hold', () => {
+    const config = makeConfig();
+    config.conversational_forms.volunteer_form.fields = [
+      {
+        id: 'state',
+        type: 'select',
+        label: 'State',
+        prompt: 'Which state?',
+        required: true,
+        options: [
+          { value: 'TX', label: 'Texas' },
+          { value: 'OK', label: 'Oklahoma' },
+        ],
+      },
+      {
+        id: 'county',
+        type: 'text',
+        label: 'County',
+        prompt: 'Which county?',
+        required: true,
+        conditions: { match: 'all', rules: [{ field: 'state', operator: 'equals', value: 'TX' }] },
+      },
+      { id: 'email', type: 'email', label: 'Email', prompt: 'Your email?', required: true },
+    ];
+    const start = click(config, click(config, startConversation(config), 'chip', 'volunteer'), 'cta', 'apply');
+
+    const oklahoma = click(config, start, 'option', 'OK');
+    expect(allText(oklahoma)).toContain('Skipped "County" (shown only if state equals TX).');
+    expect(lastMessage(oklahoma).text).toBe('Your email?');
+
+    const texas = click(config, start, 'option', 'TX');
+    expect(lastMessage(texas).text).toBe('Which county?');
+  });
+
+  it('skips file upload fields while uploads are turned off', () => {
+    const config = makeConfig();
+    config.conversational_forms.volunteer_form.fields = [
+      { id: 'resume', type: 'file_upload', label: 'Resume', prompt: 'Upload your resume', required: true },
+      { id: 'email', type: 'email', label: 'Email', prompt: 'Your email?', required: true },
+    ];
+    const open = (uploads: boolean) => {
+      const tenant = { ...config, features: { ...config.features, uploads } };
+      return click(tenant, click(tenant, startConversation(tenant), 'chip', 'volunteer'), 'cta', 'apply');
+    };
+
+    const off = open(false);
+    expect(allText(off)).toContain('Skipped "Resume" (uploads are turned off for this tenant).');
+    expect(lastMessage(off).text).toBe('Your email?');
+
+    expect(lastMessage(open(true)).text).toContain('Upload your resume');
+  });
+
+  it('does not start disabled forms', () => {
+    const config = makeConfig();
+    config.conversational_forms.volunteer_form.enabled = false;
+    let state = click(config, startConversation(config), 'chip', 'volunteer');
+    state = click(config, state, 'cta', 'apply');
+    expect(state.activeForm).toBeNull();
+    expect(lastMessage(state).text).toContain('is disabled');
+  });
+});
+
+describe('validateAnswer', () => {
+  it('enforces required, type, and pattern rules', () => {
+    expect(validateAnswer({ id: 'a', label: 'A', required: true }, ' ')).toBe('This field is required.');
+    expect(validateAnswer({ id: 'a', label: 'A', required: false }, '')).toBeNull();
+    expect(
+      validateAnswer({ id: 'p', type: 'phone', label: 'P', prompt: '', required: true }, '555-1234')
+    ).toBe('Please enter a valid phone number.');
+    expect(
+      validateAnswer({ id: 'p', type: 'phone', label: 'P', prompt: '', required: true }, '(555) 123-4567')
+    ).toBeNull();
+    expect(
+      validateAnswer({ id: 'n', type: 'number', label: 'N', prompt: '', required: true }, 'ten')
+    ).toBe('Please enter a number.');
+  });
+
+  it('checks multi-select, consent, rating, time, date range and file answers', () => {
+    const field = (type: FormField['type'], extra: Partial<FormField> = {}): FormField => ({
+      id: 'f',
+      type,
+      label: 'F',
+      prompt: '',
+      required: true,
+      ...extra,
+    });
+    const days = field('multi_select', {
+      options: [
+        { value: 'sat', label: 'Saturday' },
+        { value: 'sun', label: 'Sunday' },
+      ],
+      max_selections: 1,
+    });
+
+    expect(validateAnswer(days, 'Saturday')).toBeNull();
+    expect(validateAnswer(days, 'Saturday, Sunday')).toBe('Please choose no more than 1.');
+    expect(validateAnswer(days, 'Monday')).toContain('"Monday" is not a choice');
+    expect(validateAnswer(field('consent'), 'I do not agree')).toBe('You need to agree to continue.');
+    expect(validateAnswer(field('consent', { required: false }), 'I do not agree')).toBeNull();
+    expect(validateAnswer(field('rating'), '6')).toBe('Please choose a rating from 1 to 5.');
+    expect(validateAnswer(field('time'), '9:30 am')).toBeNull();
+    expect(validateAnswer(field('time'), '25:00')).toContain('valid time');
+    expect(validateAnswer(field('date_range'), '2026-06-14 to 2026-06-01')).toBe(
+      'The end date must be on or after the start date.'
+    );
+    expect(validateAnswer(field('file_upload', { accepted_types: ['application/pdf'] }), 'resume.pdf')).toBeNull();
+    expect(validateAnswer(field('file_upload', { accepted_types: ['image/*'] }), 'resume.pdf')).toBe(
+      'Please upload a file of type: image/*.'
+    );
+  });
+});
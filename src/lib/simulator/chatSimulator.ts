@@ -0,0 +1,659 @@
+/**
+ * Chat Simulator
+ * Walks a conversation through the tenant config the way the widget would:
+ * welcome, action chips, branch CTAs, showcase cards, and conversational
+ * forms — with scripted stubs standing in for Bedrock replies
+ *
+ * Pure state transitions: `startConversation` builds the opening state and
+ * `simulate` returns the next state for a click or a typed message. Every
+ * lookup reads the config passed in, so edits show up on the next turn.
+ */
+
+import type {
+  ActionChip,
+  ConversationalForm,
+  ConversationBranch,
+  FormField,
+  FormFieldOption,
+  FormSubField,
+  ShowcaseItem,
+  TenantConfig,
+} from '@/types/config';
+import { subfieldRef } from '@/lib/compositeFieldTemplates';
+import { describeConditions, evaluateConditions } from '@/lib/formConditions';
+import {
+  acceptsMimeType,
+  CONSENT_AGREE,
+  CONSENT_DECLINE,
+  mimeTypeForFileName,
+  parseAgreement,
+  RATING_MAX,
+  splitSelections,
+} from '@/lib/formFieldTypes';
+
+export type SimulatorRole = 'bot' | 'user' | 'system';
+
+export type SimulatorButtonKind = 'chip' | 'cta' | 'option' | 'post_action' | 'showcase_action';
+
+export interface SimulatorButton {
+  kind: SimulatorButtonKind;
+  /** Chip id, CTA id, option value, post-submission action id, or showcase item id */
+  id: string;
+  label: string;
+  /** Branch/showcase primary CTA — rendered prominently */
+  primary?: boolean;
+}
+
+export interface SimulatorMessage {
+  id: number;
+  role: SimulatorRole;
+  text: string;
+  buttons?: SimulatorButton[];
+  /** Showcase card rendered with the message */
+  showcase?: ShowcaseItem;
+  /** Text came from a Bedrock stub, not from the config */
+  stubbed?: boolean;
+}
+
+/** Progress through a conversational form */
+export interface ActiveForm {
+  formId: string;
+  fieldIndex: number;
+  /** Position within a composite (name/address) field's subfields */
+  subfieldIndex: number;
+  answers: Record<string, string>;
+  /** Branch to show after submission (CTA's override, else the form's) */
+  completionBranch?: string;
+}
+
+export interface SimulatorState {
+  messages: SimulatorMessage[];
+  activeForm: ActiveForm | null;
+  ended: boolean;
+  nextId: number;
+}
+
+export type SimulatorEvent =
+  | { type: 'click'; button: SimulatorButton }
+  | { type: 'send'; text: string };
+
+/** Stand-in for a Bedrock answer to a free-form query */
+export type BedrockStub = (query: string, config: TenantConfig) => string;
+
+/** A scripted reply: used when the query contains `match` (case-insensitive) */
+export interface ScriptedReply {
+  match: string;
+  reply: string;
+}
+
+export interface SimulateOptions {
+  bedrockStub?: BedrockStub;
+}
+
+const DEFAULT_MAX_CTAS = 4;
+
+export const defaultBedrockStub: BedrockStub = (query) =>
+  `(Simulated AI reply) The assistant would answer "${query}" from the knowledge base here.`;
+
+/**
+ * Bedrock stub that answers from a script, falling back to the default stub
+ */
+export function createScriptedStub(script: ScriptedReply[]): BedrockStub {
+  return (query, config) => {
+    const normalized = query.toLowerCase();
+    const rule = script.find((r) => r.match.trim() && normalized.includes(r.match.trim().toLowerCase()));
+    return rule ? rule.reply : defaultBedrockStub(query, config);
+  };
+}
+
+// ============================================================================
+// STATE HELPERS
+// ============================================================================
+
+function push(state: SimulatorState, message: Omit<SimulatorMessage, 'id'>): SimulatorState {
+  return {
+    ...state,
+    messages: [...state.messages, { ...message, id: state.nextId }],
+    nextId: state.nextId + 1,
+  };
+}
+
+function note(state: SimulatorState, text: string): SimulatorState {
+  return push(state, { role: 'system', text });
+}
+
+function welcomeChips(config: TenantConfig): SimulatorButton[] {
+  const chips = config.action_chips;
+  if (!chips?.enabled || chips.show_on_welcome === false) return [];
+  const entries = Object.entries(chips.default_chips ?? {});
+  const limited = chips.max_display ? entries.slice(0, chips.max_display) : entries;
+  return limited.map(([id, chip]) => ({ kind: 'chip', id, label: chip.label }));
+}
+
+function ctaButtons(config: TenantConfig, primary: string | undefined, secondary: string[] = []): SimulatorButton[] {
+  const max = config.cta_settings?.max_ctas_per_response ?? DEFAULT_MAX_CTAS;
+  const ids = [...(primary ? [primary] : []), ...secondary].slice(0, max);
+  return ids
+    .filter((id) => config.cta_definitions?.[id])
+    .map((id) => ({
+      kind: 'cta' as const,
+      id,
+      label: config.cta_definitions[id].label || config.cta_definitions[id].text || id,
+      primary: id === primary,
+    }));
+}
+
+function showcaseButtons(config: TenantConfig, item: ShowcaseItem): SimulatorButton[] {
+  if (item.available_ctas) {
+    return ctaButtons(config, item.available_ctas.primary, item.available_ctas.secondary);
+  }
+  if (item.action) {
+    return [{ kind: 'showcase_action', id: item.id, label: item.action.label, primary: true }];
+  }
+  return [];
+}
+
+function findShowcase(config: TenantConfig, id: string | undefined): ShowcaseItem | undefined {
+  return id ? config.content_showcase?.find((item) => item.id === id) : undefined;
+}
+
+/**
+ * Render a showcase item as a card message, or a note when it's missing
+ */
+function showShowcase(config: TenantConfig, state: SimulatorState, showcaseId: string): SimulatorState {
+  const item = findShowcase(config, showcaseId);
+  if (!item) return note(state, `Showcase item "${showcaseId}" does not exist.`);
+  if (!item.enabled) return note(state, `Showcase item "${item.name}" is disabled and would not be shown.`);
+  return push(state, { role: 'bot', text: item.tagline || item.name, showcase: item, buttons: showcaseButtons(config, item) });
+}
+
+/**
+ * Render a branch: its showcase card (if any) and its CTAs
+ */
+function showBranch(config: TenantConfig, state: SimulatorState, branchId: string): SimulatorState {
+  const branch: ConversationBranch | undefined = config.conversation_branches?.[branchId];
+  if (!branch) return note(state, `Branch "${branchId}" does not exist.`);
+
+  let next = note(state, `Routed to branch "${branchId}".`);
+  if (branch.showcase_item_id) {
+    next = showShowcase(config, next, branch.showcase_item_id);
+  }
+  const buttons = ctaButtons(config, branch.available_ctas?.primary, branch.available_ctas?.secondary);
+  if (buttons.length > 0) {
+    next = push(next, { role: 'bot', text: 'Here are some options:', buttons });
+  }
+  return next;
+}
+
+/**
+ * Free-form query: stubbed Bedrock reply, then explicit routing or the
+ * fallback branch
+ */
+function answerQuery(
+  config: TenantConfig,
+  state: SimulatorState,
+  query: string,
+  targetBranch: string | null | undefined,
+  options: SimulateOptions
+): SimulatorState {
+  const stub = options.bedrockStub ?? defaultBedrockStub;
+  let next = push(state, { role: 'bot', text: stub(query, config), stubbed: true });
+  const branchId = targetBranch || config.cta_settings?.fallback_branch;
+  if (branchId) next = showBranch(config, next, branchId);
+  return next;
+}
+
+// ============================================================================
+// FORMS
+// ============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+/** "Yes/No" style gates disqualify on a "No" answer */
+const DISQUALIFYING_ANSWER = /^no\b/i;
+
+function currentField(form: ConversationalForm, active: ActiveForm): FormField | undefined {
+  return form.fields?.[active.fieldIndex];
+}
+
+function currentSubfield(field: FormField, active: ActiveForm): FormSubField | undefined {
+  return field.subfields?.length ? field.subfields[active.subfieldIndex] : undefined;
+}
+
+function promptFor(state: SimulatorState, field: FormField, active: ActiveForm): SimulatorState {
+  const subfield = currentSubfield(field, active);
+  if (subfield) {
+    const text = active.subfieldIndex === 0 ? `${field.prompt}\n${subfield.label}?` : `${subfield.label}?`;
+    return push(state, { role: 'bot', text });
+  }
+  const buttons = answerButtons(field);
+  const lines = [field.prompt];
+  if (field.type === 'consent') {
+    if (field.policy_text) lines.push(field.policy_text);
+    if (field.policy_url) lines.push(`Read the policy: ${field.policy_url}`);
+  }
+  const hint = field.hint || typeHint(field);
+  if (hint) lines.push(`(${hint})`);
+  return push(state, { role: 'bot', text: lines.join('\n'), buttons });
+}
+
+/** Answer buttons the widget shows for the field's type */
+function answerButtons(field: FormField): SimulatorButton[] | undefined {
+  const button = (id: string, label: string): SimulatorButton => ({ kind: 'option', id, label });
+  switch (field.type) {
+    case 'select':
+    case 'multi_select':
+      return (field.options ?? []).map((option) => button(option.value, option.label));
+    case 'checkbox':
+      return [button('yes', 'Yes'), button('no', 'No')];
+    case 'consent':
+      return [button('agree', CONSENT_AGREE), button('decline', CONSENT_DECLINE)];
+    case 'rating':
+      return Array.from({ length: RATING_MAX }, (_, i) => button(String(i + 1), String(i + 1)));
+    default:
+      return undefined;
+  }
+}
+
+/** How to type an answer the widget would collect with a picker */
+function typeHint(field: FormField): string | undefined {
+  switch (field.type) {
+    case 'multi_select':
+      return field.max_selections
+        ? `Choose up to ${field.max_selections}, separated by commas`
+        : 'Choose one or more, separated by commas';
+    case 'file_upload': {
+      const types = field.accepted_types?.filter((type) => type.trim());
+      const limits = [
+        types?.length ? `accepts ${types.join(', ')}` : '',
+        field.max_file_size_mb ? `up to ${field.max_file_size_mb} MB` : '',
+      ].filter(Boolean);
+      return `Type a file name${limits.length > 0 ? `; ${limits.join(', ')}` : ''}`;
+    }
+    case 'date_range':
+      return 'e.g. 2026-06-01 to 2026-06-14';
+    case 'time':
+      return 'e.g. 9:30 am';
+    default:
+      return undefined;
+  }
+}
+
+function ageFrom(value: string): number | null {
+  const born = new Date(value);
+  if (Number.isNaN(born.getTime())) return null;
+  const now = new Date();
+  let age = now.getFullYear() - born.getFullYear();
+  const beforeBirthday =
+    now.getMonth() < born.getMonth() || (now.getMonth() === born.getMonth() && now.getDate() < born.getDate());
+  if (beforeBirthday) age--;
+  return age;
+}
+
+/**
+ * Check one answer against the field's rules. Returns an error message, or
+ * null when the answer is accepted.
+ */
+export function validateAnswer(field: FormField | FormSubField, answer: string): string | null {
+  const value = answer.trim();
+  if (!value) return field.required ? 'This field is required.' : null;
+
+  if (field.validation?.pattern) {
+    try {
+      if (!new RegExp(field.validation.pattern).test(value)) {
+        return field.validation.message || "That doesn't match the expected format.";
+      }
+    } catch {
+      // An invalid pattern is reported by config validation, not the visitor
+    }
+  }
+
+  const type = field.type;
+  if (type === 'email' && !EMAIL_PATTERN.test(value)) return 'Please enter a valid email address.';
+  if (type === 'phone' && value.replace(/\D/g, '').length < 10) return 'Please enter a valid phone number.';
+  if (type === 'number' && Number.isNaN(Number(value))) return 'Please enter a number.';
+  if (type === 'date' && Number.isNaN(new Date(value).getTime())) return 'Please enter a valid date.';
+  if (type === 'select' && field.options?.length) {
+    if (!matchesOption(field.options, value)) {
+      return `Please choose one of: ${field.options.map((option) => option.label).join(', ')}.`;
+    }
+  }
+  // Subfields are text or select, so only fields reach the type-specific checks
+  return validateTypedAnswer(field as FormField, value);
+}
+
+function matchesOption(options: FormFieldOption[], value: string): boolean {
+  return options.some(
+    (option) => option.value.toLowerCase() === value.toLowerCase() || option.label.toLowerCase() === value.toLowerCase()
+  );
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})\s*(am|pm)?$/i;
+const RANGE_SEPARATOR = /\s+(?:to|until|through|-|–|—)\s+/i;
+
+/**
+ * Answer checks for the multi-select, checkbox, consent, rating, time, date
+ * range and file upload types
+ */
+function validateTypedAnswer(field: FormField, value: string): string | null {
+  switch (field.type) {
+    case 'multi_select': {
+      const picked = splitSelections(value);
+      const options = field.options ?? [];
+      const unknown = picked.find((choice) => options.length > 0 && !matchesOption(options, choice));
+      if (unknown) return `"${unknown}" is not a choice. Choose from: ${options.map((option) => option.label).join(', ')}.`;
+      if (field.min_selections && picked.length < field.min_selections) {
+        return `Please choose at least ${field.min_selections}.`;
+      }
+      if (field.max_selections && picked.length > field.max_selections) {
+        return `Please choose no more than ${field.max_selections}.`;
+      }
+      return null;
+    }
+    case 'checkbox':
+      return parseAgreement(value) === null ? 'Please answer Yes or No.' : null;
+    case 'consent': {
+      const agreed = parseAgreement(value);
+      if (agreed === null) return `Please answer "${CONSENT_AGREE}" or "${CONSENT_DECLINE}".`;
+      return !agreed && field.required ? 'You need to agree to continue.' : null;
+    }
+    case 'rating': {
+      const rating = Number(value);
+      return Number.isInteger(rating) && rating >= 1 && rating <= RATING_MAX
+        ? null
+        : `Please choose a rating from 1 to ${RATING_MAX}.`;
+    }
+    case 'time': {
+      const match = TIME_PATTERN.exec(value);
+      const hour = match ? Number(match[1]) : NaN;
+      const minute = match ? Number(match[2]) : NaN;
+      const maxHour = match?.[3] ? 12 : 23;
+      const valid = match && hour <= maxHour && (!match[3] || hour >= 1) && minute <= 59;
+      return valid ? null : 'Please enter a valid time, e.g. 9:30 am or 14:00.';
+    }
+    case 'date_range': {
+      const parts = value.split(RANGE_SEPARATOR);
+      const [start, end] = parts.map((part) => new Date(part.trim()));
+      if (parts.length !== 2 || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+        return 'Please enter a start and end date, e.g. 2026-06-01 to 2026-06-14.';
+      }
+      return end < start ? 'The end date must be on or after the start date.' : null;
+    }
+    case 'file_upload': {
+      const types = field.accepted_types?.filter((type) => type.trim()) ?? [];
+      if (types.length === 0) return null;
+      const mimeType = mimeTypeForFileName(value);
+      return mimeType && acceptsMimeType(types, mimeType) ? null : `Please upload a file of type: ${types.join(', ')}.`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether an accepted answer fails the field's eligibility gate
+ */
+function failsGate(field: FormField, answer: string): boolean {
+  if (!field.eligibility_gate) return false;
+  if (field.type === 'select') {
+    const option = field.options?.find(
+      (o) => o.value.toLowerCase() === answer.toLowerCase() || o.label.toLowerCase() === answer.toLowerCase()
+    );
+    return DISQUALIFYING_ANSWER.test(option?.value ?? answer) || DISQUALIFYING_ANSWER.test(option?.label ?? '');
+  }
+  if (field.type === 'date' && field.minimum_age) {
+    const age = ageFrom(answer);
+    return age !== null && age < field.minimum_age;
+  }
+  return false;
+}
+
+/**
+ * Move to the first field from `from` on that the widget would ask, noting
+ * each field skipped: show-if rules that don't hold, and file uploads while
+ * the tenant has uploads turned off. `fieldIndex` is past the last field when
+ * none is left.
+ */
+function advanceToVisible(
+  config: TenantConfig,
+  state: SimulatorState,
+  form: ConversationalForm,
+  active: ActiveForm,
+  from: number
+): { state: SimulatorState; active: ActiveForm } {
+  let next = state;
+  let index = from;
+  for (; index < form.fields.length; index++) {
+    const field = form.fields[index];
+    if (field.type === 'file_upload' && !config.features?.uploads) {
+      next = note(next, `Skipped "${field.label}" (uploads are turned off for this tenant).`);
+    } else if (!evaluateConditions(field.conditions, active.answers, form.fields)) {
+      next = note(next, `Skipped "${field.label}" (shown only if ${describeConditions(field.conditions)}).`);
+    } else {
+      break;
+    }
+  }
+  return { state: next, active: { ...active, fieldIndex: index, subfieldIndex: 0 } };
+}
+
+function startForm(
+  config: TenantConfig,
+  state: SimulatorState,
+  formId: string | undefined,
+  completionBranch?: string
+): SimulatorState {
+  const form = formId ? config.conversational_forms?.[formId] : undefined;
+  if (!formId || !form) return note(state, `Form "${formId ?? ''}" does not exist.`);
+  if (form.enabled === false) return note(state, `Form "${form.title}" is disabled and would not start.`);
+  if (!form.fields?.length) return note(state, `Form "${form.title}" has no fields.`);
+
+  let next = note(state, `Started form "${form.title}".`);
+  if (form.introduction) next = push(next, { role: 'bot', text: form.introduction });
+  const first = advanceToVisible(
+    config,
+    next,
+    form,
+    { formId, fieldIndex: 0, subfieldIndex: 0, answers: {}, completionBranch: completionBranch || form.on_completion_branch },
+    0
+  );
+  const field = currentField(form, first.active);
+  if (!field) return completeForm(config, first.state, form, first.active);
+  next = { ...first.state, activeForm: first.active };
+  return promptFor(next, field, first.active);
+}
+
+function completeForm(config: TenantConfig, state: SimulatorState, form: ConversationalForm, active: ActiveForm) {
+  let next: SimulatorState = { ...state, activeForm: null };
+  const post = form.post_submission;
+  const nextSteps = post?.next_steps?.filter(Boolean) ?? [];
+  const text = [
+    post?.confirmation_message || 'Thanks! Your submission has been received.',
+    ...(nextSteps.length > 0 ? ['', 'Next steps:', ...nextSteps.map((step) => `• ${step}`)] : []),
+  ].join('\n');
+  const buttons = (post?.actions ?? []).map((action) => ({ kind: 'post_action' as const, id: action.id, label: action.label }));
+  next = push(next, { role: 'bot', text, buttons: buttons.length > 0 ? buttons : undefined });
+
+  const answered = Object.keys(active.answers).length;
+  const method = post?.fulfillment?.method;
+  next = note(next, `Submitted ${answered} ${answered === 1 ? 'answer' : 'answers'}${method ? ` — fulfillment via ${method}` : ''} (not sent in preview).`);
+  if (post?.book_appointment) next = note(next, 'The visitor would now be offered to book an appointment.');
+  if (active.completionBranch) next = showBranch(config, next, active.completionBranch);
+  return next;
+}
+
+function answerForm(config: TenantConfig, state: SimulatorState, text: string): SimulatorState {
+  const active = state.activeForm!;
+  const form = config.conversational_forms?.[active.formId];
+  const field = form ? currentField(form, active) : undefined;
+  let next = push(state, { role: 'user', text: text.trim() || '(skipped)' });
+  if (!form || !field) {
+    return note({ ...next, activeForm: null }, 'The form changed while it was in progress and was abandoned.');
+  }
+
+  const subfield = currentSubfield(field, active);
+  const error = validateAnswer(subfield ?? field, text);
+  if (error) {
+    next = push(next, { role: 'bot', text: error });
+    return promptFor(next, field, active);
+  }
+
+  if (!subfield && failsGate(field, text.trim())) {
+    next = push(next, { role: 'bot', text: field.failure_message || 'Sorry, you are not eligible for this program.' });
+    return note({ ...next, activeForm: null }, `Form "${form.title}" stopped at eligibility gate "${field.id}".`);
+  }
+
+  const answerKey = subfield ? subfieldRef(field, subfield) : field.id;
+  // Skipped optional fields are left out of the submission
+  let advanced: ActiveForm = text.trim()
+    ? { ...active, answers: { ...active.answers, [answerKey]: text.trim() } }
+    : active;
+  if (subfield && active.subfieldIndex + 1 < (field.subfields?.length ?? 0)) {
+    advanced = { ...advanced, subfieldIndex: active.subfieldIndex + 1 };
+  } else {
+    ({ state: next, active: advanced } = advanceToVisible(config, next, form, advanced, active.fieldIndex + 1));
+  }
+
+  const nextField = currentField(form, advanced);
+  if (!nextField) return completeForm(config, next, form, advanced);
+  next = { ...next, activeForm: advanced };
+  return promptFor(next, nextField, advanced);
+}
+
+// ============================================================================
+// CLICKS
+// ============================================================================
+
+function clickChip(config: TenantConfig, state: SimulatorState, chipId: string, options: SimulateOptions) {
+  const chip: ActionChip | undefined = config.action_chips?.default_chips?.[chipId];
+  if (!chip) return note(state, `Action chip "${chipId}" no longer exists.`);
+  let next = push(state, { role: 'user', text: chip.label });
+
+  switch (chip.action) {
+    case 'show_info':
+      next = push(next, { role: 'bot', text: chip.value });
+      return chip.target_branch ? showBranch(config, next, chip.target_branch) : next;
+    case 'show_showcase':
+      return chip.target_showcase_id
+        ? showShowcase(config, next, chip.target_showcase_id)
+        : note(next, `Action chip "${chip.label}" has no showcase item.`);
+    default:
+      return answerQuery(config, next, chip.value || chip.label, chip.target_branch, options);
+  }
+}
+
+function clickCta(config: TenantConfig, state: SimulatorState, ctaId: string, options: SimulateOptions) {
+  const cta = config.cta_definitions?.[ctaId];
+  if (!cta) return note(state, `CTA "${ctaId}" no longer exists.`);
+  let next = push(state, { role: 'user', text: cta.label || cta.text || ctaId });
+
+  switch (cta.action) {
+    case 'start_form':
+      return startForm(config, next, cta.formId, cta.on_completion_branch);
+    case 'external_link':
+      next = note(next, `Opens ${cta.url || '(no URL set)'} in a new tab.`);
+      return cta.target_branch ? showBranch(config, next, cta.target_branch) : next;
+    case 'send_query':
+      return answerQuery(config, next, cta.query || cta.label, cta.target_branch, options);
+    case 'show_info':
+      next = push(next, { role: 'bot', text: cta.prompt || '' });
+      return cta.target_branch ? showBranch(config, next, cta.target_branch) : next;
+    case 'start_scheduling':
+    case 'resume_scheduling':
+      return note(next, 'The scheduling flow would start here (not simulated).');
+    default:
+      return cta.target_branch ? showBranch(config, next, cta.target_branch) : next;
+  }
+}
+
+function clickPostAction(config: TenantConfig, state: SimulatorState, actionId: string) {
+  const action = Object.values(config.conversational_forms ?? {})
+    .flatMap((form) => form.post_submission?.actions ?? [])
+    .find((a) => a.id === actionId);
+  if (!action) return note(state, `Action "${actionId}" no longer exists.`);
+  const next = push(state, { role: 'user', text: action.label });
+
+  switch (action.action) {
+    case 'end_conversation':
+      return { ...note(next, 'Conversation ended.'), ended: true };
+    case 'start_form':
+      return startForm(config, next, action.formId);
+    case 'external_link':
+      return note(next, `Opens ${action.url || '(no URL set)'} in a new tab.`);
+    default: {
+      const buttons = welcomeChips(config);
+      return push(next, { role: 'bot', text: 'What else can I help you with?', buttons: buttons.length > 0 ? buttons : undefined });
+    }
+  }
+}
+
+function clickShowcaseAction(config: TenantConfig, state: SimulatorState, itemId: string, options: SimulateOptions) {
+  const action = findShowcase(config, itemId)?.action;
+  if (!action) return note(state, `Showcase item "${itemId}" has no action.`);
+  switch (action.type) {
+    case 'cta':
+      return action.cta_id ? clickCta(config, state, action.cta_id, options) : note(state, 'Showcase action has no CTA.');
+    case 'url':
+      return note(push(state, { role: 'user', text: action.label }), `Opens ${action.url || '(no URL set)'}.`);
+    default:
+      return answerQuery(config, push(state, { role: 'user', text: action.label }), action.prompt || action.label, null, options);
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Opening state: the welcome message with the welcome action chips
+ */
+export function startConversation(config: TenantConfig): SimulatorState {
+  const buttons = welcomeChips(config);
+  return push(
+    { messages: [], activeForm: null, ended: false, nextId: 1 },
+    {
+      role: 'bot',
+      text: config.welcome_message || `Hi! Welcome to ${config.chat_title || 'our chat'}.`,
+      buttons: buttons.length > 0 ? buttons : undefined,
+    }
+  );
+}
+
+/**
+ * Next state after a click or a typed message
+ *
+ * While a form is in progress, typed messages and option clicks answer the
+ * current field; other clicks behave as in the widget.
+ *
+ * @example
+ * let state = startConversation(config);
+ * state = simulate(config, state, { type: 'click', button: state.messages[0].buttons![0] });
+ * state = simulate(config, state, { type: 'send', text: 'jane@example.org' });
+ */
+export function simulate(
+  config: TenantConfig,
+  state: SimulatorState,
+  event: SimulatorEvent,
+  options: SimulateOptions = {}
+): SimulatorState {
+  if (state.ended) return state;
+
+  if (event.type === 'send') {
+    const text = event.text.trim();
+    if (state.activeForm) return answerForm(config, state, event.text);
+    if (!text) return state;
+    return answerQuery(config, push(state, { role: 'user', text }), text, null, options);
+  }
+
+  const { button } = event;
+  switch (button.kind) {
+    case 'option':
+      return state.activeForm ? answerForm(config, state, button.label) : state;
+    case 'chip':
+      return clickChip(config, state, button.id, options);
+    case 'cta':
+      return clickCta(config, state, button.id, options);
+    case 'post_action':
+      return clickPostAction(config, state, button.id);
+    case 'showcase_action':
+      return clickShowcaseAction(config, state, button.id, options);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Conversation simulation against the in-memory config
+ */
+
+export {
+  startConversation,
+  simulate,
+  validateAnswer,
+  defaultBedrockStub,
+  createScriptedStub,
+} from './chatSimulator';
+export type {
+  SimulatorRole,
+  SimulatorButtonKind,
+  SimulatorButton,
+  SimulatorMessage,
+  ActiveForm,
+  SimulatorState,
+  SimulatorEvent,
+  BedrockStub,
+  ScriptedReply,
+  SimulateOptions,
+} from './chatSimulator';
@@ -0,0 +1,161 @@
+/**
+ * Tenant templates: ID rewriting, stripping tenant-specific data, parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TenantConfig } from '@/types/config';
+import { validateTenantConfig } from '@/lib/cli';
+import { applyTemplate, parseTemplateJson, templateFromConfig } from '..';
+
+const source = (): TenantConfig =>
+  ({
+    tenant_id: 'ACME01',
+    tenant_hash: 'ac_hash',
+    chat_title: 'Acme',
+    channels: { messenger: { enabled: true } },
+    branding: { primary_color: '#111111', font_family: 'Inter' },
+    programs: { acme01_mentors: { program_id: 'acme01_mentors', program_name: 'Mentors' } },
+    conversational_forms: {
+      acme01_apply: {
+        enabled: true,
+        form_id: 'acme01_apply',
+        program: 'acme01_mentors',
+        title: 'Apply',
+        description: '',
+        fields: [],
+        on_completion_branch: 'ACME01_thanks',
+        notifications: { email: { enabled: true, recipients: ['staff@acme.org'] } },
+        post_submission: { confirmation_message: 'Thanks', fulfillment: { method: 'email', recipients: ['x@acme.org'] } },
+      },
+    },
+    cta_definitions: {
+      apply_cta: { label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'acme01_apply' },
+    },
+    conversation_branches: {
+      ACME01_thanks: { available_ctas: { primary: 'apply_cta', secondary: [] }, showcase_item_id: 'acme01_summer' },
+    },
+    content_showcase: [
+      {
+        id: 'acme01_summer',
+        type: 'campaign',
+        enabled: true,
+        name: 'Summer drive',
+        tagline: 'Give a little',
+        description: 'Our summer campaign',
+        keywords: ['summer'],
+        program_id: 'acme01_mentors',
+        available_ctas: { primary: 'apply_cta', secondary: [] },
+      },
+    ],
+    action_chips: {
+      enabled: true,
+      max_display: 3,
+      show_on_welcome: true,
+      default_chips: {
+        mentor: { label: 'Mentor', value: 'm', target_branch: 'ACME01_thanks' },
+        summer: { label: 'Summer', value: 's', action: 'show_showcase', target_showcase_id: 'acme01_summer' },
+      },
+    },
+    cta_settings: { fallback_branch: 'ACME01_thanks' },
+  }) as unknown as TenantConfig;
+
+const target = (): TenantConfig =>
+  ({
+    tenant_id: 'NEW123',
+    tenant_hash: 'new_hash',
+    chat_title: 'New',
+    branding: { primary_color: '#222222' },
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+  }) as unknown as TenantConfig;
+
+describe('templateFromConfig', () => {
+  it('keeps only template sections and tokenizes the tenant ID in entity IDs', () => {
+    const template = templateFromConfig(source(), { name: 'Starter' });
+
+    expect(Object.keys(template.content).sort()).toEqual(
+      ['action_chips', 'branding', 'content_showcase', 'conversation_branches', 'conversational_forms', 'cta_definitions', 'cta_settings', 'programs'].sort()
+    );
+    expect(Object.keys(template.content.programs!)).toEqual(['{tenant}_mentors']);
+    expect(Object.keys(template.content.conversation_branches!)).toEqual(['{TENANT}_thanks']);
+    expect(template.content.cta_definitions!.apply_cta.formId).toBe('{tenant}_apply');
+    expect(template.sourceTenantId).toBe('ACME01');
+    expect(JSON.stringify(template)).not.toContain('ac_hash');
+    expect(JSON.stringify(template)).not.toContain('messenger');
+  });
+
+  it('drops form notifications and fulfillment recipients', () => {
+    const form = templateFromConfig(source(), { name: 'Starter' }).content.conversational_forms!['{tenant}_apply'];
+
+    expect(form.notifications).toBeUndefined();
+    expect(form.post_submission).toEqual({ confirmation_message: 'Thanks' });
+  });
+});
+
+describe('applyTemplate', () => {
+  it('rewrites IDs and references for the new tenant', () => {
+    const config = applyTemplate(templateFromConfig(source(), { name: 'Starter' }), target());
+
+    expect(config.tenant_id).toBe('NEW123');
+    expect(config.tenant_hash).toBe('new_hash');
+    expect(Object.keys(config.programs!)).toEqual(['new123_mentors']);
+    const form = config.conversational_forms.new123_apply;
+    expect(form.form_id).toBe('new123_apply');
+    expect(form.program).toBe('new123_mentors');
+    expect(form.on_completion_branch).toBe('NEW123_thanks');
+    expect(config.cta_definitions.apply_cta.formId).toBe('new123_apply');
+    expect(config.conversation_branches.NEW123_thanks.available_ctas.primary).toBe('apply_cta');
+    expect(config.action_chips!.default_chips.mentor.target_branch).toBe('NEW123_thanks');
+    expect(config.cta_settings!.fallback_branch).toBe('NEW123_thanks');
+  });
+
+  it('carries showcase items over with their references, so the clone validates', () => {
+    const config = applyTemplate(templateFromConfig(source(), { name: 'Starter' }), target());
+    const showcaseErrors = (c: TenantConfig) =>
+      validateTenantConfig(c).errors.filter((e) => /showcase/i.test(e.message));
+
+    expect(config.content_showcase!.map((item) => item.id)).toEqual(['new123_summer']);
+    expect(config.content_showcase![0].program_id).toBe('new123_mentors');
+    expect(config.content_showcase![0].available_ctas!.primary).toBe('apply_cta');
+    expect(config.conversation_branches.NEW123_thanks.showcase_item_id).toBe('new123_summer');
+    expect(config.action_chips!.default_chips.summer.target_showcase_id).toBe('new123_summer');
+    expect(showcaseErrors(source())).toEqual([]);
+    expect(showcaseErrors(config)).toEqual([]);
+  });
+
+  it("keeps the new tenant's branding over the template's", () => {
+    const config = applyTemplate(templateFromConfig(source(), { name: 'Starter' }), target());
+
+    expect(config.branding.primary_color).toBe('#222222');
+    expect(config.branding.font_family).toBe('Inter');
+  });
+});
+
+describe('parseTemplateJson', () => {
+  it('accepts bare sections and reports keys it ignores', () => {
+    const { template, ignored } = parseTemplateJson(
+      JSON.stringify({ name: 'Food bank', programs: { pantry: { program_id: 'pantry', program_name: 'Pantry' } }, channels: {} })
+    );
+
+    expect(template.name).toBe('Food bank');
+    expect(Object.keys(template.content)).toEqual(['programs']);
+    expect(ignored).toEqual(['channels']);
+  });
+
+  it('accepts a wrapped template', () => {
+    const { template } = parseTemplateJson(
+      JSON.stringify({ id: 'tpl_x', name: 'Wrapped', content: { branding: { primary_color: '#000000' } } })
+    );
+
+    expect(template.id).toBe('tpl_x');
+    expect(template.content.branding).toEqual({ primary_color: '#000000' });
+  });
+
+  it('rejects invalid JSON, wrong shapes and empty templates', () => {
+    expect(() => parseTemplateJson('{')).toThrow('not valid JSON');
+    expect(() => parseTemplateJson('[]')).toThrow('must be a JSON object');
+    expect(() => parseTemplateJson('{"programs": []}')).toThrow('"programs" must be an object');
+    expect(() => parseTemplateJson('{"name": "x"}')).toThrow('Template has none of');
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Tenant templates and clone-from-tenant
+ */
+
+export {
+  templateFromConfig,
+  applyTemplate,
+  parseTemplateJson,
+  renameEntityIds,
+  TEMPLATE_SECTIONS,
+} from './tenantTemplates';
+export { saveTemplate, listTemplates, deleteTemplate } from './templateStore';
+export type { TemplateContent, TenantTemplate, EntityRenames } from './tenantTemplates';
@@ -0,0 +1,91 @@
+/**
+ * Template Store
+ * The tenant template library, kept in IndexedDB on this browser
+ *
+ * Templates are shared by exporting them as JSON and importing the file
+ * elsewhere (see parseTemplateJson).
+ */
+
+import type { TenantTemplate } from './tenantTemplates';
+
+const DB_NAME = 'picasso-tenant-templates';
+const DB_VERSION = 1;
+const STORE_NAME = 'templates';
+
+/**
+ * Templates kept in memory when IndexedDB is unavailable (some private-browsing
+ * modes, the jsdom test environment). They last for the page session only.
+ */
+const memoryTemplates = new Map<string, TenantTemplate>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function hasIndexedDB(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Let a later call retry instead of caching the failure
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Run one request against the templates store and resolve with its result */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+/**
+ * Write (or replace) a template
+ */
+export async function saveTemplate(template: TenantTemplate): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryTemplates.set(template.id, structuredClone(template));
+    return;
+  }
+  await withStore('readwrite', (store) => store.put(template));
+}
+
+/**
+ * Every template, by name
+ */
+export async function listTemplates(): Promise<TenantTemplate[]> {
+  const templates = hasIndexedDB()
+    ? await withStore<TenantTemplate[]>('readonly', (store) => store.getAll())
+    : [...memoryTemplates.values()].map((template) => structuredClone(template));
+
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Remove a template (no-op when there is none)
+ */
+export async function deleteTemplate(id: string): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryTemplates.delete(id);
+    return;
+  }
+  await withStore('readwrite', (store) => store.delete(id));
+}
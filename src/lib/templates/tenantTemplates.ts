@@ -0,0 +1,326 @@
+/**
+ * Tenant Templates
+ * Reusable starting content for new tenants, and clone-from-tenant
+ *
+ * A template holds the content sections of a config — programs, forms, CTAs,
+ * branches, showcase items, action chips, CTA settings, Bedrock instructions
+ * and branding —
+ * and nothing tied to one tenant: no `tenant_id`, `tenant_hash`, `channels`,
+ * AWS settings, or form notification recipients.
+ *
+ * Entity IDs that contain the source tenant's ID (`acme01_volunteer`) are
+ * stored with a `{tenant}` placeholder, and every reference to them is
+ * rewritten with them, so a new tenant gets its own IDs. Cloning a tenant is
+ * making a template from it and applying that straight away.
+ */
+
+import type {
+  ActionChipsConfig,
+  BedrockInstructions,
+  BrandingConfig,
+  ConversationalForm,
+  ConversationBranch,
+  CTADefinition,
+  CTASettings,
+  Program,
+  ShowcaseItem,
+  TenantConfig,
+} from '@/types/config';
+
+export interface TemplateContent {
+  programs?: Record<string, Program>;
+  conversational_forms?: Record<string, ConversationalForm>;
+  cta_definitions?: Record<string, CTADefinition>;
+  conversation_branches?: Record<string, ConversationBranch>;
+  content_showcase?: ShowcaseItem[];
+  action_chips?: ActionChipsConfig;
+  cta_settings?: CTASettings;
+  bedrock_instructions?: BedrockInstructions;
+  branding?: Partial<BrandingConfig>;
+}
+
+export interface TenantTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  /** Tenant the template was saved from, when it was */
+  sourceTenantId?: string;
+  /** Epoch ms */
+  createdAt: number;
+  content: TemplateContent;
+}
+
+export const TEMPLATE_SECTIONS: (keyof TemplateContent)[] = [
+  'programs',
+  'conversational_forms',
+  'cta_definitions',
+  'conversation_branches',
+  'content_showcase',
+  'action_chips',
+  'cta_settings',
+  'bedrock_instructions',
+  'branding',
+];
+
+/** Stands in for the tenant ID inside entity IDs; upper case when the ID had it upper case */
+const TOKEN = '{tenant}';
+const TOKEN_UPPER = '{TENANT}';
+
+// ============================================================================
+// ID REWRITING
+// ============================================================================
+
+type Rename = (id: string) => string;
+
+/** Entity kinds whose IDs `renameEntityIds` rewrites; showcase item IDs are kept when `showcase` is absent */
+export interface EntityRenames {
+  program: Rename;
+  form: Rename;
+  cta: Rename;
+  branch: Rename;
+  showcase?: Rename;
+}
+
+function renameKeys<T>(record: Record<string, T> | undefined, rename: Rename, update: (value: T) => T): Record<string, T> | undefined {
+  if (!record) return record;
+  return Object.fromEntries(Object.entries(record).map(([id, value]) => [rename(id), update(value)]));
+}
+
+function renameOptional<T extends string | null | undefined>(id: T, rename: Rename): T {
+  return (id ? rename(id) : id) as T;
+}
+
+/**
+ * `content` with every entity ID and every reference to one passed through
+ * `rename`: dictionary keys, `program_id`/`form_id`, form programs, CTA forms
+ * and branches, branch CTAs and showcase items, showcase item IDs and CTAs,
+ * chip branches and showcase items, and the fallback branch. Pass one function
+ * per kind when the same ID may mean different entities; action chip IDs are
+ * then left alone.
+ */
+export function renameEntityIds(content: TemplateContent, rename: Rename | EntityRenames): TemplateContent {
+  const keep: Rename = (id) => id;
+  const byKind: Required<EntityRenames> & { chip: Rename } =
+    typeof rename === 'function'
+      ? { program: rename, form: rename, cta: rename, branch: rename, showcase: rename, chip: rename }
+      : { ...rename, showcase: rename.showcase ?? keep, chip: keep };
+  const next: TemplateContent = { ...content };
+
+  next.programs = renameKeys(content.programs, byKind.program, (program) => ({
+    ...program,
+    program_id: byKind.program(program.program_id),
+  }));
+
+  next.conversational_forms = renameKeys(content.conversational_forms, byKind.form, (form) => ({
+    ...form,
+    form_id: byKind.form(form.form_id),
+    program: renameOptional(form.program, byKind.program),
+    on_completion_branch: renameOptional(form.on_completion_branch, byKind.branch),
+    ...(form.post_submission && {
+      post_submission: {
+        ...form.post_submission,
+        actions: form.post_submission.actions?.map((action) => ({
+          ...action,
+          formId: renameOptional(action.formId, byKind.form),
+        })),
+      },
+    }),
+  }));
+
+  next.cta_definitions = renameKeys(content.cta_definitions, byKind.cta, (cta) => ({
+    ...cta,
+    formId: renameOptional(cta.formId, byKind.form),
+    target_branch: renameOptional(cta.target_branch, byKind.branch),
+    on_completion_branch: renameOptional(cta.on_completion_branch, byKind.branch),
+    program_id: renameOptional(cta.program_id, byKind.program),
+  }));
+
+  next.conversation_branches = renameKeys(content.conversation_branches, byKind.branch, (branch) => ({
+    ...branch,
+    program_id: renameOptional(branch.program_id, byKind.program),
+    showcase_item_id: renameOptional(branch.showcase_item_id, byKind.showcase),
+    available_ctas: {
+      ...branch.available_ctas,
+      primary: renameOptional(branch.available_ctas?.primary, byKind.cta),
+      secondary: (branch.available_ctas?.secondary ?? []).map(byKind.cta),
+    },
+  }));
+
+  next.content_showcase = content.content_showcase?.map((item) => ({
+    ...item,
+    id: byKind.showcase(item.id),
+    program_id: renameOptional(item.program_id, byKind.program),
+    ...(item.action && { action: { ...item.action, cta_id: renameOptional(item.action.cta_id, byKind.cta) } }),
+    ...(item.available_ctas && {
+      available_ctas: {
+        primary: renameOptional(item.available_ctas.primary, byKind.cta),
+        secondary: item.available_ctas.secondary?.map(byKind.cta),
+      },
+    }),
+  }));
+
+  if (content.action_chips) {
+    next.action_chips = {
+      ...content.action_chips,
+      default_chips: renameKeys(content.action_chips.default_chips, byKind.chip, (chip) => ({
+        ...chip,
+        target_branch: renameOptional(chip.target_branch, byKind.branch),
+        target_showcase_id: renameOptional(chip.target_showcase_id, byKind.showcase),
+      }))!,
+    };
+  }
+
+  if (content.cta_settings) {
+    next.cta_settings = {
+      ...content.cta_settings,
+      fallback_branch: renameOptional(content.cta_settings.fallback_branch, byKind.branch),
+    };
+  }
+
+  // Spreading left `undefined` for absent sections; keep them absent
+  TEMPLATE_SECTIONS.forEach((section) => {
+    if (next[section] === undefined) delete next[section];
+  });
+  return JSON.parse(JSON.stringify(next)) as TemplateContent;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Replace the tenant ID inside an ID with the placeholder, keeping its case */
+function tokenize(tenantId: string): Rename {
+  const pattern = new RegExp(escapeRegExp(tenantId), 'gi');
+  return (id) => id.replace(pattern, (match) => (match === match.toLowerCase() ? TOKEN : TOKEN_UPPER));
+}
+
+/** Replace the placeholder with a tenant ID */
+function detokenize(tenantId: string): Rename {
+  return (id) => id.split(TOKEN).join(tenantId.toLowerCase()).split(TOKEN_UPPER).join(tenantId.toUpperCase());
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/** Form settings that name the source organization's people or systems */
+function stripFormDelivery(form: ConversationalForm): ConversationalForm {
+  const { notifications: _notifications, ...rest } = form;
+  if (!rest.post_submission?.fulfillment) return rest;
+  const { fulfillment: _fulfillment, ...postSubmission } = rest.post_submission;
+  return { ...rest, post_submission: postSubmission };
+}
+
+/**
+ * A template from a tenant's config: the template sections only, IDs
+ * containing the tenant ID tokenized, form notifications and fulfillment
+ * removed
+ *
+ * @example
+ * const template = templateFromConfig(config, { name: 'Volunteer org starter' });
+ */
+export function templateFromConfig(
+  config: TenantConfig,
+  meta: { name: string; description?: string; id?: string }
+): TenantTemplate {
+  const content: TemplateContent = {};
+  TEMPLATE_SECTIONS.forEach((section) => {
+    if (config[section] !== undefined) {
+      (content as Record<string, unknown>)[section] = structuredClone(config[section]);
+    }
+  });
+  if (content.conversational_forms) {
+    content.conversational_forms = Object.fromEntries(
+      Object.entries(content.conversational_forms).map(([id, form]) => [id, stripFormDelivery(form)])
+    );
+  }
+
+  return {
+    id: meta.id ?? `tpl_${Date.now().toString(36)}`,
+    name: meta.name,
+    description: meta.description,
+    sourceTenantId: config.tenant_id,
+    createdAt: Date.now(),
+    content: config.tenant_id ? renameEntityIds(content, tokenize(config.tenant_id)) : content,
+  };
+}
+
+/**
+ * `base` (the new tenant's config) with the template's content applied and
+ * its IDs rewritten for the new tenant. The base keeps its own identity and
+ * its branding wins over the template's.
+ */
+export function applyTemplate(template: TenantTemplate, base: TenantConfig): TenantConfig {
+  const content = renameEntityIds(template.content, detokenize(base.tenant_id));
+  return {
+    ...base,
+    programs: { ...base.programs, ...content.programs },
+    conversational_forms: { ...base.conversational_forms, ...content.conversational_forms },
+    cta_definitions: { ...base.cta_definitions, ...content.cta_definitions },
+    conversation_branches: { ...base.conversation_branches, ...content.conversation_branches },
+    ...(content.content_showcase && {
+      content_showcase: [
+        ...(base.content_showcase ?? []).filter((item) => !content.content_showcase!.some((added) => added.id === item.id)),
+        ...content.content_showcase,
+      ],
+    }),
+    ...(content.action_chips && { action_chips: content.action_chips }),
+    ...(content.cta_settings && { cta_settings: { ...content.cta_settings, ...base.cta_settings } }),
+    ...(content.bedrock_instructions && { bedrock_instructions: content.bedrock_instructions }),
+    branding: { ...content.branding, ...base.branding } as BrandingConfig,
+  };
+}
+
+/**
+ * Parse a template authored as JSON. Accepts a full template (`{ name,
+ * content }`) or bare content sections; keys outside the template sections
+ * are dropped and listed in `ignored`.
+ *
+ * @throws Error when the text isn't JSON or a section has the wrong shape
+ */
+export function parseTemplateJson(text: string, fallbackName = 'Imported template'): { template: TenantTemplate; ignored: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Template is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Template must be a JSON object');
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const isWrapped = raw.content && typeof raw.content === 'object';
+  const source = (isWrapped ? raw.content : raw) as Record<string, unknown>;
+  const meta = new Set(['id', 'name', 'description', 'sourceTenantId', 'createdAt']);
+
+  const content: TemplateContent = {};
+  const ignored: string[] = [];
+  Object.entries(source).forEach(([key, value]) => {
+    if (!(TEMPLATE_SECTIONS as string[]).includes(key)) {
+      if (isWrapped || !meta.has(key)) ignored.push(key);
+      return;
+    }
+    if (key === 'content_showcase') {
+      if (!Array.isArray(value)) throw new Error('"content_showcase" must be an array');
+    } else if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`"${key}" must be an object`);
+    }
+    (content as Record<string, unknown>)[key] = value;
+  });
+  if (Object.keys(content).length === 0) {
+    throw new Error(`Template has none of: ${TEMPLATE_SECTIONS.join(', ')}`);
+  }
+
+  return {
+    template: {
+      id: typeof raw.id === 'string' ? raw.id : `tpl_${Date.now().toString(36)}`,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName,
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+      sourceTenantId: typeof raw.sourceTenantId === 'string' ? raw.sourceTenantId : undefined,
+      createdAt: Date.now(),
+      content,
+    },
+    ignored,
+  };
+}
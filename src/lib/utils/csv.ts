@@ -0,0 +1,71 @@
+/**
+ * CSV reading and writing (RFC 4180)
+ * For spreadsheet round-trips: quoted fields may hold commas, quotes and
+ * line breaks, and a leading byte-order mark (Excel's UTF-8 export) is dropped.
+ */
+
+function quote(value: string): string {
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows to CSV text, one line per row, CRLF line endings
+ *
+ * @example
+ * toCsv([['key', 'text'], ['greeting', 'Hello, world']]) // => 'key,text\r\ngreeting,"Hello, world"\r\n'
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of cells. Blank lines are skipped.
+ *
+ * @throws Error when a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let index = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else cell += char;
+      index += 1;
+      continue;
+    }
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+    } else {
+      cell += char;
+    }
+    index += 1;
+  }
+
+  if (quoted) throw new Error('CSV has an unclosed quoted field');
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
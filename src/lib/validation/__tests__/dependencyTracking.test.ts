@@ -14,6 +14,9 @@ import {
   getFormDeletionImpact,
   getCTADeletionImpact,
   getBranchDeletionImpact,
+  getShowcaseDependencies,
+  getActionChipDependencies,
+  getShowcaseDeletionImpact,
   formatDeletionImpact,
 } from '../dependencyTracking';
 import type {
@@ -21,6 +24,8 @@ import type {
   ConversationalForm,
   CTADefinition,
   ConversationBranch,
+  ShowcaseItem,
+  ActionChip,
 } from '@/types/config';
 
 describe('Dependency Tracking', () => {
@@ -295,6 +300,59 @@ describe('Dependency Tracking', () => {
     });
   });
 
+  describe('showcase items and action chips', () => {
+    const mockShowcase: ShowcaseItem = {
+      id: 'spring_gala',
+      type: 'event',
+      enabled: true,
+      name: 'Spring Gala',
+      tagline: 'Join us',
+      description: 'Annual fundraiser',
+      keywords: ['gala'],
+      available_ctas: { primary: 'test-cta' },
+    };
+
+    const chips: Record<string, ActionChip> = {
+      housing: { label: 'Housing', value: 'Housing help', target_branch: 'test-branch' },
+      gala: { label: 'Gala', value: '', action: 'show_showcase', target_showcase_id: 'spring_gala' },
+    };
+
+    const graph = buildDependencyGraph(
+      {},
+      {},
+      { 'test-cta': mockCTA },
+      { 'test-branch': mockBranch },
+      chips,
+      [mockShowcase]
+    );
+
+    it('should track showcase item → CTA and chip → branch / showcase dependencies', () => {
+      expect(getShowcaseDependencies('spring_gala', graph)).toEqual({
+        ctas: [{ type: 'cta', id: 'test-cta', label: 'Apply Now' }],
+        actionChips: [{ type: 'action_chip', id: 'gala', label: 'Gala' }],
+      });
+      expect(getActionChipDependencies('housing', graph).branch?.id).toBe('test-branch');
+      expect(getActionChipDependencies('gala', graph).showcaseItem?.label).toBe('Spring Gala');
+      expect(getCTADependencies('test-cta', graph).showcaseItems.map((ref) => ref.id)).toEqual(['spring_gala']);
+      expect(getBranchDependencies('test-branch', graph).actionChips.map((ref) => ref.id)).toEqual(['housing']);
+    });
+
+    it('should warn about showcase items when deleting a CTA', () => {
+      const impact = getCTADeletionImpact('test-cta', mockCTA, graph);
+      expect(impact.warnings.some((w) => w.includes('showcase item') && w.includes('Spring Gala'))).toBe(true);
+      expect(impact.affectedEntities.showcaseItems?.map((ref) => ref.id)).toEqual(['spring_gala']);
+    });
+
+    it('should warn about chips when deleting a branch or showcase item', () => {
+      const branchImpact = getBranchDeletionImpact('test-branch', mockBranch, graph);
+      expect(branchImpact.warnings).toEqual(['1 action chip route to this branch: Housing']);
+
+      const showcaseImpact = getShowcaseDeletionImpact('spring_gala', mockShowcase, graph);
+      expect(showcaseImpact.warnings).toEqual(['1 action chip show this item: Gala']);
+      expect(showcaseImpact.affectedEntities.actionChips?.map((ref) => ref.id)).toEqual(['gala']);
+    });
+  });
+
   describe('deletion impact reports', () => {
     describe('getProgramDeletionImpact', () => {
       it('should allow deletion of unused program', () => {
@@ -409,4 +409,236 @@ describe('Form Validation', () => {
       expect(result.errors.length).toBeGreaterThanOrEqual(2);
     });
   });
+
+  describe('show-if conditions', () => {
+    const state: FormField = {
+      id: 'state',
+      type: 'select',
+      label: 'State',
+      prompt: 'Which state?',
+      required: true,
+      options: [
+        { value: 'TX', label: 'Texas' },
+        { value: 'OK', label: 'Oklahoma' },
+      ],
+    };
+
+    const county = (conditions: FormField['conditions']): FormField => ({
+      id: 'county',
+      type: 'text',
+      label: 'County',
+      prompt: 'Which county?',
+      required: true,
+      conditions,
+    });
+
+    const formWith = (fields: FormField[]): ConversationalForm => ({
+      enabled: true,
+      form_id: 'test-form',
+      program: 'test-program',
+      title: 'Test Form',
+      description: 'Test description',
+      fields,
+    });
+
+    const messagesFor = (fields: FormField[]) => {
+      const result = validateForm(formWith(fields), 'test-form', allPrograms);
+      return { errors: result.errors.map((e) => e.message), warnings: result.warnings.map((w) => w.message) };
+    };
+
+    it('accepts a rule on an earlier field, matching by option value or label', () => {
+      const byValue = messagesFor([state, county({ match: 'all', rules: [{ field: 'state', operator: 'equals', value: 'TX' }] })]);
+      const byLabel = messagesFor([state, county({ match: 'all', rules: [{ field: 'state', operator: 'equals', value: 'texas' }] })]);
+
+      expect(byValue).toEqual({ errors: [], warnings: [] });
+      expect(byLabel).toEqual({ errors: [], warnings: [] });
+    });
+
+    it('errors on rules that use missing, later or unsplit composite fields', () => {
+      const address: FormField = {
+        id: 'address',
+        type: 'address',
+        label: 'Address',
+        prompt: 'Address?',
+        required: true,
+        subfields: [{ id: 'state', label: 'State', required: true }],
+      };
+
+      expect(messagesFor([state, county({ match: 'all', rules: [{ field: 'zip', operator: 'is_answered' }] })]).errors[0]).toContain(
+        '"zip", which is not a field in this form'
+      );
+      expect(messagesFor([county({ match: 'all', rules: [{ field: 'state', operator: 'is_answered' }] }), state]).errors[0]).toContain(
+        'which is not asked before it'
+      );
+      expect(messagesFor([address, county({ match: 'all', rules: [{ field: 'address', operator: 'is_answered' }] })]).errors[0]).toContain(
+        'e.g. "address.state"'
+      );
+      expect(messagesFor([address, county({ match: 'all', rules: [{ field: 'address.state', operator: 'equals', value: 'TX' }] })]).errors).toEqual([]);
+    });
+
+    it('errors on rules with no value or a non-number comparison', () => {
+      expect(messagesFor([state, county({ match: 'all', rules: [{ field: 'state', operator: 'equals', value: ' ' }] })]).errors[0]).toContain(
+        'no value to compare'
+      );
+      expect(messagesFor([state, county({ match: 'all', rules: [{ field: 'state', operator: 'greater_than', value: 'ten' }] })]).errors[0]).toContain(
+        'non-number'
+      );
+    });
+
+    it('warns about fields that can never be shown', () => {
+      const neverTexas = county({ match: 'all', rules: [{ field: 'state', operator: 'equals', value: 'CA' }] });
+      const contradictory = county({
+        match: 'all',
+        rules: [
+          { field: 'state', operator: 'equals', value: 'TX' },
+          { field: 'state', operator: 'equals', value: 'OK' },
+        ],
+      });
+      const dependsOnHidden: FormField = {
+        ...mockField,
+        id: 'precinct',
+        conditions: { match: 'all', rules: [{ field: 'county', operator: 'is_answered' }] },
+      };
+
+      expect(messagesFor([state, neverTexas]).warnings[0]).toContain('Field "county" can never be shown: "state" has no option "CA"');
+      expect(messagesFor([state, contradictory]).warnings[0]).toContain('two different answers');
+      expect(messagesFor([state, neverTexas, dependsOnHidden]).warnings[1]).toContain('Field "precinct" can never be shown: "county" is never asked');
+    });
+
+    it('does not warn when any OR-ed rule can hold', () => {
+      const either = county({
+        match: 'any',
+        rules: [
+          { field: 'state', operator: 'equals', value: 'CA' },
+          { field: 'state', operator: 'equals', value: 'TX' },
+        ],
+      });
+
+      expect(messagesFor([state, either]).warnings).toEqual([]);
+    });
+  });
+
+  describe('field type settings', () => {
+    const resultFor = (field: FormField) =>
+      validateForm(
+        {
+          enabled: true,
+          form_id: 'test-form',
+          program: 'test-program',
+          title: 'Test Form',
+          description: 'Test description',
+          trigger_phrases: ['test'],
+          fields: [field],
+        },
+        'test-form',
+        allPrograms
+      );
+
+    it('requires options and sane selection limits on multi-select fields', () => {
+      const field: FormField = { id: 'days', type: 'multi_select', label: 'Days', prompt: 'Which days?', required: true };
+
+      expect(resultFor(field).errors.some((e) => e.message.includes('at least one option'))).toBe(true);
+
+      const options = [
+        { value: 'sat', label: 'Saturday' },
+        { value: 'sun', label: 'Sunday' },
+      ];
+      expect(resultFor({ ...field, options, min_selections: 3 }).errors[0].message).toContain('has only 2 options');
+      expect(resultFor({ ...field, options, min_selections: 2, max_selections: 1 }).errors[0].message).toContain(
+        'more selections than it allows'
+      );
+      expect(resultFor({ ...field, options, min_selections: 1, max_selections: 2 }).valid).toBe(true);
+    });
+
+    it('requires consent fields to say what is agreed to, and warns when they are optional', () => {
+      const field: FormField = { id: 'sms', type: 'consent', label: 'SMS', prompt: 'OK to text you?', required: false };
+
+      const bare = resultFor(field);
+      expect(bare.errors.some((e) => e.message.includes('does not say what is agreed to'))).toBe(true);
+      expect(bare.warnings.some((w) => w.message.includes('submitted without consent'))).toBe(true);
+
+      expect(resultFor({ ...field, policy_url: 'privacy page' }).errors[0].message).toContain('invalid policy link');
+      expect(resultFor({ ...field, required: true, policy_url: 'https://example.org/privacy' }).valid).toBe(true);
+    });
+
+    it('rejects accepted file types that are not MIME types', () => {
+      const field: FormField = {
+        id: 'resume',
+        type: 'file_upload',
+        label: 'Resume',
+        prompt: 'Upload your resume',
+        required: true,
+        accepted_types: ['application/pdf', 'image/*', '.docx'],
+      };
+
+      const result = resultFor(field);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toContain('".docx", which is not a MIME type');
+    });
+  });
+
+  describe('notifications', () => {
+    const notified = (notifications: ConversationalForm['notifications'], fields: FormField[] = [mockField]) =>
+      validateForm(
+        {
+          enabled: true,
+          form_id: 'test-form',
+          program: 'test-program',
+          title: 'Test Form',
+          description: 'Test description',
+          trigger_phrases: ['test'],
+          fields,
+          notifications,
+        },
+        'test-form',
+        allPrograms
+      );
+
+    const base: NonNullable<ConversationalForm['notifications']> = {
+      internal: {
+        enabled: true,
+        recipients: ['staff@example.org'],
+        subject: 'New: {{name}}',
+        body_template: '{{name}} applied to {{form_title}}',
+        channels: { email: true, sms: false },
+      },
+      applicant_confirmation: { enabled: false, subject: '', body_template: '', use_tenant_branding: true },
+    };
+
+    it('accepts placeholders that are merge fields of the form', () => {
+      expect(notified(base).errors).toEqual([]);
+    });
+
+    it('flags unknown placeholders and invalid recipients', () => {
+      const result = notified({
+        ...base,
+        internal: {
+          ...base.internal,
+          recipients: ['staff@example.org', 'not-an-email'],
+          sms_recipients: ['512-555-0123'],
+          sms_template: 'New applicant {{first_name}}',
+        },
+      });
+
+      expect(result.errors.map((e) => e.field)).toEqual([
+        'notifications.internal.sms_template',
+        'notifications.internal.recipients',
+        'notifications.internal.sms_recipients',
+      ]);
+      expect(result.errors[0].message).toContain('{{first_name}}');
+    });
+
+    it('warns when a channel has no recipients or the confirmation has no email field', () => {
+      const result = notified({
+        internal: { ...base.internal, recipients: [], channels: { email: true, sms: true } },
+        applicant_confirmation: { ...base.applicant_confirmation, enabled: true },
+      });
+
+      expect(result.warnings.map((w) => w.field)).toEqual([
+        'notifications.internal.recipients',
+        'notifications.internal.sms_recipients',
+        'notifications.applicant_confirmation.enabled',
+      ]);
+    });
+  });
 });
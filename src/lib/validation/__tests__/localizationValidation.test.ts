@@ -0,0 +1,70 @@
+/**
+ * Localization validation — untranslated strings in enabled locales
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateLocalization } from '../localizationValidation';
+import { validateConfig } from '..';
+import type { CTADefinition, LocalizationConfig } from '@/types/config';
+
+const ctas: Record<string, CTADefinition> = {
+  volunteer: { label: 'Volunteer', action: 'send_query', type: 'bedrock_query', query: 'How do I volunteer?' },
+  donate: { label: 'Donate', action: 'external_link', type: 'external_link', url: 'https://example.org' },
+};
+
+const localization: LocalizationConfig = {
+  default_locale: 'en',
+  enabled_locales: ['en', 'es', 'fr'],
+  translations: {
+    es: {
+      welcome_message: '¡Hola!',
+      'ctas.volunteer.label': 'Voluntariado',
+      'ctas.volunteer.query': '¿Cómo puedo ser voluntario?',
+      'ctas.donate.label': 'Donar',
+      'ctas.retired.label': 'Retirado',
+    },
+  },
+};
+
+describe('validateLocalization', () => {
+  it('warns once per enabled locale with untranslated strings', () => {
+    const result = validateLocalization({ welcome_message: 'Hi!', cta_definitions: ctas, localization });
+
+    expect(result.valid).toBe(true);
+    const untranslated = result.warnings.filter((warning) => warning.level === 'warning');
+    expect(untranslated).toHaveLength(1);
+    expect(untranslated[0]).toMatchObject({ entityId: 'settings-localization', field: 'fr', entityType: 'config' });
+    expect(untranslated[0].message).toContain('4 of 4 strings have no "fr" translation');
+    expect(untranslated[0].message).toContain('welcome_message, ctas.volunteer.label, ctas.volunteer.query, +1 more');
+  });
+
+  it('notes translations of strings the config no longer has', () => {
+    const result = validateLocalization({ welcome_message: 'Hi!', cta_definitions: ctas, localization });
+    const unused = result.warnings.filter((warning) => warning.level === 'info');
+
+    expect(unused).toHaveLength(1);
+    expect(unused[0]).toMatchObject({ field: 'es' });
+    expect(unused[0].message).toContain('1 "es" translation(s)');
+  });
+
+  it('reports nothing for single-locale tenants', () => {
+    expect(validateLocalization({ welcome_message: 'Hi!', cta_definitions: ctas }).warnings).toEqual([]);
+    expect(
+      validateLocalization({
+        welcome_message: 'Hi!',
+        localization: { default_locale: 'en', enabled_locales: ['en'] },
+      }).warnings
+    ).toEqual([]);
+  });
+});
+
+describe('validateConfig with localization', () => {
+  it('checks the entities and welcome text of the config', () => {
+    const result = validateConfig({}, {}, ctas, {}, 4, [], {
+      config: { welcome_message: 'Hi!', localization },
+    });
+    const localizationWarnings = result.warnings.filter((warning) => warning.entityId === 'settings-localization');
+
+    expect(localizationWarnings.map((warning) => warning.field)).toEqual(['es', 'fr']);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Reachability Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationBranch, CTADefinition, ConversationalForm } from '@/types/config';
+import { validateConfig, validateReachability } from '../index';
+
+const branches: Record<string, ConversationBranch> = {
+  main: { available_ctas: { primary: 'apply', secondary: [] } },
+  island: { available_ctas: { primary: 'apply', secondary: [] } },
+};
+const ctas: Record<string, CTADefinition> = {
+  apply: { label: 'Apply', action: 'start_form', type: 'form_trigger', formId: 'closed' },
+};
+const forms: Record<string, ConversationalForm> = {
+  closed: { enabled: false, form_id: 'closed', program: 'p1', title: 'Closed', description: '', fields: [] },
+};
+const config = { cta_settings: { fallback_branch: 'main' } };
+
+describe('validateReachability', () => {
+  it('warns about unreachable entities and dead ends, keyed by entity id', () => {
+    const result = validateReachability(forms, ctas, branches, [], config);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.entityId)).toEqual(['island', 'main', 'closed']);
+    expect(result.warnings[0].message).toContain('Branch "island" can\'t be reached');
+    expect(result.warnings[2].message).toContain('Form "closed" is disabled (reached via Fallback "Any typed question" → main → apply → closed)');
+    expect(result.warnings[1].message).toContain('Every CTA on branch "main" leads nowhere');
+  });
+
+  it('does not report disabled entities as unreachable', () => {
+    const result = validateReachability(forms, ctas, { island: branches.island }, [], { cta_settings: { fallback_branch: 'gone' } });
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('runs from validateConfig only when entry points are given', () => {
+    const without = validateConfig({}, forms, ctas, branches);
+    const withEntries = validateConfig({}, forms, ctas, branches, 4, [], { config });
+
+    expect(without.warnings.some((w) => w.message.includes('Dead end'))).toBe(false);
+    expect(withEntries.warnings.some((w) => w.message.includes('Dead end'))).toBe(true);
+  });
+});
@@ -10,6 +10,8 @@ import type {
   ConversationalForm,
   CTADefinition,
   ConversationBranch,
+  ShowcaseItem,
+  ActionChip,
 } from '@/types/config';
 
 describe('Relationship Validation', () => {
@@ -235,9 +237,8 @@ describe('Relationship Validation', () => {
 
   describe('circular dependency detection', () => {
     // Note: trigger-phrase-vs-confirmation-message circular detection was
-    // removed when forms moved to explicit CTA routing. The check in
-    // `detectCircularDependencies` is now a no-op. Both shapes below should
-    // validate cleanly without emitting a "circular" warning.
+    // removed when forms moved to explicit CTA routing. `detectCircularDependencies`
+    // now reports routing loops (branch → CTA → form → completion branch).
     it('should not warn about trigger-phrase/confirmation overlap (feature removed)', () => {
       const formWithOverlap: ConversationalForm = {
         ...mockForm,
@@ -260,6 +261,31 @@ describe('Relationship Validation', () => {
       );
       expect(circularWarnings).toHaveLength(0);
     });
+
+    it('reports a routing loop once, as info on its first branch', () => {
+      const ctas = {
+        'test-cta': mockCTA,
+        'back-cta': {
+          label: 'Back to housing',
+          action: 'send_query' as const,
+          query: 'housing',
+          type: 'bedrock_query' as const,
+          target_branch: 'test-branch',
+        },
+      };
+      const forms = { 'test-form': { ...mockForm, on_completion_branch: 'after-apply' } };
+      const branches = {
+        'test-branch': mockBranch,
+        'after-apply': { available_ctas: { primary: 'back-cta', secondary: [] } },
+      };
+
+      const result = validateRelationships({ 'test-program': mockProgram }, forms, ctas, branches);
+
+      const circularWarnings = result.warnings.filter((w) => w.message.toLowerCase().includes('circular'));
+      expect(circularWarnings).toHaveLength(1);
+      expect(circularWarnings[0]).toMatchObject({ level: 'info', entityId: 'test-branch' });
+      expect(circularWarnings[0].message).toContain('test-branch → test-cta → test-form → after-apply → back-cta → test-branch');
+    });
   });
 
   describe('orphaned entity detection', () => {
@@ -316,6 +342,112 @@ describe('Relationship Validation', () => {
     });
   });
 
+  describe('topic ↔ CTA coverage', () => {
+    const topics = [{ id: 'volunteering', label: 'Volunteering' }];
+    const aiCTA: CTADefinition = {
+      label: 'Volunteer',
+      action: 'send_query',
+      type: 'bedrock_query',
+      query: 'How do I volunteer?',
+      ai_available: true,
+      selection_metadata: { topic_tags: ['volunteering'] },
+    };
+
+    it('should not warn when an ai_available CTA is tagged with the topic', () => {
+      const result = validateRelationships({}, {}, { volunteer: aiCTA }, {}, topics);
+      expect(result.warnings.filter((w) => w.entityId?.startsWith('topic-'))).toHaveLength(0);
+    });
+
+    it('should warn when a topic has no eligible CTAs', () => {
+      const result = validateRelationships(
+        {},
+        {},
+        { volunteer: { ...aiCTA, ai_available: false } },
+        {},
+        topics
+      );
+      const warning = result.warnings.find((w) => w.entityId === 'topic-volunteering');
+      expect(warning).toBeDefined();
+      expect(warning?.level).toBe('warning');
+      expect(warning?.suggestedFix).toContain('Enable AI selection');
+      expect(result.valid).toBe(true);
+    });
+
+    it('should warn when a CTA is tagged with an undefined topic', () => {
+      const result = validateRelationships(
+        {},
+        {},
+        {
+          volunteer: aiCTA,
+          donate: { ...aiCTA, selection_metadata: { topic_tags: ['giving'] } },
+        },
+        {},
+        topics
+      );
+      const warning = result.warnings.find((w) => w.entityId === 'cta-donate');
+      expect(warning?.field).toBe('selection_metadata.topic_tags');
+      expect(warning?.message).toContain('"giving"');
+    });
+
+    it('should ignore topic tags when the tenant defines no topics', () => {
+      const result = validateRelationships({}, {}, { volunteer: aiCTA }, {});
+      expect(result.warnings).toHaveLength(0);
+    });
+  });
+
+  describe('showcase item → CTA relationships', () => {
+    const showcaseItem: ShowcaseItem = {
+      id: 'holiday_drive',
+      type: 'campaign',
+      enabled: true,
+      name: 'Holiday Drive',
+      tagline: 'Give a gift',
+      description: 'Our yearly drive',
+      keywords: ['holiday'],
+      available_ctas: { primary: 'test-cta', secondary: ['donate'] },
+    };
+
+    it('should error on CTAs that do not exist', () => {
+      const result = validateRelationships({}, {}, { 'test-cta': mockCTA }, {}, [], [showcaseItem]);
+      const error = result.errors.find((e) => e.entityId === 'holiday_drive');
+      expect(error?.entityType).toBe('showcase');
+      expect(error?.field).toBe('available_ctas.secondary[0]');
+      expect(error?.message).toContain('"donate"');
+      expect(result.valid).toBe(false);
+    });
+
+    it('should not report CTAs offered only by a showcase item as orphaned', () => {
+      const queryCTA: CTADefinition = { label: 'Ask', action: 'send_query', type: 'bedrock_query', query: 'Tell me more' };
+      const result = validateRelationships(
+        {},
+        {},
+        { 'test-cta': queryCTA, donate: queryCTA },
+        {},
+        [],
+        [showcaseItem]
+      );
+      expect(result.valid).toBe(true);
+      expect(result.warnings.filter((w) => w.entityId?.startsWith('cta-'))).toHaveLength(0);
+    });
+  });
+
+  describe('action chip → branch and showcase relationships', () => {
+    const chips: Record<string, ActionChip> = {
+      housing: { label: 'Housing', value: 'Tell me about housing', target_branch: 'test-branch' },
+      gone: { label: 'Gone', value: 'Where did it go?', target_branch: 'deleted_branch' },
+      flyer: { label: 'Flyer', value: '', action: 'show_showcase', target_showcase_id: 'deleted_item' },
+    };
+
+    it('should error on chips routed to missing branches or showcase items', () => {
+      const result = validateRelationships({}, {}, {}, { 'test-branch': mockBranch }, [], [], chips);
+      const chipErrors = result.errors.filter((e) => e.entityType === 'action_chip');
+      expect(chipErrors.map((e) => [e.entityId, e.field])).toEqual([
+        ['gone', 'target_branch'],
+        ['flyer', 'target_showcase_id'],
+      ]);
+    });
+  });
+
   describe('complete relationship validation', () => {
     it('should validate entire entity graph', () => {
       const programs = { 'test-program': mockProgram };
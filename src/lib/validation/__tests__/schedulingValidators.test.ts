@@ -0,0 +1,209 @@
+/**
+ * Scheduling Validators Tests
+ * Entity validators for the Scheduling editor and the inline issue report
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateAppointmentType,
+  isCompleteAppointmentType,
+  validateRoutingPolicy,
+  getSchedulingIssues,
+} from '../schedulingValidators';
+import type { AppointmentTypeDraft, AppointmentTypeInput, RoutingPolicyInput } from '@/lib/schemas';
+import type { TenantConfig } from '@/types/config';
+
+const createContext = <T,>(overrides: Partial<{ isEditMode: boolean; existingIds: string[]; originalEntity: T }> = {}) => ({
+  isEditMode: false,
+  existingIds: [] as string[],
+  existingEntities: {} as Record<string, T>,
+  ...overrides,
+});
+
+const introCall: AppointmentTypeInput = {
+  id: 'intro_call',
+  name: 'Intro Call',
+  duration_minutes: 30,
+};
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    ...over,
+  } as TenantConfig;
+}
+
+describe('validateAppointmentType', () => {
+  it('accepts a minimal appointment type', () => {
+    expect(validateAppointmentType(introCall, createContext())).toEqual({});
+  });
+
+  it('reports schema errors by field', () => {
+    const errors = validateAppointmentType(
+      { ...introCall, name: '', duration_minutes: 600 },
+      createContext()
+    );
+    expect(errors.name).toBe('Name is required');
+    expect(errors.duration_minutes).toBe('Duration cannot exceed 480 minutes (8 hours)');
+  });
+
+  it('keys nested reminder errors by dotted path', () => {
+    const errors = validateAppointmentType(
+      {
+        ...introCall,
+        reminder_cadence_override: {
+          tiers: [
+            {
+              lead_time_min_hours: 24,
+              lead_time_max_hours: 12,
+              reminders: [{ offset_minutes_before: 0, channel: 'email' }],
+            },
+          ],
+        },
+      },
+      createContext()
+    );
+    expect(errors['reminder_cadence_override.tiers.0.reminders.0.offset_minutes_before']).toBe(
+      'Offset must be a positive integer'
+    );
+    expect(errors['reminder_cadence_override.tiers.0.lead_time_max_hours']).toBe(
+      'Max lead time must be greater than min lead time'
+    );
+  });
+
+  it('reports blank reminder numbers, and the draft is not complete until they are filled', () => {
+    const draft: AppointmentTypeDraft = {
+      ...introCall,
+      reminder_cadence_override: {
+        tiers: [
+          {
+            lead_time_min_hours: undefined,
+            lead_time_max_hours: 24,
+            reminders: [{ offset_minutes_before: undefined, channel: 'email' }],
+          },
+        ],
+      },
+    };
+
+    const errors = validateAppointmentType(draft, createContext());
+    expect(errors['reminder_cadence_override.tiers.0.lead_time_min_hours']).toBe('Required');
+    expect(errors['reminder_cadence_override.tiers.0.reminders.0.offset_minutes_before']).toBe('Required');
+    expect(isCompleteAppointmentType(draft)).toBe(false);
+    expect(isCompleteAppointmentType(introCall)).toBe(true);
+  });
+
+  it('rejects duplicate IDs in create mode but not when editing the same entity', () => {
+    expect(
+      validateAppointmentType(introCall, createContext({ existingIds: ['intro_call'] })).id
+    ).toBe('An appointment type with this ID already exists');
+
+    expect(
+      validateAppointmentType(
+        introCall,
+        createContext({ isEditMode: true, existingIds: ['intro_call'], originalEntity: introCall })
+      ).id
+    ).toBeUndefined();
+  });
+
+  it('rejects IDs with invalid characters', () => {
+    expect(validateAppointmentType({ ...introCall, id: 'intro call' }, createContext()).id).toBe(
+      'ID can only contain letters, numbers, hyphens, and underscores'
+    );
+  });
+});
+
+describe('validateRoutingPolicy', () => {
+  const policy: RoutingPolicyInput = {
+    id: 'spanish',
+    tag_conditions: [{ tag: 'language', operator: 'equals', values: ['es'] }],
+  };
+
+  it('accepts a valid policy', () => {
+    expect(validateRoutingPolicy(policy, createContext())).toEqual({});
+  });
+
+  it('requires a tag and at least one value per condition', () => {
+    const errors = validateRoutingPolicy(
+      { ...policy, tag_conditions: [{ tag: '', values: [] }] },
+      createContext()
+    );
+    expect(errors['tag_conditions.0.tag']).toBe('Tag is required');
+    expect(errors['tag_conditions.0.values']).toBe('At least one value is required');
+  });
+});
+
+describe('getSchedulingIssues', () => {
+  it('returns nothing for a tenant without scheduling', () => {
+    expect(getSchedulingIssues(makeConfig())).toEqual([]);
+    expect(getSchedulingIssues(null)).toEqual([]);
+  });
+
+  it('flags a missing block when scheduling_enabled is on (invariant 1)', () => {
+    const issues = getSchedulingIssues(makeConfig({ feature_flags: { scheduling_enabled: true } }));
+    expect(issues).toEqual([
+      { path: 'scheduling', message: 'scheduling_enabled requires a scheduling configuration block' },
+    ]);
+  });
+
+  it('reports cross-reference invariants with tenant-schema paths', () => {
+    const issues = getSchedulingIssues(
+      makeConfig({
+        feature_flags: { scheduling_enabled: true },
+        scheduling: {
+          default_locale: 'es',
+          available_locales: ['en'],
+          scheduling_tag_vocabulary: ['language'],
+          appointment_types: { intro_call: { ...introCall, routing_policy_id: 'ghost' } },
+          routing_policies: {
+            spanish: { id: 'spanish', tag_conditions: [{ tag: 'region', values: ['west'] }] },
+          },
+          pre_call_form_id: 'missing_form',
+        },
+      })
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'scheduling.appointment_types.intro_call.routing_policy_id',
+      'scheduling.routing_policies.spanish.tag_conditions.0.tag',
+      'scheduling.pre_call_form_id',
+      'scheduling.default_locale',
+    ]);
+  });
+
+  it('reports block shape errors prefixed with the scheduling path', () => {
+    const issues = getSchedulingIssues(
+      makeConfig({
+        scheduling: {
+          appointment_types: { intro_call: { ...introCall, duration_minutes: 0 } },
+          fallback_scheduler_url: 'not-a-url',
+        },
+      })
+    );
+    expect(issues).toContainEqual({
+      path: 'scheduling.fallback_scheduler_url',
+      message: 'Must be a valid URL',
+    });
+    expect(issues.some((issue) => issue.path === 'scheduling.appointment_types.intro_call.duration_minutes')).toBe(true);
+  });
+
+  it('flags scheduling CTAs when no appointment types exist (invariant 6)', () => {
+    const issues = getSchedulingIssues(
+      makeConfig({
+        feature_flags: { scheduling_enabled: true },
+        scheduling: { appointment_types: {} },
+        cta_definitions: {
+          book: { label: 'Book', action: 'start_scheduling', type: 'scheduling_trigger' },
+        },
+      })
+    );
+    expect(issues).toEqual([
+      {
+        path: 'cta_definitions.book.action',
+        message: 'CTA action "start_scheduling" requires non-empty scheduling.appointment_types',
+      },
+    ]);
+  });
+});
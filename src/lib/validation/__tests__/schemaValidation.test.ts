@@ -0,0 +1,136 @@
+/**
+ * Tenant schema validation — Zod issues translated into validation errors and
+ * routed to the settings panel or entity that fixes them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateTenantSchema, settingsLocation } from '../schemaValidation';
+import { validateConfig, validateConfigFromStore } from '..';
+import { validateTenantConfig } from '@/lib/cli';
+import type { ValidationError } from '../types';
+import type { TenantConfig } from '@/types/config';
+
+const validConfig = {
+  tenant_id: 'TEST123',
+  tenant_hash: 'abc123def456',
+  subscription_tier: 'Standard',
+  chat_title: 'Test Bot',
+  tone_prompt: 'You are helpful.',
+  welcome_message: 'Hi!',
+  version: '1.5',
+  generated_at: 1700000000,
+  programs: {},
+  conversational_forms: {},
+  cta_definitions: {},
+  conversation_branches: {},
+  branding: { primary_color: '#00AA88', font_family: 'Inter' },
+  features: {
+    uploads: false,
+    photo_uploads: false,
+    voice_input: false,
+    callout: { enabled: false, auto_dismiss: false },
+  },
+  aws: { knowledge_base_id: 'KBABCDEFGH12', aws_region: 'us-east-1' },
+};
+
+describe('validateTenantSchema', () => {
+  it('reports nothing for a config the schema accepts', () => {
+    expect(validateTenantSchema(validConfig)).toEqual([]);
+  });
+
+  it('files settings issues under the owning section with the field to scroll to', () => {
+    const errors = validateTenantSchema({
+      ...validConfig,
+      branding: { ...validConfig.branding, primary_color: 'green' },
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      level: 'error',
+      entityType: 'config',
+      entityId: 'settings-branding',
+      field: 'primary_color',
+    });
+    expect(errors[0].message).toMatch(/^❌ Branding → Primary color: /);
+    expect(errors[0].message).toContain('Settings → Branding');
+  });
+
+  it('reports missing required sections', () => {
+    const { aws: _aws, ...withoutAws } = validConfig;
+    const errors = validateTenantSchema(withoutAws);
+    expect(errors.map((error) => error.entityId)).toEqual(['settings-aws']);
+  });
+
+  it('requires the default locale to be enabled and routes it to Translations', () => {
+    const errors = validateTenantSchema({
+      ...validConfig,
+      localization: { default_locale: 'en', enabled_locales: ['es'] },
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ entityId: 'settings-localization', field: 'enabled_locales' });
+    expect(errors[0].message).toContain('must include the default locale "en"');
+    expect(settingsLocation('localization')).toEqual({ title: 'Translations', route: '/translations' });
+  });
+
+  it('files entity issues under the entity, skipping ones already reported', () => {
+    const config = {
+      ...validConfig,
+      programs: { 'bad-id': { program_id: 'bad-id', program_name: 'Bad' } },
+    };
+    const errors = validateTenantSchema(config);
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((error) => error.entityType === 'program' && error.entityId === 'bad-id')).toBe(true);
+
+    const existing: ValidationError[] = errors.map((error) => ({ ...error, message: 'already reported' }));
+    expect(validateTenantSchema(config, existing)).toEqual([]);
+  });
+});
+
+describe('settingsLocation', () => {
+  it('maps sections to their panel and tab', () => {
+    expect(settingsLocation('aws')).toEqual({ title: 'AWS', route: '/settings', tab: 'ai-aws' });
+    expect(settingsLocation('chat_title')).toMatchObject({ title: 'Tenant Identity', tab: 'general' });
+    expect(settingsLocation('action_chips')).toEqual({ title: 'Action Chips', route: '/action-chips' });
+  });
+
+  it('falls back to the General tab for unknown sections', () => {
+    expect(settingsLocation('something_new')).toMatchObject({ route: '/settings', tab: 'general' });
+  });
+});
+
+describe('validateConfigFromStore with a loaded tenant', () => {
+  const storeState = (baseConfig: unknown) => ({
+    programs: { programs: {} },
+    forms: { forms: {} },
+    ctas: { ctas: {} },
+    branches: { branches: {} },
+    config: { baseConfig: baseConfig as TenantConfig },
+  });
+
+  it('adds schema errors from the config', () => {
+    const result = validateConfigFromStore(storeState({ ...validConfig, chat_title: '' }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.entityId)).toContain('settings-chat_title');
+    expect(result.summary.totalErrors).toBe(result.errors.length);
+  });
+
+  it('stays valid when the config passes the schema', () => {
+    expect(validateConfigFromStore(storeState(validConfig)).valid).toBe(true);
+  });
+});
+
+describe('validateConfig with entry points', () => {
+  it('runs the same schema check as the store, so the CLI and bulk tools reject what the editor does', () => {
+    const config = { ...validConfig, chat_title: '' } as unknown as TenantConfig;
+    const result = validateConfig({}, {}, {}, {}, 4, [], { config });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.entityId)).toContain('settings-chat_title');
+
+    expect(validateTenantConfig(config).errors.map((error) => error.entityId)).toContain('settings-chat_title');
+  });
+
+  it('checks only the entities and sections it was given without entry points', () => {
+    expect(validateConfig({}, {}, {}, {}).valid).toBe(true);
+  });
+});
@@ -8,10 +8,34 @@ import {
   validateCTA,
   validateForm,
   validateBranch,
+  validateShowcaseItems,
+  validateActionChips,
   validateConfig,
   getValidationSummary,
 } from '../index';
-import type { CTADefinition, ConversationalForm, ConversationBranch, Program } from '@/types/config';
+import type {
+  CTADefinition,
+  ConversationalForm,
+  ConversationBranch,
+  Program,
+  ShowcaseItem,
+  TenantConfig,
+} from '@/types/config';
+
+/** Settings the tenant schema requires, so only the entity checks report */
+const tenantSettings = {
+  tenant_id: 'TEST123',
+  tenant_hash: 'abc123def456',
+  subscription_tier: 'Standard',
+  chat_title: 'Test Bot',
+  tone_prompt: 'You are helpful.',
+  welcome_message: 'Hi!',
+  version: '2.0',
+  generated_at: 1700000000,
+  branding: { primary_color: '#00AA88', font_family: 'Inter' },
+  features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+  aws: { knowledge_base_id: 'KBABCDEFGH12', aws_region: 'us-east-1' },
+} as unknown as TenantConfig;
 
 describe('Validation Engine', () => {
   describe('CTA Validation', () => {
@@ -191,6 +215,51 @@ describe('Validation Engine', () => {
     });
   });
 
+  describe('Showcase Validation', () => {
+    const item: ShowcaseItem = {
+      id: 'spring_gala',
+      type: 'event',
+      enabled: true,
+      name: 'Spring Gala',
+      tagline: 'Join us',
+      description: 'Our annual fundraiser',
+      keywords: ['gala'],
+    };
+
+    it('should apply the editor rules to every item', () => {
+      const result = validateShowcaseItems([item, { ...item, id: 'blank', tagline: '', keywords: [] }]);
+
+      expect(result.errors.map((e) => [e.entityId, e.field])).toEqual([
+        ['blank', 'tagline'],
+        ['blank', 'keywords'],
+      ]);
+      expect(result.errors[0].entityType).toBe('showcase');
+      expect(result.errors[0].message).toContain('Tagline is required');
+    });
+
+    it('should error on duplicate item IDs', () => {
+      const result = validateShowcaseItems([item, item]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toContain('more than one item');
+    });
+  });
+
+  describe('Action Chip Validation', () => {
+    it('should apply the editor rules to every chip', () => {
+      const result = validateActionChips({
+        volunteer: { label: 'Volunteer', value: 'How can I volunteer?' },
+        flyer: { label: 'Flyer', value: '', action: 'show_showcase' },
+      });
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        entityType: 'action_chip',
+        entityId: 'flyer',
+        field: 'target_showcase_id',
+      });
+    });
+  });
+
   describe('Config Validation', () => {
     it('should validate entire config', () => {
       const programs = {
@@ -247,6 +316,46 @@ describe('Validation Engine', () => {
       expect(result.summary.totalErrors).toBe(0);
     });
 
+    it('should warn about file upload fields while uploads are turned off', () => {
+      const forms = {
+        apply: {
+          enabled: true,
+          form_id: 'apply',
+          program: 'p',
+          title: 'Apply',
+          description: '',
+          fields: [
+            { id: 'resume', type: 'file_upload' as const, label: 'Resume', prompt: 'Resume?', required: true },
+          ],
+        },
+      };
+      const uploadWarnings = (uploads: boolean) =>
+        validateConfig({}, forms, {}, {}, 4, [], { config: { features: { uploads } as TenantConfig['features'] } })
+          .warnings.filter((w) => w.message.includes('uploads are turned off'));
+
+      expect(uploadWarnings(false)).toHaveLength(1);
+      expect(uploadWarnings(true)).toEqual([]);
+    });
+
+    it('should check showcase items and action chips from the entry point sections', () => {
+      const result = validateConfig({}, {}, {}, {}, 4, [], {
+        config: {
+          ...tenantSettings,
+          action_chips: {
+            enabled: true,
+            max_display: 4,
+            show_on_welcome: true,
+            default_chips: { flyer: { label: 'Flyer', value: '', action: 'show_showcase', target_showcase_id: 'gone' } },
+          },
+        },
+        showcaseItems: [],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.entityId)).toEqual(['flyer']);
+      expect(result.errors[0].message).toContain('Showcase item "gone" does not exist');
+    });
+
     it('should provide readable summary', () => {
       const result = validateConfig({}, {}, {}, {});
 
@@ -0,0 +1,83 @@
+/**
+ * Action Chip Validation
+ * Validates the welcome action chips (action_chips.default_chips)
+ */
+
+import type { ActionChip } from '@/types/config';
+import type { ValidationResult, ValidationError, ValidationWarning } from './types';
+import { messages, createError } from './validationMessages';
+import { validateActionChip as validateActionChipFields } from './formValidators';
+
+// ============================================================================
+// SINGLE CHIP VALIDATION
+// ============================================================================
+
+/**
+ * Validate a single action chip
+ *
+ * Runs the Action Chips editor's checks (ID format, label, query, showcase
+ * target for show_showcase chips). Branch and showcase references are
+ * checked by relationship validation.
+ *
+ * @param chip - The chip to validate
+ * @param chipId - The chip identifier (its default_chips key)
+ * @returns Validation result with errors
+ */
+export function validateActionChip(chip: ActionChip, chipId: string): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  const entity = { ...chip, chipId };
+  const fieldErrors = validateActionChipFields(entity, {
+    isEditMode: true,
+    existingIds: [],
+    existingEntities: {},
+    originalEntity: entity,
+  });
+
+  Object.entries(fieldErrors).forEach(([field, detail]) => {
+    if (!detail) return;
+    errors.push(
+      createError(messages.actionChip.invalidChip(detail), 'action_chip', {
+        field,
+        entityId: chipId,
+      })
+    );
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    entity: 'action_chip',
+    entityId: chipId,
+  };
+}
+
+// ============================================================================
+// BULK CHIP VALIDATION
+// ============================================================================
+
+/**
+ * Validate all action chips in the config
+ *
+ * @param actionChips - Record of all chips, keyed by chip ID
+ * @returns Validation result
+ */
+export function validateActionChips(actionChips: Record<string, ActionChip>): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  Object.entries(actionChips).forEach(([chipId, chip]) => {
+    const result = validateActionChip(chip, chipId);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    entity: 'action_chip',
+  };
+}
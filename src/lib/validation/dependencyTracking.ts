@@ -8,6 +8,8 @@ import type {
   ConversationalForm,
   CTADefinition,
   ConversationBranch,
+  ShowcaseItem,
+  ActionChip,
 } from '@/types/config';
 import type { DependencyReference, DependencyGraph } from '@/types/validation';
 
@@ -21,26 +23,34 @@ import type { DependencyReference, DependencyGraph } from '@/types/validation';
  * Tracks:
  * - Programs: Used by forms
  * - Forms: Used by CTAs (start_form actions)
- * - CTAs: Used by branches (primary/secondary)
- * - Branches: No downstream dependencies
+ * - CTAs: Used by branches (primary/secondary) and showcase items
+ * - Branches: Used by action chips (target_branch)
+ * - Showcase items: Used by action chips (target_showcase_id)
+ * - Action chips: No downstream dependencies
  *
  * @param programs - All programs
  * @param forms - All forms
  * @param ctas - All CTAs
  * @param branches - All branches
+ * @param actionChips - All action chips (action_chips.default_chips)
+ * @param showcaseItems - All showcase items
  * @returns Complete dependency graph
  */
 export function buildDependencyGraph(
   programs: Record<string, Program>,
   forms: Record<string, ConversationalForm>,
   ctas: Record<string, CTADefinition>,
-  branches: Record<string, ConversationBranch>
+  branches: Record<string, ConversationBranch>,
+  actionChips: Record<string, ActionChip> = {},
+  showcaseItems: ShowcaseItem[] = []
 ): DependencyGraph {
   const graph: DependencyGraph = {
     programs: {},
     forms: {},
     ctas: {},
     branches: {},
+    showcaseItems: {},
+    actionChips: {},
   };
 
   // Initialize empty dependencies for all entities
@@ -60,6 +70,14 @@ export function buildDependencyGraph(
     graph.branches[branchId] = { usedBy: [], uses: [] };
   });
 
+  showcaseItems.forEach((item) => {
+    graph.showcaseItems[item.id] = { usedBy: [], uses: [] };
+  });
+
+  Object.keys(actionChips).forEach((chipId) => {
+    graph.actionChips[chipId] = { usedBy: [], uses: [] };
+  });
+
   // Build Form → Program dependencies
   Object.entries(forms).forEach(([formId, form]) => {
     if (form.program && programs[form.program]) {
@@ -141,6 +159,71 @@ export function buildDependencyGraph(
     });
   });
 
+  // Build Showcase Item → CTA dependencies
+  showcaseItems.forEach((item) => {
+    const ctaIds = [
+      item.available_ctas?.primary,
+      ...(item.available_ctas?.secondary ?? []),
+      item.action?.type === 'cta' ? item.action.cta_id : undefined,
+    ];
+
+    new Set(ctaIds).forEach((ctaId) => {
+      if (!ctaId || !ctas[ctaId]) return;
+
+      // Showcase item uses CTA
+      graph.showcaseItems[item.id].uses.push({
+        type: 'cta',
+        id: ctaId,
+        label: ctas[ctaId].label,
+      });
+
+      // CTA is used by showcase item
+      graph.ctas[ctaId].usedBy.push({
+        type: 'showcase',
+        id: item.id,
+        label: item.name,
+      });
+    });
+  });
+
+  // Build Action Chip → Branch / Showcase Item dependencies
+  Object.entries(actionChips).forEach(([chipId, chip]) => {
+    if (chip.target_branch && branches[chip.target_branch]) {
+      // Chip uses branch
+      graph.actionChips[chipId].uses.push({
+        type: 'branch',
+        id: chip.target_branch,
+        label: chip.target_branch,
+      });
+
+      // Branch is used by chip
+      graph.branches[chip.target_branch].usedBy.push({
+        type: 'action_chip',
+        id: chipId,
+        label: chip.label,
+      });
+    }
+
+    const itemId = chip.target_showcase_id;
+    if (chip.action === 'show_showcase' && itemId && graph.showcaseItems[itemId]) {
+      const item = showcaseItems.find((candidate) => candidate.id === itemId);
+
+      // Chip uses showcase item
+      graph.actionChips[chipId].uses.push({
+        type: 'showcase',
+        id: itemId,
+        label: item?.name ?? itemId,
+      });
+
+      // Showcase item is used by chip
+      graph.showcaseItems[itemId].usedBy.push({
+        type: 'action_chip',
+        id: chipId,
+        label: chip.label,
+      });
+    }
+  });
+
   return graph;
 }
 
@@ -240,14 +323,16 @@ export function getCTADependencies(
   form: DependencyReference | null;
   program: DependencyReference | null;
   branches: DependencyReference[];
+  showcaseItems: DependencyReference[];
 } {
   const ctaDeps = graph.ctas[ctaId];
   if (!ctaDeps) {
-    return { form: null, program: null, branches: [] };
+    return { form: null, program: null, branches: [], showcaseItems: [] };
   }
 
   const form = ctaDeps.uses.find((ref) => ref.type === 'form') || null;
   const branches = ctaDeps.usedBy.filter((ref) => ref.type === 'branch');
+  const showcaseItems = ctaDeps.usedBy.filter((ref) => ref.type === 'showcase');
 
   // Get program from form
   let program: DependencyReference | null = null;
@@ -258,7 +343,7 @@ export function getCTADependencies(
     }
   }
 
-  return { form, program, branches };
+  return { form, program, branches, showcaseItems };
 }
 
 /**
@@ -271,13 +356,15 @@ export function getBranchDependencies(
   ctas: DependencyReference[];
   forms: DependencyReference[];
   programs: DependencyReference[];
+  actionChips: DependencyReference[];
 } {
   const branchDeps = graph.branches[branchId];
   if (!branchDeps) {
-    return { ctas: [], forms: [], programs: [] };
+    return { ctas: [], forms: [], programs: [], actionChips: [] };
   }
 
   const ctas = branchDeps.uses.filter((ref) => ref.type === 'cta');
+  const actionChips = branchDeps.usedBy.filter((ref) => ref.type === 'action_chip');
 
   // Get forms from CTAs
   const forms: DependencyReference[] = [];
@@ -305,7 +392,49 @@ export function getBranchDependencies(
     }
   });
 
-  return { ctas, forms, programs };
+  return { ctas, forms, programs, actionChips };
+}
+
+/**
+ * Get dependencies for a specific showcase item
+ */
+export function getShowcaseDependencies(
+  itemId: string,
+  graph: DependencyGraph
+): {
+  ctas: DependencyReference[];
+  actionChips: DependencyReference[];
+} {
+  const itemDeps = graph.showcaseItems[itemId];
+  if (!itemDeps) {
+    return { ctas: [], actionChips: [] };
+  }
+
+  return {
+    ctas: itemDeps.uses.filter((ref) => ref.type === 'cta'),
+    actionChips: itemDeps.usedBy.filter((ref) => ref.type === 'action_chip'),
+  };
+}
+
+/**
+ * Get dependencies for a specific action chip
+ */
+export function getActionChipDependencies(
+  chipId: string,
+  graph: DependencyGraph
+): {
+  branch: DependencyReference | null;
+  showcaseItem: DependencyReference | null;
+} {
+  const chipDeps = graph.actionChips[chipId];
+  if (!chipDeps) {
+    return { branch: null, showcaseItem: null };
+  }
+
+  return {
+    branch: chipDeps.uses.find((ref) => ref.type === 'branch') || null,
+    showcaseItem: chipDeps.uses.find((ref) => ref.type === 'showcase') || null,
+  };
 }
 
 // ============================================================================
@@ -320,6 +449,8 @@ export interface DeletionImpact {
     forms: DependencyReference[];
     ctas: DependencyReference[];
     branches: DependencyReference[];
+    showcaseItems?: DependencyReference[];
+    actionChips?: DependencyReference[];
   };
 }
 
@@ -408,7 +539,8 @@ export function getFormDeletionImpact(
 /**
  * Generate deletion impact report for a CTA
  *
- * CTAs can be deleted, but it will break branches that reference them.
+ * CTAs can be deleted, but it will break branches and showcase items that
+ * reference them.
  */
 export function getCTADeletionImpact(
   ctaId: string,
@@ -425,6 +557,12 @@ export function getCTADeletionImpact(
     );
   }
 
+  if (deps.showcaseItems.length > 0) {
+    warnings.push(
+      `${deps.showcaseItems.length} showcase item${deps.showcaseItems.length > 1 ? 's' : ''} offer this CTA: ${deps.showcaseItems.map((item) => item.label).join(', ')}`
+    );
+  }
+
   return {
     canDelete: true,
     blockingReasons: [],
@@ -433,6 +571,7 @@ export function getCTADeletionImpact(
       forms: [],
       ctas: [],
       branches: deps.branches,
+      showcaseItems: deps.showcaseItems,
     },
   };
 }
@@ -440,11 +579,78 @@ export function getCTADeletionImpact(
 /**
  * Generate deletion impact report for a branch
  *
- * Branches can always be safely deleted as nothing depends on them.
+ * Branches can be deleted, but action chips routed to them fall back to
+ * default routing.
  */
 export function getBranchDeletionImpact(
-  _branchId: string,
+  branchId: string,
   _branch: ConversationBranch,
+  graph: DependencyGraph
+): DeletionImpact {
+  const deps = getBranchDependencies(branchId, graph);
+
+  const warnings: string[] = [];
+
+  if (deps.actionChips.length > 0) {
+    warnings.push(
+      `${deps.actionChips.length} action chip${deps.actionChips.length > 1 ? 's' : ''} route to this branch: ${deps.actionChips.map((chip) => chip.label).join(', ')}`
+    );
+  }
+
+  return {
+    canDelete: true,
+    blockingReasons: [],
+    warnings: warnings.length > 0 ? warnings : ['No dependencies found. Safe to delete.'],
+    affectedEntities: {
+      forms: [],
+      ctas: [],
+      branches: [],
+      actionChips: deps.actionChips,
+    },
+  };
+}
+
+/**
+ * Generate deletion impact report for a showcase item
+ *
+ * Showcase items can be deleted, but it will break action chips that show them.
+ */
+export function getShowcaseDeletionImpact(
+  itemId: string,
+  _item: ShowcaseItem,
+  graph: DependencyGraph
+): DeletionImpact {
+  const deps = getShowcaseDependencies(itemId, graph);
+
+  const warnings: string[] = [];
+
+  if (deps.actionChips.length > 0) {
+    warnings.push(
+      `${deps.actionChips.length} action chip${deps.actionChips.length > 1 ? 's' : ''} show this item: ${deps.actionChips.map((chip) => chip.label).join(', ')}`
+    );
+  }
+
+  return {
+    canDelete: true,
+    blockingReasons: [],
+    warnings: warnings.length > 0 ? warnings : ['No dependencies found. Safe to delete.'],
+    affectedEntities: {
+      forms: [],
+      ctas: [],
+      branches: [],
+      actionChips: deps.actionChips,
+    },
+  };
+}
+
+/**
+ * Generate deletion impact report for an action chip
+ *
+ * Action chips can always be safely deleted as nothing depends on them.
+ */
+export function getActionChipDeletionImpact(
+  _chipId: string,
+  _chip: ActionChip,
   _graph: DependencyGraph
 ): DeletionImpact {
   return {
@@ -463,7 +669,7 @@ export function getBranchDeletionImpact(
  * Format deletion impact as human-readable text
  */
 export function formatDeletionImpact(
-  entityType: 'program' | 'form' | 'cta' | 'branch',
+  entityType: 'program' | 'form' | 'cta' | 'branch' | 'showcase item' | 'action chip',
   entityName: string,
   impact: DeletionImpact
 ): string {
@@ -3,8 +3,12 @@
  * Validates conversational form definitions
  */
 
-import type { ConversationalForm, Program, FormField, FormFieldType } from '@/types/config';
+import type { ConversationalForm, Program, FormField, FormFieldType, FieldCondition } from '@/types/config';
 import { FORM_FIELD_TYPES } from '@/types/config';
+import { findSubfield, subfieldRef } from '@/lib/compositeFieldTemplates';
+import { conditionValues, operatorNeedsValue, parseConditionRef } from '@/lib/formConditions';
+import { isOptionFieldType, isValidMimeType } from '@/lib/formFieldTypes';
+import { isE164Phone, isValidEmail, unknownPlaceholders } from '@/lib/notificationTemplates';
 import type { ValidationResult, ValidationError, ValidationWarning } from './types';
 import { messages, createError, createWarning } from './validationMessages';
 
@@ -37,6 +41,9 @@ export function validateForm(
   // Validate trigger phrases (warning if missing)
   validateTriggerPhrases(form, formId, warnings);
 
+  // Validate notification templates and recipients
+  validateNotifications(form, formId, errors, warnings);
+
   // Quality checks
   validateFormQuality(form, formId, warnings);
 
@@ -154,9 +161,12 @@ function validateFormFields(
 
   // Validate individual fields
   form.fields.forEach((field, index) => {
-    validateField(field, index, formId, errors);
+    validateField(field, index, formId, errors, warnings);
   });
 
+  // Show-if rules
+  validateFieldConditions(form, formId, errors, warnings);
+
   // Warn if no required fields
   const hasRequiredField = form.fields.some((field) => field.required);
   if (!hasRequiredField) {
@@ -203,7 +213,8 @@ function validateField(
   field: FormField,
   index: number,
   formId: string,
-  errors: ValidationError[]
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
 ): void {
   // Field type must be one the builder and widget support. Externally-authored
   // configs (e.g. seeders) have shipped types like 'boolean' that the widget
@@ -222,8 +233,8 @@ function validateField(
     );
   }
 
-  // Select fields must have options
-  if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+  // Select and multi-select fields must have options
+  if (isOptionFieldType(field.type) && (!field.options || field.options.length === 0)) {
     errors.push(
       createError(messages.form.selectNeedsOptions, 'form', {
         field: `fields[${index}].options`,
@@ -259,10 +270,248 @@ function validateField(
     );
   }
 
+  validateTypeSettings(field, index, formId, errors, warnings);
+
   // Email and phone field types inherently provide format validation
   // No additional warnings needed - the field type itself ensures proper validation
 }
 
+/**
+ * Settings of the multi-select, consent and file upload types
+ */
+function validateTypeSettings(
+  field: FormField,
+  index: number,
+  formId: string,
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): void {
+  const error = (message: string, key: string) =>
+    errors.push(createError(message, 'form', { field: `fields[${index}].${key}`, entityId: formId }));
+
+  if (field.type === 'multi_select') {
+    const min = field.min_selections ?? 0;
+    const optionCount = field.options?.length ?? 0;
+    if (field.max_selections !== undefined && min > field.max_selections) {
+      error(messages.form.selectionLimitsReversed(field.id), 'min_selections');
+    } else if (optionCount > 0 && min > optionCount) {
+      error(messages.form.selectionsExceedOptions(field.id, min, optionCount), 'min_selections');
+    }
+  }
+
+  if (field.type === 'consent') {
+    if (!field.policy_text?.trim() && !field.policy_url?.trim()) {
+      error(messages.form.consentNeedsPolicy(field.id), 'policy_text');
+    }
+    if (field.policy_url?.trim() && !/^https?:\/\/\S+$/i.test(field.policy_url.trim())) {
+      error(messages.form.invalidPolicyUrl(field.id), 'policy_url');
+    }
+    if (!field.required) {
+      warnings.push(
+        createWarning(messages.form.consentNotRequired(field.id), 'form', {
+          field: `fields[${index}].required`,
+          entityId: formId,
+        })
+      );
+    }
+  }
+
+  if (field.type === 'file_upload') {
+    field.accepted_types
+      ?.filter((type) => type.trim() && !isValidMimeType(type))
+      .forEach((type) => error(messages.form.invalidMimeType(field.id, type), 'accepted_types'));
+  }
+}
+
+// ============================================================================
+// NOTIFICATION VALIDATION
+// ============================================================================
+
+/**
+ * Check the staff notification and applicant confirmation: placeholders must
+ * be merge fields of this form, recipients valid emails / E.164 numbers.
+ * Disabled blocks are checked too, so turning one on doesn't surface errors.
+ */
+function validateNotifications(
+  form: ConversationalForm,
+  formId: string,
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): void {
+  const notifications = form.notifications;
+  if (!notifications) return;
+  const { internal, applicant_confirmation: confirmation } = notifications;
+
+  const templates: [string, string, string | undefined][] = [
+    ['Staff email subject', 'notifications.internal.subject', internal?.subject],
+    ['Staff email body', 'notifications.internal.body_template', internal?.body_template],
+    ['Staff SMS', 'notifications.internal.sms_template', internal?.sms_template],
+    ['Applicant confirmation subject', 'notifications.applicant_confirmation.subject', confirmation?.subject],
+    ['Applicant confirmation body', 'notifications.applicant_confirmation.body_template', confirmation?.body_template],
+  ];
+  templates.forEach(([where, path, template]) => {
+    unknownPlaceholders(template, form).forEach((token) =>
+      errors.push(
+        createError(messages.form.notificationUnknownPlaceholder(where, token), 'form', { field: path, entityId: formId })
+      )
+    );
+  });
+
+  const recipients = (internal?.recipients ?? []).filter((r) => r.trim());
+  const smsRecipients = (internal?.sms_recipients ?? []).filter((r) => r.trim());
+  recipients
+    .filter((recipient) => !isValidEmail(recipient))
+    .forEach((recipient) =>
+      errors.push(
+        createError(messages.form.notificationInvalidEmail(recipient), 'form', {
+          field: 'notifications.internal.recipients',
+          entityId: formId,
+        })
+      )
+    );
+  smsRecipients
+    .filter((recipient) => !isE164Phone(recipient))
+    .forEach((recipient) =>
+      errors.push(
+        createError(messages.form.notificationInvalidPhone(recipient), 'form', {
+          field: 'notifications.internal.sms_recipients',
+          entityId: formId,
+        })
+      )
+    );
+
+  const warnNoRecipients = (channel: string, key: string) =>
+    warnings.push(
+      createWarning(messages.form.notificationNoRecipients(channel), 'form', {
+        field: `notifications.internal.${key}`,
+        entityId: formId,
+      })
+    );
+  if (internal?.enabled && internal.channels?.email && recipients.length === 0) {
+    warnNoRecipients('email', 'recipients');
+  }
+  if (internal?.enabled && internal.channels?.sms && smsRecipients.length === 0) {
+    warnNoRecipients('SMS', 'sms_recipients');
+  }
+
+  if (confirmation?.enabled && !(form.fields ?? []).some((field) => field.type === 'email')) {
+    warnings.push(
+      createWarning(messages.form.confirmationWithoutEmailField, 'form', {
+        field: 'notifications.applicant_confirmation.enabled',
+        entityId: formId,
+      })
+    );
+  }
+}
+
+// ============================================================================
+// CONDITION VALIDATION
+// ============================================================================
+
+/** Operators that can only hold once the referenced field has an answer */
+const NEEDS_ANSWER = new Set(['equals', 'in', 'contains', 'greater_than', 'less_than', 'is_answered']);
+
+/**
+ * Check each field's show-if rules: they may only use answers to earlier
+ * fields, must name a part of a composite field, and need a value to compare.
+ * Fields whose rules can never hold get a warning.
+ */
+function validateFieldConditions(
+  form: ConversationalForm,
+  formId: string,
+  errors: ValidationError[],
+  warnings: ValidationWarning[]
+): void {
+  const unreachable = new Set<string>();
+
+  form.fields.forEach((field, index) => {
+    const rules = field.conditions?.rules ?? [];
+    if (rules.length === 0) return;
+
+    const path = `fields[${index}].conditions`;
+    const errorCount = errors.length;
+    rules.forEach((rule) => {
+      const ref = rule.field?.trim() ?? '';
+      const { fieldId, subfieldId } = parseConditionRef(ref);
+      const sourceIndex = form.fields.findIndex((f) => f.id === fieldId);
+      const source = form.fields[sourceIndex];
+      const push = (message: string) => errors.push(createError(message, 'form', { field: path, entityId: formId }));
+
+      if (!ref || !source || (subfieldId && !findSubfield(source, subfieldId))) {
+        push(messages.form.conditionUnknownField(field.id, ref));
+      } else if (sourceIndex >= index) {
+        push(messages.form.conditionLaterField(field.id, ref));
+      } else if (!subfieldId && source.subfields?.length) {
+        push(messages.form.conditionNeedsPart(field.id, ref, subfieldRef(source, source.subfields[0])));
+      } else if (operatorNeedsValue(rule.operator) && conditionValues(rule).length === 0) {
+        push(messages.form.conditionMissingValue(field.id, ref));
+      } else if (
+        (rule.operator === 'greater_than' || rule.operator === 'less_than') &&
+        Number.isNaN(Number(conditionValues(rule)[0]))
+      ) {
+        push(messages.form.conditionNotANumber(field.id, ref));
+      }
+    });
+    if (errors.length > errorCount) return;
+
+    const reason = unreachableReason(form.fields, field, unreachable);
+    if (reason) {
+      unreachable.add(field.id);
+      warnings.push(
+        createWarning(messages.form.unreachableField(field.id, reason), 'form', {
+          field: path,
+          entityId: formId,
+        })
+      );
+    }
+  });
+}
+
+/** Why a single rule can never hold, or null */
+function neverHolds(rule: FieldCondition, fields: FormField[], unreachable: Set<string>): string | null {
+  const { fieldId, subfieldId } = parseConditionRef(rule.field);
+  if (unreachable.has(fieldId) && NEEDS_ANSWER.has(rule.operator)) {
+    return `"${fieldId}" is never asked`;
+  }
+
+  if (rule.operator !== 'equals' && rule.operator !== 'in') return null;
+  const source = fields.find((f) => f.id === fieldId);
+  const options = subfieldId ? findSubfield(source, subfieldId)?.options : source?.options;
+  if (!options?.length) return null;
+
+  const known = new Set(options.flatMap((o) => [o.value.toLowerCase(), o.label.toLowerCase()]));
+  const values = conditionValues(rule);
+  return values.some((value) => known.has(value.toLowerCase()))
+    ? null
+    : `"${rule.field}" has no option ${values.map((v) => `"${v}"`).join(' or ')}`;
+}
+
+/** Why a field's rule set can never hold, or null */
+function unreachableReason(fields: FormField[], field: FormField, unreachable: Set<string>): string | null {
+  const { match, rules } = field.conditions!;
+  const reasons = rules.map((rule) => neverHolds(rule, fields, unreachable));
+
+  if (match === 'any') {
+    return reasons.every(Boolean) ? reasons.join('; ') : null;
+  }
+
+  const first = reasons.find(Boolean);
+  if (first) return first;
+
+  // Two AND-ed rules requiring different answers to the same question
+  const required = new Map<string, string[]>();
+  for (const rule of rules) {
+    if (rule.operator !== 'equals' && rule.operator !== 'in') continue;
+    const values = conditionValues(rule).map((v) => v.toLowerCase());
+    const previous = required.get(rule.field);
+    if (previous && !values.some((value) => previous.includes(value))) {
+      return `it needs "${rule.field}" to be two different answers`;
+    }
+    required.set(rule.field, previous ? values.filter((value) => previous.includes(value)) : values);
+  }
+  return null;
+}
+
 // ============================================================================
 // TRIGGER PHRASE VALIDATION
 // ============================================================================
@@ -55,7 +55,8 @@ export function validateProgram(
   } catch (error) {
     if (error instanceof ZodError) {
       error.errors.forEach((err) => {
-        const field = err.path[0] as string;
+        // Nested selection_metadata errors keep their dotted path
+        const field = err.path.join('.');
         if (!errors[field]) {
           errors[field] = err.message;
         }
@@ -111,6 +112,7 @@ export function validateCTA(
       ...(data.url && { url: data.url }),
       ...(data.query && { query: data.query }),
       ...(data.prompt && { prompt: data.prompt }),
+      ...(data.selection_metadata && { selection_metadata: data.selection_metadata }),
     };
     ctaDefinitionSchema.parse(ctaData);
 
@@ -8,8 +8,11 @@ import type {
   ConversationalForm,
   CTADefinition,
   ConversationBranch,
+  ShowcaseItem,
   TenantConfig,
+  TopicDefinition,
 } from '@/types/config';
+import type { EntryPointConfig } from '@/lib/flowGraph';
 import type {
   ValidationError,
   ValidationWarning,
@@ -21,11 +24,17 @@ import type {
 import { validateCTA, validateCTAs } from './ctaValidation';
 import { validateForm, validateForms } from './formValidation';
 import { validateBranch, validateBranches } from './branchValidation';
+import { validateShowcaseItem, validateShowcaseItems } from './showcaseValidation';
+import { validateActionChip, validateActionChips } from './actionChipValidation';
 import { validateRelationships } from './relationshipValidation';
+import { validateReachability } from './reachabilityValidation';
 import {
   validateRuntimeBehavior,
   validatePostSubmissionActions,
+  validateUploadFields,
 } from './runtimeValidation';
+import { validateTenantSchema } from './schemaValidation';
+import { validateLocalization } from './localizationValidation';
 
 // Re-export types and utilities
 export * from './types';
@@ -33,8 +42,14 @@ export * from './validationMessages';
 export { validateCTA, validateCTAs } from './ctaValidation';
 export { validateForm, validateForms } from './formValidation';
 export { validateBranch, validateBranches } from './branchValidation';
+export { validateShowcaseItem, validateShowcaseItems } from './showcaseValidation';
+export { validateActionChip, validateActionChips } from './actionChipValidation';
 export { validateRelationships } from './relationshipValidation';
+export { validateReachability, describeClickPath } from './reachabilityValidation';
 export { validateRuntimeBehavior } from './runtimeValidation';
+export { validateTenantSchema, settingsLocation, SETTINGS_ENTITY_PREFIX } from './schemaValidation';
+export type { SettingsLocation, SettingsTab } from './schemaValidation';
+export { validateLocalization } from './localizationValidation';
 
 // Re-export dependency tracking
 export * from './dependencyTracking';
@@ -47,7 +62,8 @@ export * from './dependencyTracking';
  * Validate configuration from store state
  *
  * This is the main validation function that validates the entire configuration
- * from the Zustand store state.
+ * from the Zustand store state. When a tenant is loaded, the config is also
+ * checked against the full tenant schema (see validateConfig).
  *
  * @param state - The store state containing all entities
  * @returns Comprehensive validation result
@@ -57,6 +73,8 @@ export function validateConfigFromStore(state: {
   forms: { forms: Record<string, ConversationalForm> };
   ctas: { ctas: Record<string, CTADefinition> };
   branches: { branches: Record<string, ConversationBranch> };
+  topics?: { topic_definitions: TopicDefinition[] };
+  contentShowcase?: { content_showcase: ShowcaseItem[] };
   config: { baseConfig: Partial<TenantConfig> | null };
 }): ConfigValidationResult {
   // Extract max CTAs per response from global settings (default to 4)
@@ -67,7 +85,11 @@ export function validateConfigFromStore(state: {
     state.forms.forms,
     state.ctas.ctas,
     state.branches.branches,
-    maxCtasPerResponse
+    maxCtasPerResponse,
+    state.topics?.topic_definitions,
+    state.config?.baseConfig
+      ? { config: state.config.baseConfig, showcaseItems: state.contentShowcase?.content_showcase }
+      : undefined
   );
 }
 
@@ -79,15 +101,24 @@ export function validateConfigFromStore(state: {
  * Validate entire configuration
  *
  * Runs all validation checks:
- * 1. Individual entity validation (Programs, Forms, CTAs, Branches)
+ * 1. Individual entity validation (Programs, Forms, CTAs, Branches, and the
+ *    showcase items and action chips in `entryPoints`)
  * 2. Relationship validation (cross-entity references)
  * 3. Runtime behavior validation
+ * 4. Reachability from entry points, untranslated strings, and the full
+ *    tenant schema, as CI runs it before deploy (when `entryPoints` is given)
  *
  * @param programs - All programs
  * @param forms - All forms
  * @param ctas - All CTAs
  * @param branches - All branches
  * @param maxCtasPerResponse - Maximum CTAs per response (from global settings)
+ * @param topics - All topic definitions (V4.1 pool selection)
+ * @param entryPoints - Entry point sections and showcase items, for reachability
+ *   and the chip and showcase checks (and `features`, for the upload check;
+ *   the welcome text and `localization`, for the translation check). Its
+ *   `config`, with the entities above in place of its own, is the config the
+ *   tenant schema checks.
  * @returns Comprehensive validation result
  */
 export function validateConfig(
@@ -95,11 +126,19 @@ export function validateConfig(
   forms: Record<string, ConversationalForm>,
   ctas: Record<string, CTADefinition>,
   branches: Record<string, ConversationBranch>,
-  maxCtasPerResponse: number = 4
+  maxCtasPerResponse: number = 4,
+  topics: TopicDefinition[] = [],
+  entryPoints?: {
+    config: EntryPointConfig &
+      Pick<Partial<TenantConfig>, 'features' | 'welcome_message' | 'callout_text' | 'localization'>;
+    showcaseItems?: ShowcaseItem[];
+  }
 ): ConfigValidationResult {
   const entityResults: EntityValidationResult[] = [];
   const allErrors: ValidationError[] = [];
   const allWarnings: ValidationWarning[] = [];
+  const showcaseItems = entryPoints?.showcaseItems ?? [];
+  const actionChips = entryPoints?.config.action_chips?.default_chips ?? {};
 
   // Validate individual entities
   // Forms
@@ -147,8 +186,46 @@ export function validateConfig(
     }
   });
 
+  // Showcase items
+  const showcaseResult = validateShowcaseItems(showcaseItems);
+  allErrors.push(...showcaseResult.errors);
+  allWarnings.push(...showcaseResult.warnings);
+  showcaseItems.forEach((item) => {
+    const result = validateShowcaseItem(item);
+    if (result.errors.length > 0 || result.warnings.length > 0) {
+      entityResults.push({
+        entityId: item.id,
+        entityType: 'showcase',
+        result,
+      });
+    }
+  });
+
+  // Action chips
+  const chipsResult = validateActionChips(actionChips);
+  allErrors.push(...chipsResult.errors);
+  allWarnings.push(...chipsResult.warnings);
+  Object.keys(actionChips).forEach((chipId) => {
+    const result = validateActionChip(actionChips[chipId], chipId);
+    if (result.errors.length > 0 || result.warnings.length > 0) {
+      entityResults.push({
+        entityId: chipId,
+        entityType: 'action_chip',
+        result,
+      });
+    }
+  });
+
   // Validate relationships
-  const relationshipsResult = validateRelationships(programs, forms, ctas, branches);
+  const relationshipsResult = validateRelationships(
+    programs,
+    forms,
+    ctas,
+    branches,
+    topics,
+    showcaseItems,
+    actionChips
+  );
   allErrors.push(...relationshipsResult.errors);
   allWarnings.push(...relationshipsResult.warnings);
 
@@ -162,6 +239,41 @@ export function validateConfig(
   validatePostSubmissionActions(forms, postSubmissionWarnings);
   allWarnings.push(...postSubmissionWarnings);
 
+  // Checks that need the tenant's top-level sections: upload fields,
+  // reachability from entry points, and translations
+  if (entryPoints) {
+    validateUploadFields(forms, entryPoints.config.features?.uploads === true, allWarnings);
+    const reachabilityResult = validateReachability(
+      forms,
+      ctas,
+      branches,
+      showcaseItems,
+      entryPoints.config
+    );
+    allWarnings.push(...reachabilityResult.warnings);
+    const localizationResult = validateLocalization({
+      ...entryPoints.config,
+      conversational_forms: forms,
+      cta_definitions: ctas,
+      content_showcase: showcaseItems,
+    });
+    allWarnings.push(...localizationResult.warnings);
+    allErrors.push(
+      ...validateTenantSchema(
+        {
+          ...entryPoints.config,
+          programs,
+          conversational_forms: forms,
+          cta_definitions: ctas,
+          conversation_branches: branches,
+          content_showcase: showcaseItems,
+          ...((topics.length > 0 || 'topic_definitions' in entryPoints.config) && { topic_definitions: topics }),
+        },
+        allErrors
+      )
+    );
+  }
+
   // Calculate summary
   const entitiesWithErrors = new Set(
     allErrors.map((e) => e.entityId).filter(Boolean)
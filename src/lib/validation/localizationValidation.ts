@@ -0,0 +1,73 @@
+/**
+ * Localization Validation
+ * Flags untranslated strings in the tenant's enabled locales
+ *
+ * Issues are filed under `settings-localization`, so the validation panel
+ * lists them with the other settings and opens the Translations page. One
+ * warning per locale: a missing translation is not a broken config.
+ */
+
+import {
+  collectTranslatableStrings,
+  missingTranslations,
+  translationLocales,
+  unusedTranslations,
+  type LocalizableConfig,
+} from '@/lib/localization';
+import type { ValidationResult, ValidationWarning } from './types';
+import { messages, createWarning } from './validationMessages';
+import { SETTINGS_ENTITY_PREFIX } from './schemaValidation';
+
+/** How many missing string keys a warning names */
+const EXAMPLE_COUNT = 3;
+
+/**
+ * Validate translations for every enabled locale other than the default
+ *
+ * @param config - Sections holding user-facing strings, and `localization`
+ * @returns Validation result with warnings
+ */
+export function validateLocalization(config: LocalizableConfig): ValidationResult {
+  const warnings: ValidationWarning[] = [];
+  const entityId = `${SETTINGS_ENTITY_PREFIX}localization`;
+  const localization = config.localization;
+  const locales = translationLocales(localization);
+
+  if (localization && locales.length > 0) {
+    const strings = collectTranslatableStrings(config);
+
+    locales.forEach((locale) => {
+      const missing = missingTranslations(strings, localization, locale);
+      if (missing.length > 0) {
+        const examples =
+          missing.slice(0, EXAMPLE_COUNT).join(', ') +
+          (missing.length > EXAMPLE_COUNT ? `, +${missing.length - EXAMPLE_COUNT} more` : '');
+        warnings.push(
+          createWarning(messages.localization.untranslated(locale, missing.length, strings.length, examples), 'config', {
+            field: locale,
+            entityId,
+          })
+        );
+      }
+
+      const unused = unusedTranslations(strings, localization, locale);
+      if (unused.length > 0) {
+        warnings.push(
+          createWarning(messages.localization.unusedTranslations(locale, unused.length), 'config', {
+            field: locale,
+            entityId,
+            level: 'info',
+          })
+        );
+      }
+    });
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    warnings,
+    entity: 'config',
+    entityId,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Reachability Validation
+ * Warns about entities no visitor can get to, and places where a visitor
+ * gets stuck (see lib/flowGraph/reachability)
+ */
+
+import type {
+  ConversationalForm,
+  CTADefinition,
+  ConversationBranch,
+  ShowcaseItem,
+} from '@/types/config';
+import type { ValidationResult, ValidationWarning } from './types';
+import { messages, createWarning } from './validationMessages';
+import {
+  analyzeReachability,
+  type ClickPath,
+  type EntryPointConfig,
+  type FlowGraph,
+} from '@/lib/flowGraph';
+
+// ============================================================================
+// REACHABILITY VALIDATION
+// ============================================================================
+
+const ENTITY_LABELS = { branch: 'Branch', form: 'Form', showcase: 'Showcase item' } as const;
+
+const ENTRY_LABELS: Record<ClickPath['entry']['source'], string> = {
+  action_chip: 'Chip',
+  fallback_branch: 'Fallback',
+  quick_help: 'Quick help',
+  ice_breaker: 'Ice breaker',
+  persistent_menu: 'Menu item',
+  ai_vocabulary: 'AI',
+};
+
+/**
+ * A click path as text, e.g. `Chip "Volunteer" → volunteer → apply → volunteer_apply`
+ */
+export function describeClickPath(graph: FlowGraph, path: ClickPath): string {
+  // A chip entry names its own node; every other entry leads into one
+  const nodeIds = graph.nodes[path.nodeIds[0]].kind === 'actionChip' ? path.nodeIds.slice(1) : path.nodeIds;
+  return [`${ENTRY_LABELS[path.entry.source]} "${path.entry.label}"`, ...nodeIds.map((id) => graph.nodes[id].entityId)].join(' → ');
+}
+
+/**
+ * Validate what visitors can reach from the config's entry points
+ *
+ * Checks:
+ * - Enabled branches, forms and showcase items no entry point leads to
+ * - Reachable dead ends: branches with no working CTA, disabled forms and
+ *   showcase items a visitor is sent to
+ *
+ * Configs with no entry points at all are skipped: with nothing to start
+ * from, every entity would be reported.
+ *
+ * @param forms - All forms
+ * @param ctas - All CTAs
+ * @param branches - All branches
+ * @param showcaseItems - All showcase items
+ * @param config - Entry point sections (action chips, quick help, CTA settings, Messenger)
+ * @returns Validation result (warnings only)
+ */
+export function validateReachability(
+  forms: Record<string, ConversationalForm>,
+  ctas: Record<string, CTADefinition>,
+  branches: Record<string, ConversationBranch>,
+  showcaseItems: ShowcaseItem[],
+  config: EntryPointConfig
+): ValidationResult {
+  const warnings: ValidationWarning[] = [];
+  const report = analyzeReachability({ forms, ctas, branches, showcaseItems, config });
+
+  if (report.entryPoints.length > 0) {
+    report.unreachable.forEach((nodeId) => {
+      const node = report.graph.nodes[nodeId];
+      if (node.disabled || !(node.kind in ENTITY_LABELS)) return;
+      const label = ENTITY_LABELS[node.kind as keyof typeof ENTITY_LABELS];
+      warnings.push(
+        createWarning(messages.reachability.unreachable(label, node.entityId), 'relationship', {
+          entityId: node.entityId,
+          suggestedFix: 'Route a chip, branch or CTA to it, or delete it if unused',
+        })
+      );
+    });
+
+    report.deadEnds.forEach((deadEnd) => {
+      const node = report.graph.nodes[deadEnd.nodeId];
+      const path = deadEnd.path ? describeClickPath(report.graph, deadEnd.path) : node.entityId;
+      warnings.push(
+        createWarning(messages.reachability.deadEnd(deadEnd.detail, path), 'relationship', {
+          entityId: node.entityId,
+          suggestedFix: 'Offer visitors a way forward from here',
+        })
+      );
+    });
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    warnings,
+    entity: 'relationship',
+  };
+}
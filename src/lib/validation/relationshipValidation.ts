@@ -8,9 +8,13 @@ import type {
   ConversationalForm,
   CTADefinition,
   ConversationBranch,
+  TopicDefinition,
+  ShowcaseItem,
+  ActionChip,
 } from '@/types/config';
 import type { ValidationResult, ValidationError, ValidationWarning } from './types';
 import { messages, createError, createWarning } from './validationMessages';
+import { buildFlowGraph, findCycles } from '@/lib/flowGraph';
 
 // ============================================================================
 // RELATIONSHIP VALIDATION
@@ -23,19 +27,28 @@ import { messages, createError, createWarning } from './validationMessages';
  * - Form → Program references
  * - CTA → Form references
  * - Branch → CTA references
+ * - Topic ↔ CTA coverage (V4.1 pool selection)
+ * - Showcase item → CTA references
+ * - Action chip → branch and showcase item references
  * - Circular dependencies
  *
  * @param programs - All programs
  * @param forms - All forms
  * @param ctas - All CTAs
  * @param branches - All branches
+ * @param topics - All topic definitions
+ * @param showcaseItems - All showcase items
+ * @param actionChips - All action chips (action_chips.default_chips)
  * @returns Validation result
  */
 export function validateRelationships(
   programs: Record<string, Program>,
   forms: Record<string, ConversationalForm>,
   ctas: Record<string, CTADefinition>,
-  branches: Record<string, ConversationBranch>
+  branches: Record<string, ConversationBranch>,
+  topics: TopicDefinition[] = [],
+  showcaseItems: ShowcaseItem[] = [],
+  actionChips: Record<string, ActionChip> = {}
 ): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
@@ -49,11 +62,20 @@ export function validateRelationships(
   // Validate branch → CTA references
   validateBranchCTAReferences(branches, ctas, errors);
 
+  // Validate topic ↔ CTA coverage
+  validateTopicCoverage(topics, ctas, warnings);
+
+  // Validate showcase item → CTA references
+  validateShowcaseCTAReferences(showcaseItems, ctas, errors);
+
+  // Validate action chip → branch / showcase item references
+  validateActionChipReferences(actionChips, branches, showcaseItems, errors);
+
   // Detect circular dependencies
   detectCircularDependencies(forms, ctas, branches, warnings);
 
   // Check for orphaned entities
-  checkOrphanedEntities(programs, forms, ctas, branches, warnings);
+  checkOrphanedEntities(programs, forms, ctas, branches, showcaseItems, warnings);
 
   return {
     valid: errors.length === 0,
@@ -189,6 +211,138 @@ function validateBranchCTAReferences(
   });
 }
 
+// ============================================================================
+// TOPIC ↔ CTA COVERAGE
+// ============================================================================
+
+/**
+ * Validate that every topic has at least one ai_available CTA tagged with it,
+ * and that CTA topic tags reference defined topics
+ */
+function validateTopicCoverage(
+  topics: TopicDefinition[],
+  ctas: Record<string, CTADefinition>,
+  warnings: ValidationWarning[]
+): void {
+  const topicIds = new Set(topics.map((topic) => topic.id));
+
+  topics.forEach((topic) => {
+    const tagged = Object.values(ctas).filter((cta) =>
+      cta.selection_metadata?.topic_tags?.includes(topic.id)
+    );
+    if (!tagged.some((cta) => cta.ai_available)) {
+      warnings.push(
+        createWarning(messages.topic.noEligibleCTAs(topic.id), 'relationship', {
+          entityId: `topic-${topic.id}`,
+          suggestedFix:
+            tagged.length > 0
+              ? `Enable AI selection on a CTA tagged "${topic.id}"`
+              : `Edit an AI-available CTA and add "${topic.id}" to its topic tags`,
+        })
+      );
+    }
+  });
+
+  // Tags only matter once the tenant defines topics
+  if (topicIds.size === 0) return;
+
+  Object.entries(ctas).forEach(([ctaId, cta]) => {
+    cta.selection_metadata?.topic_tags?.forEach((tag) => {
+      if (!topicIds.has(tag)) {
+        warnings.push(
+          createWarning(messages.topic.unknownTopicTag(tag), 'relationship', {
+            field: 'selection_metadata.topic_tags',
+            entityId: `cta-${ctaId}`,
+            suggestedFix: `Create topic "${tag}" or edit CTA "${ctaId}" to remove the tag`,
+          })
+        );
+      }
+    });
+  });
+}
+
+// ============================================================================
+// SHOWCASE → CTA VALIDATION
+// ============================================================================
+
+/**
+ * CTA IDs a showcase item offers, with the slot each is offered in
+ */
+function showcaseCTARefs(item: ShowcaseItem): Array<{ slot: string; field: string; ctaId: string }> {
+  const refs: Array<{ slot: string; field: string; ctaId: string }> = [];
+  if (item.available_ctas?.primary) {
+    refs.push({ slot: 'Primary', field: 'available_ctas.primary', ctaId: item.available_ctas.primary });
+  }
+  item.available_ctas?.secondary?.forEach((ctaId, index) => {
+    refs.push({ slot: `Secondary ${index + 1}`, field: `available_ctas.secondary[${index}]`, ctaId });
+  });
+  if (item.action?.type === 'cta' && item.action.cta_id) {
+    refs.push({ slot: 'Action', field: 'action.cta_id', ctaId: item.action.cta_id });
+  }
+  return refs;
+}
+
+/**
+ * Validate that showcase items offer existing CTAs
+ */
+function validateShowcaseCTAReferences(
+  showcaseItems: ShowcaseItem[],
+  ctas: Record<string, CTADefinition>,
+  errors: ValidationError[]
+): void {
+  showcaseItems.forEach((item) => {
+    showcaseCTARefs(item).forEach(({ slot, field, ctaId }) => {
+      if (!ctas[ctaId]) {
+        errors.push(
+          createError(messages.showcase.invalidCTA(slot, ctaId), 'showcase', {
+            field,
+            entityId: item.id,
+            suggestedFix: `Create CTA "${ctaId}" or edit showcase item "${item.id}" to offer an existing CTA`,
+          })
+        );
+      }
+    });
+  });
+}
+
+// ============================================================================
+// ACTION CHIP → BRANCH / SHOWCASE VALIDATION
+// ============================================================================
+
+/**
+ * Validate that action chips route to existing branches and showcase items
+ */
+function validateActionChipReferences(
+  actionChips: Record<string, ActionChip>,
+  branches: Record<string, ConversationBranch>,
+  showcaseItems: ShowcaseItem[],
+  errors: ValidationError[]
+): void {
+  const showcaseIds = new Set(showcaseItems.map((item) => item.id));
+
+  Object.entries(actionChips).forEach(([chipId, chip]) => {
+    if (chip.target_branch && !branches[chip.target_branch]) {
+      errors.push(
+        createError(messages.actionChip.invalidBranch(chip.target_branch), 'action_chip', {
+          field: 'target_branch',
+          entityId: chipId,
+          suggestedFix: `Create branch "${chip.target_branch}" or edit chip "${chipId}" to route to an existing branch`,
+        })
+      );
+    }
+
+    if (chip.action === 'show_showcase' && chip.target_showcase_id && !showcaseIds.has(chip.target_showcase_id)) {
+      errors.push(
+        createError(messages.actionChip.invalidShowcase(chip.target_showcase_id), 'action_chip', {
+          field: 'target_showcase_id',
+          entityId: chipId,
+          suggestedFix: `Create showcase item "${chip.target_showcase_id}" or edit chip "${chipId}" to show an existing item`,
+        })
+      );
+    }
+  });
+}
+
 // ============================================================================
 // CIRCULAR DEPENDENCY DETECTION
 // ============================================================================
@@ -196,18 +350,33 @@ function validateBranchCTAReferences(
 /**
  * Detect circular dependencies
  *
- * Circular dependencies can occur when:
- * - Form trigger phrases match form confirmation messages
- * - Branch keywords trigger infinite loops
+ * Reports each routing loop once (branch → CTA → form → completion branch →
+ * …). Loops are how "back to main menu" works, so they are informational;
+ * the warning lands on the first branch in the loop.
  */
 function detectCircularDependencies(
-  _forms: Record<string, ConversationalForm>,
-  _ctas: Record<string, CTADefinition>,
-  _branches: Record<string, ConversationBranch>,
-  _warnings: ValidationWarning[]
+  forms: Record<string, ConversationalForm>,
+  ctas: Record<string, CTADefinition>,
+  branches: Record<string, ConversationBranch>,
+  warnings: ValidationWarning[]
 ): void {
-  // Trigger phrases removed - forms now use explicit CTA routing
-  // No validation needed for trigger phrase overlaps
+  const graph = buildFlowGraph({ forms, ctas, branches });
+
+  findCycles(graph).forEach((cycle) => {
+    const nodes = cycle.map((id) => graph.nodes[id]);
+    const anchor = nodes.find((node) => node.kind === 'branch') ?? nodes[0];
+    warnings.push(
+      createWarning(
+        messages.relationship.circularDependency(nodes.map((node) => node.entityId)),
+        'relationship',
+        {
+          entityId: anchor.entityId,
+          level: 'info',
+          suggestedFix: 'Fine for back-navigation; make sure the loop also offers a way forward',
+        }
+      )
+    );
+  });
 }
 
 // ============================================================================
@@ -222,6 +391,7 @@ function checkOrphanedEntities(
   forms: Record<string, ConversationalForm>,
   ctas: Record<string, CTADefinition>,
   branches: Record<string, ConversationBranch>,
+  showcaseItems: ShowcaseItem[],
   warnings: ValidationWarning[]
 ): void {
   // Check for orphaned programs (not used by any form)
@@ -251,13 +421,16 @@ function checkOrphanedEntities(
     }
   });
 
-  // Check for orphaned CTAs (not used by any branch AND not ai_available)
+  // Check for orphaned CTAs (not used by any branch or showcase item AND not ai_available)
   // V4.1: CTAs with ai_available=true are surfaced by pool selection, not branches
   const usedCTAIds = new Set<string>();
   Object.values(branches).forEach((branch) => {
     if (branch.available_ctas.primary) usedCTAIds.add(branch.available_ctas.primary);
     branch.available_ctas.secondary?.forEach((ctaId) => usedCTAIds.add(ctaId));
   });
+  showcaseItems.forEach((item) => {
+    showcaseCTARefs(item).forEach(({ ctaId }) => usedCTAIds.add(ctaId));
+  });
 
   Object.entries(ctas).forEach(([ctaId, cta]) => {
     if (!usedCTAIds.has(ctaId) && !cta.ai_available) {
@@ -265,7 +438,7 @@ function checkOrphanedEntities(
         createWarning(messages.relationship.orphanedEntity('CTA', ctaId), 'relationship', {
           entityId: `cta-${ctaId}`,
           level: 'info',
-          suggestedFix: 'Add this CTA to a branch, enable AI selection, or remove it if no longer needed',
+          suggestedFix: 'Add this CTA to a branch or showcase item, enable AI selection, or remove it if no longer needed',
         })
       );
     }
@@ -111,6 +111,29 @@ function validateMaxCTAsConstraint(
 // ADDITIONAL RUNTIME CHECKS
 // ============================================================================
 
+/**
+ * Warn about file upload fields on tenants with uploads turned off: the
+ * widget skips them
+ */
+export function validateUploadFields(
+  forms: Record<string, ConversationalForm>,
+  uploadsEnabled: boolean,
+  warnings: ValidationWarning[]
+): void {
+  if (uploadsEnabled) return;
+  Object.entries(forms).forEach(([formId, form]) => {
+    (form.fields ?? []).forEach((field, index) => {
+      if (field.type !== 'file_upload') return;
+      warnings.push(
+        createWarning(messages.runtime.uploadsDisabled(field.id), 'runtime', {
+          field: `fields[${index}].type`,
+          entityId: `form-${formId}`,
+        })
+      );
+    });
+  });
+}
+
 /**
  * Validate form post-submission actions for runtime compatibility
  */
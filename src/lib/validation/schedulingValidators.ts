@@ -0,0 +1,180 @@
+/**
+ * Scheduling Validators
+ * Validation functions for the Scheduling editor
+ *
+ * Entity validators wrap the scheduling Zod schemas for the generic EntityForm.
+ * getSchedulingIssues reports what tenantConfigSchema would reject for the
+ * scheduling block — shape errors plus the cross-section invariants — so the
+ * editor can show them inline before a save is attempted.
+ */
+
+import { ZodError } from 'zod';
+import {
+  appointmentTypeSchema,
+  routingPolicySchema,
+  schedulingConfigSchema,
+  collectSchedulingInvariantIssues,
+} from '@/lib/schemas';
+import type { AppointmentTypeDraft, AppointmentTypeInput, RoutingPolicyInput } from '@/lib/schemas';
+import type { TenantConfig } from '@/types/config';
+import type { ValidationErrors } from '@/types/validation';
+import type { ValidationContext } from '@/lib/crud/types';
+
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Collect Zod errors keyed by dotted path, keeping the first message per field
+ * (e.g. "reminder_cadence_override.tiers.0.lead_time_max_hours").
+ */
+function collectZodErrors(error: ZodError, errors: ValidationErrors): void {
+  error.errors.forEach((err) => {
+    const field = err.path.join('.');
+    if (!errors[field]) {
+      errors[field] = err.message;
+    }
+  });
+}
+
+/**
+ * Shared ID checks: required, format, and duplicates (create mode or rename)
+ */
+function validateEntityId<T extends { id: string }>(
+  data: T,
+  context: ValidationContext<T>,
+  entityLabel: string,
+  errors: ValidationErrors
+): void {
+  if (!data.id?.trim()) {
+    errors.id = 'ID is required';
+  } else if (!ID_PATTERN.test(data.id)) {
+    errors.id = 'ID can only contain letters, numbers, hyphens, and underscores';
+  } else if (
+    (!context.isEditMode || data.id !== context.originalEntity?.id) &&
+    context.existingIds.includes(data.id)
+  ) {
+    errors.id = `${entityLabel} with this ID already exists`;
+  }
+}
+
+// ============================================================================
+// APPOINTMENT TYPE VALIDATION
+// ============================================================================
+
+/**
+ * Validate an appointment type entity
+ *
+ * Checks:
+ * - Zod schema validation (duration, buffers, advance window, reminder override)
+ * - Reminder tiers: max lead time must exceed min lead time
+ * - ID format and duplicate check
+ */
+export function validateAppointmentType(
+  data: AppointmentTypeDraft,
+  context: ValidationContext<AppointmentTypeDraft>
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  const result = appointmentTypeSchema.safeParse(data);
+  if (!result.success) {
+    collectZodErrors(result.error, errors);
+  }
+
+  data.reminder_cadence_override?.tiers?.forEach((tier, index) => {
+    const field = `reminder_cadence_override.tiers.${index}.lead_time_max_hours`;
+    if (
+      tier.lead_time_min_hours !== undefined &&
+      tier.lead_time_max_hours !== null &&
+      tier.lead_time_max_hours <= tier.lead_time_min_hours &&
+      !errors[field]
+    ) {
+      errors[field] = 'Max lead time must be greater than min lead time';
+    }
+  });
+
+  validateEntityId(data, context, 'An appointment type', errors);
+
+  return errors;
+}
+
+/**
+ * Whether every reminder tier number of a draft is filled in, so it can be
+ * stored. validateAppointmentType reports the blank ones.
+ */
+export function isCompleteAppointmentType(draft: AppointmentTypeDraft): draft is AppointmentTypeInput {
+  return (draft.reminder_cadence_override?.tiers ?? []).every(
+    (tier) =>
+      tier.lead_time_min_hours !== undefined &&
+      tier.reminders.every((reminder) => reminder.offset_minutes_before !== undefined)
+  );
+}
+
+// ============================================================================
+// ROUTING POLICY VALIDATION
+// ============================================================================
+
+/**
+ * Validate a routing policy entity
+ *
+ * Checks:
+ * - Zod schema validation (tag conditions need a tag and at least one value)
+ * - ID format and duplicate check
+ *
+ * Tag-vocabulary membership is a cross-section invariant and is reported by
+ * getSchedulingIssues instead.
+ */
+export function validateRoutingPolicy(
+  data: RoutingPolicyInput,
+  context: ValidationContext<RoutingPolicyInput>
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  const result = routingPolicySchema.safeParse(data);
+  if (!result.success) {
+    collectZodErrors(result.error, errors);
+  }
+
+  validateEntityId(data, context, 'A routing policy', errors);
+
+  return errors;
+}
+
+// ============================================================================
+// SCHEDULING BLOCK ISSUES
+// ============================================================================
+
+export interface SchedulingIssue {
+  /** Dotted tenant-config path, e.g. "scheduling.appointment_types.intro.routing_policy_id" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Everything tenantConfigSchema would reject about the scheduling block.
+ *
+ * Runs the block schema and the invariants independently: the tenant schema
+ * only evaluates its superRefine when every other section parses, which would
+ * hide invariant failures behind unrelated errors.
+ */
+export function getSchedulingIssues(config: TenantConfig | null): SchedulingIssue[] {
+  if (!config) return [];
+
+  const issues: SchedulingIssue[] = [];
+  const seen = new Set<string>();
+  const add = (path: (string | number)[], message: string) => {
+    const key = `${path.join('.')}::${message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    issues.push({ path: path.join('.'), message });
+  };
+
+  if (config.scheduling) {
+    const result = schedulingConfigSchema.safeParse(config.scheduling);
+    if (!result.success) {
+      result.error.errors.forEach((err) => add(['scheduling', ...err.path], err.message));
+    }
+  }
+
+  collectSchedulingInvariantIssues(config).forEach((issue) => add(issue.path, issue.message));
+
+  return issues;
+}
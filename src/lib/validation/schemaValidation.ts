@@ -0,0 +1,146 @@
+/**
+ * Tenant Schema Validation
+ *
+ * Runs the full tenantConfigSchema — the check CI applies before deploy
+ * (prodConfigsValidator.ts) — against the merged config, so the builder
+ * reports everything a deploy would reject. Zod issues become validation
+ * errors routed to where they are fixed: settings sections to their Settings
+ * panel and tab (entity ID `settings-<section>`), entity sections to the
+ * entity, like the entity validators' own errors.
+ *
+ * Unlike the CI script, which logs only issue paths and codes, the messages
+ * are shown: they describe the operator's own config.
+ */
+
+import type { ZodIssue } from 'zod';
+import { tenantConfigSchema } from '@/lib/schemas';
+import type { EntityType, ValidationError } from './types';
+import { createError, messages } from './validationMessages';
+
+export type SettingsTab = 'general' | 'branding' | 'features' | 'ai-aws' | 'messenger';
+
+export interface SettingsLocation {
+  /** Panel (or page) name, e.g. "Branding" */
+  title: string;
+  /** Page that edits the section */
+  route: string;
+  /** Settings page tab holding the panel */
+  tab?: SettingsTab;
+}
+
+/** Prefix of the entity IDs schema issues in settings sections are filed under */
+export const SETTINGS_ENTITY_PREFIX = 'settings-';
+
+const identity: SettingsLocation = { title: 'Tenant Identity', route: '/settings', tab: 'general' };
+
+/** Where each top-level config section is edited */
+const SETTINGS_LOCATIONS: Record<string, SettingsLocation> = {
+  tenant_id: identity,
+  subscription_tier: identity,
+  chat_title: identity,
+  tone_prompt: identity,
+  welcome_message: identity,
+  callout_text: identity,
+  version: identity,
+  generated_at: identity,
+  model_id: identity,
+  tenant_hash: { title: 'Embed Code', route: '/settings', tab: 'general' },
+  notification_settings: { title: 'Notifications', route: '/settings', tab: 'general' },
+  cta_settings: { title: 'CTA Settings', route: '/settings', tab: 'general' },
+  quick_help: { title: 'Quick Help', route: '/settings', tab: 'general' },
+  widget_behavior: { title: 'Widget Behavior', route: '/settings', tab: 'general' },
+  branding: { title: 'Branding', route: '/settings', tab: 'branding' },
+  features: { title: 'Features', route: '/settings', tab: 'features' },
+  bedrock_instructions: { title: 'Bedrock Instructions', route: '/settings', tab: 'ai-aws' },
+  aws: { title: 'AWS', route: '/settings', tab: 'ai-aws' },
+  feature_flags: { title: 'Feature Flags', route: '/settings', tab: 'ai-aws' },
+  channels: { title: 'Messenger', route: '/settings', tab: 'messenger' },
+  messenger_behavior: { title: 'Messenger', route: '/settings', tab: 'messenger' },
+  action_chips: { title: 'Action Chips', route: '/action-chips' },
+  scheduling: { title: 'Scheduling', route: '/scheduling' },
+  localization: { title: 'Translations', route: '/translations' },
+};
+
+/** Entity sections, keyed by ID (topics are a list) */
+const ENTITY_SECTIONS: Record<string, EntityType> = {
+  programs: 'program',
+  conversational_forms: 'form',
+  cta_definitions: 'cta',
+  conversation_branches: 'branch',
+  topic_definitions: 'topic',
+};
+
+/**
+ * Where a top-level config section is edited; unknown sections fall back to
+ * the General tab
+ */
+export function settingsLocation(section: string): SettingsLocation {
+  return SETTINGS_LOCATIONS[section] ?? { title: 'Settings', route: '/settings', tab: 'general' };
+}
+
+function humanize(segment: string | number): string {
+  if (typeof segment === 'number') return `#${segment + 1}`;
+  const words = segment.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Last named segment of a path, the field the editor can scroll to */
+function lastField(path: Array<string | number>): string | undefined {
+  return [...path].reverse().find((segment): segment is string => typeof segment === 'string');
+}
+
+function entityIssue(
+  issue: ZodIssue,
+  entityType: EntityType,
+  config: { topic_definitions?: Array<{ id: string }> }
+): ValidationError | null {
+  const [section, key, ...rest] = issue.path;
+  if (key === undefined) return null;
+  const entityId =
+    section === 'topic_definitions' && typeof key === 'number'
+      ? config.topic_definitions?.[key]?.id ?? String(key)
+      : String(key);
+  const where = rest.length > 0 ? rest.map(humanize).join(' → ') : humanize(entityType);
+  return createError(messages.schema.rejected(where, issue.message, `the ${entityType} "${entityId}"`), entityType, {
+    entityId,
+    field: typeof rest[0] === 'string' ? rest[0] : undefined,
+  });
+}
+
+function settingsIssue(issue: ZodIssue): ValidationError {
+  const section = issue.path.length > 0 ? String(issue.path[0]) : 'tenant_id';
+  const location = settingsLocation(section);
+  const where = issue.path.map(humanize).join(' → ') || 'Config';
+  const fixIn = location.tab ? `Settings → ${location.title}` : location.title;
+  return createError(messages.schema.rejected(where, issue.message, fixIn), 'config', {
+    entityId: `${SETTINGS_ENTITY_PREFIX}${section}`,
+    field: lastField(issue.path),
+  });
+}
+
+/**
+ * Errors the tenant schema reports for a merged config. Entity issues already
+ * reported on the same entity field by the entity validators (`existing`) are
+ * left out, so nothing is listed twice.
+ */
+export function validateTenantSchema(
+  config: unknown,
+  existing: ValidationError[] = []
+): ValidationError[] {
+  const result = tenantConfigSchema.safeParse(config);
+  if (result.success) return [];
+
+  // Relationship errors file entities as "form-<id>"; entity errors as "<id>"
+  const reported = new Set(
+    existing.map((error) => `${(error.entityId ?? '').replace(/^(program|form|cta|branch|topic)-/, '')}|${error.field ?? ''}`)
+  );
+  const source = (config ?? {}) as { topic_definitions?: Array<{ id: string }> };
+
+  return result.error.issues.flatMap((issue) => {
+    const entityType = ENTITY_SECTIONS[String(issue.path[0])];
+    if (!entityType) return [settingsIssue(issue)];
+    const error = entityIssue(issue, entityType, source);
+    if (!error) return [settingsIssue(issue)];
+    return reported.has(`${error.entityId}|${error.field ?? ''}`) ? [] : [error];
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Showcase Validation
+ * Validates content showcase items across the whole config
+ */
+
+import type { ShowcaseItem } from '@/types/config';
+import type { ValidationResult, ValidationError, ValidationWarning } from './types';
+import { messages, createError } from './validationMessages';
+import { validateShowcaseItem as validateShowcaseItemFields } from './showcaseValidators';
+
+// ============================================================================
+// SINGLE SHOWCASE ITEM VALIDATION
+// ============================================================================
+
+/**
+ * Validate a single showcase item
+ *
+ * Runs the Content Showcase editor's checks (required content, keywords,
+ * URLs, action setup) so items edited outside the editor are held to the
+ * same rules. CTA references are checked by relationship validation.
+ *
+ * @param item - The showcase item to validate
+ * @returns Validation result with errors
+ */
+export function validateShowcaseItem(item: ShowcaseItem): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  const fieldErrors = validateShowcaseItemFields(item, {
+    isEditMode: true,
+    existingIds: [],
+    existingEntities: {},
+    originalEntity: item,
+  });
+
+  Object.entries(fieldErrors).forEach(([field, detail]) => {
+    if (!detail) return;
+    errors.push(
+      createError(messages.showcase.invalidItem(detail), 'showcase', {
+        field,
+        entityId: item.id,
+      })
+    );
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    entity: 'showcase',
+    entityId: item.id,
+  };
+}
+
+// ============================================================================
+// BULK SHOWCASE VALIDATION
+// ============================================================================
+
+/**
+ * Validate all showcase items in the config
+ *
+ * @param showcaseItems - All showcase items
+ * @returns Validation result
+ */
+export function validateShowcaseItems(showcaseItems: ShowcaseItem[]): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const seenIds = new Set<string>();
+
+  showcaseItems.forEach((item) => {
+    const result = validateShowcaseItem(item);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+
+    if (item.id && seenIds.has(item.id)) {
+      errors.push(
+        createError(messages.showcase.duplicateId(item.id), 'showcase', {
+          field: 'id',
+          entityId: item.id,
+        })
+      );
+    }
+    seenIds.add(item.id);
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    entity: 'showcase',
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Topic Validators
+ * Validation functions for V4.1 topic definitions
+ */
+
+import { topicDefinitionSchema } from '@/lib/schemas';
+import type { TopicDefinition } from '@/types/config';
+import type { ValidationErrors } from '@/types/validation';
+import type { ValidationContext } from '@/lib/crud/types';
+
+/**
+ * Validate a topic definition entity
+ *
+ * Checks:
+ * - Zod schema validation (ID format, label and description length, examples)
+ * - Duplicate ID check (create mode or rename)
+ */
+export function validateTopic(
+  data: TopicDefinition,
+  context: ValidationContext<TopicDefinition>
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  const result = topicDefinitionSchema.safeParse(data);
+  if (!result.success) {
+    result.error.errors.forEach((err) => {
+      // Example errors are reported on the list, not per entry
+      const field = err.path[0] === 'examples' ? 'examples' : err.path.join('.');
+      if (!errors[field]) {
+        errors[field] = field === 'examples' ? 'Examples cannot be empty' : err.message;
+      }
+    });
+  }
+
+  if (
+    !errors.id &&
+    (!context.isEditMode || data.id !== context.originalEntity?.id) &&
+    context.existingIds.includes(data.id)
+  ) {
+    errors.id = 'A topic with this ID already exists';
+  }
+
+  return errors;
+}
@@ -9,7 +9,17 @@
 
 export type ValidationLevel = 'error' | 'warning' | 'info';
 
-export type EntityType = 'program' | 'form' | 'cta' | 'branch' | 'relationship' | 'runtime' | 'config';
+export type EntityType =
+  | 'program'
+  | 'form'
+  | 'cta'
+  | 'branch'
+  | 'topic'
+  | 'showcase'
+  | 'action_chip'
+  | 'relationship'
+  | 'runtime'
+  | 'config';
 
 // ============================================================================
 // VALIDATION MESSAGES
@@ -39,6 +39,40 @@ export const messages = {
     selectNeedsOptions: 'Select fields must have at least one option\n→ Fix: Add options to the select field (e.g., "Option 1", "Option 2")',
     duplicateFieldId: (id: string) => `Duplicate field ID: "${id}"\n→ Fix: This is a system error - try re-creating the field or contact support`,
     eligibilityNeedsFailureMessage: 'Eligibility gate fields must have a failure message\n→ Fix: Enter a message to show when eligibility requirements are not met',
+    conditionUnknownField: (fieldId: string, ref: string) =>
+      `Field "${fieldId}" has a show-if rule on "${ref}", which is not a field in this form\n→ Fix: Pick an earlier field in the rule`,
+    conditionLaterField: (fieldId: string, ref: string) =>
+      `Field "${fieldId}" has a show-if rule on "${ref}", which is not asked before it\n→ Fix: Rules can only use earlier answers; move "${ref}" above "${fieldId}" or change the rule`,
+    conditionNeedsPart: (fieldId: string, ref: string, example: string) =>
+      `Field "${fieldId}" has a show-if rule on "${ref}", which is answered in parts\n→ Fix: Pick one part, e.g. "${example}"`,
+    conditionMissingValue: (fieldId: string, ref: string) =>
+      `Field "${fieldId}" has a show-if rule on "${ref}" with no value to compare\n→ Fix: Enter a value or use "is answered"`,
+    conditionNotANumber: (fieldId: string, ref: string) =>
+      `Field "${fieldId}" has a show-if rule on "${ref}" that compares to a non-number\n→ Fix: Enter a number for "greater than" and "less than" rules`,
+    unreachableField: (fieldId: string, reason: string) =>
+      `Field "${fieldId}" can never be shown: ${reason}\n→ Fix: Change its show-if rules or remove the field`,
+    selectionLimitsReversed: (fieldId: string) =>
+      `Field "${fieldId}" requires more selections than it allows\n→ Fix: Make the minimum selections no more than the maximum`,
+    selectionsExceedOptions: (fieldId: string, limit: number, optionCount: number) =>
+      `Field "${fieldId}" requires ${limit} selections but has only ${optionCount} options\n→ Fix: Add options or lower the minimum selections`,
+    consentNeedsPolicy: (fieldId: string) =>
+      `Consent field "${fieldId}" does not say what is agreed to\n→ Fix: Enter the policy text or a link to the policy`,
+    consentNotRequired: (fieldId: string) =>
+      `Consent field "${fieldId}" is optional, so the form can be submitted without consent\n→ Suggestion: Mark the field as required`,
+    invalidPolicyUrl: (fieldId: string) =>
+      `Consent field "${fieldId}" has an invalid policy link\n→ Fix: Use a full https:// URL`,
+    notificationUnknownPlaceholder: (where: string, token: string) =>
+      `${where} uses {{${token}}}, which is not a field of this form\n→ Fix: Insert a merge field from the list or remove the placeholder`,
+    notificationInvalidEmail: (recipient: string) =>
+      `Notification recipient "${recipient}" is not a valid email address\n→ Fix: Correct or remove the address`,
+    notificationInvalidPhone: (recipient: string) =>
+      `SMS recipient "${recipient}" is not an E.164 phone number\n→ Fix: Use the international format, e.g. +15125550123`,
+    notificationNoRecipients: (channel: string) =>
+      `Staff ${channel} notification is on but has no recipients\n→ Fix: Add recipients or turn the ${channel} channel off`,
+    confirmationWithoutEmailField:
+      'Applicant confirmation is on, but the form has no email field to send it to\n→ Fix: Add an email field or turn the confirmation off',
+    invalidMimeType: (fieldId: string, type: string) =>
+      `File upload field "${fieldId}" accepts "${type}", which is not a MIME type\n→ Fix: Use types like "application/pdf" or "image/*"`,
   },
 
   // Branch Messages
@@ -58,6 +92,32 @@ export const messages = {
     prioritySuggestion: 'Broader topics should have higher priority (sorted first), specific programs should have lower priority\n→ Tip: Priority controls which branch triggers when keywords match multiple branches',
   },
 
+  // Topic Messages
+  topic: {
+    noEligibleCTAs: (topicId: string) =>
+      `Topic "${topicId}" has no eligible CTAs - pool selection will show no buttons for it\n→ Fix: Tag at least one AI-available CTA with this topic`,
+    unknownTopicTag: (topicId: string) =>
+      `Topic tag "${topicId}" does not match any topic definition\n→ Fix: Create the topic or remove the tag from this CTA`,
+  },
+
+  // Showcase Item Messages
+  showcase: {
+    invalidItem: (detail: string) => `${detail}\n→ Fix: Open the item in Content Showcase and correct it`,
+    duplicateId: (itemId: string) =>
+      `Showcase item ID "${itemId}" is used by more than one item - chips can only open the first\n→ Fix: Give each item a unique ID`,
+    invalidCTA: (slot: string, ctaId: string) =>
+      `${slot} CTA "${ctaId}" does not exist\n→ Fix: Select an existing CTA or remove it from this item`,
+  },
+
+  // Action Chip Messages
+  actionChip: {
+    invalidChip: (detail: string) => `${detail}\n→ Fix: Open the chip in Action Chips and correct it`,
+    invalidBranch: (branchId: string) =>
+      `Target branch "${branchId}" does not exist\n→ Fix: Select an existing branch, or clear it to use fallback routing`,
+    invalidShowcase: (itemId: string) =>
+      `Showcase item "${itemId}" does not exist\n→ Fix: Select an existing showcase item or create it first`,
+  },
+
   // Relationship Messages
   relationship: {
     circularDependency: (entities: string[]) => `Circular dependency detected: ${entities.join(' → ')}\n→ Fix: Remove one of the references to break the circular loop`,
@@ -65,10 +125,33 @@ export const messages = {
       `Orphaned ${entityType} "${entityId}" is not referenced by any other entity\n→ Suggestion: Either use this in a CTA/branch or delete it if unused`,
   },
 
+  // Reachability Messages
+  reachability: {
+    unreachable: (entityType: string, entityId: string) =>
+      `${entityType} "${entityId}" can't be reached from any entry point (welcome chips, quick help, fallback branch, Messenger ice breakers or AI-available CTAs)\n→ Fix: Route a chip, branch or CTA to it, or delete it if unused`,
+    deadEnd: (detail: string, path: string) => `Dead end: ${detail} (reached via ${path})\n→ Fix: Offer visitors a way forward from here`,
+  },
+
   // Runtime Messages
   runtime: {
     formNeedsProgram:
       'Form should have a program assigned for proper filtering after completion\n→ Fix: Assign this form to a program to enable program-specific filtering',
+    uploadsDisabled: (fieldId: string) =>
+      `File upload field "${fieldId}" is skipped because uploads are turned off for this tenant\n→ Fix: Turn on Uploads in Settings → Features, or remove the field`,
+  },
+
+  // Localization Messages (translations for enabled locales)
+  localization: {
+    untranslated: (locale: string, missing: number, total: number, examples: string) =>
+      `${missing} of ${total} strings have no "${locale}" translation (${examples})\n→ Fix: Translate them on the Translations page, or import a translated bundle`,
+    unusedTranslations: (locale: string, count: number) =>
+      `${count} "${locale}" translation(s) belong to strings this config no longer has\n→ Fix: Remove unused translations on the Translations page`,
+  },
+
+  // Tenant Schema Messages (the tenantConfigSchema check CI runs before deploy)
+  schema: {
+    rejected: (where: string, detail: string, fixIn: string) =>
+      `${where}: ${detail}\n→ Fix: Correct it in ${fixIn}; deploy checks reject configs that fail the tenant schema`,
   },
 
   // General Messages
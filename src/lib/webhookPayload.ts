@@ -0,0 +1,99 @@
+/**
+ * Webhook Submission Payload
+ *
+ * The body a form's webhook fulfillment receives when the form is submitted
+ * (the webhook contract, src/lib/contracts/webhook_payload_contract.json),
+ * built from the form's fields with sample answers so operators can test
+ * their endpoint before a live submission. Answers are typed per the
+ * contract: multi-selects as lists, checkbox/consent as booleans, numbers
+ * and ratings as numbers, name/address fields as an object of parts.
+ * Fields whose show-if rules don't hold for the sample answers are left out,
+ * as they would be in a real submission.
+ */
+
+import type { ConversationalForm, FormField } from '@/types/config';
+import { WEBHOOK_ANSWER_TYPES, WEBHOOK_EVENT, WEBHOOK_TEST_ID_PREFIX } from '@/lib/contracts';
+import { subfieldKey, subfieldRef } from './compositeFieldTemplates';
+import { evaluateConditions } from './formConditions';
+import { parseAgreement, splitSelections } from './formFieldTypes';
+import { sampleValues } from './notificationTemplates';
+
+export type WebhookAnswer = string | number | boolean | string[] | Record<string, string>;
+
+export interface WebhookPayload {
+  event: typeof WEBHOOK_EVENT;
+  /** True for payloads sent from the builder's "Test webhook" action */
+  test: boolean;
+  tenant_id: string;
+  form_id: string;
+  form_title: string;
+  program: string;
+  submission_id: string;
+  submitted_at: string;
+  /** Answers keyed by field ID, in question order */
+  form_data: Record<string, WebhookAnswer>;
+}
+
+export interface WebhookPayloadOptions {
+  tenantId: string;
+  /** Defaults to now */
+  submittedAt?: Date;
+  /** Defaults to a test-prefixed ID derived from the submission time */
+  submissionId?: string;
+}
+
+function typedAnswer(field: FormField, sample: string): WebhookAnswer {
+  switch (WEBHOOK_ANSWER_TYPES[field.type] ?? WEBHOOK_ANSWER_TYPES.other) {
+    case 'array':
+      return splitSelections(sample);
+    case 'boolean':
+      return parseAgreement(sample) === true;
+    case 'number':
+      return Number.isNaN(Number(sample)) ? sample : Number(sample);
+    default:
+      return sample;
+  }
+}
+
+/**
+ * The payload a form's webhook receives, filled with sample answers
+ */
+export function buildWebhookPayload(
+  form: Pick<ConversationalForm, 'form_id' | 'title' | 'program' | 'fields'>,
+  options: WebhookPayloadOptions
+): WebhookPayload {
+  const submittedAt = options.submittedAt ?? new Date();
+  const samples = sampleValues(form);
+  const fields = form.fields ?? [];
+  // Answers so far, keyed the way show-if rules reference them
+  const answers: Record<string, string> = {};
+  const formData: Record<string, WebhookAnswer> = {};
+
+  fields.forEach((field) => {
+    if (!evaluateConditions(field.conditions, answers, fields)) return;
+    if (field.subfields?.length) {
+      const parts: Record<string, string> = {};
+      field.subfields.forEach((subfield) => {
+        const sample = samples[subfieldRef(field, subfield)];
+        parts[subfieldKey(field, subfield)] = sample;
+        answers[subfieldRef(field, subfield)] = sample;
+      });
+      formData[field.id] = parts;
+      return;
+    }
+    answers[field.id] = samples[field.id];
+    formData[field.id] = typedAnswer(field, samples[field.id]);
+  });
+
+  return {
+    event: WEBHOOK_EVENT,
+    test: true,
+    tenant_id: options.tenantId,
+    form_id: form.form_id,
+    form_title: form.title,
+    program: form.program,
+    submission_id: options.submissionId ?? `${WEBHOOK_TEST_ID_PREFIX}${submittedAt.getTime()}`,
+    submitted_at: submittedAt.toISOString(),
+    form_data: formData,
+  };
+}
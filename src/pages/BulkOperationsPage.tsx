@@ -0,0 +1,313 @@
+/**
+ * BulkOperationsPage Component
+ * Apply one change to many tenants: select, dry run, review, save
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layers, Play, RefreshCw, Save } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  Input,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  Spinner,
+} from '@/components/ui';
+import {
+  BulkOperationForm,
+  BulkPreviewTable,
+  EMPTY_BULK_DRAFT,
+  operationFromDraft,
+  type BulkOperationDraft,
+} from '@/components/bulk';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { listTenants } from '@/lib/api/config-operations';
+import {
+  applyBulkPreviews,
+  describeBulkOperation,
+  previewBulkOperation,
+  BULK_OPERATION_SECTIONS,
+  type BulkOperation,
+  type BulkPreview,
+  type BulkResult,
+} from '@/lib/bulk';
+import type { TenantListItem } from '@/types/api';
+
+/**
+ * Bulk Operations Page
+ *
+ * Picks tenants from the tenant list (limited to the user's scope) and one
+ * operation, runs it as a dry run against every selected tenant — diff and
+ * validation per tenant — then saves the tenants that change, each with the
+ * ETag it was loaded at. Tenants edited in between fail with a conflict.
+ *
+ * @example
+ * ```tsx
+ * <BulkOperationsPage />
+ * ```
+ */
+export const BulkOperationsPage: React.FC = () => {
+  const { can, canAccessTenant } = usePermissions();
+  const addToast = useConfigStore((state) => state.ui.addToast);
+  const loadedTenantId = useConfigStore((state) => state.config.tenantId);
+  const isDirty = useConfigStore((state) => state.config.isDirty);
+  const loadConfig = useConfigStore((state) => state.config.loadConfig);
+
+  const [tenants, setTenants] = useState<TenantListItem[]>([]);
+  const [isLoadingTenants, setIsLoadingTenants] = useState(true);
+  const [tenantsError, setTenantsError] = useState<string | null>(null);
+  const [tenantsReloadKey, setTenantsReloadKey] = useState(0);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const [draft, setDraft] = useState<BulkOperationDraft>(EMPTY_BULK_DRAFT);
+  const [previews, setPreviews] = useState<BulkPreview[]>([]);
+  // The operation the previews were made with; editing the form invalidates them
+  const [previewedOperation, setPreviewedOperation] = useState<BulkOperation | null>(null);
+  const [results, setResults] = useState<Record<string, BulkResult> | undefined>(undefined);
+  const [isRunning, setIsRunning] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchTenants = async () => {
+      setIsLoadingTenants(true);
+      setTenantsError(null);
+      try {
+        const list = await listTenants();
+        setTenants(list.filter((tenant) => canAccessTenant(tenant.tenantId)));
+      } catch (error) {
+        setTenantsError(error instanceof Error ? error.message : 'Failed to load tenants');
+      } finally {
+        setIsLoadingTenants(false);
+      }
+    };
+
+    void fetchTenants();
+  }, [canAccessTenant, tenantsReloadKey]);
+
+  const parsed = useMemo(() => operationFromDraft(draft), [draft]);
+  const operation = 'operation' in parsed ? parsed.operation : null;
+  const canApply = operation ? can('edit', BULK_OPERATION_SECTIONS[operation.type]) : false;
+
+  const visibleTenants = tenants.filter((tenant) =>
+    `${tenant.tenantId} ${tenant.tenantName}`.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+  const readyCount = previews.filter((preview) => preview.status === 'ready').length;
+  const previewIsCurrent = previewedOperation !== null && JSON.stringify(previewedOperation) === JSON.stringify(operation);
+
+  const toggleTenant = (tenantId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(tenantId)) next.delete(tenantId);
+      else next.add(tenantId);
+      return next;
+    });
+
+  const toggleAllVisible = () =>
+    setSelected((prev) => {
+      const allSelected = visibleTenants.every((tenant) => prev.has(tenant.tenantId));
+      const next = new Set(prev);
+      visibleTenants.forEach((tenant) => (allSelected ? next.delete(tenant.tenantId) : next.add(tenant.tenantId)));
+      return next;
+    });
+
+  const handleDryRun = async () => {
+    if (!operation) return;
+    setIsRunning(true);
+    setResults(undefined);
+    setPreviews([]);
+    const tenantIds = tenants.map((tenant) => tenant.tenantId).filter((id) => selected.has(id));
+    await previewBulkOperation(tenantIds, operation, (preview) => setPreviews((prev) => [...prev, preview]));
+    setPreviewedOperation(operation);
+    setIsRunning(false);
+  };
+
+  const handleApply = async () => {
+    setConfirmOpen(false);
+    setIsRunning(true);
+    setResults({});
+    const applied = await applyBulkPreviews(previews, (result) =>
+      setResults((prev) => ({ ...prev, [result.tenantId]: result }))
+    );
+    setIsRunning(false);
+
+    const saved = applied.filter((result) => result.status === 'saved');
+    const failed = applied.filter((result) => result.status === 'conflict' || result.status === 'failed');
+    addToast({
+      type: failed.length > 0 ? 'warning' : 'success',
+      message: `Saved ${saved.length} tenant${saved.length === 1 ? '' : 's'}${failed.length > 0 ? `, ${failed.length} failed` : ''}`,
+    });
+
+    // Keep the open tenant in step with what was just saved
+    if (loadedTenantId && saved.some((result) => result.tenantId === loadedTenantId)) {
+      if (isDirty) {
+        addToast({
+          type: 'warning',
+          message: `${loadedTenantId} was changed by this run; reload it before saving your edits`,
+        });
+      } else {
+        await loadConfig(loadedTenantId);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-3">
+          <Layers className="w-8 h-8 text-gray-600 dark:text-gray-400" />
+          Bulk Operations
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Apply one change to many tenants, with a dry run and per-tenant results
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Tenants */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Tenants</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setTenantsReloadKey((key) => key + 1)}
+                disabled={isLoadingTenants}
+                aria-label="Refresh tenants"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+            <CardDescription>{selected.size} selected</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoadingTenants && tenants.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : tenantsError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{tenantsError}</p>
+            ) : (
+              <>
+                <Input placeholder="Filter tenants" value={filter} onChange={(e) => setFilter(e.target.value)} />
+                <Button variant="link" size="sm" onClick={toggleAllVisible} disabled={visibleTenants.length === 0}>
+                  Select / clear all shown
+                </Button>
+                <ul className="max-h-96 overflow-y-auto space-y-1" aria-label="Tenants">
+                  {visibleTenants.map((tenant) => (
+                    <li key={tenant.tenantId}>
+                      <label className="flex items-center gap-2 cursor-pointer text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(tenant.tenantId)}
+                          onChange={() => toggleTenant(tenant.tenantId)}
+                          disabled={isRunning}
+                          className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                        />
+                        <span className="font-medium text-gray-900 dark:text-gray-100">{tenant.tenantId}</span>
+                        {tenant.tenantName && tenant.tenantName !== tenant.tenantId && (
+                          <span className="text-gray-500 dark:text-gray-400 truncate">{tenant.tenantName}</span>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Operation */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Operation</CardTitle>
+            <CardDescription>Runs against each tenant's stored config, not the editor</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <BulkOperationForm
+              value={draft}
+              onChange={setDraft}
+              error={'error' in parsed ? parsed.error : undefined}
+              disabled={isRunning}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={() => void handleDryRun()} disabled={!operation || selected.size === 0 || isRunning}>
+                <Play className="w-4 h-4 mr-2" />
+                Dry run on {selected.size} tenant{selected.size === 1 ? '' : 's'}
+              </Button>
+              {operation && !canApply && (
+                <span className="text-sm text-gray-600 dark:text-gray-400">Your role can preview but not save this change</span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dry Run / Results */}
+      {previews.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>{results ? 'Results' : 'Dry Run'}</CardTitle>
+                <CardDescription>
+                  {previewedOperation ? describeBulkOperation(previewedOperation) : 'Running…'}
+                </CardDescription>
+                <div className="flex gap-2 pt-2">
+                  <Badge variant="info">{readyCount} will change</Badge>
+                  {previews.some((p) => p.status === 'invalid') && (
+                    <Badge variant="warning">{previews.filter((p) => p.status === 'invalid').length} blocked</Badge>
+                  )}
+                </div>
+              </div>
+              {canApply && !results && (
+                <Button
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={isRunning || readyCount === 0 || !previewIsCurrent}
+                  title={previewIsCurrent ? undefined : 'The operation changed; run the dry run again'}
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save {readyCount} tenant{readyCount === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <BulkPreviewTable previews={previews} results={results} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Apply Confirmation */}
+      <Modal open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <ModalContent className="max-w-md">
+          <ModalHeader>
+            <ModalTitle>Save {readyCount} tenants?</ModalTitle>
+            <ModalDescription>
+              {previewedOperation && describeBulkOperation(previewedOperation)}. Each tenant keeps a backup of the
+              config it replaces; tenants edited since the dry run are left alone.
+            </ModalDescription>
+          </ModalHeader>
+          <ModalFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleApply()}>Save</Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
@@ -7,7 +7,7 @@ import React from 'react';
 import { Workflow } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui';
 import { useConfigStore } from '@/store';
-import { ConversationFlowDiagram } from '@/components/dashboard';
+import { ConversationFlowDiagram, ReachabilityReport } from '@/components/dashboard';
 
 /**
  * Dashboard Page
@@ -19,6 +19,7 @@ import { ConversationFlowDiagram } from '@/components/dashboard';
  * Features:
  * - Configuration overview with entity counts
  * - Visual flow diagram (Phase 2)
+ * - Reachability report: unreachable entities, dead ends, click paths
  * - Interactive node navigation (Phase 3)
  * - Export capabilities (Phase 4)
  *
@@ -227,6 +228,9 @@ export const DashboardPage: React.FC = () => {
 
       {/* Conversation Flow Diagram */}
       <ConversationFlowDiagram />
+
+      {/* Reachability and dead ends */}
+      <ReachabilityReport />
     </div>
   );
 };
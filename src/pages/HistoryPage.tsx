@@ -0,0 +1,278 @@
+/**
+ * HistoryPage Component
+ * Browse stored versions of the tenant config, diff them, and restore one
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { History, RefreshCw, RotateCcw } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  Spinner,
+} from '@/components/ui';
+import { VersionList, ConfigDiffView } from '@/components/history';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useMergedConfig } from '@/hooks/useMergedConfig';
+import { listConfigVersions, loadConfigVersion } from '@/lib/api/config-operations';
+import { diffConfigs } from '@/lib/diff';
+import type { ConfigVersionSummary } from '@/types/api';
+import type { TenantConfig } from '@/types/config';
+
+/**
+ * History Page
+ *
+ * Every save keeps the config it replaced; this page lists those versions
+ * with who saved them and when, diffs the selected one against the editor,
+ * and restores it as a new save (so Restore is itself reversible).
+ *
+ * @example
+ * ```tsx
+ * <HistoryPage />
+ * ```
+ */
+export const HistoryPage: React.FC = () => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-3">
+          <History className="w-8 h-8 text-gray-600 dark:text-gray-400" />
+          History
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Previously saved versions of this configuration
+        </p>
+      </div>
+
+      {/* No Tenant Selected */}
+      {!tenantId && (
+        <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+          <CardContent className="pt-6">
+            <p className="text-amber-800 dark:text-amber-300">
+              Please select a tenant from the header to view its version history.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Keyed so switching tenants starts from a clean list and selection */}
+      {tenantId && <TenantHistory key={tenantId} tenantId={tenantId} />}
+    </div>
+  );
+};
+
+/**
+ * Version list, diff, and restore for one tenant
+ */
+const TenantHistory: React.FC<{ tenantId: string }> = ({ tenantId }) => {
+  const restoreVersion = useConfigStore((state) => state.config.restoreVersion);
+  const isDirty = useConfigStore((state) => state.config.isDirty);
+  const { can } = usePermissions();
+
+  // Re-read on each edit, so the diff follows the editor
+  const mergedConfig = useMergedConfig();
+
+  const [versions, setVersions] = useState<ConfigVersionSummary[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(true);
+  const [listError, setListError] = useState<string | null>(null);
+  // Bumped to re-fetch the list (refresh button, after a restore)
+  const [listReloadKey, setListReloadKey] = useState(0);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedConfig, setSelectedConfig] = useState<TenantConfig | null>(null);
+  const [isLoadingVersion, setIsLoadingVersion] = useState(false);
+  const [versionError, setVersionError] = useState<string | null>(null);
+  // The version picked last; responses for earlier picks are dropped
+  const requestedVersionId = useRef<string | null>(null);
+
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      setIsLoadingList(true);
+      setListError(null);
+      try {
+        setVersions(await listConfigVersions(tenantId));
+      } catch (error) {
+        setListError(error instanceof Error ? error.message : 'Failed to load version history');
+      } finally {
+        setIsLoadingList(false);
+      }
+    };
+
+    void fetchVersions();
+  }, [tenantId, listReloadKey]);
+
+  const refreshVersions = () => setListReloadKey((key) => key + 1);
+
+  const selectVersion = async (versionId: string) => {
+    requestedVersionId.current = versionId;
+    setSelectedId(versionId);
+    setSelectedConfig(null);
+    setVersionError(null);
+    setIsLoadingVersion(true);
+    try {
+      const { config } = await loadConfigVersion(tenantId, versionId);
+      if (requestedVersionId.current !== versionId) return;
+      setSelectedConfig(config);
+    } catch (error) {
+      if (requestedVersionId.current !== versionId) return;
+      setVersionError(error instanceof Error ? error.message : 'Failed to load version');
+    } finally {
+      if (requestedVersionId.current === versionId) setIsLoadingVersion(false);
+    }
+  };
+
+  // What a restore changes: sections the version lacks keep the editor's
+  const diff = useMemo(
+    () => (selectedConfig ? diffConfigs(mergedConfig, { ...mergedConfig, ...selectedConfig }) : []),
+    [selectedConfig, mergedConfig]
+  );
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    try {
+      await restoreVersion(selectedId);
+      setConfirmOpen(false);
+      // The save created a new backup (the config we just replaced)
+      refreshVersions();
+    } catch {
+      // restoreVersion/saveConfig already toasted the failure
+      setConfirmOpen(false);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const selectedSummary = versions.find((v) => v.versionId === selectedId);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Version List */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Versions</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={refreshVersions}
+                disabled={isLoadingList}
+                aria-label="Refresh versions"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+            <CardDescription>Newest first. The live config is not listed.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingList && versions.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : listError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{listError}</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No earlier versions yet. One is kept each time the config is saved.
+              </p>
+            ) : (
+              <VersionList
+                versions={versions}
+                selectedId={selectedId}
+                onSelect={(versionId) => void selectVersion(versionId)}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Diff */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Changes</CardTitle>
+                <CardDescription>
+                  {selectedSummary
+                    ? `What restoring the version from ${new Date(selectedSummary.lastModified).toLocaleString()} would change in the editor`
+                    : 'Select a version to compare it with the editor'}
+                </CardDescription>
+              </div>
+              {selectedConfig && can('edit', 'config') && (
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={diff.length === 0}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoadingVersion ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : versionError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{versionError}</p>
+            ) : selectedConfig ? (
+              <ConfigDiffView entries={diff} beforeLabel="Editor" afterLabel="This version" />
+            ) : null}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Restore Confirmation */}
+      <Modal open={confirmOpen} onOpenChange={(open) => !isRestoring && setConfirmOpen(open)}>
+        <ModalContent className="max-w-md">
+          <ModalHeader>
+            <ModalTitle>Restore this version?</ModalTitle>
+            <ModalDescription>
+              The editor is replaced with this version and saved right away. The current config
+              is kept in history, so this can be undone by restoring it.
+            </ModalDescription>
+          </ModalHeader>
+          <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+            <p>
+              {diff.length} {diff.length === 1 ? 'change' : 'changes'} will be applied.
+            </p>
+            {isDirty && (
+              <p className="text-amber-700 dark:text-amber-400">
+                Unsaved edits in the editor will be replaced.
+              </p>
+            )}
+            <p className="text-gray-500 dark:text-gray-400">
+              Sections this version doesn&apos;t contain are left as they are.
+            </p>
+          </div>
+          <ModalFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={isRestoring}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleRestore()} disabled={isRestoring}>
+              {isRestoring ? 'Restoring…' : 'Restore and save'}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
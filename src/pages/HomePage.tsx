@@ -3,13 +3,15 @@
  * Landing page with tenant selector and quick actions
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ListChecks, FileText, MousePointerClick, GitBranch, Zap, ArrowRight, Plus } from 'lucide-react';
-import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button } from '@/components/ui';
+import { ListChecks, FileText, MousePointerClick, GitBranch, Zap, ArrowRight, Plus, FileClock } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge } from '@/components/ui';
 import { TenantSelector } from '@/components/TenantSelector';
 import { CreateTenantModal } from '@/components/modals/CreateTenantModal';
 import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { listDrafts, deleteDraft, type ConfigDraftSummary } from '@/lib/drafts';
 
 interface QuickAction {
   title: string;
@@ -25,6 +27,7 @@ interface QuickAction {
  * Features:
  * - Welcome message
  * - Tenant selector
+ * - Unsaved drafts across tenants, with open/discard
  * - Quick action cards to navigate to sections
  * - Overview of current tenant (if loaded)
  *
@@ -36,6 +39,7 @@ interface QuickAction {
 export const HomePage: React.FC = () => {
   const navigate = useNavigate();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const { can } = usePermissions();
   const tenantId = useConfigStore((state) => state.config.tenantId);
   const programs = useConfigStore((state) => state.programs.programs);
   const forms = useConfigStore((state) => state.forms.forms);
@@ -100,15 +104,17 @@ export const HomePage: React.FC = () => {
                 Choose a tenant to load and edit its configuration
               </CardDescription>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowCreateModal(true)}
-              className="shrink-0"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Create New
-            </Button>
+            {can('create', 'tenant') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowCreateModal(true)}
+                className="shrink-0"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create New
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -116,6 +122,9 @@ export const HomePage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Unsaved drafts */}
+      <DraftsCard />
+
       {/* Current Tenant Overview */}
       {tenantId && (
         <Card className="card-container">
@@ -215,3 +224,91 @@ export const HomePage: React.FC = () => {
     </div>
   );
 };
+
+/**
+ * Tenants with unsaved work in the draft store. Opening a tenant loads it;
+ * the DraftBanner then offers to resume the draft.
+ */
+const DraftsCard: React.FC = () => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  // Re-list when a draft may have been resumed, discarded, or saved away
+  const pendingDraft = useConfigStore((state) => state.config.pendingDraft);
+  const lastSaved = useConfigStore((state) => state.config.lastSaved);
+  const loadConfig = useConfigStore((state) => state.config.loadConfig);
+
+  const [drafts, setDrafts] = useState<ConfigDraftSummary[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchDrafts = async () => {
+      try {
+        const result = await listDrafts();
+        if (!cancelled) setDrafts(result);
+      } catch (error) {
+        console.error('Failed to list drafts:', error);
+      }
+    };
+    void fetchDrafts();
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId, pendingDraft, lastSaved, reloadKey]);
+
+  if (drafts.length === 0) return null;
+
+  const handleDiscard = async (draftTenantId: string) => {
+    if (draftTenantId === tenantId && pendingDraft) {
+      await useConfigStore.getState().config.discardDraft();
+    } else {
+      await deleteDraft(draftTenantId);
+    }
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <Card className="card-container">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileClock className="w-5 h-5 text-blue-600" />
+          Unsaved Drafts
+        </CardTitle>
+        <CardDescription>Work in progress kept in this browser</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {drafts.map((draft) => (
+            <li key={draft.tenantId} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {draft.tenantName || draft.tenantId}
+                  </span>
+                  {draft.tenantId === tenantId && (
+                    <Badge variant="info" size="sm">
+                      Loaded
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  {draft.tenantName && <code className="mr-2">{draft.tenantId}</code>}
+                  Last edited {new Date(draft.savedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {draft.tenantId !== tenantId && (
+                  <Button variant="outline" size="sm" onClick={() => void loadConfig(draft.tenantId)}>
+                    Open
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => void handleDiscard(draft.tenantId)}>
+                  Discard
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
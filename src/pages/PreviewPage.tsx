@@ -0,0 +1,58 @@
+/**
+ * PreviewPage Component
+ * Try the conversation the widget would have with the current, unsaved config
+ */
+
+import React from 'react';
+import { MessagesSquare } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui';
+import { ChatSimulator } from '@/components/preview/ChatSimulator';
+import { useConfigStore } from '@/store';
+import { useMergedConfig } from '@/hooks/useMergedConfig';
+
+/**
+ * Preview Page
+ *
+ * Runs the chat simulator against getMergedConfig(), so operators can test
+ * chips, branches, CTAs, showcase items and forms before saving or
+ * deploying.
+ *
+ * @example
+ * ```tsx
+ * <PreviewPage />
+ * ```
+ */
+export const PreviewPage: React.FC = () => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  // Re-read on each edit, so the simulator sees it
+  const config = useMergedConfig();
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-3">
+          <MessagesSquare className="w-8 h-8 text-green-600" />
+          Preview
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Walk through the widget conversation with your current edits — nothing is saved or sent
+        </p>
+      </div>
+
+      {/* No Tenant Selected */}
+      {!tenantId && (
+        <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+          <CardContent className="pt-6">
+            <p className="text-amber-800 dark:text-amber-300">
+              Please select a tenant from the header to preview its conversation.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Keyed so switching tenants restarts the conversation */}
+      {tenantId && config && <ChatSimulator key={tenantId} config={config} />}
+    </div>
+  );
+};
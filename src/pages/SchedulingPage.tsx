@@ -0,0 +1,160 @@
+/**
+ * SchedulingPage Component
+ * Editor for the v1 scheduling block (appointment types, routing, reminders)
+ */
+
+import React from 'react';
+import { CalendarClock, Info } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+  TabsContent,
+} from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { isSavedSection } from '@/lib/contracts';
+import {
+  AppointmentTypesEditor,
+  RoutingPoliciesEditor,
+  SchedulingGeneralSettings,
+  SchedulingIssues,
+  updateScheduling,
+  useSchedulingIssues,
+} from '@/components/editors/SchedulingEditor';
+
+/**
+ * Scheduling Page
+ *
+ * Edits baseConfig.scheduling and shows the tenant schema's scheduling
+ * invariant errors inline, so enabling scheduling_enabled can be followed
+ * through to a config that saves.
+ *
+ * @example
+ * ```tsx
+ * <SchedulingPage />
+ * ```
+ */
+export const SchedulingPage: React.FC = () => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const schedulingEnabled = useConfigStore(
+    (state) => state.config.baseConfig?.feature_flags?.scheduling_enabled === true
+  );
+  const hasScheduling = useConfigStore((state) => !!state.config.baseConfig?.scheduling);
+  const issues = useSchedulingIssues();
+  const { can } = usePermissions();
+  const readOnly = !can('edit', 'content');
+
+  const countFor = (prefix: string) =>
+    issues.filter((issue) => issue.path.startsWith(prefix)).length;
+  const appointmentTypeIssues = countFor('scheduling.appointment_types');
+  const routingPolicyIssues = countFor('scheduling.routing_policies');
+
+  const tabLabel = (label: string, count: number) => (count > 0 ? `${label} (${count})` : label);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-3">
+          <CalendarClock className="w-8 h-8 text-gray-600 dark:text-gray-400" />
+          Scheduling
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Appointment types, staff routing, and reminder cadence for in-chat booking
+        </p>
+      </div>
+
+      {/* No Tenant Selected */}
+      {!tenantId && (
+        <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+          <CardContent className="pt-6">
+            <p className="text-amber-800 dark:text-amber-300">
+              Please select a tenant from the header to view and edit scheduling.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {tenantId && (
+        <>
+          {!schedulingEnabled && (
+            <Card className="bg-blue-50 border-blue-200 dark:bg-blue-950/30 dark:border-blue-800">
+              <CardContent className="pt-6 flex items-start gap-3">
+                <Info className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                <p className="text-sm text-blue-800 dark:text-blue-300">
+                  Scheduling is turned off for this tenant. You can prepare the configuration
+                  here; visitors can book once the Scheduling flag is enabled under Settings → AI
+                  &amp; AWS → Pipeline Feature Flags.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {readOnly && (
+            <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+              <CardContent className="pt-6">
+                <p className="text-amber-800 dark:text-amber-300">
+                  Your role can view scheduling but not change it.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isSavedSection('scheduling') && (
+            <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+              <CardContent className="pt-6">
+                <p className="text-amber-800 dark:text-amber-300">
+                  Scheduling changes aren&apos;t sent when you save: the config manager doesn&apos;t
+                  accept the scheduling section until its server update ships.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <SchedulingIssues issues={issues} />
+
+          {!hasScheduling ? (
+            <Card>
+              <CardContent className="pt-6 flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  This tenant has no scheduling configuration yet.
+                </p>
+                <Button onClick={() => updateScheduling(() => {})} disabled={readOnly}>
+                  Create scheduling configuration
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <Tabs defaultValue="general" className="w-full">
+              <TabsList className="w-full justify-start">
+                <TabsTrigger value="general">General</TabsTrigger>
+                <TabsTrigger value="appointment-types">
+                  {tabLabel('Appointment Types', appointmentTypeIssues)}
+                </TabsTrigger>
+                <TabsTrigger value="routing-policies">
+                  {tabLabel('Routing Policies', routingPolicyIssues)}
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="general" className="space-y-6 mt-6">
+                <SchedulingGeneralSettings issues={issues} />
+              </TabsContent>
+
+              <TabsContent value="appointment-types" className="mt-6">
+                <AppointmentTypesEditor />
+              </TabsContent>
+
+              <TabsContent value="routing-policies" className="mt-6">
+                <RoutingPoliciesEditor />
+              </TabsContent>
+            </Tabs>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
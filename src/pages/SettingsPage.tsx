@@ -3,11 +3,12 @@
  * Settings and configuration metadata page
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Settings, CheckCircle, AlertCircle, Clock, Info, Trash2 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Badge, Button, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui';
 import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
 import { DeleteTenantModal } from '@/components/modals/DeleteTenantModal';
 import {
   CTASettings,
@@ -24,11 +25,14 @@ import {
   MessengerWelcomeSettings,
 } from '@/components/settings';
 import { EmbedCodeSettings } from '@/components/settings/EmbedCodeSettings';
+import { scrollToField } from '@/components/validation/ValidationAlert';
 
 /**
  * Settings Page
  *
- * Displays configuration metadata and validation status
+ * Displays configuration metadata and validation status. Panels are read-only
+ * for roles that can't edit settings. `?tab=` selects the tab and `?scrollTo=` a
+ * field in it, as the validation panel links to schema issues.
  *
  * @example
  * ```tsx
@@ -37,6 +41,8 @@ import { EmbedCodeSettings } from '@/components/settings/EmbedCodeSettings';
  */
 export const SettingsPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') || 'general';
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
   const tenantId = useConfigStore((state) => state.config.tenantId);
@@ -49,6 +55,29 @@ export const SettingsPage: React.FC = () => {
   const lastValidated = useConfigStore((state) => state.validation.lastValidated);
   const clearTenant = useConfigStore((state) => state.config.clearTenant);
   const addToast = useConfigStore((state) => state.ui.addToast);
+  const { can } = usePermissions();
+  const readOnly = !can('edit', 'settings');
+
+  // The tab lives in the URL so validation links can open it
+  const setActiveTab = (tab: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set('tab', tab);
+    setSearchParams(newParams, { replace: true });
+  };
+
+  // Scroll to a linked field once its tab has rendered
+  useEffect(() => {
+    const scrollTo = searchParams.get('scrollTo');
+    if (!scrollTo) return;
+
+    const timer = setTimeout(() => {
+      scrollToField(scrollTo);
+      const newParams = new URLSearchParams(searchParams);
+      newParams.delete('scrollTo');
+      setSearchParams(newParams, { replace: true });
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [searchParams, setSearchParams]);
 
   const isDemo = baseConfig?.tenant_type === 'demo' || tenantId?.startsWith('demo_');
 
@@ -134,7 +163,7 @@ export const SettingsPage: React.FC = () => {
           </Card>
 
           {/* Danger Zone — only for demo tenants */}
-          {isDemo && (
+          {isDemo && can('delete', 'tenant') && (
             <Card className="border-red-300 dark:border-red-800">
               <CardHeader>
                 <CardTitle className="text-red-600 dark:text-red-400 flex items-center gap-2">
@@ -167,8 +196,18 @@ export const SettingsPage: React.FC = () => {
             </Card>
           )}
 
-          {/* Tabbed Settings */}
-          <Tabs defaultValue="general" className="w-full">
+          {readOnly && (
+            <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+              <CardContent className="pt-6">
+                <p className="text-amber-800 dark:text-amber-300">
+                  Your role can view these settings but not change them.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Tabbed Settings — a disabled fieldset greys out every panel control */}
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="w-full justify-start">
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="branding">Branding</TabsTrigger>
@@ -179,35 +218,45 @@ export const SettingsPage: React.FC = () => {
 
             {/* General Tab */}
             <TabsContent value="general" className="space-y-6 mt-6">
-              <TenantIdentitySettings />
-              <EmbedCodeSettings />
-              <NotificationSettings />
-              <CTASettings />
-              <QuickHelpSettings />
-              <WidgetBehaviorSettings />
+              <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+                <TenantIdentitySettings />
+                <EmbedCodeSettings />
+                <NotificationSettings />
+                <CTASettings />
+                <QuickHelpSettings />
+                <WidgetBehaviorSettings />
+              </fieldset>
             </TabsContent>
 
             {/* Branding Tab */}
             <TabsContent value="branding" className="space-y-6 mt-6">
-              <BrandingSettings />
+              <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+                <BrandingSettings />
+              </fieldset>
             </TabsContent>
 
             {/* Features Tab */}
             <TabsContent value="features" className="space-y-6 mt-6">
-              <FeaturesSettings />
+              <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+                <FeaturesSettings />
+              </fieldset>
             </TabsContent>
 
             {/* AI & AWS Tab */}
             <TabsContent value="ai-aws" className="space-y-6 mt-6">
-              <BedrockInstructionsSettings />
-              <AWSSettings />
-              <FeatureFlagsSettings />
+              <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+                <BedrockInstructionsSettings />
+                <AWSSettings />
+                <FeatureFlagsSettings />
+              </fieldset>
             </TabsContent>
 
             {/* Messenger Tab — first "product" grouping (flag + behavior + readiness) */}
             <TabsContent value="messenger" className="space-y-6 mt-6">
-              <MessengerSettings />
-              <MessengerWelcomeSettings />
+              <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+                <MessengerSettings />
+                <MessengerWelcomeSettings />
+              </fieldset>
             </TabsContent>
           </Tabs>
 
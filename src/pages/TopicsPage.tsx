@@ -0,0 +1,22 @@
+/**
+ * TopicsPage Component
+ * Topic definitions editor page (V4.1 CTA pool selection)
+ */
+
+import React from 'react';
+import { TopicsEditor } from '@/components/editors/TopicsEditor';
+
+/**
+ * Topics Page
+ *
+ * Editor for the classifier topics that AI-available CTAs are tagged with
+ * via selection_metadata.topic_tags
+ *
+ * @example
+ * ```tsx
+ * <TopicsPage />
+ * ```
+ */
+export const TopicsPage: React.FC = () => {
+  return <TopicsEditor />;
+};
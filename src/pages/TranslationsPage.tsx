@@ -0,0 +1,110 @@
+/**
+ * TranslationsPage Component
+ * Tenant locales and translations of every user-facing string
+ */
+
+import React, { useMemo } from 'react';
+import { Languages } from 'lucide-react';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui';
+import { useConfigStore } from '@/store';
+import { usePermissions } from '@/hooks/usePermissions';
+import { isSavedSection } from '@/lib/contracts';
+import { collectTranslatableStrings } from '@/lib/localization';
+import {
+  LocaleSettings,
+  TranslationBundleActions,
+  TranslationGrid,
+  updateLocalization,
+  useLocalizableConfig,
+} from '@/components/translations';
+
+/**
+ * Translations Page
+ *
+ * Edits baseConfig.localization: the enabled locales, and a grid of every
+ * string in forms, CTAs, action chips, showcase items, the welcome message,
+ * quick help and Messenger with its translation in each locale. Bundles
+ * round-trip the grid through translators as JSON or CSV.
+ *
+ * @example
+ * ```tsx
+ * <TranslationsPage />
+ * ```
+ */
+export const TranslationsPage: React.FC = () => {
+  const tenantId = useConfigStore((state) => state.config.tenantId);
+  const { can } = usePermissions();
+  const readOnly = !can('edit', 'content');
+  const config = useLocalizableConfig();
+  const localization = config.localization;
+  const strings = useMemo(() => collectTranslatableStrings(config), [config]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-3">
+          <Languages className="w-8 h-8 text-gray-600 dark:text-gray-400" />
+          Translations
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Locales offered to visitors and translations of the widget and Messenger text
+        </p>
+      </div>
+
+      {/* No Tenant Selected */}
+      {!tenantId && (
+        <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+          <CardContent className="pt-6">
+            <p className="text-amber-800 dark:text-amber-300">
+              Please select a tenant from the header to view and edit translations.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {tenantId && !isSavedSection('localization') && (
+        <Card className="bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-800">
+          <CardContent className="pt-6">
+            <p className="text-amber-800 dark:text-amber-300">
+              Translation changes aren&apos;t sent when you save: the config manager doesn&apos;t
+              accept the localization section until its server update ships.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {tenantId && !localization && (
+        <Card>
+          <CardContent className="pt-6 flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This tenant serves one language. Set up locales to translate its {strings.length} strings.
+            </p>
+            <Button onClick={() => updateLocalization(() => {})} disabled={readOnly}>
+              Set up translations
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {tenantId && localization && (
+        <>
+          <LocaleSettings localization={localization} disabled={readOnly} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Strings</CardTitle>
+              <CardDescription>
+                Export a bundle for translators, then import their JSON or CSV to fill the grid
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <TranslationBundleActions strings={strings} localization={localization} disabled={readOnly} />
+              <TranslationGrid strings={strings} localization={localization} disabled={readOnly} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -8,7 +8,13 @@ export { ProgramsPage } from './ProgramsPage';
 export { FormsPage } from './FormsPage';
 export { CTAsPage } from './CTAsPage';
 export { BranchesPage } from './BranchesPage';
+export { TopicsPage } from './TopicsPage';
 export { ActionChipsPage } from './ActionChipsPage';
 export { CardsPage } from './CardsPage';
+export { SchedulingPage } from './SchedulingPage';
+export { TranslationsPage } from './TranslationsPage';
+export { HistoryPage } from './HistoryPage';
+export { BulkOperationsPage } from './BulkOperationsPage';
+export { PreviewPage } from './PreviewPage';
 export { SettingsPage } from './SettingsPage';
 export { NotFoundPage } from './NotFoundPage';
@@ -0,0 +1,86 @@
+/**
+ * config.applyConflictMerge: the merge dialog's result becomes the editor
+ * content and is saved against the server's ETag, with the server's config
+ * as the new saved baseline — so a settings-panel edit made before the 409
+ * survives, unlike reloadBaseForConflict.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import { threeWayMerge } from '@/lib/diff';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse, SaveConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    subscription_tier: 'Standard',
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    content_showcase: [],
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBTEST12345' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+describe('config.applyConflictMerge', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(configOps.loadConfig).mockResolvedValue({
+      config: makeConfig(),
+      metadata: { lastModified: 1 },
+      etag: 'W/"v1"',
+    } as unknown as LoadConfigResponse);
+    await useConfigStore.getState().config.loadConfig('TEST001');
+    vi.mocked(configOps.saveConfig).mockResolvedValue({
+      success: true,
+      etag: 'W/"v3"',
+    } as SaveConfigResponse);
+  });
+
+  it('saves the merged config with the server ETag and keeps settings-panel edits', async () => {
+    // Settings panel edit, then another operator saves a program
+    useConfigStore.setState((state) => {
+      state.config.baseConfig!.branding.primary_color = '#ff0000';
+      state.config.isDirty = true;
+      state.config.conflictState = { currentConfig: null, currentETag: 'W/"v2"' };
+    });
+    const server = makeConfig({
+      version: '1.1',
+      programs: { p1: { program_id: 'p1', program_name: 'Theirs' } },
+    });
+
+    const s = useConfigStore.getState();
+    const { merged, conflicts } = threeWayMerge(s.config.savedConfig, s.config.getMergedConfig()!, server);
+    expect(conflicts).toEqual([]);
+
+    await s.config.applyConflictMerge(merged, { config: server, etag: 'W/"v2"' });
+
+    const [, saved, options] = vi.mocked(configOps.saveConfig).mock.calls[0];
+    expect(options).toMatchObject({ ifMatch: 'W/"v2"' });
+    expect(saved.branding.primary_color).toBe('#ff0000');
+    expect(saved.programs?.p1.program_name).toBe('Theirs');
+
+    const after = useConfigStore.getState();
+    expect(after.config.conflictState).toBeNull();
+    expect(after.config.isDirty).toBe(false);
+    expect(after.config.etag).toBe('W/"v3"');
+    expect(after.programs.programs.p1.program_name).toBe('Theirs');
+  });
+});
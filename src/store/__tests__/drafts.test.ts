@@ -0,0 +1,150 @@
+/**
+ * Draft resume flow: loading a tenant with a stored draft offers it (and
+ * flags it stale when the server ETag moved on) without applying anything.
+ * Resuming applies the whole draft, settings included; discarding, saving,
+ * or deploying deletes it.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import { saveDraft, getDraft, deleteDraft } from '@/lib/drafts';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse, SaveConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+const TENANT = 'TEST001';
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: TENANT,
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    subscription_tier: 'Standard',
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    content_showcase: [],
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBTEST12345' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+async function loadWithEtag(etag: string) {
+  vi.mocked(configOps.loadConfig).mockResolvedValue({
+    config: makeConfig({
+      version: '1.4',
+      programs: { existing: { program_id: 'existing', program_name: 'Server value' } },
+    }),
+    metadata: { lastModified: 1 },
+    etag,
+  } as unknown as LoadConfigResponse);
+  await useConfigStore.getState().config.loadConfig(TENANT);
+}
+
+async function seedDraft(baseEtag: string | null) {
+  await saveDraft({
+    tenantId: TENANT,
+    tenantName: 'Title',
+    baseEtag,
+    savedAt: 1_700_000_000_000,
+    config: makeConfig({
+      version: '1.2',
+      chat_title: 'Draft title',
+      programs: { draft: { program_id: 'draft', program_name: 'My draft edit' } },
+    } as Partial<TenantConfig>),
+  });
+}
+
+describe('config drafts', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await deleteDraft(TENANT);
+    useConfigStore.setState((state) => {
+      state.ui.toasts = [];
+    });
+  });
+
+  it('offers a matching draft without applying it', async () => {
+    await seedDraft('W/"v1"');
+    await loadWithEtag('W/"v1"');
+
+    const state = useConfigStore.getState();
+    expect(state.config.pendingDraft).toMatchObject({ baseEtag: 'W/"v1"', isStale: false });
+    expect(state.programs.programs.draft).toBeUndefined();
+    expect(state.config.isDirty).toBe(false);
+  });
+
+  it('flags the draft stale when the server ETag changed, or cannot be compared', async () => {
+    await seedDraft('W/"v1"');
+    await loadWithEtag('W/"v2"');
+    expect(useConfigStore.getState().config.pendingDraft?.isStale).toBe(true);
+
+    await seedDraft(null);
+    await loadWithEtag('W/"v2"');
+    expect(useConfigStore.getState().config.pendingDraft?.isStale).toBe(true);
+  });
+
+  it('has no pending draft when none is stored', async () => {
+    await loadWithEtag('W/"v1"');
+    expect(useConfigStore.getState().config.pendingDraft).toBeNull();
+  });
+
+  it('resumeDraft applies the draft, settings included, as an undoable step', async () => {
+    await seedDraft('W/"v1"');
+    await loadWithEtag('W/"v1"');
+
+    await useConfigStore.getState().config.resumeDraft();
+
+    let state = useConfigStore.getState();
+    expect(state.config.pendingDraft).toBeNull();
+    expect(state.config.isDirty).toBe(true);
+    expect(state.programs.programs.draft?.program_name).toBe('My draft edit');
+    expect(state.programs.programs.existing).toBeUndefined();
+    expect(state.config.baseConfig?.chat_title).toBe('Draft title');
+    // The live version counter is kept so the save builds on the server's
+    expect(state.config.baseConfig?.version).toBe('1.4');
+
+    state.config.undo();
+    state = useConfigStore.getState();
+    expect(state.programs.programs.existing?.program_name).toBe('Server value');
+    expect(state.config.baseConfig?.chat_title).toBe('Title');
+  });
+
+  it('discardDraft deletes the draft and keeps the loaded config', async () => {
+    await seedDraft('W/"v1"');
+    await loadWithEtag('W/"v1"');
+
+    await useConfigStore.getState().config.discardDraft();
+
+    expect(useConfigStore.getState().config.pendingDraft).toBeNull();
+    expect(useConfigStore.getState().programs.programs.existing).toBeDefined();
+    expect(await getDraft(TENANT)).toBeNull();
+  });
+
+  it('deletes the draft after a successful save', async () => {
+    await seedDraft('W/"v1"');
+    await loadWithEtag('W/"v1"');
+    await useConfigStore.getState().config.resumeDraft();
+    vi.mocked(configOps.saveConfig).mockResolvedValue({
+      success: true,
+      etag: 'W/"v2"',
+    } as SaveConfigResponse);
+
+    await useConfigStore.getState().config.saveConfig();
+
+    expect(configOps.saveConfig).toHaveBeenCalled();
+    await vi.waitFor(async () => expect(await getDraft(TENANT)).toBeNull());
+  });
+});
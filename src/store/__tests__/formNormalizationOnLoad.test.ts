@@ -28,12 +28,15 @@ function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
     tone_prompt: 't',
     welcome_message: 'w',
     generated_at: 1,
+    subscription_tier: 'Standard',
     programs: { p1: { program_id: 'p1', program_name: 'Program One' } },
     conversational_forms: {},
     cta_definitions: {},
     conversation_branches: {},
     content_showcase: [],
-    branding: { primary_color: '#000000' },
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBTEST12345' },
     ...over,
   } as unknown as TenantConfig;
 }
@@ -0,0 +1,170 @@
+/**
+ * Undo/redo contract for the config store.
+ *
+ * History must cover both mutation paths — slice actions (deleteBranch,
+ * updateForm, …) and settings panels that write baseConfig through
+ * useConfigStore.setState — collapse keystroke-level edits into one step, and
+ * start over on every tenant load.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Original title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    subscription_tier: 'Standard',
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {
+      apply: { label: 'Apply', action: 'external_link', url: 'https://x.test', type: 'external_link' },
+    },
+    conversation_branches: {
+      volunteer: { available_ctas: { primary: 'apply', secondary: [] } },
+    },
+    content_showcase: [],
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBTEST12345' },
+    ...over,
+  } as TenantConfig;
+}
+
+async function loadTenant(config: TenantConfig = makeConfig()) {
+  vi.mocked(configOps.loadConfig).mockResolvedValue({
+    config,
+    metadata: { lastModified: 1 },
+    etag: 'W/"v1"',
+  } as unknown as LoadConfigResponse);
+  await useConfigStore.getState().config.loadConfig('TEST001');
+}
+
+/** Simulates a settings panel writing straight into baseConfig */
+function setChatTitle(title: string) {
+  useConfigStore.setState((state) => {
+    if (state.config.baseConfig) {
+      state.config.baseConfig.chat_title = title;
+      state.config.isDirty = true;
+    }
+  });
+}
+
+describe('config undo/redo history', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await loadTenant();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with an empty history after loadConfig', () => {
+    const { config } = useConfigStore.getState();
+    expect(config.canUndo).toBe(false);
+    expect(config.canRedo).toBe(false);
+  });
+
+  it('restores a deleted branch and can redo the deletion', () => {
+    useConfigStore.getState().branches.deleteBranch('volunteer');
+    expect(useConfigStore.getState().branches.branches.volunteer).toBeUndefined();
+    expect(useConfigStore.getState().config.canUndo).toBe(true);
+
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().branches.branches.volunteer).toBeDefined();
+    expect(useConfigStore.getState().config.canRedo).toBe(true);
+
+    useConfigStore.getState().config.redo();
+    expect(useConfigStore.getState().branches.branches.volunteer).toBeUndefined();
+  });
+
+  it('captures settings-panel writes to baseConfig', () => {
+    setChatTitle('Edited title');
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.baseConfig?.chat_title).toBe('Original title');
+  });
+
+  it('coalesces rapid edits to the same field into one step', () => {
+    setChatTitle('E');
+    vi.advanceTimersByTime(100);
+    setChatTitle('Ed');
+    vi.advanceTimersByTime(100);
+    setChatTitle('Edi');
+
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.baseConfig?.chat_title).toBe('Original title');
+    expect(useConfigStore.getState().config.canUndo).toBe(false);
+  });
+
+  it('keeps edits separated by a pause as separate steps', () => {
+    setChatTitle('First');
+    vi.advanceTimersByTime(5000);
+    setChatTitle('Second');
+
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.baseConfig?.chat_title).toBe('First');
+  });
+
+  it('does not coalesce edits to different sections', () => {
+    setChatTitle('Edited title');
+    useConfigStore.getState().branches.deleteBranch('volunteer');
+
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().branches.branches.volunteer).toBeDefined();
+    expect(useConfigStore.getState().config.baseConfig?.chat_title).toBe('Edited title');
+  });
+
+  it('drops the redo stack when a new edit is made', () => {
+    setChatTitle('Edited title');
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.canRedo).toBe(true);
+
+    useConfigStore.getState().branches.deleteBranch('volunteer');
+    expect(useConfigStore.getState().config.canRedo).toBe(false);
+  });
+
+  it('marks the config dirty after undo', () => {
+    setChatTitle('Edited title');
+    useConfigStore.getState().config.markClean();
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.isDirty).toBe(true);
+  });
+
+  it('clears history on loadConfig and clearTenant', async () => {
+    setChatTitle('Edited title');
+    await loadTenant();
+    expect(useConfigStore.getState().config.canUndo).toBe(false);
+
+    setChatTitle('Edited again');
+    useConfigStore.getState().config.clearTenant();
+    expect(useConfigStore.getState().config.canUndo).toBe(false);
+  });
+
+  it('does not record a save as an undo step', async () => {
+    vi.mocked(configOps.saveConfig).mockResolvedValue({ etag: 'W/"v2"' } as never);
+    setChatTitle('Edited title');
+
+    await useConfigStore.getState().config.saveConfig();
+    expect(useConfigStore.getState().config.etag).toBe('W/"v2"');
+
+    useConfigStore.getState().config.undo();
+    expect(useConfigStore.getState().config.baseConfig?.chat_title).toBe('Original title');
+    expect(useConfigStore.getState().config.canUndo).toBe(false);
+  });
+});
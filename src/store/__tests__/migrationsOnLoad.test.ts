@@ -0,0 +1,147 @@
+/**
+ * loadConfig runs schema migrations: the editor holds the upgraded config,
+ * the stored config stays the changelog baseline, and the migration record
+ * is kept for MigrationBanner.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+}));
+
+function makeConfig(over: Record<string, unknown> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.4',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {
+      learn: { text: 'Learn more', action: 'send_query', query: 'Tell me more', type: 'bedrock_query' },
+    },
+    conversation_branches: {
+      main: { available_ctas: { primary: 'learn' } },
+    },
+    content_showcase: [],
+    branding: { primary_color: '#000000' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+function mockLoad(config: TenantConfig) {
+  vi.mocked(configOps.loadConfig).mockResolvedValue({
+    config,
+    metadata: { lastModified: 999 },
+    etag: 'W/"e1"',
+  } as unknown as LoadConfigResponse);
+}
+
+describe('loadConfig — schema migrations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useConfigStore.getState().config.clearTenant();
+    useConfigStore.setState((state) => {
+      state.ui.toasts = [];
+    });
+  });
+
+  it('loads the migrated config, keeps the stored one for the changelog, and records the steps', async () => {
+    const stored = makeConfig();
+    mockLoad(stored);
+
+    await useConfigStore.getState().config.loadConfig('TEST001');
+
+    const s = useConfigStore.getState();
+    expect(s.ctas.ctas.learn.label).toBe('Learn more');
+    expect(s.ctas.ctas.learn.text).toBeUndefined();
+    expect(s.branches.branches.main.available_ctas.secondary).toEqual([]);
+    expect(s.config.savedConfig).toEqual(stored);
+    expect(s.config.isDirty).toBe(true);
+
+    const report = s.config.migrationReport!;
+    expect(report.fromVersion).toBe('1.4');
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.applied.map((step) => step.id)).toEqual(['branch-and-cta-shape']);
+    expect(report.applied[0].changes).toHaveLength(2);
+    expect(s.ui.toasts.some((t) => t.message.includes(`to ${CURRENT_SCHEMA_VERSION}`))).toBe(true);
+
+    const merged = s.config.getMergedConfig()!;
+    expect(merged.cta_definitions.learn.label).toBe('Learn more');
+    expect(merged.version).toBe('1.4');
+  });
+
+  it('records nothing for a config already in the current shape', async () => {
+    mockLoad(
+      makeConfig({
+        cta_definitions: { learn: { label: 'Learn', action: 'send_query', query: 'q', type: 'bedrock_query' } },
+        conversation_branches: { main: { available_ctas: { primary: 'learn', secondary: [] } } },
+      })
+    );
+
+    await useConfigStore.getState().config.loadConfig('TEST001');
+
+    const s = useConfigStore.getState();
+    expect(s.config.migrationReport).toBeNull();
+    expect(s.config.isDirty).toBe(false);
+  });
+
+  it('writes recipient edits to the root fulfillment of a migrated form', async () => {
+    mockLoad(
+      makeConfig({
+        version: '1.5',
+        conversational_forms: {
+          apply: {
+            enabled: true,
+            form_id: 'apply',
+            title: 'Apply',
+            fields: [],
+            fulfillment: { type: 'email', email_to: ['old@example.org'], template: 'custom', priority: 'high' },
+          },
+        },
+      })
+    );
+    await useConfigStore.getState().config.loadConfig('TEST001');
+
+    const form = useConfigStore.getState().forms.forms.apply;
+    expect(form.post_submission?.fulfillment?.recipients).toEqual(['old@example.org']);
+    useConfigStore.getState().forms.updateForm('apply', {
+      post_submission: {
+        ...form.post_submission!,
+        fulfillment: { ...form.post_submission!.fulfillment!, recipients: ['new@example.org'] },
+      },
+    });
+
+    const merged = useConfigStore.getState().config.getMergedConfig()!;
+    expect((merged.conversational_forms.apply as unknown as { fulfillment: unknown }).fulfillment).toEqual({
+      type: 'email',
+      email_to: ['new@example.org'],
+      cc: undefined,
+      webhook_url: undefined,
+      template: 'custom',
+      priority: 'high',
+    });
+  });
+
+  it('dismissMigrationReport hides the record; clearTenant drops it', async () => {
+    mockLoad(makeConfig());
+    await useConfigStore.getState().config.loadConfig('TEST001');
+
+    useConfigStore.getState().config.dismissMigrationReport();
+    expect(useConfigStore.getState().config.migrationReport).toBeNull();
+    expect(useConfigStore.getState().config.isDirty).toBe(true);
+
+    await useConfigStore.getState().config.loadConfig('TEST001');
+    useConfigStore.getState().config.clearTenant();
+    expect(useConfigStore.getState().config.migrationReport).toBeNull();
+  });
+});
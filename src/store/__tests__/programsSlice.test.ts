@@ -16,6 +16,7 @@ import type {
   CTAsSlice,
   BranchesSlice,
   ContentShowcaseSlice,
+  TopicsSlice,
   ValidationSlice,
 } from '../types';
 
@@ -32,6 +33,7 @@ describe('Programs Slice', () => {
         branches: {} as unknown as BranchesSlice,
         cardInventory: {} as unknown as Record<string, never>,
         contentShowcase: {} as unknown as ContentShowcaseSlice,
+        topics: {} as unknown as TopicsSlice,
         ui: createUISlice(...args),
         config: createConfigSlice(...args),
         validation: { validateAll: vi.fn() } as unknown as ValidationSlice,
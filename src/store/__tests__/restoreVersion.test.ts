@@ -0,0 +1,132 @@
+/**
+ * config.restoreVersion: a stored version replaces the editor state and is
+ * saved through the normal path (validation gate + If-Match), keeping the
+ * live tenant identity and version counter. The restore is one undo step.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useConfigStore } from '@/store';
+import * as configOps from '@/lib/api/config-operations';
+import type { TenantConfig } from '@/types/config';
+import type { LoadConfigResponse, LoadConfigVersionResponse, SaveConfigResponse } from '@/types/api';
+
+vi.mock('@/lib/api/config-operations', () => ({
+  loadConfig: vi.fn(),
+  loadConfigVersion: vi.fn(),
+  saveConfig: vi.fn(),
+}));
+
+function makeConfig(over: Partial<TenantConfig> = {}): TenantConfig {
+  return {
+    tenant_id: 'TEST001',
+    tenant_hash: 'hash',
+    version: '1.0',
+    chat_title: 'Title',
+    tone_prompt: 't',
+    welcome_message: 'w',
+    generated_at: 1,
+    subscription_tier: 'Standard',
+    programs: {},
+    conversational_forms: {},
+    cta_definitions: {},
+    conversation_branches: {},
+    content_showcase: [],
+    branding: { primary_color: '#000000', font_family: 'Inter' },
+    features: { uploads: false, photo_uploads: false, voice_input: false, callout: { enabled: false, auto_dismiss: false } },
+    aws: { knowledge_base_id: 'KBTEST12345' },
+    ...over,
+  } as unknown as TenantConfig;
+}
+
+const VERSION_ID = 'TEST001-2026-01-01T12-00-00-000Z';
+
+describe('config.restoreVersion', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    // A real load, so history starts empty like it does in the app
+    vi.mocked(configOps.loadConfig).mockResolvedValue({
+      config: makeConfig({
+        version: '1.3',
+        chat_title: 'Current title',
+        programs: { current: { program_id: 'current', program_name: 'Current' } },
+      }),
+      metadata: { lastModified: 1 },
+      etag: 'W/"live"',
+    } as unknown as LoadConfigResponse);
+    await useConfigStore.getState().config.loadConfig('TEST001');
+    useConfigStore.setState((state) => {
+      state.ui.toasts = [];
+    });
+
+    vi.mocked(configOps.loadConfigVersion).mockResolvedValue({
+      config: makeConfig({
+        tenant_hash: 'old-hash',
+        version: '1.1',
+        chat_title: 'Old title',
+        programs: { old: { program_id: 'old', program_name: 'Old' } },
+      }),
+      version: { versionId: VERSION_ID, lastModified: 1, size: 10 },
+    } as LoadConfigVersionResponse);
+    vi.mocked(configOps.saveConfig).mockResolvedValue({
+      success: true,
+      etag: 'W/"restored"',
+    } as SaveConfigResponse);
+  });
+
+  it('applies the stored version and saves it with the live ETag', async () => {
+    await useConfigStore.getState().config.restoreVersion(VERSION_ID);
+
+    expect(configOps.loadConfigVersion).toHaveBeenCalledWith('TEST001', VERSION_ID);
+    const [tenantId, saved, options] = vi.mocked(configOps.saveConfig).mock.calls[0];
+    expect(tenantId).toBe('TEST001');
+    expect(options).toMatchObject({ ifMatch: 'W/"live"' });
+    expect(saved.chat_title).toBe('Old title');
+    expect(Object.keys(saved.programs ?? {})).toEqual(['old']);
+    // Identity and version counter stay with the live config
+    expect(saved.tenant_hash).toBe('hash');
+    expect(saved.version).toBe('1.3');
+
+    const s = useConfigStore.getState();
+    expect(s.config.isDirty).toBe(false);
+    expect(s.config.etag).toBe('W/"restored"');
+    expect(s.ui.toasts.some((t) => t.message === `Restored version ${VERSION_ID}`)).toBe(true);
+  });
+
+  it('keeps the editor\'s sections the version lacks', async () => {
+    const { programs: _programs, ...withoutPrograms } = makeConfig({ chat_title: 'Old title' });
+    vi.mocked(configOps.loadConfigVersion).mockResolvedValue({
+      config: withoutPrograms as TenantConfig,
+      version: { versionId: VERSION_ID, lastModified: 1, size: 10 },
+    } as LoadConfigVersionResponse);
+
+    await useConfigStore.getState().config.restoreVersion(VERSION_ID);
+
+    const [, saved] = vi.mocked(configOps.saveConfig).mock.calls[0];
+    expect(saved.chat_title).toBe('Old title');
+    expect(Object.keys(saved.programs ?? {})).toEqual(['current']);
+    expect(Object.keys(useConfigStore.getState().programs.programs)).toEqual(['current']);
+  });
+
+  it('can be undone back to the pre-restore editor state', async () => {
+    await useConfigStore.getState().config.restoreVersion(VERSION_ID);
+
+    useConfigStore.getState().config.undo();
+
+    const s = useConfigStore.getState();
+    expect(Object.keys(s.programs.programs)).toEqual(['current']);
+    expect(s.config.baseConfig?.chat_title).toBe('Current title');
+  });
+
+  it('leaves the editor untouched when the version cannot be loaded', async () => {
+    vi.mocked(configOps.loadConfigVersion).mockRejectedValue(new Error('Version not found'));
+
+    await expect(
+      useConfigStore.getState().config.restoreVersion(VERSION_ID)
+    ).rejects.toThrow('Version not found');
+
+    const s = useConfigStore.getState();
+    expect(Object.keys(s.programs.programs)).toEqual(['current']);
+    expect(configOps.saveConfig).not.toHaveBeenCalled();
+    expect(s.ui.toasts.some((t) => t.type === 'error')).toBe(true);
+  });
+});
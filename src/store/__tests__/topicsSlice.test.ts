@@ -0,0 +1,97 @@
+/**
+ * Topics Slice Tests
+ * Tests for topic CRUD, rename cascade into CTA topic tags, and eligibility
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useConfigStore } from '@/store';
+import { resetConfigStore } from '@/__tests__/integration/testUtils';
+import type { CTADefinition, TopicDefinition } from '@/types/config';
+
+const volunteering: TopicDefinition = { id: 'volunteering', label: 'Volunteering' };
+
+const taggedCTA = (overrides: Partial<CTADefinition> = {}): CTADefinition => ({
+  label: 'Volunteer',
+  action: 'send_query',
+  type: 'bedrock_query',
+  query: 'How do I volunteer?',
+  ai_available: true,
+  selection_metadata: { topic_tags: ['volunteering'] },
+  ...overrides,
+});
+
+describe('Topics Slice', () => {
+  beforeEach(() => {
+    resetConfigStore(useConfigStore);
+  });
+
+  it('creates a topic and marks config as dirty', () => {
+    useConfigStore.getState().topics.createTopic(volunteering);
+
+    expect(useConfigStore.getState().topics.topic_definitions).toEqual([volunteering]);
+    expect(useConfigStore.getState().config.isDirty).toBe(true);
+  });
+
+  it('rejects a duplicate topic ID', () => {
+    useConfigStore.getState().topics.createTopic(volunteering);
+    useConfigStore.getState().topics.createTopic({ id: 'volunteering', label: 'Again' });
+
+    expect(useConfigStore.getState().topics.topic_definitions).toHaveLength(1);
+    expect(useConfigStore.getState().ui.toasts.at(-1)?.type).toBe('error');
+  });
+
+  it('cascades a rename into CTA topic tags', () => {
+    useConfigStore.setState((state) => {
+      state.topics.topic_definitions = [volunteering];
+      state.ctas.ctas = {
+        volunteer: taggedCTA({
+          selection_metadata: { topic_tags: ['volunteering', 'events'] },
+        }),
+        donate: taggedCTA({ selection_metadata: { topic_tags: ['giving'] } }),
+      };
+    });
+
+    useConfigStore.getState().topics.updateTopic('volunteering', { id: 'volunteer', label: 'Volunteer' });
+
+    const state = useConfigStore.getState();
+    expect(state.topics.getTopic('volunteer')?.label).toBe('Volunteer');
+    expect(state.topics.getTopic('volunteering')).toBeUndefined();
+    expect(state.ctas.ctas.volunteer.selection_metadata?.topic_tags).toEqual(['volunteer', 'events']);
+    expect(state.ctas.ctas.donate.selection_metadata?.topic_tags).toEqual(['giving']);
+  });
+
+  it('blocks deleting a topic that CTAs are tagged with', () => {
+    useConfigStore.setState((state) => {
+      state.topics.topic_definitions = [volunteering];
+      state.ctas.ctas = { volunteer: taggedCTA({ ai_available: false }) };
+    });
+
+    expect(useConfigStore.getState().topics.getTopicDependencies('volunteering').ctas).toEqual([
+      'volunteer',
+    ]);
+
+    useConfigStore.getState().topics.deleteTopic('volunteering');
+    expect(useConfigStore.getState().topics.topic_definitions).toHaveLength(1);
+
+    useConfigStore.setState((state) => {
+      state.ctas.ctas = {};
+    });
+    useConfigStore.getState().topics.deleteTopic('volunteering');
+    expect(useConfigStore.getState().topics.topic_definitions).toHaveLength(0);
+  });
+
+  it('only counts ai_available CTAs as eligible', () => {
+    useConfigStore.setState((state) => {
+      state.topics.topic_definitions = [volunteering];
+      state.ctas.ctas = {
+        volunteer: taggedCTA(),
+        volunteer_link: taggedCTA({ ai_available: false }),
+        donate: taggedCTA({ selection_metadata: { topic_tags: ['giving'] } }),
+      };
+    });
+
+    expect(useConfigStore.getState().topics.getEligibleCTAs('volunteering').map((e) => e.id)).toEqual([
+      'volunteer',
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Edit History
+ * Undo/redo stack for the config store
+ *
+ * Every mutation path writes through Immer — the domain slice actions AND the
+ * settings panels that call useConfigStore.setState on baseConfig directly — so
+ * instead of instrumenting each action the tracker subscribes to the store and
+ * diffs section references. Immer's structural sharing makes that cheap: an
+ * untouched section keeps its identity across set() calls.
+ */
+
+import type { StoreApi } from 'zustand';
+import type { TenantConfig } from '@/types/config';
+import type { ConfigBuilderState } from './types';
+
+/** Maximum number of undo steps retained per tenant session */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Edits to the same target within this window collapse into one undo step,
+ * so typing a welcome message is one step rather than one per keystroke.
+ */
+export const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * baseConfig keys the history does NOT restore. The domain sections are
+ * owned by their slices (getMergedConfig emits the slice copies), and the
+ * bookkeeping fields are rewritten by save/deploy — restoring them on undo
+ * would roll back a version bump the server already accepted.
+ */
+const UNTRACKED_BASE_KEYS = new Set<string>([
+  'programs',
+  'conversational_forms',
+  'cta_definitions',
+  'conversation_branches',
+  'content_showcase',
+  'topic_definitions',
+  'version',
+  'generated_at',
+]);
+
+/**
+ * Everything an undo step restores. Held by reference — snapshots share
+ * structure with the live state, so a step costs a handful of pointers.
+ */
+export interface HistorySnapshot {
+  programs: ConfigBuilderState['programs']['programs'];
+  forms: ConfigBuilderState['forms']['forms'];
+  ctas: ConfigBuilderState['ctas']['ctas'];
+  branches: ConfigBuilderState['branches']['branches'];
+  content_showcase: ConfigBuilderState['contentShowcase']['content_showcase'];
+  topic_definitions: ConfigBuilderState['topics']['topic_definitions'];
+  baseConfig: TenantConfig | null;
+}
+
+export function captureSnapshot(state: ConfigBuilderState): HistorySnapshot {
+  return {
+    programs: state.programs.programs,
+    forms: state.forms.forms,
+    ctas: state.ctas.ctas,
+    branches: state.branches.branches,
+    content_showcase: state.contentShowcase.content_showcase,
+    topic_definitions: state.topics.topic_definitions,
+    baseConfig: state.config.baseConfig,
+  };
+}
+
+/** Keys of a Record whose values changed identity between two snapshots */
+function changedKeys(
+  prev: Record<string, unknown> | null | undefined,
+  next: Record<string, unknown> | null | undefined,
+  skip?: Set<string>
+): string[] {
+  const keys = new Set([...Object.keys(prev || {}), ...Object.keys(next || {})]);
+  return [...keys].filter((key) => !skip?.has(key) && prev?.[key] !== next?.[key]);
+}
+
+/**
+ * Describe what changed between two snapshots as a stable key, e.g.
+ * "forms:volunteer_app" or "settings:branding". Returns null when nothing the
+ * history tracks has changed (e.g. a save that only bumped `version`).
+ */
+export function describeChange(prev: HistorySnapshot, next: HistorySnapshot): string | null {
+  const parts: string[] = [];
+
+  const dictionaries = ['programs', 'forms', 'ctas', 'branches'] as const;
+  for (const section of dictionaries) {
+    if (prev[section] !== next[section]) {
+      const ids = changedKeys(prev[section], next[section]);
+      if (ids.length > 0) parts.push(`${section}:${ids.sort().join(',')}`);
+    }
+  }
+
+  if (prev.content_showcase !== next.content_showcase) {
+    parts.push('content_showcase');
+  }
+
+  if (prev.topic_definitions !== next.topic_definitions) {
+    parts.push('topic_definitions');
+  }
+
+  if (prev.baseConfig !== next.baseConfig) {
+    const keys = changedKeys(
+      prev.baseConfig as unknown as Record<string, unknown>,
+      next.baseConfig as unknown as Record<string, unknown>,
+      UNTRACKED_BASE_KEYS
+    );
+    if (keys.length > 0) parts.push(`settings:${keys.sort().join(',')}`);
+  }
+
+  return parts.length > 0 ? parts.join('|') : null;
+}
+
+/**
+ * Write a snapshot back into an Immer draft. Domain slices are replaced
+ * wholesale; baseConfig only has its settings sections restored so the
+ * saved version and generated_at survive.
+ */
+export function applySnapshot(state: ConfigBuilderState, snapshot: HistorySnapshot): void {
+  state.programs.programs = snapshot.programs;
+  state.forms.forms = snapshot.forms;
+  state.ctas.ctas = snapshot.ctas;
+  state.branches.branches = snapshot.branches;
+  state.contentShowcase.content_showcase = snapshot.content_showcase;
+  state.topics.topic_definitions = snapshot.topic_definitions;
+
+  const current = state.config.baseConfig as unknown as Record<string, unknown> | null;
+  const target = snapshot.baseConfig as unknown as Record<string, unknown> | null;
+  if (current && target) {
+    for (const key of changedKeys(current, target, UNTRACKED_BASE_KEYS)) {
+      if (key in target) {
+        current[key] = target[key];
+      } else {
+        delete current[key];
+      }
+    }
+  }
+
+  // Clear selections that may point at entities the restore removed
+  if (state.programs.activeProgramId && !snapshot.programs[state.programs.activeProgramId]) {
+    state.programs.activeProgramId = null;
+  }
+  if (state.forms.activeFormId && !snapshot.forms[state.forms.activeFormId]) {
+    state.forms.activeFormId = null;
+  }
+  if (state.ctas.activeCtaId && !snapshot.ctas[state.ctas.activeCtaId]) {
+    state.ctas.activeCtaId = null;
+  }
+  if (state.branches.activeBranchId && !snapshot.branches[state.branches.activeBranchId]) {
+    state.branches.activeBranchId = null;
+  }
+}
+
+interface HistoryEntry {
+  snapshot: HistorySnapshot;
+}
+
+export interface EditHistory {
+  /** Drop all steps and treat the current state as the new baseline */
+  reset: () => void;
+  /** Adopt the current state as the baseline without recording a step */
+  rebase: () => void;
+  /** Run a mutation that must not be recorded (load, save, undo itself) */
+  withoutRecording: (fn: () => void) => void;
+  /** Pop the last step; returns the snapshot to restore, or null */
+  undo: () => HistorySnapshot | null;
+  /** Re-apply the last undone step; returns the snapshot to restore, or null */
+  redo: () => HistorySnapshot | null;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+/**
+ * Create the history tracker for a store and subscribe it to changes.
+ *
+ * Called from createConfigSlice, which owns the canUndo/canRedo flags; the
+ * tracker writes those flags back through `set` whenever the stacks change.
+ */
+export function createEditHistory(
+  api: StoreApi<ConfigBuilderState>,
+  setFlags: (canUndo: boolean, canRedo: boolean) => void,
+  now: () => number = () => Date.now()
+): EditHistory {
+  const past: HistoryEntry[] = [];
+  const future: HistoryEntry[] = [];
+  let baseline: HistorySnapshot | null = null;
+  let lastChangeKey: string | null = null;
+  let lastChangeAt = 0;
+  let suppressed = 0;
+
+  const syncFlags = () => {
+    const state = api.getState();
+    const canUndo = past.length > 0;
+    const canRedo = future.length > 0;
+    if (state.config.canUndo !== canUndo || state.config.canRedo !== canRedo) {
+      setFlags(canUndo, canRedo);
+    }
+  };
+
+  const rebase = () => {
+    baseline = captureSnapshot(api.getState());
+    lastChangeKey = null;
+  };
+
+  api.subscribe((state) => {
+    if (suppressed > 0) return;
+
+    const next = captureSnapshot(state);
+    if (!baseline) {
+      baseline = next;
+      return;
+    }
+
+    const changeKey = describeChange(baseline, next);
+    if (!changeKey) {
+      baseline = next;
+      return;
+    }
+
+    const timestamp = now();
+    const coalesce =
+      changeKey === lastChangeKey &&
+      timestamp - lastChangeAt <= COALESCE_WINDOW_MS &&
+      past.length > 0;
+
+    if (!coalesce) {
+      past.push({ snapshot: baseline });
+      if (past.length > MAX_HISTORY_ENTRIES) past.shift();
+    }
+    future.length = 0;
+
+    baseline = next;
+    lastChangeKey = changeKey;
+    lastChangeAt = timestamp;
+    syncFlags();
+  });
+
+  return {
+    reset: () => {
+      past.length = 0;
+      future.length = 0;
+      rebase();
+      syncFlags();
+    },
+
+    rebase,
+
+    withoutRecording: (fn) => {
+      suppressed++;
+      try {
+        fn();
+      } finally {
+        suppressed--;
+      }
+      rebase();
+    },
+
+    undo: () => {
+      const entry = past.pop();
+      if (!entry) return null;
+      future.push({ snapshot: captureSnapshot(api.getState()) });
+      lastChangeKey = null;
+      return entry.snapshot;
+    },
+
+    redo: () => {
+      const entry = future.pop();
+      if (!entry) return null;
+      past.push({ snapshot: captureSnapshot(api.getState()) });
+      lastChangeKey = null;
+      return entry.snapshot;
+    },
+
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+  };
+}
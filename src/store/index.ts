@@ -13,6 +13,7 @@ import { createFormsSlice } from './slices/forms';
 import { createCTAsSlice } from './slices/ctas';
 import { createBranchesSlice } from './slices/branches';
 import { createContentShowcaseSlice } from './slices/contentShowcase';
+import { createTopicsSlice } from './slices/topics';
 import { createUISlice } from './slices/ui';
 import { createValidationSlice } from './slices/validation';
 import { createConfigSlice } from './slices/config';
@@ -20,7 +21,7 @@ import { createConfigSlice } from './slices/config';
  * Main Config Builder Store
  *
  * Architecture:
- * - Single store with domain slices (programs, forms, ctas, branches, cards)
+ * - Single store with domain slices (programs, forms, ctas, branches, cards, topics)
  * - UI state management (tabs, modals, toasts, loading)
  * - Validation state tracking (errors, warnings)
  * - Config lifecycle management (load, save, deploy, merge)
@@ -39,6 +40,7 @@ export const useConfigStore = create<ConfigBuilderState>()(
       ctas: createCTAsSlice(set, get, api),
       branches: createBranchesSlice(set, get, api),
       contentShowcase: createContentShowcaseSlice(set, get, api),
+      topics: createTopicsSlice(set, get, api),
 
       // Application state
       ui: createUISlice(set, get, api),
@@ -82,6 +84,11 @@ export const useBranches = () => useConfigStore((state) => state.branches);
  */
 export const useContentShowcase = () => useConfigStore((state) => state.contentShowcase);
 
+/**
+ * Hook to access topics slice
+ */
+export const useTopics = () => useConfigStore((state) => state.topics);
+
 /**
  * Hook to access UI slice
  */
@@ -192,6 +199,7 @@ export type {
   CTAsSlice,
   BranchesSlice,
   ContentShowcaseSlice,
+  TopicsSlice,
   UISlice,
   ValidationSlice,
   ConfigSlice,
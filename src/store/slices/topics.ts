@@ -0,0 +1,154 @@
+/**
+ * Topics Slice
+ * Manages V4.1 topic definitions (classifier taxonomy for CTA pool selection)
+ *
+ * Stored as an array (topic_definitions) like content_showcase; CTAs reference
+ * topics by ID through selection_metadata.topic_tags.
+ */
+
+import type { TopicDefinition, CTADefinition } from '@/types/config';
+import type { SliceCreator, TopicsSlice, Dependencies } from '../types';
+
+/** True when the CTA can be offered for the topic by pool selection */
+export function isEligibleForTopic(cta: CTADefinition, topicId: string): boolean {
+  return !!cta.ai_available && !!cta.selection_metadata?.topic_tags?.includes(topicId);
+}
+
+export const createTopicsSlice: SliceCreator<TopicsSlice> = (set, get) => ({
+  // State
+  topic_definitions: [],
+
+  // Actions
+  createTopic: (topic: TopicDefinition) => {
+    if (get().topics.getTopic(topic.id)) {
+      get().ui.addToast({
+        type: 'error',
+        message: `Topic ID "${topic.id}" already exists`,
+      });
+      return;
+    }
+
+    set((state) => {
+      state.topics.topic_definitions.push(topic);
+      state.config.isDirty = true;
+    });
+
+    get().ui.addToast({
+      type: 'success',
+      message: `Topic "${topic.label}" created successfully`,
+    });
+
+    // Re-run validation after creating topic
+    get().validation.validateAll();
+  },
+
+  updateTopic: (topicId: string, updates: Partial<TopicDefinition>) => {
+    let updateSucceeded = false;
+
+    set((state) => {
+      const index = state.topics.topic_definitions.findIndex((topic) => topic.id === topicId);
+      if (index === -1) return;
+
+      const newTopicId = updates.id ?? topicId;
+      if (
+        newTopicId !== topicId &&
+        state.topics.topic_definitions.some((topic) => topic.id === newTopicId)
+      ) {
+        get().ui.addToast({
+          type: 'error',
+          message: `Topic ID "${newTopicId}" already exists`,
+        });
+        return;
+      }
+
+      state.topics.topic_definitions[index] = {
+        ...state.topics.topic_definitions[index],
+        ...updates,
+      };
+
+      // Cascade a rename into every CTA tagged with the old ID
+      if (newTopicId !== topicId) {
+        Object.values(state.ctas.ctas).forEach((cta) => {
+          const tags = cta.selection_metadata?.topic_tags;
+          if (tags?.includes(topicId)) {
+            cta.selection_metadata!.topic_tags = tags.map((tag) =>
+              tag === topicId ? newTopicId : tag
+            );
+          }
+        });
+      }
+
+      state.config.isDirty = true;
+      updateSucceeded = true;
+    });
+
+    if (updateSucceeded) {
+      get().ui.addToast({
+        type: 'success',
+        message: 'Topic updated successfully',
+      });
+    }
+
+    // Re-run validation after updating topic
+    get().validation.validateAll();
+  },
+
+  deleteTopic: (topicId: string) => {
+    const dependencies = get().topics.getTopicDependencies(topicId);
+
+    // Check if topic is used by any CTAs
+    if (dependencies.ctas.length > 0) {
+      get().ui.addToast({
+        type: 'error',
+        message: `Cannot delete topic. It is tagged on ${dependencies.ctas.length} CTA(s).`,
+      });
+      return;
+    }
+
+    set((state) => {
+      const index = state.topics.topic_definitions.findIndex((topic) => topic.id === topicId);
+      if (index !== -1) {
+        const topicLabel = state.topics.topic_definitions[index].label;
+        state.topics.topic_definitions.splice(index, 1);
+        state.config.isDirty = true;
+
+        get().ui.addToast({
+          type: 'success',
+          message: `Topic "${topicLabel}" deleted`,
+        });
+      }
+    });
+
+    // Re-run validation after deleting topic
+    get().validation.validateAll();
+  },
+
+  // Selectors
+  getTopic: (topicId: string) => {
+    return get().topics.topic_definitions.find((topic) => topic.id === topicId);
+  },
+
+  getEligibleCTAs: (topicId: string) => {
+    return Object.entries(get().ctas.ctas)
+      .filter(([, cta]) => isEligibleForTopic(cta, topicId))
+      .map(([id, cta]) => ({ id, cta }));
+  },
+
+  getTopicDependencies: (topicId: string) => {
+    const dependencies: Dependencies = {
+      programs: [],
+      forms: [],
+      ctas: [],
+      branches: [],
+    };
+
+    // Find CTAs tagged with this topic (eligible or not)
+    Object.entries(get().ctas.ctas).forEach(([ctaId, cta]) => {
+      if (cta.selection_metadata?.topic_tags?.includes(topicId)) {
+        dependencies.ctas.push(ctaId);
+      }
+    });
+
+    return dependencies;
+  },
+});
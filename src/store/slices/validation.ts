@@ -107,6 +107,7 @@ export const createValidationSlice: SliceCreator<ValidationSlice> = (set, get) =
       ...Object.keys(state.branches.branches),
       ...Object.keys(state.config.baseConfig?.action_chips?.default_chips || {}),
       ...state.contentShowcase.content_showcase.map((item) => item.id),
+      ...state.topics.topic_definitions.map((topic) => topic.id),
     ];
 
     allEntityIds.forEach((entityId) => {
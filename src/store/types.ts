@@ -11,8 +11,12 @@ import type {
   CTADefinition,
   ConversationBranch,
   ShowcaseItem,
+  TopicDefinition,
   TenantConfig,
 } from '@/types/config';
+import type { MigrationReport } from '@/lib/migrations';
+import type { ImportPlan } from '@/lib/entityImport';
+import type { BundleImportMode, EntityBundleImport } from '@/lib/entityBundles';
 
 // ============================================================================
 // UTILITY TYPES
@@ -163,6 +167,26 @@ export interface ContentShowcaseSlice {
   getShowcaseItem: (id: string) => ShowcaseItem | undefined;
 }
 
+// ============================================================================
+// TOPICS SLICE
+// ============================================================================
+
+export interface TopicsSlice {
+  // State
+  topic_definitions: TopicDefinition[];
+
+  // Actions
+  createTopic: (topic: TopicDefinition) => void;
+  updateTopic: (topicId: string, updates: Partial<TopicDefinition>) => void;
+  deleteTopic: (topicId: string) => void;
+
+  // Selectors
+  getTopic: (topicId: string) => TopicDefinition | undefined;
+  /** ai_available CTAs tagged with the topic — the pool selection candidates */
+  getEligibleCTAs: (topicId: string) => Array<{ id: string; cta: CTADefinition }>;
+  getTopicDependencies: (topicId: string) => Dependencies;
+}
+
 // ============================================================================
 // UI SLICE
 // ============================================================================
@@ -245,10 +269,27 @@ export interface ConfigConflictState {
   currentETag: string | null;
 }
 
+/**
+ * A stored draft (lib/drafts) found for the tenant just loaded, awaiting the
+ * operator's resume/discard decision
+ */
+export interface PendingDraft {
+  savedAt: number;
+  baseEtag: string | null;
+  /** The server config changed since the draft was started (or can't be verified) */
+  isStale: boolean;
+}
+
 export interface ConfigSlice {
   // Loaded config state
   tenantId: string | null;
   baseConfig: TenantConfig | null;
+  /**
+   * The config as last loaded from or written to the server. baseConfig
+   * drifts from it as settings panels edit in place; the deploy changelog
+   * diffs against this.
+   */
+  savedConfig: TenantConfig | null;
   /**
    * S3 ETag of baseConfig. Sent as If-Match on saves to detect
    * concurrent modifications. Null between tenant switches.
@@ -264,6 +305,15 @@ export interface ConfigSlice {
    */
   conflictState: ConfigConflictState | null;
 
+  /** Set by loadConfig when the tenant has an unsaved draft */
+  pendingDraft: PendingDraft | null;
+
+  /**
+   * Schema migrations that changed the loaded config (MigrationBanner).
+   * Null when the config was already in the current shape.
+   */
+  migrationReport: MigrationReport | null;
+
   // Actions
   loadConfig: (tenantId: string) => Promise<void>;
   saveConfig: () => Promise<void>;
@@ -276,6 +326,38 @@ export interface ConfigSlice {
    * does not discard unsaved work. Used by ConflictBanner's reload action.
    */
   reloadBaseForConflict: () => Promise<void>;
+  /**
+   * Restore a stored version (see configAPI.listConfigVersions) into the
+   * editor and save it. Sections the version lacks keep the editor's. The
+   * restore is an undo step, and the save goes through the normal
+   * validation and If-Match checks.
+   */
+  restoreVersion: (versionId: string) => Promise<void>;
+  /**
+   * Conflict recovery: adopt a three-way merge of the operator's edits and
+   * the server's config (see lib/diff/threeWayMerge), then save it against
+   * the server's ETag. Used by the conflict merge dialog.
+   */
+  applyConflictMerge: (
+    merged: TenantConfig,
+    server: { config: TenantConfig; etag: string }
+  ) => Promise<void>;
+  /** Replace the editor with the pending draft (an undo step) */
+  resumeDraft: () => Promise<void>;
+  /** Delete the pending draft and keep the loaded config */
+  discardDraft: () => Promise<void>;
+  /**
+   * Write entities copied from another tenant (see lib/entityImport) into
+   * the editor as one undo step. Saving is left to the operator.
+   */
+  importEntities: (plan: ImportPlan, sourceTenantId: string) => Promise<void>;
+  /**
+   * Write the entities read from a JSON or CSV bundle (see lib/entityBundles)
+   * into the editor as one undo step, merged or replacing the imported kinds
+   */
+  importEntityBundle: (imported: EntityBundleImport, mode: BundleImportMode) => Promise<void>;
+  /** Hide the migration record for this load */
+  dismissMigrationReport: () => void;
   clearConflict: () => void;
   markDirty: () => void;
   markClean: () => void;
@@ -283,7 +365,8 @@ export interface ConfigSlice {
   // Merge strategy
   getMergedConfig: () => TenantConfig | null;
 
-  // History (stubbed for MVP, can be implemented later)
+  // History — see store/history.ts. Captures domain-slice mutations and
+  // settings-panel writes to baseConfig; cleared by loadConfig/clearTenant.
   canUndo: boolean;
   canRedo: boolean;
   undo: () => void;
@@ -300,6 +383,7 @@ export interface ConfigBuilderState {
   ctas: CTAsSlice;
   branches: BranchesSlice;
   contentShowcase: ContentShowcaseSlice;
+  topics: TopicsSlice;
   ui: UISlice;
   validation: ValidationSlice;
   config: ConfigSlice;
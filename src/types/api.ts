@@ -52,7 +52,7 @@ export interface LoadTenantsResponse {
 
 export interface LoadConfigRequest {
   tenantId: string;
-  version?: string; // Optional: load specific version
+  version?: string; // Optional: versionId from listVersions (see loadConfigVersion)
 }
 
 export interface LoadConfigResponse {
@@ -67,6 +67,32 @@ export interface LoadConfigResponse {
   etag?: string;
 }
 
+// ============================================================================
+// VERSION HISTORY
+// ============================================================================
+
+/**
+ * A stored backup of a tenant config. Every save and deploy backs up the
+ * config it replaces, so the list is every version before the live one.
+ */
+export interface ConfigVersionSummary {
+  /** Backup key stem, e.g. "MYR384719-2026-10-19T11-50-00-000Z" */
+  versionId: string;
+  /** When this version was written (epoch ms) — its last_updated, else the backup time */
+  lastModified: number;
+  /** Stored size in bytes */
+  size: number;
+  /** config.version of the snapshot */
+  configVersion?: string;
+  /** Who wrote this version (last_updated_by), when the server recorded it */
+  modifiedBy?: string;
+}
+
+export interface LoadConfigVersionResponse {
+  config: TenantConfig;
+  version: ConfigVersionSummary;
+}
+
 // ============================================================================
 // SAVE OPERATIONS
 // ============================================================================
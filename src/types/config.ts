@@ -11,6 +11,8 @@
  * - Selection Metadata: Per-CTA metadata driving pool filtering
  */
 
+import type { SchedulingConfigInput } from '@/lib/schemas';
+
 // ============================================================================
 // PROGRAMS
 // ============================================================================
@@ -41,6 +43,13 @@ export const FORM_FIELD_TYPES = [
   'date',
   'name',      // Composite: first/middle/last name fields
   'address',   // Composite: street/city/state/zip fields
+  'multi_select', // Pick any number of options (min/max_selections)
+  'checkbox',  // Single yes/no tick box
+  'consent',   // Agree/decline with linked policy text
+  'file_upload', // Attachment; needs features.uploads
+  'rating',    // 1–5 scale
+  'time',
+  'date_range', // Start and end date in one answer
 ] as const;
 
 export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
@@ -75,6 +84,43 @@ export interface CompositeFieldConfig {
   subfields: FormSubField[];
 }
 
+/**
+ * Show-if rule operators. `in`/`not_in` take a list of values; the
+ * `is_answered` pair take none.
+ */
+export const FIELD_CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'greater_than',
+  'less_than',
+  'is_answered',
+  'is_not_answered',
+] as const;
+
+export type FieldConditionOperator = (typeof FIELD_CONDITION_OPERATORS)[number];
+
+/**
+ * One show-if rule: compares the answer to an earlier field. `field` is a
+ * field ID, or `fieldId.subfieldId` for part of a name/address field
+ * (e.g. `address.state`).
+ */
+export interface FieldCondition {
+  field: string;
+  operator: FieldConditionOperator;
+  value?: string | string[];
+}
+
+/**
+ * Ask the field only when all (AND) or any (OR) of the rules hold
+ */
+export interface FieldConditions {
+  match: 'all' | 'any';
+  rules: FieldCondition[];
+}
+
 export interface FormField {
   id: string;
   type: FormFieldType;
@@ -96,6 +142,21 @@ export interface FormField {
 
   // Age-based eligibility (for date fields)
   minimum_age?: number;
+
+  // Multi-select: how many options may be picked
+  min_selections?: number;
+  max_selections?: number;
+
+  // Consent: what the visitor agrees to (text and/or a link to the policy)
+  policy_text?: string;
+  policy_url?: string;
+
+  // File upload: MIME types such as "application/pdf" or "image/*"; any when absent
+  accepted_types?: string[];
+  max_file_size_mb?: number;
+
+  // Show-if rules on earlier answers; always asked when absent
+  conditions?: FieldConditions;
 }
 
 export type PostSubmissionActionType =
@@ -244,6 +305,48 @@ export interface CTADefinition {
    * (V5 single-pass / V4.0 Action Selector).
    */
   ai_available?: boolean;
+
+  /**
+   * V4.1 pool selection metadata. Only consulted for ai_available CTAs: the
+   * turn's classified topic narrows the pool to CTAs tagged with it.
+   */
+  selection_metadata?: SelectionMetadata;
+}
+
+// ============================================================================
+// TOPIC DEFINITIONS (V4.1 Pool Selection)
+// ============================================================================
+
+/**
+ * Per-CTA metadata driving pool filtering.
+ * depth_level and role_axis are open strings — presets live in the CTA editor.
+ */
+export interface SelectionMetadata {
+  /** Topic IDs (topic_definitions[].id) this CTA is eligible for */
+  topic_tags: string[];
+  /** Funnel depth, e.g. "info" (learn more) or "action" (apply, donate, book) */
+  depth_level?: string;
+  /** Visitor role the CTA speaks to, e.g. "give" or "act" */
+  role_axis?: string;
+  /** Always-relevant learning CTA for its topics */
+  core_learning?: boolean;
+  /** Lower values are offered first when the pool exceeds max_ctas_per_response */
+  priority?: number;
+}
+
+/**
+ * A classifier topic. Each turn is classified into one topic; CTAs opt in via
+ * selection_metadata.topic_tags.
+ */
+export interface TopicDefinition {
+  /** Stable key referenced by selection_metadata.topic_tags */
+  id: string;
+  /** Operator-facing name */
+  label: string;
+  /** Classifier guidance: which visitor messages belong to this topic */
+  description?: string;
+  /** Sample visitor messages that should classify into this topic */
+  examples?: string[];
 }
 
 // ============================================================================
@@ -654,6 +757,24 @@ export interface MessengerBehaviorConfig {
   };
 }
 
+// ============================================================================
+// LOCALIZATION
+// ============================================================================
+
+/**
+ * Locales the tenant serves and translations of its user-facing strings.
+ * The strings in the rest of the config are the default locale's; other
+ * locales translate them by string key (see src/lib/localization).
+ */
+export interface LocalizationConfig {
+  /** Locale the config's own strings are written in, e.g. "en" */
+  default_locale: string;
+  /** Locales offered to visitors, including the default */
+  enabled_locales: string[];
+  /** locale → string key → translated text */
+  translations?: Record<string, Record<string, string>>;
+}
+
 // ============================================================================
 // FULL TENANT CONFIG
 // ============================================================================
@@ -684,6 +805,9 @@ export interface TenantConfig {
   conversation_branches: Record<string, ConversationBranch>;
   content_showcase?: ShowcaseItem[];
 
+  // V4.1 classifier taxonomy for CTA pool selection
+  topic_definitions?: TopicDefinition[];
+
   // Configuration sections
   branding: BrandingConfig;
   features: FeaturesConfig;
@@ -697,6 +821,10 @@ export interface TenantConfig {
   // Pipeline feature flags
   feature_flags?: FeatureFlags;
 
+  // v1 scheduling block (required when feature_flags.scheduling_enabled).
+  // Stored shape — defaulted fields may be absent; see scheduling.schema.ts.
+  scheduling?: SchedulingConfigInput;
+
   // KB freshness monitoring
   monitor?: MonitorConfig;
 
@@ -708,6 +836,9 @@ export interface TenantConfig {
 
   // Messenger Channel Experience behavior tuning (contract C2; gated by feature_flags.MESSENGER_CHANNEL)
   messenger_behavior?: MessengerBehaviorConfig;
+
+  // Tenant locales and translations of user-facing strings
+  localization?: LocalizationConfig;
 }
 
 // ============================================================================
@@ -9,7 +9,7 @@
 // ENTITY TYPES
 // ============================================================================
 
-export type EntityType = 'program' | 'form' | 'cta' | 'branch' | 'card' | 'config';
+export type EntityType = 'program' | 'form' | 'cta' | 'branch' | 'card' | 'showcase' | 'action_chip' | 'config';
 
 // ============================================================================
 // VALIDATION RESULTS
@@ -88,6 +88,8 @@ export interface DependencyGraph {
   forms: Record<string, Dependencies>;
   ctas: Record<string, Dependencies>;
   branches: Record<string, Dependencies>;
+  showcaseItems: Record<string, Dependencies>;
+  actionChips: Record<string, Dependencies>;
 }
 
 // ============================================================================
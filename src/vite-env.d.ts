@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_S3_BUCKET: string;
   readonly VITE_AWS_REGION: string;
   readonly VITE_API_URL: string;
+  readonly VITE_WEBHOOK_ECHO_URL?: string;
+  readonly VITE_SAVE_PENDING_SECTIONS?: string;
 }
 
 interface ImportMeta {